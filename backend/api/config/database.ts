@@ -30,6 +30,15 @@ export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
   }
 });
 
+/**
+ * 取嵌套查询的单条关联记录
+ * @description 未生成数据库类型时多对一关联被推断为数组，实际返回对象，统一转换为对象
+ * @param relation 关联记录，对象或数组
+ * @returns 关联记录，不存在时返回 null
+ */
+export const firstRelation = <T>(relation: T | T[] | null | undefined): T | null =>
+  (Array.isArray(relation) ? relation[0] : relation) ?? null;
+
 /**
  * 测试数据库连接
  * @description 测试与Supabase数据库的连接是否正常
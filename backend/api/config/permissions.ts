@@ -39,32 +39,206 @@ export const API_PERMISSION_MAP: Record<string, string> = {
   'GET /api/permissions/grouped': 'permission.config',
   'POST /api/permissions/assign': 'permission.config',
 
+  // 送检管理API权限映射
+  'GET /api/submissions': 'submission.list',
+  'GET /api/submissions/options': 'submission.create',
+  'GET /api/submissions/:id': 'submission.detail',
+  'GET /api/submissions/:id/progress': 'submission.progress',
+  'POST /api/submissions': 'submission.create',
+  'PUT /api/submissions/:id/status': 'submission.edit',
+  'POST /api/submissions/:id/cancel': 'submission.cancel',
+
   // 样本管理API权限映射
   'GET /api/samples': 'sample.list',
+  'GET /api/samples/options': 'sample.receive',
   'GET /api/samples/:id': 'sample.list',
-  'POST /api/samples': 'sample.create',
-  'PUT /api/samples/:id': 'sample.edit',
-  'DELETE /api/samples/:id': 'sample.delete',
-  'POST /api/samples/:id/receive': 'sample.receive',
-  'POST /api/samples/:id/storage': 'sample.storage',
-  'POST /api/samples/:id/destroy': 'sample.destroy',
-
-  // 检测项目API权限映射
-  'GET /api/tests': 'routine.list',
-  'GET /api/tests/:id': 'routine.list',
-  'POST /api/tests': 'routine.create',
-  'PUT /api/tests/:id': 'routine.edit',
-  'DELETE /api/tests/:id': 'routine.delete',
-  'POST /api/tests/:id/results': 'routine.data_entry',
+  'GET /api/samples/:id/operations': 'sample.list',
+  'POST /api/samples': 'sample.receive',
+  'POST /api/samples/labels': 'sample.receive',
+  'POST /api/samples/manifest/validate': 'sample.receive',
+  'POST /api/samples/manifest/import': 'sample.receive',
+  'PUT /api/samples/:id': 'sample.receive',
+  'DELETE /api/samples/:id': 'sample.receive',
+  'POST /api/samples/:id/transition': 'sample.storage',
+  'POST /api/samples/:id/derive': 'sample.receive',
+  'GET /api/samples/:id/lineage': 'sample.list',
+  'POST /api/samples/:id/hold': 'sample.destroy',
+  'DELETE /api/samples/:id/hold': 'sample.destroy',
+  'POST /api/samples/:id/reject': 'sample.receive',
+
+  // 样本存储位置API权限映射
+  'GET /api/storage/units': 'sample.storage',
+  'GET /api/storage/units/:id': 'sample.storage',
+  'POST /api/storage/units': 'sample.storage',
+  'PUT /api/storage/units/:id': 'sample.storage',
+  'DELETE /api/storage/units/:id': 'sample.storage',
+  'GET /api/storage/free-slots': 'sample.storage',
+  'GET /api/storage/boxes/:id/map': 'sample.storage',
+  'POST /api/storage/samples/:id/move': 'sample.storage',
+
+  // 样本销毁管理API权限映射（审批另需实验室主管角色）
+  'GET /api/sample-destruction/due': 'sample.destroy',
+  'POST /api/sample-destruction/retention/run': 'sample.destroy',
+  'GET /api/sample-destruction/batches': 'sample.destroy',
+  'GET /api/sample-destruction/batches/:id': 'sample.destroy',
+  'POST /api/sample-destruction/batches': 'sample.destroy',
+  'POST /api/sample-destruction/batches/:id/review': 'sample.destroy',
+  'POST /api/sample-destruction/batches/:id/cancel': 'sample.destroy',
+  'POST /api/sample-destruction/batches/:id/execute': 'sample.destroy',
+  'GET /api/sample-destruction/batches/:id/certificate': 'sample.destroy',
+
+  // 样本拒收与重采管理API权限映射
+  'GET /api/sample-rejections': 'sample.list',
+  'GET /api/sample-rejections/:id': 'sample.list',
+  'POST /api/sample-rejections/:id/fulfil': 'sample.receive',
+  'POST /api/sample-rejections/:id/cancel': 'sample.receive',
+
+  // 样本借出管理API权限映射（审批另需实验室主管角色）
+  'GET /api/sample-checkouts/outstanding': 'sample.storage',
+  'POST /api/sample-checkouts/overdue/run': 'sample.storage',
+  'GET /api/sample-checkouts': 'sample.storage',
+  'GET /api/sample-checkouts/:id': 'sample.storage',
+  'POST /api/sample-checkouts': 'sample.storage',
+  'POST /api/sample-checkouts/:id/review': 'sample.storage',
+  'POST /api/sample-checkouts/:id/cancel': 'sample.storage',
+  'POST /api/sample-checkouts/:id/pick': 'sample.storage',
+  'POST /api/sample-checkouts/:id/return': 'sample.storage',
+
+  // 存储温度偏离管理API权限映射（样本评估另需质控角色）
+  'GET /api/temperature-excursions/points': 'environment.monitoring',
+  'PUT /api/temperature-excursions/points/:id': 'environment.monitoring',
+  'POST /api/temperature-excursions/scan': 'environment.monitoring',
+  'GET /api/temperature-excursions': 'environment.monitoring',
+  'GET /api/temperature-excursions/:id': 'environment.monitoring',
+  'POST /api/temperature-excursions/:id/assess': 'environment.monitoring',
+
+  // 实验管理API权限映射（按实验方法在路由内细分权限）
+  'GET /api/experiments': 'routine.list',
+  'GET /api/experiments/:id': 'routine.list',
+  'POST /api/experiments/batch': 'routine.data_entry',
+  'PUT /api/experiments/:id/results': 'routine.data_entry',
+  'POST /api/experiments/:id/start': 'routine.data_entry',
+  'POST /api/experiments/:id/complete': 'routine.data_entry',
+  'POST /api/experiments/:id/cancel': 'routine.data_entry',
+  'GET /api/experiments/reviews/pending': 'routine.data_review',
+  'POST /api/experiments/:id/review': 'routine.data_review',
+  'GET /api/experiments/:id/audits': 'routine.list',
+
+  // 孔板布局管理API权限映射（按批次实验方法在路由内细分权限）
+  'GET /api/plate-layouts/patterns': 'routine.list',
+  'GET /api/plate-layouts': 'routine.list',
+  'POST /api/plate-layouts/auto-fill': 'routine.data_entry',
+  'GET /api/plate-layouts/:id': 'routine.list',
+  'PUT /api/plate-layouts/:id/wells': 'routine.data_entry',
+  'POST /api/plate-layouts/:id/confirm': 'routine.data_entry',
+  'POST /api/plate-layouts/:id/reopen': 'routine.data_entry',
+  'GET /api/plate-layouts/:id/worklist': 'routine.list',
+  'GET /api/plate-layouts/:id/map': 'routine.list',
+
+  // 仪器结果导入API权限映射（按映射方案实验方法在路由内细分权限）
+  'GET /api/instrument-imports/profiles': 'routine.list',
+  'POST /api/instrument-imports/profiles': 'routine.data_entry',
+  'PUT /api/instrument-imports/profiles/:id': 'routine.data_entry',
+  'POST /api/instrument-imports/validate': 'routine.data_entry',
+  'POST /api/instrument-imports': 'routine.data_entry',
+  'GET /api/instrument-imports': 'routine.list',
+
+  // 质控管理API权限映射
+  'GET /api/qc/items': 'mass_spec.qc',
+  'GET /api/qc/lots': 'mass_spec.qc',
+  'GET /api/qc/lots/:id': 'mass_spec.qc',
+  'POST /api/qc/lots': 'mass_spec.qc',
+  'PUT /api/qc/lots/:id': 'mass_spec.qc',
+  'GET /api/qc/rules': 'mass_spec.qc',
+  'GET /api/qc/results': 'mass_spec.qc',
+  'POST /api/qc/results': 'mass_spec.qc',
+  'POST /api/qc/results/:id/resolve': 'mass_spec.qc',
+  'GET /api/qc/levey-jennings': 'mass_spec.qc',
+  'GET /api/qc/runs/:batchNo': 'mass_spec.qc',
+
+  // 校准曲线API权限映射
+  'GET /api/calibration-curves': 'mass_spec.list',
+  'GET /api/calibration-curves/items': 'mass_spec.list',
+  'POST /api/calibration-curves/fit': 'mass_spec.data_entry',
+  'POST /api/calibration-curves': 'mass_spec.data_entry',
+  'GET /api/calibration-curves/:id': 'mass_spec.list',
+  'POST /api/calibration-curves/:id/quantify/validate': 'mass_spec.data_entry',
+  'POST /api/calibration-curves/:id/quantify': 'mass_spec.data_entry',
+
+  // 化合物库API权限映射
+  'GET /api/compounds': 'mass_spec.list',
+  'GET /api/compounds/adducts': 'mass_spec.list',
+  'GET /api/compounds/:id': 'mass_spec.list',
+  'POST /api/compounds': 'mass_spec.data_review',
+  'PUT /api/compounds/:id': 'mass_spec.data_review',
+
+  // 质谱峰鉴定API权限映射
+  'GET /api/mass-spec-peaks/experiments/:id': 'mass_spec.list',
+  'PUT /api/mass-spec-peaks/experiments/:id': 'mass_spec.data_entry',
+  'POST /api/mass-spec-peaks/experiments/:id/rematch': 'mass_spec.data_entry',
+  'POST /api/mass-spec-peaks/:id/review': 'mass_spec.data_review',
+
+  // 质谱进样序列API权限映射
+  'GET /api/injection-sequences/rules': 'mass_spec.list',
+  'GET /api/injection-sequences': 'mass_spec.list',
+  'POST /api/injection-sequences/generate': 'mass_spec.data_entry',
+  'GET /api/injection-sequences/:id': 'mass_spec.list',
+  'PUT /api/injection-sequences/:id/items': 'mass_spec.data_entry',
+  'POST /api/injection-sequences/:id/confirm': 'mass_spec.data_entry',
+  'POST /api/injection-sequences/:id/reopen': 'mass_spec.data_entry',
+  'GET /api/injection-sequences/:id/export': 'mass_spec.list',
+
+  // 实验员分配API权限映射
+  'GET /api/technician-assignments/workloads': 'routine.list',
+  'POST /api/technician-assignments/proposals': 'routine.data_entry',
+  'POST /api/technician-assignments/auto': 'routine.data_entry',
+  'POST /api/technician-assignments': 'routine.data_entry',
+
+  // 异常与CAPA管理API权限映射
+  'GET /api/exceptions': 'routine.exception',
+  'GET /api/exceptions/capa-log/export': 'routine.exception',
+  'GET /api/exceptions/:id': 'routine.exception',
+  'POST /api/exceptions': 'routine.exception',
+  'POST /api/exceptions/:id/assign': 'routine.exception',
+  'PUT /api/exceptions/:id/investigation': 'routine.exception',
+  'POST /api/exceptions/:id/actions': 'routine.exception',
+  'PUT /api/exceptions/:id/actions/:actionId': 'routine.exception',
+  'POST /api/exceptions/:id/actions/:actionId/cancel': 'routine.exception',
+  'POST /api/exceptions/:id/actions/:actionId/complete': 'routine.exception',
+  'POST /api/exceptions/:id/actions/:actionId/effectiveness': 'routine.exception',
+  'POST /api/exceptions/:id/close': 'routine.exception',
+  'POST /api/exceptions/:id/cancel': 'routine.exception',
 
   // 报告管理API权限映射
   'GET /api/reports': 'report.list',
   'GET /api/reports/:id': 'report.list',
   'POST /api/reports': 'report.edit',
   'PUT /api/reports/:id': 'report.edit',
-  'DELETE /api/reports/:id': 'report.delete',
+  'DELETE /api/reports/:id': 'report.edit',
   'POST /api/reports/:id/generate-pdf': 'report.edit',
+  'GET /api/reports/:id/download': 'report.list',
   'GET /api/reports/statistics': 'report.list',
+  'POST /api/reports/:id/submit': 'report.edit',
+  'POST /api/reports/:id/review': 'report.review',
+  'GET /api/reports/:id/audits': 'report.list',
+  'POST /api/reports/:id/release': 'report.review',
+  'GET /api/reports/:id/deliveries': 'report.list',
+  'POST /api/reports/:id/deliveries': 'report.edit',
+  'PUT /api/reports/:id/deliveries/:deliveryId': 'report.edit',
+  'GET /api/reports/:id/versions': 'report.list',
+  'GET /api/reports/:id/versions/:versionNo': 'report.list',
+
+  // 报告模板管理API权限映射
+  'GET /api/report-templates': 'report.template',
+  'GET /api/report-templates/placeholders': 'report.template',
+  'POST /api/report-templates/preview': 'report.template',
+  'GET /api/report-templates/:id': 'report.template',
+  'POST /api/report-templates': 'report.template',
+  'PUT /api/report-templates/:id': 'report.template',
+  'DELETE /api/report-templates/:id': 'report.template',
+  'POST /api/report-templates/:id/default': 'report.template',
+  'POST /api/report-templates/:id/toggle-status': 'report.template',
+  'GET /api/report-templates/:id/versions': 'report.template',
 
   // 系统设置API权限映射
   'GET /api/system/sample-types': 'settings.basic',
@@ -183,10 +357,12 @@ export const PERMISSION_GROUPS = {
       'mass_spec.data_entry',
       'mass_spec.data_review',
       'mass_spec.qc',
+      'mass_spec.exception',
       'special.list',
       'special.wet_lab',
       'special.instrument',
-      'special.analysis'
+      'special.analysis',
+      'special.exception'
     ]
   },
   
@@ -254,4 +254,3072 @@ export const sampleTypeSchema = Joi.object({
   sortOrder: Joi.number()
     .integer()
     .default(0)
-});
\ No newline at end of file
+});
+/**
+ * 送检列表查询验证模式
+ */
+export const submissionQuerySchema = paginationSchema.keys({
+  client_unit_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '送检单位ID必须是有效的UUID格式'
+    }),
+
+  is_urgent: Joi.boolean()
+    .optional(),
+
+  date_from: Joi.date()
+    .iso()
+    .optional(),
+
+  date_to: Joi.date()
+    .iso()
+    .optional()
+});
+
+/**
+ * 创建送检申请验证模式
+ */
+export const createSubmissionSchema = Joi.object({
+  client_unit_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '送检单位ID必须是有效的UUID格式',
+      'any.required': '送检单位是必填项'
+    }),
+
+  patient_name: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': '患者姓名不能超过100个字符',
+      'any.required': '患者姓名是必填项'
+    }),
+
+  patient_gender: Joi.string()
+    .valid('male', 'female', 'unknown')
+    .default('unknown')
+    .messages({
+      'any.only': '患者性别只能是 male、female 或 unknown'
+    }),
+
+  patient_age: Joi.number()
+    .integer()
+    .min(0)
+    .max(150)
+    .optional()
+    .messages({
+      'number.min': '患者年龄不能小于0',
+      'number.max': '患者年龄不能超过150'
+    }),
+
+  patient_id_card: Joi.string()
+    .max(50)
+    .optional()
+    .allow(''),
+
+  contact_phone: Joi.string()
+    .max(20)
+    .optional()
+    .allow(''),
+
+  is_urgent: Joi.boolean()
+    .default(false),
+
+  clinical_info: Joi.string()
+    .optional()
+    .allow(''),
+
+  sample_info: Joi.string()
+    .optional()
+    .allow(''),
+
+  attachment_urls: Joi.array()
+    .items(Joi.string())
+    .default([]),
+
+  products: Joi.array()
+    .items(Joi.object({
+      product_id: Joi.string()
+        .uuid()
+        .required()
+        .messages({
+          'string.uuid': '检测产品ID必须是有效的UUID格式',
+          'any.required': '检测产品是必填项'
+        }),
+      quantity: Joi.number()
+        .integer()
+        .min(1)
+        .default(1)
+        .messages({
+          'number.min': '产品数量必须大于0'
+        })
+    }))
+    .min(1)
+    .required()
+    .messages({
+      'array.min': '至少需要选择一个检测产品',
+      'any.required': '检测产品是必填项'
+    })
+});
+
+/**
+ * 送检状态变更验证模式
+ */
+export const submissionStatusSchema = Joi.object({
+  status: Joi.string()
+    .valid('submitted', 'received', 'in_progress', 'completed', 'cancelled', 'abnormal')
+    .required()
+    .messages({
+      'any.only': '无效的送检状态',
+      'any.required': '目标状态是必填项'
+    }),
+
+  description: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 取消送检验证模式
+ */
+export const cancelSubmissionSchema = Joi.object({
+  reason: Joi.string()
+    .max(500)
+    .required()
+    .messages({
+      'string.max': '取消原因不能超过500个字符',
+      'any.required': '取消原因是必填项'
+    })
+});
+
+/**
+ * 样本列表查询验证模式
+ */
+export const sampleQuerySchema = paginationSchema.keys({
+  submission_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '送检单ID必须是有效的UUID格式'
+    }),
+
+  sample_type_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '样本类型ID必须是有效的UUID格式'
+    }),
+
+  date_from: Joi.date()
+    .iso()
+    .optional(),
+
+  date_to: Joi.date()
+    .iso()
+    .optional()
+});
+
+/**
+ * 样本登记验证模式
+ */
+export const createSampleSchema = Joi.object({
+  submission_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '送检单ID必须是有效的UUID格式',
+      'any.required': '送检单是必填项'
+    }),
+
+  sample_type_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '样本类型ID必须是有效的UUID格式',
+      'any.required': '样本类型是必填项'
+    }),
+
+  barcode: Joi.string()
+    .max(100)
+    .optional()
+    .messages({
+      'string.max': '条形码不能超过100个字符'
+    }),
+
+  volume: Joi.number()
+    .min(0)
+    .optional()
+    .messages({
+      'number.min': '样本量不能小于0'
+    }),
+
+  unit: Joi.string()
+    .max(20)
+    .optional(),
+
+  collection_time: Joi.date()
+    .iso()
+    .optional(),
+
+  storage_temperature: Joi.string()
+    .max(20)
+    .optional()
+    .allow(''),
+
+  rejection_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '重采申请ID必须是有效的UUID格式'
+    }),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 样本清单导入验证模式
+ * @description 仅校验行结构，字段内容由清单校验逐行检查并返回行级错误
+ */
+const manifestCell = Joi.string().allow('', null).optional();
+
+export const sampleManifestSchema = Joi.object({
+  file_name: Joi.string()
+    .max(255)
+    .required()
+    .messages({
+      'string.max': '文件名不能超过255个字符',
+      'any.required': '文件名是必填项'
+    }),
+
+  rows: Joi.array()
+    .items(Joi.object({
+      row_no: Joi.number().integer().min(1).required(),
+      submission_no: manifestCell,
+      sample_type: manifestCell,
+      barcode: manifestCell,
+      volume: Joi.alternatives().try(Joi.number(), Joi.string().allow('')).allow(null).optional(),
+      unit: manifestCell,
+      collection_time: manifestCell,
+      storage_temperature: manifestCell,
+      remarks: manifestCell
+    }))
+    .min(1)
+    .max(1000)
+    .required()
+    .messages({
+      'array.min': '清单中没有样本',
+      'array.max': '单次最多导入1000个样本',
+      'any.required': '清单内容是必填项'
+    })
+});
+
+/**
+ * 样本信息更新验证模式
+ * @description 状态、存储位置和余量只能通过状态流转接口变更
+ */
+export const updateSampleSchema = Joi.object({
+  sample_type_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '样本类型ID必须是有效的UUID格式'
+    }),
+
+  unit: Joi.string()
+    .max(20)
+    .optional(),
+
+  collection_time: Joi.date()
+    .iso()
+    .optional(),
+
+  storage_temperature: Joi.string()
+    .max(20)
+    .optional()
+    .allow(''),
+
+  expected_destroy_date: Joi.date()
+    .iso()
+    .optional()
+})
+  .min(1)
+  .messages({
+    'object.min': '至少需要更新一个字段'
+  });
+
+/**
+ * 样本状态流转验证模式
+ * @description 入库时可指定冻存盒孔位（box_id + position），也可填写存储位置文本
+ */
+export const sampleTransitionSchema = Joi.object({
+  status: Joi.string()
+    .valid('received', 'in_storage', 'out_for_test', 'testing', 'completed', 'destroyed', 'abnormal')
+    .required()
+    .messages({
+      'any.only': '无效的样本状态',
+      'any.required': '目标状态是必填项'
+    }),
+
+  to_location: Joi.string()
+    .max(100)
+    .optional()
+    .messages({
+      'string.max': '存储位置不能超过100个字符'
+    }),
+
+  box_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '冻存盒ID必须是有效的UUID格式'
+    }),
+
+  position: Joi.string()
+    .pattern(/^[A-Za-z]\d{1,2}$/)
+    .optional()
+    .messages({
+      'string.pattern.base': '孔位编号格式不正确，应为行字母加列号，如 A1'
+    }),
+
+  volume_after: Joi.number()
+    .min(0)
+    .optional()
+    .messages({
+      'number.min': '操作后余量不能小于0'
+    }),
+
+  reason: Joi.string()
+    .max(500)
+    .optional()
+    .messages({
+      'string.max': '原因不能超过500个字符'
+    }),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+}).and('box_id', 'position')
+  .oxor('box_id', 'to_location')
+  .messages({
+    'object.and': '冻存盒和孔位需同时提供',
+    'object.oxor': '指定冻存盒孔位时不能同时填写存储位置'
+  });
+
+/**
+ * 样本标签打印验证模式
+ * @description 未指定码制时使用系统配置的码制
+ */
+export const sampleLabelSchema = Joi.object({
+  sample_ids: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .max(200)
+    .unique()
+    .required()
+    .messages({
+      'array.min': '至少选择一个样本',
+      'array.max': '单次最多打印200个样本标签',
+      'any.required': '样本是必填项'
+    }),
+
+  format: Joi.string()
+    .valid('pdf', 'zpl')
+    .default('pdf')
+    .messages({
+      'any.only': '标签格式只能是 pdf 或 zpl'
+    }),
+
+  symbology: Joi.string()
+    .valid('code128', 'qrcode')
+    .optional()
+    .messages({
+      'any.only': '码制只能是 code128 或 qrcode'
+    }),
+
+  copies: Joi.number()
+    .integer()
+    .min(1)
+    .max(10)
+    .default(1)
+    .messages({
+      'number.min': '打印份数至少为1',
+      'number.max': '打印份数不能超过10'
+    })
+});
+
+/**
+ * 样本分装/衍生验证模式
+ * @description 分装时子样本沿用来源样本类型和单位；衍生时须指定产物类型和来源样本消耗量
+ */
+export const sampleDeriveSchema = Joi.object({
+  derivation_type: Joi.string()
+    .valid('aliquot', 'derivative')
+    .required()
+    .messages({
+      'any.only': '生成方式只能是 aliquot（分装）或 derivative（衍生）',
+      'any.required': '生成方式是必填项'
+    }),
+
+  children: Joi.array()
+    .items(Joi.object({
+      sample_type_id: Joi.when(Joi.ref('/derivation_type'), {
+        is: 'derivative',
+        then: Joi.string().uuid().required(),
+        otherwise: Joi.forbidden()
+      }).messages({
+        'string.uuid': '样本类型ID必须是有效的UUID格式',
+        'any.required': '衍生样本须指定样本类型',
+        'any.unknown': '分装样本沿用来源样本类型'
+      }),
+
+      volume: Joi.number()
+        .positive()
+        .required()
+        .messages({
+          'number.positive': '子样本体积必须大于0',
+          'any.required': '子样本体积是必填项'
+        }),
+
+      unit: Joi.string().max(20).optional(),
+
+      storage_temperature: Joi.string().max(20).optional().allow('')
+    }))
+    .min(1)
+    .max(96)
+    .required()
+    .messages({
+      'array.min': '至少生成一个子样本',
+      'array.max': '单次最多生成96个子样本',
+      'any.required': '子样本是必填项'
+    }),
+
+  consumed_volume: Joi.when('derivation_type', {
+    is: 'derivative',
+    then: Joi.number().positive().required(),
+    otherwise: Joi.forbidden()
+  }).messages({
+    'number.positive': '消耗量必须大于0',
+    'any.required': '衍生处理须填写来源样本消耗量',
+    'any.unknown': '分装按子样本体积之和扣减，无需填写消耗量'
+  }),
+
+  method: Joi.string()
+    .max(100)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '处理方法不能超过100个字符'
+    }),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 存储单元列表查询验证模式
+ * @description status 取值 active/inactive
+ */
+export const storageUnitQuerySchema = Joi.object({
+  unit_type: Joi.string()
+    .valid('freezer', 'shelf', 'rack', 'box')
+    .optional()
+    .messages({
+      'any.only': '单元类型只能是 freezer、shelf、rack 或 box'
+    }),
+
+  parent_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '上级单元ID必须是有效的UUID格式'
+    }),
+
+  temperature_class: Joi.string()
+    .valid('room', '2-8', '-20', '-80', 'ln2')
+    .optional()
+    .messages({
+      'any.only': '无效的温度等级'
+    }),
+
+  status: Joi.string()
+    .valid('active', 'inactive')
+    .optional()
+    .allow(''),
+
+  search: Joi.string()
+    .max(100)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 创建存储单元验证模式
+ * @description 冰箱须指定温度等级，下级单元继承上级单元的温度等级；冻存盒须指定行列数
+ */
+export const createStorageUnitSchema = Joi.object({
+  unit_type: Joi.string()
+    .valid('freezer', 'shelf', 'rack', 'box')
+    .required()
+    .messages({
+      'any.only': '单元类型只能是 freezer、shelf、rack 或 box',
+      'any.required': '单元类型是必填项'
+    }),
+
+  parent_id: Joi.string()
+    .uuid()
+    .optional()
+    .allow(null)
+    .messages({
+      'string.uuid': '上级单元ID必须是有效的UUID格式'
+    }),
+
+  code: Joi.string()
+    .pattern(/^[A-Za-z0-9_-]+$/)
+    .max(20)
+    .required()
+    .messages({
+      'string.pattern.base': '单元编码只能包含字母、数字、下划线和连字符',
+      'string.max': '单元编码不能超过20个字符',
+      'any.required': '单元编码是必填项'
+    }),
+
+  name: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': '单元名称不能超过100个字符',
+      'any.required': '单元名称是必填项'
+    }),
+
+  temperature_class: Joi.string()
+    .valid('room', '2-8', '-20', '-80', 'ln2')
+    .optional()
+    .messages({
+      'any.only': '无效的温度等级'
+    }),
+
+  rows: Joi.when('unit_type', {
+    is: 'box',
+    then: Joi.number().integer().min(1).max(26).required(),
+    otherwise: Joi.forbidden()
+  }).messages({
+    'number.min': '行数至少为1',
+    'number.max': '行数不能超过26',
+    'any.required': '冻存盒须指定行数',
+    'any.unknown': '只有冻存盒可以设置行列数'
+  }),
+
+  cols: Joi.when('unit_type', {
+    is: 'box',
+    then: Joi.number().integer().min(1).max(99).required(),
+    otherwise: Joi.forbidden()
+  }).messages({
+    'number.min': '列数至少为1',
+    'number.max': '列数不能超过99',
+    'any.required': '冻存盒须指定列数',
+    'any.unknown': '只有冻存盒可以设置行列数'
+  }),
+
+  sort_order: Joi.number().integer().min(0).default(0),
+
+  remarks: Joi.string().max(500).optional().allow('')
+});
+
+/**
+ * 更新存储单元验证模式
+ * @description 单元类型、编码和上级单元创建后不可修改；冻存盒行列数仅能在不影响已占用孔位时调整
+ */
+export const updateStorageUnitSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .optional()
+    .messages({
+      'string.max': '单元名称不能超过100个字符'
+    }),
+
+  rows: Joi.number().integer().min(1).max(26).optional(),
+
+  cols: Joi.number().integer().min(1).max(99).optional(),
+
+  sort_order: Joi.number().integer().min(0).optional(),
+
+  is_active: Joi.boolean().optional(),
+
+  remarks: Joi.string().max(500).optional().allow('')
+}).min(1).messages({
+  'object.min': '至少需要修改一项内容'
+});
+
+/**
+ * 空闲孔位查询验证模式
+ * @description 指定样本时按样本保存温度匹配温度等级
+ */
+export const freeSlotQuerySchema = Joi.object({
+  temperature_class: Joi.string()
+    .valid('room', '2-8', '-20', '-80', 'ln2')
+    .optional()
+    .messages({
+      'any.only': '无效的温度等级'
+    }),
+
+  sample_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '样本ID必须是有效的UUID格式'
+    }),
+
+  unit_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '存储单元ID必须是有效的UUID格式'
+    }),
+
+  count: Joi.number()
+    .integer()
+    .min(1)
+    .max(200)
+    .default(1)
+    .messages({
+      'number.min': '数量至少为1',
+      'number.max': '单次最多查找200个孔位'
+    })
+});
+
+/**
+ * 样本移位验证模式
+ */
+export const sampleMoveSchema = Joi.object({
+  box_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '冻存盒ID必须是有效的UUID格式',
+      'any.required': '目标冻存盒是必填项'
+    }),
+
+  position: Joi.string()
+    .pattern(/^[A-Za-z]\d{1,2}$/)
+    .required()
+    .messages({
+      'string.pattern.base': '孔位编号格式不正确，应为行字母加列号，如 A1',
+      'any.required': '目标孔位是必填项'
+    }),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 到期待销毁样本查询验证模式
+ * @description within_days 为提前天数，0 表示只查已到期样本
+ */
+export const dueSampleQuerySchema = Joi.object({
+  within_days: Joi.number()
+    .integer()
+    .min(0)
+    .max(365)
+    .default(0)
+    .messages({
+      'number.min': '提前天数不能小于0',
+      'number.max': '提前天数不能超过365'
+    }),
+
+  search: Joi.string()
+    .max(100)
+    .optional()
+    .allow(''),
+
+  sample_type_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '样本类型ID必须是有效的UUID格式'
+    })
+});
+
+/**
+ * 销毁批次列表查询验证模式
+ */
+export const destructionBatchQuerySchema = paginationSchema.keys({
+  status: Joi.string()
+    .valid('pending_approval', 'approved', 'rejected', 'completed', 'cancelled')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '无效的销毁批次状态'
+    })
+});
+
+/**
+ * 创建销毁批次验证模式
+ */
+export const createDestructionBatchSchema = Joi.object({
+  sample_ids: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .max(500)
+    .unique()
+    .required()
+    .messages({
+      'array.min': '至少选择一个样本',
+      'array.max': '单批次最多销毁500个样本',
+      'array.unique': '样本不能重复',
+      'any.required': '样本是必填项'
+    }),
+
+  reason: Joi.string()
+    .max(500)
+    .required()
+    .messages({
+      'string.max': '销毁原因不能超过500个字符',
+      'any.required': '销毁原因是必填项'
+    }),
+
+  destroy_method: Joi.string()
+    .max(50)
+    .required()
+    .messages({
+      'string.max': '销毁方式不能超过50个字符',
+      'any.required': '销毁方式是必填项'
+    }),
+
+  witness_name: Joi.string()
+    .max(100)
+    .optional()
+    .allow(''),
+
+  planned_date: Joi.date()
+    .iso()
+    .optional(),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 销毁批次审批验证模式
+ */
+export const destructionBatchReviewSchema = Joi.object({
+  result: Joi.string()
+    .valid('approved', 'rejected')
+    .required()
+    .messages({
+      'any.only': '审批结果只能是 approved 或 rejected',
+      'any.required': '审批结果是必填项'
+    }),
+
+  comments: Joi.string()
+    .max(1000)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '审批意见不能超过1000个字符'
+    })
+});
+
+/**
+ * 取消销毁批次验证模式
+ */
+export const cancelDestructionBatchSchema = Joi.object({
+  reason: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 执行销毁验证模式
+ * @description 销毁方式未填写时沿用申请时的方式
+ */
+export const executeDestructionBatchSchema = Joi.object({
+  witness_name: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': '见证人不能超过100个字符',
+      'any.required': '见证人是必填项'
+    }),
+
+  destroy_method: Joi.string()
+    .max(50)
+    .optional()
+    .messages({
+      'string.max': '销毁方式不能超过50个字符'
+    }),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 样本保留验证模式
+ * @description 未指定截止日期时保留至手动解除
+ */
+export const sampleHoldSchema = Joi.object({
+  hold_type: Joi.string()
+    .valid('legal', 'research')
+    .required()
+    .messages({
+      'any.only': '保留类型只能是 legal（法律保留）或 research（科研保留）',
+      'any.required': '保留类型是必填项'
+    }),
+
+  reason: Joi.string()
+    .max(500)
+    .required()
+    .messages({
+      'string.max': '保留原因不能超过500个字符',
+      'any.required': '保留原因是必填项'
+    }),
+
+  hold_until: Joi.date()
+    .iso()
+    .optional()
+});
+
+/**
+ * 解除样本保留验证模式
+ */
+export const releaseSampleHoldSchema = Joi.object({
+  reason: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 样本拒收验证模式
+ * @description 原因为其他时必须填写说明
+ */
+export const sampleRejectSchema = Joi.object({
+  reason_code: Joi.string()
+    .valid('hemolysis', 'insufficient_volume', 'wrong_container', 'expired_stability', 'other')
+    .required()
+    .messages({
+      'any.only': '无效的拒收原因',
+      'any.required': '拒收原因是必填项'
+    }),
+
+  reason_detail: Joi.string()
+    .max(500)
+    .when('reason_code', {
+      is: 'other',
+      then: Joi.required(),
+      otherwise: Joi.optional().allow('')
+    })
+    .messages({
+      'string.max': '拒收说明不能超过500个字符',
+      'any.required': '拒收原因为其他时必须填写说明'
+    })
+});
+
+/**
+ * 重采申请列表查询验证模式
+ */
+export const sampleRejectionQuerySchema = paginationSchema.keys({
+  status: Joi.string()
+    .valid('awaiting_recollection', 'recollected', 'cancelled')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '无效的重采状态'
+    }),
+
+  reason_code: Joi.string()
+    .valid('hemolysis', 'insufficient_volume', 'wrong_container', 'expired_stability', 'other')
+    .optional()
+    .allow(''),
+
+  submission_id: Joi.string()
+    .uuid()
+    .optional()
+});
+
+/**
+ * 登记重采到样验证模式
+ */
+export const fulfilRecollectionSchema = Joi.object({
+  replacement_sample_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '替代样本ID必须是有效的UUID格式',
+      'any.required': '替代样本是必填项'
+    })
+});
+
+/**
+ * 取消重采申请验证模式
+ */
+export const cancelRecollectionSchema = Joi.object({
+  reason: Joi.string()
+    .max(500)
+    .required()
+    .messages({
+      'string.max': '取消原因不能超过500个字符',
+      'any.required': '取消原因是必填项'
+    })
+});
+
+/**
+ * 借出单列表查询验证模式
+ */
+export const sampleCheckoutQuerySchema = paginationSchema.keys({
+  status: Joi.string()
+    .valid('pending_approval', 'approved', 'rejected', 'checked_out', 'returned', 'cancelled')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '无效的借出单状态'
+    }),
+
+  holder_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '借出人ID必须是有效的UUID格式'
+    })
+});
+
+/**
+ * 创建借出单验证模式
+ * @description 未指定借出人时为申请人；未指定预计归还时间时按系统配置的默认时限计算
+ */
+export const createSampleCheckoutSchema = Joi.object({
+  sample_ids: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .max(200)
+    .unique()
+    .required()
+    .messages({
+      'array.min': '至少选择一个样本',
+      'array.max': '单张借出单最多200个样本',
+      'array.unique': '样本不能重复',
+      'any.required': '样本是必填项'
+    }),
+
+  reason: Joi.string()
+    .valid('testing', 'transfer', 'qc', 'other')
+    .required()
+    .messages({
+      'any.only': '无效的借出原因',
+      'any.required': '借出原因是必填项'
+    }),
+
+  purpose: Joi.string()
+    .max(500)
+    .when('reason', {
+      is: 'other',
+      then: Joi.required(),
+      otherwise: Joi.optional().allow('')
+    })
+    .messages({
+      'string.max': '借出用途不能超过500个字符',
+      'any.required': '借出原因为其他时必须填写用途'
+    }),
+
+  destination: Joi.string()
+    .max(100)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '样本去向不能超过100个字符'
+    }),
+
+  holder_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '借出人ID必须是有效的UUID格式'
+    }),
+
+  due_back_at: Joi.date()
+    .iso()
+    .optional(),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 借出单审批验证模式
+ */
+export const sampleCheckoutReviewSchema = Joi.object({
+  result: Joi.string()
+    .valid('approved', 'rejected')
+    .required()
+    .messages({
+      'any.only': '审批结果只能是 approved 或 rejected',
+      'any.required': '审批结果是必填项'
+    }),
+
+  comments: Joi.string()
+    .max(1000)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '审批意见不能超过1000个字符'
+    })
+});
+
+/**
+ * 取消借出单验证模式
+ */
+export const cancelSampleCheckoutSchema = Joi.object({
+  reason: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 借出扫码取样验证模式
+ */
+export const sampleCheckoutPickSchema = Joi.object({
+  barcode: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': '条码不能超过100个字符',
+      'any.required': '样本条码是必填项'
+    }),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 借出样本归还验证模式
+ * @description 可指定冻存盒孔位（box_id + position），未指定时放回保留的孔位或出库前位置
+ */
+export const sampleCheckoutReturnSchema = Joi.object({
+  barcode: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': '条码不能超过100个字符',
+      'any.required': '样本条码是必填项'
+    }),
+
+  volume_used: Joi.number()
+    .min(0)
+    .optional()
+    .messages({
+      'number.min': '用量不能小于0'
+    }),
+
+  box_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '冻存盒ID必须是有效的UUID格式'
+    }),
+
+  position: Joi.string()
+    .pattern(/^[A-Za-z]\d{1,2}$/)
+    .optional()
+    .messages({
+      'string.pattern.base': '孔位编号格式不正确，应为行字母加列号，如 A1'
+    }),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+}).and('box_id', 'position')
+  .messages({
+    'object.and': '冻存盒和孔位需同时提供'
+  });
+
+/**
+ * 借出中样本查询验证模式
+ */
+export const checkedOutSampleQuerySchema = Joi.object({
+  holder_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '借出人ID必须是有效的UUID格式'
+    }),
+
+  overdue_only: Joi.boolean()
+    .optional(),
+
+  search: Joi.string()
+    .max(100)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 温度偏离列表查询验证模式
+ */
+export const temperatureExcursionQuerySchema = paginationSchema.keys({
+  status: Joi.string()
+    .valid('ongoing', 'pending_assessment', 'assessed')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '无效的温度偏离状态'
+    }),
+
+  point_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '监控点ID必须是有效的UUID格式'
+    })
+});
+
+/**
+ * 温度偏离样本评估验证模式
+ * @description 评为不合格时必须填写评估意见
+ */
+export const temperatureExcursionAssessSchema = Joi.object({
+  sample_ids: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .max(500)
+    .unique()
+    .required()
+    .messages({
+      'array.min': '至少选择一个样本',
+      'array.max': '单次最多评估500个样本',
+      'array.unique': '样本不能重复',
+      'any.required': '样本是必填项'
+    }),
+
+  result: Joi.string()
+    .valid('assessed', 'unqualified')
+    .required()
+    .messages({
+      'any.only': '评估结果只能是 assessed 或 unqualified',
+      'any.required': '评估结果是必填项'
+    }),
+
+  comments: Joi.string()
+    .max(1000)
+    .when('result', {
+      is: 'unqualified',
+      then: Joi.required(),
+      otherwise: Joi.optional().allow('')
+    })
+    .messages({
+      'string.max': '评估意见不能超过1000个字符',
+      'any.required': '评为不合格时必须填写评估意见'
+    })
+});
+
+/**
+ * 监控点关联存储单元验证模式
+ * @description storage_unit_id 为 null 时取消关联
+ */
+export const monitoringPointLinkSchema = Joi.object({
+  storage_unit_id: Joi.string()
+    .uuid()
+    .allow(null)
+    .required()
+    .messages({
+      'string.uuid': '存储单元ID必须是有效的UUID格式',
+      'any.required': '存储单元是必填项'
+    })
+});
+
+/**
+ * 孔板标准品验证模式
+ */
+const plateStandardSchema = Joi.object({
+  label: Joi.string().max(50).required(),
+  level: Joi.string().max(20).optional().allow(''),
+  concentration: Joi.number().optional()
+});
+
+/**
+ * 孔板布局查询验证模式
+ */
+export const plateLayoutQuerySchema = Joi.object({
+  batch_no: Joi.string()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': '批次号是必填项'
+    })
+});
+
+/**
+ * 孔板自动填充验证模式
+ * @description 排布方案可直接使用系统配置的方案，也可在其基础上调整后提交
+ */
+export const plateAutoFillSchema = Joi.object({
+  batch_no: Joi.string()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': '批次号是必填项'
+    }),
+
+  plate_format: Joi.number()
+    .valid(96, 384)
+    .default(96)
+    .messages({
+      'any.only': '孔板规格只能是96或384'
+    }),
+
+  pattern: Joi.object({
+    key: Joi.string().max(50).optional(),
+    name: Joi.string().max(100).optional(),
+    direction: Joi.string().valid('row', 'column').required(),
+    blanks: Joi.number().integer().min(0).max(48).default(0),
+    calibrators: Joi.array().items(plateStandardSchema).max(24).default([]),
+    controls: Joi.array().items(plateStandardSchema).max(12).default([]),
+    control_interval: Joi.number().integer().min(0).max(384).default(0),
+    trailing_controls: Joi.boolean().default(false),
+    sample_replicates: Joi.number().integer().min(1).max(4).default(1),
+    skip_edge_wells: Joi.boolean().default(false)
+  }).required().messages({
+    'any.required': '排布方案是必填项'
+  })
+});
+
+/**
+ * 孔位分配保存验证模式
+ * @description 整板提交，样本孔须指定实验
+ */
+export const plateWellsSchema = Joi.object({
+  wells: Joi.array()
+    .items(Joi.object({
+      row_no: Joi.number().integer().min(1).max(16).required(),
+      col_no: Joi.number().integer().min(1).max(24).required(),
+      well_type: Joi.string()
+        .valid('sample', 'calibrator', 'control', 'blank')
+        .required()
+        .messages({
+          'any.only': '无效的孔位类型'
+        }),
+      experiment_id: Joi.string()
+        .uuid()
+        .when('well_type', {
+          is: 'sample',
+          then: Joi.required(),
+          otherwise: Joi.optional().allow(null)
+        })
+        .messages({
+          'any.required': '样本孔必须指定实验'
+        }),
+      label: Joi.string().max(50).optional().allow('', null),
+      level: Joi.string().max(20).optional().allow('', null),
+      concentration: Joi.number().optional().allow(null),
+      replicate: Joi.number().integer().min(1).max(4).optional()
+    }))
+    .max(384)
+    .required()
+    .messages({
+      'array.max': '孔位数量不能超过384',
+      'any.required': '孔位分配是必填项'
+    })
+});
+
+/**
+ * 工作列表导出验证模式
+ */
+export const plateWorklistQuerySchema = Joi.object({
+  format: Joi.string()
+    .valid('generic', 'tecan', 'hamilton', 'masshunter')
+    .optional()
+    .messages({
+      'any.only': '工作列表格式只能是 generic、tecan、hamilton 或 masshunter'
+    })
+});
+
+/**
+ * 仪器导入映射方案查询验证模式
+ */
+export const instrumentProfileQuerySchema = Joi.object({
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special'
+    }),
+
+  active_only: Joi.boolean().optional()
+});
+
+/**
+ * 映射方案中的列名
+ */
+const instrumentColumn = Joi.string().trim().max(100);
+
+/**
+ * 仪器导入映射方案验证模式
+ * @description 列名按文件表头原文填写；wide版式映射项目列，long版式指定项目列和结果列
+ */
+export const instrumentProfileSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': '方案名称不能超过100个字符',
+      'any.required': '方案名称是必填项'
+    }),
+
+  equipment_id: Joi.string().uuid().allow(null).optional(),
+
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .required()
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special',
+      'any.required': '实验方法是必填项'
+    }),
+
+  delimiter: Joi.string().max(5).allow('', null).optional(),
+
+  header_row: Joi.number().integer().min(1).max(100).default(1),
+
+  layout: Joi.string()
+    .valid('wide', 'long')
+    .default('wide')
+    .messages({
+      'any.only': '文件版式只能是 wide 或 long'
+    }),
+
+  sample_column: instrumentColumn.required().messages({
+    'any.required': '样本列是必填项'
+  }),
+
+  sample_key: Joi.string()
+    .valid('barcode', 'sample_no')
+    .default('barcode')
+    .messages({
+      'any.only': '样本列内容只能是 barcode 或 sample_no'
+    }),
+
+  item_columns: Joi.array()
+    .items(Joi.object({
+      column: instrumentColumn.required(),
+      item_code: Joi.string().trim().max(50).required(),
+      unit_column: instrumentColumn.allow('', null).optional()
+    }))
+    .max(200)
+    .default([]),
+
+  item_column: instrumentColumn.allow('', null).optional(),
+  value_column: instrumentColumn.allow('', null).optional(),
+  unit_column: instrumentColumn.allow('', null).optional(),
+  measured_at_column: instrumentColumn.allow('', null).optional(),
+
+  skip_sample_pattern: Joi.string()
+    .max(200)
+    .pattern(/^[^\\^$()[\]{}|+]*$/)
+    .allow('', null)
+    .optional()
+    .messages({
+      'string.pattern.base': '跳过样本规则使用通配符（* 任意字符，? 单个字符），多条以逗号分隔'
+    }),
+
+  is_active: Joi.boolean().default(true),
+
+  remarks: Joi.string().max(500).allow('', null).optional()
+});
+
+/**
+ * 仪器结果导入验证模式
+ * @description 结果文件以 multipart/form-data 的 file 字段上传，表单字段只需映射方案
+ */
+export const instrumentImportSchema = Joi.object({
+  profile_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '映射方案ID必须是有效的UUID格式',
+      'any.required': '映射方案是必填项'
+    })
+});
+
+/**
+ * 仪器结果导入记录查询验证模式
+ */
+export const instrumentImportQuerySchema = paginationSchema.keys({
+  profile_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '映射方案ID必须是有效的UUID格式'
+    })
+});
+
+/**
+ * 质控品批号查询验证模式
+ */
+export const qcLotQuerySchema = Joi.object({
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special'
+    }),
+
+  active_only: Joi.boolean().optional()
+});
+
+/**
+ * 质控品批号验证模式
+ * @description 靶值随批号整批提交，同一检测项目只能设定一个靶值
+ */
+export const qcLotSchema = Joi.object({
+  lot_no: Joi.string()
+    .trim()
+    .max(50)
+    .required()
+    .messages({
+      'string.max': '质控品批号不能超过50个字符',
+      'any.required': '质控品批号是必填项'
+    }),
+
+  material_name: Joi.string()
+    .trim()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': '质控品名称不能超过100个字符',
+      'any.required': '质控品名称是必填项'
+    }),
+
+  level: Joi.string()
+    .trim()
+    .max(20)
+    .required()
+    .messages({
+      'string.max': '质控水平不能超过20个字符',
+      'any.required': '质控水平是必填项'
+    }),
+
+  manufacturer: Joi.string().max(100).allow('', null).optional(),
+
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .required()
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special',
+      'any.required': '实验方法是必填项'
+    }),
+
+  expiry_date: Joi.date().iso().allow(null).optional(),
+
+  is_active: Joi.boolean().default(true),
+
+  remarks: Joi.string().max(500).allow('', null).optional(),
+
+  targets: Joi.array()
+    .items(Joi.object({
+      item_id: Joi.string().uuid().required().messages({
+        'string.uuid': '检测项目ID必须是有效的UUID格式',
+        'any.required': '检测项目是必填项'
+      }),
+      target_mean: Joi.number().required().messages({
+        'any.required': '靶值是必填项'
+      }),
+      target_sd: Joi.number().positive().required().messages({
+        'number.positive': '标准差必须大于0',
+        'any.required': '标准差是必填项'
+      }),
+      unit: Joi.string().max(20).allow('', null).optional()
+    }))
+    .min(1)
+    .max(200)
+    .required()
+    .messages({
+      'array.min': '请至少设定一个检测项目的靶值',
+      'any.required': '靶值是必填项'
+    })
+});
+
+/**
+ * 质控结果查询验证模式
+ */
+export const qcResultQuerySchema = paginationSchema.keys({
+  lot_id: Joi.string().uuid().optional(),
+  item_id: Joi.string().uuid().optional(),
+  batch_no: Joi.string().max(50).optional().allow(''),
+  status: Joi.string()
+    .valid('accepted', 'warning', 'rejected')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '判定结果只能是 accepted、warning 或 rejected'
+    }),
+  unresolved_only: Joi.boolean().optional()
+});
+
+/**
+ * 质控结果录入验证模式
+ */
+export const qcResultSchema = Joi.object({
+  lot_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '质控品批号ID必须是有效的UUID格式',
+      'any.required': '质控品批号是必填项'
+    }),
+
+  item_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '检测项目ID必须是有效的UUID格式',
+      'any.required': '检测项目是必填项'
+    }),
+
+  batch_no: Joi.string()
+    .trim()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': '实验批次号是必填项'
+    }),
+
+  measured_value: Joi.number()
+    .required()
+    .messages({
+      'number.base': '测定值必须是数字',
+      'any.required': '测定值是必填项'
+    }),
+
+  measured_at: Joi.date().iso().optional(),
+
+  equipment_id: Joi.string().uuid().allow(null).optional(),
+
+  remarks: Joi.string().max(500).allow('', null).optional()
+});
+
+/**
+ * 质控失控纠正措施验证模式
+ */
+export const qcResolveSchema = Joi.object({
+  corrective_action: Joi.string()
+    .trim()
+    .max(1000)
+    .required()
+    .messages({
+      'string.empty': '纠正措施不能为空',
+      'string.max': '纠正措施不能超过1000个字符',
+      'any.required': '纠正措施是必填项'
+    })
+});
+
+/**
+ * Levey-Jennings质控图查询验证模式
+ */
+export const leveyJenningsQuerySchema = Joi.object({
+  lot_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'any.required': '质控品批号是必填项'
+    }),
+
+  item_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'any.required': '检测项目是必填项'
+    }),
+
+  date_from: Joi.date().iso().optional(),
+  date_to: Joi.date().iso().optional()
+});
+
+/**
+ * 校准曲线查询验证模式
+ */
+export const calibrationCurveQuerySchema = paginationSchema.keys({
+  batch_no: Joi.string().max(50).optional().allow(''),
+  item_id: Joi.string().uuid().optional(),
+  status: Joi.string()
+    .valid('passed', 'failed')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '曲线判定只能是 passed 或 failed'
+    })
+});
+
+/**
+ * 校准曲线验证模式
+ * @description 使用内标时每个校准品都需填写内标峰面积
+ */
+export const calibrationCurveSchema = Joi.object({
+  batch_no: Joi.string()
+    .trim()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': '实验批次号是必填项'
+    }),
+
+  item_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '检测项目ID必须是有效的UUID格式',
+      'any.required': '检测项目是必填项'
+    }),
+
+  fit_type: Joi.string()
+    .valid('linear', 'quadratic')
+    .default('linear')
+    .messages({
+      'any.only': '拟合方式只能是 linear 或 quadratic'
+    }),
+
+  weighting: Joi.string()
+    .valid('none', '1/x', '1/x2')
+    .default('none')
+    .messages({
+      'any.only': '拟合权重只能是 none、1/x 或 1/x2'
+    }),
+
+  use_internal_standard: Joi.boolean().default(true),
+
+  points: Joi.array()
+    .items(Joi.object({
+      level: Joi.string().trim().max(20).required().messages({
+        'any.required': '校准品水平是必填项'
+      }),
+      nominal_concentration: Joi.number().positive().required().messages({
+        'number.positive': '标示浓度必须大于0',
+        'any.required': '标示浓度是必填项'
+      }),
+      analyte_area: Joi.number().min(0).required().messages({
+        'number.min': '峰面积不能为负数',
+        'any.required': '峰面积是必填项'
+      }),
+      is_area: Joi.number().positive().allow(null).optional().messages({
+        'number.positive': '内标峰面积必须大于0'
+      }),
+      is_excluded: Joi.boolean().default(false)
+    }))
+    .min(2)
+    .max(30)
+    .required()
+    .messages({
+      'array.min': '至少需要2个校准品',
+      'array.max': '校准品不能超过30个',
+      'any.required': '校准品是必填项'
+    }),
+
+  remarks: Joi.string().max(500).allow('', null).optional()
+});
+
+/**
+ * 未知样本定量验证模式
+ * @description 样本标识可填写实验编号、样本条码或样本编号
+ */
+export const quantitationSchema = Joi.object({
+  rows: Joi.array()
+    .items(Joi.object({
+      sample_key: Joi.string().trim().max(100).required().messages({
+        'any.required': '样本标识是必填项'
+      }),
+      analyte_area: Joi.number().min(0).required().messages({
+        'number.min': '峰面积不能为负数',
+        'any.required': '峰面积是必填项'
+      }),
+      is_area: Joi.number().positive().allow(null).optional().messages({
+        'number.positive': '内标峰面积必须大于0'
+      })
+    }))
+    .min(1)
+    .max(1000)
+    .required()
+    .messages({
+      'array.min': '请至少提交一个未知样本',
+      'array.max': '单次定量不能超过1000个样本',
+      'any.required': '未知样本是必填项'
+    })
+});
+
+/**
+ * 化合物库查询验证模式
+ */
+export const compoundQuerySchema = paginationSchema.keys({
+  category: Joi.string().max(100).optional().allow(''),
+  is_active: Joi.boolean().optional()
+});
+
+/**
+ * 化合物验证模式
+ */
+export const compoundSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(200)
+    .required()
+    .messages({
+      'any.required': '化合物名称是必填项'
+    }),
+
+  formula: Joi.string()
+    .trim()
+    .max(100)
+    .pattern(/^[A-Za-z0-9()[\]+-]+$/)
+    .required()
+    .messages({
+      'string.pattern.base': '分子式格式不正确',
+      'any.required': '分子式是必填项'
+    }),
+
+  monoisotopic_mass: Joi.number()
+    .positive()
+    .required()
+    .messages({
+      'number.positive': '单同位素质量必须大于0',
+      'any.required': '单同位素质量是必填项'
+    }),
+
+  expected_rt: Joi.number().min(0).allow(null).optional().messages({
+    'number.min': '预期保留时间不能为负数'
+  }),
+
+  adducts: Joi.array()
+    .items(Joi.string().max(30))
+    .min(1)
+    .required()
+    .messages({
+      'array.min': '至少选择一种加合离子',
+      'any.required': '加合离子是必填项'
+    }),
+
+  cas_no: Joi.string().max(30).allow('', null).optional(),
+  category: Joi.string().max(100).allow('', null).optional(),
+  is_active: Joi.boolean().default(true),
+  remarks: Joi.string().max(500).allow('', null).optional()
+});
+
+/**
+ * 质谱峰上传验证模式
+ */
+export const peakUploadSchema = Joi.object({
+  peaks: Joi.array()
+    .items(Joi.object({
+      peak_no: Joi.string().trim().max(50).required().messages({
+        'any.required': '峰编号是必填项'
+      }),
+      mz: Joi.number().positive().required().messages({
+        'number.positive': 'm/z必须大于0',
+        'any.required': 'm/z是必填项'
+      }),
+      intensity: Joi.number().min(0).required().messages({
+        'number.min': '强度不能为负数',
+        'any.required': '强度是必填项'
+      }),
+      retention_time: Joi.number().min(0).required().messages({
+        'number.min': '保留时间不能为负数',
+        'any.required': '保留时间是必填项'
+      }),
+      notes: Joi.string().max(500).allow('', null).optional()
+    }))
+    .min(1)
+    .max(5000)
+    .required()
+    .messages({
+      'array.min': '至少需要1个质谱峰',
+      'array.max': '单次最多上传5000个质谱峰',
+      'any.required': '质谱峰是必填项'
+    })
+});
+
+/**
+ * 质谱峰鉴定审核验证模式
+ * @description accept-确认比对候选，override-人工改判
+ */
+export const peakReviewSchema = Joi.object({
+  action: Joi.string()
+    .valid('accept', 'override')
+    .required()
+    .messages({
+      'any.only': '审核操作只能是 accept 或 override',
+      'any.required': '审核操作是必填项'
+    }),
+
+  candidate_index: Joi.when('action', {
+    is: 'accept',
+    then: Joi.number().integer().min(0).default(0),
+    otherwise: Joi.forbidden()
+  }),
+
+  compound_id: Joi.when('action', {
+    is: 'override',
+    then: Joi.string().uuid().allow(null).optional(),
+    otherwise: Joi.forbidden()
+  }),
+
+  compound: Joi.when('action', {
+    is: 'override',
+    then: Joi.string().trim().max(200).allow('', null).optional(),
+    otherwise: Joi.forbidden()
+  }),
+
+  formula: Joi.when('action', {
+    is: 'override',
+    then: Joi.string().trim().max(100).allow('', null).optional(),
+    otherwise: Joi.forbidden()
+  }),
+
+  adduct: Joi.when('action', {
+    is: 'override',
+    then: Joi.string().max(30).allow('', null).optional(),
+    otherwise: Joi.forbidden()
+  }),
+
+  confidence: Joi.when('action', {
+    is: 'override',
+    then: Joi.number().min(0).max(100).required(),
+    otherwise: Joi.forbidden()
+  }).messages({
+    'number.min': '置信度不能小于0',
+    'number.max': '置信度不能大于100',
+    'any.required': '人工改判需填写置信度'
+  }),
+
+  notes: Joi.string().max(500).allow('', null).optional()
+});
+
+/**
+ * 进样序列中的校准品或质控品定义
+ */
+const sequenceStandardSchema = Joi.object({
+  label: Joi.string().max(50).required(),
+  level: Joi.string().max(20).optional().allow('')
+});
+
+/**
+ * 进样序列查询验证模式
+ */
+export const injectionSequenceQuerySchema = Joi.object({
+  batch_no: Joi.string()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': '批次号是必填项'
+    })
+});
+
+/**
+ * 进样序列生成验证模式
+ */
+export const injectionSequenceGenerateSchema = Joi.object({
+  batch_no: Joi.string()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': '批次号是必填项'
+    }),
+
+  rules: Joi.object({
+    key: Joi.string().max(50).optional(),
+    name: Joi.string().max(100).optional(),
+    leading_blanks: Joi.number().integer().min(0).max(10).default(0),
+    sst_injections: Joi.number().integer().min(0).max(10).default(0),
+    calibrators: Joi.array().items(sequenceStandardSchema).max(20).default([]),
+    blanks_after_calibrators: Joi.number().integer().min(0).max(10).default(0),
+    qcs: Joi.array().items(sequenceStandardSchema).max(10).default([]),
+    qc_interval: Joi.number().integer().min(0).max(200).default(0),
+    trailing_qc: Joi.boolean().default(false),
+    trailing_blanks: Joi.number().integer().min(0).max(10).default(0),
+    unknown_replicates: Joi.number().integer().min(1).max(5).default(1),
+    injection_volume: Joi.number().positive().max(100).allow(null).optional()
+  }).required().messages({
+    'any.required': '序列规则是必填项'
+  })
+});
+
+/**
+ * 进样序列保存验证模式
+ * @description 按进样顺序提交整个序列，未知样本须指定实验
+ */
+export const injectionSequenceItemsSchema = Joi.object({
+  items: Joi.array()
+    .items(Joi.object({
+      injection_type: Joi.string()
+        .valid('blank', 'sst', 'calibrator', 'qc', 'unknown')
+        .required()
+        .messages({
+          'any.only': '进样类型只能是 blank、sst、calibrator、qc 或 unknown'
+        }),
+      experiment_id: Joi.when('injection_type', {
+        is: 'unknown',
+        then: Joi.string().uuid().required(),
+        otherwise: Joi.any().valid(null).optional()
+      }).messages({
+        'any.required': '未知样本进样须指定实验'
+      }),
+      label: Joi.string().max(50).allow('', null).optional(),
+      level: Joi.string().max(20).allow('', null).optional(),
+      replicate: Joi.number().integer().min(1).max(5).optional(),
+      vial_position: Joi.string().max(20).allow('', null).optional(),
+      injection_volume: Joi.number().positive().max(100).allow(null).optional()
+    }))
+    .max(2000)
+    .required()
+    .messages({
+      'array.max': '单个序列不能超过2000针',
+      'any.required': '进样是必填项'
+    })
+});
+
+/**
+ * 序列文件导出验证模式
+ */
+export const injectionSequenceExportQuerySchema = Joi.object({
+  format: Joi.string()
+    .valid('generic', 'masshunter', 'analyst', 'xcalibur')
+    .optional()
+    .messages({
+      'any.only': '序列文件格式只能是 generic、masshunter、analyst 或 xcalibur'
+    })
+});
+
+/**
+ * 实验员工作量查询验证模式
+ */
+export const technicianWorkloadQuerySchema = Joi.object({
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .optional()
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special'
+    })
+});
+
+/**
+ * 实验分配建议及自动分配验证模式
+ * @description 不指定批次和实验时处理该方法全部待分配实验
+ */
+export const assignmentProposalSchema = Joi.object({
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .required()
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special',
+      'any.required': '实验方法是必填项'
+    }),
+
+  batch_no: Joi.string()
+    .max(50)
+    .optional()
+    .allow(''),
+
+  experiment_ids: Joi.array()
+    .items(Joi.string().uuid())
+    .max(500)
+    .unique()
+    .optional()
+    .messages({
+      'array.max': '单次最多分配500个实验',
+      'array.unique': '实验不能重复'
+    })
+});
+
+/**
+ * 实验分配验证模式
+ */
+export const experimentAssignSchema = Joi.object({
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .required()
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special',
+      'any.required': '实验方法是必填项'
+    }),
+
+  assignments: Joi.array()
+    .items(Joi.object({
+      experiment_id: Joi.string()
+        .uuid()
+        .required()
+        .messages({
+          'string.uuid': '实验ID必须是有效的UUID格式',
+          'any.required': '实验ID是必填项'
+        }),
+      technician_id: Joi.string()
+        .uuid()
+        .required()
+        .messages({
+          'string.uuid': '实验员ID必须是有效的UUID格式',
+          'any.required': '实验员是必填项'
+        })
+    }))
+    .min(1)
+    .max(500)
+    .unique('experiment_id')
+    .required()
+    .messages({
+      'array.min': '至少需要分配一个实验',
+      'array.max': '单次最多分配500个实验',
+      'array.unique': '实验不能重复',
+      'any.required': '分配内容是必填项'
+    })
+});
+
+/**
+ * 异常列表查询验证模式
+ */
+export const exceptionQuerySchema = paginationSchema.keys({
+  source_type: Joi.string()
+    .valid('experiment', 'sample', 'equipment', 'environment')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '无效的异常来源'
+    }),
+
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special'
+    }),
+
+  status: Joi.string()
+    .valid('open', 'investigating', 'action', 'verification', 'closed', 'cancelled')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '无效的异常状态'
+    }),
+
+  severity: Joi.string()
+    .valid('low', 'medium', 'high', 'critical')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '无效的严重程度'
+    }),
+
+  assignee_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '调查负责人ID必须是有效的UUID格式'
+    }),
+
+  overdue: Joi.boolean()
+    .optional(),
+
+  date_from: Joi.date()
+    .iso()
+    .optional(),
+
+  date_to: Joi.date()
+    .iso()
+    .optional()
+});
+
+/**
+ * 异常处理人员查询验证模式
+ * @description 未指定来源时按实验异常处理，实验异常须指定实验方法
+ */
+export const exceptionHandlerQuerySchema = Joi.object({
+  source_type: Joi.string()
+    .valid('experiment', 'sample', 'equipment', 'environment')
+    .default('experiment')
+    .messages({
+      'any.only': '无效的异常来源'
+    }),
+
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .when('source_type', { is: 'experiment', then: Joi.required() })
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special',
+      'any.required': '实验异常须指定实验方法'
+    })
+});
+
+/**
+ * CAPA台账导出查询验证模式
+ */
+export const capaLogQuerySchema = Joi.object({
+  source_type: Joi.string()
+    .valid('experiment', 'sample', 'equipment', 'environment')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '无效的异常来源'
+    }),
+
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special'
+    }),
+
+  status: Joi.string()
+    .valid('open', 'investigating', 'action', 'verification', 'closed', 'cancelled')
+    .optional()
+    .allow('')
+    .messages({
+      'any.only': '无效的异常状态'
+    }),
+
+  date_from: Joi.date()
+    .iso()
+    .optional(),
+
+  date_to: Joi.date()
+    .iso()
+    .optional()
+});
+
+/**
+ * 异常登记验证模式
+ * @description 按异常来源关联实验、样本、设备或监控点（温度偏离）
+ */
+export const exceptionCreateSchema = Joi.object({
+  source_type: Joi.string()
+    .valid('experiment', 'sample', 'equipment', 'environment')
+    .required()
+    .messages({
+      'any.only': '异常来源只能是 experiment、sample、equipment 或 environment',
+      'any.required': '异常来源是必填项'
+    }),
+
+  experiment_id: Joi.string()
+    .uuid()
+    .when('source_type', {
+      is: 'experiment',
+      then: Joi.required(),
+      otherwise: Joi.optional()
+    })
+    .messages({
+      'string.uuid': '实验ID必须是有效的UUID格式',
+      'any.required': '实验异常必须关联实验'
+    }),
+
+  sample_id: Joi.string()
+    .uuid()
+    .when('source_type', {
+      is: 'sample',
+      then: Joi.required(),
+      otherwise: Joi.optional()
+    })
+    .messages({
+      'string.uuid': '样本ID必须是有效的UUID格式',
+      'any.required': '样本异常必须关联样本'
+    }),
+
+  equipment_id: Joi.string()
+    .uuid()
+    .when('source_type', {
+      is: 'equipment',
+      then: Joi.required(),
+      otherwise: Joi.optional()
+    })
+    .messages({
+      'string.uuid': '设备ID必须是有效的UUID格式',
+      'any.required': '设备异常必须关联设备'
+    }),
+
+  monitoring_point_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '监控点ID必须是有效的UUID格式'
+    }),
+
+  temperature_excursion_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '温度偏离ID必须是有效的UUID格式'
+    }),
+
+  exception_type: Joi.string()
+    .max(50)
+    .required()
+    .messages({
+      'string.max': '异常类型不能超过50个字符',
+      'any.required': '异常类型是必填项'
+    }),
+
+  title: Joi.string()
+    .max(200)
+    .required()
+    .messages({
+      'string.max': '异常标题不能超过200个字符',
+      'any.required': '异常标题是必填项'
+    }),
+
+  description: Joi.string()
+    .max(2000)
+    .required()
+    .messages({
+      'string.max': '异常描述不能超过2000个字符',
+      'any.required': '异常描述是必填项'
+    }),
+
+  severity: Joi.string()
+    .valid('low', 'medium', 'high', 'critical')
+    .default('medium')
+    .messages({
+      'any.only': '严重程度只能是 low、medium、high 或 critical'
+    }),
+
+  occurred_at: Joi.date()
+    .iso()
+    .max('now')
+    .optional()
+    .messages({
+      'date.max': '发生时间不能晚于当前时间'
+    }),
+
+  impact: Joi.string()
+    .max(1000)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '影响说明不能超过1000个字符'
+    }),
+
+  estimated_loss: Joi.number()
+    .min(0)
+    .optional()
+    .messages({
+      'number.min': '预估损失不能为负数'
+    })
+}).when(Joi.object({ source_type: Joi.valid('environment') }).unknown(), {
+  then: Joi.object().or('monitoring_point_id', 'temperature_excursion_id').messages({
+    'object.missing': '环境异常必须关联监控点或温度偏离'
+  })
+});
+
+/**
+ * 异常指派验证模式
+ * @description 未指定期限时按严重程度取配置的调查天数
+ */
+export const exceptionAssignSchema = Joi.object({
+  assignee_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '调查负责人ID必须是有效的UUID格式',
+      'any.required': '调查负责人是必填项'
+    }),
+
+  due_date: Joi.date()
+    .iso()
+    .optional()
+});
+
+/**
+ * 异常调查记录验证模式
+ */
+export const exceptionInvestigationSchema = Joi.object({
+  investigation: Joi.string()
+    .max(5000)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '调查过程不能超过5000个字符'
+    }),
+
+  root_cause: Joi.string()
+    .max(2000)
+    .optional()
+    .messages({
+      'string.max': '根本原因不能超过2000个字符'
+    }),
+
+  impact: Joi.string()
+    .max(1000)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '影响说明不能超过1000个字符'
+    }),
+
+  actual_loss: Joi.number()
+    .min(0)
+    .optional()
+    .allow(null)
+    .messages({
+      'number.min': '实际损失不能为负数'
+    })
+}).min(1).messages({
+  'object.min': '请填写调查内容'
+});
+
+/**
+ * 纠正/预防措施验证模式
+ */
+export const exceptionActionSchema = Joi.object({
+  action_type: Joi.string()
+    .valid('corrective', 'preventive')
+    .required()
+    .messages({
+      'any.only': '措施类型只能是 corrective 或 preventive',
+      'any.required': '措施类型是必填项'
+    }),
+
+  description: Joi.string()
+    .max(2000)
+    .required()
+    .messages({
+      'string.max': '措施内容不能超过2000个字符',
+      'any.required': '措施内容是必填项'
+    }),
+
+  owner_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '措施负责人ID必须是有效的UUID格式',
+      'any.required': '措施负责人是必填项'
+    }),
+
+  due_date: Joi.date()
+    .iso()
+    .required()
+    .messages({
+      'any.required': '完成期限是必填项'
+    })
+});
+
+/**
+ * 措施调整验证模式
+ */
+export const exceptionActionUpdateSchema = Joi.object({
+  description: Joi.string()
+    .max(2000)
+    .optional()
+    .messages({
+      'string.max': '措施内容不能超过2000个字符'
+    }),
+
+  owner_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '措施负责人ID必须是有效的UUID格式'
+    }),
+
+  due_date: Joi.date()
+    .iso()
+    .optional()
+}).min(1).messages({
+  'object.min': '请填写要调整的内容'
+});
+
+/**
+ * 措施完成验证模式
+ */
+export const exceptionActionCompleteSchema = Joi.object({
+  completion_notes: Joi.string()
+    .max(2000)
+    .required()
+    .messages({
+      'string.max': '完成情况不能超过2000个字符',
+      'any.required': '完成情况是必填项'
+    })
+});
+
+/**
+ * 措施有效性验证模式
+ * @description 验证无效时必须填写验证意见并重新设定完成期限
+ */
+export const exceptionEffectivenessSchema = Joi.object({
+  effective: Joi.boolean()
+    .required()
+    .messages({
+      'any.required': '验证结果是必填项'
+    }),
+
+  notes: Joi.string()
+    .max(2000)
+    .when('effective', {
+      is: false,
+      then: Joi.required(),
+      otherwise: Joi.optional().allow('')
+    })
+    .messages({
+      'string.max': '验证意见不能超过2000个字符',
+      'any.required': '验证无效时必须填写验证意见'
+    }),
+
+  due_date: Joi.date()
+    .iso()
+    .when('effective', {
+      is: false,
+      then: Joi.required(),
+      otherwise: Joi.forbidden()
+    })
+    .messages({
+      'any.required': '验证无效时必须重新设定完成期限',
+      'any.unknown': '验证有效时不能设定完成期限'
+    })
+});
+
+/**
+ * 异常关闭验证模式
+ */
+export const exceptionCloseSchema = Joi.object({
+  resolution: Joi.string()
+    .max(2000)
+    .required()
+    .messages({
+      'string.max': '关闭结论不能超过2000个字符',
+      'any.required': '关闭结论是必填项'
+    })
+});
+
+/**
+ * 异常或措施取消验证模式
+ */
+export const exceptionCancelSchema = Joi.object({
+  reason: Joi.string()
+    .max(500)
+    .required()
+    .messages({
+      'string.max': '取消原因不能超过500个字符',
+      'any.required': '取消原因是必填项'
+    })
+});
+
+/**
+ * 异常措施参数验证模式
+ */
+export const exceptionActionParamSchema = Joi.object({
+  id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': 'ID必须是有效的UUID格式',
+      'any.required': 'ID是必填项'
+    }),
+
+  actionId: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '措施ID必须是有效的UUID格式',
+      'any.required': '措施ID是必填项'
+    })
+});
+
+/**
+ * 实验列表查询验证模式
+ */
+export const experimentQuerySchema = paginationSchema.keys({
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .optional()
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special'
+    }),
+
+  sample_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '样本ID必须是有效的UUID格式'
+    }),
+
+  technician_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '实验员ID必须是有效的UUID格式'
+    }),
+
+  batch_no: Joi.string()
+    .max(50)
+    .optional()
+    .allow(''),
+
+  date_from: Joi.date()
+    .iso()
+    .optional(),
+
+  date_to: Joi.date()
+    .iso()
+    .optional()
+});
+
+/**
+ * 批量创建实验验证模式
+ */
+export const createExperimentBatchSchema = Joi.object({
+  sample_ids: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .max(500)
+    .unique()
+    .required()
+    .messages({
+      'array.min': '至少需要选择一个样本',
+      'array.max': '单批次样本数不能超过500个',
+      'array.unique': '样本不能重复',
+      'any.required': '样本是必填项'
+    }),
+
+  product_ids: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'array.min': '至少需要选择一个检测产品',
+      'array.unique': '检测产品不能重复',
+      'any.required': '检测产品是必填项'
+    }),
+
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .required()
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special',
+      'any.required': '实验方法是必填项'
+    }),
+
+  technician_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '实验员ID必须是有效的UUID格式'
+    }),
+
+  equipment_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '设备ID必须是有效的UUID格式'
+    }),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+});
+
+/**
+ * 实验结果录入验证模式
+ */
+export const experimentResultsSchema = Joi.object({
+  results: Joi.array()
+    .items(Joi.object({
+      item_id: Joi.string()
+        .uuid()
+        .required()
+        .messages({
+          'string.uuid': '检测项目ID必须是有效的UUID格式',
+          'any.required': '检测项目是必填项'
+        }),
+      result_value: Joi.alternatives()
+        .try(Joi.string().max(200), Joi.number())
+        .required()
+        .messages({
+          'any.required': '结果值是必填项'
+        }),
+      unit: Joi.string()
+        .max(20)
+        .optional()
+        .allow(''),
+      result_text: Joi.string()
+        .optional()
+        .allow(''),
+      measured_at: Joi.date()
+        .iso()
+        .optional(),
+      instrument_data: Joi.object()
+        .optional(),
+      quality_control: Joi.object()
+        .optional()
+    }))
+    .min(1)
+    .unique('item_id')
+    .required()
+    .messages({
+      'array.min': '至少需要录入一个检测项目结果',
+      'array.unique': '同一检测项目不能重复录入',
+      'any.required': '检测结果是必填项'
+    })
+});
+
+/**
+ * 取消实验验证模式
+ */
+export const cancelExperimentSchema = Joi.object({
+  reason: Joi.string()
+    .max(500)
+    .required()
+    .messages({
+      'string.max': '取消原因不能超过500个字符',
+      'any.required': '取消原因是必填项'
+    })
+});
+
+/**
+ * 待审核队列查询验证模式
+ */
+export const pendingReviewQuerySchema = paginationSchema.keys({
+  method: Joi.string()
+    .valid('routine', 'mass_spec', 'special')
+    .optional()
+    .messages({
+      'any.only': '实验方法只能是 routine、mass_spec 或 special'
+    })
+});
+
+/**
+ * 实验审核验证模式
+ */
+export const experimentReviewSchema = Joi.object({
+  result: Joi.string()
+    .valid('approved', 'rejected')
+    .required()
+    .messages({
+      'any.only': '审核结果只能是 approved 或 rejected',
+      'any.required': '审核结果是必填项'
+    }),
+
+  comments: Joi.string()
+    .max(1000)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '审核意见不能超过1000个字符'
+    })
+});
+
+/**
+ * 报告列表查询验证模式
+ */
+export const reportQuerySchema = paginationSchema.keys({
+  submission_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '送检单ID必须是有效的UUID格式'
+    }),
+
+  date_from: Joi.date()
+    .iso()
+    .optional(),
+
+  date_to: Joi.date()
+    .iso()
+    .optional()
+});
+
+/**
+ * 创建报告验证模式
+ */
+export const createReportSchema = Joi.object({
+  submission_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '送检单ID必须是有效的UUID格式',
+      'any.required': '送检单是必填项'
+    }),
+
+  template_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '模板ID必须是有效的UUID格式'
+    }),
+
+  title: Joi.string()
+    .max(200)
+    .required()
+    .messages({
+      'string.max': '报告标题不能超过200个字符',
+      'any.required': '报告标题是必填项'
+    }),
+
+  content: Joi.string().optional().allow(''),
+  summary: Joi.string().optional().allow(''),
+  conclusion: Joi.string().optional().allow(''),
+  recommendations: Joi.string().optional().allow('')
+});
+
+/**
+ * 更新报告验证模式
+ * @description 状态只能通过审核发布流程变更
+ */
+export const updateReportSchema = Joi.object({
+  template_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '模板ID必须是有效的UUID格式'
+    }),
+
+  title: Joi.string()
+    .max(200)
+    .optional()
+    .messages({
+      'string.max': '报告标题不能超过200个字符'
+    }),
+
+  content: Joi.string().optional().allow(''),
+  summary: Joi.string().optional().allow(''),
+  conclusion: Joi.string().optional().allow(''),
+  recommendations: Joi.string().optional().allow(''),
+
+  amendment_reason: Joi.string()
+    .max(500)
+    .optional()
+    .messages({
+      'string.max': '修订原因不能超过500个字符'
+    })
+}).min(1).messages({
+  'object.min': '至少需要修改一项内容'
+});
+
+/**
+ * 报告审核验证模式
+ */
+export const reportReviewSchema = experimentReviewSchema;
+
+/**
+ * 报告交付追踪信息验证模式
+ */
+const reportTrackingInfoSchema = Joi.object({
+  carrier: Joi.string().max(50).optional().allow(''),
+  tracking_no: Joi.string().max(100).optional().allow(''),
+  message_id: Joi.string().max(200).optional().allow('')
+});
+
+/**
+ * 报告交付记录验证模式
+ */
+export const reportDeliverySchema = Joi.object({
+  delivery_method: Joi.string()
+    .valid('email', 'download', 'print', 'courier')
+    .required()
+    .messages({
+      'any.only': '交付方式只能是 email、download、print 或 courier',
+      'any.required': '交付方式是必填项'
+    }),
+
+  recipient_name: Joi.string()
+    .max(100)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '接收人不能超过100个字符'
+    }),
+
+  recipient_contact: Joi.string()
+    .max(100)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '联系方式不能超过100个字符'
+    }),
+
+  delivery_status: Joi.string()
+    .valid('pending', 'delivered', 'failed')
+    .optional()
+    .messages({
+      'any.only': '交付状态只能是 pending、delivered 或 failed'
+    }),
+
+  delivery_time: Joi.date()
+    .iso()
+    .optional(),
+
+  tracking_info: reportTrackingInfoSchema.optional(),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '备注不能超过500个字符'
+    })
+});
+
+/**
+ * 更新报告交付状态验证模式
+ */
+export const updateReportDeliverySchema = Joi.object({
+  delivery_status: Joi.string()
+    .valid('delivered', 'failed', 'cancelled')
+    .required()
+    .messages({
+      'any.only': '交付状态只能是 delivered、failed 或 cancelled',
+      'any.required': '交付状态是必填项'
+    }),
+
+  delivery_time: Joi.date()
+    .iso()
+    .optional(),
+
+  tracking_info: reportTrackingInfoSchema.optional(),
+
+  remarks: Joi.string()
+    .max(500)
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': '备注不能超过500个字符'
+    })
+});
+
+/**
+ * 报告交付记录参数验证模式
+ */
+export const reportDeliveryParamSchema = Joi.object({
+  id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': 'ID必须是有效的UUID格式',
+      'any.required': 'ID是必填项'
+    }),
+
+  deliveryId: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '交付记录ID必须是有效的UUID格式',
+      'any.required': '交付记录ID是必填项'
+    })
+});
+
+/**
+ * 报告版本参数验证模式
+ */
+export const reportVersionParamSchema = Joi.object({
+  id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': 'ID必须是有效的UUID格式',
+      'any.required': 'ID是必填项'
+    }),
+
+  versionNo: Joi.number()
+    .integer()
+    .min(1)
+    .required()
+    .messages({
+      'number.base': '版本号必须是数字',
+      'number.min': '版本号必须大于0',
+      'any.required': '版本号是必填项'
+    })
+});
+
+/**
+ * 报告模板列表查询验证模式
+ * @description status 取值 active/inactive
+ */
+export const reportTemplateQuerySchema = paginationSchema.keys({
+  category: Joi.string()
+    .max(50)
+    .optional()
+    .allow(''),
+
+  template_format: Joi.string()
+    .valid('html', 'sections')
+    .optional()
+    .messages({
+      'any.only': '模板格式只能是 html 或 sections'
+    })
+});
+
+/**
+ * 结构化模板内容验证模式
+ */
+const structuredTemplateSchema = Joi.object({
+  header: Joi.string().max(500).allow('').default(''),
+
+  sections: Joi.array()
+    .items(Joi.object({
+      id: Joi.string().max(50).required(),
+      title: Joi.string().max(100).allow('').required(),
+      content: Joi.string().allow('').default(''),
+      order: Joi.number().integer().min(0).required(),
+      required: Joi.boolean().default(false),
+      type: Joi.string()
+        .valid('text', 'table', 'image', 'chart')
+        .required()
+        .messages({
+          'any.only': '章节类型只能是 text、table、image 或 chart'
+        }),
+      columns: Joi.array()
+        .items(Joi.string().valid(
+          'sample_no', 'product_name', 'item_code', 'item_name',
+          'result', 'abnormal_flag', 'unit', 'reference_range'
+        ))
+        .optional()
+    }))
+    .min(1)
+    .required()
+    .messages({
+      'array.min': '模板至少需要一个章节',
+      'any.required': '模板章节是必填项'
+    }),
+
+  footer: Joi.string().max(500).allow('').default(''),
+
+  styles: Joi.object({
+    fontSize: Joi.number().min(8).max(24).required(),
+    fontFamily: Joi.string().max(100).required(),
+    lineHeight: Joi.number().min(1).max(3).required(),
+    margins: Joi.object({
+      top: Joi.number().min(0).max(50).required(),
+      right: Joi.number().min(0).max(50).required(),
+      bottom: Joi.number().min(0).max(50).required(),
+      left: Joi.number().min(0).max(50).required()
+    }).required(),
+    colors: Joi.object({
+      primary: Joi.string().pattern(/^#[0-9a-fA-F]{3,8}$/).required(),
+      secondary: Joi.string().pattern(/^#[0-9a-fA-F]{3,8}$/).required(),
+      text: Joi.string().pattern(/^#[0-9a-fA-F]{3,8}$/).required()
+    }).required()
+  }).optional()
+});
+
+/**
+ * 模板内容验证模式
+ * @description sections格式为结构化对象，html格式为HTML文本
+ */
+const templateContentSchema = Joi.alternatives().conditional('template_format', {
+  is: 'sections',
+  then: structuredTemplateSchema,
+  otherwise: Joi.string().min(1)
+});
+
+/**
+ * 创建报告模板验证模式
+ */
+export const createReportTemplateSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': '模板名称不能超过100个字符',
+      'any.required': '模板名称是必填项'
+    }),
+
+  description: Joi.string().max(500).optional().allow(''),
+
+  category: Joi.string()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': '模板分类是必填项'
+    }),
+
+  template_format: Joi.string()
+    .valid('html', 'sections')
+    .default('sections')
+    .messages({
+      'any.only': '模板格式只能是 html 或 sections'
+    }),
+
+  template_content: templateContentSchema.required().messages({
+    'any.required': '模板内容是必填项'
+  }),
+
+  is_active: Joi.boolean().default(true)
+});
+
+/**
+ * 更新报告模板验证模式
+ * @description 修改模板内容时须同时提供模板格式；默认模板和启用状态通过专用接口修改
+ */
+export const updateReportTemplateSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .optional()
+    .messages({
+      'string.max': '模板名称不能超过100个字符'
+    }),
+
+  description: Joi.string().max(500).optional().allow(''),
+
+  category: Joi.string().max(50).optional(),
+
+  template_format: Joi.string()
+    .valid('html', 'sections')
+    .optional()
+    .messages({
+      'any.only': '模板格式只能是 html 或 sections'
+    }),
+
+  template_content: templateContentSchema.optional()
+}).min(1)
+  .and('template_format', 'template_content')
+  .messages({
+    'object.min': '至少需要修改一项内容',
+    'object.and': '模板格式和模板内容需同时提供'
+  });
+
+/**
+ * 报告模板预览验证模式
+ * @description 未提供模板内容时使用指定模板已保存的内容预览
+ */
+export const reportTemplatePreviewSchema = Joi.object({
+  report_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': '报告ID必须是有效的UUID格式',
+      'any.required': '预览报告是必填项'
+    }),
+
+  template_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.uuid': '模板ID必须是有效的UUID格式'
+    }),
+
+  template_format: Joi.string()
+    .valid('html', 'sections')
+    .optional(),
+
+  template_content: templateContentSchema.optional()
+}).or('template_id', 'template_content')
+  .and('template_format', 'template_content')
+  .messages({
+    'object.missing': '请指定模板或提供模板内容',
+    'object.and': '模板格式和模板内容需同时提供'
+  });
@@ -0,0 +1,219 @@
+/**
+ * 校准曲线路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  calibrationCurveQuerySchema,
+  calibrationCurveSchema,
+  quantitationSchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler, ValidationError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, calculatePagination } from '../utils/response.js';
+import {
+  getCalibrationAcceptance,
+  listQuantitativeItems,
+  evaluateCalibration,
+  getCalibrationCurve,
+  saveCalibrationCurve,
+  validateQuantitation,
+  quantifyUnknowns,
+  type CalibrationCurveInput
+} from '../utils/calibration.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 整理校准曲线参数
+ * @param body 请求体
+ * @returns 补全默认值的曲线参数
+ */
+const toCurveInput = (body: CalibrationCurveInput): CalibrationCurveInput => ({
+  batch_no: body.batch_no,
+  item_id: body.item_id,
+  fit_type: body.fit_type || 'linear',
+  weighting: body.weighting || 'none',
+  use_internal_standard: body.use_internal_standard ?? true,
+  points: body.points.map(point => ({
+    level: point.level,
+    nominal_concentration: point.nominal_concentration,
+    analyte_area: point.analyte_area,
+    is_area: point.is_area ?? null,
+    is_excluded: Boolean(point.is_excluded)
+  })),
+  remarks: body.remarks
+});
+
+/**
+ * 获取校准曲线列表
+ * GET /api/calibration-curves
+ */
+router.get('/',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  validate(calibrationCurveQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, search, batch_no, item_id, status } = req.query;
+
+    let query = supabase
+      .from('calibration_curves')
+      .select(`
+        id,
+        batch_no,
+        item_id,
+        fit_type,
+        weighting,
+        use_internal_standard,
+        r_squared,
+        lloq,
+        uloq,
+        status,
+        failure_reasons,
+        quantified_at,
+        updated_at,
+        test_items(
+          id,
+          code,
+          name,
+          unit
+        )
+      `, { count: 'exact' });
+
+    // 搜索过滤
+    if (search) {
+      query = query.ilike('batch_no', `%${search}%`);
+    }
+
+    if (batch_no) {
+      query = query.eq('batch_no', batch_no);
+    }
+    if (item_id) {
+      query = query.eq('item_id', item_id);
+    }
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    query = query.order('updated_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取校准曲线失败:', error);
+      throw new DatabaseError('获取校准曲线失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取可建立校准曲线的检测项目
+ * GET /api/calibration-curves/items
+ */
+router.get('/items',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  asyncHandler(async (_req, res) => {
+    const data = await listQuantitativeItems();
+    return successResponse(res, data, '获取质谱定量项目成功');
+  })
+);
+
+/**
+ * 试拟合校准曲线
+ * POST /api/calibration-curves/fit
+ * @description 按验收标准拟合判定，不保存
+ */
+router.post('/fit',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  validate(calibrationCurveSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const acceptance = await getCalibrationAcceptance();
+    const data = evaluateCalibration(toCurveInput(req.body), acceptance);
+    return successResponse(res, { ...data, acceptance }, data.status === 'passed' ? '校准曲线合格' : '校准曲线不合格');
+  })
+);
+
+/**
+ * 保存校准曲线
+ * POST /api/calibration-curves
+ * @description 同一批次同一检测项目已有曲线时重新拟合覆盖
+ */
+router.post('/',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  validate(calibrationCurveSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await saveCalibrationCurve(toCurveInput(req.body), req.user?.id);
+    return createdResponse(res, data, data.status === 'passed' ? '校准曲线已保存，判定合格' : '校准曲线已保存，判定不合格');
+  })
+);
+
+/**
+ * 获取校准曲线详情
+ * GET /api/calibration-curves/:id
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getCalibrationCurve(req.params.id);
+    return successResponse(res, data, '获取校准曲线成功');
+  })
+);
+
+/**
+ * 校验未知样本定量
+ * POST /api/calibration-curves/:id/quantify/validate
+ * @description 试运行，不写入结果
+ */
+router.post('/:id/quantify/validate',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  validate(uuidParamSchema, 'params'),
+  validate(quantitationSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const curve = await getCalibrationCurve(req.params.id);
+    const data = await validateQuantitation(curve, req.body.rows);
+    return successResponse(res, data, data.error_count > 0 ? '定量校验未通过' : '定量校验通过');
+  })
+);
+
+/**
+ * 定量未知样本
+ * POST /api/calibration-curves/:id/quantify
+ * @description 存在任一行错误时不写入结果
+ */
+router.post('/:id/quantify',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  validate(uuidParamSchema, 'params'),
+  validate(quantitationSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const curve = await getCalibrationCurve(req.params.id);
+    const validation = await validateQuantitation(curve, req.body.rows);
+
+    if (validation.error_count > 0) {
+      throw new ValidationError(`有${validation.error_count}个样本未通过校验`, { errors: validation.errors });
+    }
+
+    const count = await quantifyUnknowns(curve, validation, req.user?.id);
+    return successResponse(res, validation, `定量完成，共写入${count}个样本结果`);
+  })
+);
+
+export default router;
@@ -0,0 +1,127 @@
+/**
+ * 化合物库路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  compoundQuerySchema,
+  compoundSchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, calculatePagination } from '../utils/response.js';
+import { ADDUCTS, getCompound, saveCompound } from '../utils/compoundMatching.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 获取化合物列表
+ * GET /api/compounds
+ */
+router.get('/',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  validate(compoundQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, search, category, is_active } = req.query;
+
+    let query = supabase
+      .from('compounds')
+      .select('*', { count: 'exact' });
+
+    // 搜索过滤
+    if (search) {
+      query = query.or(`name.ilike.%${search}%,formula.ilike.%${search}%,cas_no.ilike.%${search}%`);
+    }
+
+    if (category) {
+      query = query.eq('category', category);
+    }
+    if (is_active !== undefined) {
+      query = query.eq('is_active', String(is_active) === 'true');
+    }
+
+    query = query.order('name', { ascending: true });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取化合物列表失败:', error);
+      throw new DatabaseError('获取化合物列表失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取支持的加合离子
+ * GET /api/compounds/adducts
+ */
+router.get('/adducts',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  asyncHandler(async (_req, res) => {
+    const data = Object.entries(ADDUCTS).map(([adduct, definition]) => ({
+      adduct,
+      charge: definition.charge,
+      polarity: adduct.endsWith('-') ? 'negative' : 'positive'
+    }));
+    return successResponse(res, data, '获取加合离子成功');
+  })
+);
+
+/**
+ * 获取化合物详情
+ * GET /api/compounds/:id
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getCompound(req.params.id);
+    return successResponse(res, data, '获取化合物成功');
+  })
+);
+
+/**
+ * 新增化合物
+ * POST /api/compounds
+ */
+router.post('/',
+  authenticateToken,
+  requirePermission('mass_spec.data_review'),
+  validate(compoundSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await saveCompound(null, req.body, req.user?.id);
+    return createdResponse(res, data, '化合物创建成功');
+  })
+);
+
+/**
+ * 更新化合物
+ * PUT /api/compounds/:id
+ */
+router.put('/:id',
+  authenticateToken,
+  requirePermission('mass_spec.data_review'),
+  validate(uuidParamSchema, 'params'),
+  validate(compoundSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await saveCompound(req.params.id, req.body, req.user?.id);
+    return successResponse(res, data, '化合物更新成功');
+  })
+);
+
+export default router;
@@ -0,0 +1,480 @@
+/**
+ * 异常与CAPA管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router, type Request } from 'express';
+import { authenticateToken, requirePermissions, requireRoles } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  exceptionQuerySchema,
+  capaLogQuerySchema,
+  exceptionHandlerQuerySchema,
+  exceptionCreateSchema,
+  exceptionAssignSchema,
+  exceptionInvestigationSchema,
+  exceptionActionSchema,
+  exceptionActionUpdateSchema,
+  exceptionActionCompleteSchema,
+  exceptionEffectivenessSchema,
+  exceptionCloseSchema,
+  exceptionCancelSchema,
+  exceptionActionParamSchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler, AuthorizationError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { successResponse, createdResponse, paginatedResponse, calculatePagination } from '../utils/response.js';
+import type { ExperimentMethod } from '../utils/experimentResults.js';
+import {
+  EXCEPTION_PERMISSIONS,
+  EXCEPTION_METHOD_PERMISSIONS,
+  EXCEPTION_SOURCE_PERMISSIONS,
+  EXCEPTION_MANAGER_ROLES,
+  EFFECTIVENESS_CHECK_ROLES,
+  EXCEPTION_LIST_FIELDS,
+  assertExceptionPermission,
+  getExceptionScopeFilter,
+  getExceptionRecord,
+  getException,
+  getOverdueExceptionIds,
+  listExceptionHandlers,
+  exceptionPermission,
+  summarizeException,
+  createException,
+  assignException,
+  recordInvestigation,
+  addExceptionAction,
+  updateExceptionAction,
+  cancelExceptionAction,
+  completeExceptionAction,
+  checkActionEffectiveness,
+  closeException,
+  cancelException,
+  renderCapaLogCsv,
+  type ExceptionSourceType,
+  type ExceptionStatus
+} from '../utils/exceptionCapa.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 获取异常并校验用户有权处理
+ * @param req 请求，params.id 为异常ID
+ */
+const assertPermittedException = async (req: Request) => {
+  const exception = await getExceptionRecord(req.params.id);
+  assertExceptionPermission(req.user?.permissions, exception);
+};
+
+/**
+ * 获取异常列表
+ * GET /api/exceptions
+ * @description 仅返回用户有权处理的来源和方法学；overdue=true 时只返回调查或措施逾期的异常
+ */
+router.get('/',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  validate(exceptionQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const {
+      page = 1,
+      limit = 10,
+      search,
+      source_type,
+      method,
+      status,
+      severity,
+      assignee_id,
+      overdue,
+      date_from,
+      date_to
+    } = req.query;
+
+    const scopeFilter = getExceptionScopeFilter(req.user?.permissions);
+    if (!scopeFilter) {
+      throw new AuthorizationError('权限不足');
+    }
+
+    // 权限范围与搜索过滤合并为一个 or 条件
+    const searchFilter = search
+      ? `exception_no.ilike.%${search}%,title.ilike.%${search}%,exception_type.ilike.%${search}%`
+      : null;
+
+    let query = supabase
+      .from('experiment_exceptions')
+      .select(EXCEPTION_LIST_FIELDS, { count: 'exact' })
+      .or(searchFilter ? `and(or(${scopeFilter}),or(${searchFilter}))` : scopeFilter);
+
+    // 来源过滤
+    if (source_type) {
+      query = query.eq('source_type', source_type);
+    }
+
+    // 方法学过滤
+    if (method) {
+      query = query.eq('method', method);
+    }
+
+    // 状态过滤
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    // 严重程度过滤
+    if (severity) {
+      query = query.eq('severity', severity);
+    }
+
+    // 调查负责人过滤
+    if (assignee_id) {
+      query = query.eq('assignee_id', assignee_id);
+    }
+
+    // 逾期过滤
+    if (String(overdue) === 'true') {
+      const overdueIds = await getOverdueExceptionIds();
+      if (overdueIds.length === 0) {
+        return paginatedResponse(res, [], calculatePagination(0, Number(page), Number(limit)));
+      }
+      query = query.in('id', overdueIds);
+    }
+
+    // 日期范围过滤
+    if (date_from) {
+      query = query.gte('created_at', date_from);
+    }
+    if (date_to) {
+      query = query.lte('created_at', date_to);
+    }
+
+    query = query.order('created_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取异常列表失败:', error);
+      throw new DatabaseError('获取异常列表失败');
+    }
+
+    return paginatedResponse(
+      res,
+      (data || []).map(item => summarizeException(item)),
+      calculatePagination(count || 0, Number(page), Number(limit))
+    );
+  })
+);
+
+/**
+ * 导出CAPA台账
+ * GET /api/exceptions/capa-log/export
+ * @description 每项措施一行，仅导出用户有权处理的来源和方法学
+ */
+router.get('/capa-log/export',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  validate(capaLogQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { source_type, method, status, date_from, date_to } = req.query;
+    const permissions = req.user?.permissions || [];
+
+    let methods = (Object.keys(EXCEPTION_METHOD_PERMISSIONS) as ExperimentMethod[])
+      .filter(item => permissions.includes(EXCEPTION_METHOD_PERMISSIONS[item]));
+    let sourceTypes = (Object.keys(EXCEPTION_SOURCE_PERMISSIONS) as Exclude<ExceptionSourceType, 'experiment'>[])
+      .filter(item => permissions.includes(EXCEPTION_SOURCE_PERMISSIONS[item])) as ExceptionSourceType[];
+
+    if (source_type) {
+      sourceTypes = sourceTypes.filter(item => item === source_type);
+      if (source_type !== 'experiment') {
+        methods = [];
+      }
+    }
+    if (method) {
+      methods = methods.filter(item => item === method);
+      sourceTypes = [];
+    }
+
+    const csv = await renderCapaLogCsv({
+      methods,
+      sourceTypes,
+      status: (status as ExceptionStatus) || undefined,
+      dateFrom: (date_from as string) || undefined,
+      dateTo: (date_to as string) || undefined
+    });
+
+    const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    res.setHeader('Content-Disposition', `attachment; filename="capa_log_${dateStr}.csv"`);
+    return res.type('text/csv').send(csv);
+  })
+);
+
+/**
+ * 获取可处理异常的人员
+ * GET /api/exceptions/handlers?source_type=&method=
+ * @description 指派调查和制定措施时选择负责人，只返回拥有该来源或方法学异常权限的在用账号
+ */
+router.get('/handlers',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  validate(exceptionHandlerQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const scope = {
+      source_type: (req.query.source_type as string) || 'experiment',
+      method: (req.query.method as string) || null
+    };
+    assertExceptionPermission(req.user?.permissions, scope);
+
+    const data = await listExceptionHandlers(exceptionPermission(scope));
+    return successResponse(res, data, '获取异常处理人员成功');
+  })
+);
+
+/**
+ * 获取异常详情
+ * GET /api/exceptions/:id
+ * @description 附纠正/预防措施及处理记录
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getException(req.params.id);
+    assertExceptionPermission(req.user?.permissions, data);
+    return successResponse(res, data, '获取异常详情成功');
+  })
+);
+
+/**
+ * 登记异常
+ * POST /api/exceptions
+ * @description 须有关联对象对应的异常权限；高和严重级别的异常通知实验室主管
+ */
+router.post('/',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  validate(exceptionCreateSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const body = req.body;
+
+    const data = await createException({
+      sourceType: body.source_type,
+      experimentId: body.experiment_id,
+      sampleId: body.sample_id,
+      equipmentId: body.equipment_id,
+      monitoringPointId: body.monitoring_point_id,
+      temperatureExcursionId: body.temperature_excursion_id,
+      exceptionType: body.exception_type,
+      title: body.title,
+      description: body.description,
+      severity: body.severity || 'medium',
+      occurredAt: body.occurred_at,
+      impact: body.impact || undefined,
+      estimatedLoss: body.estimated_loss,
+      operatorId: req.user?.id
+    }, req.user?.permissions);
+
+    return createdResponse(res, data, `异常${data.exception_no}已登记`);
+  })
+);
+
+/**
+ * 指派异常调查
+ * POST /api/exceptions/:id/assign
+ */
+router.post('/:id/assign',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  requireRoles(EXCEPTION_MANAGER_ROLES),
+  validate(uuidParamSchema, 'params'),
+  validate(exceptionAssignSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await assertPermittedException(req);
+
+    const data = await assignException(req.params.id, req.body.assignee_id, req.body.due_date, req.user?.id);
+    return successResponse(res, data, '异常已指派');
+  })
+);
+
+/**
+ * 记录调查结果
+ * PUT /api/exceptions/:id/investigation
+ */
+router.put('/:id/investigation',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  validate(exceptionInvestigationSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await assertPermittedException(req);
+
+    const { investigation, root_cause, impact, actual_loss } = req.body;
+    const data = await recordInvestigation(req.params.id, {
+      investigation,
+      rootCause: root_cause,
+      impact,
+      actualLoss: actual_loss
+    }, req.user?.id);
+
+    return successResponse(res, data, '调查结果已保存');
+  })
+);
+
+/**
+ * 制定纠正/预防措施
+ * POST /api/exceptions/:id/actions
+ */
+router.post('/:id/actions',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  validate(exceptionActionSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await assertPermittedException(req);
+
+    const { action_type, description, owner_id, due_date } = req.body;
+    const data = await addExceptionAction(req.params.id, {
+      actionType: action_type,
+      description,
+      ownerId: owner_id,
+      dueDate: due_date
+    }, req.user?.id);
+
+    return createdResponse(res, data, '措施已制定');
+  })
+);
+
+/**
+ * 调整措施
+ * PUT /api/exceptions/:id/actions/:actionId
+ * @description 仅执行中的措施可调整内容、负责人和完成期限
+ */
+router.put('/:id/actions/:actionId',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  validate(exceptionActionParamSchema, 'params'),
+  validate(exceptionActionUpdateSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await assertPermittedException(req);
+
+    const { description, owner_id, due_date } = req.body;
+    const data = await updateExceptionAction(req.params.id, req.params.actionId, {
+      description,
+      ownerId: owner_id,
+      dueDate: due_date
+    }, req.user?.id);
+
+    return successResponse(res, data, '措施已调整');
+  })
+);
+
+/**
+ * 取消措施
+ * POST /api/exceptions/:id/actions/:actionId/cancel
+ */
+router.post('/:id/actions/:actionId/cancel',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  requireRoles(EXCEPTION_MANAGER_ROLES),
+  validate(exceptionActionParamSchema, 'params'),
+  validate(exceptionCancelSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await assertPermittedException(req);
+
+    const data = await cancelExceptionAction(req.params.id, req.params.actionId, req.body.reason, req.user?.id);
+    return successResponse(res, data, '措施已取消');
+  })
+);
+
+/**
+ * 完成措施
+ * POST /api/exceptions/:id/actions/:actionId/complete
+ * @description 仅措施负责人或实验室主管可确认完成
+ */
+router.post('/:id/actions/:actionId/complete',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  validate(exceptionActionParamSchema, 'params'),
+  validate(exceptionActionCompleteSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await assertPermittedException(req);
+
+    const data = await completeExceptionAction(req.params.id, req.params.actionId, req.body.completion_notes, {
+      id: req.user!.id,
+      roles: req.user?.roles || []
+    });
+
+    return successResponse(res, data, '措施已完成');
+  })
+);
+
+/**
+ * 措施有效性验证
+ * POST /api/exceptions/:id/actions/:actionId/effectiveness
+ * @description 验证无效的措施退回执行中并重新设定完成期限
+ */
+router.post('/:id/actions/:actionId/effectiveness',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  requireRoles(EFFECTIVENESS_CHECK_ROLES),
+  validate(exceptionActionParamSchema, 'params'),
+  validate(exceptionEffectivenessSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await assertPermittedException(req);
+
+    const { effective, notes, due_date } = req.body;
+    const data = await checkActionEffectiveness(req.params.id, req.params.actionId, {
+      effective,
+      notes: notes || undefined,
+      dueDate: due_date
+    }, req.user!.id);
+
+    return successResponse(res, data, effective ? '措施验证有效' : '措施验证无效，已退回执行');
+  })
+);
+
+/**
+ * 签字关闭异常
+ * POST /api/exceptions/:id/close
+ * @description 不满足关闭条件时返回 400，details.problems 为未满足的条件
+ */
+router.post('/:id/close',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  requireRoles(EXCEPTION_MANAGER_ROLES),
+  validate(uuidParamSchema, 'params'),
+  validate(exceptionCloseSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await assertPermittedException(req);
+
+    const data = await closeException(req.params.id, req.body.resolution, req.user!.id);
+    return successResponse(res, data, '异常已关闭');
+  })
+);
+
+/**
+ * 取消异常
+ * POST /api/exceptions/:id/cancel
+ * @description 用于误报或重复登记
+ */
+router.post('/:id/cancel',
+  authenticateToken,
+  requirePermissions(EXCEPTION_PERMISSIONS),
+  requireRoles(EXCEPTION_MANAGER_ROLES),
+  validate(uuidParamSchema, 'params'),
+  validate(exceptionCancelSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await assertPermittedException(req);
+
+    const data = await cancelException(req.params.id, req.body.reason, req.user?.id);
+    return successResponse(res, data, '异常已取消');
+  })
+);
+
+export default router;
@@ -0,0 +1,714 @@
+/**
+ * 实验管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermissions } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  experimentQuerySchema,
+  createExperimentBatchSchema,
+  experimentResultsSchema,
+  cancelExperimentSchema,
+  pendingReviewQuerySchema,
+  experimentReviewSchema
+} from '../middleware/validation.js';
+import {
+  asyncErrorHandler as asyncHandler,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  DatabaseError
+} from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, calculatePagination } from '../utils/response.js';
+import {
+  getPermittedMethods,
+  assertMethodPermission,
+  getProductItems,
+  saveExperimentResults,
+  startExperiment,
+  EXPERIMENT_METHOD_PERMISSIONS,
+  EXPERIMENT_METHOD_TEXT,
+  type ExperimentMethod
+} from '../utils/experimentResults.js';
+import { submitExperimentForReview, reviewExperiment, listPendingReviews } from '../utils/experimentReview.js';
+import { assertTechnicianQualified } from '../utils/technicianAssignment.js';
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+// 任一实验方法的列表权限
+const LIST_PERMISSIONS = Object.values(EXPERIMENT_METHOD_PERMISSIONS).map(item => item.list);
+
+// 任一实验方法的录入权限
+const ENTRY_PERMISSIONS = Object.values(EXPERIMENT_METHOD_PERMISSIONS).map(item => item.entry);
+
+// 任一实验方法的审核权限
+const REVIEW_PERMISSIONS = Object.values(EXPERIMENT_METHOD_PERMISSIONS).map(item => item.review);
+
+// 批量创建实验时查询的样本及送检产品
+interface BatchSampleRow {
+  id: string;
+  sample_no: string;
+  status: string;
+  submission_id: string;
+  submissions?: { id: string; status: string; submission_products?: { product_id: string }[] } | null;
+}
+
+/**
+ * 获取实验列表
+ * GET /api/experiments
+ * @description 仅返回当前用户有列表权限的实验方法
+ */
+router.get('/',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  validate(experimentQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const {
+      page = 1,
+      limit = 10,
+      search,
+      status,
+      method,
+      sample_id,
+      technician_id,
+      batch_no,
+      date_from,
+      date_to
+    } = req.query;
+
+    const permittedMethods = getPermittedMethods(req.user?.permissions, 'list');
+    if (method) {
+      assertMethodPermission(req.user?.permissions, method as ExperimentMethod, 'list');
+    }
+
+    let query = supabase
+      .from('experiments')
+      .select(`
+        id,
+        experiment_no,
+        method,
+        batch_no,
+        status,
+        started_at,
+        completed_at,
+        created_at,
+        samples(
+          id,
+          sample_no,
+          barcode,
+          submissions(
+            id,
+            submission_no,
+            patient_name,
+            is_urgent
+          )
+        ),
+        test_products(
+          id,
+          code,
+          name
+        ),
+        technicians(
+          id,
+          employee_no,
+          users(
+            id,
+            real_name
+          )
+        )
+      `, { count: 'exact' })
+      .in('method', method ? [method] : permittedMethods);
+
+    // 搜索过滤
+    if (search) {
+      query = query.or(`experiment_no.ilike.%${search}%,batch_no.ilike.%${search}%`);
+    }
+
+    // 状态过滤
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    // 样本过滤
+    if (sample_id) {
+      query = query.eq('sample_id', sample_id);
+    }
+
+    // 实验员过滤
+    if (technician_id) {
+      query = query.eq('technician_id', technician_id);
+    }
+
+    // 批次过滤
+    if (batch_no) {
+      query = query.eq('batch_no', batch_no);
+    }
+
+    // 日期范围过滤
+    if (date_from) {
+      query = query.gte('created_at', date_from);
+    }
+    if (date_to) {
+      query = query.lte('created_at', date_to);
+    }
+
+    // 排序
+    query = query.order('created_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取实验列表失败:', error);
+      throw new DatabaseError('获取实验列表失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取当前用户的待审核队列
+ * GET /api/experiments/reviews/pending
+ * @description 仅包含用户有审核权限的方法，且排除用户参与录入或本轮已审核过的实验
+ */
+router.get('/reviews/pending',
+  authenticateToken,
+  requirePermissions(REVIEW_PERMISSIONS),
+  validate(pendingReviewQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, method, search } = req.query;
+
+    let methods = getPermittedMethods(req.user?.permissions, 'review');
+    if (method) {
+      assertMethodPermission(req.user?.permissions, method as ExperimentMethod, 'review');
+      methods = [method as ExperimentMethod];
+    }
+
+    let data = await listPendingReviews(req.user!.id, methods);
+
+    if (search) {
+      const keyword = String(search).toLowerCase();
+      data = data.filter(item =>
+        item.experiment_no.toLowerCase().includes(keyword)
+        || (item.samples?.sample_no || '').toLowerCase().includes(keyword)
+      );
+    }
+
+    // 加急送检优先
+    data.sort((a, b) =>
+      Number(Boolean(b.samples?.submissions?.is_urgent)) - Number(Boolean(a.samples?.submissions?.is_urgent))
+    );
+
+    const offset = (Number(page) - 1) * Number(limit);
+    return paginatedResponse(
+      res,
+      data.slice(offset, offset + Number(limit)),
+      calculatePagination(data.length, Number(page), Number(limit))
+    );
+  })
+);
+
+/**
+ * 获取实验详情
+ * GET /api/experiments/:id
+ * @description 返回实验信息、已录入数据以及产品包含的全部检测项目，供录入和审核页面使用
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermissions([...LIST_PERMISSIONS, ...REVIEW_PERMISSIONS]),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('experiments')
+      .select(`
+        *,
+        samples(
+          id,
+          sample_no,
+          barcode,
+          status,
+          sample_types(
+            id,
+            name
+          ),
+          submissions(
+            id,
+            submission_no,
+            patient_name,
+            patient_gender,
+            patient_age,
+            is_urgent
+          )
+        ),
+        test_products(
+          id,
+          code,
+          name
+        ),
+        technicians(
+          id,
+          employee_no,
+          users(
+            id,
+            real_name
+          )
+        ),
+        experiment_data(
+          id,
+          item_id,
+          result_value,
+          result_numeric,
+          result_text,
+          unit,
+          reference_range,
+          is_abnormal,
+          abnormal_flag,
+          measured_at,
+          updated_at
+        )
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      logger.error('获取实验详情失败:', error);
+      throw new NotFoundError('实验不存在');
+    }
+
+    // 审核人员无列表权限时也可查看待审核实验
+    if (!getPermittedMethods(req.user?.permissions, 'review').includes(data.method)) {
+      assertMethodPermission(req.user?.permissions, data.method, 'list');
+    }
+
+    const items = (await getProductItems(data.product_id))
+      .filter(item => item.method === data.method);
+
+    return successResponse(res, { ...data, items }, '获取实验详情成功');
+  })
+);
+
+/**
+ * 批量创建实验
+ * POST /api/experiments/batch
+ * @description 按 样本 × 检测产品 生成实验，同一批次共用批次号；已存在未取消实验的组合会被跳过
+ */
+router.post('/batch',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  validate(createExperimentBatchSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { sample_ids, product_ids, method, technician_id, equipment_id, remarks } = req.body;
+
+    assertMethodPermission(req.user?.permissions, method, 'entry');
+
+    // 检查样本
+    const { data: samples, error: sampleError } = await supabase
+      .from('samples')
+      .select('id, sample_no, status, submission_id, submissions(id, status, submission_products(product_id))')
+      .in('id', sample_ids);
+
+    if (sampleError) {
+      logger.error('查询样本失败:', sampleError);
+      throw new DatabaseError('查询样本失败');
+    }
+
+    const sampleRows: BatchSampleRow[] = (samples || []).map(sample => ({
+      ...sample,
+      submissions: firstRelation(sample.submissions)
+    }));
+    const sampleMap = new Map(sampleRows.map(sample => [sample.id, sample]));
+    const missingSamples = sample_ids.filter((sampleId: string) => !sampleMap.has(sampleId));
+    if (missingSamples.length > 0) {
+      throw new ValidationError('样本不存在', { sample_ids: missingSamples });
+    }
+
+    const unavailableSamples = sampleRows
+      .filter(sample => ['destroyed', 'abnormal', 'completed'].includes(sample.status))
+      .map(sample => sample.sample_no);
+    if (unavailableSamples.length > 0) {
+      throw new ConflictError('样本已完成、异常或已销毁，不能安排实验', { samples: unavailableSamples });
+    }
+
+    // 检查检测产品包含该方法的检测项目
+    for (const productId of product_ids) {
+      const items = await getProductItems(productId);
+      if (!items.some(item => item.method === method)) {
+        throw new ValidationError(`检测产品不包含${EXPERIMENT_METHOD_TEXT[method as ExperimentMethod]}检测项目`, { product_id: productId });
+      }
+    }
+
+    // 检查实验员资质
+    if (technician_id) {
+      await assertTechnicianQualified(technician_id, method);
+    }
+
+    // 已存在的 样本 × 产品 组合
+    const { data: existing, error: existingError } = await supabase
+      .from('experiments')
+      .select('sample_id, product_id')
+      .in('sample_id', sample_ids)
+      .in('product_id', product_ids)
+      .eq('method', method)
+      .neq('status', 'cancelled');
+
+    if (existingError) {
+      logger.error('查询已有实验失败:', existingError);
+      throw new DatabaseError('查询已有实验失败');
+    }
+
+    const existingKeys = new Set((existing || []).map(row => `${row.sample_id}:${row.product_id}`));
+    const pairs: { sample_id: string; product_id: string }[] = [];
+    const skipped: { sample_no: string; product_id: string; reason: string }[] = [];
+
+    for (const sampleId of sample_ids) {
+      const sample = sampleMap.get(sampleId)!;
+      const orderedProducts = new Set(
+        (sample.submissions?.submission_products || []).map(item => item.product_id)
+      );
+
+      for (const productId of product_ids) {
+        if (!orderedProducts.has(productId)) {
+          skipped.push({ sample_no: sample.sample_no, product_id: productId, reason: '送检单未申请该检测产品' });
+        } else if (existingKeys.has(`${sampleId}:${productId}`)) {
+          skipped.push({ sample_no: sample.sample_no, product_id: productId, reason: '实验已存在' });
+        } else {
+          pairs.push({ sample_id: sampleId, product_id: productId });
+        }
+      }
+    }
+
+    if (pairs.length === 0) {
+      throw new ConflictError('没有需要创建的实验', { skipped });
+    }
+
+    const batchNo = await generateBatchNumber();
+    const experimentNos = await generateExperimentNumbers(pairs.length);
+
+    const { data, error } = await supabase
+      .from('experiments')
+      .insert(pairs.map((pair, index) => ({
+        ...pair,
+        experiment_no: experimentNos[index],
+        method,
+        technician_id,
+        equipment_id,
+        batch_no: batchNo,
+        status: 'pending',
+        remarks,
+        created_by: req.user?.id,
+        updated_by: req.user?.id
+      })))
+      .select();
+
+    if (error) {
+      logger.error('批量创建实验失败:', error);
+      throw new DatabaseError('批量创建实验失败');
+    }
+
+    logger.info(`实验批次已创建: ${batchNo}，共${pairs.length}个实验`, { createdBy: req.user?.id });
+    return createdResponse(res, { batch_no: batchNo, experiments: data || [], skipped }, '实验批量创建成功');
+  })
+);
+
+/**
+ * 录入实验结果
+ * PUT /api/experiments/:id/results
+ * @description 按检测项目录入结果，定量项目校验数值和单位；首次录入时实验自动开始
+ */
+router.put('/:id/results',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  validate(experimentResultsSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { results } = req.body;
+
+    const experiment = await getExperiment(id);
+    assertMethodPermission(req.user?.permissions, experiment.method, 'entry');
+
+    if (!['pending', 'in_progress'].includes(experiment.status)) {
+      throw new ConflictError('实验已结束，不能录入结果');
+    }
+
+    if (experiment.status === 'pending') {
+      await startExperiment(experiment, req.user?.id);
+    }
+
+    const data = await saveExperimentResults(experiment, results, req.user?.id);
+
+    logger.info(`实验结果已录入: ${experiment.experiment_no}，共${data.length}项`, { operatorId: req.user?.id });
+    return successResponse(res, data, '实验结果保存成功');
+  })
+);
+
+/**
+ * 开始实验
+ * POST /api/experiments/:id/start
+ */
+router.post('/:id/start',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const experiment = await getExperiment(id);
+    assertMethodPermission(req.user?.permissions, experiment.method, 'entry');
+
+    if (experiment.status !== 'pending') {
+      throw new ConflictError('只有待开始的实验可以开始');
+    }
+
+    const data = await startExperiment(experiment, req.user?.id);
+    return successResponse(res, data, '实验已开始');
+  })
+);
+
+/**
+ * 完成实验并提交审核
+ * POST /api/experiments/:id/complete
+ * @description 所有必填检测项目均已录入结果、且没有高于定量上限待稀释重测的结果后才能完成，完成后进入第1级审核
+ */
+router.post('/:id/complete',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const experiment = await getExperiment(id);
+    assertMethodPermission(req.user?.permissions, experiment.method, 'entry');
+
+    if (experiment.status !== 'in_progress') {
+      throw new ConflictError('只有进行中的实验可以完成');
+    }
+
+    const items = (await getProductItems(experiment.product_id))
+      .filter(item => item.method === experiment.method);
+
+    const { data: rows, error: dataError } = await supabase
+      .from('experiment_data')
+      .select('item_id, result_value, instrument_data')
+      .eq('experiment_id', id);
+
+    if (dataError) {
+      logger.error('查询实验数据失败:', dataError);
+      throw new DatabaseError('查询实验数据失败');
+    }
+
+    const enteredIds = new Set((rows || []).map(row => row.item_id));
+    const missingItems = items
+      .filter(item => item.is_required && !enteredIds.has(item.id))
+      .map(item => item.name);
+
+    if (missingItems.length > 0) {
+      throw new ValidationError('仍有必填检测项目未录入结果', { items: missingItems });
+    }
+
+    // 校准曲线定量高于定量上限的结果不能报告，须稀释后重新测定
+    const aboveUloqItems = (rows || [])
+      .filter(row => String(row.result_value).startsWith('>') && row.instrument_data?.range_flag === 'above_uloq')
+      .map(row => items.find(item => item.id === row.item_id)?.name || row.item_id);
+
+    if (aboveUloqItems.length > 0) {
+      throw new ConflictError('有检测项目高于定量上限，须稀释后重新测定再提交审核', { items: aboveUloqItems });
+    }
+
+    const data = await submitExperimentForReview(experiment, req.user?.id);
+
+    return successResponse(res, data, '实验已完成，已提交审核');
+  })
+);
+
+/**
+ * 审核实验结果
+ * POST /api/experiments/:id/review
+ * @description 审核当前级别；驳回时实验退回数据录入并通知录入人
+ */
+router.post('/:id/review',
+  authenticateToken,
+  requirePermissions(REVIEW_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  validate(experimentReviewSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { result, comments } = req.body;
+
+    const data = await reviewExperiment(id, req.user!, result, comments);
+    return successResponse(res, data, result === 'approved' ? '审核通过' : '已驳回');
+  })
+);
+
+/**
+ * 获取实验审核记录
+ * GET /api/experiments/:id/audits
+ */
+router.get('/:id/audits',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const experiment = await getExperiment(id);
+    assertMethodPermission(req.user?.permissions, experiment.method, 'list');
+
+    const { data, error } = await supabase
+      .from('experiment_audits')
+      .select(`
+        id,
+        audit_level,
+        audit_result,
+        audit_comments,
+        audit_time,
+        users(
+          id,
+          real_name
+        )
+      `)
+      .eq('experiment_id', id)
+      .order('audit_time', { ascending: true });
+
+    if (error) {
+      logger.error('获取审核记录失败:', error);
+      throw new DatabaseError('获取审核记录失败');
+    }
+
+    return successResponse(res, data || [], '获取审核记录成功');
+  })
+);
+
+/**
+ * 取消实验
+ * POST /api/experiments/:id/cancel
+ */
+router.post('/:id/cancel',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  validate(cancelExperimentSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const experiment = await getExperiment(id);
+    assertMethodPermission(req.user?.permissions, experiment.method, 'entry');
+
+    if (!['pending', 'in_progress'].includes(experiment.status)) {
+      throw new ConflictError('实验已结束，不能取消');
+    }
+
+    const { data, error } = await supabase
+      .from('experiments')
+      .update({
+        status: 'cancelled',
+        remarks: reason,
+        updated_at: new Date().toISOString(),
+        updated_by: req.user?.id
+      })
+      .eq('id', id)
+      .eq('status', experiment.status)
+      .select()
+      .single();
+
+    if (error || !data) {
+      logger.error('取消实验失败:', error);
+      throw new ConflictError('实验状态已被其他操作修改，请刷新后重试');
+    }
+
+    logger.info(`实验已取消: ${experiment.experiment_no}`, { operatorId: req.user?.id, reason });
+    return successResponse(res, data, '实验已取消');
+  })
+);
+
+/**
+ * 获取实验基础信息
+ * @param id 实验ID
+ * @returns 实验记录
+ */
+async function getExperiment(id: string) {
+  const { data, error } = await supabase
+    .from('experiments')
+    .select('id, experiment_no, sample_id, product_id, method, status, technician_id')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('实验不存在');
+  }
+
+  return data as {
+    id: string;
+    experiment_no: string;
+    sample_id: string;
+    product_id: string;
+    method: ExperimentMethod;
+    status: string;
+    technician_id?: string;
+  };
+}
+
+/**
+ * 生成实验批次号
+ * @returns 批次号
+ */
+async function generateBatchNumber(): Promise<string> {
+  const today = new Date();
+  const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '');
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .select('batch_no')
+    .like('batch_no', `B${dateStr}%`)
+    .order('batch_no', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    logger.error('生成批次号失败:', error);
+    throw new DatabaseError('生成批次号失败');
+  }
+
+  const last = data?.[0]?.batch_no ? Number(data[0].batch_no.slice(-4)) : 0;
+  return `B${dateStr}${String(last + 1).padStart(4, '0')}`;
+}
+
+/**
+ * 批量生成实验编号
+ * @param size 数量
+ * @returns 实验编号列表
+ */
+async function generateExperimentNumbers(size: number): Promise<string[]> {
+  const today = new Date();
+  const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '');
+
+  // 查询今天已有的实验数量
+  const { count, error } = await supabase
+    .from('experiments')
+    .select('id', { count: 'exact', head: true })
+    .gte('created_at', `${today.toISOString().slice(0, 10)}T00:00:00.000Z`)
+    .lt('created_at', `${today.toISOString().slice(0, 10)}T23:59:59.999Z`);
+
+  if (error) {
+    logger.error('生成实验编号失败:', error);
+    throw new DatabaseError('生成实验编号失败');
+  }
+
+  return Array.from({ length: size }, (_, index) =>
+    `E${dateStr}${String((count || 0) + index + 1).padStart(5, '0')}`
+  );
+}
+
+export default router;
@@ -9,9 +9,25 @@ import authRoutes from './auth.js';
 import userRoutes from './users.js';
 import roleRoutes from './roles.js';
 import permissionRoutes from './permissions.js';
+import submissionRoutes from './submissions.js';
 import sampleRoutes from './samples.js';
-import testRoutes from './tests.js';
+import storageRoutes from './storage.js';
+import sampleDestructionRoutes from './sampleDestruction.js';
+import sampleRejectionRoutes from './sampleRejections.js';
+import sampleCheckoutRoutes from './sampleCheckouts.js';
+import temperatureExcursionRoutes from './temperatureExcursions.js';
+import experimentRoutes from './experiments.js';
+import plateLayoutRoutes from './plateLayouts.js';
+import instrumentImportRoutes from './instrumentImports.js';
+import qcRoutes from './qc.js';
+import calibrationCurveRoutes from './calibrationCurves.js';
+import compoundRoutes from './compounds.js';
+import massSpecPeakRoutes from './massSpecPeaks.js';
+import injectionSequenceRoutes from './injectionSequences.js';
+import technicianAssignmentRoutes from './technicianAssignments.js';
+import exceptionRoutes from './exceptions.js';
 import reportRoutes from './reports.js';
+import reportTemplateRoutes from './reportTemplates.js';
 import systemRoutes from './system.js';
 
 const router = Router();
@@ -28,15 +44,63 @@ router.use('/roles', roleRoutes);
 // 权限管理路由
 router.use('/permissions', permissionRoutes);
 
+// 送检管理路由
+router.use('/submissions', submissionRoutes);
+
 // 样本管理路由
 router.use('/samples', sampleRoutes);
 
-// 检测管理路由
-router.use('/tests', testRoutes);
+// 样本存储位置管理路由
+router.use('/storage', storageRoutes);
+
+// 样本销毁管理路由
+router.use('/sample-destruction', sampleDestructionRoutes);
+
+// 样本拒收与重采管理路由
+router.use('/sample-rejections', sampleRejectionRoutes);
+
+// 样本借出管理路由
+router.use('/sample-checkouts', sampleCheckoutRoutes);
+
+// 存储温度偏离管理路由
+router.use('/temperature-excursions', temperatureExcursionRoutes);
+
+// 实验管理路由
+router.use('/experiments', experimentRoutes);
+
+// 孔板布局管理路由
+router.use('/plate-layouts', plateLayoutRoutes);
+
+// 仪器结果导入路由
+router.use('/instrument-imports', instrumentImportRoutes);
+
+// 质控管理路由
+router.use('/qc', qcRoutes);
+
+// 校准曲线路由
+router.use('/calibration-curves', calibrationCurveRoutes);
+
+// 化合物库路由
+router.use('/compounds', compoundRoutes);
+
+// 质谱峰鉴定路由
+router.use('/mass-spec-peaks', massSpecPeakRoutes);
+
+// 质谱进样序列路由
+router.use('/injection-sequences', injectionSequenceRoutes);
+
+// 实验员分配路由
+router.use('/technician-assignments', technicianAssignmentRoutes);
+
+// 异常与CAPA管理路由
+router.use('/exceptions', exceptionRoutes);
 
 // 报告管理路由
 router.use('/reports', reportRoutes);
 
+// 报告模板管理路由
+router.use('/report-templates', reportTemplateRoutes);
+
 // 系统管理路由
 router.use('/system', systemRoutes);
 
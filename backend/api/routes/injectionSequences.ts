@@ -0,0 +1,180 @@
+/**
+ * 质谱进样序列路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission, requireRoles } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  injectionSequenceQuerySchema,
+  injectionSequenceGenerateSchema,
+  injectionSequenceItemsSchema,
+  injectionSequenceExportQuerySchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler } from '../middleware/enhancedErrorHandler.js';
+import { successResponse } from '../utils/response.js';
+import {
+  getSequenceRules,
+  normalizeSequenceRules,
+  getSequenceExperiments,
+  getBatchSequence,
+  getInjectionSequence,
+  generateSequence,
+  saveSequenceItems,
+  confirmSequence,
+  reopenSequence,
+  renderSequenceCsv,
+  type SequenceExportFormat
+} from '../utils/injectionSequence.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 获取序列规则
+ * GET /api/injection-sequences/rules
+ */
+router.get('/rules',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  asyncHandler(async (_req, res) => {
+    const data = await getSequenceRules();
+    return successResponse(res, data, '获取序列规则成功');
+  })
+);
+
+/**
+ * 获取批次进样序列
+ * GET /api/injection-sequences?batch_no=
+ * @description 返回批次实验及已保存的进样序列
+ */
+router.get('/',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  validate(injectionSequenceQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const batchNo = String(req.query.batch_no);
+
+    const experiments = await getSequenceExperiments(batchNo);
+    const sequence = await getBatchSequence(batchNo);
+
+    return successResponse(res, { batch_no: batchNo, experiments, sequence }, '获取进样序列成功');
+  })
+);
+
+/**
+ * 生成批次进样序列
+ * POST /api/injection-sequences/generate
+ * @description 按序列规则重新生成，替换原有草稿序列
+ */
+router.post('/generate',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  validate(injectionSequenceGenerateSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { batch_no, rules } = req.body;
+
+    const data = await generateSequence(batch_no, normalizeSequenceRules(rules), req.user?.id);
+    const violations = data.violations || [];
+
+    return successResponse(
+      res,
+      data,
+      violations.length > 0 ? `进样序列已生成，有${violations.length}项违规` : '进样序列已生成'
+    );
+  })
+);
+
+/**
+ * 获取进样序列详情
+ * GET /api/injection-sequences/:id
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getInjectionSequence(req.params.id);
+    return successResponse(res, data, '获取进样序列成功');
+  })
+);
+
+/**
+ * 保存调整后的进样顺序
+ * PUT /api/injection-sequences/:id/items
+ * @description 整个序列替换并重新检查违规，已确认的序列不能修改
+ */
+router.put('/:id/items',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  validate(uuidParamSchema, 'params'),
+  validate(injectionSequenceItemsSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await saveSequenceItems(req.params.id, req.body.items, req.user?.id);
+    const violations = data.violations || [];
+
+    return successResponse(
+      res,
+      data,
+      violations.length > 0 ? `进样序列已保存，有${violations.length}项违规` : '进样序列已保存'
+    );
+  })
+);
+
+/**
+ * 确认进样序列
+ * POST /api/injection-sequences/:id/confirm
+ * @description 存在违规时不能确认
+ */
+router.post('/:id/confirm',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await confirmSequence(req.params.id, req.user?.id);
+    return successResponse(res, data, '进样序列已确认');
+  })
+);
+
+/**
+ * 撤销进样序列确认
+ * POST /api/injection-sequences/:id/reopen
+ * @description 仅实验室主管或系统管理员可撤销
+ */
+router.post('/:id/reopen',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  requireRoles(['admin', 'lab_manager']),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await reopenSequence(req.params.id, req.user?.id);
+    return successResponse(res, data, '已撤销进样序列确认');
+  })
+);
+
+/**
+ * 导出序列文件
+ * GET /api/injection-sequences/:id/export?format=
+ * @description 按采集软件格式导出CSV，默认通用格式
+ */
+router.get('/:id/export',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  validate(uuidParamSchema, 'params'),
+  validate(injectionSequenceExportQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const format = (req.query.format || 'generic') as SequenceExportFormat;
+
+    const sequence = await getInjectionSequence(req.params.id);
+    const csv = renderSequenceCsv(sequence, format);
+
+    logger.info(`序列文件已导出: ${sequence.batch_no} ${format}`, { exportedBy: req.user?.id });
+    res.setHeader('Content-Disposition', `attachment; filename="${sequence.batch_no}_sequence_${format}.csv"`);
+    return res.type('text/csv').send(csv);
+  })
+);
+
+export default router;
@@ -0,0 +1,350 @@
+/**
+ * 仪器结果导入路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import multer from 'multer';
+import { authenticateToken, requirePermissions, requireRoles } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  instrumentProfileQuerySchema,
+  instrumentProfileSchema,
+  instrumentImportSchema,
+  instrumentImportQuerySchema
+} from '../middleware/validation.js';
+import {
+  asyncErrorHandler as asyncHandler,
+  ValidationError,
+  ConflictError,
+  DatabaseError
+} from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, calculatePagination } from '../utils/response.js';
+import {
+  assertMethodPermission,
+  getPermittedMethods,
+  EXPERIMENT_METHOD_PERMISSIONS,
+  type ExperimentMethod
+} from '../utils/experimentResults.js';
+import {
+  getImportProfile,
+  listImportProfiles,
+  assertProfileValid,
+  validateInstrumentImport,
+  importInstrumentResults,
+  INSTRUMENT_IMPORT_MAX_FILE_SIZE,
+  type InstrumentImportFile,
+  type ImportLayout,
+  type ImportItemColumn
+} from '../utils/instrumentImport.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+// 任一实验方法的列表权限
+const LIST_PERMISSIONS = Object.values(EXPERIMENT_METHOD_PERMISSIONS).map(item => item.list);
+
+// 任一实验方法的录入权限
+const ENTRY_PERMISSIONS = Object.values(EXPERIMENT_METHOD_PERMISSIONS).map(item => item.entry);
+
+// 结果文件只在内存中解析，不落盘
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: INSTRUMENT_IMPORT_MAX_FILE_SIZE, files: 1 }
+});
+
+/**
+ * 接收上传的结果文件
+ * @description 文件过大等上传错误转为校验错误
+ */
+const uploadResultFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, error => {
+    if (error instanceof multer.MulterError) {
+      next(new ValidationError(error.code === 'LIMIT_FILE_SIZE' ? '结果文件不能超过8MB' : `上传结果文件失败：${error.message}`));
+      return;
+    }
+    next(error);
+  });
+};
+
+/**
+ * 取上传的结果文件
+ * @description multer 按 latin1 解码文件名，需还原为UTF-8以保留中文文件名
+ * @param req 请求
+ * @returns 结果文件
+ */
+const getUploadedFile = (req: Request): InstrumentImportFile => {
+  if (!req.file) {
+    throw new ValidationError('请上传结果文件');
+  }
+  return {
+    name: Buffer.from(req.file.originalname, 'latin1').toString('utf8'),
+    buffer: req.file.buffer
+  };
+};
+
+/**
+ * 映射方案请求体
+ */
+interface ProfileBody {
+  name: string;
+  equipment_id?: string | null;
+  method: ExperimentMethod;
+  delimiter?: string | null;
+  header_row?: number;
+  layout?: ImportLayout;
+  sample_column: string;
+  sample_key?: 'barcode' | 'sample_no';
+  item_columns?: ImportItemColumn[];
+  item_column?: string | null;
+  value_column?: string | null;
+  unit_column?: string | null;
+  measured_at_column?: string | null;
+  skip_sample_pattern?: string | null;
+  is_active?: boolean;
+  remarks?: string | null;
+}
+
+/**
+ * 整理映射方案字段
+ * @description 空字符串存为空，long版式不保存项目列映射
+ * @param body 请求体
+ * @returns 待保存的方案字段
+ */
+const toProfileRow = (body: ProfileBody) => {
+  const blankToNull = (value?: string | null) => (value ? value : null);
+  return {
+    name: body.name,
+    equipment_id: body.equipment_id || null,
+    method: body.method,
+    delimiter: blankToNull(body.delimiter),
+    header_row: body.header_row ?? 1,
+    layout: body.layout || 'wide',
+    sample_column: body.sample_column,
+    sample_key: body.sample_key || 'barcode',
+    item_columns: body.layout === 'long' ? [] : body.item_columns || [],
+    item_column: blankToNull(body.item_column),
+    value_column: blankToNull(body.value_column),
+    unit_column: blankToNull(body.unit_column),
+    measured_at_column: blankToNull(body.measured_at_column),
+    skip_sample_pattern: blankToNull(body.skip_sample_pattern),
+    is_active: body.is_active ?? true,
+    remarks: blankToNull(body.remarks)
+  };
+};
+
+/**
+ * 获取导入映射方案列表
+ * GET /api/instrument-imports/profiles
+ * @description 仅返回用户有列表权限的实验方法的方案
+ */
+router.get('/profiles',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  validate(instrumentProfileQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { method, active_only } = req.query;
+    const permitted = getPermittedMethods(req.user?.permissions, 'list');
+
+    if (method) {
+      assertMethodPermission(req.user?.permissions, method as ExperimentMethod, 'list');
+    }
+
+    const data = await listImportProfiles({
+      method: (method || undefined) as ExperimentMethod | undefined,
+      activeOnly: String(active_only) === 'true'
+    });
+
+    return successResponse(
+      res,
+      data.filter(profile => permitted.includes(profile.method)),
+      '获取导入映射方案成功'
+    );
+  })
+);
+
+/**
+ * 创建导入映射方案
+ * POST /api/instrument-imports/profiles
+ * @description 仅实验室主管或系统管理员可维护
+ */
+router.post('/profiles',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  requireRoles(['admin', 'lab_manager']),
+  validate(instrumentProfileSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const row = toProfileRow(req.body);
+    assertMethodPermission(req.user?.permissions, row.method, 'entry');
+    assertProfileValid(row);
+
+    const { data, error } = await supabase
+      .from('instrument_import_profiles')
+      .insert({ ...row, created_by: req.user?.id, updated_by: req.user?.id })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictError('方案名称已存在');
+      }
+      logger.error('创建导入映射方案失败:', error);
+      throw new DatabaseError('创建导入映射方案失败');
+    }
+
+    logger.info(`导入映射方案已创建: ${data.name}`, { createdBy: req.user?.id });
+    return createdResponse(res, data, '导入映射方案创建成功');
+  })
+);
+
+/**
+ * 更新导入映射方案
+ * PUT /api/instrument-imports/profiles/:id
+ */
+router.put('/profiles/:id',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  requireRoles(['admin', 'lab_manager']),
+  validate(uuidParamSchema, 'params'),
+  validate(instrumentProfileSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const existing = await getImportProfile(req.params.id);
+    assertMethodPermission(req.user?.permissions, existing.method, 'entry');
+
+    const row = toProfileRow(req.body);
+    assertMethodPermission(req.user?.permissions, row.method, 'entry');
+    assertProfileValid(row);
+
+    const { data, error } = await supabase
+      .from('instrument_import_profiles')
+      .update({ ...row, updated_at: new Date().toISOString(), updated_by: req.user?.id })
+      .eq('id', req.params.id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictError('方案名称已存在');
+      }
+      logger.error('更新导入映射方案失败:', error);
+      throw new DatabaseError('更新导入映射方案失败');
+    }
+
+    logger.info(`导入映射方案已更新: ${data.name}`, { updatedBy: req.user?.id });
+    return successResponse(res, data, '导入映射方案更新成功');
+  })
+);
+
+/**
+ * 校验仪器结果文件
+ * POST /api/instrument-imports/validate
+ * @description 试运行，不写入数据，返回行级错误及按实验汇总的预览
+ */
+router.post('/validate',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  uploadResultFile,
+  validate(instrumentImportSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const file = getUploadedFile(req);
+
+    const profile = await getImportProfile(req.body.profile_id);
+    assertMethodPermission(req.user?.permissions, profile.method, 'entry');
+
+    const result = await validateInstrumentImport(profile, file);
+    return successResponse(res, result, result.error_count > 0 ? '结果文件校验未通过' : '结果文件校验通过');
+  })
+);
+
+/**
+ * 导入仪器结果
+ * POST /api/instrument-imports
+ * @description 导入前重新校验，存在任一行错误时整个文件不导入
+ */
+router.post('/',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  uploadResultFile,
+  validate(instrumentImportSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const file = getUploadedFile(req);
+
+    const profile = await getImportProfile(req.body.profile_id);
+    assertMethodPermission(req.user?.permissions, profile.method, 'entry');
+
+    if (!profile.is_active) {
+      throw new ConflictError('导入映射方案已停用');
+    }
+
+    const result = await validateInstrumentImport(profile, file);
+    if (result.error_count > 0) {
+      throw new ValidationError(`结果文件中有${result.error_count}行未通过校验`, { errors: result.errors });
+    }
+    if (result.result_count === 0) {
+      throw new ValidationError('结果文件中没有可导入的结果');
+    }
+
+    const data = await importInstrumentResults(profile, result, file.name, req.user?.id);
+    return createdResponse(res, data, `仪器结果导入成功，共${data.result_count}条结果`);
+  })
+);
+
+/**
+ * 获取仪器结果导入记录
+ * GET /api/instrument-imports
+ */
+router.get('/',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  validate(instrumentImportQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, search, profile_id } = req.query;
+    const permitted = getPermittedMethods(req.user?.permissions, 'list');
+
+    let query = supabase
+      .from('instrument_imports')
+      .select(`
+        *,
+        instrument_import_profiles!inner(
+          id,
+          name,
+          method
+        ),
+        importer:users!instrument_imports_imported_by_fkey(
+          id,
+          real_name
+        )
+      `, { count: 'exact' })
+      .in('instrument_import_profiles.method', permitted);
+
+    // 搜索过滤
+    if (search) {
+      query = query.ilike('file_name', `%${search}%`);
+    }
+
+    // 方案过滤
+    if (profile_id) {
+      query = query.eq('profile_id', profile_id);
+    }
+
+    query = query.order('imported_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取仪器导入记录失败:', error);
+      throw new DatabaseError('获取仪器导入记录失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+export default router;
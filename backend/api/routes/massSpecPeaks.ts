@@ -0,0 +1,93 @@
+/**
+ * 质谱峰鉴定路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  peakUploadSchema,
+  peakReviewSchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler } from '../middleware/enhancedErrorHandler.js';
+import { successResponse } from '../utils/response.js';
+import {
+  listPeaks,
+  uploadPeaks,
+  rematchPeaks,
+  acceptCandidate,
+  overrideAnnotation
+} from '../utils/compoundMatching.js';
+
+const router = Router();
+
+/**
+ * 获取实验的质谱峰及鉴定
+ * GET /api/mass-spec-peaks/experiments/:id
+ */
+router.get('/experiments/:id',
+  authenticateToken,
+  requirePermission('mass_spec.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await listPeaks(req.params.id);
+    return successResponse(res, data, '获取质谱峰成功');
+  })
+);
+
+/**
+ * 上传实验的质谱峰
+ * PUT /api/mass-spec-peaks/experiments/:id
+ * @description 替换该实验已有的质谱峰并与化合物库比对
+ */
+router.put('/experiments/:id',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  validate(uuidParamSchema, 'params'),
+  validate(peakUploadSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await uploadPeaks(req.params.id, req.body.peaks, req.user?.id);
+    return successResponse(res, data, `已上传${data.total}个质谱峰，建议鉴定${data.suggested_count}个`);
+  })
+);
+
+/**
+ * 重新比对化合物库
+ * POST /api/mass-spec-peaks/experiments/:id/rematch
+ * @description 已确认和人工改判的质谱峰保持不变
+ */
+router.post('/experiments/:id/rematch',
+  authenticateToken,
+  requirePermission('mass_spec.data_entry'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const count = await rematchPeaks(req.params.id, req.user?.id);
+    return successResponse(res, { count }, `已重新比对${count}个质谱峰`);
+  })
+);
+
+/**
+ * 审核质谱峰鉴定
+ * POST /api/mass-spec-peaks/:id/review
+ * @description accept-确认比对候选，override-人工改判
+ */
+router.post('/:id/review',
+  authenticateToken,
+  requirePermission('mass_spec.data_review'),
+  validate(uuidParamSchema, 'params'),
+  validate(peakReviewSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { action, candidate_index, ...override } = req.body;
+
+    const data = action === 'accept'
+      ? await acceptCandidate(req.params.id, candidate_index ?? 0, req.user?.id)
+      : await overrideAnnotation(req.params.id, override, req.user?.id);
+
+    return successResponse(res, data, action === 'accept' ? '鉴定已确认' : '鉴定已改判');
+  })
+);
+
+export default router;
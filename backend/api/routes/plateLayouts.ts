@@ -0,0 +1,220 @@
+/**
+ * 孔板布局管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermissions, requireRoles } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  plateLayoutQuerySchema,
+  plateAutoFillSchema,
+  plateWellsSchema,
+  plateWorklistQuerySchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler } from '../middleware/enhancedErrorHandler.js';
+import { successResponse } from '../utils/response.js';
+import { assertMethodPermission, EXPERIMENT_METHOD_PERMISSIONS } from '../utils/experimentResults.js';
+import {
+  getFillPatterns,
+  normalizeFillPattern,
+  getBatchExperiments,
+  listBatchLayouts,
+  getPlateLayout,
+  autoFillPlateLayouts,
+  savePlateWells,
+  confirmPlateLayout,
+  reopenPlateLayout,
+  renderWorklistCsv,
+  renderPlateMapPdf,
+  type WorklistFormat
+} from '../utils/plateLayout.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+// 任一实验方法的列表权限
+const LIST_PERMISSIONS = Object.values(EXPERIMENT_METHOD_PERMISSIONS).map(item => item.list);
+
+// 任一实验方法的录入权限
+const ENTRY_PERMISSIONS = Object.values(EXPERIMENT_METHOD_PERMISSIONS).map(item => item.entry);
+
+/**
+ * 获取孔板排布方案
+ * GET /api/plate-layouts/patterns
+ */
+router.get('/patterns',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  asyncHandler(async (_req, res) => {
+    const data = await getFillPatterns();
+    return successResponse(res, data, '获取排布方案成功');
+  })
+);
+
+/**
+ * 获取批次孔板布局
+ * GET /api/plate-layouts?batch_no=
+ * @description 返回批次实验及已保存的各孔板布局
+ */
+router.get('/',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  validate(plateLayoutQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const batchNo = String(req.query.batch_no);
+
+    const { method, experiments } = await getBatchExperiments(batchNo);
+    assertMethodPermission(req.user?.permissions, method, 'list');
+
+    const layouts = await listBatchLayouts(batchNo);
+    return successResponse(res, { batch_no: batchNo, method, experiments, layouts }, '获取孔板布局成功');
+  })
+);
+
+/**
+ * 自动填充批次孔板布局
+ * POST /api/plate-layouts/auto-fill
+ * @description 按排布方案重新生成批次全部孔板，替换原有草稿布局
+ */
+router.post('/auto-fill',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  validate(plateAutoFillSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { batch_no, plate_format = 96, pattern } = req.body;
+
+    const { method } = await getBatchExperiments(batch_no);
+    assertMethodPermission(req.user?.permissions, method, 'entry');
+
+    const data = await autoFillPlateLayouts(
+      batch_no,
+      Number(plate_format) as 96 | 384,
+      normalizeFillPattern(pattern),
+      req.user?.id
+    );
+
+    return successResponse(res, data, `已生成${data.length}块孔板布局`);
+  })
+);
+
+/**
+ * 获取孔板布局详情
+ * GET /api/plate-layouts/:id
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getPlateLayout(req.params.id);
+    assertMethodPermission(req.user?.permissions, data.method, 'list');
+
+    return successResponse(res, data, '获取孔板布局成功');
+  })
+);
+
+/**
+ * 保存孔位分配
+ * PUT /api/plate-layouts/:id/wells
+ * @description 整板替换孔位分配，已确认的布局不能修改
+ */
+router.put('/:id/wells',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  validate(plateWellsSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const layout = await getPlateLayout(req.params.id);
+    assertMethodPermission(req.user?.permissions, layout.method, 'entry');
+
+    const data = await savePlateWells(req.params.id, req.body.wells, req.user?.id);
+    return successResponse(res, data, '孔位分配已保存');
+  })
+);
+
+/**
+ * 确认孔板布局
+ * POST /api/plate-layouts/:id/confirm
+ * @description 确认后锁定布局；批次最后一块板确认时校验全部实验均已分配孔位
+ */
+router.post('/:id/confirm',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const layout = await getPlateLayout(req.params.id);
+    assertMethodPermission(req.user?.permissions, layout.method, 'entry');
+
+    const data = await confirmPlateLayout(req.params.id, req.user?.id);
+    return successResponse(res, data, '孔板布局已确认');
+  })
+);
+
+/**
+ * 撤销孔板布局确认
+ * POST /api/plate-layouts/:id/reopen
+ * @description 仅实验室主管或系统管理员可撤销
+ */
+router.post('/:id/reopen',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  requireRoles(['admin', 'lab_manager']),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const layout = await getPlateLayout(req.params.id);
+    assertMethodPermission(req.user?.permissions, layout.method, 'entry');
+
+    const data = await reopenPlateLayout(req.params.id, req.user?.id);
+    return successResponse(res, data, '已撤销孔板布局确认');
+  })
+);
+
+/**
+ * 导出工作列表
+ * GET /api/plate-layouts/:id/worklist?format=
+ * @description 按移液工作站或仪器格式导出CSV，默认通用格式
+ */
+router.get('/:id/worklist',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  validate(plateWorklistQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const format = (req.query.format || 'generic') as WorklistFormat;
+
+    const layout = await getPlateLayout(req.params.id);
+    assertMethodPermission(req.user?.permissions, layout.method, 'list');
+
+    const csv = renderWorklistCsv(layout, format);
+    const fileName = `${layout.batch_no}_P${layout.plate_no}_${format}`;
+
+    logger.info(`工作列表已导出: ${layout.batch_no} 第${layout.plate_no}板 ${format}`, { exportedBy: req.user?.id });
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+    return res.type('text/csv').send(csv);
+  })
+);
+
+/**
+ * 打印孔板布局图
+ * GET /api/plate-layouts/:id/map
+ * @description 返回A4横向PDF
+ */
+router.get('/:id/map',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const layout = await getPlateLayout(req.params.id);
+    assertMethodPermission(req.user?.permissions, layout.method, 'list');
+
+    const pdf = await renderPlateMapPdf(layout);
+
+    res.setHeader('Content-Disposition', `attachment; filename="${layout.batch_no}_P${layout.plate_no}_map.pdf"`);
+    return res.type('application/pdf').send(pdf);
+  })
+);
+
+export default router;
@@ -0,0 +1,302 @@
+/**
+ * 质控管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission, requireRoles } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  qcLotQuerySchema,
+  qcLotSchema,
+  qcResultQuerySchema,
+  qcResultSchema,
+  qcResolveSchema,
+  leveyJenningsQuerySchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, calculatePagination } from '../utils/response.js';
+import type { ExperimentMethod } from '../utils/experimentResults.js';
+import {
+  WESTGARD_RULE_TEXT,
+  getWestgardRules,
+  listQcItems,
+  getQcLot,
+  listQcLots,
+  saveQcLot,
+  recordQcResult,
+  resolveQcResult,
+  getLeveyJennings,
+  getUnresolvedQcFailures
+} from '../utils/qualityControl.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+// 维护质控品和处理失控的角色
+const QC_MANAGER_ROLES = ['admin', 'lab_manager', 'quality_controller'];
+
+/**
+ * 获取质控品批号列表
+ * GET /api/qc/lots
+ */
+router.get('/lots',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  validate(qcLotQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { method, active_only } = req.query;
+
+    const data = await listQcLots({
+      method: (method || undefined) as ExperimentMethod | undefined,
+      activeOnly: String(active_only) === 'true'
+    });
+
+    return successResponse(res, data, '获取质控品批号成功');
+  })
+);
+
+/**
+ * 获取可设定靶值的检测项目
+ * GET /api/qc/items
+ */
+router.get('/items',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  validate(qcLotQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const data = await listQcItems((req.query.method || undefined) as ExperimentMethod | undefined);
+    return successResponse(res, data, '获取检测项目成功');
+  })
+);
+
+/**
+ * 获取质控品批号详情
+ * GET /api/qc/lots/:id
+ */
+router.get('/lots/:id',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getQcLot(req.params.id);
+    return successResponse(res, data, '获取质控品批号成功');
+  })
+);
+
+/**
+ * 创建质控品批号
+ * POST /api/qc/lots
+ */
+router.post('/lots',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  requireRoles(QC_MANAGER_ROLES),
+  validate(qcLotSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await saveQcLot(null, req.body, req.user?.id);
+    return createdResponse(res, data, '质控品批号创建成功');
+  })
+);
+
+/**
+ * 更新质控品批号及靶值
+ * PUT /api/qc/lots/:id
+ */
+router.put('/lots/:id',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  requireRoles(QC_MANAGER_ROLES),
+  validate(uuidParamSchema, 'params'),
+  validate(qcLotSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    await getQcLot(req.params.id);
+    const data = await saveQcLot(req.params.id, req.body, req.user?.id);
+    return successResponse(res, data, '质控品批号更新成功');
+  })
+);
+
+/**
+ * 获取Westgard规则配置
+ * GET /api/qc/rules
+ */
+router.get('/rules',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  asyncHandler(async (_req, res) => {
+    const rules = await getWestgardRules();
+    const data = (Object.keys(rules) as (keyof typeof rules)[]).map(rule => ({
+      rule,
+      action: rules[rule],
+      description: WESTGARD_RULE_TEXT[rule]
+    }));
+
+    return successResponse(res, data, '获取质控规则成功');
+  })
+);
+
+/**
+ * 获取质控结果列表
+ * GET /api/qc/results
+ */
+router.get('/results',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  validate(qcResultQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, search, lot_id, item_id, batch_no, status, unresolved_only } = req.query;
+
+    let query = supabase
+      .from('qc_results')
+      .select(`
+        *,
+        qc_lots(
+          id,
+          lot_no,
+          material_name,
+          level
+        ),
+        test_items(
+          id,
+          code,
+          name,
+          unit
+        ),
+        resolver:users!qc_results_resolved_by_fkey(
+          id,
+          real_name
+        )
+      `, { count: 'exact' });
+
+    // 搜索过滤
+    if (search) {
+      query = query.ilike('batch_no', `%${search}%`);
+    }
+
+    if (lot_id) {
+      query = query.eq('lot_id', lot_id);
+    }
+    if (item_id) {
+      query = query.eq('item_id', item_id);
+    }
+    if (batch_no) {
+      query = query.eq('batch_no', batch_no);
+    }
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    // 只查未纠正的失控结果
+    if (String(unresolved_only) === 'true') {
+      query = query.eq('status', 'rejected').is('resolved_at', null);
+    }
+
+    query = query.order('measured_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取质控结果失败:', error);
+      throw new DatabaseError('获取质控结果失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 录入质控结果
+ * POST /api/qc/results
+ * @description 保存时按Westgard规则判定，失控结果阻止同批次该项目的患者结果审核发布
+ */
+router.post('/results',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  validate(qcResultSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await recordQcResult(req.body, req.user?.id);
+
+    const message = data.status === 'rejected'
+      ? '质控失控，请记录纠正措施'
+      : data.status === 'warning' ? '质控结果警告' : '质控结果在控';
+    return createdResponse(res, data, message);
+  })
+);
+
+/**
+ * 记录失控纠正措施
+ * POST /api/qc/results/:id/resolve
+ */
+router.post('/results/:id/resolve',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  requireRoles(QC_MANAGER_ROLES),
+  validate(uuidParamSchema, 'params'),
+  validate(qcResolveSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await resolveQcResult(req.params.id, req.body.corrective_action, req.user?.id);
+    return successResponse(res, data, '纠正措施已记录');
+  })
+);
+
+/**
+ * 获取Levey-Jennings质控图数据
+ * GET /api/qc/levey-jennings
+ */
+router.get('/levey-jennings',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  validate(leveyJenningsQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { lot_id, item_id, date_from, date_to } = req.query;
+
+    const data = await getLeveyJennings(String(lot_id), String(item_id), {
+      dateFrom: date_from ? String(date_from) : undefined,
+      dateTo: date_to ? String(date_to) : undefined
+    });
+
+    return successResponse(res, data, '获取质控图数据成功');
+  })
+);
+
+/**
+ * 获取批次质控状态
+ * GET /api/qc/runs/:batchNo
+ * @description 返回批次全部质控结果及未纠正的失控结果
+ */
+router.get('/runs/:batchNo',
+  authenticateToken,
+  requirePermission('mass_spec.qc'),
+  asyncHandler(async (req, res) => {
+    const { batchNo } = req.params;
+
+    const { data: results, error } = await supabase
+      .from('qc_results')
+      .select('*, qc_lots(id, lot_no, material_name, level), test_items(id, code, name, unit)')
+      .eq('batch_no', batchNo)
+      .order('measured_at', { ascending: true });
+
+    if (error) {
+      logger.error('获取批次质控结果失败:', error);
+      throw new DatabaseError('获取批次质控结果失败');
+    }
+
+    const failures = await getUnresolvedQcFailures(batchNo);
+
+    return successResponse(res, {
+      batch_no: batchNo,
+      releasable: failures.length === 0,
+      results: results || [],
+      failures
+    }, '获取批次质控状态成功');
+  })
+);
+
+export default router;
@@ -0,0 +1,475 @@
+/**
+ * 报告模板管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission, requirePermissions } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  reportTemplateQuerySchema,
+  createReportTemplateSchema,
+  updateReportTemplateSchema,
+  reportTemplatePreviewSchema
+} from '../middleware/validation.js';
+import {
+  asyncErrorHandler as asyncHandler,
+  NotFoundError,
+  ConflictError,
+  DatabaseError
+} from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, noContentResponse, calculatePagination } from '../utils/response.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { loadReportContext, renderReportHtml, type ReportTemplateRecord } from '../utils/reportPdf.js';
+import { TEMPLATE_PLACEHOLDERS, RESULT_COLUMN_TEXT, bumpTemplateVersion } from '../utils/reportTemplate.js';
+
+const router = Router();
+
+/**
+ * 序列化模板内容
+ * @description 结构化模板以JSON文本存储
+ * @param content 模板内容
+ * @returns 存储用的模板内容
+ */
+const serializeTemplateContent = (content: unknown): string => {
+  return typeof content === 'string' ? content : JSON.stringify(content);
+};
+
+/**
+ * 格式化模板响应数据
+ * @description 结构化模板的内容解析为对象返回
+ * @param template 模板记录
+ * @returns 响应数据
+ */
+const toTemplateResponse = (template: ReportTemplateRecord & { reports?: { count: number }[] }) => {
+  const { reports, ...rest } = template;
+  let content: unknown = rest.template_content;
+
+  if (rest.template_format === 'sections' && typeof content === 'string') {
+    try {
+      content = JSON.parse(content);
+    } catch {
+      logger.warn(`模板内容解析失败: ${rest.id}`);
+    }
+  }
+
+  return {
+    ...rest,
+    template_content: content,
+    ...(reports ? { usage_count: reports[0]?.count || 0 } : {})
+  };
+};
+
+/**
+ * 获取模板记录
+ * @param id 模板ID
+ * @returns 模板记录
+ */
+const getTemplate = async (id: string) => {
+  const { data, error } = await supabase
+    .from('report_templates')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('报告模板不存在');
+  }
+
+  return data;
+};
+
+/**
+ * 获取报告模板列表
+ * GET /api/report-templates
+ */
+router.get('/',
+  authenticateToken,
+  requirePermissions(['report.template', 'report.edit']),
+  validate(reportTemplateQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, search, status, category, template_format } = req.query;
+
+    let query = supabase
+      .from('report_templates')
+      .select('*, reports(count)', { count: 'exact' });
+
+    // 搜索过滤
+    if (search) {
+      query = query.or(`name.ilike.%${search}%,description.ilike.%${search}%`);
+    }
+
+    // 启用状态过滤
+    if (status) {
+      query = query.eq('is_active', status === 'active');
+    }
+
+    // 分类过滤
+    if (category) {
+      query = query.eq('category', category);
+    }
+
+    // 格式过滤
+    if (template_format) {
+      query = query.eq('template_format', template_format);
+    }
+
+    // 排序：默认模板在前
+    query = query
+      .order('is_default', { ascending: false })
+      .order('updated_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取报告模板列表失败:', error);
+      throw new DatabaseError('获取报告模板列表失败');
+    }
+
+    return paginatedResponse(
+      res,
+      (data || []).map(toTemplateResponse),
+      calculatePagination(count || 0, Number(page), Number(limit))
+    );
+  })
+);
+
+/**
+ * 获取模板可用占位符
+ * GET /api/report-templates/placeholders
+ */
+router.get('/placeholders',
+  authenticateToken,
+  requirePermissions(['report.template', 'report.edit']),
+  asyncHandler(async (_req, res) => {
+    return successResponse(res, {
+      placeholders: TEMPLATE_PLACEHOLDERS,
+      result_columns: Object.entries(RESULT_COLUMN_TEXT).map(([key, label]) => ({ key, label }))
+    });
+  })
+);
+
+/**
+ * 预览报告模板
+ * POST /api/report-templates/preview
+ * @description 以指定报告的数据渲染模板，可传入未保存的模板内容实时预览
+ */
+router.post('/preview',
+  authenticateToken,
+  requirePermissions(['report.template', 'report.edit']),
+  validate(reportTemplatePreviewSchema),
+  asyncHandler(async (req, res) => {
+    const { report_id, template_id, template_format, template_content } = req.body;
+
+    const template = template_id ? await getTemplate(template_id) : {};
+    const context = await loadReportContext(report_id);
+
+    context.template = template_content === undefined
+      ? template
+      : {
+        ...template,
+        template_format,
+        template_content: serializeTemplateContent(template_content)
+      };
+
+    return successResponse(res, {
+      template_id: template_id || null,
+      report_id,
+      html: renderReportHtml(context)
+    });
+  })
+);
+
+/**
+ * 获取报告模板详情
+ * GET /api/report-templates/:id
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermissions(['report.template', 'report.edit']),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('report_templates')
+      .select('*, reports(count)')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundError('报告模板不存在');
+    }
+
+    return successResponse(res, toTemplateResponse(data));
+  })
+);
+
+/**
+ * 创建报告模板
+ * POST /api/report-templates
+ */
+router.post('/',
+  authenticateToken,
+  requirePermission('report.template'),
+  validate(createReportTemplateSchema),
+  asyncHandler(async (req, res) => {
+    const { name, description, category, template_format = 'sections', template_content, is_active = true } = req.body;
+
+    const { data, error } = await supabase
+      .from('report_templates')
+      .insert({
+        name,
+        description,
+        category,
+        template_format,
+        template_content: serializeTemplateContent(template_content),
+        is_active,
+        is_default: false,
+        version: '1.0',
+        created_by: req.user?.id,
+        updated_by: req.user?.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('创建报告模板失败:', error);
+      throw new DatabaseError('创建报告模板失败');
+    }
+
+    logger.info(`报告模板已创建: ${name}`, { createdBy: req.user?.id });
+    return createdResponse(res, toTemplateResponse(data), '报告模板创建成功');
+  })
+);
+
+/**
+ * 更新报告模板
+ * PUT /api/report-templates/:id
+ * @description 模板内容变更时保存原内容为历史版本，次版本号加1
+ */
+router.put('/:id',
+  authenticateToken,
+  requirePermission('report.template'),
+  validate(uuidParamSchema, 'params'),
+  validate(updateReportTemplateSchema),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { name, description, category, template_format, template_content } = req.body;
+
+    const existing = await getTemplate(id);
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+      updated_by: req.user?.id
+    };
+
+    if (name !== undefined) updateData.name = name;
+    if (description !== undefined) updateData.description = description;
+    if (category !== undefined) updateData.category = category;
+
+    if (template_content !== undefined) {
+      const content = serializeTemplateContent(template_content);
+
+      if (content !== existing.template_content || template_format !== existing.template_format) {
+        const { error: versionError } = await supabase
+          .from('report_template_versions')
+          .upsert({
+            template_id: id,
+            version: existing.version || '1.0',
+            template_content: existing.template_content,
+            template_format: existing.template_format || 'html',
+            created_by: req.user?.id
+          }, { onConflict: 'template_id,version', ignoreDuplicates: true });
+
+        if (versionError) {
+          logger.error('保存模板历史版本失败:', versionError);
+          throw new DatabaseError('保存模板历史版本失败');
+        }
+
+        updateData.template_format = template_format;
+        updateData.template_content = content;
+        updateData.version = bumpTemplateVersion(existing.version);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('report_templates')
+      .update(updateData)
+      .eq('id', id)
+      .eq('version', existing.version)
+      .select()
+      .single();
+
+    if (error || !data) {
+      logger.error('更新报告模板失败:', error);
+      throw new ConflictError('模板已被其他操作修改，请刷新后重试');
+    }
+
+    logger.info(`报告模板已更新: ${data.name} v${data.version}`, { updatedBy: req.user?.id });
+    return successResponse(res, toTemplateResponse(data), '报告模板更新成功');
+  })
+);
+
+/**
+ * 设为默认模板
+ * POST /api/report-templates/:id/default
+ * @description 未关联模板的报告使用默认模板生成，同一时间只有一个默认模板
+ */
+router.post('/:id/default',
+  authenticateToken,
+  requirePermission('report.template'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const template = await getTemplate(id);
+
+    if (!template.is_active) {
+      throw new ConflictError('停用的模板不能设为默认模板');
+    }
+
+    const { error: resetError } = await supabase
+      .from('report_templates')
+      .update({ is_default: false })
+      .eq('is_default', true)
+      .neq('id', id);
+
+    if (resetError) {
+      logger.error('取消原默认模板失败:', resetError);
+      throw new DatabaseError('设置默认模板失败');
+    }
+
+    const { data, error } = await supabase
+      .from('report_templates')
+      .update({ is_default: true, updated_at: new Date().toISOString(), updated_by: req.user?.id })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('设置默认模板失败:', error);
+      throw new DatabaseError('设置默认模板失败');
+    }
+
+    logger.info(`默认报告模板已设置: ${template.name}`, { updatedBy: req.user?.id });
+    return successResponse(res, toTemplateResponse(data), '默认模板设置成功');
+  })
+);
+
+/**
+ * 切换模板启用状态
+ * POST /api/report-templates/:id/toggle-status
+ */
+router.post('/:id/toggle-status',
+  authenticateToken,
+  requirePermission('report.template'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const template = await getTemplate(id);
+
+    if (template.is_active && template.is_default) {
+      throw new ConflictError('默认模板不能停用，请先设置其他默认模板');
+    }
+
+    const { data, error } = await supabase
+      .from('report_templates')
+      .update({ is_active: !template.is_active, updated_at: new Date().toISOString(), updated_by: req.user?.id })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('切换模板状态失败:', error);
+      throw new DatabaseError('切换模板状态失败');
+    }
+
+    logger.info(`报告模板已${data.is_active ? '启用' : '停用'}: ${template.name}`, { updatedBy: req.user?.id });
+    return successResponse(res, toTemplateResponse(data), data.is_active ? '模板已启用' : '模板已停用');
+  })
+);
+
+/**
+ * 删除报告模板
+ * DELETE /api/report-templates/:id
+ * @description 默认模板及已被报告使用的模板不能删除，可改为停用
+ */
+router.delete('/:id',
+  authenticateToken,
+  requirePermission('report.template'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const template = await getTemplate(id);
+
+    if (template.is_default) {
+      throw new ConflictError('默认模板不能删除');
+    }
+
+    const { count, error: usageError } = await supabase
+      .from('reports')
+      .select('id', { count: 'exact', head: true })
+      .eq('template_id', id);
+
+    if (usageError) {
+      logger.error('检查模板使用情况失败:', usageError);
+      throw new DatabaseError('删除报告模板失败');
+    }
+
+    if (count) {
+      throw new ConflictError(`模板已被${count}份报告使用，不能删除，可改为停用`);
+    }
+
+    const { error } = await supabase
+      .from('report_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      logger.error('删除报告模板失败:', error);
+      throw new DatabaseError('删除报告模板失败');
+    }
+
+    logger.info(`报告模板已删除: ${template.name}`, { deletedBy: req.user?.id });
+    return noContentResponse(res, '报告模板删除成功');
+  })
+);
+
+/**
+ * 获取模板历史版本
+ * GET /api/report-templates/:id/versions
+ */
+router.get('/:id/versions',
+  authenticateToken,
+  requirePermissions(['report.template', 'report.edit']),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    await getTemplate(id);
+
+    const { data, error } = await supabase
+      .from('report_template_versions')
+      .select('id, version, template_format, template_content, created_at, created_by')
+      .eq('template_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('获取模板历史版本失败:', error);
+      throw new DatabaseError('获取模板历史版本失败');
+    }
+
+    return successResponse(res, (data || []).map(toTemplateResponse));
+  })
+);
+
+export default router;
@@ -5,12 +5,46 @@
  */
 
 import { Router } from 'express';
-import { authenticateToken, requireRoles } from '../middleware/auth.js';
-import { validate } from '../middleware/validation.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
-import { successResponse, paginatedResponse, createdResponse, noContentResponse } from '../utils/response.js';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  reportQuerySchema,
+  createReportSchema,
+  updateReportSchema,
+  reportReviewSchema,
+  reportDeliverySchema,
+  updateReportDeliverySchema,
+  reportDeliveryParamSchema,
+  reportVersionParamSchema
+} from '../middleware/validation.js';
+import {
+  asyncErrorHandler as asyncHandler,
+  NotFoundError,
+  ConflictError,
+  DatabaseError
+} from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, noContentResponse, calculatePagination } from '../utils/response.js';
 import { supabase } from '../config/database.js';
 import logger from '../config/logger.js';
+import {
+  loadReportContext,
+  renderReportHtml,
+  renderHtmlToPdf,
+  uploadReportPdf,
+  createReportDownloadUrl,
+  type ReportFileRecord
+} from '../utils/reportPdf.js';
+import { assertSubmissionQcReleasable } from '../utils/qualityControl.js';
+import {
+  assertReportEditable,
+  submitReportForReview,
+  reviewReport,
+  releaseReport,
+  recordReportDelivery,
+  updateReportDelivery
+} from '../utils/reportWorkflow.js';
+import { amendReport } from '../utils/reportVersion.js';
 
 const router = Router();
 
@@ -20,36 +54,49 @@ const router = Router();
  */
 router.get('/',
   authenticateToken,
-  validate('pagination'),
+  requirePermission('report.list'),
+  validate(reportQuerySchema, 'query'),
   asyncHandler(async (req, res) => {
-    const { page = 1, limit = 10, search, status, report_type, date_from, date_to } = req.query;
-    
+    const { page = 1, limit = 10, search, status, submission_id, date_from, date_to } = req.query;
+
     let query = supabase
       .from('reports')
       .select(`
         id,
-        report_number,
+        report_no,
         title,
-        report_type,
         status,
+        current_review_level,
+        required_review_levels,
+        submitted_at,
+        approved_at,
+        released_at,
         generated_at,
+        delivered_at,
         created_at,
-        samples(
+        submissions(
+          id,
+          submission_no,
+          patient_name,
+          is_urgent,
+          client_units(
+            id,
+            name
+          )
+        ),
+        report_templates(
           id,
-          sample_number,
-          sample_name
+          name
         ),
-        users!reports_created_by_fkey(
+        submitter:users!reports_submitted_by_fkey(
           id,
-          username,
-          full_name
+          real_name
         )
-      `, { count: 'exact' })
-      .eq('deleted_at', null);
+      `, { count: 'exact' });
 
     // 搜索过滤
     if (search) {
-      query = query.or(`report_number.ilike.%${search}%,title.ilike.%${search}%`);
+      query = query.or(`report_no.ilike.%${search}%,title.ilike.%${search}%`);
     }
 
     // 状态过滤
@@ -57,17 +104,17 @@ router.get('/',
       query = query.eq('status', status);
     }
 
-    // 报告类型过滤
-    if (report_type) {
-      query = query.eq('report_type', report_type);
+    // 送检单过滤
+    if (submission_id) {
+      query = query.eq('submission_id', submission_id);
     }
 
     // 日期范围过滤
     if (date_from) {
-      query = query.gte('generated_at', date_from);
+      query = query.gte('created_at', date_from);
     }
     if (date_to) {
-      query = query.lte('generated_at', date_to);
+      query = query.lte('created_at', date_to);
     }
 
     // 排序
@@ -81,14 +128,68 @@ router.get('/',
 
     if (error) {
       logger.error('获取报告列表失败:', error);
-      throw new Error('获取报告列表失败');
+      throw new DatabaseError('获取报告列表失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取报告统计信息
+ * GET /api/reports/statistics
+ */
+router.get('/statistics',
+  authenticateToken,
+  requirePermission('report.list'),
+  asyncHandler(async (req, res) => {
+    const { date_from, date_to } = req.query;
+
+    let baseQuery = supabase
+      .from('reports')
+      .select('status, released_at, created_at');
+
+    if (date_from) {
+      baseQuery = baseQuery.gte('created_at', date_from);
     }
+    if (date_to) {
+      baseQuery = baseQuery.lte('created_at', date_to);
+    }
+
+    const { data, error } = await baseQuery;
+
+    if (error) {
+      logger.error('获取报告统计信息失败:', error);
+      throw new DatabaseError('获取报告统计信息失败');
+    }
+
+    // 统计数据
+    const statistics = {
+      total: data?.length || 0,
+      by_status: {} as Record<string, number>,
+      awaiting_release: 0,
+      recent_count: 0
+    };
+
+    const oneWeekAgo = new Date();
+    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
 
-    return paginatedResponse(res, data || [], {
-      page: Number(page),
-      limit: Number(limit),
-      total: count || 0
+    data?.forEach(report => {
+      // 按状态统计
+      statistics.by_status[report.status] = (statistics.by_status[report.status] || 0) + 1;
+
+      // 已审核待发布
+      if (report.status === 'approved' && !report.released_at) {
+        statistics.awaiting_release++;
+      }
+
+      // 最近一周统计
+      if (new Date(report.created_at) >= oneWeekAgo) {
+        statistics.recent_count++;
+      }
     });
+
+    return successResponse(res, statistics, '获取报告统计信息成功');
   })
 );
 
@@ -98,7 +199,8 @@ router.get('/',
  */
 router.get('/:id',
   authenticateToken,
-  validate('uuid'),
+  requirePermission('report.list'),
+  validate(uuidParamSchema, 'params'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
@@ -106,45 +208,59 @@ router.get('/:id',
       .from('reports')
       .select(`
         *,
-        samples(
+        submissions(
           id,
-          sample_number,
-          sample_name,
-          sample_types(
+          submission_no,
+          patient_name,
+          patient_gender,
+          patient_age,
+          is_urgent,
+          status,
+          client_units(
             id,
-            name,
-            display_name
+            name
           ),
-          tests(
+          samples(
             id,
-            test_number,
-            test_items(
-              id,
-              name,
-              display_name,
-              unit
-            ),
-            test_results(
-              id,
-              result_value,
-              result_text,
-              status
-            )
+            sample_no,
+            barcode,
+            status
           )
         ),
-        users!reports_created_by_fkey(
+        report_templates(
           id,
-          username,
-          full_name
+          name,
+          version
+        ),
+        report_audits(
+          id,
+          audit_level,
+          audit_result,
+          audit_comments,
+          audit_time,
+          users(
+            id,
+            real_name
+          )
+        ),
+        report_deliveries(
+          id,
+          delivery_method,
+          recipient_name,
+          recipient_contact,
+          delivery_status,
+          delivery_time,
+          tracking_info,
+          remarks,
+          created_at
         )
       `)
       .eq('id', id)
-      .eq('deleted_at', null)
       .single();
 
     if (error || !data) {
       logger.error('获取报告详情失败:', error);
-      throw new Error('报告不存在');
+      throw new NotFoundError('报告不存在');
     }
 
     return successResponse(res, data, '获取报告详情成功');
@@ -157,276 +273,505 @@ router.get('/:id',
  */
 router.post('/',
   authenticateToken,
-  requireRoles(['admin', 'manager', 'technician']),
+  requirePermission('report.edit'),
+  validate(createReportSchema, 'body'),
   asyncHandler(async (req, res) => {
     const {
-      sample_id,
-      title,
-      report_type = 'test_report',
+      submission_id,
       template_id,
+      title,
       content,
-      conclusions,
+      summary,
+      conclusion,
       recommendations
     } = req.body;
 
-    // 验证样本是否存在的逻辑已在创建报告时处理
+    const { data: submission, error: submissionError } = await supabase
+      .from('submissions')
+      .select('id, status')
+      .eq('id', submission_id)
+      .single();
 
-    // 生成报告编号
-    const reportNumber = await generateReportNumber();
+    if (submissionError || !submission) {
+      throw new NotFoundError('送检单不存在');
+    }
+    if (submission.status === 'cancelled') {
+      throw new ConflictError('送检单已取消，不能创建报告');
+    }
 
-    const reportData = {
-      report_number: reportNumber,
-      sample_id,
-      title,
-      report_type,
-      template_id,
-      content,
-      conclusions,
-      recommendations,
-      status: 'draft',
-      created_by: req.user?.id,
-      created_at: new Date().toISOString()
-    };
+    // 生成报告编号
+    const reportNo = await generateReportNumber();
 
     const { data, error } = await supabase
       .from('reports')
-      .insert(reportData)
-      .select(`
-        *,
-        samples(
-          id,
-          sample_number,
-          sample_name
-        )
-      `)
+      .insert({
+        report_no: reportNo,
+        submission_id,
+        template_id,
+        title,
+        content,
+        summary,
+        conclusion,
+        recommendations,
+        status: 'draft',
+        created_by: req.user?.id,
+        updated_by: req.user?.id
+      })
+      .select()
       .single();
 
     if (error) {
       logger.error('创建报告失败:', error);
-      throw new Error('创建报告失败');
+      throw new DatabaseError('创建报告失败');
     }
 
-    logger.info(`报告已创建: ${reportNumber}`, { createdBy: req.user?.id });
+    logger.info(`报告已创建: ${reportNo}`, { createdBy: req.user?.id });
     return createdResponse(res, data, '报告创建成功');
   })
 );
 
 /**
- * 更新报告信息
+ * 更新报告内容
  * PUT /api/reports/:id
+ * @description 草稿直接修改；已审核或已交付的报告须填写修订原因，生成新版本并重新审核；审核中的报告不可修改
  */
 router.put('/:id',
   authenticateToken,
-  requireRoles(['admin', 'manager', 'technician']),
-  validate('uuid'),
+  requirePermission('report.edit'),
+  validate(uuidParamSchema, 'params'),
+  validate(updateReportSchema, 'body'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const {
-      title,
-      content,
-      conclusions,
-      recommendations,
-      status
-    } = req.body;
+    const { template_id, title, content, summary, conclusion, recommendations, amendment_reason } = req.body;
 
-    // 检查报告是否存在
     const { data: existingReport, error: checkError } = await supabase
       .from('reports')
-      .select('id, report_number, status')
+      .select('id, report_no, status')
       .eq('id', id)
-      .eq('deleted_at', null)
       .single();
 
     if (checkError || !existingReport) {
-      throw new Error('报告不存在');
+      throw new NotFoundError('报告不存在');
     }
 
-    const updateData: any = {
-      title,
-      content,
-      conclusions,
-      recommendations,
-      status,
-      updated_at: new Date().toISOString()
-    };
-
-    // 如果状态变为已发布，设置生成时间
-    if (status === 'published' && existingReport.status !== 'published') {
-      updateData.generated_at = new Date().toISOString();
+    if (['approved', 'delivered'].includes(existingReport.status)) {
+      const amended = await amendReport(
+        id,
+        { template_id, title, content, summary, conclusion, recommendations },
+        amendment_reason,
+        req.user?.id
+      );
+      return successResponse(res, amended, '已生成修订版本，请重新提交审核');
     }
 
+    assertReportEditable(existingReport);
+
     const { data, error } = await supabase
       .from('reports')
-      .update(updateData)
+      .update({
+        template_id,
+        title,
+        content,
+        summary,
+        conclusion,
+        recommendations,
+        updated_at: new Date().toISOString(),
+        updated_by: req.user?.id
+      })
       .eq('id', id)
-      .select(`
-        *,
-        samples(
-          id,
-          sample_number,
-          sample_name
-        )
-      `)
+      .eq('status', 'draft')
+      .select()
       .single();
 
-    if (error) {
+    if (error || !data) {
       logger.error('更新报告信息失败:', error);
-      throw new Error('更新报告信息失败');
+      throw new ConflictError('报告状态已被其他操作修改，请刷新后重试');
     }
 
-    logger.info(`报告信息已更新: ${existingReport.report_number}`, { updatedBy: req.user?.id });
+    logger.info(`报告信息已更新: ${existingReport.report_no}`, { updatedBy: req.user?.id });
     return successResponse(res, data, '报告信息更新成功');
   })
 );
 
 /**
- * 删除报告（软删除）
+ * 删除报告
  * DELETE /api/reports/:id
+ * @description 仅未审核过的草稿可删除
  */
 router.delete('/:id',
   authenticateToken,
-  requireRoles(['admin', 'manager']),
-  validate('uuid'),
+  requirePermission('report.edit'),
+  validate(uuidParamSchema, 'params'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
-    // 检查报告是否存在
     const { data: existingReport, error: checkError } = await supabase
       .from('reports')
-      .select('id, report_number, status')
+      .select('id, report_no, status, report_audits(id)')
       .eq('id', id)
-      .eq('deleted_at', null)
       .single();
 
     if (checkError || !existingReport) {
-      throw new Error('报告不存在');
+      throw new NotFoundError('报告不存在');
     }
 
-    // 检查报告状态
-    if (existingReport.status === 'published') {
-      throw new Error('已发布的报告无法删除');
+    assertReportEditable(existingReport);
+
+    if ((existingReport.report_audits || []).length > 0) {
+      throw new ConflictError('报告已有审核记录，不能删除');
     }
 
-    // 软删除报告
     const { error } = await supabase
       .from('reports')
-      .update({
-        deleted_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', id);
+      .delete()
+      .eq('id', id)
+      .eq('status', 'draft');
 
     if (error) {
       logger.error('删除报告失败:', error);
-      throw new Error('删除报告失败');
+      throw new DatabaseError('删除报告失败');
     }
 
-    logger.info(`报告已删除: ${existingReport.report_number}`, { deletedBy: req.user?.id });
+    logger.info(`报告已删除: ${existingReport.report_no}`, { deletedBy: req.user?.id });
     return noContentResponse(res, '报告删除成功');
   })
 );
 
 /**
- * 生成报告PDF
- * POST /api/reports/:id/generate-pdf
+ * 提交报告审核
+ * POST /api/reports/:id/submit
  */
-router.post('/:id/generate-pdf',
+router.post('/:id/submit',
   authenticateToken,
-  requireRoles(['admin', 'manager', 'technician']),
-  validate('uuid'),
+  requirePermission('report.edit'),
+  validate(uuidParamSchema, 'params'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
-    // 检查报告是否存在
-    const { data: report, error: checkError } = await supabase
-      .from('reports')
+    const data = await submitReportForReview(id, req.user?.id);
+    return successResponse(res, data, '报告已提交审核');
+  })
+);
+
+/**
+ * 审核报告
+ * POST /api/reports/:id/review
+ * @description 审核当前级别；驳回时报告退回草稿并通知编制人
+ */
+router.post('/:id/review',
+  authenticateToken,
+  requirePermission('report.review'),
+  validate(uuidParamSchema, 'params'),
+  validate(reportReviewSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { result, comments } = req.body;
+
+    const data = await reviewReport(id, req.user!.id, result, comments);
+    return successResponse(res, data, result === 'approved' ? '审核通过' : '已驳回');
+  })
+);
+
+/**
+ * 获取报告审核记录
+ * GET /api/reports/:id/audits
+ */
+router.get('/:id/audits',
+  authenticateToken,
+  requirePermission('report.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('report_audits')
       .select(`
-        *,
-        samples(
-          *,
-          sample_types(*),
-          tests(
-            *,
-            test_items(*),
-            test_results(*)
-          )
+        id,
+        audit_level,
+        audit_result,
+        audit_comments,
+        audit_time,
+        users(
+          id,
+          real_name
         )
       `)
-      .eq('id', id)
-      .eq('deleted_at', null)
+      .eq('report_id', id)
+      .order('audit_time', { ascending: true });
+
+    if (error) {
+      logger.error('获取报告审核记录失败:', error);
+      throw new DatabaseError('获取报告审核记录失败');
+    }
+
+    return successResponse(res, data || [], '获取审核记录成功');
+  })
+);
+
+/**
+ * 获取报告版本列表
+ * GET /api/reports/:id/versions
+ */
+router.get('/:id/versions',
+  authenticateToken,
+  requirePermission('report.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('report_versions')
+      .select(`
+        id,
+        version_no,
+        title,
+        amendment_reason,
+        diff,
+        approved_at,
+        released_at,
+        created_at,
+        users!report_versions_approved_by_fkey(
+          id,
+          real_name
+        )
+      `)
+      .eq('report_id', id)
+      .order('version_no', { ascending: false });
+
+    if (error) {
+      logger.error('获取报告版本失败:', error);
+      throw new DatabaseError('获取报告版本失败');
+    }
+
+    return successResponse(res, data || [], '获取报告版本成功');
+  })
+);
+
+/**
+ * 获取报告版本详情
+ * GET /api/reports/:id/versions/:versionNo
+ * @description 返回该版本的完整内容、差异及发布文件下载链接
+ */
+router.get('/:id/versions/:versionNo',
+  authenticateToken,
+  requirePermission('report.list'),
+  validate(reportVersionParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id, versionNo } = req.params;
+
+    const { data, error } = await supabase
+      .from('report_versions')
+      .select('*')
+      .eq('report_id', id)
+      .eq('version_no', Number(versionNo))
       .single();
 
-    if (checkError || !report) {
-      throw new Error('报告不存在');
+    if (error || !data) {
+      throw new NotFoundError('报告版本不存在');
     }
 
-    // TODO: 实现PDF生成逻辑
-    // 这里应该集成PDF生成库（如puppeteer、jsPDF等）
-    // 暂时返回成功响应
-    
-    logger.info(`报告PDF生成请求: ${report.report_number}`, { requestedBy: req.user?.id });
-    return successResponse(res, { 
-      message: 'PDF生成功能待实现',
-      report_id: id,
-      report_number: report.report_number
-    }, 'PDF生成请求已接收');
+    const files: ReportFileRecord[] = Array.isArray(data.file_urls) ? data.file_urls : [];
+    const downloads = await Promise.all(files.map(async file => ({
+      ...file,
+      download_url: await createReportDownloadUrl(file.storage_path)
+    })));
+
+    return successResponse(res, { ...data, file_urls: downloads }, '获取报告版本成功');
   })
 );
 
 /**
- * 获取报告统计信息
- * GET /api/reports/statistics
+ * 发布报告
+ * POST /api/reports/:id/release
  */
-router.get('/statistics',
+router.post('/:id/release',
   authenticateToken,
-  requireRoles(['admin', 'manager']),
+  requirePermission('report.review'),
+  validate(uuidParamSchema, 'params'),
   asyncHandler(async (req, res) => {
-    const { date_from, date_to } = req.query;
+    const { id } = req.params;
 
-    let baseQuery = supabase
-      .from('reports')
-      .select('status, report_type, created_at')
-      .eq('deleted_at', null);
+    const data = await releaseReport(id, req.user?.id);
+    return successResponse(res, data, '报告已发布');
+  })
+);
 
-    if (date_from) {
-      baseQuery = baseQuery.gte('created_at', date_from);
+/**
+ * 获取报告交付记录
+ * GET /api/reports/:id/deliveries
+ */
+router.get('/:id/deliveries',
+  authenticateToken,
+  requirePermission('report.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('report_deliveries')
+      .select('*')
+      .eq('report_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('获取交付记录失败:', error);
+      throw new DatabaseError('获取交付记录失败');
     }
-    if (date_to) {
-      baseQuery = baseQuery.lte('created_at', date_to);
+
+    return successResponse(res, data || [], '获取交付记录成功');
+  })
+);
+
+/**
+ * 记录报告交付
+ * POST /api/reports/:id/deliveries
+ */
+router.post('/:id/deliveries',
+  authenticateToken,
+  requirePermission('report.edit'),
+  validate(uuidParamSchema, 'params'),
+  validate(reportDeliverySchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const {
+      delivery_method,
+      recipient_name,
+      recipient_contact,
+      delivery_status,
+      delivery_time,
+      tracking_info,
+      remarks
+    } = req.body;
+
+    const data = await recordReportDelivery(id, {
+      deliveryMethod: delivery_method,
+      recipientName: recipient_name,
+      recipientContact: recipient_contact,
+      deliveryStatus: delivery_status,
+      deliveryTime: delivery_time,
+      trackingInfo: tracking_info,
+      remarks
+    }, req.user?.id);
+
+    return createdResponse(res, data, '交付记录已保存');
+  })
+);
+
+/**
+ * 更新报告交付状态
+ * PUT /api/reports/:id/deliveries/:deliveryId
+ */
+router.put('/:id/deliveries/:deliveryId',
+  authenticateToken,
+  requirePermission('report.edit'),
+  validate(reportDeliveryParamSchema, 'params'),
+  validate(updateReportDeliverySchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id, deliveryId } = req.params;
+    const { delivery_status, delivery_time, tracking_info, remarks } = req.body;
+
+    const data = await updateReportDelivery(id, deliveryId, {
+      deliveryStatus: delivery_status,
+      deliveryTime: delivery_time,
+      trackingInfo: tracking_info,
+      remarks
+    }, req.user?.id);
+
+    return successResponse(res, data, '交付状态已更新');
+  })
+);
+
+/**
+ * 生成报告PDF
+ * POST /api/reports/:id/generate-pdf
+ */
+router.post('/:id/generate-pdf',
+  authenticateToken,
+  requirePermission('report.edit'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    // 加载报告、模板、送检单及实验结果
+    const context = await loadReportContext(id);
+    const { report } = context;
+
+    // 已发布的报告文件即为交付版本，不再重新生成
+    if (report.released_at) {
+      throw new ConflictError('报告已发布，不能重新生成PDF');
     }
 
-    const { data, error } = await baseQuery;
+    // 批次质控失控且未纠正时不生成报告
+    await assertSubmissionQcReleasable(String(report.submission_id), report.report_no);
+
+    const html = renderReportHtml(context);
+    const pdf = await renderHtmlToPdf(html);
+    const file = await uploadReportPdf(report.report_no, pdf, req.user?.id);
+
+    const fileUrls = Array.isArray(report.file_urls) ? report.file_urls : [];
+
+    const { error } = await supabase
+      .from('reports')
+      .update({
+        file_urls: [...fileUrls, { ...file, version_no: report.version_no || 1, template_version: context.template?.version }],
+        generated_at: file.generated_at,
+        template_version: context.template?.version || null,
+        updated_at: new Date().toISOString(),
+        updated_by: req.user?.id
+      })
+      .eq('id', id);
 
     if (error) {
-      logger.error('获取报告统计信息失败:', error);
-      throw new Error('获取报告统计信息失败');
+      logger.error('更新报告文件列表失败:', error);
+      throw new DatabaseError('更新报告文件列表失败');
     }
 
-    // 统计数据
-    const statistics = {
-      total: data?.length || 0,
-      by_status: {} as Record<string, number>,
-      by_type: {} as Record<string, number>,
-      recent_count: 0
-    };
+    const downloadUrl = await createReportDownloadUrl(file.storage_path);
 
-    const oneWeekAgo = new Date();
-    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
+    logger.info(`报告PDF已生成: ${report.report_no}`, { requestedBy: req.user?.id, file: file.storage_path });
+    return successResponse(res, {
+      report_id: id,
+      report_no: report.report_no,
+      file,
+      download_url: downloadUrl
+    }, 'PDF生成成功');
+  })
+);
 
-    data?.forEach(report => {
-      // 按状态统计
-      statistics.by_status[report.status] = (statistics.by_status[report.status] || 0) + 1;
-      
-      // 按类型统计
-      statistics.by_type[report.report_type] = (statistics.by_type[report.report_type] || 0) + 1;
-      
-      // 最近一周统计
-      if (new Date(report.created_at) >= oneWeekAgo) {
-        statistics.recent_count++;
-      }
-    });
+/**
+ * 获取报告PDF下载链接
+ * GET /api/reports/:id/download
+ * @description 默认返回最新生成的文件，可通过 file 查询参数指定文件名
+ */
+router.get('/:id/download',
+  authenticateToken,
+  requirePermission('report.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { file } = req.query;
 
-    return successResponse(res, statistics, '获取报告统计信息成功');
+    const { data: report, error } = await supabase
+      .from('reports')
+      .select('id, report_no, file_urls')
+      .eq('id', id)
+      .single();
+
+    if (error || !report) {
+      throw new NotFoundError('报告不存在');
+    }
+
+    const files: ReportFileRecord[] = Array.isArray(report.file_urls) ? report.file_urls : [];
+    const target = file
+      ? files.find(item => item.file_name === file)
+      : files[files.length - 1];
+
+    if (!target) {
+      throw new NotFoundError('报告文件不存在，请先生成PDF');
+    }
+
+    const downloadUrl = await createReportDownloadUrl(target.storage_path);
+    return successResponse(res, { file: target, download_url: downloadUrl }, '获取下载链接成功');
   })
 );
 
@@ -447,7 +792,7 @@ async function generateReportNumber(): Promise<string> {
 
   if (error) {
     logger.error('生成报告编号失败:', error);
-    throw new Error('生成报告编号失败');
+    throw new DatabaseError('生成报告编号失败');
   }
 
   const sequence = String((count || 0) + 1).padStart(4, '0');
@@ -0,0 +1,269 @@
+/**
+ * 样本借出管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission, requireRoles } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  sampleCheckoutQuerySchema,
+  createSampleCheckoutSchema,
+  sampleCheckoutReviewSchema,
+  cancelSampleCheckoutSchema,
+  sampleCheckoutPickSchema,
+  sampleCheckoutReturnSchema,
+  checkedOutSampleQuerySchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, calculatePagination } from '../utils/response.js';
+import {
+  getCheckoutOrder,
+  createCheckoutOrder,
+  reviewCheckoutOrder,
+  cancelCheckoutOrder,
+  pickCheckoutItem,
+  returnCheckoutItem,
+  listCheckedOutSamples,
+  runCheckoutOverdueJob,
+  isCheckoutOverdue
+} from '../utils/sampleCheckout.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 获取借出中的样本
+ * GET /api/sample-checkouts/outstanding
+ * @description 已出库未归还的样本及借出人，附是否逾期
+ */
+router.get('/outstanding',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(checkedOutSampleQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { holder_id, overdue_only, search } = req.query;
+
+    const data = await listCheckedOutSamples({
+      holderId: holder_id as string | undefined,
+      overdueOnly: String(overdue_only) === 'true',
+      search: search as string | undefined
+    });
+
+    return successResponse(res, data, '获取借出中样本成功');
+  })
+);
+
+/**
+ * 执行借出逾期检查
+ * POST /api/sample-checkouts/overdue/run
+ * @description 与定时任务相同，供无常驻进程的部署由外部调度触发或手动补跑
+ */
+router.post('/overdue/run',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  requireRoles(['admin', 'lab_manager']),
+  asyncHandler(async (_req, res) => {
+    const data = await runCheckoutOverdueJob();
+    return successResponse(res, data, '借出逾期检查完成');
+  })
+);
+
+/**
+ * 获取借出单列表
+ * GET /api/sample-checkouts
+ */
+router.get('/',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(sampleCheckoutQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, search, status, holder_id } = req.query;
+
+    let query = supabase
+      .from('sample_checkout_orders')
+      .select(`
+        *,
+        holder:users!sample_checkout_orders_holder_id_fkey(
+          id,
+          real_name
+        ),
+        requester:users!sample_checkout_orders_requested_by_fkey(
+          id,
+          real_name
+        ),
+        sample_checkout_items(
+          status
+        )
+      `, { count: 'exact' });
+
+    // 搜索过滤
+    if (search) {
+      query = query.or(`order_no.ilike.%${search}%,destination.ilike.%${search}%,purpose.ilike.%${search}%`);
+    }
+
+    // 状态过滤
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    // 借出人过滤
+    if (holder_id) {
+      query = query.eq('holder_id', holder_id);
+    }
+
+    query = query.order('created_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取借出单列表失败:', error);
+      throw new DatabaseError('获取借出单列表失败');
+    }
+
+    // 汇总各状态样本数，标记逾期
+    const now = Date.now();
+    const rows = (data || []) as {
+      status: string;
+      due_back_at: string;
+      sample_checkout_items?: { status: string }[];
+      [key: string]: unknown;
+    }[];
+    const orders = rows.map(({ sample_checkout_items: items, ...order }) => ({
+      ...order,
+      picked_count: (items || []).filter(item => item.status === 'picked').length,
+      returned_count: (items || []).filter(item => item.status === 'returned').length,
+      is_overdue: isCheckoutOverdue(order, now)
+    }));
+
+    return paginatedResponse(res, orders, calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取借出单详情
+ * GET /api/sample-checkouts/:id
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getCheckoutOrder(req.params.id);
+    return successResponse(res, data, '获取借出单详情成功');
+  })
+);
+
+/**
+ * 创建借出单
+ * POST /api/sample-checkouts
+ * @description 创建后进入待审批状态
+ */
+router.post('/',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(createSampleCheckoutSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { sample_ids, reason, purpose, destination, holder_id, due_back_at, remarks } = req.body;
+
+    const data = await createCheckoutOrder({
+      sampleIds: sample_ids,
+      reason,
+      purpose,
+      destination,
+      holderId: holder_id,
+      dueBackAt: due_back_at ? new Date(due_back_at).toISOString() : undefined,
+      remarks,
+      operatorId: req.user!.id
+    });
+
+    return createdResponse(res, data, '借出单已提交审批');
+  })
+);
+
+/**
+ * 审批借出单
+ * POST /api/sample-checkouts/:id/review
+ * @description 仅实验室主管或系统管理员可审批
+ */
+router.post('/:id/review',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  requireRoles(['admin', 'lab_manager']),
+  validate(uuidParamSchema, 'params'),
+  validate(sampleCheckoutReviewSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { result, comments } = req.body;
+
+    const data = await reviewCheckoutOrder(req.params.id, req.user!.id, result, comments);
+    return successResponse(res, data, result === 'approved' ? '借出单已批准' : '借出单已驳回');
+  })
+);
+
+/**
+ * 取消借出单
+ * POST /api/sample-checkouts/:id/cancel
+ */
+router.post('/:id/cancel',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(uuidParamSchema, 'params'),
+  validate(cancelSampleCheckoutSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await cancelCheckoutOrder(req.params.id, req.user?.id, req.body.reason || undefined);
+    return successResponse(res, data, '借出单已取消');
+  })
+);
+
+/**
+ * 扫码取样出库
+ * POST /api/sample-checkouts/:id/pick
+ * @description 扫描的条码须属于该借出单，样本出库后由借出人保管
+ */
+router.post('/:id/pick',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(uuidParamSchema, 'params'),
+  validate(sampleCheckoutPickSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { barcode, remarks } = req.body;
+
+    const data = await pickCheckoutItem(req.params.id, barcode.trim(), req.user?.id, remarks || undefined);
+    return successResponse(res, data, '样本已出库');
+  })
+);
+
+/**
+ * 归还样本入库
+ * POST /api/sample-checkouts/:id/return
+ * @description 登记借出期间用量并扣减余量，未指定孔位时放回出库前的孔位
+ */
+router.post('/:id/return',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(uuidParamSchema, 'params'),
+  validate(sampleCheckoutReturnSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { barcode, volume_used, box_id, position, remarks } = req.body;
+
+    const data = await returnCheckoutItem(req.params.id, {
+      barcode: barcode.trim(),
+      volumeUsed: volume_used,
+      boxId: box_id,
+      position,
+      remarks: remarks || undefined,
+      operatorId: req.user?.id
+    });
+
+    return successResponse(res, data, '样本已归还入库');
+  })
+);
+
+export default router;
@@ -0,0 +1,227 @@
+/**
+ * 样本销毁管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission, requireRoles } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  dueSampleQuerySchema,
+  destructionBatchQuerySchema,
+  createDestructionBatchSchema,
+  destructionBatchReviewSchema,
+  cancelDestructionBatchSchema,
+  executeDestructionBatchSchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, calculatePagination } from '../utils/response.js';
+import {
+  findDueSamples,
+  runRetentionJob,
+  getDestructionBatch,
+  createDestructionBatch,
+  reviewDestructionBatch,
+  cancelDestructionBatch,
+  executeDestructionBatch,
+  getDestructionCertificateUrl
+} from '../utils/sampleDestruction.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 获取到期待销毁样本
+ * GET /api/sample-destruction/due
+ * @description 不含保留期内及已编入未结束批次的样本
+ */
+router.get('/due',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  validate(dueSampleQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { within_days = 0, search, sample_type_id } = req.query;
+
+    const data = await findDueSamples({
+      withinDays: Number(within_days),
+      search: search as string | undefined,
+      sampleTypeId: sample_type_id as string | undefined
+    });
+
+    return successResponse(res, data, '获取到期样本成功');
+  })
+);
+
+/**
+ * 执行样本到期检查
+ * POST /api/sample-destruction/retention/run
+ * @description 与定时任务相同，供无常驻进程的部署由外部调度触发或手动补跑
+ */
+router.post('/retention/run',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  requireRoles(['admin', 'lab_manager']),
+  asyncHandler(async (_req, res) => {
+    const data = await runRetentionJob();
+    return successResponse(res, data, '样本到期检查完成');
+  })
+);
+
+/**
+ * 获取销毁批次列表
+ * GET /api/sample-destruction/batches
+ */
+router.get('/batches',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  validate(destructionBatchQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, search, status } = req.query;
+
+    let query = supabase
+      .from('sample_destruction_batches')
+      .select('*', { count: 'exact' });
+
+    // 搜索过滤
+    if (search) {
+      query = query.or(`batch_no.ilike.%${search}%,reason.ilike.%${search}%`);
+    }
+
+    // 状态过滤
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    query = query.order('created_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取销毁批次列表失败:', error);
+      throw new DatabaseError('获取销毁批次列表失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取销毁批次详情
+ * GET /api/sample-destruction/batches/:id
+ */
+router.get('/batches/:id',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getDestructionBatch(req.params.id);
+    return successResponse(res, data, '获取销毁批次详情成功');
+  })
+);
+
+/**
+ * 创建销毁批次
+ * POST /api/sample-destruction/batches
+ * @description 创建后进入待审批状态
+ */
+router.post('/batches',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  validate(createDestructionBatchSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { sample_ids, reason, destroy_method, witness_name, planned_date, remarks } = req.body;
+
+    const data = await createDestructionBatch({
+      sampleIds: sample_ids,
+      reason,
+      destroyMethod: destroy_method,
+      witnessName: witness_name,
+      plannedDate: planned_date,
+      remarks,
+      operatorId: req.user?.id
+    });
+
+    return createdResponse(res, data, '销毁批次已提交审批');
+  })
+);
+
+/**
+ * 审批销毁批次
+ * POST /api/sample-destruction/batches/:id/review
+ * @description 仅实验室主管或系统管理员可审批
+ */
+router.post('/batches/:id/review',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  requireRoles(['admin', 'lab_manager']),
+  validate(uuidParamSchema, 'params'),
+  validate(destructionBatchReviewSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { result, comments } = req.body;
+
+    const data = await reviewDestructionBatch(req.params.id, req.user!.id, result, comments);
+    return successResponse(res, data, result === 'approved' ? '销毁批次已批准' : '销毁批次已驳回');
+  })
+);
+
+/**
+ * 取消销毁批次
+ * POST /api/sample-destruction/batches/:id/cancel
+ */
+router.post('/batches/:id/cancel',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  validate(uuidParamSchema, 'params'),
+  validate(cancelDestructionBatchSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await cancelDestructionBatch(req.params.id, req.user?.id, req.body.reason || undefined);
+    return successResponse(res, data, '销毁批次已取消');
+  })
+);
+
+/**
+ * 执行销毁
+ * POST /api/sample-destruction/batches/:id/execute
+ * @description 记录见证人并逐个销毁样本，完成后生成销毁证明
+ */
+router.post('/batches/:id/execute',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  validate(uuidParamSchema, 'params'),
+  validate(executeDestructionBatchSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { witness_name, destroy_method, remarks } = req.body;
+
+    const data = await executeDestructionBatch(req.params.id, {
+      witnessName: witness_name,
+      destroyMethod: destroy_method,
+      remarks,
+      operatorId: req.user?.id
+    });
+
+    return successResponse(res, data, '样本销毁已执行');
+  })
+);
+
+/**
+ * 下载销毁证明
+ * GET /api/sample-destruction/batches/:id/certificate
+ */
+router.get('/batches/:id/certificate',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const downloadUrl = await getDestructionCertificateUrl(req.params.id);
+    return successResponse(res, { download_url: downloadUrl }, '获取销毁证明成功');
+  })
+);
+
+export default router;
@@ -0,0 +1,149 @@
+/**
+ * 样本拒收与重采管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  sampleRejectionQuerySchema,
+  fulfilRecollectionSchema,
+  cancelRecollectionSchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, calculatePagination } from '../utils/response.js';
+import { getSampleRejection, fulfilRecollection, cancelRecollection } from '../utils/sampleRejection.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 获取重采申请列表
+ * GET /api/sample-rejections
+ */
+router.get('/',
+  authenticateToken,
+  requirePermission('sample.list'),
+  validate(sampleRejectionQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, search, status, reason_code, submission_id } = req.query;
+
+    let query = supabase
+      .from('sample_rejections')
+      .select(`
+        *,
+        sample:samples!sample_rejections_sample_id_fkey(
+          id,
+          sample_no,
+          barcode,
+          sample_types(
+            id,
+            name
+          )
+        ),
+        replacement:samples!sample_rejections_replacement_sample_id_fkey(
+          id,
+          sample_no,
+          barcode
+        ),
+        submissions(
+          id,
+          submission_no,
+          patient_name,
+          client_units(
+            id,
+            name,
+            contact_person,
+            contact_phone
+          )
+        )
+      `, { count: 'exact' });
+
+    // 搜索过滤
+    if (search) {
+      query = query.or(`recollection_no.ilike.%${search}%,notified_contact.ilike.%${search}%`);
+    }
+
+    // 状态过滤
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    // 拒收原因过滤
+    if (reason_code) {
+      query = query.eq('reason_code', reason_code);
+    }
+
+    // 送检单过滤
+    if (submission_id) {
+      query = query.eq('submission_id', submission_id);
+    }
+
+    query = query.order('rejected_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取重采申请列表失败:', error);
+      throw new DatabaseError('获取重采申请列表失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取重采申请详情
+ * GET /api/sample-rejections/:id
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermission('sample.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getSampleRejection(req.params.id);
+    return successResponse(res, data, '获取重采申请详情成功');
+  })
+);
+
+/**
+ * 登记重采到样
+ * POST /api/sample-rejections/:id/fulfil
+ * @description 关联已接收的替代样本；送检单无其他待重采样本时恢复拒收前状态
+ */
+router.post('/:id/fulfil',
+  authenticateToken,
+  requirePermission('sample.receive'),
+  validate(uuidParamSchema, 'params'),
+  validate(fulfilRecollectionSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await fulfilRecollection(req.params.id, req.body.replacement_sample_id, req.user?.id);
+    return successResponse(res, data, '重采到样已登记');
+  })
+);
+
+/**
+ * 取消重采申请
+ * POST /api/sample-rejections/:id/cancel
+ * @description 送检单位放弃重采时使用，送检单保持异常状态
+ */
+router.post('/:id/cancel',
+  authenticateToken,
+  requirePermission('sample.receive'),
+  validate(uuidParamSchema, 'params'),
+  validate(cancelRecollectionSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await cancelRecollection(req.params.id, req.user?.id, req.body.reason);
+    return successResponse(res, data, '重采申请已取消');
+  })
+);
+
+export default router;
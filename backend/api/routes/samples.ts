@@ -5,10 +5,52 @@
  */
 
 import { Router } from 'express';
-import { authenticateToken, requireRoles } from '../middleware/auth.js';
-import { validate } from '../middleware/validation.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
-import { successResponse, paginatedResponse, createdResponse, noContentResponse } from '../utils/response.js';
+import { authenticateToken, requirePermission, requirePermissions } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  sampleQuerySchema,
+  createSampleSchema,
+  updateSampleSchema,
+  sampleTransitionSchema,
+  sampleLabelSchema,
+  sampleDeriveSchema,
+  sampleHoldSchema,
+  releaseSampleHoldSchema,
+  sampleManifestSchema,
+  sampleRejectSchema
+} from '../middleware/validation.js';
+import {
+  asyncErrorHandler as asyncHandler,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  AuthorizationError,
+  DatabaseError
+} from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, noContentResponse, calculatePagination } from '../utils/response.js';
+import {
+  transitionSample,
+  recordSampleOperation,
+  SAMPLE_TRANSITION_PERMISSIONS,
+  SAMPLE_UPDATE_PERMISSIONS,
+  type SampleStatus
+} from '../utils/sampleLifecycle.js';
+import { transitionSubmission } from '../utils/submissionStatus.js';
+import {
+  allocateSampleBarcode,
+  loadLabelSamples,
+  renderLabelPdf,
+  renderLabelZpl,
+  recordLabelPrint,
+  type LabelSymbology
+} from '../utils/sampleLabel.js';
+import { storeSample } from '../utils/storageLocation.js';
+import { deriveSamples, getSampleLineage } from '../utils/sampleLineage.js';
+import { setSampleHold, releaseSampleHold } from '../utils/sampleDestruction.js';
+import { validateManifest, importManifest } from '../utils/sampleManifest.js';
+import { rejectSample, getSampleRejection, fulfilRecollection } from '../utils/sampleRejection.js';
+import { getConfigValue } from '../utils/systemConfig.js';
 import { supabase } from '../config/database.js';
 import logger from '../config/logger.js';
 
@@ -20,37 +62,43 @@ const router = Router();
  */
 router.get('/',
   authenticateToken,
-  validate('pagination'),
+  requirePermission('sample.list'),
+  validate(sampleQuerySchema, 'query'),
   asyncHandler(async (req, res) => {
-    const { page = 1, limit = 10, search, status, sample_type_id, date_from, date_to } = req.query;
-    
+    const { page = 1, limit = 10, search, status, submission_id, sample_type_id, date_from, date_to } = req.query;
+
     let query = supabase
       .from('samples')
       .select(`
         id,
-        sample_number,
-        sample_name,
-        description,
+        sample_no,
+        barcode,
+        volume,
+        unit,
         status,
-        priority,
-        received_at,
+        quality_status,
+        storage_location,
+        storage_temperature,
+        collection_time,
+        received_time,
+        expected_destroy_date,
         created_at,
         sample_types(
           id,
-          name,
-          display_name
+          code,
+          name
         ),
-        users!samples_created_by_fkey(
+        submissions(
           id,
-          username,
-          full_name
+          submission_no,
+          patient_name,
+          is_urgent
         )
-      `, { count: 'exact' })
-      .eq('deleted_at', null);
+      `, { count: 'exact' });
 
     // 搜索过滤
     if (search) {
-      query = query.or(`sample_number.ilike.%${search}%,sample_name.ilike.%${search}%`);
+      query = query.or(`sample_no.ilike.%${search}%,barcode.ilike.%${search}%`);
     }
 
     // 状态过滤
@@ -58,6 +106,11 @@ router.get('/',
       query = query.eq('status', status);
     }
 
+    // 送检单过滤
+    if (submission_id) {
+      query = query.eq('submission_id', submission_id);
+    }
+
     // 样本类型过滤
     if (sample_type_id) {
       query = query.eq('sample_type_id', sample_type_id);
@@ -65,10 +118,10 @@ router.get('/',
 
     // 日期范围过滤
     if (date_from) {
-      query = query.gte('received_at', date_from);
+      query = query.gte('received_time', date_from);
     }
     if (date_to) {
-      query = query.lte('received_at', date_to);
+      query = query.lte('received_time', date_to);
     }
 
     // 排序
@@ -82,14 +135,45 @@ router.get('/',
 
     if (error) {
       logger.error('获取样本列表失败:', error);
-      throw new Error('获取样本列表失败');
+      throw new DatabaseError('获取样本列表失败');
     }
 
-    return paginatedResponse(res, data || [], {
-      page: Number(page),
-      limit: Number(limit),
-      total: count || 0
-    });
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取样本接收表单选项
+ * GET /api/samples/options
+ * @description 返回启用的样本类型和可接收样本的送检单
+ */
+router.get('/options',
+  authenticateToken,
+  requirePermission('sample.receive'),
+  asyncHandler(async (_req, res) => {
+    const [typesResult, submissionsResult] = await Promise.all([
+      supabase
+        .from('sample_types')
+        .select('id, code, name, storage_requirements')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true }),
+      supabase
+        .from('submissions')
+        .select('id, submission_no, patient_name, is_urgent, status, client_units(id, name)')
+        .in('status', ['submitted', 'received', 'in_progress'])
+        .order('submitted_at', { ascending: false })
+        .limit(200)
+    ]);
+
+    if (typesResult.error || submissionsResult.error) {
+      logger.error('获取样本接收表单选项失败:', typesResult.error || submissionsResult.error);
+      throw new DatabaseError('获取样本接收表单选项失败');
+    }
+
+    return successResponse(res, {
+      sample_types: typesResult.data || [],
+      submissions: submissionsResult.data || []
+    }, '获取样本接收表单选项成功');
   })
 );
 
@@ -99,7 +183,8 @@ router.get('/',
  */
 router.get('/:id',
   authenticateToken,
-  validate('uuid'),
+  requirePermission('sample.list'),
+  validate(uuidParamSchema, 'params'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
@@ -109,33 +194,28 @@ router.get('/:id',
         *,
         sample_types(
           id,
+          code,
           name,
-          display_name,
-          description
-        ),
-        users!samples_created_by_fkey(
-          id,
-          username,
-          full_name
+          storage_requirements
         ),
-        tests(
+        submissions(
           id,
-          test_number,
+          submission_no,
+          patient_name,
+          is_urgent,
           status,
-          test_items(
+          client_units(
             id,
-            name,
-            display_name
+            name
           )
         )
       `)
       .eq('id', id)
-      .eq('deleted_at', null)
       .single();
 
     if (error || !data) {
       logger.error('获取样本详情失败:', error);
-      throw new Error('样本不存在');
+      throw new NotFoundError('样本不存在');
     }
 
     return successResponse(res, data, '获取样本详情成功');
@@ -143,198 +223,576 @@ router.get('/:id',
 );
 
 /**
- * 创建样本
+ * 获取样本操作记录（监管链）
+ * GET /api/samples/:id/operations
+ */
+router.get('/:id/operations',
+  authenticateToken,
+  requirePermission('sample.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const { data: sample, error: checkError } = await supabase
+      .from('samples')
+      .select('id, sample_no, barcode, status')
+      .eq('id', id)
+      .single();
+
+    if (checkError || !sample) {
+      throw new NotFoundError('样本不存在');
+    }
+
+    const { data, error } = await supabase
+      .from('sample_operations')
+      .select(`
+        id,
+        operation_type,
+        operation_desc,
+        from_status,
+        to_status,
+        from_location,
+        to_location,
+        volume_before,
+        volume_after,
+        operation_time,
+        remarks,
+        users(
+          id,
+          username,
+          real_name
+        )
+      `)
+      .eq('sample_id', id)
+      .order('operation_time', { ascending: true });
+
+    if (error) {
+      logger.error('获取样本操作记录失败:', error);
+      throw new DatabaseError('获取样本操作记录失败');
+    }
+
+    return successResponse(res, { ...sample, operations: data || [] }, '获取样本操作记录成功');
+  })
+);
+
+/**
+ * 登记样本
  * POST /api/samples
+ * @description 样本以「已接收」状态登记，同时写入接收操作记录；未提供条码时按编码规则分配；
+ * 送检单首个样本到达时送检单变为已接收；指定重采申请时登记为拒收样本的替代样本
  */
 router.post('/',
   authenticateToken,
-  requireRoles(['admin', 'manager', 'technician']),
+  requirePermission('sample.receive'),
+  validate(createSampleSchema, 'body'),
   asyncHandler(async (req, res) => {
     const {
-      sample_name,
+      submission_id,
       sample_type_id,
-      description,
-      priority = 'normal',
-      received_at,
-      client_info,
-      storage_location,
-      storage_conditions
+      barcode,
+      volume,
+      unit = 'ml',
+      collection_time,
+      storage_temperature,
+      rejection_id,
+      remarks
     } = req.body;
 
-    // 生成样本编号
-    const sampleNumber = await generateSampleNumber();
+    // 检查送检单
+    const { data: submission, error: submissionError } = await supabase
+      .from('submissions')
+      .select('id, submission_no, status')
+      .eq('id', submission_id)
+      .single();
 
-    const sampleData = {
-      sample_number: sampleNumber,
-      sample_name,
-      sample_type_id,
-      description,
-      priority,
-      status: 'received',
-      received_at: received_at || new Date().toISOString(),
-      client_info,
-      storage_location,
-      storage_conditions,
-      created_by: req.user?.id,
-      created_at: new Date().toISOString()
-    };
+    if (submissionError || !submission) {
+      throw new ValidationError('送检单不存在');
+    }
+    if (['completed', 'cancelled'].includes(submission.status)) {
+      throw new ConflictError('送检单已完成或已取消，不能登记样本');
+    }
+
+    // 检查样本类型
+    const { data: sampleType, error: typeError } = await supabase
+      .from('sample_types')
+      .select('id, code, name, default_destroy_days, is_active')
+      .eq('id', sample_type_id)
+      .single();
+
+    if (typeError || !sampleType) {
+      throw new ValidationError('样本类型不存在');
+    }
+    if (!sampleType.is_active) {
+      throw new ValidationError('样本类型已停用');
+    }
+
+    // 重采样本须对应同一送检单的待重采申请
+    if (rejection_id) {
+      const rejection = await getSampleRejection(rejection_id);
+      if (rejection.submission_id !== submission_id) {
+        throw new ValidationError('重采申请不属于该送检单');
+      }
+      if (rejection.status !== 'awaiting_recollection') {
+        throw new ConflictError('重采申请已关闭');
+      }
+    }
+
+    const [sampleNo] = await generateSampleNumbers(1);
+
+    // 已贴管条码的样本使用原条码，否则按编码规则分配
+    if (barcode) {
+      const { data: duplicated } = await supabase
+        .from('samples')
+        .select('id')
+        .eq('barcode', barcode)
+        .maybeSingle();
+
+      if (duplicated) {
+        throw new ConflictError('条形码已存在');
+      }
+    }
+
+    const sampleBarcode = barcode || await allocateSampleBarcode(sampleType.code);
+
+    const now = new Date();
+    const expectedDestroyDate = new Date(now);
+    expectedDestroyDate.setDate(expectedDestroyDate.getDate() + (sampleType.default_destroy_days || 30));
 
     const { data, error } = await supabase
       .from('samples')
-      .insert(sampleData)
+      .insert({
+        sample_no: sampleNo,
+        barcode: sampleBarcode,
+        submission_id,
+        sample_type_id,
+        volume,
+        unit,
+        collection_time,
+        received_time: now.toISOString(),
+        storage_temperature,
+        status: 'received',
+        quality_status: 'qualified',
+        expected_destroy_date: expectedDestroyDate.toISOString().slice(0, 10),
+        created_by: req.user?.id,
+        updated_by: req.user?.id
+      })
       .select(`
         *,
         sample_types(
           id,
-          name,
-          display_name
+          code,
+          name
         )
       `)
       .single();
 
-    if (error) {
-      logger.error('创建样本失败:', error);
-      throw new Error('创建样本失败');
+    if (error || !data) {
+      logger.error('登记样本失败:', error);
+      throw new DatabaseError('登记样本失败');
+    }
+
+    try {
+      await recordSampleOperation({
+        sampleId: data.id,
+        operationType: 'receive',
+        description: `样本接收登记，送检单${submission.submission_no}`,
+        toStatus: 'received',
+        volumeAfter: volume ?? null,
+        operatorId: req.user?.id,
+        remarks
+      });
+    } catch (operationError) {
+      // 接收记录写入失败时撤销登记，避免出现无监管链起点的样本
+      await supabase.from('samples').delete().eq('id', data.id);
+      throw operationError;
+    }
+
+    if (submission.status === 'submitted') {
+      await transitionSubmission(submission_id, 'received', req.user?.id, `样本${sampleNo}已接收`);
+    }
+
+    if (rejection_id) {
+      await fulfilRecollection(rejection_id, data.id, req.user?.id);
+    }
+
+    logger.info(`样本已登记: ${sampleNo}`, { createdBy: req.user?.id });
+    return createdResponse(res, data, '样本登记成功');
+  })
+);
+
+/**
+ * 打印样本标签
+ * POST /api/samples/labels
+ * @description pdf格式返回A4标签纸，zpl格式返回热敏打印机指令；打印操作写入样本操作记录
+ */
+router.post('/labels',
+  authenticateToken,
+  requirePermission('sample.receive'),
+  validate(sampleLabelSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { sample_ids, format = 'pdf', copies = 1 } = req.body;
+    const symbology: LabelSymbology = req.body.symbology
+      || await getConfigValue<LabelSymbology>('label.symbology', 'code128');
+
+    const samples = await loadLabelSamples(sample_ids);
+    const fileName = `labels_${new Date().toISOString().replace(/[-:.TZ]/g, '')}`;
+
+    if (format === 'zpl') {
+      const zpl = await renderLabelZpl(samples, symbology, copies);
+      await recordLabelPrint(samples, format, copies, req.user?.id);
+
+      logger.info(`样本标签已生成: ZPL ${samples.length}个`, { printedBy: req.user?.id });
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.zpl"`);
+      return res.type('text/plain').send(zpl);
+    }
+
+    const pdf = await renderLabelPdf(samples, symbology, copies);
+    await recordLabelPrint(samples, format, copies, req.user?.id);
+
+    logger.info(`样本标签已生成: PDF ${samples.length}个`, { printedBy: req.user?.id });
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+    return res.type('application/pdf').send(pdf);
+  })
+);
+
+/**
+ * 校验样本清单
+ * POST /api/samples/manifest/validate
+ * @description 试运行，不写入数据，返回全部行级错误
+ */
+router.post('/manifest/validate',
+  authenticateToken,
+  requirePermission('sample.receive'),
+  validate(sampleManifestSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const result = await validateManifest(req.body.rows);
+    return successResponse(res, result, result.error_count > 0 ? '清单校验未通过' : '清单校验通过');
+  })
+);
+
+/**
+ * 导入样本清单
+ * POST /api/samples/manifest/import
+ * @description 导入前重新校验，存在任一行错误时整单不导入；全部样本在同一事务内登记接收
+ */
+router.post('/manifest/import',
+  authenticateToken,
+  requirePermission('sample.receive'),
+  validate(sampleManifestSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { file_name, rows } = req.body;
+
+    const result = await validateManifest(rows);
+    if (result.error_count > 0) {
+      throw new ValidationError(`清单中有${result.error_count}行未通过校验`, { errors: result.errors });
     }
 
-    logger.info(`样本已创建: ${sampleNumber}`, { createdBy: req.user?.id });
-    return createdResponse(res, data, '样本创建成功');
+    const sampleNos = await generateSampleNumbers(result.rows.length);
+    const data = await importManifest(result.rows, {
+      fileName: file_name,
+      sampleNos,
+      operatorId: req.user?.id
+    });
+
+    return createdResponse(res, data, `样本清单导入成功，共${data.row_count}个样本`);
   })
 );
 
 /**
  * 更新样本信息
  * PUT /api/samples/:id
+ * @description 仅允许修改基础信息，状态、位置和余量必须通过状态流转接口变更，不合格须走拒收流程；
+ * 各字段需要对应的页面权限
  */
 router.put('/:id',
   authenticateToken,
-  requireRoles(['admin', 'manager', 'technician']),
-  validate('uuid'),
+  requirePermissions(['sample.receive', 'sample.storage', 'sample.destroy']),
+  validate(uuidParamSchema, 'params'),
+  validate(updateSampleSchema, 'body'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const {
-      sample_name,
-      description,
-      priority,
-      status,
-      client_info,
-      storage_location,
-      storage_conditions
+      sample_type_id,
+      unit,
+      collection_time,
+      storage_temperature,
+      expected_destroy_date
     } = req.body;
 
+    const permissions = req.user?.permissions || [];
+    const deniedFields = Object.keys(req.body)
+      .filter(field => !permissions.includes(SAMPLE_UPDATE_PERMISSIONS[field]));
+    if (deniedFields.length > 0) {
+      throw new AuthorizationError('权限不足', {
+        fields: deniedFields,
+        required_permissions: [...new Set(deniedFields.map(field => SAMPLE_UPDATE_PERMISSIONS[field]))]
+      });
+    }
+
     // 检查样本是否存在
     const { data: existingSample, error: checkError } = await supabase
       .from('samples')
-      .select('id, sample_number')
+      .select('id, sample_no, status')
       .eq('id', id)
-      .is('deleted_at', null)
       .single();
 
     if (checkError || !existingSample) {
-      throw new Error('样本不存在');
-    }
-
-    const updateData = {
-      sample_name,
-      description,
-      priority,
-      status,
-      client_info,
-      storage_location,
-      storage_conditions,
-      updated_at: new Date().toISOString()
-    };
+      throw new NotFoundError('样本不存在');
+    }
+    if (existingSample.status === 'destroyed') {
+      throw new ConflictError('已销毁的样本不能修改');
+    }
 
     const { data, error } = await supabase
       .from('samples')
-      .update(updateData)
+      .update({
+        sample_type_id,
+        unit,
+        collection_time,
+        storage_temperature,
+        expected_destroy_date,
+        updated_at: new Date().toISOString(),
+        updated_by: req.user?.id
+      })
       .eq('id', id)
       .select(`
         *,
         sample_types(
           id,
-          name,
-          display_name
+          code,
+          name
         )
       `)
       .single();
 
     if (error) {
       logger.error('更新样本信息失败:', error);
-      throw new Error('更新样本信息失败');
+      throw new DatabaseError('更新样本信息失败');
     }
 
-    logger.info(`样本信息已更新: ${existingSample.sample_number}`, { updatedBy: req.user?.id });
+    logger.info(`样本信息已更新: ${existingSample.sample_no}`, { updatedBy: req.user?.id });
     return successResponse(res, data, '样本信息更新成功');
   })
 );
 
 /**
- * 删除样本（软删除）
+ * 样本状态流转
+ * POST /api/samples/:id/transition
+ * @description 按生命周期规则变更样本状态，并写入操作记录；不同目标状态需要对应的页面权限；
+ * 入库时可指定冻存盒孔位，未指定时放回出库前保留的孔位
+ */
+router.post('/:id/transition',
+  authenticateToken,
+  requirePermissions(['sample.receive', 'sample.storage', 'sample.destroy']),
+  validate(uuidParamSchema, 'params'),
+  validate(sampleTransitionSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { status, to_location, box_id, position, volume_after, reason, remarks } = req.body;
+
+    const requiredPermission = SAMPLE_TRANSITION_PERMISSIONS[status as SampleStatus];
+    if (!req.user?.permissions?.includes(requiredPermission)) {
+      throw new AuthorizationError('权限不足', { required_permission: requiredPermission });
+    }
+
+    if (box_id && status !== 'in_storage') {
+      throw new ValidationError('只有入库时可以指定冻存盒孔位');
+    }
+
+    const options = {
+      operatorId: req.user?.id,
+      toLocation: to_location,
+      volumeAfter: volume_after,
+      reason,
+      remarks
+    };
+
+    const data = status === 'in_storage'
+      ? await storeSample(id, { ...options, boxId: box_id, position })
+      : await transitionSample(id, status, options);
+
+    return successResponse(res, data, '样本状态更新成功');
+  })
+);
+
+/**
+ * 样本分装/衍生
+ * POST /api/samples/:id/derive
+ * @description 创建带独立条码的子样本，扣减来源样本余量并写入操作记录
+ */
+router.post('/:id/derive',
+  authenticateToken,
+  requirePermission('sample.receive'),
+  validate(uuidParamSchema, 'params'),
+  validate(sampleDeriveSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { derivation_type, children, consumed_volume, method, remarks } = req.body;
+
+    const data = await deriveSamples(req.params.id, {
+      derivationType: derivation_type,
+      children,
+      consumedVolume: consumed_volume,
+      method: method || undefined,
+      operatorId: req.user?.id,
+      remarks
+    });
+
+    return createdResponse(res, data, derivation_type === 'aliquot' ? '样本分装成功' : '衍生样本创建成功');
+  })
+);
+
+/**
+ * 获取样本谱系
+ * GET /api/samples/:id/lineage
+ * @description 返回原始样本起的完整谱系树及当前样本的来源路径
+ */
+router.get('/:id/lineage',
+  authenticateToken,
+  requirePermission('sample.list'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getSampleLineage(req.params.id);
+    return successResponse(res, data, '获取样本谱系成功');
+  })
+);
+
+/**
+ * 拒收样本
+ * POST /api/samples/:id/reject
+ * @description 按编码原因拒收，样本和送检单转为异常，生成重采申请并通知送检单位联系人
+ */
+router.post('/:id/reject',
+  authenticateToken,
+  requirePermission('sample.receive'),
+  validate(uuidParamSchema, 'params'),
+  validate(sampleRejectSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { reason_code, reason_detail } = req.body;
+
+    const data = await rejectSample(req.params.id, {
+      reasonCode: reason_code,
+      reasonDetail: reason_detail || undefined,
+      operatorId: req.user?.id
+    });
+
+    return createdResponse(res, data, '样本已拒收，已通知送检单位重新采样');
+  })
+);
+
+/**
+ * 设置样本保留
+ * POST /api/samples/:id/hold
+ * @description 法律或科研保留期间样本不进入到期销毁列表，也不能销毁
+ */
+router.post('/:id/hold',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  validate(uuidParamSchema, 'params'),
+  validate(sampleHoldSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { hold_type, reason, hold_until } = req.body;
+
+    const data = await setSampleHold(req.params.id, hold_type, reason, hold_until, req.user?.id);
+    return successResponse(res, data, '样本保留设置成功');
+  })
+);
+
+/**
+ * 解除样本保留
+ * DELETE /api/samples/:id/hold
+ */
+router.delete('/:id/hold',
+  authenticateToken,
+  requirePermission('sample.destroy'),
+  validate(uuidParamSchema, 'params'),
+  validate(releaseSampleHoldSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await releaseSampleHold(req.params.id, req.body.reason || undefined, req.user?.id);
+    return successResponse(res, data, '样本保留已解除');
+  })
+);
+
+/**
+ * 删除样本
  * DELETE /api/samples/:id
+ * @description 仅用于撤销误登记：样本必须处于已接收状态且未安排实验
  */
 router.delete('/:id',
   authenticateToken,
-  requireRoles(['admin', 'manager']),
-  validate('uuid'),
+  requirePermission('sample.receive'),
+  validate(uuidParamSchema, 'params'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
     // 检查样本是否存在
     const { data: existingSample, error: checkError } = await supabase
       .from('samples')
-      .select('id, sample_number')
+      .select('id, sample_no, status')
       .eq('id', id)
-      .eq('deleted_at', null)
       .single();
 
     if (checkError || !existingSample) {
-      throw new Error('样本不存在');
+      throw new NotFoundError('样本不存在');
     }
 
-    // 检查是否有关联的检测
-    const { data: tests, error: testError } = await supabase
-      .from('tests')
-      .select('id')
-      .eq('sample_id', id)
-      .eq('deleted_at', null);
+    if (existingSample.status !== 'received') {
+      throw new ConflictError('样本已流转，不能删除');
+    }
+
+    // 检查是否有关联的实验
+    const { count, error: experimentError } = await supabase
+      .from('experiments')
+      .select('id', { count: 'exact', head: true })
+      .eq('sample_id', id);
+
+    if (experimentError) {
+      logger.error('检查样本关联实验失败:', experimentError);
+      throw new DatabaseError('检查样本关联实验失败');
+    }
 
-    if (testError) {
-      logger.error('检查样本关联检测失败:', testError);
-      throw new Error('检查样本关联检测失败');
+    if ((count || 0) > 0) {
+      throw new ConflictError('该样本存在关联的实验，无法删除');
     }
 
-    if (tests && tests.length > 0) {
-      throw new Error('该样本存在关联的检测，无法删除');
+    // 检查是否已分装或衍生出子样本
+    const { count: childCount, error: childError } = await supabase
+      .from('samples')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_sample_id', id);
+
+    if (childError) {
+      logger.error('检查子样本失败:', childError);
+      throw new DatabaseError('检查子样本失败');
+    }
+
+    if ((childCount || 0) > 0) {
+      throw new ConflictError('该样本已分装或衍生出子样本，无法删除');
     }
 
-    // 软删除样本
     const { error } = await supabase
       .from('samples')
-      .update({
-        deleted_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
+      .delete()
       .eq('id', id);
 
     if (error) {
       logger.error('删除样本失败:', error);
-      throw new Error('删除样本失败');
+      throw new DatabaseError('删除样本失败');
     }
 
-    logger.info(`样本已删除: ${existingSample.sample_number}`, { deletedBy: req.user?.id });
+    logger.info(`样本已删除: ${existingSample.sample_no}`, { deletedBy: req.user?.id });
     return noContentResponse(res, '样本删除成功');
   })
 );
 
 /**
  * 生成样本编号
- * @returns 样本编号
+ * @param size 需要的编号数量
+ * @returns 连续的样本编号
  */
-async function generateSampleNumber(): Promise<string> {
+async function generateSampleNumbers(size: number): Promise<string[]> {
   const today = new Date();
   const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '');
-  
+
   // 查询今天已有的样本数量
   const { count, error } = await supabase
     .from('samples')
@@ -344,11 +802,12 @@ async function generateSampleNumber(): Promise<string> {
 
   if (error) {
     logger.error('生成样本编号失败:', error);
-    throw new Error('生成样本编号失败');
+    throw new DatabaseError('生成样本编号失败');
   }
 
-  const sequence = String((count || 0) + 1).padStart(4, '0');
-  return `S${dateStr}${sequence}`;
+  return Array.from({ length: size }, (_, index) =>
+    `S${dateStr}${String((count || 0) + index + 1).padStart(4, '0')}`
+  );
 }
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,379 @@
+/**
+ * 样本存储位置管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  storageUnitQuerySchema,
+  createStorageUnitSchema,
+  updateStorageUnitSchema,
+  freeSlotQuerySchema,
+  sampleMoveSchema
+} from '../middleware/validation.js';
+import {
+  asyncErrorHandler as asyncHandler,
+  NotFoundError,
+  ConflictError,
+  DatabaseError
+} from '../middleware/enhancedErrorHandler.js';
+import { successResponse, createdResponse, noContentResponse } from '../utils/response.js';
+import {
+  getStorageUnit,
+  resolveUnitPlacement,
+  getBoxMap,
+  findFreeSlots,
+  moveSample,
+  toTemperatureClass,
+  type StorageUnitType,
+  type TemperatureClass,
+  type StorageUnit
+} from '../utils/storageLocation.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 格式化存储单元响应数据
+ * @description 冻存盒附带容量和已占用孔位数
+ * @param unit 存储单元记录
+ * @returns 响应数据
+ */
+const toUnitResponse = (unit: StorageUnit & { sample_storage_positions?: { count: number }[] }) => {
+  const { sample_storage_positions: positions, ...rest } = unit;
+  if (rest.unit_type !== 'box') {
+    return rest;
+  }
+
+  const occupied = positions?.[0]?.count || 0;
+  const capacity = (rest.rows || 0) * (rest.cols || 0);
+  return { ...rest, capacity, occupied_count: occupied, free_count: capacity - occupied };
+};
+
+/**
+ * 获取存储单元列表
+ * GET /api/storage/units
+ * @description 按位置编码排序返回，前端据 parent_id 组装层级树
+ */
+router.get('/units',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(storageUnitQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { unit_type, parent_id, temperature_class, status, search } = req.query;
+
+    let query = supabase
+      .from('storage_units')
+      .select('*, sample_storage_positions(count)');
+
+    // 搜索过滤
+    if (search) {
+      query = query.or(`code.ilike.%${search}%,name.ilike.%${search}%,path.ilike.%${search}%`);
+    }
+
+    // 类型过滤
+    if (unit_type) {
+      query = query.eq('unit_type', unit_type);
+    }
+
+    // 上级单元过滤
+    if (parent_id) {
+      query = query.eq('parent_id', parent_id);
+    }
+
+    // 温度等级过滤
+    if (temperature_class) {
+      query = query.eq('temperature_class', temperature_class);
+    }
+
+    // 启用状态过滤
+    if (status) {
+      query = query.eq('is_active', status === 'active');
+    }
+
+    query = query
+      .order('path', { ascending: true })
+      .order('sort_order', { ascending: true });
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('获取存储单元列表失败:', error);
+      throw new DatabaseError('获取存储单元列表失败');
+    }
+
+    return successResponse(res, (data || []).map(toUnitResponse), '获取存储单元列表成功');
+  })
+);
+
+/**
+ * 查找空闲孔位
+ * GET /api/storage/free-slots
+ * @description 未指定温度等级时按样本的保存温度匹配
+ */
+router.get('/free-slots',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(freeSlotQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { sample_id, unit_id, count = 1 } = req.query;
+    let temperatureClass = req.query.temperature_class as TemperatureClass | undefined;
+
+    if (!temperatureClass && sample_id) {
+      const { data: sample, error } = await supabase
+        .from('samples')
+        .select('id, storage_temperature')
+        .eq('id', sample_id)
+        .single();
+
+      if (error || !sample) {
+        throw new NotFoundError('样本不存在');
+      }
+      temperatureClass = toTemperatureClass(sample.storage_temperature) || undefined;
+    }
+
+    const slots = await findFreeSlots({
+      temperatureClass,
+      unitId: unit_id as string | undefined,
+      count: Number(count)
+    });
+
+    return successResponse(res, slots, '查找空闲孔位成功');
+  })
+);
+
+/**
+ * 获取冻存盒孔位图
+ * GET /api/storage/boxes/:id/map
+ */
+router.get('/boxes/:id/map',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getBoxMap(req.params.id);
+    return successResponse(res, data, '获取冻存盒孔位图成功');
+  })
+);
+
+/**
+ * 获取存储单元详情
+ * GET /api/storage/units/:id
+ */
+router.get('/units/:id',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { data, error } = await supabase
+      .from('storage_units')
+      .select('*, sample_storage_positions(count)')
+      .eq('id', req.params.id)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundError('存储单元不存在');
+    }
+
+    return successResponse(res, toUnitResponse(data), '获取存储单元详情成功');
+  })
+);
+
+/**
+ * 创建存储单元
+ * POST /api/storage/units
+ */
+router.post('/units',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(createStorageUnitSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { unit_type, parent_id, code, name, temperature_class, rows, cols, sort_order = 0, remarks } = req.body;
+
+    const placement = await resolveUnitPlacement(
+      unit_type as StorageUnitType,
+      code,
+      parent_id,
+      temperature_class
+    );
+
+    const { data, error } = await supabase
+      .from('storage_units')
+      .insert({
+        parent_id: parent_id || null,
+        unit_type,
+        code,
+        name,
+        path: placement.path,
+        temperature_class: placement.temperature_class,
+        rows: unit_type === 'box' ? rows : null,
+        cols: unit_type === 'box' ? cols : null,
+        sort_order,
+        remarks,
+        created_by: req.user?.id,
+        updated_by: req.user?.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictError(`位置编码 ${placement.path} 已存在`);
+      }
+      logger.error('创建存储单元失败:', error);
+      throw new DatabaseError('创建存储单元失败');
+    }
+
+    logger.info(`存储单元已创建: ${placement.path}`, { createdBy: req.user?.id });
+    return createdResponse(res, toUnitResponse(data), '存储单元创建成功');
+  })
+);
+
+/**
+ * 更新存储单元
+ * PUT /api/storage/units/:id
+ * @description 缩小冻存盒行列数时不能使已占用的孔位超出范围
+ */
+router.put('/units/:id',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(uuidParamSchema, 'params'),
+  validate(updateStorageUnitSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { name, rows, cols, sort_order, is_active, remarks } = req.body;
+
+    const unit = await getStorageUnit(id);
+
+    if ((rows !== undefined || cols !== undefined) && unit.unit_type !== 'box') {
+      throw new ConflictError('只有冻存盒可以设置行列数');
+    }
+
+    if (rows !== undefined || cols !== undefined) {
+      const nextRows = rows ?? unit.rows;
+      const nextCols = cols ?? unit.cols;
+
+      const { count, error: positionError } = await supabase
+        .from('sample_storage_positions')
+        .select('id', { count: 'exact', head: true })
+        .eq('box_id', id)
+        .or(`row_no.gt.${nextRows},col_no.gt.${nextCols}`);
+
+      if (positionError) {
+        logger.error('检查冻存盒孔位占用失败:', positionError);
+        throw new DatabaseError('更新存储单元失败');
+      }
+
+      if (count) {
+        throw new ConflictError(`调整后有${count}个已占用孔位超出范围，请先移走样本`);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('storage_units')
+      .update({
+        name,
+        rows,
+        cols,
+        sort_order,
+        is_active,
+        remarks,
+        updated_at: new Date().toISOString(),
+        updated_by: req.user?.id
+      })
+      .eq('id', id)
+      .select('*, sample_storage_positions(count)')
+      .single();
+
+    if (error) {
+      logger.error('更新存储单元失败:', error);
+      throw new DatabaseError('更新存储单元失败');
+    }
+
+    logger.info(`存储单元已更新: ${unit.path}`, { updatedBy: req.user?.id });
+    return successResponse(res, toUnitResponse(data), '存储单元更新成功');
+  })
+);
+
+/**
+ * 删除存储单元
+ * DELETE /api/storage/units/:id
+ * @description 存在下级单元或存放样本的单元不能删除，可改为停用
+ */
+router.delete('/units/:id',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const unit = await getStorageUnit(id);
+
+    const { count: childCount, error: childError } = await supabase
+      .from('storage_units')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', id);
+
+    if (childError) {
+      logger.error('检查下级存储单元失败:', childError);
+      throw new DatabaseError('删除存储单元失败');
+    }
+
+    if (childCount) {
+      throw new ConflictError(`${unit.path} 下还有${childCount}个存储单元，不能删除`);
+    }
+
+    const { count: sampleCount, error: positionError } = await supabase
+      .from('sample_storage_positions')
+      .select('id', { count: 'exact', head: true })
+      .eq('box_id', id);
+
+    if (positionError) {
+      logger.error('检查冻存盒孔位占用失败:', positionError);
+      throw new DatabaseError('删除存储单元失败');
+    }
+
+    if (sampleCount) {
+      throw new ConflictError(`${unit.path} 中还存放着${sampleCount}个样本，不能删除`);
+    }
+
+    const { error } = await supabase
+      .from('storage_units')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      logger.error('删除存储单元失败:', error);
+      throw new DatabaseError('删除存储单元失败');
+    }
+
+    logger.info(`存储单元已删除: ${unit.path}`, { deletedBy: req.user?.id });
+    return noContentResponse(res, '存储单元删除成功');
+  })
+);
+
+/**
+ * 样本移位
+ * POST /api/storage/samples/:id/move
+ * @description 在库样本移动到其他孔位，写入移位操作记录
+ */
+router.post('/samples/:id/move',
+  authenticateToken,
+  requirePermission('sample.storage'),
+  validate(uuidParamSchema, 'params'),
+  validate(sampleMoveSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { box_id, position, remarks } = req.body;
+
+    const data = await moveSample(req.params.id, box_id, position, req.user?.id, remarks);
+
+    return successResponse(res, data, '样本移位成功');
+  })
+);
+
+export default router;
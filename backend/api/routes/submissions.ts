@@ -0,0 +1,498 @@
+/**
+ * 送检管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  submissionQuerySchema,
+  createSubmissionSchema,
+  submissionStatusSchema,
+  cancelSubmissionSchema
+} from '../middleware/validation.js';
+import {
+  asyncErrorHandler as asyncHandler,
+  NotFoundError,
+  ValidationError,
+  DatabaseError
+} from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, createdResponse, calculatePagination } from '../utils/response.js';
+import { recordSubmissionProgress, transitionSubmission } from '../utils/submissionStatus.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 送检产品参数
+ */
+interface SubmissionProductInput {
+  product_id: string;
+  quantity?: number;
+}
+
+/**
+ * 获取送检列表
+ * GET /api/submissions
+ */
+router.get('/',
+  authenticateToken,
+  requirePermission('submission.list'),
+  validate(submissionQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const {
+      page = 1,
+      limit = 10,
+      search,
+      status,
+      client_unit_id,
+      is_urgent,
+      date_from,
+      date_to
+    } = req.query;
+
+    let query = supabase
+      .from('submissions')
+      .select(`
+        id,
+        submission_no,
+        patient_name,
+        patient_gender,
+        patient_age,
+        contact_phone,
+        is_urgent,
+        total_amount,
+        status,
+        submitted_at,
+        received_at,
+        completed_at,
+        created_at,
+        client_units(
+          id,
+          name,
+          contact_person,
+          contact_phone
+        ),
+        submission_products(
+          id,
+          quantity,
+          test_products(
+            id,
+            code,
+            name,
+            turnaround_time
+          )
+        ),
+        samples(count)
+      `, { count: 'exact' });
+
+    // 搜索过滤
+    if (search) {
+      query = query.or(`submission_no.ilike.%${search}%,patient_name.ilike.%${search}%`);
+    }
+
+    // 状态过滤
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    // 送检单位过滤
+    if (client_unit_id) {
+      query = query.eq('client_unit_id', client_unit_id);
+    }
+
+    // 加急过滤
+    if (is_urgent !== undefined && is_urgent !== '') {
+      query = query.eq('is_urgent', is_urgent === 'true');
+    }
+
+    // 日期范围过滤
+    if (date_from) {
+      query = query.gte('submitted_at', date_from);
+    }
+    if (date_to) {
+      query = query.lte('submitted_at', date_to);
+    }
+
+    // 排序：加急优先，其次按提交时间倒序
+    query = query
+      .order('is_urgent', { ascending: false })
+      .order('submitted_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取送检列表失败:', error);
+      throw new DatabaseError('获取送检列表失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取送检申请表单选项
+ * GET /api/submissions/options
+ * @description 返回启用的送检单位和检测产品，供新建送检页面选择
+ */
+router.get('/options',
+  authenticateToken,
+  requirePermission('submission.create'),
+  asyncHandler(async (_req, res) => {
+    const [unitsResult, productsResult] = await Promise.all([
+      supabase
+        .from('client_units')
+        .select('id, code, name, type, contact_person, contact_phone')
+        .eq('is_active', true)
+        .order('name', { ascending: true }),
+      supabase
+        .from('test_products')
+        .select('id, code, name, category, price, turnaround_time')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true })
+    ]);
+
+    if (unitsResult.error || productsResult.error) {
+      logger.error('获取送检表单选项失败:', unitsResult.error || productsResult.error);
+      throw new DatabaseError('获取送检表单选项失败');
+    }
+
+    return successResponse(res, {
+      client_units: unitsResult.data || [],
+      test_products: productsResult.data || []
+    }, '获取送检表单选项成功');
+  })
+);
+
+/**
+ * 获取送检详情
+ * GET /api/submissions/:id
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermission('submission.detail'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('submissions')
+      .select(`
+        *,
+        client_units(
+          id,
+          code,
+          name,
+          type,
+          contact_person,
+          contact_phone,
+          contact_email,
+          address
+        ),
+        submission_products(
+          id,
+          quantity,
+          unit_price,
+          total_price,
+          test_products(
+            id,
+            code,
+            name,
+            category,
+            turnaround_time
+          )
+        ),
+        samples(
+          id,
+          sample_no,
+          barcode,
+          volume,
+          unit,
+          status,
+          quality_status,
+          collection_time,
+          received_time,
+          sample_types(
+            id,
+            code,
+            name
+          )
+        ),
+        submission_progress(
+          id,
+          stage,
+          status,
+          description,
+          started_at,
+          completed_at,
+          created_at,
+          users(
+            id,
+            username,
+            real_name
+          )
+        )
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      logger.error('获取送检详情失败:', error);
+      throw new NotFoundError('送检单不存在');
+    }
+
+    // 进度时间线按时间先后排序
+    const { submission_progress: progress, ...submission } = data;
+    const timeline = [...(progress || [])].sort(
+      (a: { created_at: string }, b: { created_at: string }) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+    return successResponse(res, { ...submission, timeline }, '获取送检详情成功');
+  })
+);
+
+/**
+ * 获取送检进度时间线
+ * GET /api/submissions/:id/progress
+ */
+router.get('/:id/progress',
+  authenticateToken,
+  requirePermission('submission.progress'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const { data: submission, error: checkError } = await supabase
+      .from('submissions')
+      .select('id, submission_no, status')
+      .eq('id', id)
+      .single();
+
+    if (checkError || !submission) {
+      throw new NotFoundError('送检单不存在');
+    }
+
+    const { data, error } = await supabase
+      .from('submission_progress')
+      .select(`
+        id,
+        stage,
+        status,
+        description,
+        started_at,
+        completed_at,
+        created_at,
+        users(
+          id,
+          username,
+          real_name
+        )
+      `)
+      .eq('submission_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('获取送检进度失败:', error);
+      throw new DatabaseError('获取送检进度失败');
+    }
+
+    return successResponse(res, { ...submission, timeline: data || [] }, '获取送检进度成功');
+  })
+);
+
+/**
+ * 创建送检申请
+ * POST /api/submissions
+ */
+router.post('/',
+  authenticateToken,
+  requirePermission('submission.create'),
+  validate(createSubmissionSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const {
+      client_unit_id,
+      patient_name,
+      patient_gender = 'unknown',
+      patient_age,
+      patient_id_card,
+      contact_phone,
+      is_urgent = false,
+      clinical_info,
+      sample_info,
+      attachment_urls = [],
+      products
+    } = req.body;
+
+    // 检查送检单位
+    const { data: clientUnit, error: unitError } = await supabase
+      .from('client_units')
+      .select('id, name, is_active')
+      .eq('id', client_unit_id)
+      .single();
+
+    if (unitError || !clientUnit) {
+      throw new ValidationError('送检单位不存在');
+    }
+    if (!clientUnit.is_active) {
+      throw new ValidationError('送检单位已停用');
+    }
+
+    // 按检测产品当前价格计价
+    const productInputs: SubmissionProductInput[] = products;
+    const productIds = [...new Set(productInputs.map(item => item.product_id))];
+    const { data: testProducts, error: productError } = await supabase
+      .from('test_products')
+      .select('id, code, name, price, is_active')
+      .in('id', productIds);
+
+    if (productError) {
+      logger.error('查询检测产品失败:', productError);
+      throw new DatabaseError('查询检测产品失败');
+    }
+
+    const productMap = new Map((testProducts || []).map(product => [product.id, product]));
+    const invalidIds = productIds.filter(productId => !productMap.get(productId)?.is_active);
+    if (invalidIds.length > 0) {
+      throw new ValidationError('检测产品不存在或已停用', { product_ids: invalidIds });
+    }
+
+    const productRows = productInputs.map(item => {
+      const product = productMap.get(item.product_id)!;
+      const quantity = Number(item.quantity) || 1;
+      const unitPrice = Number(product.price) || 0;
+      return {
+        product_id: item.product_id,
+        quantity,
+        unit_price: unitPrice,
+        total_price: Math.round(unitPrice * quantity * 100) / 100
+      };
+    });
+
+    const totalAmount = productRows.reduce((sum, row) => sum + row.total_price, 0);
+    const submissionNo = await generateSubmissionNumber();
+    const now = new Date().toISOString();
+
+    const { data: submission, error } = await supabase
+      .from('submissions')
+      .insert({
+        submission_no: submissionNo,
+        client_unit_id,
+        patient_name,
+        patient_gender,
+        patient_age,
+        patient_id_card,
+        contact_phone,
+        is_urgent,
+        clinical_info,
+        sample_info,
+        attachment_urls,
+        total_amount: Math.round(totalAmount * 100) / 100,
+        status: 'submitted',
+        submitted_at: now,
+        created_by: req.user?.id,
+        updated_by: req.user?.id
+      })
+      .select()
+      .single();
+
+    if (error || !submission) {
+      logger.error('创建送检申请失败:', error);
+      throw new DatabaseError('创建送检申请失败');
+    }
+
+    const { error: itemsError } = await supabase
+      .from('submission_products')
+      .insert(productRows.map(row => ({
+        ...row,
+        submission_id: submission.id,
+        created_by: req.user?.id
+      })));
+
+    if (itemsError) {
+      // 产品写入失败时回滚送检单，避免产生无产品的送检记录
+      logger.error('保存送检产品失败:', itemsError);
+      await supabase.from('submissions').delete().eq('id', submission.id);
+      throw new DatabaseError('保存送检产品失败');
+    }
+
+    await recordSubmissionProgress(
+      submission.id,
+      'submitted',
+      `提交送检申请，共${productRows.length}个检测产品`,
+      req.user?.id
+    );
+
+    logger.info(`送检申请已创建: ${submissionNo}`, { createdBy: req.user?.id });
+    return createdResponse(res, { ...submission, submission_products: productRows }, '送检申请创建成功');
+  })
+);
+
+/**
+ * 变更送检状态
+ * PUT /api/submissions/:id/status
+ */
+router.put('/:id/status',
+  authenticateToken,
+  requirePermission('submission.edit'),
+  validate(uuidParamSchema, 'params'),
+  validate(submissionStatusSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { status, description } = req.body;
+
+    const data = await transitionSubmission(id, status, req.user?.id, description);
+    return successResponse(res, data, '送检状态更新成功');
+  })
+);
+
+/**
+ * 取消送检
+ * POST /api/submissions/:id/cancel
+ */
+router.post('/:id/cancel',
+  authenticateToken,
+  requirePermission('submission.cancel'),
+  validate(uuidParamSchema, 'params'),
+  validate(cancelSubmissionSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const data = await transitionSubmission(id, 'cancelled', req.user?.id, `取消送检：${reason}`);
+    return successResponse(res, data, '送检已取消');
+  })
+);
+
+/**
+ * 生成送检编号
+ * @returns 送检编号
+ */
+async function generateSubmissionNumber(): Promise<string> {
+  const today = new Date();
+  const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '');
+
+  // 查询今天已有的送检数量
+  const { count, error } = await supabase
+    .from('submissions')
+    .select('id', { count: 'exact', head: true })
+    .gte('created_at', `${today.toISOString().slice(0, 10)}T00:00:00.000Z`)
+    .lt('created_at', `${today.toISOString().slice(0, 10)}T23:59:59.999Z`);
+
+  if (error) {
+    logger.error('生成送检编号失败:', error);
+    throw new DatabaseError('生成送检编号失败');
+  }
+
+  const sequence = String((count || 0) + 1).padStart(4, '0');
+  return `SJ${dateStr}${sequence}`;
+}
+
+export default router;
@@ -0,0 +1,123 @@
+/**
+ * 实验员分配路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermissions, requireRoles } from '../middleware/auth.js';
+import {
+  validate,
+  technicianWorkloadQuerySchema,
+  assignmentProposalSchema,
+  experimentAssignSchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler } from '../middleware/enhancedErrorHandler.js';
+import { successResponse } from '../utils/response.js';
+import {
+  assertMethodPermission,
+  EXPERIMENT_METHOD_PERMISSIONS,
+  type ExperimentMethod
+} from '../utils/experimentResults.js';
+import {
+  listTechnicianWorkloads,
+  proposeAssignments,
+  applyAssignments,
+  autoAssignExperiments
+} from '../utils/technicianAssignment.js';
+
+const router = Router();
+
+// 任一实验方法的列表权限
+const LIST_PERMISSIONS = Object.values(EXPERIMENT_METHOD_PERMISSIONS).map(item => item.list);
+
+// 任一实验方法的录入权限
+const ENTRY_PERMISSIONS = Object.values(EXPERIMENT_METHOD_PERMISSIONS).map(item => item.entry);
+
+// 可分配实验的角色
+const ASSIGN_ROLES = ['admin', 'lab_manager'];
+
+/**
+ * 获取实验员资质和工作量
+ * GET /api/technician-assignments/workloads?method=
+ */
+router.get('/workloads',
+  authenticateToken,
+  requirePermissions(LIST_PERMISSIONS),
+  validate(technicianWorkloadQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const method = req.query.method as ExperimentMethod | undefined;
+    if (method) {
+      assertMethodPermission(req.user?.permissions, method, 'list');
+    }
+
+    const data = await listTechnicianWorkloads(method);
+    return successResponse(res, data, '获取实验员工作量成功');
+  })
+);
+
+/**
+ * 生成分配建议
+ * POST /api/technician-assignments/proposals
+ * @description 只计算不写入，供主管调整后分配
+ */
+router.post('/proposals',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  requireRoles(ASSIGN_ROLES),
+  validate(assignmentProposalSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    assertMethodPermission(req.user?.permissions, req.body.method, 'entry');
+
+    const data = await proposeAssignments(req.body);
+    return successResponse(res, data, `生成分配建议${data.proposals.length}条`);
+  })
+);
+
+/**
+ * 自动分配实验
+ * POST /api/technician-assignments/auto
+ * @description 按分配建议直接分配待分配实验
+ */
+router.post('/auto',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  requireRoles(ASSIGN_ROLES),
+  validate(assignmentProposalSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    assertMethodPermission(req.user?.permissions, req.body.method, 'entry');
+
+    const data = await autoAssignExperiments(req.body, req.user?.id);
+    return successResponse(
+      res,
+      data,
+      `已自动分配${data.assigned.length}个实验` +
+        (data.unassigned.length > 0 ? `，${data.unassigned.length}个实验无法分配` : '')
+    );
+  })
+);
+
+/**
+ * 分配实验
+ * POST /api/technician-assignments
+ * @description 按指定的实验员分配或改派待开始的实验，实验员不具备资质时拒绝
+ */
+router.post('/',
+  authenticateToken,
+  requirePermissions(ENTRY_PERMISSIONS),
+  requireRoles(ASSIGN_ROLES),
+  validate(experimentAssignSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { method, assignments } = req.body;
+    assertMethodPermission(req.user?.permissions, method, 'entry');
+
+    const data = await applyAssignments(method, assignments, 'manual', req.user?.id);
+    return successResponse(
+      res,
+      data,
+      `已分配${data.assigned.length}个实验` + (data.skipped.length > 0 ? `，跳过${data.skipped.length}个` : '')
+    );
+  })
+);
+
+export default router;
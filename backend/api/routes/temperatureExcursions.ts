@@ -0,0 +1,206 @@
+/**
+ * 存储温度偏离管理路由
+ * 创建时间：2025年8月20日
+ * 创建人：Erikwang
+ */
+
+import { Router } from 'express';
+import { authenticateToken, requirePermission, requireRoles } from '../middleware/auth.js';
+import {
+  validate,
+  uuidParamSchema,
+  temperatureExcursionQuerySchema,
+  temperatureExcursionAssessSchema,
+  monitoringPointLinkSchema
+} from '../middleware/validation.js';
+import { asyncErrorHandler as asyncHandler, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { successResponse, paginatedResponse, calculatePagination } from '../utils/response.js';
+import {
+  getTemperatureExcursion,
+  scanTemperatureExcursions,
+  assessExcursionSamples,
+  linkMonitoringPoint,
+  parseTemperatureThreshold
+} from '../utils/temperatureExcursion.js';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+const router = Router();
+
+/**
+ * 获取监控点列表
+ * GET /api/temperature-excursions/points
+ * @description 附关联的存储单元和解析后的温度阈值
+ */
+router.get('/points',
+  authenticateToken,
+  requirePermission('environment.monitoring'),
+  asyncHandler(async (_req, res) => {
+    const { data, error } = await supabase
+      .from('monitoring_points')
+      .select(`
+        id,
+        point_no,
+        name,
+        location,
+        room,
+        sensor_type,
+        thresholds,
+        is_active,
+        storage_unit_id,
+        storage_units(
+          id,
+          path,
+          name,
+          unit_type
+        )
+      `)
+      .order('point_no', { ascending: true });
+
+    if (error) {
+      logger.error('获取监控点列表失败:', error);
+      throw new DatabaseError('获取监控点列表失败');
+    }
+
+    const points = (data || []).map(point => ({
+      ...point,
+      temperature_threshold: parseTemperatureThreshold(point.thresholds)
+    }));
+
+    return successResponse(res, points, '获取监控点列表成功');
+  })
+);
+
+/**
+ * 关联监控点与存储单元
+ * PUT /api/temperature-excursions/points/:id
+ * @description 关联后该监控点的温度偏离按存储单元评估受影响样本
+ */
+router.put('/points/:id',
+  authenticateToken,
+  requirePermission('environment.monitoring'),
+  requireRoles(['admin', 'lab_manager']),
+  validate(uuidParamSchema, 'params'),
+  validate(monitoringPointLinkSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const data = await linkMonitoringPoint(req.params.id, req.body.storage_unit_id, req.user?.id);
+    return successResponse(res, data, req.body.storage_unit_id ? '监控点已关联存储单元' : '已取消关联');
+  })
+);
+
+/**
+ * 执行温度偏离检查
+ * POST /api/temperature-excursions/scan
+ * @description 与定时任务相同，供无常驻进程的部署由外部调度触发或手动补跑
+ */
+router.post('/scan',
+  authenticateToken,
+  requirePermission('environment.monitoring'),
+  requireRoles(['admin', 'lab_manager']),
+  asyncHandler(async (_req, res) => {
+    const data = await scanTemperatureExcursions();
+    return successResponse(res, data, '温度偏离检查完成');
+  })
+);
+
+/**
+ * 获取温度偏离列表
+ * GET /api/temperature-excursions
+ */
+router.get('/',
+  authenticateToken,
+  requirePermission('environment.monitoring'),
+  validate(temperatureExcursionQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 10, search, status, point_id } = req.query;
+
+    let query = supabase
+      .from('temperature_excursions')
+      .select(`
+        *,
+        monitoring_points(
+          id,
+          point_no,
+          name,
+          location
+        ),
+        storage_units(
+          id,
+          path,
+          name
+        )
+      `, { count: 'exact' });
+
+    // 搜索过滤
+    if (search) {
+      query = query.ilike('excursion_no', `%${search}%`);
+    }
+
+    // 状态过滤
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    // 监控点过滤
+    if (point_id) {
+      query = query.eq('point_id', point_id);
+    }
+
+    query = query.order('started_at', { ascending: false });
+
+    // 分页
+    const offset = (Number(page) - 1) * Number(limit);
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('获取温度偏离列表失败:', error);
+      throw new DatabaseError('获取温度偏离列表失败');
+    }
+
+    return paginatedResponse(res, data || [], calculatePagination(count || 0, Number(page), Number(limit)));
+  })
+);
+
+/**
+ * 获取温度偏离详情
+ * GET /api/temperature-excursions/:id
+ * @description 附受影响样本及暴露时长
+ */
+router.get('/:id',
+  authenticateToken,
+  requirePermission('environment.monitoring'),
+  validate(uuidParamSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const data = await getTemperatureExcursion(req.params.id);
+    return successResponse(res, data, '获取温度偏离详情成功');
+  })
+);
+
+/**
+ * 评估受影响样本
+ * POST /api/temperature-excursions/:id/assess
+ * @description 仅质控人员、实验室主管或系统管理员可评估，评为不合格的样本质量状态同步改为不合格
+ */
+router.post('/:id/assess',
+  authenticateToken,
+  requirePermission('environment.monitoring'),
+  requireRoles(['admin', 'lab_manager', 'quality_controller']),
+  validate(uuidParamSchema, 'params'),
+  validate(temperatureExcursionAssessSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { sample_ids, result, comments } = req.body;
+
+    const data = await assessExcursionSamples(req.params.id, {
+      sampleIds: sample_ids,
+      result,
+      comments: comments || undefined,
+      operatorId: req.user?.id
+    });
+
+    return successResponse(res, data, result === 'unqualified' ? '样本已评估为不合格' : '样本已评估为不受影响');
+  })
+);
+
+export default router;
@@ -3,6 +3,9 @@
  */
 import app from './app.js';
 import logger from './config/logger.js';
+import { startRetentionScheduler } from './utils/sampleDestruction.js';
+import { startCheckoutOverdueScheduler } from './utils/sampleCheckout.js';
+import { startExcursionScanScheduler } from './utils/temperatureExcursion.js';
 
 /**
  * start server with port
@@ -13,11 +16,21 @@ const server = app.listen(PORT, () => {
   logger.info(`Server ready on port ${PORT}`);
 });
 
+/**
+ * start scheduled jobs
+ */
+const retentionTimer = startRetentionScheduler();
+const checkoutOverdueTimer = startCheckoutOverdueScheduler();
+const excursionScanTimer = startExcursionScanScheduler();
+
 /**
  * close server
  */
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received');
+  clearInterval(retentionTimer);
+  clearInterval(checkoutOverdueTimer);
+  clearInterval(excursionScanTimer);
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -26,6 +39,9 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT signal received');
+  clearInterval(retentionTimer);
+  clearInterval(checkoutOverdueTimer);
+  clearInterval(excursionScanTimer);
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
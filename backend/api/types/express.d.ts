@@ -13,6 +13,7 @@ declare global {
         username: string;
         email: string;
         roles: string[];
+        permissions?: string[];
       };
     }
   }
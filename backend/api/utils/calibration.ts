@@ -0,0 +1,752 @@
+/**
+ * 校准曲线工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：质谱校准品响应按线性或二次最小二乘（可按1/x、1/x²加权）拟合校准曲线，按r²和校准品回算准确度判定；
+ * 合格曲线将同批次未知样本的峰面积定量为浓度写入实验数据，超出定量范围的按 <LLOQ、>ULOQ 报告；曲线重新拟合时清除原定量结果
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+import { getProductItems, saveExperimentResults, startExperiment } from './experimentResults.js';
+
+/**
+ * 拟合方式
+ */
+export type FitType = 'linear' | 'quadratic';
+
+/**
+ * 拟合权重
+ */
+export type Weighting = 'none' | '1/x' | '1/x2';
+
+/**
+ * 校准品输入
+ */
+export interface CalibrationPointInput {
+  level: string;
+  nominal_concentration: number;
+  analyte_area: number;
+  is_area?: number | null;
+  is_excluded?: boolean;
+}
+
+/**
+ * 校准曲线保存参数
+ */
+export interface CalibrationCurveInput {
+  batch_no: string;
+  item_id: string;
+  fit_type: FitType;
+  weighting: Weighting;
+  use_internal_standard: boolean;
+  points: CalibrationPointInput[];
+  remarks?: string | null;
+}
+
+/**
+ * 校准曲线验收标准
+ */
+export interface CalibrationAcceptance {
+  min_r_squared: number;
+  accuracy_tolerance: number;
+  lloq_tolerance: number;
+  min_pass_ratio: number;
+  min_levels: number;
+}
+
+/**
+ * 曲线系数：响应 = quadratic·x² + slope·x + intercept
+ */
+export interface CurveCoefficients {
+  intercept: number;
+  slope: number;
+  quadratic: number;
+}
+
+/**
+ * 未知样本峰面积
+ */
+export interface UnknownInput {
+  sample_key: string;
+  analyte_area: number;
+  is_area?: number | null;
+}
+
+/**
+ * 校准曲线记录
+ * @description DECIMAL 字段由数据库以字符串或数值返回，使用前需转为数值
+ */
+export interface CalibrationCurveRecord {
+  id: string;
+  batch_no: string;
+  item_id: string;
+  fit_type: FitType;
+  weighting: Weighting;
+  use_internal_standard: boolean;
+  intercept: number | string | null;
+  slope: number | string | null;
+  quadratic: number | string | null;
+  r_squared: number | string | null;
+  lloq: number | string | null;
+  uloq: number | string | null;
+  status: 'passed' | 'failed';
+  failure_reasons: string[];
+  acceptance: Partial<CalibrationAcceptance>;
+  quantified_at: string | null;
+  quantified_by: string | null;
+  remarks: string | null;
+  created_at: string;
+  updated_at: string;
+  test_items?: { id: string; code: string; name: string; unit: string | null } | null;
+  calibration_points?: (CalibrationPointInput & {
+    id: string;
+    response: number | string;
+    back_calculated: number | string | null;
+    accuracy: number | string | null;
+    passed: boolean;
+    sort_order: number;
+  })[];
+}
+
+/**
+ * 默认验收标准
+ */
+export const DEFAULT_CALIBRATION_ACCEPTANCE: CalibrationAcceptance = {
+  min_r_squared: 0.99,
+  accuracy_tolerance: 15,
+  lloq_tolerance: 20,
+  min_pass_ratio: 0.75,
+  min_levels: 5
+};
+
+/**
+ * 获取校准曲线验收标准
+ * @returns 验收标准，未配置的项使用默认值
+ */
+export const getCalibrationAcceptance = async (): Promise<CalibrationAcceptance> => {
+  const config = await getConfigValue<Partial<CalibrationAcceptance>>('quant.calibration_acceptance', {});
+  return { ...DEFAULT_CALIBRATION_ACCEPTANCE, ...(config || {}) };
+};
+
+/**
+ * 计算响应值
+ * @param analyteArea 待测物峰面积
+ * @param isArea 内标峰面积
+ * @param useInternalStandard 是否使用内标
+ * @returns 响应值，使用内标但缺少内标峰面积时为空
+ */
+export const calculateResponse = (analyteArea: number, isArea: number | null | undefined, useInternalStandard: boolean) => {
+  if (!useInternalStandard) {
+    return analyteArea;
+  }
+  return isArea && isArea > 0 ? analyteArea / isArea : null;
+};
+
+/**
+ * 高斯消元求解线性方程组
+ * @param matrix 系数矩阵
+ * @param vector 常数向量
+ * @returns 解向量，矩阵奇异时为空
+ */
+const solveLinearSystem = (matrix: number[][], vector: number[]): number[] | null => {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(a[pivot][col]) < 1e-300) {
+      return null;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+};
+
+/**
+ * 加权最小二乘拟合
+ * @param points 浓度与响应
+ * @param fitType 拟合方式
+ * @param weighting 拟合权重
+ * @returns 曲线系数和加权r²
+ */
+export const fitCalibration = (
+  points: { x: number; y: number }[],
+  fitType: FitType,
+  weighting: Weighting
+): { coefficients: CurveCoefficients; r_squared: number } => {
+  const degree = fitType === 'quadratic' ? 2 : 1;
+  const distinct = new Set(points.map(point => point.x)).size;
+  if (distinct < degree + 1) {
+    throw new ValidationError(`${fitType === 'quadratic' ? '二次' : '线性'}拟合至少需要${degree + 1}个不同浓度的校准品`);
+  }
+
+  const weightOf = (x: number) => (weighting === '1/x' ? 1 / x : weighting === '1/x2' ? 1 / (x * x) : 1);
+  const size = degree + 1;
+  const matrix = Array.from({ length: size }, () => new Array(size).fill(0));
+  const vector = new Array(size).fill(0);
+
+  points.forEach(({ x, y }) => {
+    const w = weightOf(x);
+    const basis = [1, x, x * x].slice(0, size);
+    for (let i = 0; i < size; i++) {
+      vector[i] += w * basis[i] * y;
+      for (let j = 0; j < size; j++) {
+        matrix[i][j] += w * basis[i] * basis[j];
+      }
+    }
+  });
+
+  const solution = solveLinearSystem(matrix, vector);
+  if (!solution || solution.some(value => !Number.isFinite(value))) {
+    throw new ValidationError('校准品数据无法拟合曲线');
+  }
+
+  const coefficients: CurveCoefficients = {
+    intercept: solution[0],
+    slope: solution[1],
+    quadratic: degree === 2 ? solution[2] : 0
+  };
+
+  const predict = (x: number) => coefficients.quadratic * x * x + coefficients.slope * x + coefficients.intercept;
+  const weightSum = points.reduce((sum, { x }) => sum + weightOf(x), 0);
+  const weightedMean = points.reduce((sum, { x, y }) => sum + weightOf(x) * y, 0) / weightSum;
+  const ssRes = points.reduce((sum, { x, y }) => sum + weightOf(x) * (y - predict(x)) ** 2, 0);
+  const ssTot = points.reduce((sum, { x, y }) => sum + weightOf(x) * (y - weightedMean) ** 2, 0);
+
+  return {
+    coefficients,
+    r_squared: ssTot > 0 ? 1 - ssRes / ssTot : 0
+  };
+};
+
+/**
+ * 按响应反算浓度
+ * @description 二次曲线取曲线上升段的根
+ * @param coefficients 曲线系数
+ * @param response 响应值
+ * @returns 浓度，无法反算时为空
+ */
+export const backCalculate = (coefficients: CurveCoefficients, response: number): number | null => {
+  const { intercept: a, slope: b, quadratic: c } = coefficients;
+
+  if (Math.abs(c) < 1e-15) {
+    return b === 0 ? null : (response - a) / b;
+  }
+
+  const discriminant = b * b - 4 * c * (a - response);
+  if (discriminant < 0) {
+    return null;
+  }
+
+  const roots = [(-b + Math.sqrt(discriminant)) / (2 * c), (-b - Math.sqrt(discriminant)) / (2 * c)];
+  const rising = roots.filter(x => b + 2 * c * x > 0);
+  return rising.length > 0 ? Math.min(...rising) : null;
+};
+
+/**
+ * 拟合并判定校准曲线
+ * @description 剔除的校准品不参与拟合和判定；最低浓度校准品按定量下限偏差判定，其余按常规偏差判定
+ * @param input 校准曲线参数
+ * @param acceptance 验收标准
+ * @returns 曲线系数、各校准品回算结果及判定
+ */
+export const evaluateCalibration = (
+  input: Pick<CalibrationCurveInput, 'fit_type' | 'weighting' | 'use_internal_standard' | 'points'>,
+  acceptance: CalibrationAcceptance
+) => {
+  const points = input.points.map((point, index) => {
+    const response = calculateResponse(point.analyte_area, point.is_area, input.use_internal_standard);
+    if (response === null) {
+      throw new ValidationError(`校准品 ${point.level} 缺少内标峰面积`);
+    }
+    return { ...point, is_excluded: Boolean(point.is_excluded), response, sort_order: index };
+  });
+
+  const included = points.filter(point => !point.is_excluded);
+  const { coefficients, r_squared } = fitCalibration(
+    included.map(point => ({ x: point.nominal_concentration, y: point.response })),
+    input.fit_type,
+    input.weighting
+  );
+
+  const lowest = Math.min(...included.map(point => point.nominal_concentration));
+  const evaluated = points.map(point => {
+    const backCalculated = backCalculate(coefficients, point.response);
+    const accuracy = backCalculated === null ? null : (backCalculated / point.nominal_concentration) * 100;
+    const tolerance = point.nominal_concentration === lowest ? acceptance.lloq_tolerance : acceptance.accuracy_tolerance;
+    return {
+      ...point,
+      back_calculated: backCalculated === null ? null : Number(backCalculated.toPrecision(6)),
+      accuracy: accuracy === null ? null : Number(accuracy.toFixed(2)),
+      passed: !point.is_excluded && accuracy !== null && Math.abs(accuracy - 100) <= tolerance
+    };
+  });
+
+  const passedPoints = evaluated.filter(point => point.passed);
+  const failureReasons: string[] = [];
+
+  if (included.length < acceptance.min_levels) {
+    failureReasons.push(`参与拟合的校准品${included.length}个，少于${acceptance.min_levels}个`);
+  }
+  if (r_squared < acceptance.min_r_squared) {
+    failureReasons.push(`r²=${r_squared.toFixed(4)}，低于${acceptance.min_r_squared}`);
+  }
+  if (passedPoints.length < included.length * acceptance.min_pass_ratio) {
+    failureReasons.push(
+      `回算准确度合格的校准品${passedPoints.length}/${included.length}个，低于${Math.round(acceptance.min_pass_ratio * 100)}%`
+    );
+  }
+
+  const passedConcentrations = passedPoints.map(point => point.nominal_concentration);
+
+  return {
+    coefficients,
+    r_squared: Number(r_squared.toFixed(6)),
+    points: evaluated,
+    lloq: passedConcentrations.length > 0 ? Math.min(...passedConcentrations) : null,
+    uloq: passedConcentrations.length > 0 ? Math.max(...passedConcentrations) : null,
+    status: (failureReasons.length === 0 ? 'passed' : 'failed') as 'passed' | 'failed',
+    failure_reasons: failureReasons
+  };
+};
+
+/**
+ * 获取校准曲线
+ * @param id 曲线ID
+ * @returns 曲线及校准品
+ */
+export const getCalibrationCurve = async (id: string): Promise<CalibrationCurveRecord> => {
+  const { data, error } = await supabase
+    .from('calibration_curves')
+    .select('*, test_items(id, code, name, unit), calibration_points(*)')
+    .eq('id', id)
+    .order('sort_order', { referencedTable: 'calibration_points', ascending: true })
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('校准曲线不存在');
+  }
+
+  return data as CalibrationCurveRecord;
+};
+
+/**
+ * 获取质谱定量检测项目
+ * @returns 启用且有单位的质谱检测项目
+ */
+export const listQuantitativeItems = async () => {
+  const { data, error } = await supabase
+    .from('test_items')
+    .select('id, code, name, unit')
+    .eq('method', 'mass_spec')
+    .eq('is_active', true)
+    .not('unit', 'is', null)
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    logger.error('获取质谱定量项目失败:', error);
+    throw new DatabaseError('获取质谱定量项目失败');
+  }
+
+  return data || [];
+};
+
+/**
+ * 获取可建立校准曲线的检测项目
+ * @description 仅质谱定量项目（有单位）可建立校准曲线
+ * @param itemId 检测项目ID
+ * @returns 检测项目
+ */
+const getQuantitativeItem = async (itemId: string) => {
+  const { data: item, error } = await supabase
+    .from('test_items')
+    .select('id, code, name, unit, method, is_active')
+    .eq('id', itemId)
+    .single();
+
+  if (error || !item) {
+    throw new NotFoundError('检测项目不存在');
+  }
+  if (item.method !== 'mass_spec' || !item.unit) {
+    throw new ValidationError(`检测项目「${item.name}」不是质谱定量项目`);
+  }
+
+  return item;
+};
+
+/**
+ * 获取按校准曲线定量的实验结果
+ * @param curveId 校准曲线ID
+ * @returns 实验数据ID及所属实验的审核状态
+ */
+const getCurveResults = async (curveId: string) => {
+  const { data, error } = await supabase
+    .from('experiment_data')
+    .select('id, experiments!inner(experiment_no, review_status)')
+    .eq('instrument_data->>calibration_curve_id', curveId);
+
+  if (error) {
+    logger.error('查询定量结果失败:', error);
+    throw new DatabaseError('查询定量结果失败');
+  }
+
+  return (data || []).map(row => {
+    const experiment = Array.isArray(row.experiments) ? row.experiments[0] : row.experiments;
+    return {
+      id: row.id as string,
+      experiment_no: experiment?.experiment_no as string,
+      review_status: experiment?.review_status as string | null
+    };
+  });
+};
+
+/**
+ * 保存校准曲线
+ * @description 同一批次同一检测项目只保留一条曲线，重新保存时重新拟合判定；按原曲线定量的结果清除后需重新定量，
+ * 已提交审核的须先驳回
+ * @param input 校准曲线参数
+ * @param operatorId 操作人ID
+ * @returns 保存后的曲线
+ */
+export const saveCalibrationCurve = async (input: CalibrationCurveInput, operatorId?: string) => {
+  await getQuantitativeItem(input.item_id);
+
+  const { count, error: batchError } = await supabase
+    .from('experiments')
+    .select('id', { count: 'exact', head: true })
+    .eq('batch_no', input.batch_no)
+    .eq('method', 'mass_spec');
+
+  if (batchError) {
+    logger.error('查询实验批次失败:', batchError);
+    throw new DatabaseError('查询实验批次失败');
+  }
+  if (!count) {
+    throw new NotFoundError(`质谱实验批次 ${input.batch_no} 不存在`);
+  }
+
+  const acceptance = await getCalibrationAcceptance();
+  const evaluation = evaluateCalibration(input, acceptance);
+  const now = new Date().toISOString();
+
+  const { data: existing } = await supabase
+    .from('calibration_curves')
+    .select('id')
+    .eq('batch_no', input.batch_no)
+    .eq('item_id', input.item_id)
+    .maybeSingle();
+
+  // 重新拟合后按原曲线定量的结果失效，已提交审核的须先驳回
+  const derivedResults = existing ? await getCurveResults(existing.id) : [];
+  const submitted = derivedResults
+    .filter(result => result.review_status && ['pending', 'approved', 'on_hold'].includes(result.review_status))
+    .map(result => result.experiment_no);
+
+  if (submitted.length > 0) {
+    throw new ConflictError('按该曲线定量的实验已提交审核，须先驳回审核再修改曲线', { experiments: [...new Set(submitted)] });
+  }
+
+  const row = {
+    batch_no: input.batch_no,
+    item_id: input.item_id,
+    fit_type: input.fit_type,
+    weighting: input.weighting,
+    use_internal_standard: input.use_internal_standard,
+    intercept: evaluation.coefficients.intercept,
+    slope: evaluation.coefficients.slope,
+    quadratic: evaluation.coefficients.quadratic,
+    r_squared: evaluation.r_squared,
+    lloq: evaluation.lloq,
+    uloq: evaluation.uloq,
+    status: evaluation.status,
+    failure_reasons: evaluation.failure_reasons,
+    acceptance,
+    quantified_at: null,
+    quantified_by: null,
+    remarks: input.remarks || null,
+    updated_at: now,
+    updated_by: operatorId
+  };
+
+  const { data: curve, error } = existing
+    ? await supabase.from('calibration_curves').update(row).eq('id', existing.id).select('id').single()
+    : await supabase.from('calibration_curves').insert({ ...row, created_by: operatorId }).select('id').single();
+
+  if (error || !curve) {
+    if (error?.code === '23505') {
+      throw new ConflictError('该批次该检测项目的校准曲线已被其他操作创建，请刷新后重试');
+    }
+    logger.error('保存校准曲线失败:', error);
+    throw new DatabaseError('保存校准曲线失败');
+  }
+
+  const { error: deleteError } = await supabase
+    .from('calibration_points')
+    .delete()
+    .eq('curve_id', curve.id);
+
+  if (deleteError) {
+    logger.error('更新校准品失败:', deleteError);
+    throw new DatabaseError('更新校准品失败');
+  }
+
+  const { error: pointError } = await supabase
+    .from('calibration_points')
+    .insert(evaluation.points.map(point => ({
+      curve_id: curve.id,
+      level: point.level,
+      nominal_concentration: point.nominal_concentration,
+      analyte_area: point.analyte_area,
+      is_area: point.is_area || null,
+      response: point.response,
+      back_calculated: point.back_calculated,
+      accuracy: point.accuracy,
+      is_excluded: point.is_excluded,
+      passed: point.passed,
+      sort_order: point.sort_order
+    })));
+
+  if (pointError) {
+    logger.error('保存校准品失败:', pointError);
+    throw new DatabaseError('保存校准品失败');
+  }
+
+  if (derivedResults.length > 0) {
+    const { error: resultError } = await supabase
+      .from('experiment_data')
+      .delete()
+      .in('id', derivedResults.map(result => result.id));
+
+    if (resultError) {
+      logger.error('清除原曲线定量结果失败:', resultError);
+      throw new DatabaseError('清除原曲线定量结果失败');
+    }
+
+    logger.info(`校准曲线已重新拟合，清除原定量结果${derivedResults.length}个`, { curveId: curve.id, operatorId });
+  }
+
+  logger.info(`校准曲线已保存: 批次${input.batch_no}，判定${evaluation.status}`, { itemId: input.item_id, operatorId });
+  return getCalibrationCurve(curve.id);
+};
+
+/**
+ * 浓度保留4位有效数字
+ * @param value 浓度
+ * @returns 结果文本
+ */
+const formatConcentration = (value: number) => String(Number(value.toPrecision(4)));
+
+/**
+ * 校验未知样本定量
+ * @description 样本按实验编号、样本条码或样本编号在曲线所属批次中匹配；低于定量下限的结果报告为 <LLOQ，
+ * 高于定量上限的报告为 >ULOQ，须稀释后重新测定才能提交审核
+ * @param curve 校准曲线
+ * @param rows 未知样本峰面积
+ * @returns 定量结果及行级错误
+ */
+export const validateQuantitation = async (curve: CalibrationCurveRecord, rows: UnknownInput[]) => {
+  if (curve.status !== 'passed') {
+    throw new ConflictError('校准曲线不合格，不能用于定量');
+  }
+
+  const { data: experiments, error } = await supabase
+    .from('experiments')
+    .select('id, experiment_no, sample_id, product_id, method, status, samples(sample_no, barcode)')
+    .eq('batch_no', curve.batch_no)
+    .eq('method', 'mass_spec');
+
+  if (error) {
+    logger.error('查询批次实验失败:', error);
+    throw new DatabaseError('查询批次实验失败');
+  }
+
+  const coefficients: CurveCoefficients = {
+    intercept: Number(curve.intercept),
+    slope: Number(curve.slope),
+    quadratic: Number(curve.quadratic || 0)
+  };
+  const lloq = Number(curve.lloq);
+  const uloq = Number(curve.uloq);
+  const productItems = new Map<string, boolean>();
+  const seen = new Set<string>();
+  const errors: { row_no: number; sample_key: string; message: string }[] = [];
+  const results: {
+    row_no: number;
+    sample_key: string;
+    experiment_id: string;
+    experiment_no: string;
+    sample_id: string;
+    product_id: string;
+    status: string;
+    analyte_area: number;
+    is_area: number | null;
+    response: number;
+    concentration: string;
+    range_flag: 'below_lloq' | 'above_uloq' | null;
+    result_value: string;
+  }[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const rowNo = index + 1;
+    const key = row.sample_key.trim();
+    const fail = (message: string) => errors.push({ row_no: rowNo, sample_key: key, message });
+
+    const experiment = (experiments || []).find(item => {
+      const sample = Array.isArray(item.samples) ? item.samples[0] : item.samples;
+      return item.experiment_no === key || sample?.barcode === key || sample?.sample_no === key;
+    });
+
+    if (!experiment) {
+      fail(`批次${curve.batch_no}中没有该样本的质谱实验`);
+      continue;
+    }
+    if (seen.has(experiment.id)) {
+      fail('同一样本重复出现');
+      continue;
+    }
+    seen.add(experiment.id);
+
+    if (!['pending', 'in_progress'].includes(experiment.status)) {
+      fail(`实验${experiment.experiment_no}已完成或已取消，不能写入结果`);
+      continue;
+    }
+
+    if (!productItems.has(experiment.product_id)) {
+      const items = await getProductItems(experiment.product_id);
+      productItems.set(experiment.product_id, items.some(item => item.id === curve.item_id));
+    }
+    if (!productItems.get(experiment.product_id)) {
+      fail(`实验${experiment.experiment_no}的检测产品不包含该检测项目`);
+      continue;
+    }
+
+    const response = calculateResponse(row.analyte_area, row.is_area, curve.use_internal_standard);
+    if (response === null) {
+      fail('缺少内标峰面积');
+      continue;
+    }
+
+    const concentration = backCalculate(coefficients, response);
+    if (concentration === null || concentration < 0) {
+      fail('响应超出校准曲线可计算范围');
+      continue;
+    }
+
+    const rangeFlag = concentration < lloq ? 'below_lloq' : concentration > uloq ? 'above_uloq' : null;
+    results.push({
+      row_no: rowNo,
+      sample_key: key,
+      experiment_id: experiment.id,
+      experiment_no: experiment.experiment_no,
+      sample_id: experiment.sample_id,
+      product_id: experiment.product_id,
+      status: experiment.status,
+      analyte_area: row.analyte_area,
+      is_area: row.is_area ?? null,
+      response: Number(response.toPrecision(8)),
+      concentration: formatConcentration(concentration),
+      range_flag: rangeFlag,
+      // 超出定量范围的不报具体浓度
+      result_value: rangeFlag === 'below_lloq'
+        ? `<${formatConcentration(lloq)}`
+        : rangeFlag === 'above_uloq' ? `>${formatConcentration(uloq)}` : formatConcentration(concentration)
+    });
+  }
+
+  return {
+    total_rows: rows.length,
+    quantified_count: results.length,
+    out_of_range_count: results.filter(result => result.range_flag).length,
+    error_count: errors.length,
+    errors,
+    results
+  };
+};
+
+/**
+ * 定量未知样本并写入实验结果
+ * @param curve 校准曲线
+ * @param validation 校验通过的定量结果
+ * @param operatorId 操作人ID
+ * @returns 写入的结果数
+ */
+export const quantifyUnknowns = async (
+  curve: CalibrationCurveRecord,
+  validation: Awaited<ReturnType<typeof validateQuantitation>>,
+  operatorId?: string
+) => {
+  const measuredAt = new Date().toISOString();
+
+  for (const result of validation.results) {
+    const target = {
+      id: result.experiment_id,
+      experiment_no: result.experiment_no,
+      sample_id: result.sample_id,
+      product_id: result.product_id,
+      method: 'mass_spec' as const
+    };
+
+    if (result.status === 'pending') {
+      await startExperiment(target, operatorId);
+    }
+
+    await saveExperimentResults(
+      target,
+      [{
+        item_id: curve.item_id,
+        result_value: result.result_value,
+        measured_at: measuredAt,
+        instrument_data: {
+          calibration_curve_id: curve.id,
+          batch_no: curve.batch_no,
+          analyte_area: result.analyte_area,
+          is_area: result.is_area,
+          response: result.response,
+          concentration: result.concentration,
+          range_flag: result.range_flag
+        }
+      }],
+      operatorId
+    );
+  }
+
+  const { error } = await supabase
+    .from('calibration_curves')
+    .update({ quantified_at: measuredAt, quantified_by: operatorId })
+    .eq('id', curve.id);
+
+  if (error) {
+    logger.error('更新校准曲线定量时间失败:', error);
+  }
+
+  logger.info(`未知样本已定量: 批次${curve.batch_no}，${validation.quantified_count}个样本`, {
+    curveId: curve.id,
+    operatorId
+  });
+
+  return validation.quantified_count;
+};
@@ -0,0 +1,587 @@
+/**
+ * 化合物比对工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：化合物库维护；质谱峰按加合离子理论m/z的ppm偏差和保留时间偏差与化合物库比对打分，
+ * 最高分达到阈值时给出建议鉴定，审核人员确认候选或人工改判
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+
+/**
+ * 加合离子：m/z = (M × multiplier + shift) / charge
+ */
+export const ADDUCTS: Record<string, { multiplier: number; shift: number; charge: number }> = {
+  '[M+H]+': { multiplier: 1, shift: 1.007276, charge: 1 },
+  '[M+Na]+': { multiplier: 1, shift: 22.989218, charge: 1 },
+  '[M+K]+': { multiplier: 1, shift: 38.963158, charge: 1 },
+  '[M+NH4]+': { multiplier: 1, shift: 18.033823, charge: 1 },
+  '[M+2H]2+': { multiplier: 1, shift: 2.014552, charge: 2 },
+  '[M-H]-': { multiplier: 1, shift: -1.007276, charge: 1 },
+  '[M+Cl]-': { multiplier: 1, shift: 34.969402, charge: 1 },
+  '[M+HCOO]-': { multiplier: 1, shift: 44.998201, charge: 1 }
+};
+
+/**
+ * 鉴定状态：unmatched-无匹配，suggested-待确认，accepted-已确认，overridden-人工改判
+ */
+export type AnnotationStatus = 'unmatched' | 'suggested' | 'accepted' | 'overridden';
+
+/**
+ * 化合物比对参数
+ */
+export interface CompoundMatchingConfig {
+  ppm_tolerance: number;
+  rt_tolerance: number;
+  mass_weight: number;
+  min_score: number;
+  max_candidates: number;
+}
+
+/**
+ * 化合物保存参数
+ */
+export interface CompoundInput {
+  name: string;
+  formula: string;
+  monoisotopic_mass: number;
+  expected_rt?: number | null;
+  adducts: string[];
+  cas_no?: string | null;
+  category?: string | null;
+  is_active?: boolean;
+  remarks?: string | null;
+}
+
+/**
+ * 上传的质谱峰
+ */
+export interface PeakInput {
+  peak_no: string;
+  mz: number;
+  intensity: number;
+  retention_time: number;
+  notes?: string | null;
+}
+
+/**
+ * 比对候选
+ */
+export interface MatchCandidate {
+  compound_id: string;
+  name: string;
+  formula: string;
+  adduct: string;
+  theoretical_mz: number;
+  ppm_error: number;
+  rt_delta: number | null;
+  score: number;
+}
+
+/**
+ * 人工改判参数
+ */
+export interface PeakOverrideInput {
+  compound_id?: string | null;
+  compound?: string | null;
+  formula?: string | null;
+  adduct?: string | null;
+  confidence: number;
+  notes?: string | null;
+}
+
+/**
+ * 参与比对的化合物
+ */
+type LibraryCompound = {
+  id: string;
+  name: string;
+  formula: string;
+  monoisotopic_mass: number;
+  expected_rt: number | null;
+  adducts: string[];
+};
+
+/**
+ * 默认比对参数
+ */
+export const DEFAULT_COMPOUND_MATCHING: CompoundMatchingConfig = {
+  ppm_tolerance: 10,
+  rt_tolerance: 0.5,
+  mass_weight: 0.7,
+  min_score: 60,
+  max_candidates: 5
+};
+
+/**
+ * 获取化合物比对参数
+ * @returns 比对参数，未配置的项使用默认值
+ */
+export const getCompoundMatchingConfig = async (): Promise<CompoundMatchingConfig> => {
+  const config = await getConfigValue<Partial<CompoundMatchingConfig>>('ms.compound_matching', {});
+  return { ...DEFAULT_COMPOUND_MATCHING, ...(config || {}) };
+};
+
+/**
+ * 计算加合离子理论m/z
+ * @param monoisotopicMass 中性分子单同位素质量
+ * @param adduct 加合离子
+ * @returns 理论m/z，未知加合离子时为空
+ */
+export const calculateAdductMz = (monoisotopicMass: number, adduct: string): number | null => {
+  const definition = ADDUCTS[adduct];
+  if (!definition) {
+    return null;
+  }
+  return (monoisotopicMass * definition.multiplier + definition.shift) / definition.charge;
+};
+
+/**
+ * 将质谱峰与化合物库比对
+ * @description 质量得分和保留时间得分按偏差占容差的比例线性递减，超出任一容差的不作为候选；
+ * 化合物未维护预期保留时间时保留时间得分按一半计
+ * @param peak 质谱峰
+ * @param compounds 化合物库
+ * @param config 比对参数
+ * @returns 按得分降序的候选
+ */
+export const matchPeak = (
+  peak: Pick<PeakInput, 'mz' | 'retention_time'>,
+  compounds: LibraryCompound[],
+  config: CompoundMatchingConfig
+): MatchCandidate[] => {
+  const candidates: MatchCandidate[] = [];
+  const massWeight = Math.min(Math.max(config.mass_weight, 0), 1);
+
+  compounds.forEach(compound => {
+    let rtDelta: number | null = null;
+    let rtScore = 0.5;
+
+    if (compound.expected_rt !== null && compound.expected_rt !== undefined) {
+      rtDelta = Number(peak.retention_time) - Number(compound.expected_rt);
+      if (Math.abs(rtDelta) > config.rt_tolerance) {
+        return;
+      }
+      rtScore = config.rt_tolerance > 0 ? 1 - Math.abs(rtDelta) / config.rt_tolerance : 1;
+    }
+
+    (compound.adducts || []).forEach(adduct => {
+      const theoreticalMz = calculateAdductMz(Number(compound.monoisotopic_mass), adduct);
+      if (!theoreticalMz) {
+        return;
+      }
+
+      const ppmError = ((Number(peak.mz) - theoreticalMz) / theoreticalMz) * 1e6;
+      if (Math.abs(ppmError) > config.ppm_tolerance) {
+        return;
+      }
+
+      const massScore = 1 - Math.abs(ppmError) / config.ppm_tolerance;
+      candidates.push({
+        compound_id: compound.id,
+        name: compound.name,
+        formula: compound.formula,
+        adduct,
+        theoretical_mz: Number(theoreticalMz.toFixed(6)),
+        ppm_error: Number(ppmError.toFixed(2)),
+        rt_delta: rtDelta === null ? null : Number(rtDelta.toFixed(3)),
+        score: Number((100 * (massWeight * massScore + (1 - massWeight) * rtScore)).toFixed(1))
+      });
+    });
+  });
+
+  return candidates
+    .sort((a, b) => b.score - a.score || Math.abs(a.ppm_error) - Math.abs(b.ppm_error))
+    .slice(0, config.max_candidates);
+};
+
+/**
+ * 按比对候选生成鉴定结果
+ * @param candidates 比对候选
+ * @param config 比对参数
+ * @returns 质谱峰的鉴定字段
+ */
+export const annotateFromCandidates = (candidates: MatchCandidate[], config: CompoundMatchingConfig) => {
+  const best = candidates[0];
+
+  if (!best || best.score < config.min_score) {
+    return {
+      compound_id: null,
+      compound: null,
+      formula: null,
+      adduct: null,
+      confidence: null,
+      candidates,
+      annotation_status: 'unmatched' as AnnotationStatus
+    };
+  }
+
+  return {
+    compound_id: best.compound_id,
+    compound: best.name,
+    formula: best.formula,
+    adduct: best.adduct,
+    confidence: best.score,
+    candidates,
+    annotation_status: 'suggested' as AnnotationStatus
+  };
+};
+
+/**
+ * 校验加合离子
+ * @param adducts 加合离子
+ */
+const assertKnownAdducts = (adducts: string[]) => {
+  const unknown = adducts.filter(adduct => !ADDUCTS[adduct]);
+  if (unknown.length > 0) {
+    throw new ValidationError(`不支持的加合离子：${unknown.join('、')}`);
+  }
+};
+
+/**
+ * 获取化合物
+ * @param id 化合物ID
+ * @returns 化合物
+ */
+export const getCompound = async (id: string) => {
+  const { data, error } = await supabase
+    .from('compounds')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('化合物不存在');
+  }
+
+  return data;
+};
+
+/**
+ * 保存化合物
+ * @param id 化合物ID，为空时新建
+ * @param input 化合物参数
+ * @param operatorId 操作人ID
+ * @returns 保存后的化合物
+ */
+export const saveCompound = async (id: string | null, input: CompoundInput, operatorId?: string) => {
+  assertKnownAdducts(input.adducts);
+
+  if (id) {
+    await getCompound(id);
+  }
+
+  const now = new Date().toISOString();
+  const row = {
+    name: input.name,
+    formula: input.formula,
+    monoisotopic_mass: input.monoisotopic_mass,
+    expected_rt: input.expected_rt ?? null,
+    adducts: Array.from(new Set(input.adducts)),
+    cas_no: input.cas_no || null,
+    category: input.category || null,
+    is_active: input.is_active ?? true,
+    remarks: input.remarks || null,
+    updated_at: now,
+    updated_by: operatorId
+  };
+
+  const { data, error } = id
+    ? await supabase.from('compounds').update(row).eq('id', id).select('*').single()
+    : await supabase.from('compounds').insert({ ...row, created_by: operatorId }).select('*').single();
+
+  if (error || !data) {
+    if (error?.code === '23505') {
+      throw new ConflictError(`化合物「${input.name}」已存在`);
+    }
+    logger.error('保存化合物失败:', error);
+    throw new DatabaseError('保存化合物失败');
+  }
+
+  logger.info(`化合物已保存: ${input.name}`, { compoundId: data.id, operatorId });
+  return data;
+};
+
+/**
+ * 获取参与比对的化合物
+ * @returns 启用的化合物
+ */
+const getActiveCompounds = async (): Promise<LibraryCompound[]> => {
+  const { data, error } = await supabase
+    .from('compounds')
+    .select('id, name, formula, monoisotopic_mass, expected_rt, adducts')
+    .eq('is_active', true);
+
+  if (error) {
+    logger.error('获取化合物库失败:', error);
+    throw new DatabaseError('获取化合物库失败');
+  }
+
+  return data || [];
+};
+
+/**
+ * 获取质谱实验
+ * @param experimentId 实验ID
+ * @returns 实验
+ */
+const getMassSpecExperiment = async (experimentId: string) => {
+  const { data: experiment, error } = await supabase
+    .from('experiments')
+    .select('id, experiment_no, method, status, review_status')
+    .eq('id', experimentId)
+    .single();
+
+  if (error || !experiment) {
+    throw new NotFoundError('实验不存在');
+  }
+  if (experiment.method !== 'mass_spec') {
+    throw new ValidationError(`实验 ${experiment.experiment_no} 不是质谱实验`);
+  }
+
+  return experiment;
+};
+
+/**
+ * 获取实验的质谱峰
+ * @param experimentId 实验ID
+ * @returns 按保留时间排序的质谱峰
+ */
+export const listPeaks = async (experimentId: string) => {
+  const experiment = await getMassSpecExperiment(experimentId);
+
+  const { data, error } = await supabase
+    .from('mass_spec_peaks')
+    .select('*, reviewer:users!mass_spec_peaks_reviewed_by_fkey(id, real_name)')
+    .eq('experiment_id', experimentId)
+    .order('retention_time', { ascending: true });
+
+  if (error) {
+    logger.error('获取质谱峰失败:', error);
+    throw new DatabaseError('获取质谱峰失败');
+  }
+
+  return { experiment, peaks: data || [] };
+};
+
+/**
+ * 上传质谱峰并比对化合物库
+ * @description 重新上传时替换该实验已有的质谱峰（包括已确认的鉴定）；审核通过或已取消的实验不能上传
+ * @param experimentId 实验ID
+ * @param peaks 质谱峰
+ * @param operatorId 操作人ID
+ * @returns 上传汇总
+ */
+export const uploadPeaks = async (experimentId: string, peaks: PeakInput[], operatorId?: string) => {
+  const experiment = await getMassSpecExperiment(experimentId);
+
+  if (experiment.status === 'cancelled' || ['approved', 'on_hold'].includes(experiment.review_status)) {
+    throw new ValidationError(`实验 ${experiment.experiment_no} 已取消或已审核通过，不能上传质谱峰`);
+  }
+
+  const duplicated = peaks
+    .map(peak => peak.peak_no)
+    .filter((peakNo, index, list) => list.indexOf(peakNo) !== index);
+  if (duplicated.length > 0) {
+    throw new ValidationError(`峰编号重复：${Array.from(new Set(duplicated)).join('、')}`);
+  }
+
+  const [compounds, config] = await Promise.all([getActiveCompounds(), getCompoundMatchingConfig()]);
+
+  const { error: deleteError } = await supabase
+    .from('mass_spec_peaks')
+    .delete()
+    .eq('experiment_id', experimentId);
+
+  if (deleteError) {
+    logger.error('清除质谱峰失败:', deleteError);
+    throw new DatabaseError('清除质谱峰失败');
+  }
+
+  const rows = peaks.map(peak => ({
+    experiment_id: experimentId,
+    peak_no: peak.peak_no,
+    mz: peak.mz,
+    intensity: peak.intensity,
+    retention_time: peak.retention_time,
+    notes: peak.notes || null,
+    ...annotateFromCandidates(matchPeak(peak, compounds, config), config),
+    created_by: operatorId,
+    updated_by: operatorId
+  }));
+
+  const { error } = await supabase.from('mass_spec_peaks').insert(rows);
+
+  if (error) {
+    logger.error('保存质谱峰失败:', error);
+    throw new DatabaseError('保存质谱峰失败');
+  }
+
+  const suggestedCount = rows.filter(row => row.annotation_status === 'suggested').length;
+  logger.info(`质谱峰已上传: ${experiment.experiment_no}，共${rows.length}个，建议鉴定${suggestedCount}个`, { operatorId });
+
+  return {
+    total: rows.length,
+    suggested_count: suggestedCount,
+    unmatched_count: rows.length - suggestedCount
+  };
+};
+
+/**
+ * 重新比对化合物库
+ * @description 化合物库更新后使用，已确认和人工改判的质谱峰保持不变
+ * @param experimentId 实验ID
+ * @param operatorId 操作人ID
+ * @returns 重新比对的质谱峰数
+ */
+export const rematchPeaks = async (experimentId: string, operatorId?: string) => {
+  await getMassSpecExperiment(experimentId);
+
+  const { data: peaks, error } = await supabase
+    .from('mass_spec_peaks')
+    .select('id, mz, retention_time')
+    .eq('experiment_id', experimentId)
+    .in('annotation_status', ['unmatched', 'suggested']);
+
+  if (error) {
+    logger.error('获取质谱峰失败:', error);
+    throw new DatabaseError('获取质谱峰失败');
+  }
+
+  const [compounds, config] = await Promise.all([getActiveCompounds(), getCompoundMatchingConfig()]);
+  const now = new Date().toISOString();
+
+  const results = await Promise.all((peaks || []).map(peak =>
+    supabase
+      .from('mass_spec_peaks')
+      .update({
+        ...annotateFromCandidates(matchPeak(peak, compounds, config), config),
+        updated_at: now,
+        updated_by: operatorId
+      })
+      .eq('id', peak.id)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed) {
+    logger.error('更新质谱峰鉴定失败:', failed.error);
+    throw new DatabaseError('更新质谱峰鉴定失败');
+  }
+
+  return (peaks || []).length;
+};
+
+/**
+ * 获取质谱峰
+ * @param id 质谱峰ID
+ * @returns 质谱峰
+ */
+const getPeak = async (id: string) => {
+  const { data, error } = await supabase
+    .from('mass_spec_peaks')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('质谱峰不存在');
+  }
+
+  return data;
+};
+
+/**
+ * 更新质谱峰鉴定
+ * @param id 质谱峰ID
+ * @param changes 鉴定字段
+ * @param reviewerId 审核人ID
+ * @returns 更新后的质谱峰
+ */
+const updateAnnotation = async (id: string, changes: Record<string, unknown>, reviewerId?: string) => {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('mass_spec_peaks')
+    .update({
+      ...changes,
+      reviewed_by: reviewerId,
+      reviewed_at: now,
+      updated_at: now,
+      updated_by: reviewerId
+    })
+    .eq('id', id)
+    .select('*, reviewer:users!mass_spec_peaks_reviewed_by_fkey(id, real_name)')
+    .single();
+
+  if (error || !data) {
+    logger.error('更新质谱峰鉴定失败:', error);
+    throw new DatabaseError('更新质谱峰鉴定失败');
+  }
+
+  return data;
+};
+
+/**
+ * 确认比对候选
+ * @param id 质谱峰ID
+ * @param candidateIndex 候选序号，默认得分最高的候选
+ * @param reviewerId 审核人ID
+ * @returns 更新后的质谱峰
+ */
+export const acceptCandidate = async (id: string, candidateIndex: number, reviewerId?: string) => {
+  const peak = await getPeak(id);
+  const candidate: MatchCandidate | undefined = (peak.candidates || [])[candidateIndex];
+
+  if (!candidate) {
+    throw new ValidationError(`质谱峰 ${peak.peak_no} 没有可确认的比对候选`);
+  }
+
+  logger.info(`质谱峰鉴定已确认: ${peak.peak_no} → ${candidate.name} ${candidate.adduct}`, { peakId: id, reviewerId });
+  return updateAnnotation(id, {
+    compound_id: candidate.compound_id,
+    compound: candidate.name,
+    formula: candidate.formula,
+    adduct: candidate.adduct,
+    confidence: candidate.score,
+    annotation_status: 'accepted'
+  }, reviewerId);
+};
+
+/**
+ * 人工改判鉴定
+ * @description 选择化合物库中的化合物时名称和分子式取自化合物库，否则按填写的化合物名称记录
+ * @param id 质谱峰ID
+ * @param input 改判参数
+ * @param reviewerId 审核人ID
+ * @returns 更新后的质谱峰
+ */
+export const overrideAnnotation = async (id: string, input: PeakOverrideInput, reviewerId?: string) => {
+  const peak = await getPeak(id);
+
+  if (input.adduct) {
+    assertKnownAdducts([input.adduct]);
+  }
+
+  let compound = { id: null as string | null, name: input.compound || null, formula: input.formula || null };
+  if (input.compound_id) {
+    const libraryCompound = await getCompound(input.compound_id);
+    compound = { id: libraryCompound.id, name: libraryCompound.name, formula: libraryCompound.formula };
+  }
+  if (!compound.name) {
+    throw new ValidationError('请选择化合物或填写化合物名称');
+  }
+
+  logger.info(`质谱峰鉴定已改判: ${peak.peak_no} → ${compound.name}`, { peakId: id, reviewerId });
+  return updateAnnotation(id, {
+    compound_id: compound.id,
+    compound: compound.name,
+    formula: compound.formula,
+    adduct: input.adduct || null,
+    confidence: input.confidence,
+    annotation_status: 'overridden',
+    notes: input.notes ?? peak.notes
+  }, reviewerId);
+};
@@ -0,0 +1,1607 @@
+/**
+ * 异常与CAPA管理工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：实验、样本、设备、环境异常统一登记，按 登记→调查→整改→验证→关闭 流转；调查确认根本原因后制定纠正/预防措施，
+ * 措施完成后做有效性验证，全部有效后由主管签字关闭；每次流转写入异常处理记录，可导出CAPA台账
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  DatabaseError,
+  AuthorizationError
+} from '../middleware/enhancedErrorHandler.js';
+import { createNotification } from './notification.js';
+import { getConfigValue } from './systemConfig.js';
+import { EXPERIMENT_METHOD_TEXT, type ExperimentMethod } from './experimentResults.js';
+
+/**
+ * 异常来源
+ */
+export type ExceptionSourceType = 'experiment' | 'sample' | 'equipment' | 'environment';
+
+/**
+ * 异常来源中文名称
+ */
+export const EXCEPTION_SOURCE_TEXT: Record<ExceptionSourceType, string> = {
+  experiment: '实验',
+  sample: '样本',
+  equipment: '设备',
+  environment: '环境'
+};
+
+/**
+ * 异常严重程度
+ */
+export type ExceptionSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * 异常严重程度中文名称
+ */
+export const EXCEPTION_SEVERITY_TEXT: Record<ExceptionSeverity, string> = {
+  low: '低',
+  medium: '中',
+  high: '高',
+  critical: '严重'
+};
+
+/**
+ * 异常状态
+ */
+export type ExceptionStatus = 'open' | 'investigating' | 'action' | 'verification' | 'closed' | 'cancelled';
+
+/**
+ * 异常状态中文名称
+ */
+export const EXCEPTION_STATUS_TEXT: Record<ExceptionStatus, string> = {
+  open: '待处理',
+  investigating: '调查中',
+  action: '整改中',
+  verification: '待验证',
+  closed: '已关闭',
+  cancelled: '已取消'
+};
+
+/**
+ * 未结束的异常状态
+ */
+export const OPEN_EXCEPTION_STATUSES: ExceptionStatus[] = ['open', 'investigating', 'action', 'verification'];
+
+/**
+ * 措施类型
+ */
+export type ExceptionActionType = 'corrective' | 'preventive';
+
+/**
+ * 措施类型中文名称
+ */
+export const EXCEPTION_ACTION_TYPE_TEXT: Record<ExceptionActionType, string> = {
+  corrective: '纠正措施',
+  preventive: '预防措施'
+};
+
+/**
+ * 措施状态
+ */
+export type ExceptionActionStatus = 'open' | 'completed' | 'cancelled';
+
+/**
+ * 措施状态中文名称
+ */
+export const EXCEPTION_ACTION_STATUS_TEXT: Record<ExceptionActionStatus, string> = {
+  open: '执行中',
+  completed: '已完成',
+  cancelled: '已取消'
+};
+
+/**
+ * 有效性验证结果中文名称
+ */
+export const EFFECTIVENESS_TEXT: Record<'effective' | 'ineffective', string> = {
+  effective: '有效',
+  ineffective: '无效'
+};
+
+/**
+ * 实验异常按方法学对应的权限
+ */
+export const EXCEPTION_METHOD_PERMISSIONS: Record<ExperimentMethod, string> = {
+  routine: 'routine.exception',
+  mass_spec: 'mass_spec.exception',
+  special: 'special.exception'
+};
+
+/**
+ * 样本、设备、环境异常对应的权限
+ */
+export const EXCEPTION_SOURCE_PERMISSIONS: Record<Exclude<ExceptionSourceType, 'experiment'>, string> = {
+  sample: 'sample.receive',
+  equipment: 'lab.equipment',
+  environment: 'environment.monitoring'
+};
+
+/**
+ * 任一来源的异常权限
+ */
+export const EXCEPTION_PERMISSIONS = [
+  ...Object.values(EXCEPTION_METHOD_PERMISSIONS),
+  ...Object.values(EXCEPTION_SOURCE_PERMISSIONS)
+];
+
+/**
+ * 可指派调查、签字关闭异常的角色
+ */
+export const EXCEPTION_MANAGER_ROLES = ['admin', 'lab_manager'];
+
+/**
+ * 可做有效性验证的角色
+ */
+export const EFFECTIVENESS_CHECK_ROLES = ['admin', 'lab_manager', 'quality_controller'];
+
+/**
+ * 异常CAPA参数
+ */
+export interface ExceptionCapaConfig {
+  investigation_days: Record<ExceptionSeverity, number>;
+}
+
+/**
+ * 默认异常CAPA参数
+ */
+const DEFAULT_CAPA_CONFIG: ExceptionCapaConfig = {
+  investigation_days: { low: 10, medium: 7, high: 3, critical: 1 }
+};
+
+/**
+ * 操作人
+ */
+export interface ExceptionOperator {
+  id: string;
+  roles: string[];
+}
+
+/**
+ * 登记异常参数
+ */
+export interface CreateExceptionInput {
+  sourceType: ExceptionSourceType;
+  experimentId?: string;
+  sampleId?: string;
+  equipmentId?: string;
+  monitoringPointId?: string;
+  temperatureExcursionId?: string;
+  exceptionType: string;
+  title: string;
+  description: string;
+  severity: ExceptionSeverity;
+  occurredAt?: string;
+  impact?: string;
+  estimatedLoss?: number;
+  operatorId?: string;
+}
+
+/**
+ * 调查记录参数
+ */
+export interface InvestigationInput {
+  investigation?: string;
+  rootCause?: string;
+  impact?: string;
+  actualLoss?: number | null;
+}
+
+/**
+ * 制定措施参数
+ */
+export interface ExceptionActionInput {
+  actionType: ExceptionActionType;
+  description: string;
+  ownerId: string;
+  dueDate: string;
+}
+
+/**
+ * 有效性验证参数
+ */
+export interface EffectivenessInput {
+  effective: boolean;
+  notes?: string;
+  dueDate?: string;
+}
+
+/**
+ * CAPA台账导出条件
+ */
+export interface CapaLogFilter {
+  sourceTypes?: ExceptionSourceType[];
+  methods?: ExperimentMethod[];
+  status?: ExceptionStatus;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+/**
+ * 用户简要信息
+ */
+interface UserBrief {
+  id: string;
+  real_name: string;
+}
+
+/**
+ * 异常记录
+ */
+export interface ExceptionRow {
+  id: string;
+  exception_no: string;
+  source_type: ExceptionSourceType;
+  method: ExperimentMethod | null;
+  experiment_id: string | null;
+  sample_id: string | null;
+  equipment_id: string | null;
+  monitoring_point_id: string | null;
+  temperature_excursion_id: string | null;
+  exception_type: string;
+  title: string | null;
+  exception_desc: string;
+  severity: ExceptionSeverity;
+  status: ExceptionStatus;
+  occurred_at: string | null;
+  assignee_id: string | null;
+  assigned_at: string | null;
+  due_date: string | null;
+  investigation: string | null;
+  root_cause: string | null;
+  impact: string | null;
+  estimated_loss: number | null;
+  actual_loss: number | null;
+  resolution: string | null;
+  resolver_id: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 措施记录
+ */
+export interface ExceptionActionRow {
+  id: string;
+  exception_id: string;
+  action_type: ExceptionActionType;
+  description: string;
+  owner_id: string;
+  due_date: string;
+  status: ExceptionActionStatus;
+  completed_at: string | null;
+  completion_notes: string | null;
+  effectiveness: 'effective' | 'ineffective' | null;
+  effectiveness_checked_by: string | null;
+  effectiveness_checked_at: string | null;
+  effectiveness_notes: string | null;
+  created_at: string;
+  owner?: UserBrief | null;
+  checker?: UserBrief | null;
+}
+
+/**
+ * 异常处理记录
+ */
+export interface ExceptionEventRow {
+  id: string;
+  action_id: string | null;
+  event_type: string;
+  from_status: ExceptionStatus | null;
+  to_status: ExceptionStatus | null;
+  comments: string | null;
+  created_at: string;
+  operator?: UserBrief | null;
+}
+
+/**
+ * 含关联对象、措施及处理记录的异常
+ * @description 列表只查询措施的进度字段
+ */
+export interface ExceptionWithRelations extends ExceptionRow {
+  experiments?: { id: string; experiment_no: string; method: ExperimentMethod; status: string } | null;
+  samples?: { id: string; sample_no: string; barcode: string } | null;
+  equipment?: { id: string; equipment_no: string; name: string; status: string } | null;
+  monitoring_points?: { id: string; point_no: string; name: string; location: string } | null;
+  temperature_excursions?: { id: string; excursion_no: string; status: string } | null;
+  assignee?: UserBrief | null;
+  resolver?: UserBrief | null;
+  exception_actions?: ActionProgress[];
+  exception_events?: ExceptionEventRow[];
+}
+
+/**
+ * 计算逾期和进度所需的措施字段
+ */
+type ActionProgress = Pick<ExceptionActionRow, 'status' | 'due_date'> & Partial<ExceptionActionRow>;
+
+/**
+ * 异常关联对象查询字段
+ */
+const EXCEPTION_SOURCE_FIELDS = `
+  experiments(
+    id,
+    experiment_no,
+    method,
+    status
+  ),
+  samples(
+    id,
+    sample_no,
+    barcode
+  ),
+  equipment(
+    id,
+    equipment_no,
+    name,
+    status
+  ),
+  monitoring_points(
+    id,
+    point_no,
+    name,
+    location
+  ),
+  temperature_excursions(
+    id,
+    excursion_no,
+    status
+  ),
+  assignee:users!experiment_exceptions_assignee_id_fkey(
+    id,
+    real_name
+  ),
+  resolver:users!experiment_exceptions_resolver_id_fkey(
+    id,
+    real_name
+  )
+`;
+
+/**
+ * 异常列表查询字段
+ */
+export const EXCEPTION_LIST_FIELDS = `
+  *,
+  ${EXCEPTION_SOURCE_FIELDS},
+  exception_actions(
+    id,
+    action_type,
+    status,
+    due_date,
+    effectiveness
+  )
+`;
+
+/**
+ * 异常详情查询字段
+ */
+const EXCEPTION_DETAIL_FIELDS = `
+  *,
+  ${EXCEPTION_SOURCE_FIELDS},
+  exception_actions(
+    *,
+    owner:users!exception_actions_owner_id_fkey(
+      id,
+      real_name
+    ),
+    checker:users!exception_actions_effectiveness_checked_by_fkey(
+      id,
+      real_name
+    )
+  ),
+  exception_events(
+    id,
+    action_id,
+    event_type,
+    from_status,
+    to_status,
+    comments,
+    created_at,
+    operator:users(
+      id,
+      real_name
+    )
+  )
+`;
+
+/**
+ * 当天日期
+ * @returns YYYY-MM-DD
+ */
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * 获取异常CAPA参数
+ * @returns CAPA参数，未配置的项使用默认值
+ */
+export const getExceptionCapaConfig = async (): Promise<ExceptionCapaConfig> => {
+  const config = await getConfigValue<Partial<ExceptionCapaConfig>>('exception.capa', {});
+  return {
+    investigation_days: { ...DEFAULT_CAPA_CONFIG.investigation_days, ...(config?.investigation_days || {}) }
+  };
+};
+
+/**
+ * 异常所需的权限
+ * @param exception 含来源和方法学的异常
+ * @returns 权限编码
+ */
+export const exceptionPermission = (exception: { source_type: string; method?: string | null }): string => {
+  if (exception.source_type === 'experiment') {
+    return EXCEPTION_METHOD_PERMISSIONS[exception.method as ExperimentMethod] || EXCEPTION_METHOD_PERMISSIONS.routine;
+  }
+  return EXCEPTION_SOURCE_PERMISSIONS[exception.source_type as Exclude<ExceptionSourceType, 'experiment'>];
+};
+
+/**
+ * 校验用户是否有权处理该异常
+ * @param permissions 用户权限列表
+ * @param exception 含来源和方法学的异常
+ */
+export const assertExceptionPermission = (
+  permissions: string[] = [],
+  exception: { source_type: string; method?: string | null }
+) => {
+  const requiredPermission = exceptionPermission(exception);
+  if (!permissions.includes(requiredPermission)) {
+    throw new AuthorizationError('权限不足', { required_permission: requiredPermission });
+  }
+};
+
+/**
+ * 生成按权限过滤异常的查询条件
+ * @description 实验异常按方法学过滤，其他异常按来源过滤；用于 PostgREST or 查询
+ * @param permissions 用户权限列表
+ * @returns 查询条件，无任何异常权限时为 null
+ */
+export const getExceptionScopeFilter = (permissions: string[] = []): string | null => {
+  const methods = (Object.keys(EXCEPTION_METHOD_PERMISSIONS) as ExperimentMethod[])
+    .filter(method => permissions.includes(EXCEPTION_METHOD_PERMISSIONS[method]));
+  const sources = (Object.keys(EXCEPTION_SOURCE_PERMISSIONS) as Exclude<ExceptionSourceType, 'experiment'>[])
+    .filter(source => permissions.includes(EXCEPTION_SOURCE_PERMISSIONS[source]));
+
+  const conditions: string[] = [];
+  if (methods.length > 0) {
+    conditions.push(`and(source_type.eq.experiment,method.in.(${methods.join(',')}))`);
+  }
+  if (sources.length > 0) {
+    conditions.push(`source_type.in.(${sources.join(',')})`);
+  }
+
+  return conditions.length > 0 ? conditions.join(',') : null;
+};
+
+/**
+ * 生成异常编号
+ * @returns 异常编号
+ */
+const generateExceptionNo = async (): Promise<string> => {
+  const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+  const { data, error } = await supabase
+    .from('experiment_exceptions')
+    .select('exception_no')
+    .like('exception_no', `EX${dateStr}%`)
+    .order('exception_no', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    logger.error('生成异常编号失败:', error);
+    throw new DatabaseError('生成异常编号失败');
+  }
+
+  const last = data?.[0]?.exception_no ? Number(data[0].exception_no.slice(-3)) : 0;
+  return `EX${dateStr}${String(last + 1).padStart(3, '0')}`;
+};
+
+/**
+ * 查询单条记录
+ * @param table 表名
+ * @param id 记录ID
+ * @param fields 查询字段
+ * @param label 记录名称，用于错误提示
+ * @returns 记录
+ */
+const getRecord = async <T>(table: string, id: string, fields: string, label: string): Promise<T> => {
+  const { data, error } = await supabase
+    .from(table)
+    .select(fields)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`获取${label}失败:`, error);
+    throw new DatabaseError(`获取${label}失败`);
+  }
+  if (!data) {
+    throw new NotFoundError(`${label}不存在`);
+  }
+
+  return data as T;
+};
+
+/**
+ * 解析异常关联对象
+ * @description 实验异常带出方法学和样本；环境异常指定温度偏离时带出监控点
+ * @param input 登记参数
+ * @returns 异常关联字段
+ */
+export const resolveExceptionSource = async (input: CreateExceptionInput) => {
+  const source = {
+    source_type: input.sourceType,
+    method: null as ExperimentMethod | null,
+    experiment_id: null as string | null,
+    sample_id: null as string | null,
+    equipment_id: null as string | null,
+    monitoring_point_id: null as string | null,
+    temperature_excursion_id: null as string | null
+  };
+
+  switch (input.sourceType) {
+    case 'experiment': {
+      if (!input.experimentId) {
+        throw new ValidationError('实验异常必须关联实验');
+      }
+      const experiment = await getRecord<{ id: string; method: ExperimentMethod; sample_id: string | null }>(
+        'experiments',
+        input.experimentId,
+        'id, method, sample_id',
+        '实验'
+      );
+      source.experiment_id = experiment.id;
+      source.method = experiment.method;
+      source.sample_id = experiment.sample_id || null;
+      break;
+    }
+    case 'sample': {
+      if (!input.sampleId) {
+        throw new ValidationError('样本异常必须关联样本');
+      }
+      source.sample_id = (await getRecord<{ id: string }>('samples', input.sampleId, 'id', '样本')).id;
+      break;
+    }
+    case 'equipment': {
+      if (!input.equipmentId) {
+        throw new ValidationError('设备异常必须关联设备');
+      }
+      source.equipment_id = (await getRecord<{ id: string }>('equipment', input.equipmentId, 'id', '设备')).id;
+      break;
+    }
+    case 'environment': {
+      if (input.temperatureExcursionId) {
+        const excursion = await getRecord<{ id: string; point_id: string }>('temperature_excursions', input.temperatureExcursionId, 'id, point_id', '温度偏离');
+        if (input.monitoringPointId && input.monitoringPointId !== excursion.point_id) {
+          throw new ValidationError('温度偏离不属于该监控点');
+        }
+        source.temperature_excursion_id = excursion.id;
+        source.monitoring_point_id = excursion.point_id;
+      } else if (input.monitoringPointId) {
+        source.monitoring_point_id = (await getRecord<{ id: string }>('monitoring_points', input.monitoringPointId, 'id', '监控点')).id;
+      } else {
+        throw new ValidationError('环境异常必须关联监控点或温度偏离');
+      }
+      break;
+    }
+  }
+
+  return source;
+};
+
+/**
+ * 异常关联对象名称
+ * @param exception 含关联对象的异常
+ * @returns 关联对象编号
+ */
+export const exceptionSourceLabel = (exception: ExceptionWithRelations): string => {
+  switch (exception.source_type) {
+    case 'experiment':
+      return exception.experiments?.experiment_no || '';
+    case 'sample':
+      return exception.samples?.sample_no || '';
+    case 'equipment':
+      return [exception.equipment?.equipment_no, exception.equipment?.name].filter(Boolean).join(' ');
+    case 'environment':
+      return [exception.monitoring_points?.point_no, exception.temperature_excursions?.excursion_no]
+        .filter(Boolean)
+        .join(' / ');
+    default:
+      return '';
+  }
+};
+
+/**
+ * 措施是否逾期
+ * @param action 措施
+ * @param date 当天日期
+ * @returns 执行中且已过完成期限时为 true
+ */
+const isActionOverdue = (action: ActionProgress, date = today()): boolean => {
+  return action.status === 'open' && Boolean(action.due_date) && action.due_date < date;
+};
+
+/**
+ * 汇总异常的逾期和措施进度
+ * @param exception 含措施的异常
+ * @returns 附 is_overdue、action_summary 的异常
+ */
+export const summarizeException = <T extends ExceptionWithRelations>(exception: T) => {
+  const date = today();
+  const actions = (exception.exception_actions || []).filter(action => action.status !== 'cancelled');
+  const investigationOverdue = ['open', 'investigating'].includes(exception.status)
+    && Boolean(exception.due_date)
+    && String(exception.due_date) < date;
+  const overdueActions = actions.filter(action => isActionOverdue(action, date)).length;
+
+  return {
+    ...exception,
+    is_overdue: investigationOverdue || overdueActions > 0,
+    action_summary: {
+      total: actions.length,
+      open: actions.filter(action => action.status === 'open').length,
+      overdue: overdueActions,
+      completed: actions.filter(action => action.status === 'completed').length,
+      effective: actions.filter(action => action.effectiveness === 'effective').length
+    }
+  };
+};
+
+/**
+ * 获取可处理异常的用户
+ * @description 调查负责人和措施负责人的候选人，须为在用账号且所属角色拥有该异常权限
+ * @param permission 异常权限编码
+ * @returns 用户
+ */
+export const listExceptionHandlers = async (permission: string): Promise<UserBrief[]> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, real_name, user_roles!inner(roles!inner(role_permissions!inner(permissions!inner(code))))')
+    .eq('status', 'active')
+    .eq('user_roles.roles.role_permissions.permissions.code', permission)
+    .order('real_name', { ascending: true });
+
+  if (error) {
+    logger.error('获取异常处理人员失败:', error);
+    throw new DatabaseError('获取异常处理人员失败');
+  }
+
+  return (data || []).map(user => ({ id: user.id, real_name: user.real_name }));
+};
+
+/**
+ * 获取逾期异常ID
+ * @description 调查超过期限，或有执行中措施超过完成期限
+ * @returns 异常ID
+ */
+export const getOverdueExceptionIds = async (): Promise<string[]> => {
+  const date = today();
+
+  const [investigations, actions] = await Promise.all([
+    supabase
+      .from('experiment_exceptions')
+      .select('id')
+      .in('status', ['open', 'investigating'])
+      .lt('due_date', date),
+    supabase
+      .from('exception_actions')
+      .select('exception_id')
+      .eq('status', 'open')
+      .lt('due_date', date)
+  ]);
+
+  if (investigations.error || actions.error) {
+    logger.error('获取逾期异常失败:', investigations.error || actions.error);
+    throw new DatabaseError('获取逾期异常失败');
+  }
+
+  return [...new Set([
+    ...(investigations.data || []).map(item => item.id),
+    ...(actions.data || []).map(item => item.exception_id)
+  ])];
+};
+
+/**
+ * 获取异常基本信息
+ * @param exceptionId 异常ID
+ * @returns 异常
+ */
+export const getExceptionRecord = async (exceptionId: string) => {
+  return getRecord<ExceptionRow>('experiment_exceptions', exceptionId, '*', '异常');
+};
+
+/**
+ * 获取异常详情
+ * @param exceptionId 异常ID
+ * @returns 异常详情，措施按创建时间、处理记录按时间排序
+ */
+export const getException = async (exceptionId: string) => {
+  const data = await getRecord<ExceptionWithRelations>('experiment_exceptions', exceptionId, EXCEPTION_DETAIL_FIELDS, '异常');
+  const date = today();
+
+  data.exception_actions = (data.exception_actions || [])
+    .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))
+    .map(action => ({ ...action, is_overdue: isActionOverdue(action, date) }));
+  data.exception_events = (data.exception_events || [])
+    .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+
+  return summarizeException(data);
+};
+
+/**
+ * 写入异常处理记录
+ * @param event 处理记录
+ */
+const recordExceptionEvent = async (event: {
+  exceptionId: string;
+  eventType: string;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  actionId?: string | null;
+  comments?: string | null;
+  operatorId?: string;
+}) => {
+  const { error } = await supabase
+    .from('exception_events')
+    .insert({
+      exception_id: event.exceptionId,
+      action_id: event.actionId || null,
+      event_type: event.eventType,
+      from_status: event.fromStatus || null,
+      to_status: event.toStatus || null,
+      comments: event.comments || null,
+      operator_id: event.operatorId || null
+    });
+
+  if (error) {
+    logger.error('写入异常处理记录失败:', error);
+    throw new DatabaseError('写入异常处理记录失败');
+  }
+};
+
+/**
+ * 按状态条件更新异常
+ * @param exception 更新前的异常
+ * @param fields 更新字段
+ * @returns 更新后的异常
+ */
+const updateException = async (exception: ExceptionRow, fields: Record<string, unknown>) => {
+  const { data, error } = await supabase
+    .from('experiment_exceptions')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', exception.id)
+    .eq('status', exception.status)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('更新异常失败:', error);
+    throw new ConflictError('异常状态已被其他操作修改，请刷新后重试');
+  }
+
+  return data;
+};
+
+/**
+ * 校验异常处于指定状态
+ * @param exception 异常
+ * @param statuses 允许的状态
+ * @param operation 操作名称
+ */
+const assertExceptionStatus = (exception: ExceptionRow, statuses: ExceptionStatus[], operation: string) => {
+  if (!statuses.includes(exception.status)) {
+    throw new ConflictError(`异常${EXCEPTION_STATUS_TEXT[exception.status as ExceptionStatus]}，不能${operation}`);
+  }
+};
+
+/**
+ * 校验用户存在且在职
+ * @param userId 用户ID
+ * @param label 用户角色名称，用于错误提示
+ * @returns 用户
+ */
+const getActiveUser = async (userId: string, label: string) => {
+  const user = await getRecord<UserBrief & { status: string }>('users', userId, 'id, real_name, status', label);
+  if (user.status !== 'active') {
+    throw new ValidationError(`${label}${user.real_name}账号不可用`);
+  }
+  return user;
+};
+
+/**
+ * 校验日期不早于今天
+ * @param date 日期
+ * @param label 日期名称，用于错误提示
+ */
+const assertNotPast = (date: string, label: string) => {
+  if (date.slice(0, 10) < today()) {
+    throw new ValidationError(`${label}不能早于今天`);
+  }
+};
+
+/**
+ * 登记异常
+ * @description 高和严重级别的异常通知实验室主管
+ * @param input 登记参数
+ * @param permissions 登记人权限，须有关联对象对应的异常权限
+ * @returns 异常详情
+ */
+export const createException = async (input: CreateExceptionInput, permissions: string[] = []) => {
+  const source = await resolveExceptionSource(input);
+  assertExceptionPermission(permissions, source);
+
+  const exceptionNo = await generateExceptionNo();
+
+  const { data, error } = await supabase
+    .from('experiment_exceptions')
+    .insert({
+      ...source,
+      exception_no: exceptionNo,
+      exception_type: input.exceptionType,
+      title: input.title,
+      exception_desc: input.description,
+      severity: input.severity,
+      status: 'open',
+      occurred_at: input.occurredAt || new Date().toISOString(),
+      impact: input.impact || null,
+      estimated_loss: input.estimatedLoss ?? null,
+      created_by: input.operatorId || null,
+      updated_by: input.operatorId || null
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    logger.error('登记异常失败:', error);
+    throw new DatabaseError('登记异常失败');
+  }
+
+  await recordExceptionEvent({
+    exceptionId: data.id,
+    eventType: 'created',
+    toStatus: 'open',
+    comments: input.title,
+    operatorId: input.operatorId
+  });
+
+  if (input.severity === 'high' || input.severity === 'critical') {
+    const sourceText = source.method
+      ? `${EXPERIMENT_METHOD_TEXT[source.method]}实验`
+      : EXCEPTION_SOURCE_TEXT[input.sourceType];
+    await createNotification({
+      title: `${EXCEPTION_SEVERITY_TEXT[input.severity]}级异常：${exceptionNo}`,
+      content: `${sourceText}异常「${input.title}」待指派调查`,
+      type: 'exception_created',
+      priority: input.severity === 'critical' ? 'urgent' : 'high',
+      targetRoles: ['lab_manager'],
+      createdBy: input.operatorId
+    });
+  }
+
+  logger.info(`异常已登记: ${exceptionNo}`, { operatorId: input.operatorId, sourceType: input.sourceType });
+  return getException(data.id);
+};
+
+/**
+ * 指派异常调查
+ * @description 可重新指派；未指定期限时按严重程度取配置的调查天数
+ * @param exceptionId 异常ID
+ * @param assigneeId 调查负责人ID
+ * @param dueDate 调查完成期限
+ * @param operatorId 操作人ID
+ * @returns 异常详情
+ */
+export const assignException = async (
+  exceptionId: string,
+  assigneeId: string,
+  dueDate?: string,
+  operatorId?: string
+) => {
+  const exception = await getExceptionRecord(exceptionId);
+  assertExceptionStatus(exception, ['open', 'investigating', 'action'], '指派');
+
+  const assignee = await getActiveUser(assigneeId, '调查负责人');
+
+  let deadline = dueDate;
+  if (deadline) {
+    assertNotPast(deadline, '调查完成期限');
+  } else {
+    const config = await getExceptionCapaConfig();
+    const days = config.investigation_days[exception.severity as ExceptionSeverity] ?? DEFAULT_CAPA_CONFIG.investigation_days.medium;
+    deadline = new Date(Date.now() + days * 86400000).toISOString().slice(0, 10);
+  }
+
+  const toStatus = exception.status === 'open' ? 'investigating' : exception.status;
+  await updateException(exception, {
+    status: toStatus,
+    assignee_id: assignee.id,
+    assigned_at: new Date().toISOString(),
+    due_date: deadline,
+    updated_by: operatorId || null
+  });
+
+  await recordExceptionEvent({
+    exceptionId,
+    eventType: 'assigned',
+    fromStatus: exception.status,
+    toStatus,
+    comments: `调查负责人：${assignee.real_name}，期限：${deadline}`,
+    operatorId
+  });
+
+  if (assignee.id !== operatorId) {
+    await createNotification({
+      title: `异常调查指派：${exception.exception_no}`,
+      content: `请于${deadline}前完成异常「${exception.title || exception.exception_type}」的调查`,
+      type: 'exception_assigned',
+      priority: ['high', 'critical'].includes(exception.severity) ? 'high' : 'normal',
+      targetUsers: [assignee.id],
+      createdBy: operatorId
+    });
+  }
+
+  logger.info(`异常已指派: ${exception.exception_no}`, { assigneeId, operatorId });
+  return getException(exceptionId);
+};
+
+/**
+ * 记录调查结果
+ * @description 调查中或整改中可补充调查过程、根本原因、影响和实际损失
+ * @param exceptionId 异常ID
+ * @param input 调查结果
+ * @param operatorId 操作人ID
+ * @returns 异常详情
+ */
+export const recordInvestigation = async (exceptionId: string, input: InvestigationInput, operatorId?: string) => {
+  const exception = await getExceptionRecord(exceptionId);
+  assertExceptionStatus(exception, ['investigating', 'action'], '记录调查');
+
+  const fields: Record<string, unknown> = { updated_by: operatorId || null };
+  if (input.investigation !== undefined) fields.investigation = input.investigation;
+  if (input.rootCause !== undefined) fields.root_cause = input.rootCause;
+  if (input.impact !== undefined) fields.impact = input.impact;
+  if (input.actualLoss !== undefined) fields.actual_loss = input.actualLoss;
+
+  await updateException(exception, fields);
+
+  await recordExceptionEvent({
+    exceptionId,
+    eventType: 'investigated',
+    fromStatus: exception.status,
+    toStatus: exception.status,
+    comments: input.rootCause !== undefined ? `根本原因：${input.rootCause}` : null,
+    operatorId
+  });
+
+  return getException(exceptionId);
+};
+
+/**
+ * 获取异常下的措施
+ * @param exceptionId 异常ID
+ * @param actionId 措施ID
+ * @returns 措施
+ */
+const getAction = async (exceptionId: string, actionId: string) => {
+  const action = await getRecord<ExceptionActionRow>('exception_actions', actionId, '*', '措施');
+  if (action.exception_id !== exceptionId) {
+    throw new NotFoundError('措施不存在');
+  }
+  return action;
+};
+
+/**
+ * 按措施进度刷新异常状态
+ * @description 有执行中措施为整改中，措施全部完成为待验证，措施全部取消退回调查中
+ * @param exception 异常
+ * @returns 刷新后的状态
+ */
+const refreshExceptionStatus = async (exception: ExceptionRow): Promise<ExceptionStatus> => {
+  const { data, error } = await supabase
+    .from('exception_actions')
+    .select('status')
+    .eq('exception_id', exception.id)
+    .neq('status', 'cancelled');
+
+  if (error) {
+    logger.error('获取异常措施失败:', error);
+    throw new DatabaseError('获取异常措施失败');
+  }
+
+  const actions = data || [];
+  let status: ExceptionStatus = 'investigating';
+  if (actions.some(action => action.status === 'open')) {
+    status = 'action';
+  } else if (actions.length > 0) {
+    status = 'verification';
+  }
+
+  if (status !== exception.status) {
+    await updateException(exception, { status });
+  }
+  return status;
+};
+
+/**
+ * 制定纠正/预防措施
+ * @description 须先确认根本原因；待验证的异常追加措施后回到整改中
+ * @param exceptionId 异常ID
+ * @param input 措施
+ * @param operatorId 操作人ID
+ * @returns 异常详情
+ */
+export const addExceptionAction = async (exceptionId: string, input: ExceptionActionInput, operatorId?: string) => {
+  const exception = await getExceptionRecord(exceptionId);
+  assertExceptionStatus(exception, ['investigating', 'action', 'verification'], '制定措施');
+
+  if (!exception.root_cause) {
+    throw new ValidationError('请先记录根本原因再制定纠正/预防措施');
+  }
+  assertNotPast(input.dueDate, '措施完成期限');
+  const owner = await getActiveUser(input.ownerId, '措施负责人');
+
+  const { data, error } = await supabase
+    .from('exception_actions')
+    .insert({
+      exception_id: exceptionId,
+      action_type: input.actionType,
+      description: input.description,
+      owner_id: owner.id,
+      due_date: input.dueDate,
+      status: 'open',
+      created_by: operatorId || null
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    logger.error('制定措施失败:', error);
+    throw new DatabaseError('制定措施失败');
+  }
+
+  const toStatus = await refreshExceptionStatus(exception);
+  await recordExceptionEvent({
+    exceptionId,
+    actionId: data.id,
+    eventType: 'action_added',
+    fromStatus: exception.status,
+    toStatus,
+    comments: `${EXCEPTION_ACTION_TYPE_TEXT[input.actionType]}：${input.description}（负责人：${owner.real_name}，期限：${input.dueDate}）`,
+    operatorId
+  });
+
+  if (owner.id !== operatorId) {
+    await createNotification({
+      title: `${EXCEPTION_ACTION_TYPE_TEXT[input.actionType]}待执行：${exception.exception_no}`,
+      content: `请于${input.dueDate}前完成：${input.description}`,
+      type: 'exception_action_assigned',
+      priority: 'normal',
+      targetUsers: [owner.id],
+      createdBy: operatorId
+    });
+  }
+
+  return getException(exceptionId);
+};
+
+/**
+ * 调整执行中的措施
+ * @param exceptionId 异常ID
+ * @param actionId 措施ID
+ * @param input 调整内容
+ * @param operatorId 操作人ID
+ * @returns 异常详情
+ */
+export const updateExceptionAction = async (
+  exceptionId: string,
+  actionId: string,
+  input: Partial<Omit<ExceptionActionInput, 'actionType'>>,
+  operatorId?: string
+) => {
+  const exception = await getExceptionRecord(exceptionId);
+  assertExceptionStatus(exception, ['action'], '调整措施');
+
+  const action = await getAction(exceptionId, actionId);
+  if (action.status !== 'open') {
+    throw new ConflictError(`措施${EXCEPTION_ACTION_STATUS_TEXT[action.status as ExceptionActionStatus]}，不能调整`);
+  }
+
+  const fields: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  const changes: string[] = [];
+  if (input.description !== undefined && input.description !== action.description) {
+    fields.description = input.description;
+    changes.push(`内容：${input.description}`);
+  }
+  if (input.ownerId && input.ownerId !== action.owner_id) {
+    const owner = await getActiveUser(input.ownerId, '措施负责人');
+    fields.owner_id = owner.id;
+    changes.push(`负责人：${owner.real_name}`);
+  }
+  if (input.dueDate && input.dueDate !== action.due_date) {
+    assertNotPast(input.dueDate, '措施完成期限');
+    fields.due_date = input.dueDate;
+    changes.push(`期限：${action.due_date} → ${input.dueDate}`);
+  }
+
+  if (changes.length === 0) {
+    return getException(exceptionId);
+  }
+
+  const { error } = await supabase
+    .from('exception_actions')
+    .update(fields)
+    .eq('id', actionId)
+    .eq('status', 'open');
+
+  if (error) {
+    logger.error('调整措施失败:', error);
+    throw new DatabaseError('调整措施失败');
+  }
+
+  await recordExceptionEvent({
+    exceptionId,
+    actionId,
+    eventType: 'action_updated',
+    fromStatus: exception.status,
+    toStatus: exception.status,
+    comments: changes.join('；'),
+    operatorId
+  });
+
+  return getException(exceptionId);
+};
+
+/**
+ * 取消措施
+ * @param exceptionId 异常ID
+ * @param actionId 措施ID
+ * @param reason 取消原因
+ * @param operatorId 操作人ID
+ * @returns 异常详情
+ */
+export const cancelExceptionAction = async (
+  exceptionId: string,
+  actionId: string,
+  reason: string,
+  operatorId?: string
+) => {
+  const exception = await getExceptionRecord(exceptionId);
+  assertExceptionStatus(exception, ['action', 'verification'], '取消措施');
+
+  const action = await getAction(exceptionId, actionId);
+  if (action.status === 'cancelled') {
+    throw new ConflictError('措施已取消');
+  }
+  if (action.effectiveness === 'effective') {
+    throw new ConflictError('措施已验证有效，不能取消');
+  }
+
+  const { error } = await supabase
+    .from('exception_actions')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', actionId)
+    .eq('status', action.status);
+
+  if (error) {
+    logger.error('取消措施失败:', error);
+    throw new DatabaseError('取消措施失败');
+  }
+
+  const toStatus = await refreshExceptionStatus(exception);
+  await recordExceptionEvent({
+    exceptionId,
+    actionId,
+    eventType: 'action_cancelled',
+    fromStatus: exception.status,
+    toStatus,
+    comments: `取消原因：${reason}`,
+    operatorId
+  });
+
+  return getException(exceptionId);
+};
+
+/**
+ * 完成措施
+ * @description 仅措施负责人或实验室主管可确认完成；全部措施完成后异常进入待验证
+ * @param exceptionId 异常ID
+ * @param actionId 措施ID
+ * @param notes 完成情况
+ * @param operator 操作人
+ * @returns 异常详情
+ */
+export const completeExceptionAction = async (
+  exceptionId: string,
+  actionId: string,
+  notes: string,
+  operator: ExceptionOperator
+) => {
+  const exception = await getExceptionRecord(exceptionId);
+  assertExceptionStatus(exception, ['action'], '完成措施');
+
+  const action = await getAction(exceptionId, actionId);
+  if (action.status !== 'open') {
+    throw new ConflictError(`措施${EXCEPTION_ACTION_STATUS_TEXT[action.status as ExceptionActionStatus]}，不能完成`);
+  }
+  if (action.owner_id !== operator.id && !operator.roles.some(role => EXCEPTION_MANAGER_ROLES.includes(role))) {
+    throw new AuthorizationError('只有措施负责人或实验室主管可以确认完成');
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('exception_actions')
+    .update({
+      status: 'completed',
+      completed_at: now,
+      completion_notes: notes,
+      effectiveness: null,
+      effectiveness_checked_by: null,
+      effectiveness_checked_at: null,
+      effectiveness_notes: null,
+      updated_at: now
+    })
+    .eq('id', actionId)
+    .eq('status', 'open')
+    .select('id')
+    .maybeSingle();
+
+  if (error || !data) {
+    logger.error('完成措施失败:', error);
+    throw new ConflictError('措施状态已被其他操作修改，请刷新后重试');
+  }
+
+  const toStatus = await refreshExceptionStatus(exception);
+  await recordExceptionEvent({
+    exceptionId,
+    actionId,
+    eventType: 'action_completed',
+    fromStatus: exception.status,
+    toStatus,
+    comments: notes + (action.due_date < today() ? `（逾期，期限${action.due_date}）` : ''),
+    operatorId: operator.id
+  });
+
+  return getException(exceptionId);
+};
+
+/**
+ * 措施有效性验证
+ * @description 验证人不能是措施负责人；验证无效的措施退回执行中并重新设定完成期限
+ * @param exceptionId 异常ID
+ * @param actionId 措施ID
+ * @param input 验证结果
+ * @param operatorId 验证人ID
+ * @returns 异常详情
+ */
+export const checkActionEffectiveness = async (
+  exceptionId: string,
+  actionId: string,
+  input: EffectivenessInput,
+  operatorId: string
+) => {
+  const exception = await getExceptionRecord(exceptionId);
+  assertExceptionStatus(exception, ['action', 'verification'], '验证措施');
+
+  const action = await getAction(exceptionId, actionId);
+  if (action.status !== 'completed') {
+    throw new ConflictError('措施尚未完成，不能验证有效性');
+  }
+  if (action.effectiveness === 'effective') {
+    throw new ConflictError('措施已验证有效');
+  }
+  if (action.owner_id === operatorId) {
+    throw new AuthorizationError('措施负责人不能验证自己负责的措施');
+  }
+  if (!input.effective) {
+    if (!input.notes) {
+      throw new ValidationError('验证无效时必须填写验证意见');
+    }
+    if (!input.dueDate) {
+      throw new ValidationError('验证无效时必须重新设定完成期限');
+    }
+    assertNotPast(input.dueDate, '措施完成期限');
+  }
+
+  const now = new Date().toISOString();
+  const fields: Record<string, unknown> = {
+    effectiveness: input.effective ? 'effective' : 'ineffective',
+    effectiveness_checked_by: operatorId,
+    effectiveness_checked_at: now,
+    effectiveness_notes: input.notes || null,
+    updated_at: now
+  };
+  if (!input.effective) {
+    fields.status = 'open';
+    fields.completed_at = null;
+    fields.due_date = input.dueDate;
+  }
+
+  const { data, error } = await supabase
+    .from('exception_actions')
+    .update(fields)
+    .eq('id', actionId)
+    .eq('status', 'completed')
+    .select('id')
+    .maybeSingle();
+
+  if (error || !data) {
+    logger.error('验证措施有效性失败:', error);
+    throw new ConflictError('措施状态已被其他操作修改，请刷新后重试');
+  }
+
+  const toStatus = await refreshExceptionStatus(exception);
+  await recordExceptionEvent({
+    exceptionId,
+    actionId,
+    eventType: 'effectiveness_checked',
+    fromStatus: exception.status,
+    toStatus,
+    comments: `${EFFECTIVENESS_TEXT[input.effective ? 'effective' : 'ineffective']}` +
+      (input.notes ? `：${input.notes}` : '') +
+      (input.effective ? '' : `，重新设定期限${input.dueDate}`),
+    operatorId
+  });
+
+  if (!input.effective) {
+    await createNotification({
+      title: `措施验证无效：${exception.exception_no}`,
+      content: `措施「${action.description}」验证无效，请于${input.dueDate}前重新完成。验证意见：${input.notes}`,
+      type: 'exception_action_ineffective',
+      priority: 'high',
+      targetUsers: [action.owner_id],
+      createdBy: operatorId
+    });
+  }
+
+  return getException(exceptionId);
+};
+
+/**
+ * 签字关闭异常
+ * @description 须记录根本原因，至少有一项纠正措施，高和严重级别还须有预防措施；
+ * 未取消的措施须全部完成并验证有效；调查负责人不能签字关闭自己调查的异常
+ * @param exceptionId 异常ID
+ * @param resolution 关闭结论
+ * @param operatorId 签字人ID
+ * @returns 异常详情
+ */
+export const closeException = async (exceptionId: string, resolution: string, operatorId: string) => {
+  const exception = await getExceptionRecord(exceptionId);
+  assertExceptionStatus(exception, ['verification'], '关闭');
+
+  if (exception.assignee_id === operatorId) {
+    throw new AuthorizationError('调查负责人不能签字关闭自己调查的异常');
+  }
+
+  const { data: actions, error } = await supabase
+    .from('exception_actions')
+    .select('id, action_type, description, status, effectiveness')
+    .eq('exception_id', exceptionId)
+    .neq('status', 'cancelled');
+
+  if (error) {
+    logger.error('获取异常措施失败:', error);
+    throw new DatabaseError('获取异常措施失败');
+  }
+
+  const problems: string[] = [];
+  if (!exception.root_cause) {
+    problems.push('未记录根本原因');
+  }
+  if (!(actions || []).some(action => action.action_type === 'corrective')) {
+    problems.push('缺少纠正措施');
+  }
+  if (['high', 'critical'].includes(exception.severity) && !(actions || []).some(action => action.action_type === 'preventive')) {
+    problems.push(`${EXCEPTION_SEVERITY_TEXT[exception.severity as ExceptionSeverity]}级异常缺少预防措施`);
+  }
+  (actions || [])
+    .filter(action => action.status !== 'completed' || action.effectiveness !== 'effective')
+    .forEach(action => {
+      problems.push(`${EXCEPTION_ACTION_TYPE_TEXT[action.action_type as ExceptionActionType]}「${action.description}」未验证有效`);
+    });
+
+  if (problems.length > 0) {
+    throw new ValidationError('异常不满足关闭条件', { problems });
+  }
+
+  const now = new Date().toISOString();
+  await updateException(exception, {
+    status: 'closed',
+    resolution,
+    resolver_id: operatorId,
+    resolved_at: now,
+    updated_by: operatorId
+  });
+
+  await recordExceptionEvent({
+    exceptionId,
+    eventType: 'closed',
+    fromStatus: exception.status,
+    toStatus: 'closed',
+    comments: resolution,
+    operatorId
+  });
+
+  if (exception.assignee_id) {
+    await createNotification({
+      title: `异常已关闭：${exception.exception_no}`,
+      content: `关闭结论：${resolution}`,
+      type: 'exception_closed',
+      priority: 'normal',
+      targetUsers: [exception.assignee_id],
+      createdBy: operatorId
+    });
+  }
+
+  logger.info(`异常已关闭: ${exception.exception_no}`, { operatorId });
+  return getException(exceptionId);
+};
+
+/**
+ * 取消异常
+ * @description 用于误报或重复登记，执行中的措施一并取消
+ * @param exceptionId 异常ID
+ * @param reason 取消原因
+ * @param operatorId 操作人ID
+ * @returns 异常详情
+ */
+export const cancelException = async (exceptionId: string, reason: string, operatorId?: string) => {
+  const exception = await getExceptionRecord(exceptionId);
+  assertExceptionStatus(exception, OPEN_EXCEPTION_STATUSES, '取消');
+
+  await updateException(exception, { status: 'cancelled', updated_by: operatorId || null });
+
+  const { error } = await supabase
+    .from('exception_actions')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('exception_id', exceptionId)
+    .eq('status', 'open');
+
+  if (error) {
+    logger.error('取消异常措施失败:', error);
+    throw new DatabaseError('取消异常措施失败');
+  }
+
+  await recordExceptionEvent({
+    exceptionId,
+    eventType: 'cancelled',
+    fromStatus: exception.status,
+    toStatus: 'cancelled',
+    comments: `取消原因：${reason}`,
+    operatorId
+  });
+
+  logger.info(`异常已取消: ${exception.exception_no}`, { operatorId });
+  return getException(exceptionId);
+};
+
+/**
+ * 转换CSV字段
+ * @description 以 = + - @ 或制表符、回车开头的内容前加单引号，避免用户填写的文本在Excel中被当作公式执行
+ * @param value 字段值
+ * @returns 含逗号、引号或换行时加引号转义
+ */
+const toCsvField = (value: unknown): string => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 导出CAPA台账
+ * @description 每项措施一行，无措施的异常单独一行；带BOM以便Excel正确识别中文
+ * @param filter 导出条件，来源和方法学为用户有权查看的范围
+ * @returns CSV文本
+ */
+export const renderCapaLogCsv = async (filter: CapaLogFilter): Promise<string> => {
+  let query = supabase
+    .from('experiment_exceptions')
+    .select(`
+      *,
+      ${EXCEPTION_SOURCE_FIELDS},
+      exception_actions(
+        *,
+        owner:users!exception_actions_owner_id_fkey(
+          id,
+          real_name
+        ),
+        checker:users!exception_actions_effectiveness_checked_by_fkey(
+          id,
+          real_name
+        )
+      )
+    `);
+
+  const conditions: string[] = [];
+  if (filter.methods && filter.methods.length > 0) {
+    conditions.push(`and(source_type.eq.experiment,method.in.(${filter.methods.join(',')}))`);
+  }
+  if (filter.sourceTypes && filter.sourceTypes.length > 0) {
+    conditions.push(`source_type.in.(${filter.sourceTypes.join(',')})`);
+  }
+  if (conditions.length === 0) {
+    return '\uFEFF';
+  }
+  query = query.or(conditions.join(','));
+
+  if (filter.status) {
+    query = query.eq('status', filter.status);
+  }
+  if (filter.dateFrom) {
+    query = query.gte('created_at', filter.dateFrom);
+  }
+  if (filter.dateTo) {
+    query = query.lte('created_at', `${filter.dateTo}T23:59:59.999Z`);
+  }
+
+  const { data, error } = await query.order('exception_no', { ascending: true });
+
+  if (error) {
+    logger.error('导出CAPA台账失败:', error);
+    throw new DatabaseError('导出CAPA台账失败');
+  }
+
+  const date = today();
+  const header = [
+    '异常编号', '来源', '关联对象', '异常类型', '标题', '严重程度', '状态', '发生时间', '调查负责人', '调查期限',
+    '根本原因', '影响', '实际损失', '措施类型', '措施内容', '措施负责人', '完成期限', '措施状态', '完成时间',
+    '是否逾期', '有效性', '验证人', '验证时间', '关闭签字人', '关闭时间', '关闭结论'
+  ];
+
+  const lines: unknown[][] = [];
+  ((data || []) as ExceptionWithRelations[]).forEach(exception => {
+    const source = exception.method
+      ? `${EXPERIMENT_METHOD_TEXT[exception.method]}实验`
+      : EXCEPTION_SOURCE_TEXT[exception.source_type];
+    const base = [
+      exception.exception_no,
+      source,
+      exceptionSourceLabel(exception),
+      exception.exception_type,
+      exception.title || exception.exception_desc,
+      EXCEPTION_SEVERITY_TEXT[exception.severity] || exception.severity,
+      EXCEPTION_STATUS_TEXT[exception.status] || exception.status,
+      exception.occurred_at || exception.created_at,
+      exception.assignee?.real_name,
+      exception.due_date,
+      exception.root_cause,
+      exception.impact,
+      exception.actual_loss
+    ];
+    const closing = [exception.resolver?.real_name, exception.resolved_at, exception.resolution];
+
+    const actions = [...(exception.exception_actions || [])]
+      .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+    if (actions.length === 0) {
+      lines.push([...base, '', '', '', '', '', '', '', '', '', '', '', ...closing]);
+      return;
+    }
+
+    actions.forEach(action => {
+      const completedLate = Boolean(action.completed_at) && String(action.completed_at).slice(0, 10) > action.due_date;
+      lines.push([
+        ...base,
+        action.action_type ? EXCEPTION_ACTION_TYPE_TEXT[action.action_type] : '',
+        action.description,
+        action.owner?.real_name,
+        action.due_date,
+        EXCEPTION_ACTION_STATUS_TEXT[action.status],
+        action.completed_at,
+        isActionOverdue(action, date) || completedLate ? '是' : '否',
+        action.effectiveness ? EFFECTIVENESS_TEXT[action.effectiveness] : '',
+        action.checker?.real_name,
+        action.effectiveness_checked_at,
+        ...closing
+      ]);
+    });
+  });
+
+  const csv = [header, ...lines].map(line => line.map(toCsvField).join(',')).join('\r\n');
+  return `\uFEFF${csv}\r\n`;
+};
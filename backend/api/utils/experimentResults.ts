@@ -0,0 +1,389 @@
+/**
+ * 实验结果工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：实验方法权限判断、检测项目结果解析与单位校验、开始实验、实验数据保存
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { AuthorizationError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { flagResult, type PatientInfo } from './resultFlagging.js';
+import { createNotification } from './notification.js';
+import { transitionSample } from './sampleLifecycle.js';
+
+/**
+ * 实验方法类型
+ */
+export type ExperimentMethod = 'routine' | 'mass_spec' | 'special';
+
+/**
+ * 实验方法中文名称
+ */
+export const EXPERIMENT_METHOD_TEXT: Record<ExperimentMethod, string> = {
+  routine: '普检',
+  mass_spec: '质谱',
+  special: '特检'
+};
+
+/**
+ * 各实验方法对应的页面权限
+ * @description list-实验列表，entry-数据录入，review-数据审核
+ */
+export const EXPERIMENT_METHOD_PERMISSIONS: Record<ExperimentMethod, { list: string; entry: string; review: string }> = {
+  routine: { list: 'routine.list', entry: 'routine.data_entry', review: 'routine.data_review' },
+  mass_spec: { list: 'mass_spec.list', entry: 'mass_spec.data_entry', review: 'mass_spec.data_review' },
+  special: { list: 'special.list', entry: 'special.instrument', review: 'special.analysis' }
+};
+
+/**
+ * 检测项目信息
+ */
+export interface TestItemInfo {
+  id: string;
+  code: string;
+  name: string;
+  method: ExperimentMethod;
+  unit?: string | null;
+  reference_range_male?: string | null;
+  reference_range_female?: string | null;
+  reference_range_child?: string | null;
+  normal_min?: number | null;
+  normal_max?: number | null;
+  critical_min?: number | null;
+  critical_max?: number | null;
+}
+
+/**
+ * 结果录入参数
+ */
+export interface ResultInput {
+  item_id: string;
+  result_value: string | number;
+  unit?: string;
+  result_text?: string;
+  measured_at?: string;
+  instrument_data?: Record<string, unknown>;
+  quality_control?: Record<string, unknown>;
+}
+
+/**
+ * 送检单受检者信息
+ */
+interface SubmissionPatient {
+  patient_name: string;
+  patient_gender?: PatientInfo['gender'];
+  patient_age?: number | null;
+}
+
+/**
+ * 获取用户拥有指定权限类型的实验方法
+ * @param permissions 用户权限列表
+ * @param kind 权限类型
+ * @returns 实验方法列表
+ */
+export const getPermittedMethods = (
+  permissions: string[] = [],
+  kind: 'list' | 'entry' | 'review'
+): ExperimentMethod[] => {
+  return (Object.keys(EXPERIMENT_METHOD_PERMISSIONS) as ExperimentMethod[])
+    .filter(method => permissions.includes(EXPERIMENT_METHOD_PERMISSIONS[method][kind]));
+};
+
+/**
+ * 校验用户是否拥有实验方法对应的权限
+ * @param permissions 用户权限列表
+ * @param method 实验方法
+ * @param kind 权限类型
+ */
+export const assertMethodPermission = (
+  permissions: string[] = [],
+  method: ExperimentMethod,
+  kind: 'list' | 'entry' | 'review'
+): void => {
+  const requiredPermission = EXPERIMENT_METHOD_PERMISSIONS[method][kind];
+  if (!permissions.includes(requiredPermission)) {
+    throw new AuthorizationError('权限不足', { required_permission: requiredPermission });
+  }
+};
+
+/**
+ * 标准化单位写法，用于单位比对
+ * @param unit 单位
+ * @returns 标准化后的单位
+ */
+const normalizeUnit = (unit?: string | null): string => {
+  return (unit || '')
+    .trim()
+    .replace(/\s+/g, '')
+    .replace(/μ/g, 'u')
+    .replace(/µ/g, 'u')
+    .toLowerCase();
+};
+
+/**
+ * 解析检测项目结果
+ * @description 有单位的项目为定量项目，结果必须为数值且单位与项目定义一致，超出定量范围的可写作 <下限 或 >上限，
+ * 此时不保存数值结果；无单位的项目按定性结果保存
+ * @param item 检测项目
+ * @param input 录入结果
+ * @returns 待保存的实验数据字段
+ */
+export const parseItemResult = (item: TestItemInfo, input: ResultInput) => {
+  const rawValue = String(input.result_value ?? '').trim();
+  if (!rawValue) {
+    throw new ValidationError(`检测项目「${item.name}」的结果不能为空`);
+  }
+
+  if (input.unit && normalizeUnit(input.unit) !== normalizeUnit(item.unit)) {
+    throw new ValidationError(
+      `检测项目「${item.name}」的单位应为「${item.unit || '无单位'}」，录入单位为「${input.unit}」`,
+      { item_id: item.id, expected_unit: item.unit, actual_unit: input.unit }
+    );
+  }
+
+  const isQuantitative = Boolean(item.unit);
+  const isCensored = /^[<>]/.test(rawValue);
+  const numericText = isCensored ? rawValue.slice(1).trim() : rawValue;
+  const numericValue = Number(numericText);
+
+  if (isQuantitative && (numericText === '' || Number.isNaN(numericValue))) {
+    throw new ValidationError(
+      `检测项目「${item.name}」为定量项目，结果必须是数值，超出定量范围的写作 <下限 或 >上限`,
+      { item_id: item.id, result_value: rawValue }
+    );
+  }
+
+  return {
+    item_id: item.id,
+    result_value: rawValue,
+    result_numeric: isQuantitative && !isCensored ? numericValue : null,
+    result_text: input.result_text ?? (isQuantitative ? null : rawValue),
+    unit: item.unit ?? null,
+    measured_at: input.measured_at || new Date().toISOString(),
+    instrument_data: input.instrument_data,
+    quality_control: input.quality_control
+  };
+};
+
+/**
+ * 获取检测产品包含的检测项目
+ * @param productId 检测产品ID
+ * @returns 检测项目列表（含是否必填）
+ */
+export const getProductItems = async (productId: string) => {
+  const { data, error } = await supabase
+    .from('product_items')
+    .select(`
+      is_required,
+      sort_order,
+      test_items(
+        id,
+        code,
+        name,
+        method,
+        unit,
+        reference_range_male,
+        reference_range_female,
+        reference_range_child,
+        normal_min,
+        normal_max,
+        critical_min,
+        critical_max,
+        is_active
+      )
+    `)
+    .eq('product_id', productId)
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    logger.error('获取产品检测项目失败:', error);
+    throw new DatabaseError('获取产品检测项目失败');
+  }
+
+  return (data || []).flatMap(row => {
+    const item = firstRelation<TestItemInfo>(row.test_items);
+    return item ? [{ ...item, is_required: row.is_required !== false }] : [];
+  });
+};
+
+/**
+ * 获取实验对应的样本与受检者信息
+ * @param sampleId 样本ID
+ * @returns 样本编号与受检者信息
+ */
+const getSamplePatient = async (sampleId: string) => {
+  const { data, error } = await supabase
+    .from('samples')
+    .select('id, sample_no, submissions(id, submission_no, patient_name, patient_gender, patient_age)')
+    .eq('id', sampleId)
+    .single();
+
+  if (error || !data) {
+    logger.error('获取样本受检者信息失败:', error);
+    throw new DatabaseError('获取样本受检者信息失败');
+  }
+
+  const submission: SubmissionPatient | undefined = Array.isArray(data.submissions) ? data.submissions[0] : data.submissions;
+  return {
+    sampleNo: data.sample_no as string,
+    patientName: submission?.patient_name,
+    patient: {
+      gender: submission?.patient_gender,
+      age: submission?.patient_age
+    } as PatientInfo
+  };
+};
+
+/**
+ * 开始实验，并将出库待检的样本转为检测中
+ * @param experiment 实验记录
+ * @param operatorId 操作人ID
+ * @returns 更新后的实验
+ */
+export const startExperiment = async (
+  experiment: { id: string; experiment_no: string; sample_id: string },
+  operatorId?: string
+) => {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .update({
+      status: 'in_progress',
+      started_at: now,
+      updated_at: now,
+      updated_by: operatorId
+    })
+    .eq('id', experiment.id)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('开始实验失败:', error);
+    throw new ConflictError('实验状态已被其他操作修改，请刷新后重试');
+  }
+
+  const { data: sample } = await supabase
+    .from('samples')
+    .select('id, status')
+    .eq('id', experiment.sample_id)
+    .single();
+
+  if (sample?.status === 'out_for_test') {
+    await transitionSample(sample.id, 'testing', {
+      operatorId,
+      remarks: `实验${experiment.experiment_no}开始`
+    });
+  }
+
+  logger.info(`实验已开始: ${experiment.experiment_no}`, { operatorId });
+  return data;
+};
+
+/**
+ * 保存实验结果
+ * @description 按检测项目逐条校验并判定异常后写入 experiment_data，同一项目已有结果时覆盖更新；
+ * 出现新的危急值时生成紧急通知
+ * @param experiment 实验记录
+ * @param results 录入结果
+ * @param operatorId 操作人ID
+ * @returns 保存后的实验数据
+ */
+export const saveExperimentResults = async (
+  experiment: { id: string; experiment_no: string; sample_id: string; product_id: string; method: ExperimentMethod },
+  results: ResultInput[],
+  operatorId?: string
+) => {
+  const items = await getProductItems(experiment.product_id);
+  const itemMap = new Map(items.map(item => [item.id, item]));
+
+  const invalidIds = results
+    .map(result => result.item_id)
+    .filter(itemId => {
+      const item = itemMap.get(itemId);
+      return !item || item.method !== experiment.method;
+    });
+
+  if (invalidIds.length > 0) {
+    throw new ValidationError('检测项目不属于该实验的检测产品或方法', { item_ids: invalidIds });
+  }
+
+  const { sampleNo, patientName, patient } = await getSamplePatient(experiment.sample_id);
+
+  const rows = results.map(result => {
+    const item = itemMap.get(result.item_id)!;
+    const parsed = parseItemResult(item, result);
+    const { is_critical: isCritical, ...flag } = flagResult(item, patient, parsed);
+    return { row: { ...parsed, ...flag }, item, isCritical };
+  });
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from('experiment_data')
+    .select('id, item_id, result_value, abnormal_flag')
+    .eq('experiment_id', experiment.id)
+    .in('item_id', rows.map(({ row }) => row.item_id));
+
+  if (existingError) {
+    logger.error('查询实验数据失败:', existingError);
+    throw new DatabaseError('查询实验数据失败');
+  }
+
+  const existingMap = new Map((existingRows || []).map(row => [row.item_id, row]));
+  const now = new Date().toISOString();
+  const saved: ((typeof rows)[number]['row'] & { id: string; experiment_id: string })[] = [];
+  const criticalRows: { item: TestItemInfo; row: (typeof rows)[number]['row'] }[] = [];
+
+  for (const { row, item, isCritical } of rows) {
+    const existing = existingMap.get(row.item_id);
+    const query = existing
+      ? supabase
+        .from('experiment_data')
+        .update({ ...row, updated_at: now, updated_by: operatorId })
+        .eq('id', existing.id)
+      : supabase
+        .from('experiment_data')
+        .insert({ ...row, experiment_id: experiment.id, created_by: operatorId, updated_by: operatorId });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      logger.error('保存实验数据失败:', error);
+      throw new DatabaseError('保存实验数据失败');
+    }
+
+    // 同一结果重复保存时不重复发送危急值通知
+    const unchanged = existing
+      && existing.result_value === row.result_value
+      && existing.abnormal_flag === row.abnormal_flag;
+    if (isCritical && !unchanged) {
+      criticalRows.push({ item, row });
+    }
+
+    saved.push(data);
+  }
+
+  if (criticalRows.length > 0) {
+    const details = criticalRows
+      .map(({ item, row }) =>
+        `${item.name}：${row.result_value}${row.unit || ''}（${row.abnormal_flag}，参考范围 ${row.reference_range || '-'}）`
+      )
+      .join('；');
+
+    await createNotification({
+      title: `危急值提醒：样本${sampleNo}`,
+      content: `实验${experiment.experiment_no}，受检者${patientName || '-'}，${details}`,
+      type: 'critical_value',
+      priority: 'urgent',
+      targetUsers: operatorId ? [operatorId] : [],
+      targetRoles: ['lab_manager', 'quality_controller'],
+      channels: ['system', 'sms'],
+      createdBy: operatorId
+    });
+
+    logger.warn(`实验${experiment.experiment_no}出现危急值`, { sampleNo, items: criticalRows.map(({ item }) => item.code) });
+  }
+
+  return saved;
+};
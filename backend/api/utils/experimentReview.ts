@@ -0,0 +1,427 @@
+/**
+ * 实验结果审核工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：按实验方法配置的级数逐级审核实验结果，录入人不能审核，驳回后退回数据录入
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { ConflictError, ValidationError, AuthorizationError, DatabaseError, NotFoundError } from '../middleware/enhancedErrorHandler.js';
+import { assertMethodPermission, type ExperimentMethod } from './experimentResults.js';
+import { getConfigValue } from './systemConfig.js';
+import { createNotification } from './notification.js';
+import { transitionSample } from './sampleLifecycle.js';
+import { assertQcReleasable } from './qualityControl.js';
+
+/**
+ * 默认审核级数（双人复核）
+ */
+export const DEFAULT_REVIEW_LEVELS = 2;
+
+/**
+ * 审核结果
+ */
+export type ReviewResult = 'approved' | 'rejected';
+
+/**
+ * 待审核实验记录
+ */
+interface PendingReviewRow {
+  id: string;
+  experiment_no: string;
+  method: ExperimentMethod;
+  batch_no: string | null;
+  status: string;
+  review_status: string;
+  current_review_level: number;
+  required_review_levels: number;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  completed_at: string | null;
+  samples?: {
+    id: string;
+    sample_no: string;
+    barcode: string;
+    submissions?: { id: string; submission_no: string; patient_name: string; is_urgent: boolean } | null;
+  } | null;
+  test_products?: { id: string; code: string; name: string } | null;
+  technicians?: { id: string; user_id: string; users?: { id: string; real_name: string } | null } | null;
+  submitter?: { id: string; real_name: string } | null;
+  experiment_data?: { created_by: string | null; updated_by: string | null; is_abnormal: boolean | null }[];
+  experiment_audits?: { auditor_id: string; audit_result: ReviewResult; audit_time: string }[];
+}
+
+/**
+ * 获取实验方法的审核级数
+ * @param method 实验方法
+ * @returns 审核级数，至少为1
+ */
+export const getRequiredReviewLevels = async (method: ExperimentMethod): Promise<number> => {
+  const levels = await getConfigValue<Record<string, number>>('review.experiment_levels', {});
+  const value = Number(levels?.[method] ?? DEFAULT_REVIEW_LEVELS);
+  return Number.isInteger(value) && value >= 1 ? value : DEFAULT_REVIEW_LEVELS;
+};
+
+/**
+ * 获取参与实验录入的用户
+ * @description 包括录入/修改过实验数据的用户、提交审核的用户和实验所属实验员
+ * @param experimentId 实验ID
+ * @returns 用户ID集合
+ */
+export const getExperimentParticipants = async (experimentId: string): Promise<Set<string>> => {
+  const [experimentResult, dataResult] = await Promise.all([
+    supabase
+      .from('experiments')
+      .select('submitted_by, technicians(user_id)')
+      .eq('id', experimentId)
+      .single(),
+    supabase
+      .from('experiment_data')
+      .select('created_by, updated_by')
+      .eq('experiment_id', experimentId)
+  ]);
+
+  if (experimentResult.error || dataResult.error) {
+    logger.error('获取实验参与人失败:', experimentResult.error || dataResult.error);
+    throw new DatabaseError('获取实验参与人失败');
+  }
+
+  const participants = new Set<string>();
+  const experiment = experimentResult.data;
+  const technician = firstRelation(experiment?.technicians);
+
+  [experiment?.submitted_by, technician?.user_id].forEach(userId => userId && participants.add(userId));
+  (dataResult.data || []).forEach(row => {
+    if (row.created_by) participants.add(row.created_by);
+    if (row.updated_by) participants.add(row.updated_by);
+  });
+
+  return participants;
+};
+
+/**
+ * 获取本轮审核中已审核过的用户
+ * @description 仅统计最近一次提交审核之后的审核记录
+ * @param experimentId 实验ID
+ * @param submittedAt 提交审核时间
+ * @returns 用户ID集合
+ */
+const getCurrentRoundReviewers = async (experimentId: string, submittedAt?: string | null): Promise<Set<string>> => {
+  let query = supabase
+    .from('experiment_audits')
+    .select('auditor_id')
+    .eq('experiment_id', experimentId)
+    .eq('audit_result', 'approved');
+
+  if (submittedAt) {
+    query = query.gte('audit_time', submittedAt);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('获取审核记录失败:', error);
+    throw new DatabaseError('获取审核记录失败');
+  }
+
+  return new Set((data || []).map(row => row.auditor_id));
+};
+
+/**
+ * 提交实验审核
+ * @description 实验完成并进入第1级审核，审核级数在提交时按当前配置确定
+ * @param experiment 实验记录
+ * @param operatorId 提交人ID
+ * @returns 更新后的实验
+ */
+export const submitExperimentForReview = async (
+  experiment: { id: string; experiment_no: string; method: ExperimentMethod },
+  operatorId?: string
+) => {
+  const requiredLevels = await getRequiredReviewLevels(experiment.method);
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .update({
+      status: 'completed',
+      completed_at: now,
+      review_status: 'pending',
+      current_review_level: 1,
+      required_review_levels: requiredLevels,
+      submitted_by: operatorId,
+      submitted_at: now,
+      updated_at: now,
+      updated_by: operatorId
+    })
+    .eq('id', experiment.id)
+    .eq('status', 'in_progress')
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('提交实验审核失败:', error);
+    throw new ConflictError('实验状态已被其他操作修改，请刷新后重试');
+  }
+
+  logger.info(`实验已提交审核: ${experiment.experiment_no}，共${requiredLevels}级`, { operatorId });
+  return data;
+};
+
+/**
+ * 审核实验结果
+ * @param experimentId 实验ID
+ * @param reviewer 审核人（ID及权限）
+ * @param result 审核结果
+ * @param comments 审核意见，驳回时必填
+ * @returns 更新后的实验
+ */
+export const reviewExperiment = async (
+  experimentId: string,
+  reviewer: { id: string; permissions?: string[] },
+  result: ReviewResult,
+  comments?: string
+) => {
+  const { data: experiment, error: checkError } = await supabase
+    .from('experiments')
+    .select('id, experiment_no, sample_id, method, status, review_status, current_review_level, required_review_levels, submitted_at, batch_no')
+    .eq('id', experimentId)
+    .single();
+
+  if (checkError || !experiment) {
+    throw new NotFoundError('实验不存在');
+  }
+
+  assertMethodPermission(reviewer.permissions, experiment.method, 'review');
+
+  if (experiment.review_status !== 'pending') {
+    throw new ConflictError('实验不在待审核状态');
+  }
+  if (result === 'rejected' && !comments) {
+    throw new ValidationError('驳回时必须填写审核意见');
+  }
+  if (result === 'approved') {
+    // 批次质控失控未纠正时不能审核通过
+    await assertQcReleasable(experiment);
+  }
+
+  const participants = await getExperimentParticipants(experimentId);
+  if (participants.has(reviewer.id)) {
+    throw new AuthorizationError('录入人不能审核自己录入的实验结果');
+  }
+
+  const reviewers = await getCurrentRoundReviewers(experimentId, experiment.submitted_at);
+  if (reviewers.has(reviewer.id)) {
+    throw new AuthorizationError('同一审核人不能重复审核同一实验的不同级别');
+  }
+
+  const level = experiment.current_review_level;
+  const now = new Date().toISOString();
+
+  const { data: audit, error: auditError } = await supabase
+    .from('experiment_audits')
+    .insert({
+      experiment_id: experimentId,
+      auditor_id: reviewer.id,
+      audit_level: level,
+      audit_result: result,
+      audit_comments: comments,
+      audit_time: now
+    })
+    .select('id')
+    .single();
+
+  if (auditError || !audit) {
+    logger.error('保存审核记录失败:', auditError);
+    throw new DatabaseError('保存审核记录失败');
+  }
+
+  const isFinalLevel = level >= experiment.required_review_levels;
+  const updateData: Record<string, unknown> = result === 'rejected'
+    ? {
+      status: 'in_progress',
+      completed_at: null,
+      review_status: 'rejected',
+      current_review_level: 0
+    }
+    : isFinalLevel
+      ? { review_status: 'approved' }
+      : { current_review_level: level + 1 };
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .update({ ...updateData, updated_at: now, updated_by: reviewer.id })
+    .eq('id', experimentId)
+    .eq('review_status', 'pending')
+    .eq('current_review_level', level)
+    .select()
+    .single();
+
+  if (error || !data) {
+    // 状态已被并发审核修改，撤销本次审核记录
+    await supabase.from('experiment_audits').delete().eq('id', audit.id);
+    logger.error('更新实验审核状态失败:', error);
+    throw new ConflictError('实验审核状态已被其他操作修改，请刷新后重试');
+  }
+
+  if (result === 'rejected') {
+    // 驳回后通知录入人修改
+    await createNotification({
+      title: `实验结果被驳回：${experiment.experiment_no}`,
+      content: `第${level}级审核驳回，审核意见：${comments}`,
+      type: 'experiment_rejected',
+      priority: 'high',
+      targetUsers: [...participants],
+      createdBy: reviewer.id
+    });
+  } else if (isFinalLevel) {
+    await completeSampleIfAllApproved(experiment.sample_id, reviewer.id);
+  }
+
+  logger.info(`实验审核: ${experiment.experiment_no} 第${level}级 ${result}`, { reviewerId: reviewer.id });
+  return data;
+};
+
+/**
+ * 样本的全部实验审核通过后，将检测中的样本置为已完成
+ * @param sampleId 样本ID
+ * @param operatorId 操作人ID
+ */
+const completeSampleIfAllApproved = async (sampleId: string, operatorId: string) => {
+  const { data: experiments, error } = await supabase
+    .from('experiments')
+    .select('id, status, review_status')
+    .eq('sample_id', sampleId)
+    .neq('status', 'cancelled');
+
+  if (error) {
+    logger.error('查询样本实验失败:', error);
+    return;
+  }
+
+  const allApproved = (experiments || []).every(item => item.review_status === 'approved');
+  if (!allApproved) {
+    return;
+  }
+
+  const { data: sample } = await supabase
+    .from('samples')
+    .select('id, status')
+    .eq('id', sampleId)
+    .single();
+
+  if (sample?.status === 'testing') {
+    await transitionSample(sampleId, 'completed', {
+      operatorId,
+      remarks: '全部实验结果审核通过'
+    });
+  }
+};
+
+/**
+ * 获取用户可审核的待审核实验
+ * @description 排除用户参与录入的实验以及本轮已由该用户审核过的实验
+ * @param userId 用户ID
+ * @param methods 用户有审核权限的实验方法
+ * @returns 待审核实验列表
+ */
+export const listPendingReviews = async (userId: string, methods: ExperimentMethod[]) => {
+  if (methods.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .select(`
+      id,
+      experiment_no,
+      method,
+      batch_no,
+      status,
+      review_status,
+      current_review_level,
+      required_review_levels,
+      submitted_by,
+      submitted_at,
+      completed_at,
+      samples(
+        id,
+        sample_no,
+        barcode,
+        submissions(
+          id,
+          submission_no,
+          patient_name,
+          is_urgent
+        )
+      ),
+      test_products(
+        id,
+        code,
+        name
+      ),
+      technicians(
+        id,
+        user_id,
+        users(
+          id,
+          real_name
+        )
+      ),
+      submitter:users!experiments_submitted_by_fkey(
+        id,
+        real_name
+      ),
+      experiment_data(
+        created_by,
+        updated_by,
+        is_abnormal
+      ),
+      experiment_audits(
+        auditor_id,
+        audit_result,
+        audit_time
+      )
+    `)
+    .eq('review_status', 'pending')
+    .in('method', methods)
+    .order('submitted_at', { ascending: true });
+
+  if (error) {
+    logger.error('获取待审核实验失败:', error);
+    throw new DatabaseError('获取待审核实验失败');
+  }
+
+  const rows: PendingReviewRow[] = (data || []).map(experiment => {
+    const sample = firstRelation(experiment.samples);
+    const technician = firstRelation(experiment.technicians);
+    return {
+      ...experiment,
+      samples: sample && { ...sample, submissions: firstRelation(sample.submissions) },
+      test_products: firstRelation(experiment.test_products),
+      technicians: technician && { ...technician, users: firstRelation(technician.users) },
+      submitter: firstRelation(experiment.submitter)
+    };
+  });
+
+  return rows
+    .filter(experiment => {
+      const entered = experiment.submitted_by === userId
+        || experiment.technicians?.user_id === userId
+        || (experiment.experiment_data || []).some(row => row.created_by === userId || row.updated_by === userId);
+      const reviewed = (experiment.experiment_audits || []).some(audit =>
+        audit.auditor_id === userId
+        && audit.audit_result === 'approved'
+        && (!experiment.submitted_at || audit.audit_time >= experiment.submitted_at)
+      );
+      return !entered && !reviewed;
+    })
+    .map(experiment => ({
+      ...experiment,
+      experiment_data: undefined,
+      experiment_audits: undefined,
+      data_count: (experiment.experiment_data || []).length,
+      abnormal_count: (experiment.experiment_data || []).filter(row => row.is_abnormal).length
+    }));
+};
@@ -0,0 +1,815 @@
+/**
+ * 进样序列工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：按序列规则由质谱实验批次生成进样顺序，检查系统适用性、校准品位置和质控包夹，
+ * 确认后导出采集软件（MassHunter、Analyst、Xcalibur）的序列文件
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+import { getBatchExperiments, listBatchLayouts, formatWellPosition } from './plateLayout.js';
+
+/**
+ * 进样类型
+ */
+export type InjectionType = 'blank' | 'sst' | 'calibrator' | 'qc' | 'unknown';
+
+/**
+ * 进样类型中文名称
+ */
+export const INJECTION_TYPE_TEXT: Record<InjectionType, string> = {
+  blank: '空白',
+  sst: '系统适用性',
+  calibrator: '校准品',
+  qc: '质控',
+  unknown: '未知样本'
+};
+
+/**
+ * 序列文件格式
+ * @description generic-通用，masshunter-Agilent MassHunter，analyst-Sciex Analyst，xcalibur-Thermo Xcalibur
+ */
+export type SequenceExportFormat = 'generic' | 'masshunter' | 'analyst' | 'xcalibur';
+
+/**
+ * 校准品或质控品定义
+ */
+export interface SequenceStandard {
+  label: string;
+  level?: string;
+}
+
+/**
+ * 序列规则
+ * @description 依次进样前置空白、系统适用性、校准品、校准品后空白和一组质控，然后进样未知样本；
+ * qc_interval 大于0时每隔该数量的未知样本进样插入一组质控，trailing_qc 为 true 时末尾再进一组质控闭合，最后进样后置空白
+ */
+export interface SequenceRules {
+  key?: string;
+  name?: string;
+  leading_blanks: number;
+  sst_injections: number;
+  calibrators: SequenceStandard[];
+  blanks_after_calibrators: number;
+  qcs: SequenceStandard[];
+  qc_interval: number;
+  trailing_qc: boolean;
+  trailing_blanks: number;
+  unknown_replicates: number;
+  injection_volume: number | null;
+}
+
+/**
+ * 进样参数
+ */
+export interface SequenceItemInput {
+  injection_type: InjectionType;
+  experiment_id?: string | null;
+  label?: string | null;
+  level?: string | null;
+  replicate?: number;
+  vial_position?: string | null;
+  injection_volume?: number | null;
+}
+
+/**
+ * 序列违规
+ */
+export interface SequenceViolation {
+  code: string;
+  position: number | null;
+  message: string;
+}
+
+/**
+ * 进样记录
+ */
+export interface SequenceItemRow {
+  id: string;
+  position: number;
+  injection_type: InjectionType;
+  experiment_id: string | null;
+  sample_id: string | null;
+  label: string | null;
+  level: string | null;
+  replicate: number;
+  vial_position: string | null;
+  injection_volume: number | null;
+  experiments?: { id: string; experiment_no: string } | null;
+  samples?: { id: string; sample_no: string; barcode: string } | null;
+}
+
+/**
+ * 进样序列详情
+ */
+export interface InjectionSequenceDetail {
+  id: string;
+  batch_no: string;
+  rules: SequenceRules;
+  violations: SequenceViolation[];
+  status: 'draft' | 'confirmed';
+  confirmed_by: string | null;
+  confirmed_at: string | null;
+  remarks: string | null;
+  created_at: string;
+  updated_at: string;
+  injection_sequence_items?: SequenceItemRow[];
+}
+
+/**
+ * 批次实验
+ */
+type SequenceExperiment = Awaited<ReturnType<typeof getBatchExperiments>>['experiments'][number];
+
+/**
+ * 默认序列规则
+ */
+const DEFAULT_SEQUENCE_RULES: SequenceRules[] = [
+  {
+    key: 'standard',
+    name: '标准序列',
+    leading_blanks: 2,
+    sst_injections: 1,
+    calibrators: ['1', '2', '3', '4', '5', '6'].map(level => ({ label: `CAL${level}`, level })),
+    blanks_after_calibrators: 1,
+    qcs: [{ label: 'QC-L', level: 'L' }, { label: 'QC-M', level: 'M' }, { label: 'QC-H', level: 'H' }],
+    qc_interval: 10,
+    trailing_qc: true,
+    trailing_blanks: 1,
+    unknown_replicates: 1,
+    injection_volume: 5
+  }
+];
+
+/**
+ * 进样序列详情查询字段
+ */
+const SEQUENCE_DETAIL_FIELDS = `
+  *,
+  injection_sequence_items(
+    id,
+    position,
+    injection_type,
+    experiment_id,
+    sample_id,
+    label,
+    level,
+    replicate,
+    vial_position,
+    injection_volume,
+    experiments(
+      id,
+      experiment_no
+    ),
+    samples(
+      id,
+      sample_no,
+      barcode
+    )
+  )
+`;
+
+/**
+ * 获取序列规则
+ * @returns 系统配置的序列规则
+ */
+export const getSequenceRules = async (): Promise<SequenceRules[]> => {
+  const rules = await getConfigValue<SequenceRules[]>('ms.sequence_rules', DEFAULT_SEQUENCE_RULES);
+  return Array.isArray(rules) && rules.length > 0 ? rules : DEFAULT_SEQUENCE_RULES;
+};
+
+/**
+ * 补全序列规则
+ * @description 未提供的项目按不进样空白、系统适用性、校准品和质控，单次进样处理
+ * @param rules 提交的序列规则
+ * @returns 完整的序列规则
+ */
+export const normalizeSequenceRules = (rules: Partial<SequenceRules>): SequenceRules => ({
+  ...rules,
+  leading_blanks: rules.leading_blanks ?? 0,
+  sst_injections: rules.sst_injections ?? 0,
+  calibrators: rules.calibrators || [],
+  blanks_after_calibrators: rules.blanks_after_calibrators ?? 0,
+  qcs: rules.qcs || [],
+  qc_interval: rules.qc_interval ?? 0,
+  trailing_qc: rules.trailing_qc ?? false,
+  trailing_blanks: rules.trailing_blanks ?? 0,
+  unknown_replicates: rules.unknown_replicates ?? 1,
+  injection_volume: rules.injection_volume ?? null
+});
+
+/**
+ * 按序列规则生成进样顺序
+ * @param rules 序列规则
+ * @param experiments 批次实验
+ * @returns 按进样顺序排列的进样
+ */
+export const buildSequence = (rules: SequenceRules, experiments: { id: string }[]): SequenceItemInput[] => {
+  const items: SequenceItemInput[] = [];
+  let blankNo = 0;
+
+  const pushBlanks = (count: number) => {
+    for (let index = 0; index < count; index++) {
+      blankNo += 1;
+      items.push({ injection_type: 'blank', label: `BLANK${blankNo}` });
+    }
+  };
+  const pushQcs = () => {
+    rules.qcs.forEach(qc => items.push({ injection_type: 'qc', label: qc.label, level: qc.level ?? null }));
+  };
+
+  pushBlanks(rules.leading_blanks);
+  for (let index = 1; index <= rules.sst_injections; index++) {
+    items.push({ injection_type: 'sst', label: rules.sst_injections > 1 ? `SST${index}` : 'SST' });
+  }
+  rules.calibrators.forEach(calibrator => items.push({
+    injection_type: 'calibrator',
+    label: calibrator.label,
+    level: calibrator.level ?? null
+  }));
+  pushBlanks(rules.blanks_after_calibrators);
+  pushQcs();
+
+  const replicates = Math.max(1, rules.unknown_replicates);
+  let sinceQc = 0;
+
+  experiments.forEach(experiment => {
+    for (let replicate = 1; replicate <= replicates; replicate++) {
+      if (rules.qc_interval > 0 && sinceQc === rules.qc_interval) {
+        pushQcs();
+        sinceQc = 0;
+      }
+      items.push({ injection_type: 'unknown', experiment_id: experiment.id, replicate });
+      sinceQc += 1;
+    }
+  });
+
+  if (rules.trailing_qc) {
+    pushQcs();
+  }
+  pushBlanks(rules.trailing_blanks);
+
+  return items.map(item => ({ replicate: 1, injection_volume: rules.injection_volume, ...item }));
+};
+
+/**
+ * 检查进样序列
+ * @description 检查系统适用性是否先于其他非空白进样、校准品是否都在未知样本之前、未知样本是否被完整的质控组包夹
+ * 以及两组质控之间的未知样本进样数，并核对批次实验是否都已按规定次数进样
+ * @param items 按进样顺序排列的进样
+ * @param rules 序列规则
+ * @param experiments 批次实验
+ * @returns 违规列表，位置为进样序号
+ */
+export const checkSequence = (
+  items: SequenceItemInput[],
+  rules: SequenceRules,
+  experiments: { id: string; experiment_no: string }[]
+): SequenceViolation[] => {
+  const violations: SequenceViolation[] = [];
+  const positionOf = (index: number) => index + 1;
+  const unknownIndexes = items
+    .map((item, index) => (item.injection_type === 'unknown' ? index : -1))
+    .filter(index => index >= 0);
+  const firstUnknown = unknownIndexes[0] ?? -1;
+  const lastUnknown = unknownIndexes[unknownIndexes.length - 1] ?? -1;
+
+  // 系统适用性
+  if (rules.sst_injections > 0) {
+    const firstInjection = items.findIndex(item => item.injection_type !== 'blank');
+    if (!items.some(item => item.injection_type === 'sst')) {
+      violations.push({ code: 'sst_missing', position: null, message: '序列缺少系统适用性进样' });
+    } else if (firstInjection >= 0 && items[firstInjection].injection_type !== 'sst') {
+      violations.push({
+        code: 'sst_not_first',
+        position: positionOf(firstInjection),
+        message: '系统适用性进样应位于空白之后、其他进样之前'
+      });
+    }
+  }
+
+  // 校准品
+  if (firstUnknown >= 0) {
+    items.forEach((item, index) => {
+      if (item.injection_type === 'calibrator' && index > firstUnknown) {
+        violations.push({
+          code: 'calibrator_after_unknown',
+          position: positionOf(index),
+          message: `校准品 ${item.label || ''} 位于未知样本之后`
+        });
+      }
+    });
+    if (rules.calibrators.length > 0 && !items.slice(0, firstUnknown).some(item => item.injection_type === 'calibrator')) {
+      violations.push({ code: 'calibrator_missing', position: null, message: '未知样本之前没有校准品进样' });
+    }
+  }
+
+  // 质控包夹：连续的质控进样视为一组，空白不打断分组
+  const qcLevels = rules.qcs.map(qc => qc.label);
+  const groups: { start: number; end: number; labels: string[] }[] = [];
+  items.forEach((item, index) => {
+    if (item.injection_type !== 'qc') {
+      return;
+    }
+    const last = groups[groups.length - 1];
+    const between = last ? items.slice(last.end + 1, index) : [];
+    if (last && between.every(entry => entry.injection_type === 'blank')) {
+      last.end = index;
+      last.labels.push(item.label || '');
+    } else {
+      groups.push({ start: index, end: index, labels: [item.label || ''] });
+    }
+  });
+
+  if (firstUnknown >= 0 && qcLevels.length > 0) {
+    if (!groups.some(group => group.end < firstUnknown)) {
+      violations.push({
+        code: 'opening_qc_missing',
+        position: positionOf(firstUnknown),
+        message: '第一个未知样本之前缺少质控'
+      });
+    }
+    if (!groups.some(group => group.start > lastUnknown)) {
+      violations.push({
+        code: 'closing_qc_missing',
+        position: positionOf(lastUnknown),
+        message: '最后一个未知样本之后缺少质控闭合'
+      });
+    }
+
+    groups.forEach(group => {
+      const missing = qcLevels.filter(label => !group.labels.includes(label));
+      if (missing.length > 0) {
+        violations.push({
+          code: 'qc_group_incomplete',
+          position: positionOf(group.start),
+          message: `质控组缺少 ${missing.join('、')}`
+        });
+      }
+    });
+  }
+
+  if (rules.qc_interval > 0 && qcLevels.length > 0) {
+    let sinceQc = 0;
+    items.forEach((item, index) => {
+      if (item.injection_type === 'qc') {
+        sinceQc = 0;
+      } else if (item.injection_type === 'unknown') {
+        sinceQc += 1;
+        if (sinceQc === rules.qc_interval + 1) {
+          violations.push({
+            code: 'qc_interval_exceeded',
+            position: positionOf(index),
+            message: `两组质控之间的未知样本进样超过${rules.qc_interval}个`
+          });
+        }
+      }
+    });
+  }
+
+  // 批次实验进样次数
+  const replicates = Math.max(1, rules.unknown_replicates);
+  const counts = new Map<string, number>();
+  items.forEach(item => {
+    if (item.injection_type === 'unknown' && item.experiment_id) {
+      counts.set(item.experiment_id, (counts.get(item.experiment_id) || 0) + 1);
+    }
+  });
+  experiments.forEach(experiment => {
+    const count = counts.get(experiment.id) || 0;
+    if (count === 0) {
+      violations.push({ code: 'experiment_missing', position: null, message: `实验 ${experiment.experiment_no} 未进样` });
+    } else if (count !== replicates) {
+      violations.push({
+        code: 'replicate_mismatch',
+        position: null,
+        message: `实验 ${experiment.experiment_no} 进样${count}次，规则要求${replicates}次`
+      });
+    }
+  });
+
+  return violations;
+};
+
+/**
+ * 由批次孔板布局确定进样盘位置
+ * @description 未知样本按实验和复孔匹配孔位，其他进样按名称匹配第一个同名孔位
+ * @param batchNo 批次号
+ * @returns 查找进样盘位置的函数
+ */
+const getVialPositionResolver = async (batchNo: string) => {
+  const layouts = await listBatchLayouts(batchNo);
+  const byExperiment = new Map<string, string>();
+  const byLabel = new Map<string, string>();
+
+  layouts.forEach(layout => {
+    (layout.plate_wells || []).forEach(well => {
+      const position = `P${layout.plate_no}-${formatWellPosition(well.row_no, well.col_no, true)}`;
+      if (well.experiment_id) {
+        const key = `${well.experiment_id}-${well.replicate}`;
+        if (!byExperiment.has(key)) byExperiment.set(key, position);
+      } else if (well.label && !byLabel.has(well.label)) {
+        byLabel.set(well.label, position);
+      }
+    });
+  });
+
+  return (item: SequenceItemInput): string | null => {
+    if (item.injection_type === 'unknown') {
+      return byExperiment.get(`${item.experiment_id}-${item.replicate || 1}`)
+        || byExperiment.get(`${item.experiment_id}-1`)
+        || null;
+    }
+    return item.label ? byLabel.get(item.label) || null : null;
+  };
+};
+
+/**
+ * 获取质谱批次实验
+ * @param batchNo 批次号
+ * @returns 批次实验
+ */
+export const getSequenceExperiments = async (batchNo: string): Promise<SequenceExperiment[]> => {
+  const { method, experiments } = await getBatchExperiments(batchNo);
+  if (method !== 'mass_spec') {
+    throw new ValidationError(`批次 ${batchNo} 不是质谱实验批次`);
+  }
+  return experiments;
+};
+
+/**
+ * 获取批次的进样序列
+ * @param batchNo 批次号
+ * @returns 进样序列，未生成时为空
+ */
+export const getBatchSequence = async (batchNo: string): Promise<InjectionSequenceDetail | null> => {
+  const { data, error } = await supabase
+    .from('injection_sequences')
+    .select(SEQUENCE_DETAIL_FIELDS)
+    .eq('batch_no', batchNo)
+    .order('position', { referencedTable: 'injection_sequence_items', ascending: true })
+    .maybeSingle();
+
+  if (error) {
+    logger.error('获取进样序列失败:', error);
+    throw new DatabaseError('获取进样序列失败');
+  }
+
+  return data as InjectionSequenceDetail | null;
+};
+
+/**
+ * 获取进样序列详情
+ * @param id 进样序列ID
+ * @returns 进样序列及进样
+ */
+export const getInjectionSequence = async (id: string): Promise<InjectionSequenceDetail> => {
+  const { data, error } = await supabase
+    .from('injection_sequences')
+    .select(SEQUENCE_DETAIL_FIELDS)
+    .eq('id', id)
+    .order('position', { referencedTable: 'injection_sequence_items', ascending: true })
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('进样序列不存在');
+  }
+
+  return data as InjectionSequenceDetail;
+};
+
+/**
+ * 写入进样
+ * @description 整个序列替换；未知样本必须是本批次未取消的实验
+ * @param sequenceId 进样序列ID
+ * @param batchNo 批次号
+ * @param items 按进样顺序排列的进样
+ * @param experiments 批次实验
+ */
+const replaceSequenceItems = async (
+  sequenceId: string,
+  batchNo: string,
+  items: SequenceItemInput[],
+  experiments: SequenceExperiment[]
+) => {
+  const sampleIds = new Map(experiments.map(experiment => [experiment.id, experiment.sample_id]));
+  const invalid = items
+    .map((item, index) => ({ item, position: index + 1 }))
+    .filter(({ item }) => item.injection_type === 'unknown' && !sampleIds.has(item.experiment_id || ''));
+  if (invalid.length > 0) {
+    throw new ValidationError('未知样本的实验不属于该批次或已取消', {
+      positions: invalid.map(entry => entry.position)
+    });
+  }
+
+  const resolveVial = await getVialPositionResolver(batchNo);
+
+  const { error: deleteError } = await supabase
+    .from('injection_sequence_items')
+    .delete()
+    .eq('sequence_id', sequenceId);
+
+  if (deleteError) {
+    logger.error('清除进样序列失败:', deleteError);
+    throw new DatabaseError('清除进样序列失败');
+  }
+
+  if (items.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('injection_sequence_items')
+    .insert(items.map((item, index) => {
+      const isUnknown = item.injection_type === 'unknown';
+      return {
+        sequence_id: sequenceId,
+        position: index + 1,
+        injection_type: item.injection_type,
+        experiment_id: isUnknown ? item.experiment_id : null,
+        sample_id: isUnknown ? sampleIds.get(item.experiment_id!) : null,
+        label: isUnknown ? null : item.label || INJECTION_TYPE_TEXT[item.injection_type],
+        level: item.level || null,
+        replicate: item.replicate || 1,
+        vial_position: item.vial_position || resolveVial(item),
+        injection_volume: item.injection_volume ?? null
+      };
+    }));
+
+  if (error) {
+    logger.error('保存进样序列失败:', error);
+    throw new DatabaseError('保存进样序列失败');
+  }
+};
+
+/**
+ * 生成批次进样序列
+ * @description 按序列规则重新生成，替换原有草稿序列；已确认的序列需先撤销确认
+ * @param batchNo 批次号
+ * @param rules 序列规则
+ * @param operatorId 操作人ID
+ * @returns 进样序列详情
+ */
+export const generateSequence = async (batchNo: string, rules: SequenceRules, operatorId?: string) => {
+  const experiments = await getSequenceExperiments(batchNo);
+  const existing = await getBatchSequence(batchNo);
+
+  if (existing?.status === 'confirmed') {
+    throw new ConflictError('批次进样序列已确认，请先撤销确认再重新生成');
+  }
+
+  const items = buildSequence(rules, experiments);
+  const violations = checkSequence(items, rules, experiments);
+  const now = new Date().toISOString();
+  const row = { rules, violations, updated_at: now, updated_by: operatorId };
+
+  const { data: sequence, error } = existing
+    ? await supabase.from('injection_sequences').update(row).eq('id', existing.id).select('id').single()
+    : await supabase.from('injection_sequences').insert({ ...row, batch_no: batchNo, created_by: operatorId }).select('id').single();
+
+  if (error || !sequence) {
+    if (error?.code === '23505') {
+      throw new ConflictError('批次进样序列正在被其他操作修改，请刷新后重试');
+    }
+    logger.error('保存进样序列失败:', error);
+    throw new DatabaseError('保存进样序列失败');
+  }
+
+  await replaceSequenceItems(sequence.id, batchNo, items, experiments);
+
+  logger.info(`进样序列已生成: ${batchNo}，共${items.length}针，违规${violations.length}项`, { operatorId });
+  return getInjectionSequence(sequence.id);
+};
+
+/**
+ * 保存调整后的进样顺序
+ * @description 已确认的序列不能修改；保存时按序列规则重新检查违规
+ * @param id 进样序列ID
+ * @param items 按进样顺序排列的进样
+ * @param operatorId 操作人ID
+ * @returns 进样序列详情
+ */
+export const saveSequenceItems = async (id: string, items: SequenceItemInput[], operatorId?: string) => {
+  const sequence = await getInjectionSequence(id);
+  if (sequence.status !== 'draft') {
+    throw new ConflictError('进样序列已确认，不能修改');
+  }
+
+  const experiments = await getSequenceExperiments(sequence.batch_no);
+  const rules = normalizeSequenceRules(sequence.rules || {});
+  await replaceSequenceItems(id, sequence.batch_no, items, experiments);
+
+  const violations = checkSequence(items, rules, experiments);
+  const { error } = await supabase
+    .from('injection_sequences')
+    .update({ violations, updated_at: new Date().toISOString(), updated_by: operatorId })
+    .eq('id', id);
+
+  if (error) {
+    logger.error('更新进样序列失败:', error);
+    throw new DatabaseError('更新进样序列失败');
+  }
+
+  logger.info(`进样序列已保存: ${sequence.batch_no}，共${items.length}针，违规${violations.length}项`, { operatorId });
+  return getInjectionSequence(id);
+};
+
+/**
+ * 确认进样序列
+ * @description 存在违规时不能确认；确认时按批次当前实验重新检查
+ * @param id 进样序列ID
+ * @param operatorId 操作人ID
+ * @returns 进样序列详情
+ */
+export const confirmSequence = async (id: string, operatorId?: string) => {
+  const sequence = await getInjectionSequence(id);
+  if (sequence.status !== 'draft') {
+    throw new ConflictError('进样序列已确认');
+  }
+
+  const items: SequenceItemInput[] = sequence.injection_sequence_items || [];
+  if (items.length === 0) {
+    throw new ValidationError('进样序列没有任何进样');
+  }
+
+  const experiments = await getSequenceExperiments(sequence.batch_no);
+  const violations = checkSequence(items, normalizeSequenceRules(sequence.rules || {}), experiments);
+  if (violations.length > 0) {
+    await supabase.from('injection_sequences').update({ violations }).eq('id', id);
+    throw new ValidationError(`进样序列有${violations.length}项违规，不能确认`, { violations });
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('injection_sequences')
+    .update({
+      status: 'confirmed',
+      violations: [],
+      confirmed_by: operatorId,
+      confirmed_at: now,
+      updated_at: now,
+      updated_by: operatorId
+    })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    logger.error('确认进样序列失败:', error);
+    throw new ConflictError('进样序列状态已被其他操作修改，请刷新后重试');
+  }
+
+  logger.info(`进样序列已确认: ${sequence.batch_no}`, { operatorId });
+  return getInjectionSequence(id);
+};
+
+/**
+ * 撤销进样序列确认
+ * @param id 进样序列ID
+ * @param operatorId 操作人ID
+ * @returns 进样序列详情
+ */
+export const reopenSequence = async (id: string, operatorId?: string) => {
+  const sequence = await getInjectionSequence(id);
+
+  const { data, error } = await supabase
+    .from('injection_sequences')
+    .update({
+      status: 'draft',
+      confirmed_by: null,
+      confirmed_at: null,
+      updated_at: new Date().toISOString(),
+      updated_by: operatorId
+    })
+    .eq('id', id)
+    .eq('status', 'confirmed')
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new ConflictError('进样序列未确认，无需撤销');
+  }
+
+  logger.info(`进样序列已撤销确认: ${sequence.batch_no}`, { operatorId });
+  return getInjectionSequence(id);
+};
+
+/**
+ * 转换CSV字段
+ * @param value 字段值
+ * @returns 含逗号、引号或换行时加引号转义
+ */
+const toCsvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 进样的样本名称
+ * @param item 进样
+ * @returns 未知样本为条码（复测加序号），其他为名称
+ */
+const injectionName = (item: SequenceItemRow): string => {
+  if (item.injection_type !== 'unknown') {
+    return item.label || INJECTION_TYPE_TEXT[item.injection_type];
+  }
+  const name = item.samples?.barcode || item.samples?.sample_no || item.experiments?.experiment_no || '';
+  return item.replicate > 1 ? `${name}_${item.replicate}` : name;
+};
+
+/**
+ * 生成序列文件CSV
+ * @description 数据文件名按批次号和进样序号命名；通用格式带BOM以便Excel正确识别中文
+ * @param sequence 进样序列详情
+ * @param format 序列文件格式
+ * @returns CSV文本
+ */
+export const renderSequenceCsv = (sequence: InjectionSequenceDetail, format: SequenceExportFormat): string => {
+  const items = [...(sequence.injection_sequence_items || [])].sort((a, b) => a.position - b.position);
+  const dataFile = (item: SequenceItemRow) => `${sequence.batch_no}_${String(item.position).padStart(3, '0')}`;
+
+  let header: string[];
+  let lines: unknown[][];
+
+  switch (format) {
+    case 'masshunter': {
+      const sampleType: Record<InjectionType, string> = {
+        blank: 'Blank',
+        sst: 'TuneCheck',
+        calibrator: 'Calibration',
+        qc: 'QC',
+        unknown: 'Sample'
+      };
+      header = ['Sample Name', 'Sample Position', 'Sample Type', 'Level Name', 'Inj Vol (ul)', 'Data File'];
+      lines = items.map(item => [
+        injectionName(item),
+        item.vial_position,
+        sampleType[item.injection_type],
+        item.level,
+        item.injection_volume,
+        `${dataFile(item)}.d`
+      ]);
+      break;
+    }
+    case 'analyst': {
+      const sampleType: Record<InjectionType, string> = {
+        blank: 'Blank',
+        sst: 'Solvent',
+        calibrator: 'Standard',
+        qc: 'Quality Control',
+        unknown: 'Unknown'
+      };
+      header = ['Sample Name', 'Sample ID', 'Sample Type', 'Vial Position', 'Injection Volume', 'Data File'];
+      lines = items.map(item => [
+        injectionName(item),
+        item.experiments?.experiment_no || item.label,
+        sampleType[item.injection_type],
+        item.vial_position,
+        item.injection_volume,
+        sequence.batch_no
+      ]);
+      break;
+    }
+    case 'xcalibur': {
+      const sampleType: Record<InjectionType, string> = {
+        blank: 'Blank',
+        sst: 'Unknown',
+        calibrator: 'Std Bracket',
+        qc: 'QC',
+        unknown: 'Unknown'
+      };
+      header = ['Sample Type', 'File Name', 'Sample ID', 'Level', 'Position', 'Inj Vol'];
+      lines = items.map(item => [
+        sampleType[item.injection_type],
+        dataFile(item),
+        injectionName(item),
+        item.level,
+        item.vial_position,
+        item.injection_volume
+      ]);
+      break;
+    }
+    default:
+      header = ['序号', '类型', '名称', '水平', '复测', '进样位置', '进样体积(μL)', '样本编号', '条码', '实验编号', '数据文件'];
+      lines = items.map(item => [
+        item.position,
+        INJECTION_TYPE_TEXT[item.injection_type],
+        injectionName(item),
+        item.level,
+        item.replicate,
+        item.vial_position,
+        item.injection_volume,
+        item.samples?.sample_no,
+        item.samples?.barcode,
+        item.experiments?.experiment_no,
+        dataFile(item)
+      ]);
+  }
+
+  const csv = [header, ...lines].map(line => line.map(toCsvField).join(',')).join('\r\n');
+  return format === 'generic' ? `\uFEFF${csv}\r\n` : `${csv}\r\n`;
+};
@@ -0,0 +1,770 @@
+/**
+ * 仪器结果导入工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：按仪器映射方案解析上传的CSV/TSV/Excel结果文件，以样本条码或编号匹配实验和检测项目，逐行校验后返回预览；
+ * 确认导入时按实验写入实验数据，源文件行号及原始行保留在 instrument_data
+ */
+
+import ExcelJS from 'exceljs';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import {
+  getProductItems,
+  parseItemResult,
+  saveExperimentResults,
+  startExperiment,
+  type ExperimentMethod,
+  type TestItemInfo
+} from './experimentResults.js';
+
+/**
+ * 单次导入的最大数据行数
+ */
+export const INSTRUMENT_IMPORT_MAX_ROWS = 5000;
+
+/**
+ * 结果文件的最大字节数
+ */
+export const INSTRUMENT_IMPORT_MAX_FILE_SIZE = 8 * 1024 * 1024;
+
+/**
+ * 按样本条码或编号查询时每次查询的数量，避免请求URL过长
+ */
+const SAMPLE_LOOKUP_CHUNK = 200;
+
+/**
+ * 自动识别的分隔符
+ */
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+
+/**
+ * 文件版式
+ * @description wide-每行一个样本、每个检测项目一列，long-每行一个样本的一个检测项目
+ */
+export type ImportLayout = 'wide' | 'long';
+
+/**
+ * wide版式的项目列映射
+ */
+export interface ImportItemColumn {
+  column: string;
+  item_code: string;
+  unit_column?: string | null;
+}
+
+/**
+ * 仪器导入映射方案
+ */
+export interface InstrumentImportProfile {
+  id: string;
+  name: string;
+  equipment_id?: string | null;
+  method: ExperimentMethod;
+  delimiter?: string | null;
+  header_row: number;
+  layout: ImportLayout;
+  sample_column: string;
+  sample_key: 'barcode' | 'sample_no';
+  item_columns: ImportItemColumn[];
+  item_column?: string | null;
+  value_column?: string | null;
+  unit_column?: string | null;
+  measured_at_column?: string | null;
+  skip_sample_pattern?: string | null;
+  is_active: boolean;
+}
+
+/**
+ * 上传的结果文件
+ * @description .xlsx 读取第一个工作表，.csv、.tsv、.txt 按方案分隔符解析
+ */
+export interface InstrumentImportFile {
+  name: string;
+  buffer: Buffer;
+}
+
+/**
+ * 可录入结果的实验
+ */
+interface ImportExperimentRow {
+  id: string;
+  experiment_no: string;
+  sample_id: string;
+  product_id: string;
+  method: ExperimentMethod;
+  status: string;
+}
+
+/**
+ * 行级错误
+ * @description row_no 为源文件中的行号，column 为出错的列名
+ */
+export interface InstrumentRowError {
+  row_no: number;
+  column: string;
+  message: string;
+}
+
+/**
+ * 待写入的结果
+ */
+export interface ImportResultEntry {
+  row_no: number;
+  item_id: string;
+  item_code: string;
+  item_name: string;
+  result_value: string;
+  unit?: string;
+  measured_at?: string;
+  raw: Record<string, string>;
+}
+
+/**
+ * 按实验汇总的预览结果
+ */
+export interface ImportExperimentPreview {
+  experiment_id: string;
+  experiment_no: string;
+  sample_id: string;
+  sample_no: string;
+  product_id: string;
+  status: string;
+  results: ImportResultEntry[];
+}
+
+/**
+ * 导入校验结果
+ */
+export interface InstrumentImportValidation {
+  total_rows: number;
+  skipped_count: number;
+  result_count: number;
+  error_count: number;
+  errors: InstrumentRowError[];
+  experiments: ImportExperimentPreview[];
+}
+
+/**
+ * 去除首尾空白，空串视为空
+ * @param value 单元格值
+ * @returns 清理后的值
+ */
+const clean = (value?: string | null): string | null => {
+  const text = (value ?? '').trim();
+  return text === '' ? null : text;
+};
+
+/**
+ * 按通配符匹配
+ * @description * 匹配任意个字符，? 匹配单个字符，不区分大小写；逐字符比对而不转成正则，用户配置的规则不会引起回溯
+ * @param value 样本列内容
+ * @param pattern 通配符规则
+ * @returns 是否匹配
+ */
+const matchesGlob = (value: string, pattern: string): boolean => {
+  const text = value.toUpperCase();
+  const glob = pattern.toUpperCase();
+  let t = 0;
+  let g = 0;
+  let starAt = -1;
+  let starText = 0;
+
+  while (t < text.length) {
+    if (g < glob.length && (glob[g] === '?' || glob[g] === text[t])) {
+      t++;
+      g++;
+    } else if (g < glob.length && glob[g] === '*') {
+      starAt = g++;
+      starText = t;
+    } else if (starAt >= 0) {
+      // 回到上一个 * 多吞一个字符
+      g = starAt + 1;
+      t = ++starText;
+    } else {
+      return false;
+    }
+  }
+
+  while (glob[g] === '*') {
+    g++;
+  }
+  return g === glob.length;
+};
+
+/**
+ * 生成跳过样本判定
+ * @param pattern 跳过样本规则，多条通配符以逗号分隔，如 CAL*,QC*,BLANK
+ * @returns 判定函数，未配置规则时不跳过
+ */
+const createSkipMatcher = (pattern?: string | null) => {
+  const globs = (pattern || '').split(/[,，]/).map(item => item.trim()).filter(Boolean);
+  return (sampleKey: string) => globs.some(glob => matchesGlob(sampleKey, glob));
+};
+
+/**
+ * 识别分隔符
+ * @description 取表头行中出现次数最多的候选分隔符，引号内的字符不计
+ * @param line 表头行
+ * @returns 分隔符，默认逗号
+ */
+export const detectDelimiter = (line: string): string => {
+  const counts = new Map<string, number>();
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && DELIMITER_CANDIDATES.includes(char)) {
+      counts.set(char, (counts.get(char) || 0) + 1);
+    }
+  }
+
+  const [best] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  return best ? best[0] : ',';
+};
+
+/**
+ * 解析分隔符文本
+ * @description 按RFC 4180处理双引号包裹的字段、转义引号及字段内换行，保留空行以保证行号与源文件一致
+ * @param text 文件内容
+ * @param delimiter 分隔符，为空时按首个非空行自动识别
+ * @returns 按行的单元格文本
+ */
+export const parseDelimitedText = (text: string, delimiter?: string | null): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const separator = delimiter
+    || detectDelimiter(content.split(/\r?\n/).find(line => line.trim() !== '') || '');
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (content.startsWith(separator, i)) {
+      record.push(cell);
+      cell = '';
+      i += separator.length - 1;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records;
+};
+
+/**
+ * 单元格值转文本
+ * @description Excel日期不带时区，按UTC分量还原为仪器本地时间文本
+ * @param value 单元格值
+ * @returns 单元格文本
+ */
+const cellToText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())} `
+      + `${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}`;
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+    if ('result' in value) return cellToText(value.result as ExcelJS.CellValue);
+    if ('text' in value) return String(value.text).trim();
+    return '';
+  }
+  return String(value).trim();
+};
+
+/**
+ * 读取Excel第一个工作表的全部单元格文本
+ * @description 保留空行，返回数组下标与工作表行号（从1开始）一一对应
+ * @param buffer 文件内容
+ * @returns 按行的单元格文本
+ */
+const readWorksheetGrid = async (buffer: Buffer): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch (error) {
+    logger.warn('读取Excel结果文件失败:', error);
+    throw new ValidationError('无法读取Excel文件，请确认文件为 .xlsx 格式');
+  }
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const grid: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    const cells: string[] = [];
+    for (let col = 1; col <= worksheet.columnCount; col++) {
+      cells.push(cellToText(row.getCell(col).value));
+    }
+    grid.push(cells);
+  }
+  return grid;
+};
+
+/**
+ * 解析结果文件为单元格表格
+ * @description 按扩展名区分格式，文本文件按UTF-8读取；.tsv 未配置分隔符时按制表符解析
+ * @param profile 映射方案
+ * @param file 结果文件
+ * @returns 按行的单元格文本
+ */
+export const parseImportFile = async (profile: InstrumentImportProfile, file: InstrumentImportFile): Promise<string[][]> => {
+  const extension = (file.name.match(/\.([^.]+)$/)?.[1] || '').toLowerCase();
+
+  if (extension === 'xlsx') {
+    return readWorksheetGrid(file.buffer);
+  }
+  if (['csv', 'tsv', 'txt'].includes(extension)) {
+    const delimiter = profile.delimiter || (extension === 'tsv' ? '\t' : null);
+    return parseDelimitedText(file.buffer.toString('utf8'), delimiter);
+  }
+
+  throw new ValidationError('结果文件只支持 .csv、.tsv、.txt 或 .xlsx 格式');
+};
+
+/**
+ * 按方案读取数据行
+ * @description 表头行之前的内容忽略，表头行之后的全空行跳过；列按表头名称取值，重名列取第一列
+ * @param profile 映射方案
+ * @param grid 结果文件的单元格表格
+ * @returns 表头及数据行
+ */
+export const readImportRows = (profile: InstrumentImportProfile, grid: string[][]) => {
+  const headers = (grid[profile.header_row - 1] || []).map(header => header.trim());
+
+  if (headers.length === 0 || headers.every(header => header === '')) {
+    throw new ValidationError(`文件第${profile.header_row}行没有表头`);
+  }
+
+  const missing = getMappedColumns(profile).filter(column => !headers.includes(column));
+  if (missing.length > 0) {
+    throw new ValidationError(`文件缺少映射的列：${missing.join('、')}`, { missing_columns: missing, headers });
+  }
+
+  const rows: { row_no: number; cells: Record<string, string> }[] = [];
+  grid.slice(profile.header_row).forEach((values, index) => {
+    if (!values.some(value => value.trim() !== '')) return;
+
+    const cells: Record<string, string> = {};
+    headers.forEach((header, col) => {
+      if (header && !(header in cells)) {
+        cells[header] = (values[col] ?? '').trim();
+      }
+    });
+    rows.push({ row_no: profile.header_row + index + 1, cells });
+  });
+
+  if (rows.length > INSTRUMENT_IMPORT_MAX_ROWS) {
+    throw new ValidationError(`单次最多导入${INSTRUMENT_IMPORT_MAX_ROWS}行数据`);
+  }
+
+  return { headers, rows };
+};
+
+/**
+ * 获取方案映射的全部列名
+ * @param profile 映射方案
+ * @returns 列名
+ */
+const getMappedColumns = (profile: InstrumentImportProfile): string[] => {
+  const columns = [profile.sample_column, profile.measured_at_column];
+  if (profile.layout === 'wide') {
+    profile.item_columns.forEach(item => columns.push(item.column, item.unit_column));
+  } else {
+    columns.push(profile.item_column, profile.value_column, profile.unit_column);
+  }
+  return [...new Set(columns.filter(Boolean) as string[])];
+};
+
+/**
+ * 获取映射方案
+ * @param id 方案ID
+ * @returns 映射方案
+ */
+export const getImportProfile = async (id: string): Promise<InstrumentImportProfile> => {
+  const { data, error } = await supabase
+    .from('instrument_import_profiles')
+    .select('*, equipment(id, equipment_no, name, model, manufacturer)')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('导入映射方案不存在');
+  }
+
+  return data as InstrumentImportProfile;
+};
+
+/**
+ * 查询映射方案
+ * @param filters 实验方法、是否只查启用方案
+ * @returns 映射方案列表
+ */
+export const listImportProfiles = async (filters: { method?: ExperimentMethod; activeOnly?: boolean }) => {
+  let query = supabase
+    .from('instrument_import_profiles')
+    .select('*, equipment(id, equipment_no, name, model, manufacturer)')
+    .order('name', { ascending: true });
+
+  if (filters.method) {
+    query = query.eq('method', filters.method);
+  }
+  if (filters.activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('获取导入映射方案失败:', error);
+    throw new DatabaseError('获取导入映射方案失败');
+  }
+
+  return (data || []) as InstrumentImportProfile[];
+};
+
+/**
+ * 校验映射方案配置
+ * @description wide版式至少映射一个项目列，long版式须指定项目列和结果列
+ * @param profile 映射方案
+ */
+export const assertProfileValid = (profile: Partial<InstrumentImportProfile>): void => {
+  if (profile.layout === 'long') {
+    if (!profile.item_column || !profile.value_column) {
+      throw new ValidationError('逐项版式须指定检测项目列和结果列');
+    }
+  } else if (!profile.item_columns || profile.item_columns.length === 0) {
+    throw new ValidationError('逐样本版式至少映射一个检测项目列');
+  }
+
+};
+
+/**
+ * 按样本条码或编号查找可录入结果的实验
+ * @param method 实验方法
+ * @param sampleKey 样本列内容类型
+ * @param keys 样本条码或编号
+ * @returns 样本键到实验列表的映射
+ */
+const findExperimentsBySample = async (
+  method: ExperimentMethod,
+  sampleKey: 'barcode' | 'sample_no',
+  keys: string[]
+) => {
+  const samples: { id: string; sample_no: string; barcode: string }[] = [];
+
+  for (let i = 0; i < keys.length; i += SAMPLE_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('samples')
+      .select('id, sample_no, barcode')
+      .in(sampleKey, keys.slice(i, i + SAMPLE_LOOKUP_CHUNK));
+
+    if (error) {
+      logger.error('按样本查询失败:', error);
+      throw new DatabaseError('查询样本失败');
+    }
+    samples.push(...(data || []));
+  }
+
+  const experiments: ImportExperimentRow[] = [];
+  const sampleIds = samples.map(sample => sample.id);
+
+  for (let i = 0; i < sampleIds.length; i += SAMPLE_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('experiments')
+      .select('id, experiment_no, sample_id, product_id, method, status')
+      .eq('method', method)
+      .in('sample_id', sampleIds.slice(i, i + SAMPLE_LOOKUP_CHUNK))
+      .in('status', ['pending', 'in_progress']);
+
+    if (error) {
+      logger.error('按样本查询实验失败:', error);
+      throw new DatabaseError('查询实验失败');
+    }
+    experiments.push(...((data || []) as ImportExperimentRow[]));
+  }
+
+  const result = new Map<string, { sample: (typeof samples)[number]; experiments: ImportExperimentRow[] }>();
+  samples.forEach(sample => {
+    result.set(sample[sampleKey], {
+      sample,
+      experiments: experiments.filter(experiment => experiment.sample_id === sample.id)
+    });
+  });
+
+  return result;
+};
+
+/**
+ * 在检测项目中按编码或名称匹配
+ * @param items 检测项目
+ * @param key 项目编码或名称
+ * @returns 匹配的检测项目
+ */
+const matchItem = <T extends TestItemInfo>(items: T[], key: string): T | undefined => {
+  const lower = key.toLowerCase();
+  return items.find(item => item.code.toLowerCase() === lower) || items.find(item => item.name === key);
+};
+
+/**
+ * 校验仪器结果文件
+ * @description 不写入任何数据；样本须有该方法进行中或待开始的实验且实验的检测产品包含该项目，
+ * 结果按项目定义校验数值和单位；同一实验同一项目在文件中出现多次时报错；
+ * wide版式的空结果单元格忽略，样本列为空或匹配跳过规则的行计为跳过
+ * @param profile 映射方案
+ * @param file 结果文件
+ * @returns 校验结果，含全部行级错误及按实验汇总的预览
+ */
+export const validateInstrumentImport = async (
+  profile: InstrumentImportProfile,
+  file: InstrumentImportFile
+): Promise<InstrumentImportValidation> => {
+  const { rows } = readImportRows(profile, await parseImportFile(profile, file));
+  const isSkipped = createSkipMatcher(profile.skip_sample_pattern);
+
+  const dataRows = rows.filter(row => {
+    const sampleKey = clean(row.cells[profile.sample_column]);
+    return sampleKey && !isSkipped(sampleKey);
+  });
+
+  const sampleKeys = [...new Set(dataRows.map(row => clean(row.cells[profile.sample_column])!))];
+  const sampleMap = await findExperimentsBySample(profile.method, profile.sample_key, sampleKeys);
+
+  // 按检测产品缓存项目，同一批次通常只有少数几个产品
+  const productItems = new Map<string, Awaited<ReturnType<typeof getProductItems>>>();
+  const loadItems = async (productId: string) => {
+    if (!productItems.has(productId)) {
+      productItems.set(
+        productId,
+        (await getProductItems(productId)).filter(item => item.method === profile.method)
+      );
+    }
+    return productItems.get(productId)!;
+  };
+
+  const errors: InstrumentRowError[] = [];
+  const previews = new Map<string, ImportExperimentPreview>();
+  const seen = new Map<string, number>();
+
+  for (const row of dataRows) {
+    const sampleKey = clean(row.cells[profile.sample_column])!;
+    const addError = (column: string, message: string) => {
+      errors.push({ row_no: row.row_no, column, message });
+    };
+
+    const matched = sampleMap.get(sampleKey);
+    if (!matched) {
+      addError(profile.sample_column, `样本 ${sampleKey} 不存在`);
+      continue;
+    }
+    if (matched.experiments.length === 0) {
+      addError(profile.sample_column, `样本 ${sampleKey} 没有待录入结果的实验`);
+      continue;
+    }
+
+    // 测定时间
+    let measuredAt: string | undefined;
+    const rawMeasuredAt = profile.measured_at_column ? clean(row.cells[profile.measured_at_column]) : null;
+    if (rawMeasuredAt) {
+      const parsed = new Date(rawMeasuredAt);
+      if (Number.isNaN(parsed.getTime())) {
+        addError(profile.measured_at_column!, `测定时间 ${rawMeasuredAt} 格式无效`);
+        continue;
+      }
+      measuredAt = parsed.toISOString();
+    }
+
+    // 本行的项目结果
+    const cellResults: { column: string; itemKey: string; value: string; unit?: string }[] = [];
+    if (profile.layout === 'wide') {
+      profile.item_columns.forEach(mapping => {
+        const value = clean(row.cells[mapping.column]);
+        if (value) {
+          const unit = mapping.unit_column ? clean(row.cells[mapping.unit_column]) : null;
+          cellResults.push({ column: mapping.column, itemKey: mapping.item_code, value, unit: unit || undefined });
+        }
+      });
+    } else {
+      const itemKey = clean(row.cells[profile.item_column!]);
+      const value = clean(row.cells[profile.value_column!]);
+      const unit = profile.unit_column ? clean(row.cells[profile.unit_column]) : null;
+      if (!itemKey) {
+        addError(profile.item_column!, '检测项目不能为空');
+        continue;
+      }
+      if (!value) {
+        addError(profile.value_column!, '结果不能为空');
+        continue;
+      }
+      cellResults.push({ column: profile.value_column!, itemKey, value, unit: unit || undefined });
+    }
+
+    for (const cellResult of cellResults) {
+      // 样本有多个实验时取检测产品包含该项目的实验
+      let experiment: ImportExperimentRow | undefined;
+      let item: TestItemInfo | undefined;
+      for (const candidate of matched.experiments) {
+        item = matchItem(await loadItems(candidate.product_id), cellResult.itemKey);
+        if (item) {
+          experiment = candidate;
+          break;
+        }
+      }
+
+      if (!experiment || !item) {
+        addError(cellResult.column, `样本 ${sampleKey} 的实验不包含检测项目 ${cellResult.itemKey}`);
+        continue;
+      }
+
+      const key = `${experiment.id}:${item.id}`;
+      if (seen.has(key)) {
+        addError(cellResult.column, `检测项目 ${item.name} 与第${seen.get(key)}行重复`);
+        continue;
+      }
+      seen.set(key, row.row_no);
+
+      try {
+        parseItemResult(item, { item_id: item.id, result_value: cellResult.value, unit: cellResult.unit });
+      } catch (error) {
+        addError(cellResult.column, error instanceof Error ? error.message : '结果无效');
+        continue;
+      }
+
+      if (!previews.has(experiment.id)) {
+        previews.set(experiment.id, {
+          experiment_id: experiment.id,
+          experiment_no: experiment.experiment_no,
+          sample_id: matched.sample.id,
+          sample_no: matched.sample.sample_no,
+          product_id: experiment.product_id,
+          status: experiment.status,
+          results: []
+        });
+      }
+      previews.get(experiment.id)!.results.push({
+        row_no: row.row_no,
+        item_id: item.id,
+        item_code: item.code,
+        item_name: item.name,
+        result_value: cellResult.value,
+        unit: cellResult.unit,
+        measured_at: measuredAt,
+        raw: row.cells
+      });
+    }
+  }
+
+  const experiments = [...previews.values()];
+  return {
+    total_rows: rows.length,
+    skipped_count: rows.length - dataRows.length,
+    result_count: experiments.reduce((sum, experiment) => sum + experiment.results.length, 0),
+    error_count: new Set(errors.map(error => error.row_no)).size,
+    errors,
+    experiments
+  };
+};
+
+/**
+ * 导入仪器结果
+ * @description 先登记导入记录，再按实验逐个写入结果（待开始的实验自动开始）；
+ * 每条结果的 instrument_data 记录导入ID、方案、文件名、源行号及原始行
+ * @param profile 映射方案
+ * @param validation 校验通过的结果
+ * @param fileName 文件名
+ * @param operatorId 操作人ID
+ * @returns 导入记录
+ */
+export const importInstrumentResults = async (
+  profile: InstrumentImportProfile,
+  validation: InstrumentImportValidation,
+  fileName: string,
+  operatorId?: string
+) => {
+  const { data: record, error: recordError } = await supabase
+    .from('instrument_imports')
+    .insert({
+      profile_id: profile.id,
+      file_name: fileName,
+      row_count: validation.total_rows - validation.skipped_count,
+      experiment_count: validation.experiments.length,
+      result_count: validation.result_count,
+      imported_by: operatorId
+    })
+    .select()
+    .single();
+
+  if (recordError || !record) {
+    logger.error('创建仪器导入记录失败:', recordError);
+    throw new DatabaseError('创建仪器导入记录失败');
+  }
+
+  for (const experiment of validation.experiments) {
+    const target = {
+      id: experiment.experiment_id,
+      experiment_no: experiment.experiment_no,
+      sample_id: experiment.sample_id,
+      product_id: experiment.product_id,
+      method: profile.method
+    };
+
+    if (experiment.status === 'pending') {
+      await startExperiment(target, operatorId);
+    }
+
+    await saveExperimentResults(
+      target,
+      experiment.results.map(result => ({
+        item_id: result.item_id,
+        result_value: result.result_value,
+        unit: result.unit,
+        measured_at: result.measured_at,
+        instrument_data: {
+          import_id: record.id,
+          profile: profile.name,
+          file_name: fileName,
+          row_no: result.row_no,
+          raw: result.raw
+        }
+      })),
+      operatorId
+    );
+  }
+
+  logger.info(`仪器结果已导入: ${fileName}，实验${validation.experiments.length}个，结果${validation.result_count}条`, {
+    profile: profile.name,
+    operatorId
+  });
+
+  return record;
+};
@@ -0,0 +1,76 @@
+/**
+ * 系统通知工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：写入 notifications 表，由通知发送任务按渠道投递
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { DatabaseError } from '../middleware/enhancedErrorHandler.js';
+
+/**
+ * 通知优先级
+ */
+export type NotificationPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+/**
+ * 通知渠道
+ */
+export type NotificationChannel = 'email' | 'sms' | 'system';
+
+/**
+ * 外部收件人
+ * @description 无系统账号的联系人，如送检单位联系人
+ */
+export interface NotificationRecipient {
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * 创建通知参数
+ */
+export interface CreateNotificationInput {
+  title: string;
+  content: string;
+  type: string;
+  priority?: NotificationPriority;
+  targetUsers?: string[];
+  targetRoles?: string[];
+  channels?: NotificationChannel[];
+  recipients?: NotificationRecipient[];
+  createdBy?: string;
+}
+
+/**
+ * 创建系统通知
+ * @param input 通知参数
+ * @returns 通知记录
+ */
+export const createNotification = async (input: CreateNotificationInput) => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .insert({
+      title: input.title,
+      content: input.content,
+      type: input.type,
+      priority: input.priority || 'normal',
+      target_users: input.targetUsers || [],
+      target_roles: input.targetRoles || [],
+      channels: input.channels || ['system'],
+      recipients: input.recipients || null,
+      status: 'pending',
+      created_by: input.createdBy
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('创建通知失败:', error);
+    throw new DatabaseError('创建通知失败');
+  }
+
+  return data;
+};
@@ -0,0 +1,872 @@
+/**
+ * 孔板布局工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：按排布方案将批次实验的样本、校准品、质控品和空白自动填充到96/384孔板，保存手动调整的布局，
+ * 导出移液工作站和仪器工作列表（CSV）及孔板布局图（PDF）
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+import { renderHtmlToPdf } from './reportPdf.js';
+import { escapeHtml } from './reportTemplate.js';
+import type { ExperimentMethod } from './experimentResults.js';
+
+/**
+ * 孔板规格
+ */
+export type PlateFormat = 96 | 384;
+
+/**
+ * 孔位类型
+ */
+export type WellType = 'sample' | 'calibrator' | 'control' | 'blank';
+
+/**
+ * 孔位类型中文名称
+ */
+export const WELL_TYPE_TEXT: Record<WellType, string> = {
+  sample: '样本',
+  calibrator: '校准品',
+  control: '质控品',
+  blank: '空白'
+};
+
+/**
+ * 孔板行列数
+ */
+export const PLATE_DIMENSIONS: Record<PlateFormat, { rows: number; cols: number }> = {
+  96: { rows: 8, cols: 12 },
+  384: { rows: 16, cols: 24 }
+};
+
+/**
+ * 工作列表格式
+ * @description generic-通用，tecan-Tecan移液工作站，hamilton-Hamilton移液工作站，masshunter-Agilent MassHunter进样序列
+ */
+export type WorklistFormat = 'generic' | 'tecan' | 'hamilton' | 'masshunter';
+
+/**
+ * 校准品或质控品定义
+ */
+export interface PlateStandard {
+  label: string;
+  level?: string;
+  concentration?: number;
+}
+
+/**
+ * 孔板排布方案
+ * @description 每块板依次放置空白、校准品、质控品，然后放置样本；control_interval 大于0时每隔该数量的样本插入一组质控，
+ * trailing_controls 为 true 时板末再放一组质控；样本超出一块板容量时顺延到下一块板，每块板重复上述标准品和质控
+ */
+export interface PlateFillPattern {
+  key?: string;
+  name?: string;
+  direction: 'row' | 'column';
+  blanks: number;
+  calibrators: PlateStandard[];
+  controls: PlateStandard[];
+  control_interval: number;
+  trailing_controls: boolean;
+  sample_replicates: number;
+  skip_edge_wells: boolean;
+}
+
+/**
+ * 孔位分配参数
+ */
+export interface PlateWellInput {
+  row_no: number;
+  col_no: number;
+  well_type: WellType;
+  experiment_id?: string | null;
+  label?: string | null;
+  level?: string | null;
+  concentration?: number | null;
+  replicate?: number;
+}
+
+/**
+ * 未分配孔位的孔内容
+ */
+type PlateEntry = Omit<PlateWellInput, 'row_no' | 'col_no'>;
+
+/**
+ * 批次实验
+ */
+interface BatchExperiment {
+  id: string;
+  experiment_no: string;
+  sample_id: string;
+  method: ExperimentMethod;
+  status: string;
+  samples?: { id: string; sample_no: string; barcode: string } | null;
+  test_products?: { id: string; code: string; name: string } | null;
+}
+
+/**
+ * 孔位分配记录
+ */
+export interface PlateWellRow {
+  id: string;
+  row_no: number;
+  col_no: number;
+  well_type: WellType;
+  experiment_id: string | null;
+  sample_id: string | null;
+  label: string | null;
+  level: string | null;
+  concentration: number | null;
+  replicate: number;
+  experiments?: {
+    id: string;
+    experiment_no: string;
+    test_products?: { id: string; code: string; name: string } | null;
+  } | null;
+  samples?: { id: string; sample_no: string; barcode: string } | null;
+}
+
+/**
+ * 孔板布局详情
+ */
+export interface PlateLayoutDetail {
+  id: string;
+  batch_no: string;
+  plate_no: number;
+  plate_format: PlateFormat;
+  method: ExperimentMethod;
+  pattern: Partial<PlateFillPattern> | null;
+  status: 'draft' | 'confirmed';
+  confirmed_by: string | null;
+  confirmed_at: string | null;
+  remarks: string | null;
+  created_at: string;
+  updated_at: string;
+  plate_wells?: PlateWellRow[];
+}
+
+/**
+ * 默认排布方案
+ */
+const DEFAULT_FILL_PATTERNS: PlateFillPattern[] = [
+  {
+    key: 'standard',
+    name: '标准曲线+质控',
+    direction: 'column',
+    blanks: 1,
+    calibrators: ['1', '2', '3', '4', '5', '6'].map(level => ({ label: `CAL${level}`, level })),
+    controls: [{ label: 'QC-L', level: 'L' }, { label: 'QC-H', level: 'H' }],
+    control_interval: 20,
+    trailing_controls: true,
+    sample_replicates: 1,
+    skip_edge_wells: false
+  }
+];
+
+/**
+ * 孔板布局详情查询字段
+ */
+const LAYOUT_DETAIL_FIELDS = `
+  *,
+  plate_wells(
+    id,
+    row_no,
+    col_no,
+    well_type,
+    experiment_id,
+    sample_id,
+    label,
+    level,
+    concentration,
+    replicate,
+    experiments(
+      id,
+      experiment_no,
+      test_products(
+        id,
+        code,
+        name
+      )
+    ),
+    samples(
+      id,
+      sample_no,
+      barcode
+    )
+  )
+`;
+
+/**
+ * 生成孔位编号
+ * @param rowNo 行号（从1开始）
+ * @param colNo 列号（从1开始）
+ * @param padColumn 列号是否补零到两位，如 A01
+ * @returns 孔位编号，如 A1
+ */
+export const formatWellPosition = (rowNo: number, colNo: number, padColumn = false): string => {
+  const col = padColumn ? String(colNo).padStart(2, '0') : String(colNo);
+  return `${String.fromCharCode(64 + rowNo)}${col}`;
+};
+
+/**
+ * 获取孔板排布方案
+ * @returns 系统配置的排布方案
+ */
+export const getFillPatterns = async (): Promise<PlateFillPattern[]> => {
+  const patterns = await getConfigValue<PlateFillPattern[]>('plate.fill_patterns', DEFAULT_FILL_PATTERNS);
+  return Array.isArray(patterns) && patterns.length > 0 ? patterns : DEFAULT_FILL_PATTERNS;
+};
+
+/**
+ * 补全排布方案
+ * @description 未提供的项目按不放置空白、标准品和质控，单孔、不跳过边缘孔处理
+ * @param pattern 提交的排布方案
+ * @returns 完整的排布方案
+ */
+export const normalizeFillPattern = (pattern: Partial<PlateFillPattern>): PlateFillPattern => ({
+  ...pattern,
+  direction: pattern.direction === 'row' ? 'row' : 'column',
+  blanks: pattern.blanks ?? 0,
+  calibrators: pattern.calibrators || [],
+  controls: pattern.controls || [],
+  control_interval: pattern.control_interval ?? 0,
+  trailing_controls: pattern.trailing_controls ?? false,
+  sample_replicates: pattern.sample_replicates ?? 1,
+  skip_edge_wells: pattern.skip_edge_wells ?? false
+});
+
+/**
+ * 获取批次实验
+ * @description 已取消的实验不参与布局
+ * @param batchNo 批次号
+ * @returns 批次实验方法及实验列表
+ */
+export const getBatchExperiments = async (batchNo: string) => {
+  const { data, error } = await supabase
+    .from('experiments')
+    .select(`
+      id,
+      experiment_no,
+      sample_id,
+      method,
+      status,
+      samples(
+        id,
+        sample_no,
+        barcode
+      ),
+      test_products(
+        id,
+        code,
+        name
+      )
+    `)
+    .eq('batch_no', batchNo)
+    .neq('status', 'cancelled')
+    .order('experiment_no', { ascending: true });
+
+  if (error) {
+    logger.error('获取批次实验失败:', error);
+    throw new DatabaseError('获取批次实验失败');
+  }
+
+  const experiments: BatchExperiment[] = (data || []).map(experiment => ({
+    ...experiment,
+    samples: firstRelation(experiment.samples),
+    test_products: firstRelation(experiment.test_products)
+  }));
+  if (experiments.length === 0) {
+    throw new NotFoundError('批次不存在或批次内实验均已取消');
+  }
+
+  return { method: experiments[0].method, experiments };
+};
+
+/**
+ * 按填充方向排列孔位
+ * @param format 孔板规格
+ * @param direction 填充方向：row-逐行，column-逐列
+ * @param skipEdge 是否跳过边缘孔
+ * @returns 孔位行列号
+ */
+const orderWellPositions = (format: PlateFormat, direction: 'row' | 'column', skipEdge: boolean) => {
+  const { rows, cols } = PLATE_DIMENSIONS[format];
+  const positions: { row_no: number; col_no: number }[] = [];
+  const outer = direction === 'row' ? rows : cols;
+  const inner = direction === 'row' ? cols : rows;
+
+  for (let i = 1; i <= outer; i++) {
+    for (let j = 1; j <= inner; j++) {
+      const rowNo = direction === 'row' ? i : j;
+      const colNo = direction === 'row' ? j : i;
+      if (skipEdge && (rowNo === 1 || rowNo === rows || colNo === 1 || colNo === cols)) {
+        continue;
+      }
+      positions.push({ row_no: rowNo, col_no: colNo });
+    }
+  }
+
+  return positions;
+};
+
+/**
+ * 按排布方案生成各孔板的孔位内容
+ * @description 同一样本的复孔放在同一块板上
+ * @param pattern 排布方案
+ * @param experiments 批次实验
+ * @param capacity 每块板可用孔数
+ * @returns 每块板按填充顺序排列的孔位内容
+ */
+const buildPlateEntries = (
+  pattern: PlateFillPattern,
+  experiments: BatchExperiment[],
+  capacity: number
+) => {
+  const standard = (item: PlateStandard, wellType: WellType): PlateEntry => ({
+    well_type: wellType,
+    label: item.label,
+    level: item.level ?? null,
+    concentration: item.concentration ?? null,
+    replicate: 1
+  });
+  const controls = pattern.controls.map(item => standard(item, 'control'));
+  const header: PlateEntry[] = [
+    ...Array.from({ length: pattern.blanks }, (_item, index) => ({
+      well_type: 'blank' as WellType,
+      label: pattern.blanks > 1 ? `BLANK${index + 1}` : 'BLANK',
+      level: null,
+      concentration: null,
+      replicate: 1
+    })),
+    ...pattern.calibrators.map(item => standard(item, 'calibrator')),
+    ...controls
+  ];
+  const trailing = pattern.trailing_controls ? controls : [];
+  const replicates = Math.max(1, pattern.sample_replicates);
+
+  const plates: PlateEntry[][] = [];
+  let next = 0;
+
+  while (next < experiments.length) {
+    const entries: PlateEntry[] = [...header];
+    let sinceControl = 0;
+    let placed = 0;
+
+    while (next < experiments.length) {
+      const insertControls = pattern.control_interval > 0 && sinceControl === pattern.control_interval;
+      const need = replicates + (insertControls ? controls.length : 0) + trailing.length;
+      if (entries.length + need > capacity) {
+        break;
+      }
+      if (insertControls) {
+        entries.push(...controls);
+        sinceControl = 0;
+      }
+      for (let replicate = 1; replicate <= replicates; replicate++) {
+        entries.push({
+          well_type: 'sample',
+          experiment_id: experiments[next].id,
+          label: null,
+          level: null,
+          concentration: null,
+          replicate
+        });
+      }
+      sinceControl += 1;
+      placed += 1;
+      next += 1;
+    }
+
+    if (placed === 0) {
+      throw new ValidationError('孔板容量不足以放置标准品、质控品和至少一个样本，请调整排布方案');
+    }
+
+    entries.push(...trailing);
+    plates.push(entries);
+  }
+
+  return plates;
+};
+
+/**
+ * 获取批次的孔板布局
+ * @param batchNo 批次号
+ * @returns 按孔板序号排列的布局及孔位
+ */
+export const listBatchLayouts = async (batchNo: string): Promise<PlateLayoutDetail[]> => {
+  const { data, error } = await supabase
+    .from('plate_layouts')
+    .select(LAYOUT_DETAIL_FIELDS)
+    .eq('batch_no', batchNo)
+    .order('plate_no', { ascending: true });
+
+  if (error) {
+    logger.error('获取孔板布局失败:', error);
+    throw new DatabaseError('获取孔板布局失败');
+  }
+
+  return (data || []) as PlateLayoutDetail[];
+};
+
+/**
+ * 获取孔板布局详情
+ * @param layoutId 孔板布局ID
+ * @returns 孔板布局及孔位
+ */
+export const getPlateLayout = async (layoutId: string): Promise<PlateLayoutDetail> => {
+  const { data, error } = await supabase
+    .from('plate_layouts')
+    .select(LAYOUT_DETAIL_FIELDS)
+    .eq('id', layoutId)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('孔板布局不存在');
+  }
+
+  return data as PlateLayoutDetail;
+};
+
+/**
+ * 自动填充批次孔板布局
+ * @description 按排布方案重新生成批次全部孔板，原有草稿布局被替换；批次已有确认的孔板时不能重新生成
+ * @param batchNo 批次号
+ * @param plateFormat 孔板规格
+ * @param pattern 排布方案
+ * @param operatorId 操作人ID
+ * @returns 生成的孔板布局
+ */
+export const autoFillPlateLayouts = async (
+  batchNo: string,
+  plateFormat: PlateFormat,
+  pattern: PlateFillPattern,
+  operatorId?: string
+) => {
+  const { method, experiments } = await getBatchExperiments(batchNo);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('plate_layouts')
+    .select('id, plate_no, status')
+    .eq('batch_no', batchNo);
+
+  if (existingError) {
+    logger.error('获取孔板布局失败:', existingError);
+    throw new DatabaseError('获取孔板布局失败');
+  }
+  if ((existing || []).some(layout => layout.status === 'confirmed')) {
+    throw new ConflictError('批次已有确认的孔板布局，请先撤销确认再重新生成');
+  }
+
+  const positions = orderWellPositions(plateFormat, pattern.direction, pattern.skip_edge_wells);
+  const plates = buildPlateEntries(pattern, experiments, positions.length);
+  const sampleIds = new Map(experiments.map(experiment => [experiment.id, experiment.sample_id]));
+
+  if ((existing || []).length > 0) {
+    const { error: deleteError } = await supabase
+      .from('plate_layouts')
+      .delete()
+      .eq('batch_no', batchNo)
+      .eq('status', 'draft');
+
+    if (deleteError) {
+      logger.error('删除原孔板布局失败:', deleteError);
+      throw new DatabaseError('删除原孔板布局失败');
+    }
+  }
+
+  const { data: layouts, error: layoutError } = await supabase
+    .from('plate_layouts')
+    .insert(plates.map((_entries, index) => ({
+      batch_no: batchNo,
+      plate_no: index + 1,
+      plate_format: plateFormat,
+      method,
+      pattern,
+      status: 'draft',
+      created_by: operatorId,
+      updated_by: operatorId
+    })))
+    .select('id, plate_no');
+
+  if (layoutError || !layouts) {
+    if (layoutError?.code === '23505') {
+      throw new ConflictError('批次孔板布局正在被其他操作修改，请刷新后重试');
+    }
+    logger.error('创建孔板布局失败:', layoutError);
+    throw new DatabaseError('创建孔板布局失败');
+  }
+
+  const wells = layouts.flatMap(layout => plates[layout.plate_no - 1].map((entry, index) => ({
+    layout_id: layout.id,
+    ...positions[index],
+    ...entry,
+    sample_id: entry.experiment_id ? sampleIds.get(entry.experiment_id) : null
+  })));
+
+  const { error: wellError } = await supabase
+    .from('plate_wells')
+    .insert(wells);
+
+  if (wellError) {
+    // 孔位写入失败时撤销本次生成的布局
+    await supabase.from('plate_layouts').delete().in('id', layouts.map(layout => layout.id));
+    logger.error('保存孔位分配失败:', wellError);
+    throw new DatabaseError('保存孔位分配失败');
+  }
+
+  logger.info(`孔板布局已生成: ${batchNo}，共${layouts.length}块板`, { operatorId });
+  return listBatchLayouts(batchNo);
+};
+
+/**
+ * 保存孔板孔位分配
+ * @description 整板替换孔位；样本孔必须是本批次未取消的实验，同一孔位不能重复分配；已确认的布局不能修改
+ * @param layoutId 孔板布局ID
+ * @param wells 孔位分配
+ * @param operatorId 操作人ID
+ * @returns 孔板布局详情
+ */
+export const savePlateWells = async (layoutId: string, wells: PlateWellInput[], operatorId?: string) => {
+  const layout = await getPlateLayout(layoutId);
+  if (layout.status !== 'draft') {
+    throw new ConflictError('孔板布局已确认，不能修改');
+  }
+
+  const { rows, cols } = PLATE_DIMENSIONS[layout.plate_format];
+  const outOfRange = wells.filter(well => well.row_no > rows || well.col_no > cols);
+  if (outOfRange.length > 0) {
+    throw new ValidationError(`孔位超出${layout.plate_format}孔板范围`, {
+      positions: outOfRange.map(well => formatWellPosition(well.row_no, well.col_no))
+    });
+  }
+
+  const seen = new Set<string>();
+  const duplicated = wells
+    .map(well => formatWellPosition(well.row_no, well.col_no))
+    .filter(position => seen.has(position) || !seen.add(position));
+  if (duplicated.length > 0) {
+    throw new ValidationError('孔位重复分配', { positions: [...new Set(duplicated)] });
+  }
+
+  const { experiments } = await getBatchExperiments(layout.batch_no);
+  const sampleIds = new Map(experiments.map(experiment => [experiment.id, experiment.sample_id]));
+  const invalid = wells.filter(well => well.well_type === 'sample' && !sampleIds.has(well.experiment_id || ''));
+  if (invalid.length > 0) {
+    throw new ValidationError('样本孔的实验不属于该批次或已取消', {
+      positions: invalid.map(well => formatWellPosition(well.row_no, well.col_no))
+    });
+  }
+
+  const { error: deleteError } = await supabase
+    .from('plate_wells')
+    .delete()
+    .eq('layout_id', layoutId);
+
+  if (deleteError) {
+    logger.error('清除孔位分配失败:', deleteError);
+    throw new DatabaseError('清除孔位分配失败');
+  }
+
+  if (wells.length > 0) {
+    const { error } = await supabase
+      .from('plate_wells')
+      .insert(wells.map(well => ({
+        layout_id: layoutId,
+        row_no: well.row_no,
+        col_no: well.col_no,
+        well_type: well.well_type,
+        experiment_id: well.well_type === 'sample' ? well.experiment_id : null,
+        sample_id: well.well_type === 'sample' ? sampleIds.get(well.experiment_id!) : null,
+        label: well.well_type === 'sample' ? null : well.label || null,
+        level: well.level || null,
+        concentration: well.concentration ?? null,
+        replicate: well.replicate || 1
+      })));
+
+    if (error) {
+      logger.error('保存孔位分配失败:', error);
+      throw new DatabaseError('保存孔位分配失败');
+    }
+  }
+
+  await supabase
+    .from('plate_layouts')
+    .update({ updated_at: new Date().toISOString(), updated_by: operatorId })
+    .eq('id', layoutId);
+
+  logger.info(`孔位分配已保存: ${layout.batch_no} 第${layout.plate_no}板，共${wells.length}孔`, { operatorId });
+  return getPlateLayout(layoutId);
+};
+
+/**
+ * 确认孔板布局
+ * @description 确认最后一块未确认的孔板时，批次全部未取消的实验都必须已分配孔位
+ * @param layoutId 孔板布局ID
+ * @param operatorId 操作人ID
+ * @returns 孔板布局详情
+ */
+export const confirmPlateLayout = async (layoutId: string, operatorId?: string) => {
+  const layout = await getPlateLayout(layoutId);
+  if (layout.status !== 'draft') {
+    throw new ConflictError('孔板布局已确认');
+  }
+  if ((layout.plate_wells || []).length === 0) {
+    throw new ValidationError('孔板没有分配任何孔位');
+  }
+
+  const layouts = await listBatchLayouts(layout.batch_no);
+  const remaining = layouts.filter(item => item.id !== layoutId && item.status === 'draft');
+  if (remaining.length === 0) {
+    const { experiments } = await getBatchExperiments(layout.batch_no);
+    const placed = new Set(layouts.flatMap(item => (item.plate_wells || []).map(well => well.experiment_id)));
+    const missing = experiments.filter(experiment => !placed.has(experiment.id));
+    if (missing.length > 0) {
+      throw new ValidationError('批次仍有实验未分配孔位', {
+        experiments: missing.map(experiment => experiment.experiment_no)
+      });
+    }
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('plate_layouts')
+    .update({
+      status: 'confirmed',
+      confirmed_by: operatorId,
+      confirmed_at: now,
+      updated_at: now,
+      updated_by: operatorId
+    })
+    .eq('id', layoutId)
+    .eq('status', 'draft')
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    logger.error('确认孔板布局失败:', error);
+    throw new ConflictError('孔板布局状态已被其他操作修改，请刷新后重试');
+  }
+
+  logger.info(`孔板布局已确认: ${layout.batch_no} 第${layout.plate_no}板`, { operatorId });
+  return getPlateLayout(layoutId);
+};
+
+/**
+ * 撤销孔板布局确认
+ * @param layoutId 孔板布局ID
+ * @param operatorId 操作人ID
+ * @returns 孔板布局详情
+ */
+export const reopenPlateLayout = async (layoutId: string, operatorId?: string) => {
+  const layout = await getPlateLayout(layoutId);
+
+  const { data, error } = await supabase
+    .from('plate_layouts')
+    .update({
+      status: 'draft',
+      confirmed_by: null,
+      confirmed_at: null,
+      updated_at: new Date().toISOString(),
+      updated_by: operatorId
+    })
+    .eq('id', layoutId)
+    .eq('status', 'confirmed')
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new ConflictError('孔板布局未确认，无需撤销');
+  }
+
+  logger.info(`孔板布局已撤销确认: ${layout.batch_no} 第${layout.plate_no}板`, { operatorId });
+  return getPlateLayout(layoutId);
+};
+
+/**
+ * 转换CSV字段
+ * @param value 字段值
+ * @returns 含逗号、引号或换行时加引号转义
+ */
+const toCsvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 孔位的样本标识
+ * @param well 孔位
+ * @returns 样本孔为条码，其他为名称
+ */
+const wellSampleId = (well: PlateWellRow): string => {
+  if (well.well_type === 'sample') {
+    return well.samples?.barcode || well.samples?.sample_no || '';
+  }
+  return well.label || WELL_TYPE_TEXT[well.well_type];
+};
+
+/**
+ * 生成工作列表CSV
+ * @description 按布局的填充方向排列孔位；通用格式带BOM以便Excel正确识别中文
+ * @param layout 孔板布局详情
+ * @param format 工作列表格式
+ * @returns CSV文本
+ */
+export const renderWorklistCsv = (layout: PlateLayoutDetail, format: WorklistFormat): string => {
+  const { rows } = PLATE_DIMENSIONS[layout.plate_format];
+  const direction = layout.pattern?.direction === 'row' ? 'row' : 'column';
+  const plateId = `${layout.batch_no}-P${layout.plate_no}`;
+  const wells = [...(layout.plate_wells || [])].sort((a, b) => direction === 'row'
+    ? a.row_no - b.row_no || a.col_no - b.col_no
+    : a.col_no - b.col_no || a.row_no - b.row_no);
+
+  let header: string[];
+  let lines: unknown[][];
+
+  switch (format) {
+    case 'tecan':
+      // Tecan 孔位序号按列优先从1编号
+      header = ['Rack', 'Position', 'SampleID', 'Type', 'Replicate'];
+      lines = wells.map(well => [
+        plateId,
+        (well.col_no - 1) * rows + well.row_no,
+        wellSampleId(well),
+        well.well_type,
+        well.replicate
+      ]);
+      break;
+    case 'hamilton':
+      header = ['PlateID', 'Well', 'SampleID', 'SampleType', 'Level'];
+      lines = wells.map(well => [
+        plateId,
+        formatWellPosition(well.row_no, well.col_no, true),
+        wellSampleId(well),
+        well.well_type,
+        well.level
+      ]);
+      break;
+    case 'masshunter': {
+      const sampleType: Record<WellType, string> = {
+        sample: 'Sample',
+        calibrator: 'Calibration',
+        control: 'QC',
+        blank: 'Blank'
+      };
+      header = ['Sample Name', 'Sample Position', 'Sample Type', 'Level Name', 'Data File'];
+      lines = wells.map((well, index) => {
+        const position = formatWellPosition(well.row_no, well.col_no, true);
+        return [
+          well.replicate > 1 ? `${wellSampleId(well)}_${well.replicate}` : wellSampleId(well),
+          `P${layout.plate_no}-${position}`,
+          sampleType[well.well_type],
+          well.level,
+          `${plateId}_${String(index + 1).padStart(3, '0')}_${position}.d`
+        ];
+      });
+      break;
+    }
+    default:
+      header = ['孔板', '孔位', '行', '列', '类型', '名称', '水平', '浓度', '复孔', '样本编号', '条码', '实验编号', '检测产品'];
+      lines = wells.map(well => [
+        plateId,
+        formatWellPosition(well.row_no, well.col_no),
+        well.row_no,
+        well.col_no,
+        WELL_TYPE_TEXT[well.well_type],
+        well.label,
+        well.level,
+        well.concentration,
+        well.replicate,
+        well.samples?.sample_no,
+        well.samples?.barcode,
+        well.experiments?.experiment_no,
+        well.experiments?.test_products?.name
+      ]);
+  }
+
+  const csv = [header, ...lines].map(line => line.map(toCsvField).join(',')).join('\r\n');
+  return format === 'generic' ? `\uFEFF${csv}\r\n` : `${csv}\r\n`;
+};
+
+/**
+ * 生成孔板布局图HTML
+ * @param layout 孔板布局详情
+ * @returns HTML文档
+ */
+const renderPlateMapHtml = (layout: PlateLayoutDetail): string => {
+  const format = layout.plate_format;
+  const { rows, cols } = PLATE_DIMENSIONS[format];
+  const wellMap = new Map<string, PlateWellRow>(
+    (layout.plate_wells || []).map(well => [`${well.row_no}-${well.col_no}`, well])
+  );
+
+  const headerCells = Array.from({ length: cols }, (_item, index) => `<th>${index + 1}</th>`).join('');
+  const bodyRows = Array.from({ length: rows }, (_row, rowIndex) => {
+    const cells = Array.from({ length: cols }, (_col, colIndex) => {
+      const well = wellMap.get(`${rowIndex + 1}-${colIndex + 1}`);
+      if (!well) {
+        return '<td class="empty"></td>';
+      }
+      const title = well.well_type === 'sample' ? well.samples?.sample_no : well.label;
+      const detail = well.well_type === 'sample'
+        ? `${well.samples?.barcode || ''}${well.replicate > 1 ? ` #${well.replicate}` : ''}`
+        : well.level ? `L${well.level}` : '';
+      return `<td class="${well.well_type}"><div class="title">${escapeHtml(title)}</div><div>${escapeHtml(detail)}</div></td>`;
+    }).join('');
+    return `<tr><th>${String.fromCharCode(65 + rowIndex)}</th>${cells}</tr>`;
+  }).join('');
+
+  const counts = (Object.keys(WELL_TYPE_TEXT) as WellType[])
+    .map(type => `<span class="legend ${type}">${WELL_TYPE_TEXT[type]} ${
+      (layout.plate_wells || []).filter(well => well.well_type === type).length
+    }</span>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<style>
+  body { margin: 0; font-family: "Noto Sans CJK SC", "Microsoft YaHei", sans-serif; font-size: ${format === 384 ? 5 : 7}pt; }
+  h1 { font-size: 14pt; margin: 0 0 2mm; }
+  .meta { font-size: 9pt; margin-bottom: 3mm; }
+  table { border-collapse: collapse; width: 100%; table-layout: fixed; }
+  th { font-size: 8pt; background: #f3f4f6; }
+  td, th { border: 1px solid #9ca3af; padding: 0.5mm; text-align: center; overflow: hidden; word-break: break-all; }
+  td { height: ${format === 384 ? 9 : 16}mm; }
+  .title { font-weight: bold; }
+  .sample { background: #dbeafe; }
+  .calibrator { background: #fef3c7; }
+  .control { background: #dcfce7; }
+  .blank { background: #f3f4f6; }
+  .legend { display: inline-block; padding: 0.5mm 2mm; margin-right: 2mm; border: 1px solid #9ca3af; }
+</style>
+</head>
+<body>
+  <h1>孔板布局图 ${escapeHtml(layout.batch_no)} 第${layout.plate_no}板</h1>
+  <div class="meta">
+    ${format}孔板 · ${layout.status === 'confirmed' ? `已确认 ${escapeHtml(new Date(layout.confirmed_at || '').toLocaleString('zh-CN'))}` : '草稿'}
+    · 打印时间 ${escapeHtml(new Date().toLocaleString('zh-CN'))} · ${counts}
+  </div>
+  <table>
+    <thead><tr><th></th>${headerCells}</tr></thead>
+    <tbody>${bodyRows}</tbody>
+  </table>
+</body>
+</html>`;
+};
+
+/**
+ * 生成孔板布局图PDF
+ * @param layout 孔板布局详情
+ * @returns PDF文件内容
+ */
+export const renderPlateMapPdf = async (layout: PlateLayoutDetail): Promise<Buffer> => {
+  return renderHtmlToPdf(renderPlateMapHtml(layout), {
+    format: 'A4',
+    landscape: true,
+    margin: { top: '10mm', right: '10mm', bottom: '10mm', left: '10mm' }
+  });
+};
@@ -0,0 +1,791 @@
+/**
+ * 质控工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：质控品批号与靶值维护；质控结果按Westgard多规则（1-2s、1-3s、2-2s、R-4s、4-1s、10x）判定，
+ * 失控且未采取纠正措施时阻止同一批次该检测项目的患者结果审核发布，已审核通过的结果暂停发布至纠正后恢复，
+ * 报告生成、提交审核和发布时按送检单各实验所属批次重新核对；提供Levey-Jennings质控图数据
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+import { createNotification } from './notification.js';
+import type { ExperimentMethod } from './experimentResults.js';
+
+/**
+ * Westgard规则
+ */
+export type WestgardRule = '1-2s' | '1-3s' | '2-2s' | 'R-4s' | '4-1s' | '10x';
+
+/**
+ * 规则判定：warning-警告，reject-失控，off-不启用
+ */
+export type WestgardAction = 'warning' | 'reject' | 'off';
+
+/**
+ * 质控结果判定
+ */
+export type QcStatus = 'accepted' | 'warning' | 'rejected';
+
+/**
+ * Westgard规则说明
+ */
+export const WESTGARD_RULE_TEXT: Record<WestgardRule, string> = {
+  '1-2s': '1个结果超出靶值±2SD',
+  '1-3s': '1个结果超出靶值±3SD',
+  '2-2s': '连续2个结果（或同批两个水平）同侧超出2SD',
+  'R-4s': '同批两个结果分别超出+2SD和-2SD',
+  '4-1s': '连续4个结果同侧超出1SD',
+  '10x': '连续10个结果位于靶值同侧'
+};
+
+/**
+ * 默认规则配置（经典多规则：1-2s警告，其余失控）
+ */
+export const DEFAULT_WESTGARD_RULES: Record<WestgardRule, WestgardAction> = {
+  '1-2s': 'warning',
+  '1-3s': 'reject',
+  '2-2s': 'reject',
+  'R-4s': 'reject',
+  '4-1s': 'reject',
+  '10x': 'reject'
+};
+
+/**
+ * 判定所需的最多历史结果数（10x规则需前9个）
+ */
+const WESTGARD_HISTORY_SIZE = 9;
+
+/**
+ * 违反的规则
+ */
+export interface WestgardViolation {
+  rule: WestgardRule;
+  action: Exclude<WestgardAction, 'off'>;
+}
+
+/**
+ * 质控品靶值
+ */
+export interface QcTargetInput {
+  item_id: string;
+  target_mean: number;
+  target_sd: number;
+  unit?: string | null;
+}
+
+/**
+ * 质控品批号保存参数
+ */
+export interface QcLotInput {
+  lot_no: string;
+  material_name: string;
+  level: string;
+  manufacturer?: string | null;
+  method: ExperimentMethod;
+  expiry_date?: string | null;
+  is_active?: boolean;
+  remarks?: string | null;
+  targets: QcTargetInput[];
+}
+
+/**
+ * 质控结果录入参数
+ */
+export interface QcResultInput {
+  lot_id: string;
+  item_id: string;
+  batch_no: string;
+  measured_value: number;
+  measured_at?: string;
+  equipment_id?: string | null;
+  remarks?: string | null;
+}
+
+/**
+ * 质控品靶值记录
+ */
+interface QcLotTargetRow {
+  id: string;
+  lot_id: string;
+  item_id: string;
+  target_mean: number | string;
+  target_sd: number | string;
+  unit: string | null;
+  test_items?: { id: string; code: string; name: string; unit: string | null } | null;
+}
+
+/**
+ * 质控品批号详情
+ */
+export interface QcLotDetail {
+  id: string;
+  lot_no: string;
+  material_name: string;
+  level: string;
+  manufacturer: string | null;
+  method: ExperimentMethod;
+  expiry_date: string | null;
+  is_active: boolean;
+  remarks: string | null;
+  created_at: string;
+  updated_at: string;
+  qc_lot_targets?: QcLotTargetRow[];
+}
+
+/**
+ * 未纠正的失控质控结果
+ */
+export interface QcFailureRow {
+  id: string;
+  item_id: string;
+  z_score: number | string;
+  violations: WestgardViolation[];
+  measured_at: string;
+  qc_lots?: { lot_no: string; material_name: string; level: string } | null;
+  test_items?: { code: string; name: string } | null;
+}
+
+/**
+ * 按批次核对质控的实验记录
+ */
+interface QcExperimentRow {
+  id: string;
+  experiment_no: string;
+  batch_no: string | null;
+  experiment_data?: { item_id: string }[];
+}
+
+/**
+ * 获取Westgard规则配置
+ * @description 未配置或配置值无效的规则使用默认判定
+ * @returns 各规则的判定
+ */
+export const getWestgardRules = async (): Promise<Record<WestgardRule, WestgardAction>> => {
+  const config = await getConfigValue<Partial<Record<string, string>>>('qc.westgard_rules', {});
+  const rules = { ...DEFAULT_WESTGARD_RULES };
+
+  (Object.keys(rules) as WestgardRule[]).forEach(rule => {
+    const action = config?.[rule];
+    if (action === 'warning' || action === 'reject' || action === 'off') {
+      rules[rule] = action;
+    }
+  });
+
+  return rules;
+};
+
+/**
+ * 按Westgard多规则判定质控结果
+ * @description 2-2s、4-1s、10x 按同一质控品同一项目的历史结果判定，2-2s 和 R-4s 同时按同批次其他质控结果判定
+ * @param z 本次结果的Z值
+ * @param history 同一质控品同一项目之前的Z值，按时间倒序
+ * @param peers 同批次同一项目其他质控结果的Z值
+ * @param rules 规则配置
+ * @returns 判定结果及违反的规则
+ */
+export const evaluateWestgard = (
+  z: number,
+  history: number[],
+  peers: number[],
+  rules: Record<WestgardRule, WestgardAction>
+): { status: QcStatus; violations: WestgardViolation[] } => {
+  const sameSide = (values: number[], limit: number) =>
+    values.every(value => value > limit) || values.every(value => value < -limit);
+
+  const checks: Record<WestgardRule, boolean> = {
+    '1-2s': Math.abs(z) > 2,
+    '1-3s': Math.abs(z) > 3,
+    '2-2s': (history.length >= 1 && sameSide([z, history[0]], 2))
+      || peers.some(peer => sameSide([z, peer], 2)),
+    'R-4s': peers.some(peer => (z > 2 && peer < -2) || (z < -2 && peer > 2)),
+    '4-1s': history.length >= 3 && sameSide([z, ...history.slice(0, 3)], 1),
+    '10x': history.length >= 9 && sameSide([z, ...history.slice(0, 9)], 0)
+  };
+
+  const violations = (Object.keys(checks) as WestgardRule[])
+    .filter(rule => checks[rule] && rules[rule] !== 'off')
+    .map(rule => ({ rule, action: rules[rule] as WestgardViolation['action'] }));
+
+  const status: QcStatus = violations.some(item => item.action === 'reject')
+    ? 'rejected'
+    : violations.length > 0 ? 'warning' : 'accepted';
+
+  return { status, violations };
+};
+
+/**
+ * 获取可设定靶值的检测项目
+ * @param method 实验方法
+ * @returns 启用的检测项目
+ */
+export const listQcItems = async (method?: ExperimentMethod) => {
+  let query = supabase
+    .from('test_items')
+    .select('id, code, name, unit, method')
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true });
+
+  if (method) {
+    query = query.eq('method', method);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('获取检测项目失败:', error);
+    throw new DatabaseError('获取检测项目失败');
+  }
+
+  return data || [];
+};
+
+/**
+ * 获取质控品批号
+ * @param id 批号ID
+ * @returns 批号及各项目靶值
+ */
+export const getQcLot = async (id: string): Promise<QcLotDetail> => {
+  const { data, error } = await supabase
+    .from('qc_lots')
+    .select('*, qc_lot_targets(*, test_items(id, code, name, unit))')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('质控品批号不存在');
+  }
+
+  return data as QcLotDetail;
+};
+
+/**
+ * 查询质控品批号
+ * @param filters 实验方法、是否只查启用批号
+ * @returns 批号及各项目靶值
+ */
+export const listQcLots = async (filters: { method?: ExperimentMethod; activeOnly?: boolean }) => {
+  let query = supabase
+    .from('qc_lots')
+    .select('*, qc_lot_targets(*, test_items(id, code, name, unit))')
+    .order('lot_no', { ascending: true })
+    .order('level', { ascending: true });
+
+  if (filters.method) {
+    query = query.eq('method', filters.method);
+  }
+  if (filters.activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('获取质控品批号失败:', error);
+    throw new DatabaseError('获取质控品批号失败');
+  }
+
+  return data || [];
+};
+
+/**
+ * 保存质控品批号
+ * @description 靶值整批替换；已有质控结果保存了判定时的靶值，调整靶值不影响历史判定
+ * @param id 批号ID，新建时为空
+ * @param input 批号及靶值
+ * @param operatorId 操作人ID
+ * @returns 保存后的批号
+ */
+export const saveQcLot = async (id: string | null, input: QcLotInput, operatorId?: string) => {
+  const itemIds = input.targets.map(target => target.item_id);
+  if (new Set(itemIds).size !== itemIds.length) {
+    throw new ValidationError('同一检测项目不能重复设定靶值');
+  }
+
+  const items = await listQcItems(input.method);
+  const invalid = itemIds.filter(itemId => !items.some(item => item.id === itemId));
+  if (invalid.length > 0) {
+    throw new ValidationError('靶值中的检测项目不存在、已停用或不属于该实验方法', { item_ids: invalid });
+  }
+
+  const lot = {
+    lot_no: input.lot_no,
+    material_name: input.material_name,
+    level: input.level,
+    manufacturer: input.manufacturer || null,
+    method: input.method,
+    expiry_date: input.expiry_date || null,
+    is_active: input.is_active ?? true,
+    remarks: input.remarks || null,
+    updated_at: new Date().toISOString(),
+    updated_by: operatorId
+  };
+
+  const { data, error } = id
+    ? await supabase.from('qc_lots').update(lot).eq('id', id).select('id').single()
+    : await supabase.from('qc_lots').insert({ ...lot, created_by: operatorId }).select('id').single();
+
+  if (error || !data) {
+    if (error?.code === '23505') {
+      throw new ConflictError(`质控品批号 ${input.lot_no} 水平 ${input.level} 已存在`);
+    }
+    logger.error('保存质控品批号失败:', error);
+    throw new DatabaseError('保存质控品批号失败');
+  }
+
+  const { error: deleteError } = await supabase
+    .from('qc_lot_targets')
+    .delete()
+    .eq('lot_id', data.id);
+
+  if (deleteError) {
+    logger.error('更新质控品靶值失败:', deleteError);
+    throw new DatabaseError('更新质控品靶值失败');
+  }
+
+  if (input.targets.length > 0) {
+    const { error: targetError } = await supabase
+      .from('qc_lot_targets')
+      .insert(input.targets.map(target => ({
+        lot_id: data.id,
+        item_id: target.item_id,
+        target_mean: target.target_mean,
+        target_sd: target.target_sd,
+        unit: target.unit || null
+      })));
+
+    if (targetError) {
+      logger.error('保存质控品靶值失败:', targetError);
+      throw new DatabaseError('保存质控品靶值失败');
+    }
+  }
+
+  logger.info(`质控品批号已保存: ${input.lot_no} ${input.level}`, { operatorId });
+  return getQcLot(data.id);
+};
+
+/**
+ * 录入质控结果
+ * @description 按批号当前靶值计算Z值，结合同一质控品历史结果和同批次其他质控结果按Westgard规则判定；
+ * 失控时通知实验室主管和质控员
+ * @param input 质控结果
+ * @param operatorId 操作人ID
+ * @returns 保存后的质控结果
+ */
+export const recordQcResult = async (input: QcResultInput, operatorId?: string) => {
+  const lot = await getQcLot(input.lot_id);
+  const measuredAt = input.measured_at || new Date().toISOString();
+
+  if (!lot.is_active) {
+    throw new ConflictError('质控品批号已停用');
+  }
+  if (lot.expiry_date && measuredAt.slice(0, 10) > lot.expiry_date) {
+    throw new ConflictError(`质控品批号已于 ${lot.expiry_date} 过期`);
+  }
+
+  const target = (lot.qc_lot_targets || []).find(item => item.item_id === input.item_id);
+  if (!target) {
+    throw new ValidationError('该质控品未设定此检测项目的靶值');
+  }
+
+  const { count: batchCount, error: batchError } = await supabase
+    .from('experiments')
+    .select('id', { count: 'exact', head: true })
+    .eq('batch_no', input.batch_no);
+
+  if (batchError) {
+    logger.error('查询实验批次失败:', batchError);
+    throw new DatabaseError('查询实验批次失败');
+  }
+  if (!batchCount) {
+    throw new NotFoundError(`实验批次 ${input.batch_no} 不存在`);
+  }
+
+  const [historyResult, peerResult, rules] = await Promise.all([
+    supabase
+      .from('qc_results')
+      .select('z_score')
+      .eq('lot_id', input.lot_id)
+      .eq('item_id', input.item_id)
+      .lt('measured_at', measuredAt)
+      .order('measured_at', { ascending: false })
+      .limit(WESTGARD_HISTORY_SIZE),
+    supabase
+      .from('qc_results')
+      .select('z_score')
+      .eq('batch_no', input.batch_no)
+      .eq('item_id', input.item_id)
+      .neq('lot_id', input.lot_id),
+    getWestgardRules()
+  ]);
+
+  if (historyResult.error || peerResult.error) {
+    logger.error('获取历史质控结果失败:', historyResult.error || peerResult.error);
+    throw new DatabaseError('获取历史质控结果失败');
+  }
+
+  const mean = Number(target.target_mean);
+  const sd = Number(target.target_sd);
+  const z = Number(((input.measured_value - mean) / sd).toFixed(3));
+  const { status, violations } = evaluateWestgard(
+    z,
+    (historyResult.data || []).map(row => Number(row.z_score)),
+    (peerResult.data || []).map(row => Number(row.z_score)),
+    rules
+  );
+
+  const { data, error } = await supabase
+    .from('qc_results')
+    .insert({
+      lot_id: input.lot_id,
+      item_id: input.item_id,
+      batch_no: input.batch_no,
+      equipment_id: input.equipment_id || null,
+      measured_value: input.measured_value,
+      target_mean: mean,
+      target_sd: sd,
+      z_score: z,
+      status,
+      violations,
+      measured_at: measuredAt,
+      remarks: input.remarks || null,
+      created_by: operatorId
+    })
+    .select('*, qc_lots(id, lot_no, material_name, level), test_items(id, code, name, unit)')
+    .single();
+
+  if (error || !data) {
+    logger.error('保存质控结果失败:', error);
+    throw new DatabaseError('保存质控结果失败');
+  }
+
+  if (status === 'rejected') {
+    const itemName = target.test_items?.name || input.item_id;
+    const held = await holdApprovedResults(input.batch_no, input.item_id, operatorId);
+    await createNotification({
+      title: `质控失控：${itemName} 批次${input.batch_no}`,
+      content: `质控品${lot.material_name}（批号${lot.lot_no}，水平${lot.level}）测定值${input.measured_value}，`
+        + `Z值${z}，违反规则 ${violations.map(item => item.rule).join('、')}；纠正前本批次该项目结果不能审核发布`
+        + (held.length > 0 ? `，已审核通过的实验${held.join('、')}暂停发布` : ''),
+      type: 'qc_rejected',
+      priority: 'urgent',
+      targetRoles: ['lab_manager', 'quality_controller'],
+      createdBy: operatorId
+    });
+
+    logger.warn(`质控失控: 批次${input.batch_no} ${itemName}`, { lotNo: lot.lot_no, z, violations, held });
+  }
+
+  return data;
+};
+
+/**
+ * 暂停发布批次中已审核通过的结果
+ * @description 失控发生在终审之后时，批次内已录入该项目结果的实验由审核通过改为暂停发布，报告不能提交或发布
+ * @param batchNo 实验批次号
+ * @param itemId 失控的检测项目ID
+ * @param operatorId 操作人ID
+ * @returns 暂停发布的实验编号
+ */
+const holdApprovedResults = async (batchNo: string, itemId: string, operatorId?: string) => {
+  const { data: experiments, error } = await supabase
+    .from('experiments')
+    .select('id, experiment_no, experiment_data!inner(item_id)')
+    .eq('batch_no', batchNo)
+    .eq('review_status', 'approved')
+    .eq('experiment_data.item_id', itemId);
+
+  if (error) {
+    logger.error('查询已审核实验失败:', error);
+    throw new DatabaseError('查询已审核实验失败');
+  }
+  if (!experiments || experiments.length === 0) {
+    return [];
+  }
+
+  const { data, error: updateError } = await supabase
+    .from('experiments')
+    .update({ review_status: 'on_hold', updated_at: new Date().toISOString(), updated_by: operatorId })
+    .in('id', experiments.map(item => item.id))
+    .eq('review_status', 'approved')
+    .select('experiment_no');
+
+  if (updateError) {
+    logger.error('暂停发布实验结果失败:', updateError);
+    throw new DatabaseError('暂停发布实验结果失败');
+  }
+
+  return (data || []).map(item => item.experiment_no as string);
+};
+
+/**
+ * 恢复批次中暂停发布的结果
+ * @description 实验已录入的检测项目不再有未纠正的失控质控时，恢复为审核通过
+ * @param batchNo 实验批次号
+ * @param operatorId 操作人ID
+ * @returns 恢复的实验编号
+ */
+const releaseHeldResults = async (batchNo: string, operatorId?: string) => {
+  const { data, error } = await supabase
+    .from('experiments')
+    .select('id, experiment_no, batch_no, experiment_data(item_id)')
+    .eq('batch_no', batchNo)
+    .eq('review_status', 'on_hold');
+
+  if (error) {
+    logger.error('查询暂停发布实验失败:', error);
+    throw new DatabaseError('查询暂停发布实验失败');
+  }
+
+  const experiments: QcExperimentRow[] = data || [];
+  if (experiments.length === 0) {
+    return [];
+  }
+
+  const failures = await getUnresolvedQcFailures(batchNo);
+  const failedItems = new Set(failures.map(failure => failure.item_id));
+  const releasable = experiments.filter(item => !(item.experiment_data || []).some(row => failedItems.has(row.item_id)));
+  if (releasable.length === 0) {
+    return [];
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('experiments')
+    .update({ review_status: 'approved', updated_at: new Date().toISOString(), updated_by: operatorId })
+    .in('id', releasable.map(item => item.id))
+    .eq('review_status', 'on_hold')
+    .select('experiment_no');
+
+  if (updateError) {
+    logger.error('恢复实验结果发布失败:', updateError);
+    throw new DatabaseError('恢复实验结果发布失败');
+  }
+
+  return (updated || []).map(item => item.experiment_no as string);
+};
+
+/**
+ * 记录失控纠正措施
+ * @description 填写纠正措施后解除该失控结果对本批次患者结果的阻止，因此暂停发布的结果恢复为审核通过
+ * @param id 质控结果ID
+ * @param correctiveAction 纠正措施
+ * @param operatorId 操作人ID
+ * @returns 更新后的质控结果
+ */
+export const resolveQcResult = async (id: string, correctiveAction: string, operatorId?: string) => {
+  const { data: existing, error: checkError } = await supabase
+    .from('qc_results')
+    .select('id, status, resolved_at')
+    .eq('id', id)
+    .single();
+
+  if (checkError || !existing) {
+    throw new NotFoundError('质控结果不存在');
+  }
+  if (existing.status !== 'rejected') {
+    throw new ConflictError('只有失控的质控结果需要记录纠正措施');
+  }
+  if (existing.resolved_at) {
+    throw new ConflictError('该失控结果已记录纠正措施');
+  }
+
+  const { data, error } = await supabase
+    .from('qc_results')
+    .update({
+      corrective_action: correctiveAction,
+      resolved_by: operatorId,
+      resolved_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .is('resolved_at', null)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('记录纠正措施失败:', error);
+    throw new ConflictError('质控结果已被其他操作修改，请刷新后重试');
+  }
+
+  const released = await releaseHeldResults(data.batch_no, operatorId);
+
+  logger.info(`质控失控已纠正: ${id}`, { operatorId, released });
+  return data;
+};
+
+/**
+ * 获取Levey-Jennings质控图数据
+ * @param lotId 质控品批号ID
+ * @param itemId 检测项目ID
+ * @param range 起止日期
+ * @returns 靶值及按时间排序的质控点
+ */
+export const getLeveyJennings = async (
+  lotId: string,
+  itemId: string,
+  range: { dateFrom?: string; dateTo?: string }
+) => {
+  const lot = await getQcLot(lotId);
+  const target = (lot.qc_lot_targets || []).find(item => item.item_id === itemId);
+  if (!target) {
+    throw new ValidationError('该质控品未设定此检测项目的靶值');
+  }
+
+  let query = supabase
+    .from('qc_results')
+    .select('id, batch_no, measured_value, target_mean, target_sd, z_score, status, violations, measured_at, resolved_at')
+    .eq('lot_id', lotId)
+    .eq('item_id', itemId)
+    .order('measured_at', { ascending: true })
+    .limit(500);
+
+  if (range.dateFrom) {
+    query = query.gte('measured_at', range.dateFrom);
+  }
+  if (range.dateTo) {
+    query = query.lte('measured_at', `${range.dateTo}T23:59:59.999Z`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('获取质控图数据失败:', error);
+    throw new DatabaseError('获取质控图数据失败');
+  }
+
+  return {
+    lot: {
+      id: lot.id,
+      lot_no: lot.lot_no,
+      material_name: lot.material_name,
+      level: lot.level
+    },
+    item: target.test_items,
+    target_mean: Number(target.target_mean),
+    target_sd: Number(target.target_sd),
+    unit: target.unit || target.test_items?.unit || null,
+    points: data || []
+  };
+};
+
+/**
+ * 获取批次未纠正的失控质控结果
+ * @param batchNo 实验批次号
+ * @param itemIds 只查这些检测项目，为空时查全部
+ * @returns 失控结果
+ */
+export const getUnresolvedQcFailures = async (batchNo: string, itemIds?: string[]): Promise<QcFailureRow[]> => {
+  let query = supabase
+    .from('qc_results')
+    .select('id, item_id, z_score, violations, measured_at, qc_lots(lot_no, material_name, level), test_items(code, name)')
+    .eq('batch_no', batchNo)
+    .eq('status', 'rejected')
+    .is('resolved_at', null);
+
+  if (itemIds) {
+    query = query.in('item_id', itemIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('查询批次失控质控失败:', error);
+    throw new DatabaseError('查询批次质控状态失败');
+  }
+
+  return (data || []).map(row => ({
+    ...row,
+    qc_lots: firstRelation(row.qc_lots),
+    test_items: firstRelation(row.test_items)
+  }));
+};
+
+/**
+ * 校验实验结果可审核发布
+ * @description 实验所属批次中，实验已录入结果的检测项目存在未纠正的失控质控时不能审核通过
+ * @param experiment 实验记录
+ */
+export const assertQcReleasable = async (experiment: { id: string; experiment_no: string; batch_no?: string | null }) => {
+  if (!experiment.batch_no) {
+    return;
+  }
+
+  const { data: rows, error } = await supabase
+    .from('experiment_data')
+    .select('item_id')
+    .eq('experiment_id', experiment.id);
+
+  if (error) {
+    logger.error('查询实验数据失败:', error);
+    throw new DatabaseError('查询实验数据失败');
+  }
+
+  const itemIds = [...new Set((rows || []).map(row => row.item_id))];
+  if (itemIds.length === 0) {
+    return;
+  }
+
+  const failures = await getUnresolvedQcFailures(experiment.batch_no, itemIds);
+  if (failures.length > 0) {
+    const items = [...new Set(failures.map(failure => failure.test_items?.name).filter(Boolean))];
+    throw new ConflictError(
+      `批次${experiment.batch_no}的${items.join('、')}质控失控，记录纠正措施前不能审核发布实验${experiment.experiment_no}的结果`,
+      { qc_failures: failures }
+    );
+  }
+};
+
+/**
+ * 校验送检单的实验结果可出具报告
+ * @description 按送检单下各实验所属批次核对，实验已录入结果的检测项目存在未纠正的失控质控时不能生成、提交或发布报告
+ * @param submissionId 送检单ID
+ * @param reportNo 报告编号
+ */
+export const assertSubmissionQcReleasable = async (submissionId: string, reportNo: string) => {
+  const { data, error } = await supabase
+    .from('experiments')
+    .select('id, experiment_no, batch_no, experiment_data(item_id), samples!inner(submission_id)')
+    .eq('samples.submission_id', submissionId)
+    .neq('status', 'cancelled')
+    .not('batch_no', 'is', null);
+
+  if (error) {
+    logger.error('查询送检实验失败:', error);
+    throw new DatabaseError('查询送检实验失败');
+  }
+
+  const experiments: QcExperimentRow[] = data || [];
+  const batchItems = new Map<string, Set<string>>();
+  for (const experiment of experiments) {
+    const items = batchItems.get(experiment.batch_no as string) || new Set<string>();
+    (experiment.experiment_data || []).forEach(row => items.add(row.item_id));
+    batchItems.set(experiment.batch_no as string, items);
+  }
+
+  const blocked: { batch_no: string; experiments: string[]; qc_failures: QcFailureRow[] }[] = [];
+  for (const [batchNo, items] of batchItems) {
+    if (items.size === 0) {
+      continue;
+    }
+    const failures = await getUnresolvedQcFailures(batchNo, [...items]);
+    if (failures.length === 0) {
+      continue;
+    }
+    const failedItems = new Set(failures.map(failure => failure.item_id));
+    blocked.push({
+      batch_no: batchNo,
+      experiments: experiments
+        .filter(item => item.batch_no === batchNo && (item.experiment_data || []).some(row => failedItems.has(row.item_id)))
+        .map(item => item.experiment_no),
+      qc_failures: failures
+    });
+  }
+
+  if (blocked.length > 0) {
+    const detail = blocked
+      .map(item => `批次${item.batch_no}的${[...new Set(item.qc_failures.map(failure => failure.test_items?.name).filter(Boolean))].join('、')}`)
+      .join('；');
+    throw new ConflictError(`${detail}质控失控，记录纠正措施前不能出具报告${reportNo}`, { qc_blocked: blocked });
+  }
+};
@@ -0,0 +1,410 @@
+/**
+ * 报告PDF生成工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：加载报告渲染数据、套用报告模板生成HTML，并通过无头浏览器输出PDF存入Supabase Storage
+ */
+
+import puppeteer, { type PDFOptions } from 'puppeteer';
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { escapeHtml, renderTemplateBody } from './reportTemplate.js';
+
+/**
+ * 报告文件存储桶名称
+ */
+const REPORT_BUCKET = process.env.REPORT_STORAGE_BUCKET || 'reports';
+
+/**
+ * 下载链接有效期（秒）
+ */
+const DOWNLOAD_URL_EXPIRES = Number(process.env.REPORT_DOWNLOAD_URL_EXPIRES) || 3600;
+
+/**
+ * 报告结果行接口
+ */
+export interface ReportResultRow {
+  sample_no: string;
+  product_name: string;
+  item_code: string;
+  item_name: string;
+  result: string;
+  unit: string;
+  reference_range: string;
+  abnormal_flag: string;
+}
+
+/**
+ * 报告记录接口
+ */
+export interface ReportRecord {
+  id: string;
+  report_no: string;
+  conclusion?: string | null;
+  recommendations?: string | null;
+  approved_at?: string | null;
+  released_at?: string | null;
+  version_no?: number | null;
+  is_amended?: boolean;
+  amendment_reason?: string | null;
+  file_urls?: ReportFileRecord[] | null;
+  [key: string]: unknown;
+}
+
+/**
+ * 报告模板记录接口
+ */
+export interface ReportTemplateRecord {
+  id?: string;
+  name?: string;
+  category?: string;
+  template_content?: string;
+  template_format?: string;
+  version?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * 报告实验结果数据接口
+ */
+interface ReportExperimentData {
+  result_value?: string | number | null;
+  result_numeric?: number | null;
+  result_text?: string | null;
+  unit?: string | null;
+  reference_range?: string | null;
+  abnormal_flag?: string | null;
+  test_items?: { id: string; code: string; name: string; unit?: string | null; sort_order?: number | null } | null;
+  [key: string]: unknown;
+}
+
+/**
+ * 报告样本接口
+ */
+export interface ReportSample {
+  id: string;
+  sample_no: string;
+  barcode: string;
+  collection_time?: string | null;
+  received_time?: string | null;
+  sample_types?: { id: string; code: string; name: string } | null;
+  experiments?: {
+    id: string;
+    experiment_no: string;
+    method: string;
+    status: string;
+    completed_at?: string | null;
+    test_products?: { id: string; code: string; name: string } | null;
+    experiment_data?: ReportExperimentData[];
+  }[];
+}
+
+/**
+ * 报告送检单接口
+ */
+export interface ReportSubmission {
+  patient_name?: string;
+  patient_gender?: string;
+  patient_age?: number | null;
+  submitted_at?: string | null;
+  received_at?: string | null;
+  client_units?: ReportClientUnit | null;
+  samples?: ReportSample[];
+  [key: string]: unknown;
+}
+
+/**
+ * 报告送检单位接口
+ */
+export interface ReportClientUnit {
+  id?: string;
+  code?: string;
+  name?: string;
+  contact_person?: string | null;
+  contact_phone?: string | null;
+}
+
+/**
+ * 报告渲染上下文接口
+ */
+export interface ReportRenderContext {
+  report: ReportRecord;
+  template: ReportTemplateRecord | null;
+  submission: ReportSubmission;
+  client_unit: ReportClientUnit;
+  samples: ReportSample[];
+  results: ReportResultRow[];
+}
+
+/**
+ * 报告文件记录接口（存储于reports.file_urls）
+ */
+export interface ReportFileRecord {
+  file_name: string;
+  storage_path: string;
+  size: number;
+  generated_at: string;
+  generated_by?: string;
+  version_no?: number;
+  template_version?: string;
+}
+
+/**
+ * PDF页面基础样式
+ */
+const BASE_STYLES = `
+  body { font-family: "Noto Sans CJK SC", "Microsoft YaHei", sans-serif; font-size: 12px; color: #111; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+  table.results th, table.results td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+  table.info td { padding: 4px 6px; }
+  .abnormal { color: #c00; font-weight: bold; }
+  .amended { border: 2px solid #c00; color: #c00; padding: 6px 8px; margin-bottom: 12px; }
+`;
+
+/**
+ * 加载报告渲染上下文
+ * @description 查询报告及其模板、送检单、样本和实验结果数据
+ * @param reportId 报告ID
+ * @returns 报告渲染上下文
+ */
+export const loadReportContext = async (reportId: string): Promise<ReportRenderContext> => {
+  const { data: report, error } = await supabase
+    .from('reports')
+    .select(`
+      *,
+      report_templates(
+        id,
+        name,
+        category,
+        template_content,
+        template_format,
+        version
+      ),
+      submissions(
+        *,
+        client_units(
+          id,
+          code,
+          name,
+          contact_person,
+          contact_phone
+        ),
+        samples(
+          id,
+          sample_no,
+          barcode,
+          collection_time,
+          received_time,
+          sample_types(
+            id,
+            code,
+            name
+          ),
+          experiments(
+            id,
+            experiment_no,
+            method,
+            status,
+            completed_at,
+            test_products(
+              id,
+              code,
+              name
+            ),
+            experiment_data(
+              *,
+              test_items(
+                id,
+                code,
+                name,
+                unit,
+                sort_order
+              )
+            )
+          )
+        )
+      )
+    `)
+    .eq('id', reportId)
+    .single();
+
+  if (error || !report) {
+    logger.error('加载报告数据失败:', error);
+    throw new NotFoundError('报告不存在');
+  }
+
+  let template: ReportTemplateRecord | null = report.report_templates || null;
+
+  // 未关联模板时使用系统默认模板（HTML或结构化章节模板）
+  if (!template) {
+    const { data: defaultTemplate } = await supabase
+      .from('report_templates')
+      .select('id, name, category, template_content, template_format, version')
+      .eq('is_default', true)
+      .eq('is_active', true)
+      .in('template_format', ['html', 'sections'])
+      .limit(1)
+      .maybeSingle();
+
+    template = defaultTemplate || null;
+  }
+
+  const submission: ReportSubmission = report.submissions || {};
+  const samples = submission.samples || [];
+  const results: ReportResultRow[] = [];
+
+  samples.forEach(sample => {
+    (sample.experiments || []).forEach(experiment => {
+      const rows = [...(experiment.experiment_data || [])].sort(
+        (a, b) => (a.test_items?.sort_order || 0) - (b.test_items?.sort_order || 0)
+      );
+
+      rows.forEach(row => {
+        results.push({
+          sample_no: sample.sample_no,
+          product_name: experiment.test_products?.name || '',
+          item_code: row.test_items?.code || '',
+          item_name: row.test_items?.name || '',
+          result: String(row.result_value ?? row.result_numeric ?? row.result_text ?? ''),
+          unit: row.unit || row.test_items?.unit || '',
+          reference_range: row.reference_range || '',
+          abnormal_flag: row.abnormal_flag || ''
+        });
+      });
+    });
+  });
+
+  return {
+    report,
+    template,
+    submission,
+    client_unit: submission.client_units || {},
+    samples,
+    results
+  };
+};
+
+/**
+ * 渲染修订报告标识
+ * @description 修订报告在正文前注明版本号、修订原因及被替代的版本
+ * @param report 报告数据
+ * @returns 修订标识HTML，非修订报告返回空字符串
+ */
+const renderAmendedMarker = (report: ReportRecord): string => {
+  if (!report.is_amended) {
+    return '';
+  }
+
+  const versionNo = Number(report.version_no) || 1;
+  return `
+<div class="amended">
+  <strong>修订报告（第${versionNo}版）</strong>，本报告替代第${versionNo - 1}版报告。
+  修订原因：${escapeHtml(report.amendment_reason)}
+</div>`;
+};
+
+/**
+ * 渲染报告HTML
+ * @description 按报告模板渲染正文，修订报告在正文前加修订标识
+ * @param context 报告渲染上下文
+ * @returns 完整的HTML文档
+ */
+export const renderReportHtml = (context: ReportRenderContext): string => {
+  const { body, styles } = renderTemplateBody(
+    context.template?.template_content ? context.template as { template_content: string; template_format?: string } : null,
+    context
+  );
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(context.report.report_no)}</title>
+<style>${BASE_STYLES}${styles}</style>
+</head>
+<body>${renderAmendedMarker(context.report)}${body}</body>
+</html>`;
+};
+
+/**
+ * HTML转PDF
+ * @description 使用无头Chromium打印PDF，默认A4格式
+ * @param html HTML文档
+ * @param options 纸张及边距设置，覆盖默认值
+ * @returns PDF文件内容
+ */
+export const renderHtmlToPdf = async (html: string, options: PDFOptions = {}): Promise<Buffer> => {
+  const browser = await puppeteer.launch({
+    headless: true,
+    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+    args: ['--no-sandbox', '--disable-setuid-sandbox']
+  });
+
+  try {
+    const page = await browser.newPage();
+    await page.setContent(html, { waitUntil: 'networkidle0' });
+    const pdf = await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '15mm', right: '12mm', bottom: '15mm', left: '12mm' },
+      ...options
+    });
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+};
+
+/**
+ * 上传报告PDF
+ * @description 将PDF写入报告存储桶，同一报告的文件以报告编号分目录
+ * @param reportNo 报告编号
+ * @param pdf PDF文件内容
+ * @param generatedBy 生成人ID
+ * @returns 报告文件记录
+ */
+export const uploadReportPdf = async (
+  reportNo: string,
+  pdf: Buffer,
+  generatedBy?: string
+): Promise<ReportFileRecord> => {
+  const generatedAt = new Date().toISOString();
+  const fileName = `${reportNo}_${generatedAt.replace(/[-:.TZ]/g, '')}.pdf`;
+  const storagePath = `${reportNo}/${fileName}`;
+
+  const { error } = await supabase.storage
+    .from(REPORT_BUCKET)
+    .upload(storagePath, pdf, { contentType: 'application/pdf', upsert: false });
+
+  if (error) {
+    logger.error('上传报告PDF失败:', error);
+    throw new DatabaseError('保存报告PDF失败');
+  }
+
+  return {
+    file_name: fileName,
+    storage_path: storagePath,
+    size: pdf.length,
+    generated_at: generatedAt,
+    generated_by: generatedBy
+  };
+};
+
+/**
+ * 创建报告文件下载链接
+ * @param storagePath 文件存储路径
+ * @returns 带签名的临时下载链接
+ */
+export const createReportDownloadUrl = async (storagePath: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(REPORT_BUCKET)
+    .createSignedUrl(storagePath, DOWNLOAD_URL_EXPIRES, { download: true });
+
+  if (error || !data) {
+    logger.error('创建报告下载链接失败:', error);
+    throw new DatabaseError('创建报告下载链接失败');
+  }
+
+  return data.signedUrl;
+};
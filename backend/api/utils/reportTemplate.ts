@@ -0,0 +1,428 @@
+/**
+ * 报告模板引擎
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：解析HTML模板和结构化章节模板，替换送检、受检者、样本、结果占位符，结果表格章节按实验数据逐行输出
+ */
+
+import type { ReportRenderContext, ReportResultRow } from './reportPdf.js';
+
+/**
+ * 模板格式
+ * @description html为整段HTML模板，sections为结构化章节模板（JSON存储）
+ */
+export type TemplateFormat = 'html' | 'sections';
+
+/**
+ * 模板章节类型
+ */
+export type TemplateSectionType = 'text' | 'table' | 'image' | 'chart';
+
+/**
+ * 结果表格列
+ */
+export type ResultColumnKey = keyof ReportResultRow;
+
+/**
+ * 模板章节接口
+ */
+export interface TemplateSection {
+  id: string;
+  title: string;
+  content: string;
+  order: number;
+  required: boolean;
+  type: TemplateSectionType;
+  columns?: ResultColumnKey[];
+}
+
+/**
+ * 模板样式接口
+ */
+export interface TemplateStyles {
+  fontSize: number;
+  fontFamily: string;
+  lineHeight: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+  colors: { primary: string; secondary: string; text: string };
+}
+
+/**
+ * 结构化模板接口
+ */
+export interface StructuredTemplate {
+  header: string;
+  sections: TemplateSection[];
+  footer: string;
+  styles: TemplateStyles;
+}
+
+/**
+ * 结果表格列名称
+ */
+export const RESULT_COLUMN_TEXT: Record<ResultColumnKey, string> = {
+  sample_no: '样本编号',
+  product_name: '检测产品',
+  item_code: '项目代码',
+  item_name: '检测项目',
+  result: '结果',
+  abnormal_flag: '提示',
+  unit: '单位',
+  reference_range: '参考范围'
+};
+
+/**
+ * 默认结果表格列
+ */
+export const DEFAULT_RESULT_COLUMNS: ResultColumnKey[] = [
+  'sample_no',
+  'item_name',
+  'result',
+  'abnormal_flag',
+  'unit',
+  'reference_range'
+];
+
+/**
+ * 可用占位符
+ * @description 模板中以 {{key}} 引用
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+  { key: 'report.report_no', label: '报告编号', group: '报告' },
+  { key: 'report.title', label: '报告标题', group: '报告' },
+  { key: 'report.summary', label: '检测概述', group: '报告' },
+  { key: 'report.content', label: '检测结果说明', group: '报告' },
+  { key: 'report.conclusion', label: '结论', group: '报告' },
+  { key: 'report.recommendations', label: '建议', group: '报告' },
+  { key: 'report.version_no', label: '报告版本', group: '报告' },
+  { key: 'report_date', label: '报告日期', group: '报告' },
+  { key: 'submission.submission_no', label: '送检编号', group: '送检' },
+  { key: 'submission.clinical_info', label: '临床信息', group: '送检' },
+  { key: 'submission.submitted_at', label: '送检时间', group: '送检' },
+  { key: 'submission.received_at', label: '接收时间', group: '送检' },
+  { key: 'client_unit.name', label: '送检单位', group: '送检' },
+  { key: 'client_unit.contact_person', label: '联系人', group: '送检' },
+  { key: 'patient.name', label: '姓名', group: '受检者' },
+  { key: 'patient.gender', label: '性别', group: '受检者' },
+  { key: 'patient.age', label: '年龄', group: '受检者' },
+  { key: 'sample.sample_no', label: '样本编号', group: '样本' },
+  { key: 'sample.barcode', label: '样本条码', group: '样本' },
+  { key: 'sample.type', label: '样本类型', group: '样本' },
+  { key: 'sample.collection_time', label: '采集时间', group: '样本' },
+  { key: 'sample.received_time', label: '接收时间', group: '样本' },
+  { key: 'results.count', label: '结果项数', group: '结果' },
+  { key: 'results.abnormal_count', label: '异常项数', group: '结果' },
+  { key: 'results_table', label: '结果表格', group: '结果' }
+];
+
+/**
+ * 内置默认模板
+ * @description 报告未关联模板且系统无默认模板时使用
+ */
+export const BUILTIN_TEMPLATE = `
+<h1 style="text-align:center">{{report.title}}</h1>
+<table class="info">
+  <tr><td>报告编号：{{report.report_no}}</td><td>送检编号：{{submission.submission_no}}</td></tr>
+  <tr><td>姓名：{{patient.name}}</td><td>性别：{{patient.gender}}</td></tr>
+  <tr><td>年龄：{{patient.age}}</td><td>送检单位：{{client_unit.name}}</td></tr>
+</table>
+<h2>检测结果</h2>
+{{results_table}}
+<h2>结论</h2>
+<p>{{report.conclusion}}</p>
+<h2>建议</h2>
+<p>{{report.recommendations}}</p>
+`;
+
+/**
+ * 性别中文名称
+ */
+const GENDER_TEXT: Record<string, string> = {
+  male: '男',
+  female: '女',
+  unknown: '未知'
+};
+
+/**
+ * HTML转义
+ * @param value 原始值
+ * @returns 转义后的字符串
+ */
+export const escapeHtml = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * 格式化日期时间
+ * @param value ISO时间
+ * @returns yyyy-MM-dd HH:mm 格式文本
+ */
+const formatDateTime = (value?: string | null): string => {
+  if (!value) {
+    return '';
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return String(value);
+  }
+  const pad = (num: number) => String(num).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * 构建占位符取值范围
+ * @param context 报告渲染上下文
+ * @returns 占位符数据
+ */
+export const buildTemplateScope = (context: ReportRenderContext): Record<string, unknown> => {
+  const { report, submission, client_unit: clientUnit, samples, results } = context;
+  const sample = samples[0] || {};
+
+  return {
+    report,
+    report_date: formatDateTime(report.released_at || report.approved_at || new Date().toISOString()).slice(0, 10),
+    submission: {
+      ...submission,
+      submitted_at: formatDateTime(submission.submitted_at),
+      received_at: formatDateTime(submission.received_at)
+    },
+    client_unit: clientUnit,
+    patient: {
+      name: submission.patient_name,
+      gender: GENDER_TEXT[submission.patient_gender || ''] || submission.patient_gender,
+      age: submission.patient_age
+    },
+    sample: {
+      ...sample,
+      type: sample.sample_types?.name,
+      collection_time: formatDateTime(sample.collection_time),
+      received_time: formatDateTime(sample.received_time)
+    },
+    results: {
+      count: results.length,
+      abnormal_count: results.filter(row => row.abnormal_flag).length
+    },
+    // 兼容初始化模板中的平铺占位符
+    report_no: report.report_no,
+    patient_name: submission.patient_name,
+    client_name: clientUnit.name,
+    conclusion: report.conclusion,
+    recommendations: report.recommendations
+  };
+};
+
+/**
+ * 渲染结果表格
+ * @param results 结果行列表
+ * @param columns 输出列，默认为 DEFAULT_RESULT_COLUMNS
+ * @returns 结果表格HTML
+ */
+export const renderResultsTable = (
+  results: ReportResultRow[],
+  columns: ResultColumnKey[] = DEFAULT_RESULT_COLUMNS
+): string => {
+  if (results.length === 0) {
+    return '<p>暂无检测结果</p>';
+  }
+
+  const header = columns.map(column => `<th>${RESULT_COLUMN_TEXT[column]}</th>`).join('');
+  const rows = results.map(row => `
+    <tr${row.abnormal_flag ? ' class="abnormal"' : ''}>${columns.map(column => `<td>${escapeHtml(row[column])}</td>`).join('')}</tr>`).join('');
+
+  return `
+<table class="results">
+  <thead>
+    <tr>${header}</tr>
+  </thead>
+  <tbody>${rows}
+  </tbody>
+</table>`;
+};
+
+/**
+ * 渲染结果图表
+ * @description 数值结果以横向条形图展示，异常结果标红
+ * @param results 结果行列表
+ * @returns SVG图表HTML
+ */
+const renderResultsChart = (results: ReportResultRow[]): string => {
+  const rows = results
+    .map(row => ({ ...row, value: Number(row.result) }))
+    .filter(row => row.result !== '' && Number.isFinite(row.value));
+
+  if (rows.length === 0) {
+    return '<p>暂无可绘制的数值结果</p>';
+  }
+
+  const max = Math.max(...rows.map(row => Math.abs(row.value)), 1);
+  const rowHeight = 22;
+  const labelWidth = 160;
+  const barWidth = 360;
+
+  const bars = rows.map((row, index) => {
+    const y = index * rowHeight;
+    const width = Math.max(1, Math.round((Math.abs(row.value) / max) * barWidth));
+    const color = row.abnormal_flag ? '#c00' : '#4b7bec';
+    return `
+  <text x="0" y="${y + 15}" font-size="11">${escapeHtml(row.item_name)}</text>
+  <rect x="${labelWidth}" y="${y + 4}" width="${width}" height="14" fill="${color}" />
+  <text x="${labelWidth + width + 4}" y="${y + 15}" font-size="11">${escapeHtml(row.result)} ${escapeHtml(row.unit)}</text>`;
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${labelWidth + barWidth + 120}" height="${rows.length * rowHeight}">${bars}
+</svg>`;
+};
+
+/**
+ * 替换单个占位符
+ * @param content 模板内容
+ * @param scope 占位符数据
+ * @param context 报告渲染上下文
+ * @returns 替换后的内容
+ */
+const replaceFields = (
+  content: string,
+  scope: Record<string, unknown>,
+  context: ReportRenderContext
+): string => {
+  return content.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match: string, path: string) => {
+    if (path === 'results_table') {
+      return renderResultsTable(context.results);
+    }
+    const value = path.split('.').reduce<unknown>(
+      (current, key) => (current as Record<string, unknown> | null | undefined)?.[key],
+      scope
+    );
+    return escapeHtml(value);
+  });
+};
+
+/**
+ * 替换模板占位符
+ * @description {{#results}}...{{/results}} 按结果行重复输出（行内可引用结果字段），
+ * {{path.to.field}} 替换为转义后的取值，{{results_table}} 替换为结果表格
+ * @param content 模板内容
+ * @param scope 占位符数据
+ * @param context 报告渲染上下文
+ * @returns 替换后的内容
+ */
+export const renderPlaceholders = (
+  content: string,
+  scope: Record<string, unknown>,
+  context: ReportRenderContext
+): string => {
+  const expanded = content.replace(
+    /\{\{#(results|test_results)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+    (_match: string, _name: string, block: string) => context.results
+      .map(row => replaceFields(block, { ...scope, ...row, result_value: row.result }, context))
+      .join('')
+  );
+
+  return replaceFields(expanded, scope, context);
+};
+
+/**
+ * 渲染模板章节
+ * @param section 模板章节
+ * @param scope 占位符数据
+ * @param context 报告渲染上下文
+ * @returns 章节HTML
+ */
+const renderSection = (
+  section: TemplateSection,
+  scope: Record<string, unknown>,
+  context: ReportRenderContext
+): string => {
+  const title = section.title ? `<h2>${escapeHtml(section.title)}</h2>` : '';
+  const text = section.content ? renderPlaceholders(section.content, scope, context) : '';
+
+  switch (section.type) {
+    case 'table':
+      return `<section>${title}${text ? `<p>${text}</p>` : ''}${renderResultsTable(context.results, section.columns?.length ? section.columns : undefined)}</section>`;
+    case 'chart':
+      return `<section>${title}${renderResultsChart(context.results)}</section>`;
+    case 'image':
+      return `<section>${title}${/^(https?:|data:image\/)/.test(section.content) ? `<img src="${escapeHtml(section.content)}" style="max-width:100%" />` : ''}</section>`;
+    default:
+      return `<section>${title}<p class="text">${text}</p></section>`;
+  }
+};
+
+/**
+ * 结构化模板样式
+ * @param styles 模板样式
+ * @returns CSS文本
+ */
+const renderTemplateStyles = (styles: TemplateStyles): string => {
+  const { margins, colors } = styles;
+  return `
+  body { font-family: "${styles.fontFamily}", "Noto Sans CJK SC", sans-serif; font-size: ${styles.fontSize}px; line-height: ${styles.lineHeight}; color: ${colors.text}; }
+  @page { margin: ${margins.top}mm ${margins.right}mm ${margins.bottom}mm ${margins.left}mm; }
+  h1, h2 { color: ${colors.primary}; }
+  .footer { color: ${colors.secondary}; border-top: 1px solid ${colors.secondary}; margin-top: 24px; padding-top: 6px; }
+  p.text { white-space: pre-wrap; }
+`;
+};
+
+/**
+ * 解析结构化模板
+ * @param content 模板内容（JSON文本或对象）
+ * @returns 结构化模板
+ */
+export const parseStructuredTemplate = (content: string | StructuredTemplate): StructuredTemplate => {
+  const template: StructuredTemplate = typeof content === 'string' ? JSON.parse(content) : content;
+  return {
+    ...template,
+    sections: [...(template.sections || [])].sort((a, b) => a.order - b.order)
+  };
+};
+
+/**
+ * 渲染模板正文
+ * @description 按模板格式渲染，未提供模板时使用内置模板
+ * @param template 模板记录（template_content、template_format）
+ * @param context 报告渲染上下文
+ * @returns 正文HTML及模板附加样式
+ */
+export const renderTemplateBody = (
+  template: { template_content: string; template_format?: string } | null,
+  context: ReportRenderContext
+): { body: string; styles: string } => {
+  const scope = buildTemplateScope(context);
+
+  if (template?.template_format === 'sections') {
+    const structured = parseStructuredTemplate(template.template_content);
+    const sections = structured.sections.map(section => renderSection(section, scope, context)).join('\n');
+    const header = structured.header ? `<h1 style="text-align:center">${renderPlaceholders(structured.header, scope, context)}</h1>` : '';
+    const footer = structured.footer ? `<div class="footer">${renderPlaceholders(structured.footer, scope, context)}</div>` : '';
+
+    return {
+      body: `${header}\n${sections}\n${footer}`,
+      styles: structured.styles ? renderTemplateStyles(structured.styles) : ''
+    };
+  }
+
+  return {
+    body: renderPlaceholders(template?.template_content || BUILTIN_TEMPLATE, scope, context),
+    styles: ''
+  };
+};
+
+/**
+ * 计算模板新版本号
+ * @description 主版本.次版本，内容变更时次版本加1
+ * @param version 当前版本号
+ * @returns 新版本号
+ */
+export const bumpTemplateVersion = (version?: string | null): string => {
+  const [major, minor] = String(version || '1.0').split('.').map(part => Number(part) || 0);
+  return `${major || 1}.${(minor || 0) + 1}`;
+};
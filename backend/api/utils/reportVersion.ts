@@ -0,0 +1,244 @@
+/**
+ * 报告版本工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：报告审核通过时保存版本快照并计算与上一版本的差异，已审核报告通过修订生成新版本
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { ConflictError, ValidationError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+
+/**
+ * 纳入版本管理的报告字段
+ */
+export const REPORT_VERSION_FIELDS = [
+  'template_id',
+  'title',
+  'content',
+  'summary',
+  'conclusion',
+  'recommendations'
+] as const;
+
+/**
+ * 报告版本字段
+ */
+export type ReportVersionField = typeof REPORT_VERSION_FIELDS[number];
+
+/**
+ * 报告字段差异
+ */
+export interface ReportFieldChange {
+  field: ReportVersionField;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * 计算报告字段差异
+ * @param before 修改前的报告内容
+ * @param after 修改后的报告内容，未提供的字段视为未修改
+ * @returns 有变化的字段列表
+ */
+export const computeReportDiff = (
+  before: Partial<Record<ReportVersionField, string | null>>,
+  after: Partial<Record<ReportVersionField, string | null>>
+): ReportFieldChange[] => {
+  return REPORT_VERSION_FIELDS
+    .filter(field => after[field] !== undefined && (after[field] ?? null) !== (before[field] ?? null))
+    .map(field => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null
+    }));
+};
+
+/**
+ * 获取报告的最新版本快照
+ * @param reportId 报告ID
+ * @param beforeVersion 仅查询小于该版本号的快照
+ * @returns 版本快照，不存在时返回null
+ */
+const getLatestVersion = async (reportId: string, beforeVersion?: number) => {
+  let query = supabase
+    .from('report_versions')
+    .select('*')
+    .eq('report_id', reportId)
+    .order('version_no', { ascending: false })
+    .limit(1);
+
+  if (beforeVersion) {
+    query = query.lt('version_no', beforeVersion);
+  }
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    logger.error('获取报告版本失败:', error);
+    throw new DatabaseError('获取报告版本失败');
+  }
+
+  return data;
+};
+
+/**
+ * 保存报告版本快照
+ * @description 以当前报告内容保存当前版本号的快照，同一版本只保存一次
+ * @param reportId 报告ID
+ * @param operatorId 操作人ID
+ * @returns 版本快照
+ */
+export const recordReportVersion = async (reportId: string, operatorId?: string) => {
+  const { data: report, error: reportError } = await supabase
+    .from('reports')
+    .select('id, report_no, version_no, template_id, title, content, summary, conclusion, recommendations, amendment_reason, file_urls, approved_by, approved_at, released_at')
+    .eq('id', reportId)
+    .single();
+
+  if (reportError || !report) {
+    logger.error('获取报告失败:', reportError);
+    throw new DatabaseError('获取报告失败');
+  }
+
+  const versionNo = report.version_no || 1;
+  const previous = await getLatestVersion(reportId, versionNo);
+
+  const { data, error } = await supabase
+    .from('report_versions')
+    .upsert({
+      report_id: reportId,
+      version_no: versionNo,
+      template_id: report.template_id,
+      title: report.title,
+      content: report.content,
+      summary: report.summary,
+      conclusion: report.conclusion,
+      recommendations: report.recommendations,
+      amendment_reason: versionNo > 1 ? report.amendment_reason : null,
+      diff: previous ? computeReportDiff(previous, report) : [],
+      file_urls: report.released_at ? report.file_urls || [] : [],
+      approved_by: report.approved_by,
+      approved_at: report.approved_at,
+      released_at: report.released_at,
+      created_by: operatorId
+    }, { onConflict: 'report_id,version_no', ignoreDuplicates: true })
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    logger.error('保存报告版本失败:', error);
+    throw new DatabaseError('保存报告版本失败');
+  }
+
+  logger.info(`报告版本已保存: ${report.report_no} 第${versionNo}版`, { operatorId });
+  return data;
+};
+
+/**
+ * 记录版本发布文件
+ * @description 版本发布时固定该版本的报告文件，已发布的版本不再变更
+ * @param reportId 报告ID
+ * @param versionNo 版本号
+ * @param fileUrls 报告文件列表
+ * @param releasedAt 发布时间
+ */
+export const markReportVersionReleased = async (
+  reportId: string,
+  versionNo: number,
+  fileUrls: unknown[],
+  releasedAt: string
+) => {
+  const { error } = await supabase
+    .from('report_versions')
+    .update({ file_urls: fileUrls, released_at: releasedAt })
+    .eq('report_id', reportId)
+    .eq('version_no', versionNo)
+    .is('released_at', null);
+
+  if (error) {
+    logger.error('更新报告版本发布信息失败:', error);
+    throw new DatabaseError('更新报告版本发布信息失败');
+  }
+};
+
+/**
+ * 修订已审核报告
+ * @description 保存当前版本快照后写入修改内容，版本号加1并退回草稿，需重新提交审核和发布
+ * @param reportId 报告ID
+ * @param changes 修改内容
+ * @param reason 修订原因
+ * @param operatorId 操作人ID
+ * @returns 更新后的报告及本次修改的差异
+ */
+export const amendReport = async (
+  reportId: string,
+  changes: Partial<Record<ReportVersionField, string | null>>,
+  reason: string | undefined,
+  operatorId?: string
+) => {
+  if (!reason) {
+    throw new ValidationError('修改已审核报告必须填写修订原因');
+  }
+
+  const { data: report, error: reportError } = await supabase
+    .from('reports')
+    .select('id, report_no, status, version_no, template_id, title, content, summary, conclusion, recommendations')
+    .eq('id', reportId)
+    .single();
+
+  if (reportError || !report) {
+    logger.error('获取报告失败:', reportError);
+    throw new DatabaseError('获取报告失败');
+  }
+
+  if (!['approved', 'delivered'].includes(report.status)) {
+    throw new ConflictError('只有已审核或已交付的报告可以修订');
+  }
+
+  const diff = computeReportDiff(report, changes);
+  if (diff.length === 0) {
+    throw new ValidationError('修订内容与当前版本相同');
+  }
+
+  // 修订前确保当前版本已有快照（兼容版本管理上线前审核的报告）
+  await recordReportVersion(reportId, operatorId);
+
+  const versionNo = (report.version_no || 1) + 1;
+  const updateData = diff.reduce<Record<string, string | null>>((result, change) => {
+    result[change.field] = change.after;
+    return result;
+  }, {});
+
+  const { data, error } = await supabase
+    .from('reports')
+    .update({
+      ...updateData,
+      version_no: versionNo,
+      is_amended: true,
+      amendment_reason: reason,
+      status: 'draft',
+      current_review_level: 0,
+      approved_by: null,
+      approved_at: null,
+      released_by: null,
+      released_at: null,
+      delivered_at: null,
+      file_urls: [],
+      updated_at: new Date().toISOString(),
+      updated_by: operatorId
+    })
+    .eq('id', reportId)
+    .eq('status', report.status)
+    .eq('version_no', report.version_no)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('修订报告失败:', error);
+    throw new ConflictError('报告状态已被其他操作修改，请刷新后重试');
+  }
+
+  logger.info(`报告已修订: ${report.report_no} 第${versionNo}版，原因：${reason}`, { operatorId });
+  return { report: data, diff };
+};
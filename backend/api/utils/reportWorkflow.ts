@@ -0,0 +1,496 @@
+/**
+ * 报告审核发布工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：报告提交审核、逐级审核、发布及交付记录，审核通过后报告内容不可修改
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { ConflictError, ValidationError, AuthorizationError, DatabaseError, NotFoundError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+import { createNotification } from './notification.js';
+import { transitionSubmission } from './submissionStatus.js';
+import { recordReportVersion, markReportVersionReleased } from './reportVersion.js';
+import { assertSubmissionQcReleasable } from './qualityControl.js';
+import type { ReportFileRecord } from './reportPdf.js';
+
+/**
+ * 报告状态类型
+ */
+export type ReportStatus =
+  | 'draft'
+  | 'pending_review'
+  | 'approved'
+  | 'delivered'
+  | 'cancelled';
+
+/**
+ * 报告状态中文名称
+ */
+export const REPORT_STATUS_TEXT: Record<ReportStatus, string> = {
+  draft: '草稿',
+  pending_review: '待审核',
+  approved: '已审核',
+  delivered: '已交付',
+  cancelled: '已取消'
+};
+
+/**
+ * 交付状态类型
+ */
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed' | 'cancelled';
+
+/**
+ * 交付方式
+ */
+export const DELIVERY_METHODS = ['email', 'download', 'print', 'courier'] as const;
+
+/**
+ * 交付状态流转规则
+ * @description 仅待交付记录可变更；交付失败需新建交付记录重新交付
+ */
+export const DELIVERY_TRANSITIONS: Record<DeliveryStatus, DeliveryStatus[]> = {
+  pending: ['delivered', 'failed', 'cancelled'],
+  delivered: [],
+  failed: [],
+  cancelled: []
+};
+
+/**
+ * 默认报告审核级数
+ */
+export const DEFAULT_REPORT_REVIEW_LEVELS = 1;
+
+/**
+ * 报告交付追踪信息
+ */
+export interface TrackingInfo {
+  carrier?: string;
+  tracking_no?: string;
+  message_id?: string;
+}
+
+/**
+ * 报告交付记录输入
+ */
+export interface ReportDeliveryInput {
+  deliveryMethod: string;
+  recipientName?: string;
+  recipientContact?: string;
+  deliveryStatus?: DeliveryStatus;
+  deliveryTime?: string;
+  trackingInfo?: TrackingInfo;
+  remarks?: string;
+}
+
+/**
+ * 获取报告流程字段
+ * @param reportId 报告ID
+ * @returns 报告记录
+ */
+const getWorkflowReport = async (reportId: string) => {
+  const { data, error } = await supabase
+    .from('reports')
+    .select('id, report_no, submission_id, status, version_no, current_review_level, required_review_levels, submitted_by, submitted_at, approved_at, released_at, file_urls, created_by')
+    .eq('id', reportId)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('报告不存在');
+  }
+
+  return data;
+};
+
+/**
+ * 校验报告是否可编辑
+ * @description 仅草稿可修改，审核中及审核通过后的报告内容锁定
+ * @param report 报告记录
+ */
+export const assertReportEditable = (report: { status: string }) => {
+  if (report.status !== 'draft') {
+    const text = REPORT_STATUS_TEXT[report.status as ReportStatus] || report.status;
+    throw new ConflictError(`报告${text}，不能修改`);
+  }
+};
+
+/**
+ * 获取报告审核级数
+ * @returns 审核级数，至少为1
+ */
+export const getRequiredReportReviewLevels = async (): Promise<number> => {
+  const value = Number(await getConfigValue<number>('review.report_levels', DEFAULT_REPORT_REVIEW_LEVELS));
+  return Number.isInteger(value) && value >= 1 ? value : DEFAULT_REPORT_REVIEW_LEVELS;
+};
+
+/**
+ * 提交报告审核
+ * @description 送检单下的实验结果须全部审核通过，审核级数在提交时按当前配置确定
+ * @param reportId 报告ID
+ * @param operatorId 提交人ID
+ * @returns 更新后的报告
+ */
+export const submitReportForReview = async (reportId: string, operatorId?: string) => {
+  const report = await getWorkflowReport(reportId);
+
+  if (report.status !== 'draft') {
+    throw new ConflictError('只有草稿状态的报告可以提交审核');
+  }
+
+  const { data: experiments, error: experimentError } = await supabase
+    .from('experiments')
+    .select('experiment_no, review_status, samples!inner(submission_id)')
+    .eq('samples.submission_id', report.submission_id)
+    .neq('status', 'cancelled');
+
+  if (experimentError) {
+    logger.error('查询送检实验失败:', experimentError);
+    throw new DatabaseError('查询送检实验失败');
+  }
+
+  // 失控暂停发布的结果先提示质控原因
+  await assertSubmissionQcReleasable(report.submission_id, report.report_no);
+
+  const unapproved = (experiments || []).filter(item => item.review_status !== 'approved');
+  if (unapproved.length > 0) {
+    throw new ConflictError('送检单存在未审核通过的实验结果，不能提交报告审核', {
+      experiments: unapproved.map(item => item.experiment_no)
+    });
+  }
+
+  const requiredLevels = await getRequiredReportReviewLevels();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('reports')
+    .update({
+      status: 'pending_review',
+      current_review_level: 1,
+      required_review_levels: requiredLevels,
+      submitted_by: operatorId,
+      submitted_at: now,
+      updated_at: now,
+      updated_by: operatorId
+    })
+    .eq('id', reportId)
+    .eq('status', 'draft')
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('提交报告审核失败:', error);
+    throw new ConflictError('报告状态已被其他操作修改，请刷新后重试');
+  }
+
+  logger.info(`报告已提交审核: ${report.report_no}，共${requiredLevels}级`, { operatorId });
+  return data;
+};
+
+/**
+ * 审核报告
+ * @param reportId 报告ID
+ * @param reviewerId 审核人ID
+ * @param result 审核结果
+ * @param comments 审核意见，驳回时必填
+ * @returns 更新后的报告
+ */
+export const reviewReport = async (
+  reportId: string,
+  reviewerId: string,
+  result: 'approved' | 'rejected',
+  comments?: string
+) => {
+  const report = await getWorkflowReport(reportId);
+
+  if (report.status !== 'pending_review') {
+    throw new ConflictError('报告不在待审核状态');
+  }
+  if (result === 'rejected' && !comments) {
+    throw new ValidationError('驳回时必须填写审核意见');
+  }
+  if (reviewerId === report.created_by || reviewerId === report.submitted_by) {
+    throw new AuthorizationError('报告编制人不能审核自己的报告');
+  }
+
+  const { data: audits, error: auditQueryError } = await supabase
+    .from('report_audits')
+    .select('auditor_id')
+    .eq('report_id', reportId)
+    .eq('audit_result', 'approved')
+    .gte('audit_time', report.submitted_at);
+
+  if (auditQueryError) {
+    logger.error('获取报告审核记录失败:', auditQueryError);
+    throw new DatabaseError('获取报告审核记录失败');
+  }
+  if ((audits || []).some(audit => audit.auditor_id === reviewerId)) {
+    throw new AuthorizationError('同一审核人不能重复审核同一报告的不同级别');
+  }
+
+  const level = report.current_review_level;
+  const now = new Date().toISOString();
+
+  const { data: audit, error: auditError } = await supabase
+    .from('report_audits')
+    .insert({
+      report_id: reportId,
+      auditor_id: reviewerId,
+      audit_level: level,
+      audit_result: result,
+      audit_comments: comments,
+      audit_time: now
+    })
+    .select('id')
+    .single();
+
+  if (auditError || !audit) {
+    logger.error('保存报告审核记录失败:', auditError);
+    throw new DatabaseError('保存报告审核记录失败');
+  }
+
+  const isFinalLevel = level >= report.required_review_levels;
+  const updateData: Record<string, unknown> = result === 'rejected'
+    ? { status: 'draft', current_review_level: 0 }
+    : isFinalLevel
+      ? { status: 'approved', approved_by: reviewerId, approved_at: now }
+      : { current_review_level: level + 1 };
+
+  const { data, error } = await supabase
+    .from('reports')
+    .update({ ...updateData, updated_at: now, updated_by: reviewerId })
+    .eq('id', reportId)
+    .eq('status', 'pending_review')
+    .eq('current_review_level', level)
+    .select()
+    .single();
+
+  if (error || !data) {
+    // 状态已被并发审核修改，撤销本次审核记录
+    await supabase.from('report_audits').delete().eq('id', audit.id);
+    logger.error('更新报告审核状态失败:', error);
+    throw new ConflictError('报告审核状态已被其他操作修改，请刷新后重试');
+  }
+
+  if (result === 'rejected') {
+    await createNotification({
+      title: `报告被驳回：${report.report_no}`,
+      content: `第${level}级审核驳回，审核意见：${comments}`,
+      type: 'report_rejected',
+      priority: 'high',
+      targetUsers: [...new Set([report.created_by, report.submitted_by].filter(Boolean))],
+      createdBy: reviewerId
+    });
+  } else if (isFinalLevel) {
+    // 审核通过的内容即为该版本的正式内容
+    await recordReportVersion(reportId, reviewerId);
+  }
+
+  logger.info(`报告审核: ${report.report_no} 第${level}级 ${result}`, { reviewerId });
+  return data;
+};
+
+/**
+ * 发布报告
+ * @description 仅审核通过的报告可发布，且须使用审核通过后生成的PDF，发布后送检单完成
+ * @param reportId 报告ID
+ * @param operatorId 发布人ID
+ * @returns 更新后的报告
+ */
+export const releaseReport = async (reportId: string, operatorId?: string) => {
+  const report = await getWorkflowReport(reportId);
+
+  if (report.status !== 'approved') {
+    throw new ConflictError('只有审核通过的报告可以发布');
+  }
+  if (report.released_at) {
+    throw new ConflictError('报告已发布');
+  }
+
+  const files: ReportFileRecord[] = Array.isArray(report.file_urls) ? report.file_urls : [];
+  const latestFile = files[files.length - 1];
+  if (!latestFile) {
+    throw new ConflictError('请先生成报告PDF再发布');
+  }
+  // 草稿阶段生成的PDF不含之后修改的内容，须在审核通过后重新生成
+  if (!report.approved_at || Date.parse(latestFile.generated_at) < Date.parse(report.approved_at)) {
+    throw new ConflictError('报告PDF生成于审核通过之前，请重新生成报告PDF再发布', {
+      generated_at: latestFile.generated_at,
+      approved_at: report.approved_at
+    });
+  }
+
+  // 报告审核通过后批次质控才失控的，纠正前同样不能发布
+  await assertSubmissionQcReleasable(report.submission_id, report.report_no);
+
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('reports')
+    .update({
+      released_by: operatorId,
+      released_at: now,
+      updated_at: now,
+      updated_by: operatorId
+    })
+    .eq('id', reportId)
+    .eq('status', 'approved')
+    .is('released_at', null)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('发布报告失败:', error);
+    throw new ConflictError('报告状态已被其他操作修改，请刷新后重试');
+  }
+
+  await markReportVersionReleased(reportId, report.version_no || 1, report.file_urls, now);
+
+  const { data: submission } = await supabase
+    .from('submissions')
+    .select('id, status')
+    .eq('id', report.submission_id)
+    .single();
+
+  if (submission?.status === 'in_progress') {
+    await transitionSubmission(submission.id, 'completed', operatorId, `报告已发布：${report.report_no}`);
+  }
+
+  logger.info(`报告已发布: ${report.report_no}`, { operatorId });
+  return data;
+};
+
+/**
+ * 将报告置为已交付
+ * @param reportId 报告ID
+ * @param deliveredAt 交付时间
+ * @param operatorId 操作人ID
+ */
+const markReportDelivered = async (reportId: string, deliveredAt: string, operatorId?: string) => {
+  const { error } = await supabase
+    .from('reports')
+    .update({
+      status: 'delivered',
+      delivered_at: deliveredAt,
+      updated_at: new Date().toISOString(),
+      updated_by: operatorId
+    })
+    .eq('id', reportId)
+    .eq('status', 'approved');
+
+  if (error) {
+    logger.error('更新报告交付状态失败:', error);
+    throw new DatabaseError('更新报告交付状态失败');
+  }
+};
+
+/**
+ * 记录报告交付
+ * @description 报告发布后方可交付；交付成功时报告置为已交付
+ * @param reportId 报告ID
+ * @param input 交付信息
+ * @param operatorId 操作人ID
+ * @returns 交付记录
+ */
+export const recordReportDelivery = async (reportId: string, input: ReportDeliveryInput, operatorId?: string) => {
+  const report = await getWorkflowReport(reportId);
+
+  if (!['approved', 'delivered'].includes(report.status) || !report.released_at) {
+    throw new ConflictError('报告发布后才能交付');
+  }
+
+  const deliveryStatus = input.deliveryStatus || 'pending';
+  const deliveryTime = deliveryStatus === 'delivered'
+    ? input.deliveryTime || new Date().toISOString()
+    : input.deliveryTime;
+
+  const { data, error } = await supabase
+    .from('report_deliveries')
+    .insert({
+      report_id: reportId,
+      version_no: report.version_no || 1,
+      delivery_method: input.deliveryMethod,
+      recipient_name: input.recipientName,
+      recipient_contact: input.recipientContact,
+      delivery_status: deliveryStatus,
+      delivery_time: deliveryTime,
+      tracking_info: input.trackingInfo,
+      remarks: input.remarks,
+      created_by: operatorId,
+      updated_by: operatorId
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('保存交付记录失败:', error);
+    throw new DatabaseError('保存交付记录失败');
+  }
+
+  if (deliveryStatus === 'delivered' && deliveryTime) {
+    await markReportDelivered(reportId, deliveryTime, operatorId);
+  }
+
+  logger.info(`报告交付已记录: ${report.report_no} ${input.deliveryMethod} ${deliveryStatus}`, { operatorId });
+  return data;
+};
+
+/**
+ * 更新报告交付状态
+ * @param reportId 报告ID
+ * @param deliveryId 交付记录ID
+ * @param input 交付状态及补充信息
+ * @param operatorId 操作人ID
+ * @returns 更新后的交付记录
+ */
+export const updateReportDelivery = async (
+  reportId: string,
+  deliveryId: string,
+  input: Pick<ReportDeliveryInput, 'deliveryTime' | 'trackingInfo' | 'remarks'> & { deliveryStatus: DeliveryStatus },
+  operatorId?: string
+) => {
+  const { data: delivery, error: checkError } = await supabase
+    .from('report_deliveries')
+    .select('id, delivery_status')
+    .eq('id', deliveryId)
+    .eq('report_id', reportId)
+    .single();
+
+  if (checkError || !delivery) {
+    throw new NotFoundError('交付记录不存在');
+  }
+
+  const from = delivery.delivery_status as DeliveryStatus;
+  if (!DELIVERY_TRANSITIONS[from].includes(input.deliveryStatus)) {
+    throw new ConflictError('交付记录已结束，不能变更状态', { from, to: input.deliveryStatus });
+  }
+
+  const now = new Date().toISOString();
+  const deliveryTime = input.deliveryStatus === 'delivered' ? input.deliveryTime || now : input.deliveryTime;
+
+  const { data, error } = await supabase
+    .from('report_deliveries')
+    .update({
+      delivery_status: input.deliveryStatus,
+      delivery_time: deliveryTime,
+      tracking_info: input.trackingInfo,
+      remarks: input.remarks,
+      updated_at: now,
+      updated_by: operatorId
+    })
+    .eq('id', deliveryId)
+    .eq('delivery_status', from)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('更新交付记录失败:', error);
+    throw new ConflictError('交付记录已被其他操作修改，请刷新后重试');
+  }
+
+  if (input.deliveryStatus === 'delivered' && deliveryTime) {
+    await markReportDelivered(reportId, deliveryTime, operatorId);
+  }
+
+  return data;
+};
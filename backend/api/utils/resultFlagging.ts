@@ -0,0 +1,172 @@
+/**
+ * 检测结果异常判定工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：根据受检者性别、年龄选择参考范围，判定结果偏高/偏低及危急值
+ */
+
+import type { TestItemInfo } from './experimentResults.js';
+
+/**
+ * 儿童参考范围适用年龄上限（不含）
+ */
+export const CHILD_AGE_LIMIT = 14;
+
+/**
+ * 异常标识：H-偏高，L-偏低，HH-严重偏高，LL-严重偏低
+ */
+export type AbnormalFlag = 'H' | 'L' | 'HH' | 'LL';
+
+/**
+ * 受检者信息
+ */
+export interface PatientInfo {
+  gender?: 'male' | 'female' | 'unknown' | null;
+  age?: number | null;
+}
+
+/**
+ * 结果判定输出
+ */
+export interface ResultFlag {
+  reference_range: string | null;
+  is_abnormal: boolean;
+  abnormal_flag: AbnormalFlag | null;
+  is_critical: boolean;
+}
+
+/**
+ * 数值区间
+ */
+interface NumericRange {
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * 转换为数值，空值返回 null
+ * @param value 原始值
+ * @returns 数值
+ */
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * 选择适用于受检者的参考范围文本
+ * @description 儿童优先使用儿童参考范围，其次按性别选择；均未配置时使用正常值上下限
+ * @param item 检测项目
+ * @param patient 受检者信息
+ * @returns 参考范围文本
+ */
+export const resolveReferenceRange = (item: TestItemInfo, patient: PatientInfo): string | null => {
+  const age = toNumber(patient.age);
+
+  if (age !== null && age < CHILD_AGE_LIMIT && item.reference_range_child) {
+    return item.reference_range_child;
+  }
+  if (patient.gender === 'male' && item.reference_range_male) {
+    return item.reference_range_male;
+  }
+  if (patient.gender === 'female' && item.reference_range_female) {
+    return item.reference_range_female;
+  }
+
+  const min = toNumber(item.normal_min);
+  const max = toNumber(item.normal_max);
+  if (min !== null && max !== null) {
+    return `${min}-${max}`;
+  }
+  if (max !== null) {
+    return `<${max}`;
+  }
+  if (min !== null) {
+    return `>${min}`;
+  }
+
+  return item.reference_range_male || item.reference_range_female || null;
+};
+
+/**
+ * 解析参考范围文本为数值区间
+ * @description 支持「3.5-5.5」「3.5~5.5」「<5」「≤5」「>10」「≥10」等写法，无法解析时返回 null
+ * @param text 参考范围文本
+ * @returns 数值区间
+ */
+export const parseReferenceRange = (text?: string | null): NumericRange | null => {
+  if (!text) {
+    return null;
+  }
+
+  const value = text.replace(/\s+/g, '');
+  const number = '(-?\\d+(?:\\.\\d+)?)';
+
+  const between = value.match(new RegExp(`^${number}(?:-|~|～|—|至)${number}$`));
+  if (between) {
+    return { min: Number(between[1]), max: Number(between[2]) };
+  }
+
+  const upper = value.match(new RegExp(`^(?:<|≤|<=)${number}$`));
+  if (upper) {
+    return { min: null, max: Number(upper[1]) };
+  }
+
+  const lower = value.match(new RegExp(`^(?:>|≥|>=)${number}$`));
+  if (lower) {
+    return { min: Number(lower[1]), max: null };
+  }
+
+  return null;
+};
+
+/**
+ * 判定检测结果
+ * @description 定量结果先比对危急值（LL/HH），再比对参考范围（L/H）；
+ * 定性结果与参考范围文本不一致时判为异常
+ * @param item 检测项目
+ * @param patient 受检者信息
+ * @param result 结果（数值或文本）
+ * @returns 判定结果
+ */
+export const flagResult = (
+  item: TestItemInfo,
+  patient: PatientInfo,
+  result: { result_numeric: number | null; result_value: string }
+): ResultFlag => {
+  const referenceRange = resolveReferenceRange(item, patient);
+  const value = result.result_numeric;
+
+  if (value === null) {
+    const isAbnormal = referenceRange !== null
+      && !parseReferenceRange(referenceRange)
+      && referenceRange.trim().toLowerCase() !== result.result_value.trim().toLowerCase();
+    return { reference_range: referenceRange, is_abnormal: isAbnormal, abnormal_flag: null, is_critical: false };
+  }
+
+  const criticalMin = toNumber(item.critical_min);
+  const criticalMax = toNumber(item.critical_max);
+  const range = parseReferenceRange(referenceRange)
+    || { min: toNumber(item.normal_min), max: toNumber(item.normal_max) };
+
+  let flag: AbnormalFlag | null = null;
+  if (criticalMin !== null && value < criticalMin) {
+    flag = 'LL';
+  } else if (criticalMax !== null && value > criticalMax) {
+    flag = 'HH';
+  } else if (range.min !== null && value < range.min) {
+    flag = 'L';
+  } else if (range.max !== null && value > range.max) {
+    flag = 'H';
+  }
+
+  return {
+    reference_range: referenceRange,
+    is_abnormal: flag !== null,
+    abnormal_flag: flag,
+    is_critical: flag === 'LL' || flag === 'HH'
+  };
+};
@@ -0,0 +1,1002 @@
+/**
+ * 样本借出单工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：样本借出申请、主管审批、扫码取样出库、归还入库登记用量及逾期提醒；各环节写入样本操作记录
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, AuthorizationError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+import { createNotification } from './notification.js';
+import { transitionSample, recordSampleOperation, SAMPLE_STATUS_TEXT, type SampleStatus } from './sampleLifecycle.js';
+import { getSamplePosition, storeSample } from './storageLocation.js';
+
+/**
+ * 逾期检查任务执行间隔（小时）
+ */
+const CHECKOUT_JOB_INTERVAL_HOURS = Number(process.env.SAMPLE_CHECKOUT_JOB_INTERVAL_HOURS) || 1;
+
+/**
+ * 默认借出时限（小时）
+ */
+const DEFAULT_CHECKOUT_HOURS = 24;
+
+/**
+ * 借出单状态
+ */
+export type CheckoutOrderStatus = 'pending_approval' | 'approved' | 'rejected' | 'checked_out' | 'returned' | 'cancelled';
+
+/**
+ * 借出单状态中文名称
+ */
+export const CHECKOUT_ORDER_STATUS_TEXT: Record<CheckoutOrderStatus, string> = {
+  pending_approval: '待审批',
+  approved: '已批准',
+  rejected: '已驳回',
+  checked_out: '已出库',
+  returned: '已归还',
+  cancelled: '已取消'
+};
+
+/**
+ * 借出原因
+ */
+export type CheckoutReason = 'testing' | 'transfer' | 'qc' | 'other';
+
+/**
+ * 借出原因中文名称
+ */
+export const CHECKOUT_REASON_TEXT: Record<CheckoutReason, string> = {
+  testing: '检测使用',
+  transfer: '样本转移',
+  qc: '质量控制',
+  other: '其他'
+};
+
+/**
+ * 可取样出库的借出单状态
+ */
+const PICKABLE_ORDER_STATUSES: CheckoutOrderStatus[] = ['approved', 'checked_out'];
+
+/**
+ * 创建借出单参数
+ * @description 未指定借出人时为申请人；未指定预计归还时间时按系统配置的默认时限计算
+ */
+export interface CreateCheckoutOrderInput {
+  sampleIds: string[];
+  reason: CheckoutReason;
+  purpose?: string;
+  destination?: string;
+  holderId?: string;
+  dueBackAt?: string;
+  remarks?: string;
+  operatorId: string;
+}
+
+/**
+ * 归还样本参数
+ * @description 指定冻存盒孔位时放入新孔位，否则放回出库前保留的孔位或存储位置
+ */
+export interface ReturnCheckoutItemInput {
+  barcode: string;
+  volumeUsed?: number;
+  boxId?: string;
+  position?: string;
+  remarks?: string;
+  operatorId?: string;
+}
+
+/**
+ * 借出中样本查询选项
+ */
+export interface CheckedOutSampleQuery {
+  holderId?: string;
+  overdueOnly?: boolean;
+  search?: string;
+}
+
+/**
+ * 逾期检查任务结果
+ */
+export interface CheckoutOverdueJobSummary {
+  overdue: number;
+  notified: number;
+  run_at: string;
+}
+
+/**
+ * 借出单详情查询字段
+ */
+const ORDER_DETAIL_FIELDS = `
+  *,
+  holder:users!sample_checkout_orders_holder_id_fkey(
+    id,
+    real_name
+  ),
+  requester:users!sample_checkout_orders_requested_by_fkey(
+    id,
+    real_name
+  ),
+  approver:users!sample_checkout_orders_approved_by_fkey(
+    id,
+    real_name
+  ),
+  sample_checkout_items(
+    id,
+    sample_id,
+    status,
+    from_location,
+    picked_by,
+    picked_at,
+    volume_before,
+    volume_used,
+    return_location,
+    returned_by,
+    returned_at,
+    remarks,
+    samples(
+      id,
+      sample_no,
+      barcode,
+      status,
+      volume,
+      unit,
+      storage_location,
+      sample_types(
+        id,
+        code,
+        name
+      )
+    )
+  )
+`;
+
+/**
+ * 借出中样本查询字段
+ */
+const CHECKED_OUT_FIELDS = `
+  id,
+  order_id,
+  sample_id,
+  from_location,
+  picked_by,
+  picked_at,
+  volume_before,
+  overdue_notified_at,
+  samples!inner(
+    id,
+    sample_no,
+    barcode,
+    status,
+    volume,
+    unit,
+    storage_location
+  ),
+  sample_checkout_orders!inner(
+    id,
+    order_no,
+    reason,
+    destination,
+    holder_id,
+    due_back_at,
+    holder:users!sample_checkout_orders_holder_id_fkey(
+      id,
+      real_name
+    )
+  )
+`;
+
+/**
+ * 借出中样本记录
+ */
+export interface CheckedOutItemRow {
+  id: string;
+  order_id: string;
+  sample_id: string;
+  from_location: string | null;
+  picked_by: string | null;
+  picked_at: string | null;
+  volume_before: number | null;
+  overdue_notified_at: string | null;
+  samples: {
+    id: string;
+    sample_no: string;
+    barcode: string;
+    status: string;
+    volume: number | null;
+    unit: string | null;
+    storage_location: string | null;
+  };
+  sample_checkout_orders: {
+    id: string;
+    order_no: string;
+    reason: CheckoutReason;
+    destination: string;
+    holder_id: string;
+    due_back_at: string;
+    holder?: { id: string; real_name: string } | null;
+  };
+}
+
+/**
+ * 借出期间样本的存储位置文本
+ * @param holderName 借出人姓名
+ * @returns 存储位置
+ */
+const checkoutLocation = (holderName: string): string => `借出：${holderName}`.slice(0, 100);
+
+/**
+ * 生成借出单号
+ * @returns 借出单号
+ */
+const generateCheckoutOrderNo = async (): Promise<string> => {
+  const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+  const { data, error } = await supabase
+    .from('sample_checkout_orders')
+    .select('order_no')
+    .like('order_no', `CO${dateStr}%`)
+    .order('order_no', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    logger.error('生成借出单号失败:', error);
+    throw new DatabaseError('生成借出单号失败');
+  }
+
+  const last = data?.[0]?.order_no ? Number(data[0].order_no.slice(-3)) : 0;
+  return `CO${dateStr}${String(last + 1).padStart(3, '0')}`;
+};
+
+/**
+ * 获取借出单
+ * @param orderId 借出单ID
+ * @returns 借出单记录，含借出人姓名
+ */
+const getOrder = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from('sample_checkout_orders')
+    .select('*, holder:users!sample_checkout_orders_holder_id_fkey(id, real_name)')
+    .eq('id', orderId)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('借出单不存在');
+  }
+
+  return data;
+};
+
+/**
+ * 获取用户姓名
+ * @param userId 用户ID
+ * @returns 用户姓名
+ */
+const getUserName = async (userId: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, real_name')
+    .eq('id', userId)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('借出人不存在');
+  }
+
+  return data.real_name;
+};
+
+/**
+ * 按条码查找借出单内的样本
+ * @param orderId 借出单ID
+ * @param barcode 扫描的样本条码
+ * @returns 借出单样本
+ */
+const findOrderItemByBarcode = async (orderId: string, barcode: string) => {
+  const { data, error } = await supabase
+    .from('sample_checkout_items')
+    .select('*, samples!inner(id, sample_no, barcode, status, volume, unit, storage_location)')
+    .eq('order_id', orderId)
+    .eq('samples.barcode', barcode)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('获取借出单样本失败:', error);
+    throw new DatabaseError('获取借出单样本失败');
+  }
+  if (!data) {
+    throw new ValidationError(`条码 ${barcode} 不在该借出单中，请核对样本`);
+  }
+
+  return data;
+};
+
+/**
+ * 为借出单内样本写入操作记录
+ * @description 申请、审批和取消不改变样本状态，记录写入失败只记录日志，不影响借出单操作
+ * @param items 借出单样本（含样本当前状态和位置）
+ * @param operationType 操作类型
+ * @param description 操作描述
+ * @param toLocation 目标位置
+ * @param operatorId 操作人ID
+ */
+const recordOrderOperations = async (
+  items: { sample_id: string; status?: string | null; storage_location?: string | null }[],
+  operationType: string,
+  description: string,
+  toLocation: string,
+  operatorId?: string
+): Promise<void> => {
+  for (const item of items) {
+    try {
+      await recordSampleOperation({
+        sampleId: item.sample_id,
+        operationType,
+        description,
+        fromStatus: item.status,
+        toStatus: item.status,
+        fromLocation: item.storage_location ?? null,
+        toLocation,
+        operatorId
+      });
+    } catch (error) {
+      logger.error(`写入借出操作记录失败: ${item.sample_id}`, error);
+    }
+  }
+};
+
+/**
+ * 获取借出单内待取样样本及其当前状态
+ * @param orderId 借出单ID
+ * @returns 操作记录所需的样本信息
+ */
+const getPendingItemSamples = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from('sample_checkout_items')
+    .select('sample_id, samples(status, storage_location)')
+    .eq('order_id', orderId)
+    .eq('status', 'pending');
+
+  if (error) {
+    logger.error('获取借出单样本失败:', error);
+    throw new DatabaseError('获取借出单样本失败');
+  }
+
+  return (data || []).map(item => {
+    const sample = firstRelation(item.samples);
+    return {
+      sample_id: item.sample_id,
+      status: sample?.status,
+      storage_location: sample?.storage_location
+    };
+  });
+};
+
+/**
+ * 获取处于未完成借出单中的样本
+ * @param sampleIds 样本ID列表
+ * @returns 样本ID到借出单号的映射
+ */
+const getSamplesInOpenOrders = async (sampleIds: string[]): Promise<Map<string, string>> => {
+  const { data, error } = await supabase
+    .from('sample_checkout_items')
+    .select('sample_id, sample_checkout_orders(order_no)')
+    .in('sample_id', sampleIds)
+    .in('status', ['pending', 'picked']);
+
+  if (error) {
+    logger.error('获取借出单样本失败:', error);
+    throw new DatabaseError('获取借出单样本失败');
+  }
+
+  return new Map<string, string>(
+    (data || []).map(item => [item.sample_id, firstRelation(item.sample_checkout_orders)?.order_no || ''])
+  );
+};
+
+/**
+ * 判断借出单是否逾期
+ * @param order 借出单状态和预计归还时间
+ * @param now 当前时间
+ * @returns 是否逾期
+ */
+export const isCheckoutOverdue = (
+  order: { status: string; due_back_at: string },
+  now: number = Date.now()
+): boolean => order.status === 'checked_out' && Date.parse(order.due_back_at) < now;
+
+/**
+ * 获取借出单详情
+ * @param orderId 借出单ID
+ * @returns 借出单及样本，附是否逾期
+ */
+export const getCheckoutOrder = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from('sample_checkout_orders')
+    .select(ORDER_DETAIL_FIELDS)
+    .eq('id', orderId)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('借出单不存在');
+  }
+
+  return { ...data, is_overdue: isCheckoutOverdue(data) };
+};
+
+/**
+ * 创建借出单
+ * @description 样本须在库且不在其他未完成的借出单中；创建后通知实验室主管审批
+ * @param input 借出单参数
+ * @returns 借出单详情
+ */
+export const createCheckoutOrder = async (input: CreateCheckoutOrderInput) => {
+  const { sampleIds, reason, purpose, destination, dueBackAt, remarks, operatorId } = input;
+  const holderId = input.holderId || operatorId;
+
+  const { data: samples, error: sampleError } = await supabase
+    .from('samples')
+    .select('id, sample_no, status, storage_location, volume')
+    .in('id', sampleIds);
+
+  if (sampleError) {
+    logger.error('获取样本失败:', sampleError);
+    throw new DatabaseError('获取样本失败');
+  }
+
+  const found = new Map((samples || []).map(sample => [sample.id, sample]));
+  const missing = sampleIds.filter(id => !found.has(id));
+  if (missing.length > 0) {
+    throw new NotFoundError('部分样本不存在', { sample_ids: missing });
+  }
+
+  const inOrders = await getSamplesInOpenOrders(sampleIds);
+  const invalid = (samples || [])
+    .map(sample => {
+      if (sample.status !== 'in_storage') {
+        return { sample_no: sample.sample_no, reason: `「${SAMPLE_STATUS_TEXT[sample.status as SampleStatus]}」状态不能借出` };
+      }
+      if (inOrders.has(sample.id)) {
+        return { sample_no: sample.sample_no, reason: `已在借出单 ${inOrders.get(sample.id)} 中` };
+      }
+      return null;
+    })
+    .filter(Boolean);
+
+  if (invalid.length > 0) {
+    throw new ConflictError('部分样本不能借出', { samples: invalid });
+  }
+
+  const holderName = await getUserName(holderId);
+
+  let dueBack = dueBackAt;
+  if (!dueBack) {
+    const hours = Number(await getConfigValue<number>('business.sample_checkout_default_hours', DEFAULT_CHECKOUT_HOURS))
+      || DEFAULT_CHECKOUT_HOURS;
+    dueBack = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+  }
+  if (Date.parse(dueBack) <= Date.now()) {
+    throw new ValidationError('预计归还时间必须晚于当前时间');
+  }
+
+  const orderNo = await generateCheckoutOrderNo();
+
+  const { data: order, error: orderError } = await supabase
+    .from('sample_checkout_orders')
+    .insert({
+      order_no: orderNo,
+      status: 'pending_approval',
+      reason,
+      purpose: purpose || null,
+      destination: destination || null,
+      holder_id: holderId,
+      due_back_at: dueBack,
+      sample_count: sampleIds.length,
+      requested_by: operatorId,
+      requested_at: new Date().toISOString(),
+      remarks
+    })
+    .select()
+    .single();
+
+  if (orderError || !order) {
+    if (orderError?.code === '23505') {
+      throw new ConflictError('借出单号已存在，请重试');
+    }
+    logger.error('创建借出单失败:', orderError);
+    throw new DatabaseError('创建借出单失败');
+  }
+
+  const { error: itemError } = await supabase
+    .from('sample_checkout_items')
+    .insert(sampleIds.map(sampleId => ({
+      order_id: order.id,
+      sample_id: sampleId,
+      from_location: found.get(sampleId)?.storage_location || null
+    })));
+
+  if (itemError) {
+    await supabase.from('sample_checkout_orders').delete().eq('id', order.id);
+    if (itemError.code === '23505') {
+      throw new ConflictError('部分样本已被其他借出单占用，请刷新后重试');
+    }
+    logger.error('保存借出单样本失败:', itemError);
+    throw new DatabaseError('创建借出单失败');
+  }
+
+  await recordOrderOperations(
+    sampleIds.map(sampleId => ({ sample_id: sampleId, ...found.get(sampleId) })),
+    'checkout_request',
+    `借出申请 ${orderNo}：${CHECKOUT_REASON_TEXT[reason]}${destination ? `，去向 ${destination}` : ''}`,
+    checkoutLocation(holderName),
+    operatorId
+  );
+
+  await createNotification({
+    title: `样本借出待审批：${orderNo}`,
+    content: `借出样本${sampleIds.length}个，借出人：${holderName}，原因：${CHECKOUT_REASON_TEXT[reason]}${purpose ? `（${purpose}）` : ''}`,
+    type: 'sample_checkout_approval',
+    priority: 'normal',
+    targetRoles: ['lab_manager'],
+    createdBy: operatorId
+  });
+
+  logger.info(`借出单已提交: ${orderNo}，样本${sampleIds.length}个`, { operatorId });
+  return getCheckoutOrder(order.id);
+};
+
+/**
+ * 审批借出单
+ * @description 申请人不能审批自己提交的借出单；驳回时必须填写意见，驳回后借出单内样本释放；
+ * 审批结果通知申请人和借出人
+ * @param orderId 借出单ID
+ * @param reviewerId 审批人ID
+ * @param result 审批结果
+ * @param comments 审批意见
+ * @returns 更新后的借出单
+ */
+export const reviewCheckoutOrder = async (
+  orderId: string,
+  reviewerId: string,
+  result: 'approved' | 'rejected',
+  comments?: string
+) => {
+  const order = await getOrder(orderId);
+
+  if (order.status !== 'pending_approval') {
+    throw new ConflictError(`借出单${CHECKOUT_ORDER_STATUS_TEXT[order.status as CheckoutOrderStatus]}，不能审批`);
+  }
+  if (result === 'rejected' && !comments) {
+    throw new ValidationError('驳回时必须填写审批意见');
+  }
+  if (reviewerId === order.requested_by) {
+    throw new AuthorizationError('申请人不能审批自己提交的借出单');
+  }
+
+  const items = await getPendingItemSamples(orderId);
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('sample_checkout_orders')
+    .update({
+      status: result,
+      approved_by: reviewerId,
+      approved_at: now,
+      approval_comments: comments || null,
+      updated_at: now
+    })
+    .eq('id', orderId)
+    .eq('status', 'pending_approval')
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('审批借出单失败:', error);
+    throw new ConflictError('借出单状态已被其他操作修改，请刷新后重试');
+  }
+
+  if (result === 'rejected') {
+    const { error: itemError } = await supabase
+      .from('sample_checkout_items')
+      .update({ status: 'cancelled' })
+      .eq('order_id', orderId)
+      .eq('status', 'pending');
+
+    if (itemError) {
+      logger.error('释放借出单样本失败:', itemError);
+    }
+  }
+
+  await recordOrderOperations(
+    items,
+    result === 'approved' ? 'checkout_approve' : 'checkout_reject',
+    `借出单 ${order.order_no} ${result === 'approved' ? '已批准' : '已驳回'}${comments ? `：${comments}` : ''}`,
+    checkoutLocation(order.holder?.real_name || ''),
+    reviewerId
+  );
+
+  const notifyUsers = [...new Set([order.requested_by, order.holder_id].filter(Boolean))];
+  if (notifyUsers.length > 0) {
+    await createNotification({
+      title: `样本借出${result === 'approved' ? '已批准' : '被驳回'}：${order.order_no}`,
+      content: result === 'approved'
+        ? `请在样本库扫码取样，预计归还时间：${new Date(order.due_back_at).toLocaleString('zh-CN')}`
+        : `审批意见：${comments}`,
+      type: result === 'approved' ? 'sample_checkout_approved' : 'sample_checkout_rejected',
+      priority: 'normal',
+      targetUsers: notifyUsers,
+      createdBy: reviewerId
+    });
+  }
+
+  logger.info(`借出单审批: ${order.order_no} ${result}`, { reviewerId });
+  return data;
+};
+
+/**
+ * 取消借出单
+ * @description 只能取消尚未取样出库的借出单，取消后借出单内样本释放
+ * @param orderId 借出单ID
+ * @param operatorId 操作人ID
+ * @param reason 取消原因
+ * @returns 更新后的借出单
+ */
+export const cancelCheckoutOrder = async (orderId: string, operatorId?: string, reason?: string) => {
+  const order = await getOrder(orderId);
+
+  if (!['pending_approval', 'approved'].includes(order.status)) {
+    throw new ConflictError(`借出单${CHECKOUT_ORDER_STATUS_TEXT[order.status as CheckoutOrderStatus]}，不能取消`);
+  }
+
+  const items = await getPendingItemSamples(orderId);
+
+  const { data, error } = await supabase
+    .from('sample_checkout_orders')
+    .update({
+      status: 'cancelled',
+      remarks: reason ? [order.remarks, `取消原因：${reason}`].filter(Boolean).join('\n') : order.remarks,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', orderId)
+    .eq('status', order.status)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('取消借出单失败:', error);
+    throw new ConflictError('借出单状态已被其他操作修改，请刷新后重试');
+  }
+
+  const { error: itemError } = await supabase
+    .from('sample_checkout_items')
+    .update({ status: 'cancelled' })
+    .eq('order_id', orderId)
+    .eq('status', 'pending');
+
+  if (itemError) {
+    logger.error('释放借出单样本失败:', itemError);
+  }
+
+  await recordOrderOperations(
+    items,
+    'checkout_cancel',
+    `借出单 ${order.order_no} 已取消${reason ? `：${reason}` : ''}`,
+    checkoutLocation(order.holder?.real_name || ''),
+    operatorId
+  );
+
+  logger.info(`借出单已取消: ${order.order_no}`, { operatorId });
+  return data;
+};
+
+/**
+ * 扫码取样出库
+ * @description 扫描的条码须属于该借出单且尚未取样；样本变更为出库待检，存储位置记为借出人，孔位保留以便归还；
+ * 首个样本出库后借出单变为已出库
+ * @param orderId 借出单ID
+ * @param barcode 扫描的样本条码
+ * @param operatorId 操作人ID
+ * @param remarks 备注
+ * @returns 借出单详情
+ */
+export const pickCheckoutItem = async (orderId: string, barcode: string, operatorId?: string, remarks?: string) => {
+  const order = await getOrder(orderId);
+
+  if (!PICKABLE_ORDER_STATUSES.includes(order.status as CheckoutOrderStatus)) {
+    throw new ConflictError(`借出单${CHECKOUT_ORDER_STATUS_TEXT[order.status as CheckoutOrderStatus]}，不能取样出库`);
+  }
+
+  const item = await findOrderItemByBarcode(orderId, barcode);
+  if (item.status !== 'pending') {
+    throw new ConflictError(`样本 ${item.samples.sample_no} 已${item.status === 'picked' ? '出库' : '处理'}，请勿重复扫码`);
+  }
+
+  const now = new Date().toISOString();
+
+  // 先占用借出单样本，防止重复出库
+  const { data: claimed, error: claimError } = await supabase
+    .from('sample_checkout_items')
+    .update({
+      status: 'picked',
+      from_location: item.samples.storage_location || item.from_location,
+      picked_by: operatorId,
+      picked_at: now,
+      volume_before: item.samples.volume,
+      remarks: remarks || null
+    })
+    .eq('id', item.id)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (claimError || !claimed) {
+    logger.error('样本取样出库失败:', claimError);
+    throw new ConflictError('样本已被其他操作出库，请刷新后重试');
+  }
+
+  try {
+    await transitionSample(item.sample_id, 'out_for_test', {
+      operatorId,
+      toLocation: checkoutLocation(order.holder?.real_name || ''),
+      reason: `借出单 ${order.order_no}：${CHECKOUT_REASON_TEXT[order.reason as CheckoutReason]}${order.destination ? `，去向 ${order.destination}` : ''}`,
+      remarks,
+      operationType: 'checkout'
+    });
+  } catch (error) {
+    await supabase
+      .from('sample_checkout_items')
+      .update({ status: 'pending', picked_by: null, picked_at: null, volume_before: null })
+      .eq('id', item.id);
+    throw error;
+  }
+
+  if (order.status === 'approved') {
+    const { error: orderError } = await supabase
+      .from('sample_checkout_orders')
+      .update({ status: 'checked_out', updated_at: now })
+      .eq('id', orderId)
+      .eq('status', 'approved');
+
+    if (orderError) {
+      logger.error('更新借出单状态失败:', orderError);
+    }
+  }
+
+  logger.info(`借出样本已出库: ${order.order_no} ${item.samples.sample_no}`, { operatorId });
+  return getCheckoutOrder(orderId);
+};
+
+/**
+ * 归还样本入库
+ * @description 扫描的条码须属于该借出单且已出库；按用量扣减余量后入库，未指定孔位时放回保留的孔位或出库前位置；
+ * 已出库样本全部归还后借出单变为已归还，未取样的样本不再出库
+ * @param orderId 借出单ID
+ * @param input 归还参数
+ * @returns 借出单详情
+ */
+export const returnCheckoutItem = async (orderId: string, input: ReturnCheckoutItemInput) => {
+  const { barcode, volumeUsed, boxId, position, remarks, operatorId } = input;
+  const order = await getOrder(orderId);
+
+  if (order.status !== 'checked_out') {
+    throw new ConflictError(`借出单${CHECKOUT_ORDER_STATUS_TEXT[order.status as CheckoutOrderStatus]}，不能归还样本`);
+  }
+
+  const item = await findOrderItemByBarcode(orderId, barcode);
+  if (item.status !== 'picked') {
+    throw new ConflictError(`样本 ${item.samples.sample_no} ${item.status === 'returned' ? '已归还' : '尚未出库'}`);
+  }
+
+  const currentVolume = item.samples.volume !== null && item.samples.volume !== undefined
+    ? Number(item.samples.volume)
+    : null;
+  if (volumeUsed !== undefined && currentVolume !== null && volumeUsed > currentVolume) {
+    throw new ValidationError('用量不能大于样本当前余量', { volume: currentVolume, volume_used: volumeUsed });
+  }
+
+  const reserved = boxId ? null : await getSamplePosition(item.sample_id);
+  const toLocation = boxId || reserved ? undefined : item.from_location;
+  if (!boxId && !reserved && !toLocation) {
+    throw new ValidationError(`样本 ${item.samples.sample_no} 出库前无存储位置，请指定归还孔位`);
+  }
+
+  const now = new Date().toISOString();
+
+  // 先占用借出单样本，防止重复归还
+  const { data: claimed, error: claimError } = await supabase
+    .from('sample_checkout_items')
+    .update({
+      status: 'returned',
+      volume_used: volumeUsed ?? null,
+      returned_by: operatorId,
+      returned_at: now,
+      remarks: remarks || item.remarks
+    })
+    .eq('id', item.id)
+    .eq('status', 'picked')
+    .select()
+    .single();
+
+  if (claimError || !claimed) {
+    logger.error('样本归还失败:', claimError);
+    throw new ConflictError('样本已被其他操作归还，请刷新后重试');
+  }
+
+  let sample;
+  try {
+    sample = await storeSample(item.sample_id, {
+      operatorId,
+      toLocation,
+      boxId,
+      position,
+      volumeAfter: volumeUsed !== undefined && currentVolume !== null ? currentVolume - volumeUsed : undefined,
+      reason: `借出单 ${order.order_no} 归还${volumeUsed !== undefined ? `，用量 ${volumeUsed}${item.samples.unit || ''}` : ''}`,
+      remarks,
+      operationType: 'checkin'
+    });
+  } catch (error) {
+    await supabase
+      .from('sample_checkout_items')
+      .update({ status: 'picked', volume_used: null, returned_by: null, returned_at: null, remarks: item.remarks })
+      .eq('id', item.id);
+    throw error;
+  }
+
+  const { error: locationError } = await supabase
+    .from('sample_checkout_items')
+    .update({ return_location: sample.storage_location })
+    .eq('id', item.id);
+
+  if (locationError) {
+    logger.error('更新归还位置失败:', locationError);
+  }
+
+  const { count, error: countError } = await supabase
+    .from('sample_checkout_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('order_id', orderId)
+    .eq('status', 'picked');
+
+  if (countError) {
+    logger.error('获取借出单未归还样本失败:', countError);
+  } else if (count === 0) {
+    await supabase
+      .from('sample_checkout_items')
+      .update({ status: 'cancelled' })
+      .eq('order_id', orderId)
+      .eq('status', 'pending');
+
+    const { error: orderError } = await supabase
+      .from('sample_checkout_orders')
+      .update({ status: 'returned', returned_at: now, updated_at: now })
+      .eq('id', orderId)
+      .eq('status', 'checked_out');
+
+    if (orderError) {
+      logger.error('更新借出单状态失败:', orderError);
+    }
+  }
+
+  logger.info(`借出样本已归还: ${order.order_no} ${item.samples.sample_no}`, { operatorId });
+  return getCheckoutOrder(orderId);
+};
+
+/**
+ * 查询借出中的样本
+ * @description 已出库未归还的样本及借出人，附是否逾期和逾期小时数
+ * @param options 查询选项
+ * @returns 借出中样本列表，按预计归还时间升序
+ */
+export const listCheckedOutSamples = async (options: CheckedOutSampleQuery = {}) => {
+  const { holderId, overdueOnly, search } = options;
+  const now = Date.now();
+
+  let query = supabase
+    .from('sample_checkout_items')
+    .select(CHECKED_OUT_FIELDS)
+    .eq('status', 'picked');
+
+  if (holderId) {
+    query = query.eq('sample_checkout_orders.holder_id', holderId);
+  }
+  if (overdueOnly) {
+    query = query.lt('sample_checkout_orders.due_back_at', new Date(now).toISOString());
+  }
+  if (search) {
+    query = query.or(`sample_no.ilike.%${search}%,barcode.ilike.%${search}%`, { referencedTable: 'samples' });
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('获取借出中样本失败:', error);
+    throw new DatabaseError('获取借出中样本失败');
+  }
+
+  // 样本和借出单为内连接，关联记录必然存在
+  const rows = (data || []).flatMap((item): CheckedOutItemRow[] => {
+    const sample = firstRelation(item.samples);
+    const order = firstRelation(item.sample_checkout_orders);
+    return sample && order
+      ? [{ ...item, samples: sample, sample_checkout_orders: { ...order, holder: firstRelation(order.holder) } }]
+      : [];
+  });
+
+  const hourMs = 60 * 60 * 1000;
+  return rows
+    .map(item => {
+      const overdueMs = now - Date.parse(item.sample_checkout_orders.due_back_at);
+      return {
+        ...item,
+        is_overdue: overdueMs > 0,
+        overdue_hours: overdueMs > 0 ? Math.floor(overdueMs / hourMs) : 0
+      };
+    })
+    .sort((a, b) => Date.parse(a.sample_checkout_orders.due_back_at) - Date.parse(b.sample_checkout_orders.due_back_at));
+};
+
+/**
+ * 执行借出逾期检查
+ * @description 逾期未归还且尚未提醒的样本按借出单汇总，通知借出人和样本管理员，每个样本只提醒一次
+ * @returns 检查结果
+ */
+export const runCheckoutOverdueJob = async (): Promise<CheckoutOverdueJobSummary> => {
+  const overdueItems = await listCheckedOutSamples({ overdueOnly: true });
+  const pending = overdueItems.filter(item => !item.overdue_notified_at);
+
+  const orders = new Map<string, typeof pending>();
+  for (const item of pending) {
+    orders.set(item.order_id, [...(orders.get(item.order_id) || []), item]);
+  }
+
+  let notified = 0;
+  for (const items of orders.values()) {
+    const order = items[0].sample_checkout_orders;
+    try {
+      await createNotification({
+        title: `样本借出逾期未归还：${order.order_no}`,
+        content: `借出人：${order.holder?.real_name || '-'}，预计归还时间：${new Date(order.due_back_at).toLocaleString('zh-CN')}，`
+          + `逾期样本：${items.map(item => item.samples.sample_no).join('、')}`,
+        type: 'sample_checkout_overdue',
+        priority: 'high',
+        targetUsers: [order.holder_id],
+        targetRoles: ['sample_manager']
+      });
+    } catch (error) {
+      logger.error(`发送借出逾期提醒失败: ${order.order_no}`, error);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('sample_checkout_items')
+      .update({ overdue_notified_at: new Date().toISOString() })
+      .in('id', items.map(item => item.id));
+
+    if (error) {
+      logger.error('更新逾期提醒时间失败:', error);
+    }
+    notified += items.length;
+  }
+
+  logger.info(`借出逾期检查完成: 逾期${overdueItems.length}个，新提醒${notified}个`);
+  return { overdue: overdueItems.length, notified, run_at: new Date().toISOString() };
+};
+
+/**
+ * 启动借出逾期检查定时任务
+ * @description 启动后立即执行一次，之后按 SAMPLE_CHECKOUT_JOB_INTERVAL_HOURS 间隔执行；
+ * 无常驻进程的部署方式通过逾期检查接口由外部调度触发
+ * @returns 定时器
+ */
+export const startCheckoutOverdueScheduler = () => {
+  const run = () => {
+    runCheckoutOverdueJob().catch(error => logger.error('借出逾期检查失败:', error));
+  };
+
+  run();
+  const timer = setInterval(run, CHECKOUT_JOB_INTERVAL_HOURS * 60 * 60 * 1000);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,1026 @@
+/**
+ * 样本保存期限与销毁批次工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：按样本类型保存天数补齐预计销毁日期并列出到期样本；销毁批次提交、主管审批、执行销毁并生成销毁证明；维护法律/科研保留
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, AuthorizationError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+import { createNotification } from './notification.js';
+import { renderHtmlToPdf } from './reportPdf.js';
+import { escapeHtml } from './reportTemplate.js';
+import {
+  transitionSample,
+  recordSampleOperation,
+  canTransitionSample,
+  isSampleOnHold,
+  SAMPLE_STATUS_TEXT,
+  SAMPLE_TRANSITIONS,
+  type SampleStatus
+} from './sampleLifecycle.js';
+
+/**
+ * 销毁证明存储桶名称
+ */
+const DESTRUCTION_BUCKET = process.env.DESTRUCTION_STORAGE_BUCKET || 'sample-destruction';
+
+/**
+ * 下载链接有效期（秒）
+ */
+const DOWNLOAD_URL_EXPIRES = Number(process.env.REPORT_DOWNLOAD_URL_EXPIRES) || 3600;
+
+/**
+ * 到期检查任务执行间隔（小时）
+ */
+const RETENTION_JOB_INTERVAL_HOURS = Number(process.env.SAMPLE_RETENTION_JOB_INTERVAL_HOURS) || 24;
+
+/**
+ * 默认样本保存天数
+ */
+const DEFAULT_DESTROY_DAYS = 30;
+
+/**
+ * 销毁批次状态
+ */
+export type DestructionBatchStatus = 'pending_approval' | 'approved' | 'rejected' | 'completed' | 'cancelled';
+
+/**
+ * 销毁批次状态中文名称
+ */
+export const DESTRUCTION_BATCH_STATUS_TEXT: Record<DestructionBatchStatus, string> = {
+  pending_approval: '待审批',
+  approved: '已批准',
+  rejected: '已驳回',
+  completed: '已销毁',
+  cancelled: '已取消'
+};
+
+/**
+ * 未结束的销毁批次状态，同一样本只能在一个未结束批次中
+ */
+export const OPEN_BATCH_STATUSES: DestructionBatchStatus[] = ['pending_approval', 'approved'];
+
+/**
+ * 保留类型
+ */
+export type SampleHoldType = 'legal' | 'research';
+
+/**
+ * 保留类型中文名称
+ */
+export const SAMPLE_HOLD_TYPE_TEXT: Record<SampleHoldType, string> = {
+  legal: '法律保留',
+  research: '科研保留'
+};
+
+/**
+ * 可销毁的样本状态（生命周期规则允许流转到已销毁的状态）
+ */
+export const DESTROYABLE_STATUSES = (Object.keys(SAMPLE_TRANSITIONS) as SampleStatus[])
+  .filter(status => canTransitionSample(status, 'destroyed'));
+
+/**
+ * 到期样本查询选项
+ */
+export interface DueSampleQuery {
+  withinDays?: number;
+  search?: string;
+  sampleTypeId?: string;
+}
+
+/**
+ * 创建销毁批次参数
+ */
+export interface CreateDestructionBatchInput {
+  sampleIds: string[];
+  reason: string;
+  destroyMethod: string;
+  witnessName?: string;
+  plannedDate?: string;
+  remarks?: string;
+  operatorId?: string;
+}
+
+/**
+ * 执行销毁参数
+ * @description 销毁方式未填写时沿用申请时的方式
+ */
+export interface ExecuteDestructionInput {
+  witnessName: string;
+  destroyMethod?: string;
+  remarks?: string;
+  operatorId?: string;
+}
+
+/**
+ * 到期检查任务结果
+ */
+export interface RetentionJobSummary {
+  updated: number;
+  due: number;
+  upcoming: number;
+  run_at: string;
+}
+
+/**
+ * 销毁批次明细
+ */
+export interface DestructionItemRow {
+  id: string;
+  sample_id: string;
+  storage_location: string | null;
+  result: 'pending' | 'destroyed' | 'skipped';
+  skip_reason: string | null;
+  samples?: {
+    id: string;
+    sample_no: string;
+    barcode: string;
+    status: string;
+    volume: number | null;
+    unit: string | null;
+    expected_destroy_date: string | null;
+    sample_types?: { id: string; code: string; name: string } | null;
+  } | null;
+}
+
+/**
+ * 销毁批次详情
+ */
+export interface DestructionBatchDetail {
+  id: string;
+  batch_no: string;
+  status: DestructionBatchStatus;
+  reason: string;
+  destroy_method: string;
+  witness_name: string | null;
+  planned_date: string | null;
+  sample_count: number;
+  destroyed_count: number;
+  requested_by: string | null;
+  requested_at: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  approval_comments: string | null;
+  executed_by: string | null;
+  executed_at: string | null;
+  certificate_path: string | null;
+  remarks: string | null;
+  created_at: string;
+  updated_at: string;
+  sample_destruction_items?: DestructionItemRow[];
+}
+
+/**
+ * 批次详情查询字段
+ */
+const BATCH_DETAIL_FIELDS = `
+  *,
+  sample_destruction_items(
+    id,
+    sample_id,
+    storage_location,
+    result,
+    skip_reason,
+    samples(
+      id,
+      sample_no,
+      barcode,
+      status,
+      volume,
+      unit,
+      expected_destroy_date,
+      sample_types(
+        id,
+        code,
+        name
+      )
+    )
+  )
+`;
+
+/**
+ * 获取今天的日期（YYYY-MM-DD）
+ * @param offsetDays 偏移天数
+ * @returns 日期字符串
+ */
+const dateString = (offsetDays = 0): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + offsetDays);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * 补齐预计销毁日期
+ * @description 为尚未设置预计销毁日期的在册样本，按接收时间加样本类型保存天数计算；
+ * 样本类型未设置保存天数时使用系统配置 business.sample_destroy_days
+ * @returns 更新的样本数
+ */
+export const refreshExpectedDestroyDates = async (): Promise<number> => {
+  const { data, error } = await supabase
+    .from('samples')
+    .select('id, received_time, created_at, sample_types(default_destroy_days)')
+    .is('expected_destroy_date', null)
+    .neq('status', 'destroyed');
+
+  if (error) {
+    logger.error('获取待计算销毁日期的样本失败:', error);
+    throw new DatabaseError('计算样本预计销毁日期失败');
+  }
+
+  if (!data || data.length === 0) {
+    return 0;
+  }
+
+  const defaultDays = Number(await getConfigValue<number>('business.sample_destroy_days', DEFAULT_DESTROY_DAYS))
+    || DEFAULT_DESTROY_DAYS;
+
+  // 同一日期的样本合并为一次更新
+  const groups = new Map<string, string[]>();
+  for (const sample of data) {
+    const days = firstRelation(sample.sample_types)?.default_destroy_days || defaultDays;
+    const date = new Date(sample.received_time || sample.created_at);
+    date.setDate(date.getDate() + days);
+    const key = date.toISOString().slice(0, 10);
+    groups.set(key, [...(groups.get(key) || []), sample.id]);
+  }
+
+  let updated = 0;
+  for (const [expectedDate, ids] of groups) {
+    const { error: updateError } = await supabase
+      .from('samples')
+      .update({ expected_destroy_date: expectedDate })
+      .in('id', ids)
+      .is('expected_destroy_date', null);
+
+    if (updateError) {
+      logger.error(`更新预计销毁日期失败: ${expectedDate}`, updateError);
+      continue;
+    }
+    updated += ids.length;
+  }
+
+  return updated;
+};
+
+/**
+ * 获取处于未结束销毁批次中的样本
+ * @param sampleIds 样本ID列表，为空时返回全部
+ * @returns 样本ID到批次号的映射
+ */
+const getSamplesInOpenBatches = async (sampleIds?: string[]): Promise<Map<string, string>> => {
+  let query = supabase
+    .from('sample_destruction_items')
+    .select('sample_id, sample_destruction_batches!inner(batch_no, status)')
+    .in('sample_destruction_batches.status', OPEN_BATCH_STATUSES);
+
+  if (sampleIds) {
+    query = query.in('sample_id', sampleIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('获取销毁批次样本失败:', error);
+    throw new DatabaseError('获取销毁批次样本失败');
+  }
+
+  return new Map<string, string>(
+    (data || []).map(item => [item.sample_id, firstRelation(item.sample_destruction_batches)?.batch_no])
+  );
+};
+
+/**
+ * 查询到期待销毁样本
+ * @description 预计销毁日期不晚于今天加提前天数、状态允许销毁、不在保留期且未编入未结束批次的样本
+ * @param options 查询选项
+ * @returns 到期样本列表，附逾期天数
+ */
+export const findDueSamples = async (options: DueSampleQuery = {}) => {
+  const { withinDays = 0, search, sampleTypeId } = options;
+  const today = dateString();
+
+  let query = supabase
+    .from('samples')
+    .select(`
+      id,
+      sample_no,
+      barcode,
+      volume,
+      unit,
+      status,
+      storage_location,
+      storage_temperature,
+      received_time,
+      expected_destroy_date,
+      hold_type,
+      hold_until,
+      sample_types(
+        id,
+        code,
+        name
+      ),
+      submissions(
+        id,
+        submission_no,
+        patient_name
+      )
+    `)
+    .in('status', DESTROYABLE_STATUSES)
+    .lte('expected_destroy_date', dateString(withinDays))
+    .order('expected_destroy_date', { ascending: true });
+
+  if (search) {
+    query = query.or(`sample_no.ilike.%${search}%,barcode.ilike.%${search}%`);
+  }
+  if (sampleTypeId) {
+    query = query.eq('sample_type_id', sampleTypeId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('获取到期样本失败:', error);
+    throw new DatabaseError('获取到期样本失败');
+  }
+
+  const inBatches = await getSamplesInOpenBatches();
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  return (data || [])
+    .filter(sample => !isSampleOnHold(sample, today) && !inBatches.has(sample.id))
+    .map(sample => ({
+      ...sample,
+      overdue_days: Math.round((Date.parse(today) - Date.parse(sample.expected_destroy_date)) / dayMs)
+    }));
+};
+
+/**
+ * 执行样本到期检查
+ * @description 补齐预计销毁日期，统计已到期和即将到期的样本，有到期样本时通知样本管理员和实验室主管
+ * @returns 检查结果
+ */
+export const runRetentionJob = async (): Promise<RetentionJobSummary> => {
+  const updated = await refreshExpectedDestroyDates();
+  const noticeDays = Number(await getConfigValue<number>('business.sample_destroy_notice_days', 7)) || 0;
+
+  const samples = await findDueSamples({ withinDays: noticeDays });
+  const today = dateString();
+  const due = samples.filter(sample => sample.expected_destroy_date <= today).length;
+  const upcoming = samples.length - due;
+
+  if (samples.length > 0) {
+    await createNotification({
+      title: '样本到期待销毁',
+      content: `已到期样本${due}个，${noticeDays}天内到期样本${upcoming}个，请及时编制销毁批次`,
+      type: 'sample_retention_due',
+      priority: due > 0 ? 'high' : 'normal',
+      targetRoles: ['sample_manager', 'lab_manager']
+    });
+  }
+
+  logger.info(`样本到期检查完成: 补齐销毁日期${updated}个，已到期${due}个，即将到期${upcoming}个`);
+  return { updated, due, upcoming, run_at: new Date().toISOString() };
+};
+
+/**
+ * 启动样本到期检查定时任务
+ * @description 启动后立即执行一次，之后按 SAMPLE_RETENTION_JOB_INTERVAL_HOURS 间隔执行；
+ * 无常驻进程的部署方式通过到期检查接口由外部调度触发
+ * @returns 定时器
+ */
+export const startRetentionScheduler = () => {
+  const run = () => {
+    runRetentionJob().catch(error => logger.error('样本到期检查失败:', error));
+  };
+
+  run();
+  const timer = setInterval(run, RETENTION_JOB_INTERVAL_HOURS * 60 * 60 * 1000);
+  timer.unref();
+  return timer;
+};
+
+/**
+ * 生成销毁批次号
+ * @returns 批次号
+ */
+const generateDestructionBatchNo = async (): Promise<string> => {
+  const dateStr = dateString().replace(/-/g, '');
+
+  const { data, error } = await supabase
+    .from('sample_destruction_batches')
+    .select('batch_no')
+    .like('batch_no', `D${dateStr}%`)
+    .order('batch_no', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    logger.error('生成销毁批次号失败:', error);
+    throw new DatabaseError('生成销毁批次号失败');
+  }
+
+  const last = data?.[0]?.batch_no ? Number(data[0].batch_no.slice(-3)) : 0;
+  return `D${dateStr}${String(last + 1).padStart(3, '0')}`;
+};
+
+/**
+ * 获取销毁批次
+ * @param batchId 批次ID
+ * @returns 批次记录
+ */
+const getBatch = async (batchId: string): Promise<DestructionBatchDetail> => {
+  const { data, error } = await supabase
+    .from('sample_destruction_batches')
+    .select('*')
+    .eq('id', batchId)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('销毁批次不存在');
+  }
+
+  return data;
+};
+
+/**
+ * 获取销毁批次详情
+ * @param batchId 批次ID
+ * @returns 批次及批次内样本
+ */
+export const getDestructionBatch = async (batchId: string): Promise<DestructionBatchDetail> => {
+  const { data, error } = await supabase
+    .from('sample_destruction_batches')
+    .select(BATCH_DETAIL_FIELDS)
+    .eq('id', batchId)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('销毁批次不存在');
+  }
+
+  return data;
+};
+
+/**
+ * 创建销毁批次
+ * @description 样本须处于可销毁状态、不在保留期且未编入其他未结束批次；创建后通知实验室主管审批
+ * @param input 批次参数
+ * @returns 批次详情
+ */
+export const createDestructionBatch = async (input: CreateDestructionBatchInput) => {
+  const { sampleIds, reason, destroyMethod, witnessName, plannedDate, remarks, operatorId } = input;
+
+  const { data: samples, error: sampleError } = await supabase
+    .from('samples')
+    .select('id, sample_no, status, storage_location, hold_type, hold_until')
+    .in('id', sampleIds);
+
+  if (sampleError) {
+    logger.error('获取样本失败:', sampleError);
+    throw new DatabaseError('获取样本失败');
+  }
+
+  const found = new Map((samples || []).map(sample => [sample.id, sample]));
+  const missing = sampleIds.filter(id => !found.has(id));
+  if (missing.length > 0) {
+    throw new NotFoundError('部分样本不存在', { sample_ids: missing });
+  }
+
+  const inBatches = await getSamplesInOpenBatches(sampleIds);
+  const invalid = (samples || [])
+    .map(sample => {
+      const status = sample.status as SampleStatus;
+      if (!DESTROYABLE_STATUSES.includes(status)) {
+        return { sample_no: sample.sample_no, reason: `「${SAMPLE_STATUS_TEXT[status]}」状态不能销毁` };
+      }
+      if (isSampleOnHold(sample)) {
+        return { sample_no: sample.sample_no, reason: SAMPLE_HOLD_TYPE_TEXT[sample.hold_type as SampleHoldType] };
+      }
+      if (inBatches.has(sample.id)) {
+        return { sample_no: sample.sample_no, reason: `已在销毁批次 ${inBatches.get(sample.id)} 中` };
+      }
+      return null;
+    })
+    .filter(Boolean);
+
+  if (invalid.length > 0) {
+    throw new ConflictError('部分样本不能编入销毁批次', { samples: invalid });
+  }
+
+  const batchNo = await generateDestructionBatchNo();
+  const now = new Date().toISOString();
+
+  const { data: batch, error: batchError } = await supabase
+    .from('sample_destruction_batches')
+    .insert({
+      batch_no: batchNo,
+      status: 'pending_approval',
+      reason,
+      destroy_method: destroyMethod,
+      witness_name: witnessName || null,
+      planned_date: plannedDate || null,
+      sample_count: sampleIds.length,
+      requested_by: operatorId,
+      requested_at: now,
+      remarks
+    })
+    .select()
+    .single();
+
+  if (batchError || !batch) {
+    if (batchError?.code === '23505') {
+      throw new ConflictError('销毁批次号已存在，请重试');
+    }
+    logger.error('创建销毁批次失败:', batchError);
+    throw new DatabaseError('创建销毁批次失败');
+  }
+
+  const { error: itemError } = await supabase
+    .from('sample_destruction_items')
+    .insert(sampleIds.map(sampleId => ({
+      batch_id: batch.id,
+      sample_id: sampleId,
+      storage_location: found.get(sampleId)?.storage_location || null
+    })));
+
+  if (itemError) {
+    await supabase.from('sample_destruction_batches').delete().eq('id', batch.id);
+    logger.error('保存销毁批次样本失败:', itemError);
+    throw new DatabaseError('创建销毁批次失败');
+  }
+
+  await createNotification({
+    title: `样本销毁待审批：${batchNo}`,
+    content: `销毁样本${sampleIds.length}个，销毁方式：${destroyMethod}，原因：${reason}`,
+    type: 'sample_destruction_approval',
+    priority: 'normal',
+    targetRoles: ['lab_manager'],
+    createdBy: operatorId
+  });
+
+  logger.info(`销毁批次已提交: ${batchNo}，样本${sampleIds.length}个`, { operatorId });
+  return getDestructionBatch(batch.id);
+};
+
+/**
+ * 审批销毁批次
+ * @description 申请人不能审批自己提交的批次；驳回时必须填写意见并通知申请人
+ * @param batchId 批次ID
+ * @param reviewerId 审批人ID
+ * @param result 审批结果
+ * @param comments 审批意见
+ * @returns 更新后的批次
+ */
+export const reviewDestructionBatch = async (
+  batchId: string,
+  reviewerId: string,
+  result: 'approved' | 'rejected',
+  comments?: string
+) => {
+  const batch = await getBatch(batchId);
+
+  if (batch.status !== 'pending_approval') {
+    throw new ConflictError(`销毁批次${DESTRUCTION_BATCH_STATUS_TEXT[batch.status as DestructionBatchStatus]}，不能审批`);
+  }
+  if (result === 'rejected' && !comments) {
+    throw new ValidationError('驳回时必须填写审批意见');
+  }
+  if (reviewerId === batch.requested_by) {
+    throw new AuthorizationError('申请人不能审批自己提交的销毁批次');
+  }
+
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('sample_destruction_batches')
+    .update({
+      status: result,
+      approved_by: reviewerId,
+      approved_at: now,
+      approval_comments: comments || null,
+      updated_at: now
+    })
+    .eq('id', batchId)
+    .eq('status', 'pending_approval')
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('审批销毁批次失败:', error);
+    throw new ConflictError('销毁批次状态已被其他操作修改，请刷新后重试');
+  }
+
+  if (result === 'rejected' && batch.requested_by) {
+    await createNotification({
+      title: `样本销毁被驳回：${batch.batch_no}`,
+      content: `审批意见：${comments}`,
+      type: 'sample_destruction_rejected',
+      priority: 'normal',
+      targetUsers: [batch.requested_by],
+      createdBy: reviewerId
+    });
+  }
+
+  logger.info(`销毁批次审批: ${batch.batch_no} ${result}`, { reviewerId });
+  return data;
+};
+
+/**
+ * 取消销毁批次
+ * @param batchId 批次ID
+ * @param operatorId 操作人ID
+ * @param reason 取消原因
+ * @returns 更新后的批次
+ */
+export const cancelDestructionBatch = async (batchId: string, operatorId?: string, reason?: string) => {
+  const batch = await getBatch(batchId);
+
+  if (!OPEN_BATCH_STATUSES.includes(batch.status as DestructionBatchStatus)) {
+    throw new ConflictError(`销毁批次${DESTRUCTION_BATCH_STATUS_TEXT[batch.status as DestructionBatchStatus]}，不能取消`);
+  }
+
+  const { data, error } = await supabase
+    .from('sample_destruction_batches')
+    .update({
+      status: 'cancelled',
+      remarks: reason ? [batch.remarks, `取消原因：${reason}`].filter(Boolean).join('\n') : batch.remarks,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', batchId)
+    .eq('status', batch.status)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('取消销毁批次失败:', error);
+    throw new ConflictError('销毁批次状态已被其他操作修改，请刷新后重试');
+  }
+
+  logger.info(`销毁批次已取消: ${batch.batch_no}`, { operatorId });
+  return data;
+};
+
+/**
+ * 执行销毁
+ * @description 逐个将批次内样本变更为已销毁并释放孔位；审批后被保留或状态已变化的样本跳过并记录原因；
+ * 完成后生成销毁证明，证明生成失败不影响销毁结果，可在下载时重新生成
+ * @param batchId 批次ID
+ * @param input 执行参数
+ * @returns 批次详情
+ */
+export const executeDestructionBatch = async (batchId: string, input: ExecuteDestructionInput) => {
+  const { witnessName, destroyMethod, remarks, operatorId } = input;
+  const batch = await getBatch(batchId);
+
+  if (batch.status !== 'approved') {
+    throw new ConflictError('只有已批准的销毁批次可以执行');
+  }
+
+  const now = new Date().toISOString();
+  const method = destroyMethod || batch.destroy_method;
+
+  // 先占用批次，防止重复执行
+  const { data: claimed, error: claimError } = await supabase
+    .from('sample_destruction_batches')
+    .update({
+      witness_name: witnessName,
+      destroy_method: method,
+      executed_by: operatorId,
+      executed_at: now,
+      updated_at: now
+    })
+    .eq('id', batchId)
+    .eq('status', 'approved')
+    .is('executed_at', null)
+    .select()
+    .single();
+
+  if (claimError || !claimed) {
+    logger.error('执行销毁批次失败:', claimError);
+    throw new ConflictError('销毁批次正在执行或状态已被修改，请刷新后重试');
+  }
+
+  const { data: items, error: itemError } = await supabase
+    .from('sample_destruction_items')
+    .select('id, sample_id, result')
+    .eq('batch_id', batchId)
+    .eq('result', 'pending');
+
+  if (itemError) {
+    await supabase
+      .from('sample_destruction_batches')
+      .update({ executed_by: null, executed_at: null })
+      .eq('id', batchId);
+    logger.error('获取销毁批次样本失败:', itemError);
+    throw new DatabaseError('执行销毁失败');
+  }
+
+  let destroyedCount = batch.destroyed_count || 0;
+  for (const item of items || []) {
+    let result: 'destroyed' | 'skipped' = 'destroyed';
+    let skipReason: string | null = null;
+
+    try {
+      await transitionSample(item.sample_id, 'destroyed', {
+        operatorId,
+        reason: `销毁批次 ${batch.batch_no}：${batch.reason}（${method}，见证人：${witnessName}）`,
+        remarks
+      });
+      destroyedCount += 1;
+    } catch (error) {
+      result = 'skipped';
+      skipReason = error instanceof Error ? error.message : String(error);
+      logger.warn(`销毁样本跳过: ${batch.batch_no} ${item.sample_id} ${skipReason}`);
+    }
+
+    const { error: resultError } = await supabase
+      .from('sample_destruction_items')
+      .update({ result, skip_reason: skipReason })
+      .eq('id', item.id);
+
+    if (resultError) {
+      logger.error('更新销毁结果失败:', resultError);
+    }
+  }
+
+  const { error: completeError } = await supabase
+    .from('sample_destruction_batches')
+    .update({
+      status: 'completed',
+      destroyed_count: destroyedCount,
+      remarks: remarks || batch.remarks,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', batchId);
+
+  if (completeError) {
+    logger.error('更新销毁批次状态失败:', completeError);
+    throw new DatabaseError('更新销毁批次状态失败');
+  }
+
+  try {
+    await generateDestructionCertificate(batchId);
+  } catch (error) {
+    logger.error(`生成销毁证明失败: ${batch.batch_no}`, error);
+  }
+
+  logger.info(`销毁批次已执行: ${batch.batch_no}，销毁${destroyedCount}/${batch.sample_count}个`, { operatorId });
+  return getDestructionBatch(batchId);
+};
+
+/**
+ * 生成销毁证明HTML
+ * @param batch 批次详情
+ * @param users 用户ID到姓名的映射
+ * @returns HTML文档
+ */
+const renderCertificateHtml = (batch: DestructionBatchDetail, users: Map<string, string>): string => {
+  const items = batch.sample_destruction_items || [];
+  const userName = (id?: string | null) => escapeHtml((id && users.get(id)) || '');
+  const formatTime = (value?: string | null) => (value ? escapeHtml(value.replace('T', ' ').slice(0, 19)) : '');
+
+  const rows = items
+    .sort((a, b) => (a.samples?.sample_no || '').localeCompare(b.samples?.sample_no || ''))
+    .map((item, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(item.samples?.sample_no || '')}</td>
+        <td>${escapeHtml(item.samples?.barcode || '')}</td>
+        <td>${escapeHtml(item.samples?.sample_types?.name || '')}</td>
+        <td>${escapeHtml(item.storage_location || '')}</td>
+        <td>${item.result === 'destroyed' ? '已销毁' : `未销毁：${escapeHtml(item.skip_reason || '')}`}</td>
+      </tr>
+    `)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <style>
+    body { font-family: "Noto Sans CJK SC", "Microsoft YaHei", sans-serif; font-size: 12px; color: #111; }
+    h1 { text-align: center; font-size: 20px; margin-bottom: 16px; }
+    table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+    table.items th, table.items td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+    table.info td { padding: 4px 6px; }
+    .signatures { margin-top: 32px; display: flex; justify-content: space-between; }
+  </style>
+</head>
+<body>
+  <h1>样本销毁证明</h1>
+  <table class="info">
+    <tr><td>批次号：${escapeHtml(batch.batch_no)}</td><td>销毁方式：${escapeHtml(batch.destroy_method)}</td></tr>
+    <tr><td>销毁原因：${escapeHtml(batch.reason)}</td><td>销毁时间：${formatTime(batch.executed_at)}</td></tr>
+    <tr><td>样本数量：${batch.sample_count}</td><td>实际销毁：${batch.destroyed_count}</td></tr>
+    <tr><td>申请人：${userName(batch.requested_by)}（${formatTime(batch.requested_at)}）</td><td>批准人：${userName(batch.approved_by)}（${formatTime(batch.approved_at)}）</td></tr>
+  </table>
+  <table class="items">
+    <thead>
+      <tr><th>序号</th><th>样本编号</th><th>条码</th><th>样本类型</th><th>原存储位置</th><th>结果</th></tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <div class="signatures">
+    <span>执行人：${userName(batch.executed_by)}</span>
+    <span>见证人：${escapeHtml(batch.witness_name || '')}</span>
+    <span>批准人：${userName(batch.approved_by)}</span>
+  </div>
+</body>
+</html>`;
+};
+
+/**
+ * 生成并保存销毁证明
+ * @param batchId 批次ID
+ * @returns 证明文件存储路径
+ */
+export const generateDestructionCertificate = async (batchId: string): Promise<string> => {
+  const batch = await getDestructionBatch(batchId);
+
+  if (batch.status !== 'completed') {
+    throw new ConflictError('销毁批次尚未执行，不能生成销毁证明');
+  }
+
+  const userIds = [batch.requested_by, batch.approved_by, batch.executed_by].filter(Boolean);
+  const { data: users, error: userError } = await supabase
+    .from('users')
+    .select('id, real_name')
+    .in('id', userIds);
+
+  if (userError) {
+    logger.error('获取销毁批次相关人员失败:', userError);
+    throw new DatabaseError('生成销毁证明失败');
+  }
+
+  const html = renderCertificateHtml(batch, new Map((users || []).map(user => [user.id, user.real_name])));
+  const pdf = await renderHtmlToPdf(html);
+  const storagePath = `${batch.batch_no}/${batch.batch_no}_certificate.pdf`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DESTRUCTION_BUCKET)
+    .upload(storagePath, pdf, { contentType: 'application/pdf', upsert: true });
+
+  if (uploadError) {
+    logger.error('上传销毁证明失败:', uploadError);
+    throw new DatabaseError('保存销毁证明失败');
+  }
+
+  const { error: updateError } = await supabase
+    .from('sample_destruction_batches')
+    .update({ certificate_path: storagePath, updated_at: new Date().toISOString() })
+    .eq('id', batchId);
+
+  if (updateError) {
+    logger.error('更新销毁证明路径失败:', updateError);
+    throw new DatabaseError('保存销毁证明失败');
+  }
+
+  return storagePath;
+};
+
+/**
+ * 获取销毁证明下载链接
+ * @description 执行时证明生成失败的批次在此补生成
+ * @param batchId 批次ID
+ * @returns 带签名的临时下载链接
+ */
+export const getDestructionCertificateUrl = async (batchId: string): Promise<string> => {
+  const batch = await getBatch(batchId);
+
+  if (batch.status !== 'completed') {
+    throw new ConflictError('销毁批次尚未执行，没有销毁证明');
+  }
+
+  const storagePath = batch.certificate_path || await generateDestructionCertificate(batchId);
+
+  const { data, error } = await supabase.storage
+    .from(DESTRUCTION_BUCKET)
+    .createSignedUrl(storagePath, DOWNLOAD_URL_EXPIRES, { download: true });
+
+  if (error || !data) {
+    logger.error('创建销毁证明下载链接失败:', error);
+    throw new DatabaseError('创建销毁证明下载链接失败');
+  }
+
+  return data.signedUrl;
+};
+
+/**
+ * 设置样本保留
+ * @description 保留期间样本不会出现在到期列表中，也不能销毁
+ * @param sampleId 样本ID
+ * @param holdType 保留类型
+ * @param reason 保留原因
+ * @param holdUntil 保留截止日期，为空时保留至手动解除
+ * @param operatorId 操作人ID
+ * @returns 更新后的样本
+ */
+export const setSampleHold = async (
+  sampleId: string,
+  holdType: SampleHoldType,
+  reason: string,
+  holdUntil?: string,
+  operatorId?: string
+) => {
+  const { data: sample, error: sampleError } = await supabase
+    .from('samples')
+    .select('id, sample_no, status')
+    .eq('id', sampleId)
+    .single();
+
+  if (sampleError || !sample) {
+    throw new NotFoundError('样本不存在');
+  }
+  if (sample.status === 'destroyed') {
+    throw new ConflictError('样本已销毁，不能设置保留');
+  }
+
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('samples')
+    .update({
+      hold_type: holdType,
+      hold_reason: reason,
+      hold_until: holdUntil || null,
+      hold_by: operatorId,
+      hold_at: now,
+      updated_at: now,
+      updated_by: operatorId
+    })
+    .eq('id', sampleId)
+    .neq('status', 'destroyed')
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('设置样本保留失败:', error);
+    throw new ConflictError('样本状态已被其他操作修改，请刷新后重试');
+  }
+
+  await recordSampleOperation({
+    sampleId,
+    operationType: 'hold',
+    description: `${SAMPLE_HOLD_TYPE_TEXT[holdType]}${holdUntil ? `至${holdUntil}` : ''}：${reason}`,
+    operatorId
+  });
+
+  logger.info(`样本已设置保留: ${sample.sample_no} ${holdType}`, { operatorId });
+  return data;
+};
+
+/**
+ * 解除样本保留
+ * @param sampleId 样本ID
+ * @param reason 解除原因
+ * @param operatorId 操作人ID
+ * @returns 更新后的样本
+ */
+export const releaseSampleHold = async (sampleId: string, reason?: string, operatorId?: string) => {
+  const { data: sample, error: sampleError } = await supabase
+    .from('samples')
+    .select('id, sample_no, hold_type')
+    .eq('id', sampleId)
+    .single();
+
+  if (sampleError || !sample) {
+    throw new NotFoundError('样本不存在');
+  }
+  if (!sample.hold_type) {
+    throw new ConflictError('样本未设置保留');
+  }
+
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('samples')
+    .update({
+      hold_type: null,
+      hold_reason: null,
+      hold_until: null,
+      hold_by: null,
+      hold_at: null,
+      updated_at: now,
+      updated_by: operatorId
+    })
+    .eq('id', sampleId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('解除样本保留失败:', error);
+    throw new DatabaseError('解除样本保留失败');
+  }
+
+  await recordSampleOperation({
+    sampleId,
+    operationType: 'release_hold',
+    description: `解除${SAMPLE_HOLD_TYPE_TEXT[sample.hold_type as SampleHoldType]}${reason ? `：${reason}` : ''}`,
+    operatorId
+  });
+
+  logger.info(`样本已解除保留: ${sample.sample_no}`, { operatorId });
+  return data;
+};
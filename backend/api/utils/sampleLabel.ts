@@ -0,0 +1,408 @@
+/**
+ * 样本条码与标签工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：按配置的编码规则分配样本条码，生成A4标签纸PDF和热敏打印机ZPL指令，并记录标签打印操作
+ */
+
+import bwipjs from 'bwip-js';
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+import { recordSampleOperation } from './sampleLifecycle.js';
+import { renderHtmlToPdf } from './reportPdf.js';
+import { escapeHtml } from './reportTemplate.js';
+
+/**
+ * 标签码制
+ */
+export type LabelSymbology = 'code128' | 'qrcode';
+
+/**
+ * 标签输出格式
+ */
+export type LabelFormat = 'pdf' | 'zpl';
+
+/**
+ * 标签样本数据
+ */
+export interface LabelSample {
+  id: string;
+  sample_no: string;
+  barcode: string;
+  type_code: string;
+  type_name: string;
+  collection_time: string | null;
+  storage_temperature: string | null;
+}
+
+/**
+ * A4标签纸排版
+ */
+export interface LabelSheetLayout {
+  columns: number;
+  rows: number;
+  width_mm: number;
+  height_mm: number;
+}
+
+/**
+ * 默认条码编码规则
+ */
+const DEFAULT_BARCODE_PATTERN = '{YY}{MM}{DD}{SEQ:5}';
+
+/**
+ * 默认A4标签纸排版
+ */
+const DEFAULT_SHEET_LAYOUT: LabelSheetLayout = { columns: 3, rows: 8, width_mm: 63, height_mm: 33 };
+
+/**
+ * 默认热敏标签尺寸（点）
+ */
+const DEFAULT_ZPL_SIZE = { width_dots: 400, height_dots: 240 };
+
+/**
+ * 条码分配重试次数（流水号与手工录入条码冲突时）
+ */
+const ALLOCATE_RETRIES = 3;
+
+/**
+ * 计算校验位
+ * @description Luhn（模10）算法，仅计算数字字符
+ * @param value 条码主体
+ * @returns 校验位
+ */
+const computeCheckDigit = (value: string): string => {
+  const digits = value.replace(/\D/g, '').split('').map(Number).reverse();
+  const sum = digits.reduce((total, digit, index) => {
+    if (index % 2 === 1) {
+      return total + digit;
+    }
+    const doubled = digit * 2;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * 展开条码编码规则
+ * @description 支持 {YYYY}{YY}{MM}{DD}{TYPE}{SEQ:位数}{CHECK}，未提供流水号时返回流水号范围
+ * @param pattern 编码规则
+ * @param typeCode 样本类型编码
+ * @param date 分配日期
+ * @param sequence 流水号
+ * @returns 条码或流水号范围
+ */
+export const expandBarcodePattern = (
+  pattern: string,
+  typeCode: string,
+  date: Date,
+  sequence?: number
+): string => {
+  const pad = (num: number) => String(num).padStart(2, '0');
+  const expanded = pattern
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{YY\}/g, String(date.getFullYear()).slice(-2))
+    .replace(/\{MM\}/g, pad(date.getMonth() + 1))
+    .replace(/\{DD\}/g, pad(date.getDate()))
+    .replace(/\{TYPE\}/g, typeCode.toUpperCase())
+    .replace(/\{SEQ(?::(\d+))?\}/g, (_match: string, length?: string) =>
+      sequence === undefined ? '' : String(sequence).padStart(Number(length) || 4, '0')
+    );
+
+  if (sequence === undefined) {
+    return expanded.replace(/\{CHECK\}/g, '');
+  }
+
+  return expanded.replace(/\{CHECK\}/g, () => computeCheckDigit(expanded.replace(/\{CHECK\}/g, '')));
+};
+
+/**
+ * 分配样本条码
+ * @description 流水号按编码规则展开后的前缀分别计数，与已有条码冲突时继续取号
+ * @param typeCode 样本类型编码
+ * @param date 分配日期，默认当前时间
+ * @returns 新条码
+ */
+export const allocateSampleBarcode = async (typeCode: string, date: Date = new Date()): Promise<string> => {
+  const pattern = await getConfigValue<string>('label.barcode_pattern', DEFAULT_BARCODE_PATTERN);
+
+  if (!/\{SEQ(?::\d+)?\}/.test(pattern)) {
+    logger.error(`条码编码规则缺少流水号: ${pattern}`);
+    throw new ValidationError('条码编码规则配置错误，缺少流水号 {SEQ}');
+  }
+
+  const scopeKey = expandBarcodePattern(pattern, typeCode, date);
+
+  for (let attempt = 0; attempt < ALLOCATE_RETRIES; attempt++) {
+    const { data: sequence, error } = await supabase.rpc('next_barcode_sequence', { p_scope_key: scopeKey });
+
+    if (error || typeof sequence !== 'number') {
+      logger.error('获取条码流水号失败:', error);
+      throw new DatabaseError('分配样本条码失败');
+    }
+
+    const barcode = expandBarcodePattern(pattern, typeCode, date, sequence);
+
+    const { data: duplicated } = await supabase
+      .from('samples')
+      .select('id')
+      .eq('barcode', barcode)
+      .maybeSingle();
+
+    if (!duplicated) {
+      return barcode;
+    }
+
+    logger.warn(`条码已被占用，重新分配: ${barcode}`);
+  }
+
+  throw new DatabaseError('分配样本条码失败，请检查编码规则');
+};
+
+/**
+ * 加载标签样本数据
+ * @param sampleIds 样本ID列表
+ * @returns 标签样本数据，按传入顺序排列
+ */
+export const loadLabelSamples = async (sampleIds: string[]): Promise<LabelSample[]> => {
+  const { data, error } = await supabase
+    .from('samples')
+    .select(`
+      id,
+      sample_no,
+      barcode,
+      collection_time,
+      storage_temperature,
+      sample_types(
+        code,
+        name
+      )
+    `)
+    .in('id', sampleIds);
+
+  if (error) {
+    logger.error('获取标签样本失败:', error);
+    throw new DatabaseError('获取标签样本失败');
+  }
+
+  const samples = new Map<string, LabelSample>((data || []).map(sample => {
+    const sampleType = firstRelation(sample.sample_types);
+    return [sample.id, {
+      id: sample.id,
+      sample_no: sample.sample_no,
+      barcode: sample.barcode,
+      type_code: sampleType?.code || '',
+      type_name: sampleType?.name || '',
+      collection_time: sample.collection_time,
+      storage_temperature: sample.storage_temperature
+    }];
+  }));
+  const missing = sampleIds.filter(id => !samples.has(id));
+
+  if (missing.length > 0) {
+    throw new NotFoundError(`样本不存在: ${missing.join(', ')}`);
+  }
+
+  return sampleIds.map(id => samples.get(id)!);
+};
+
+/**
+ * 格式化采集时间
+ * @param value ISO时间
+ * @returns yyyy-MM-dd HH:mm 格式文本
+ */
+const formatCollectionTime = (value: string | null): string => {
+  if (!value) {
+    return '';
+  }
+  const date = new Date(value);
+  const pad = (num: number) => String(num).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * 生成条码SVG
+ * @param barcode 条码内容
+ * @param symbology 码制
+ * @returns SVG文本
+ */
+const renderBarcodeSvg = (barcode: string, symbology: LabelSymbology): string => {
+  return bwipjs.toSVG(symbology === 'qrcode'
+    ? { bcid: 'qrcode', text: barcode }
+    : { bcid: 'code128', text: barcode, height: 8, includetext: true, textxalign: 'center' });
+};
+
+/**
+ * 生成标签纸HTML
+ * @param samples 标签样本
+ * @param symbology 码制
+ * @param layout 标签纸排版
+ * @param copies 每个样本打印份数
+ * @returns HTML文档
+ */
+const renderLabelSheetHtml = (
+  samples: LabelSample[],
+  symbology: LabelSymbology,
+  layout: LabelSheetLayout,
+  copies: number
+): string => {
+  const perPage = Math.max(1, layout.columns * layout.rows);
+  const labels = samples.flatMap(sample => Array.from({ length: copies }, () => `
+  <div class="label ${symbology}">
+    <div class="code">${renderBarcodeSvg(sample.barcode, symbology)}</div>
+    <div class="info">
+      <div class="no">${escapeHtml(sample.sample_no)}</div>
+      <div>${escapeHtml(sample.type_name)}</div>
+      <div>采集：${escapeHtml(formatCollectionTime(sample.collection_time))}</div>
+      <div>保存：${escapeHtml(sample.storage_temperature)}</div>
+    </div>
+  </div>`));
+
+  // 按每页标签数分页，避免标签跨页
+  const pages = Array.from({ length: Math.ceil(labels.length / perPage) }, (_item, index) =>
+    `<div class="sheet">${labels.slice(index * perPage, (index + 1) * perPage).join('')}
+</div>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<style>
+  body { margin: 0; font-family: "Noto Sans CJK SC", "Microsoft YaHei", sans-serif; font-size: 8pt; }
+  .sheet { display: grid; grid-template-columns: repeat(${layout.columns}, ${layout.width_mm}mm); grid-auto-rows: ${layout.height_mm}mm; page-break-after: always; }
+  .sheet:last-child { page-break-after: auto; }
+  .label { box-sizing: border-box; padding: 2mm; overflow: hidden; page-break-inside: avoid; display: flex; }
+  .label.code128 { flex-direction: column; }
+  .label.code128 .code svg { width: 100%; height: ${Math.round(layout.height_mm * 0.45)}mm; }
+  .label.qrcode .code svg { width: ${layout.height_mm - 6}mm; height: ${layout.height_mm - 6}mm; margin-right: 2mm; }
+  .no { font-weight: bold; font-size: 9pt; }
+</style>
+</head>
+<body>${pages}</body>
+</html>`;
+};
+
+/**
+ * 生成A4标签纸PDF
+ * @param samples 标签样本
+ * @param symbology 码制
+ * @param copies 每个样本打印份数
+ * @returns PDF文件内容
+ */
+export const renderLabelPdf = async (
+  samples: LabelSample[],
+  symbology: LabelSymbology,
+  copies: number
+): Promise<Buffer> => {
+  const layout = await getConfigValue<LabelSheetLayout>('label.sheet_layout', DEFAULT_SHEET_LAYOUT);
+  const html = renderLabelSheetHtml(samples, symbology, { ...DEFAULT_SHEET_LAYOUT, ...layout }, copies);
+
+  return renderHtmlToPdf(html, {
+    format: 'A4',
+    margin: { top: '10mm', right: '5mm', bottom: '10mm', left: '5mm' }
+  });
+};
+
+/**
+ * 转换ZPL字段内容
+ * @description 去除ZPL控制符；热敏打印机默认字体不含中文，仅保留ASCII字符
+ * @param value 原始值
+ * @returns 字段内容
+ */
+const toZplField = (value: string | null | undefined): string => {
+  return String(value ?? '')
+    .replace(/℃/g, 'C')
+    .replace(/[\^~]/g, '')
+    .replace(/[^\x20-\x7E]/g, '');
+};
+
+/**
+ * 生成ZPL打印指令
+ * @description 样本类型以类型编码打印
+ * @param samples 标签样本
+ * @param symbology 码制
+ * @param copies 每个样本打印份数
+ * @returns ZPL指令
+ */
+export const renderLabelZpl = async (
+  samples: LabelSample[],
+  symbology: LabelSymbology,
+  copies: number
+): Promise<string> => {
+  const size = { ...DEFAULT_ZPL_SIZE, ...(await getConfigValue('label.zpl_size', DEFAULT_ZPL_SIZE)) };
+
+  return samples.map(sample => {
+    const barcode = toZplField(sample.barcode);
+    const code = symbology === 'qrcode'
+      ? `^FO20,20^BQN,2,5^FDMA,${barcode}^FS`
+      : `^FO20,20^BY2^BCN,80,Y,N,N^FD${barcode}^FS`;
+    const textX = symbology === 'qrcode' ? 200 : 20;
+    const textY = symbology === 'qrcode' ? 30 : 130;
+
+    return [
+      '^XA',
+      '^CI28',
+      `^PW${size.width_dots}`,
+      `^LL${size.height_dots}`,
+      code,
+      `^FO${textX},${textY}^A0N,28,28^FD${toZplField(sample.sample_no)}^FS`,
+      `^FO${textX},${textY + 34}^A0N,22,22^FD${toZplField(sample.type_code)}^FS`,
+      `^FO${textX},${textY + 60}^A0N,22,22^FD${toZplField(formatCollectionTime(sample.collection_time))}^FS`,
+      `^FO${textX},${textY + 86}^A0N,22,22^FD${toZplField(sample.storage_temperature)}^FS`,
+      `^PQ${copies}`,
+      '^XZ'
+    ].join('\n');
+  }).join('\n');
+};
+
+/**
+ * 记录标签打印
+ * @description 更新样本打印次数并写入打印操作记录
+ * @param samples 标签样本
+ * @param format 输出格式
+ * @param copies 每个样本打印份数
+ * @param operatorId 操作人ID
+ */
+export const recordLabelPrint = async (
+  samples: LabelSample[],
+  format: LabelFormat,
+  copies: number,
+  operatorId?: string
+) => {
+  const { data: counts, error } = await supabase
+    .from('samples')
+    .select('id, label_print_count')
+    .in('id', samples.map(sample => sample.id));
+
+  if (error) {
+    logger.error('获取标签打印次数失败:', error);
+    throw new DatabaseError('记录标签打印失败');
+  }
+
+  const printedAt = new Date().toISOString();
+  const countMap = new Map((counts || []).map(row => [row.id, row.label_print_count || 0]));
+
+  await Promise.all(samples.map(async sample => {
+    const printCount = countMap.get(sample.id) || 0;
+
+    const { error: updateError } = await supabase
+      .from('samples')
+      .update({ label_print_count: printCount + copies, label_printed_at: printedAt })
+      .eq('id', sample.id);
+
+    if (updateError) {
+      logger.error('更新标签打印次数失败:', updateError);
+      throw new DatabaseError('记录标签打印失败');
+    }
+
+    await recordSampleOperation({
+      sampleId: sample.id,
+      operationType: 'print_label',
+      description: `${printCount > 0 ? '补打' : '打印'}样本标签（${format.toUpperCase()}，${copies}份）`,
+      operatorId
+    });
+  }));
+};
@@ -0,0 +1,313 @@
+/**
+ * 样本生命周期工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：定义样本状态流转规则，执行状态变更并写入样本操作记录（监管链）
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ConflictError, ValidationError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+
+/**
+ * 样本状态类型
+ */
+export type SampleStatus =
+  | 'received'
+  | 'in_storage'
+  | 'out_for_test'
+  | 'testing'
+  | 'completed'
+  | 'destroyed'
+  | 'abnormal';
+
+/**
+ * 样本状态中文名称
+ */
+export const SAMPLE_STATUS_TEXT: Record<SampleStatus, string> = {
+  received: '已接收',
+  in_storage: '在库',
+  out_for_test: '出库待检',
+  testing: '检测中',
+  completed: '已完成',
+  destroyed: '已销毁',
+  abnormal: '异常'
+};
+
+/**
+ * 样本状态流转规则
+ * @description 键为当前状态，值为允许流转到的目标状态；已销毁为终态
+ */
+export const SAMPLE_TRANSITIONS: Record<SampleStatus, SampleStatus[]> = {
+  received: ['in_storage', 'out_for_test', 'abnormal'],
+  in_storage: ['out_for_test', 'destroyed', 'abnormal'],
+  out_for_test: ['testing', 'in_storage', 'abnormal'],
+  testing: ['completed', 'in_storage', 'abnormal'],
+  completed: ['in_storage', 'destroyed'],
+  abnormal: ['received', 'in_storage', 'destroyed'],
+  destroyed: []
+};
+
+/**
+ * 进入目标状态时记录的操作类型
+ */
+export const SAMPLE_OPERATION_TYPES: Record<SampleStatus, string> = {
+  received: 'receive',
+  in_storage: 'inbound',
+  out_for_test: 'outbound',
+  testing: 'start_test',
+  completed: 'complete_test',
+  destroyed: 'destroy',
+  abnormal: 'abnormal'
+};
+
+/**
+ * 进入目标状态所需的页面权限
+ */
+export const SAMPLE_TRANSITION_PERMISSIONS: Record<SampleStatus, string> = {
+  received: 'sample.receive',
+  in_storage: 'sample.storage',
+  out_for_test: 'sample.storage',
+  testing: 'sample.storage',
+  completed: 'sample.storage',
+  destroyed: 'sample.destroy',
+  abnormal: 'sample.receive'
+};
+
+/**
+ * 修改样本信息各字段所需的页面权限
+ * @description 质量状态不能直接修改，不合格须走拒收流程；保存期限影响到期销毁，需要销毁权限
+ */
+export const SAMPLE_UPDATE_PERMISSIONS: Record<string, string> = {
+  sample_type_id: 'sample.receive',
+  unit: 'sample.receive',
+  collection_time: 'sample.receive',
+  storage_temperature: 'sample.storage',
+  expected_destroy_date: 'sample.destroy'
+};
+
+/**
+ * 样本操作记录参数
+ */
+export interface SampleOperationInput {
+  sampleId: string;
+  operationType: string;
+  description?: string;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  fromLocation?: string | null;
+  toLocation?: string | null;
+  volumeBefore?: number | null;
+  volumeAfter?: number | null;
+  operatorId?: string;
+  remarks?: string;
+}
+
+/**
+ * 样本状态变更选项
+ * @description operationType 用于覆盖按目标状态记录的操作类型，如拒收
+ */
+export interface SampleTransitionOptions {
+  operatorId?: string;
+  toLocation?: string;
+  volumeAfter?: number;
+  reason?: string;
+  remarks?: string;
+  operationType?: string;
+}
+
+/**
+ * 判断样本是否处于保留期
+ * @description 法律或科研保留的样本不能销毁；未设置截止日期时保留至手动解除
+ * @param sample 样本保留字段
+ * @param today 当前日期（YYYY-MM-DD）
+ * @returns 是否处于保留期
+ */
+export const isSampleOnHold = (
+  sample: { hold_type?: string | null; hold_until?: string | null },
+  today: string = new Date().toISOString().slice(0, 10)
+): boolean => {
+  if (!sample.hold_type) {
+    return false;
+  }
+  return !sample.hold_until || sample.hold_until >= today;
+};
+
+/**
+ * 判断状态流转是否合法
+ * @param from 当前状态
+ * @param to 目标状态
+ * @returns 是否允许流转
+ */
+export const canTransitionSample = (from: SampleStatus, to: SampleStatus): boolean => {
+  return (SAMPLE_TRANSITIONS[from] || []).includes(to);
+};
+
+/**
+ * 写入样本操作记录
+ * @param input 操作记录参数
+ * @returns 操作记录
+ */
+export const recordSampleOperation = async (input: SampleOperationInput) => {
+  const { data, error } = await supabase
+    .from('sample_operations')
+    .insert({
+      sample_id: input.sampleId,
+      operation_type: input.operationType,
+      operation_desc: input.description,
+      from_status: input.fromStatus,
+      to_status: input.toStatus,
+      from_location: input.fromLocation,
+      to_location: input.toLocation,
+      volume_before: input.volumeBefore,
+      volume_after: input.volumeAfter,
+      operator_id: input.operatorId,
+      operation_time: new Date().toISOString(),
+      remarks: input.remarks
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('记录样本操作失败:', error);
+    throw new DatabaseError('记录样本操作失败');
+  }
+
+  return data;
+};
+
+/**
+ * 变更样本状态
+ * @description 校验流转规则后更新样本状态、位置和余量，并写入操作记录；
+ * 操作记录写入失败时回滚样本状态，保证每次状态变更都有对应的监管链记录
+ * @param sampleId 样本ID
+ * @param to 目标状态
+ * @param options 变更选项
+ * @returns 更新后的样本
+ */
+export const transitionSample = async (
+  sampleId: string,
+  to: SampleStatus,
+  options: SampleTransitionOptions = {}
+) => {
+  const { operatorId, toLocation, volumeAfter, reason, remarks, operationType } = options;
+
+  const { data: sample, error: checkError } = await supabase
+    .from('samples')
+    .select('id, sample_no, status, storage_location, volume, abnormal_reason, destroy_reason, destroy_date, hold_type, hold_until')
+    .eq('id', sampleId)
+    .single();
+
+  if (checkError || !sample) {
+    throw new NotFoundError('样本不存在');
+  }
+
+  const from = sample.status as SampleStatus;
+  if (from === to) {
+    throw new ConflictError(`样本已处于「${SAMPLE_STATUS_TEXT[to]}」状态`);
+  }
+
+  if (!canTransitionSample(from, to)) {
+    throw new ConflictError(
+      `样本状态不能从「${SAMPLE_STATUS_TEXT[from]}」变更为「${SAMPLE_STATUS_TEXT[to]}」`,
+      { from, to, allowed: SAMPLE_TRANSITIONS[from] }
+    );
+  }
+
+  if (to === 'in_storage' && !toLocation) {
+    throw new ValidationError('样本入库必须指定存储位置');
+  }
+  if (to === 'destroyed' && isSampleOnHold(sample)) {
+    throw new ConflictError(`样本 ${sample.sample_no} 处于保留期，不能销毁`, {
+      hold_type: sample.hold_type,
+      hold_until: sample.hold_until
+    });
+  }
+  if ((to === 'destroyed' || to === 'abnormal') && !reason) {
+    throw new ValidationError(to === 'destroyed' ? '样本销毁必须填写销毁原因' : '标记异常必须填写异常原因');
+  }
+
+  const volumeBefore = sample.volume !== null && sample.volume !== undefined ? Number(sample.volume) : null;
+  if (volumeAfter !== undefined && volumeBefore !== null && volumeAfter > volumeBefore) {
+    throw new ValidationError('操作后余量不能大于操作前余量', { volume_before: volumeBefore, volume_after: volumeAfter });
+  }
+
+  const now = new Date().toISOString();
+  const fromLocation = sample.storage_location ?? null;
+  const nextLocation = toLocation ?? fromLocation;
+  const nextVolume = volumeAfter ?? volumeBefore;
+
+  const updateData: Record<string, unknown> = {
+    status: to,
+    storage_location: nextLocation,
+    volume: nextVolume,
+    updated_at: now,
+    updated_by: operatorId
+  };
+
+  if (to === 'abnormal') {
+    updateData.abnormal_reason = reason;
+  }
+  if (to === 'destroyed') {
+    updateData.destroy_reason = reason;
+    updateData.destroy_date = now.slice(0, 10);
+  }
+
+  const { data, error } = await supabase
+    .from('samples')
+    .update(updateData)
+    .eq('id', sampleId)
+    .eq('status', from)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('更新样本状态失败:', error);
+    throw new ConflictError('样本状态已被其他操作修改，请刷新后重试');
+  }
+
+  try {
+    await recordSampleOperation({
+      sampleId,
+      operationType: operationType || SAMPLE_OPERATION_TYPES[to],
+      description: reason || `状态变更：${SAMPLE_STATUS_TEXT[from]} → ${SAMPLE_STATUS_TEXT[to]}`,
+      fromStatus: from,
+      toStatus: to,
+      fromLocation,
+      toLocation: nextLocation,
+      volumeBefore,
+      volumeAfter: nextVolume,
+      operatorId,
+      remarks
+    });
+  } catch (operationError) {
+    // 操作记录写入失败时恢复样本原状态
+    await supabase
+      .from('samples')
+      .update({
+        status: from,
+        storage_location: sample.storage_location,
+        volume: sample.volume,
+        abnormal_reason: sample.abnormal_reason,
+        destroy_reason: sample.destroy_reason,
+        destroy_date: sample.destroy_date
+      })
+      .eq('id', sampleId);
+    throw operationError;
+  }
+
+  // 销毁的样本不再占用孔位；出库检测期间保留孔位以便放回
+  if (to === 'destroyed') {
+    const { error: releaseError } = await supabase
+      .from('sample_storage_positions')
+      .delete()
+      .eq('sample_id', sampleId);
+
+    if (releaseError) {
+      logger.error('释放样本孔位失败:', releaseError);
+    }
+  }
+
+  logger.info(`样本状态已变更: ${sample.sample_no} ${from} -> ${to}`, { operatorId });
+  return data;
+};
@@ -0,0 +1,362 @@
+/**
+ * 样本分装与谱系工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：将样本分装为子样本或处理为衍生样本，扣减来源样本余量并写入操作记录；按来源关系查询样本的完整谱系
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { recordSampleOperation, SAMPLE_STATUS_TEXT, type SampleStatus } from './sampleLifecycle.js';
+import { allocateSampleBarcode } from './sampleLabel.js';
+
+/**
+ * 样本生成方式
+ */
+export type DerivationType = 'aliquot' | 'derivative';
+
+/**
+ * 样本生成方式中文名称
+ */
+export const DERIVATION_TYPE_TEXT: Record<DerivationType, string> = {
+  aliquot: '分装',
+  derivative: '衍生'
+};
+
+/**
+ * 允许分装或衍生的样本状态
+ */
+export const DERIVABLE_STATUSES: SampleStatus[] = ['received', 'in_storage', 'out_for_test', 'testing'];
+
+/**
+ * 子样本参数
+ */
+export interface DerivedSampleInput {
+  sample_type_id?: string;
+  volume: number;
+  unit?: string;
+  storage_temperature?: string;
+}
+
+/**
+ * 分装/衍生选项
+ * @description 分装时按子样本体积之和扣减来源样本；衍生时按消耗量扣减，子样本体积为产物体积
+ */
+export interface DeriveSampleOptions {
+  derivationType: DerivationType;
+  children: DerivedSampleInput[];
+  consumedVolume?: number;
+  method?: string;
+  operatorId?: string;
+  remarks?: string;
+}
+
+/**
+ * 谱系节点
+ */
+export interface LineageNode {
+  id: string;
+  sample_no: string;
+  barcode: string;
+  parent_sample_id: string | null;
+  root_sample_id: string | null;
+  derivation_type: DerivationType | null;
+  derivation_method: string | null;
+  volume: number | null;
+  unit: string | null;
+  status: string;
+  storage_location: string | null;
+  created_at: string;
+  sample_types: { id: string; code: string; name: string } | null;
+  children: LineageNode[];
+}
+
+/**
+ * 谱系查询字段
+ */
+const LINEAGE_FIELDS = `
+  id,
+  sample_no,
+  barcode,
+  parent_sample_id,
+  root_sample_id,
+  derivation_type,
+  derivation_method,
+  volume,
+  unit,
+  status,
+  storage_location,
+  created_at,
+  sample_types(
+    id,
+    code,
+    name
+  )
+`;
+
+/**
+ * 保留两位小数（与 volume 字段精度一致）
+ * @param value 数值
+ * @returns 舍入后的数值
+ */
+const roundVolume = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * 分装或衍生样本
+ * @description 依次扣减来源样本余量、创建子样本、写入操作记录；任一步骤失败时删除已创建的子样本并恢复来源样本余量。
+ * 子样本编号为来源样本编号加序号，条码按子样本类型的编码规则分配
+ * @param parentId 来源样本ID
+ * @param options 分装/衍生选项
+ * @returns 来源样本及创建的子样本
+ */
+export const deriveSamples = async (parentId: string, options: DeriveSampleOptions) => {
+  const { derivationType, children, consumedVolume, method, operatorId, remarks } = options;
+
+  const { data: parent, error: parentError } = await supabase
+    .from('samples')
+    .select(`
+      id,
+      sample_no,
+      submission_id,
+      sample_type_id,
+      root_sample_id,
+      volume,
+      unit,
+      status,
+      storage_temperature,
+      expected_destroy_date
+    `)
+    .eq('id', parentId)
+    .single();
+
+  if (parentError || !parent) {
+    throw new NotFoundError('样本不存在');
+  }
+
+  const status = parent.status as SampleStatus;
+  if (!DERIVABLE_STATUSES.includes(status)) {
+    throw new ConflictError(`「${SAMPLE_STATUS_TEXT[status]}」状态的样本不能${DERIVATION_TYPE_TEXT[derivationType]}`);
+  }
+
+  if (parent.volume === null || parent.volume === undefined) {
+    throw new ValidationError(`样本 ${parent.sample_no} 未记录余量，不能${DERIVATION_TYPE_TEXT[derivationType]}`);
+  }
+
+  const volumeBefore = Number(parent.volume);
+  const deducted = derivationType === 'aliquot'
+    ? roundVolume(children.reduce((total, child) => total + child.volume, 0))
+    : roundVolume(consumedVolume ?? 0);
+
+  if (derivationType === 'derivative' && !deducted) {
+    throw new ValidationError('衍生处理必须填写来源样本消耗量');
+  }
+  if (deducted > volumeBefore) {
+    throw new ValidationError(`样本 ${parent.sample_no} 余量不足`, {
+      volume: volumeBefore,
+      required: deducted,
+      unit: parent.unit
+    });
+  }
+
+  // 子样本类型：分装沿用来源样本类型，衍生使用指定的产物类型
+  const typeIds = [...new Set(children.map(child => (
+    derivationType === 'aliquot' ? parent.sample_type_id : child.sample_type_id as string
+  )))];
+
+  const { data: sampleTypes, error: typeError } = await supabase
+    .from('sample_types')
+    .select('id, code, name, default_destroy_days, is_active')
+    .in('id', typeIds);
+
+  if (typeError) {
+    logger.error('获取样本类型失败:', typeError);
+    throw new DatabaseError('获取样本类型失败');
+  }
+
+  const typeMap = new Map((sampleTypes || []).map(type => [type.id, type]));
+
+  const { count: siblingCount, error: countError } = await supabase
+    .from('samples')
+    .select('id', { count: 'exact', head: true })
+    .eq('parent_sample_id', parentId);
+
+  if (countError) {
+    logger.error('获取子样本数量失败:', countError);
+    throw new DatabaseError(`样本${DERIVATION_TYPE_TEXT[derivationType]}失败`);
+  }
+
+  const now = new Date();
+  const rows = [];
+  for (const [index, child] of children.entries()) {
+    const typeId = derivationType === 'aliquot' ? parent.sample_type_id : child.sample_type_id as string;
+    const type = typeMap.get(typeId);
+    if (!type) {
+      throw new ValidationError('样本类型不存在', { sample_type_id: typeId });
+    }
+    if (!type.is_active && derivationType === 'derivative') {
+      throw new ValidationError(`样本类型「${type.name}」已停用`);
+    }
+
+    let expectedDestroyDate = parent.expected_destroy_date;
+    if (derivationType === 'derivative') {
+      const destroyDate = new Date(now);
+      destroyDate.setDate(destroyDate.getDate() + (type.default_destroy_days || 30));
+      expectedDestroyDate = destroyDate.toISOString().slice(0, 10);
+    }
+
+    rows.push({
+      sample_no: `${parent.sample_no}-${String((siblingCount || 0) + index + 1).padStart(2, '0')}`,
+      barcode: await allocateSampleBarcode(type.code, now),
+      submission_id: parent.submission_id,
+      sample_type_id: typeId,
+      parent_sample_id: parent.id,
+      root_sample_id: parent.root_sample_id || parent.id,
+      derivation_type: derivationType,
+      derivation_method: method,
+      volume: child.volume,
+      unit: derivationType === 'aliquot' ? parent.unit : child.unit || parent.unit,
+      received_time: now.toISOString(),
+      storage_temperature: child.storage_temperature
+        || (derivationType === 'aliquot' ? parent.storage_temperature : null),
+      status: 'received',
+      quality_status: 'qualified',
+      expected_destroy_date: expectedDestroyDate,
+      created_by: operatorId,
+      updated_by: operatorId
+    });
+  }
+
+  const volumeAfter = roundVolume(volumeBefore - deducted);
+
+  const { data: updatedParent, error: updateError } = await supabase
+    .from('samples')
+    .update({
+      volume: volumeAfter,
+      updated_at: now.toISOString(),
+      updated_by: operatorId
+    })
+    .eq('id', parentId)
+    .eq('volume', parent.volume)
+    .select()
+    .single();
+
+  if (updateError || !updatedParent) {
+    logger.error('扣减样本余量失败:', updateError);
+    throw new ConflictError('样本余量已被其他操作修改，请刷新后重试');
+  }
+
+  const restoreParent = async () => {
+    await supabase
+      .from('samples')
+      .update({ volume: parent.volume })
+      .eq('id', parentId);
+  };
+
+  const { data: created, error: insertError } = await supabase
+    .from('samples')
+    .insert(rows)
+    .select(LINEAGE_FIELDS);
+
+  if (insertError || !created) {
+    await restoreParent();
+    if (insertError?.code === '23505') {
+      throw new ConflictError('子样本编号或条码已存在，请重试');
+    }
+    logger.error('创建子样本失败:', insertError);
+    throw new DatabaseError(`样本${DERIVATION_TYPE_TEXT[derivationType]}失败`);
+  }
+
+  const childNos = created.map(child => child.sample_no).join('、');
+  const actionText = DERIVATION_TYPE_TEXT[derivationType];
+  let parentOperationId: string | null = null;
+
+  try {
+    const parentOperation = await recordSampleOperation({
+      sampleId: parentId,
+      operationType: derivationType === 'aliquot' ? 'aliquot' : 'derive',
+      description: `${actionText}为${created.length}份${method ? `（${method}）` : ''}：${childNos}`,
+      volumeBefore,
+      volumeAfter,
+      operatorId,
+      remarks
+    });
+    parentOperationId = parentOperation.id;
+
+    await Promise.all(created.map(child => recordSampleOperation({
+      sampleId: child.id,
+      operationType: 'receive',
+      description: `由样本${parent.sample_no}${actionText}生成${method ? `（${method}）` : ''}`,
+      toStatus: 'received',
+      volumeAfter: child.volume,
+      operatorId,
+      remarks
+    })));
+  } catch (operationError) {
+    // 操作记录写入失败时撤销本次分装，保证每个子样本都能追溯来源
+    await supabase.from('samples').delete().in('id', created.map(child => child.id));
+    if (parentOperationId) {
+      await supabase.from('sample_operations').delete().eq('id', parentOperationId);
+    }
+    await restoreParent();
+    throw operationError;
+  }
+
+  logger.info(`样本已${actionText}: ${parent.sample_no} -> ${childNos}`, { operatorId });
+  return { parent: updatedParent, children: created };
+};
+
+/**
+ * 查询样本谱系
+ * @description 从原始样本开始组装完整谱系树，并给出从原始样本到当前样本的来源路径
+ * @param sampleId 样本ID
+ * @returns 谱系树、来源路径及谱系内样本数
+ */
+export const getSampleLineage = async (sampleId: string) => {
+  const { data: sample, error: sampleError } = await supabase
+    .from('samples')
+    .select('id, root_sample_id')
+    .eq('id', sampleId)
+    .single();
+
+  if (sampleError || !sample) {
+    throw new NotFoundError('样本不存在');
+  }
+
+  const rootId = sample.root_sample_id || sample.id;
+
+  const { data, error } = await supabase
+    .from('samples')
+    .select(LINEAGE_FIELDS)
+    .or(`id.eq.${rootId},root_sample_id.eq.${rootId}`)
+    .order('sample_no', { ascending: true });
+
+  if (error || !data) {
+    logger.error('获取样本谱系失败:', error);
+    throw new DatabaseError('获取样本谱系失败');
+  }
+
+  const nodes = new Map<string, LineageNode>(
+    data.map(row => [row.id, { ...row, sample_types: firstRelation(row.sample_types), children: [] }])
+  );
+
+  for (const node of nodes.values()) {
+    if (node.parent_sample_id && node.id !== rootId) {
+      nodes.get(node.parent_sample_id)?.children.push(node);
+    }
+  }
+
+  const ancestors: { id: string; sample_no: string }[] = [];
+  let current = nodes.get(sampleId);
+  while (current) {
+    ancestors.unshift({ id: current.id, sample_no: current.sample_no });
+    current = current.parent_sample_id ? nodes.get(current.parent_sample_id) : undefined;
+  }
+
+  return {
+    sample_id: sampleId,
+    root: nodes.get(rootId) || null,
+    path: ancestors,
+    total: nodes.size
+  };
+};
@@ -0,0 +1,414 @@
+/**
+ * 样本清单导入工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：按送检编号、样本类型和条码逐行校验客户送样清单并返回行级错误；校验通过后在同一事务内批量登记接收
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { allocateSampleBarcode } from './sampleLabel.js';
+import { transitionSubmission } from './submissionStatus.js';
+
+/**
+ * 单次导入的最大行数
+ */
+export const MANIFEST_MAX_ROWS = 1000;
+
+/**
+ * 按条码查重时每次查询的条码数，避免请求URL过长
+ */
+const BARCODE_LOOKUP_CHUNK = 200;
+
+/**
+ * 清单行（列映射后）
+ * @description row_no 为源文件中的行号，用于回显错误位置
+ */
+export interface ManifestRowInput {
+  row_no: number;
+  submission_no?: string | null;
+  sample_type?: string | null;
+  barcode?: string | null;
+  volume?: number | string | null;
+  unit?: string | null;
+  collection_time?: string | null;
+  storage_temperature?: string | null;
+  remarks?: string | null;
+}
+
+/**
+ * 行级错误
+ */
+export interface ManifestRowError {
+  row_no: number;
+  field: keyof ManifestRowInput;
+  message: string;
+}
+
+/**
+ * 校验后的清单行
+ */
+export interface ResolvedManifestRow {
+  row_no: number;
+  submission_id: string;
+  submission_no: string;
+  submission_status: string;
+  sample_type_id: string;
+  sample_type_code: string;
+  sample_type_name: string;
+  default_destroy_days: number | null;
+  barcode: string | null;
+  volume: number | null;
+  unit: string;
+  collection_time: string | null;
+  storage_temperature: string | null;
+  remarks: string | null;
+}
+
+/**
+ * 清单校验结果
+ */
+export interface ManifestValidationResult {
+  total: number;
+  valid_count: number;
+  error_count: number;
+  errors: ManifestRowError[];
+  rows: ResolvedManifestRow[];
+}
+
+/**
+ * 清单导入选项
+ */
+export interface ManifestImportOptions {
+  fileName: string;
+  sampleNos: string[];
+  operatorId?: string;
+}
+
+/**
+ * 校验样本清单
+ * @description 不写入任何数据；送检单须存在且未完成，样本类型按编码或名称匹配且须启用，
+ * 条码不能在清单内重复或与已登记样本重复，空条码在导入时按编码规则分配
+ * @param rows 清单行
+ * @returns 校验结果，含全部行级错误及通过校验的行
+ */
+export const validateManifest = async (rows: ManifestRowInput[]): Promise<ManifestValidationResult> => {
+  const submissionNos = [...new Set(rows.map(row => clean(row.submission_no)).filter(Boolean))] as string[];
+  const barcodes = rows.map(row => clean(row.barcode)).filter(Boolean) as string[];
+
+  const [submissions, sampleTypes, existingBarcodes] = await Promise.all([
+    loadSubmissions(submissionNos),
+    loadSampleTypes(),
+    findExistingBarcodes([...new Set(barcodes)])
+  ]);
+
+  const barcodeCounts = new Map<string, number>();
+  barcodes.forEach(barcode => barcodeCounts.set(barcode, (barcodeCounts.get(barcode) || 0) + 1));
+
+  const now = Date.now();
+  const errors: ManifestRowError[] = [];
+  const resolved: ResolvedManifestRow[] = [];
+
+  for (const row of rows) {
+    const rowErrors: ManifestRowError[] = [];
+    const addError = (field: keyof ManifestRowInput, message: string) => {
+      rowErrors.push({ row_no: row.row_no, field, message });
+    };
+
+    // 送检单
+    const submissionNo = clean(row.submission_no);
+    const submission = submissionNo ? submissions.get(submissionNo) : undefined;
+    if (!submissionNo) {
+      addError('submission_no', '送检编号不能为空');
+    } else if (!submission) {
+      addError('submission_no', `送检单 ${submissionNo} 不存在`);
+    } else if (['completed', 'cancelled'].includes(submission.status)) {
+      addError('submission_no', `送检单 ${submissionNo} 已完成或已取消`);
+    }
+
+    // 样本类型，编码优先匹配
+    const typeKey = clean(row.sample_type);
+    const sampleType = typeKey
+      ? sampleTypes.find(type => type.code.toLowerCase() === typeKey.toLowerCase())
+        || sampleTypes.find(type => type.name === typeKey)
+      : undefined;
+    if (!typeKey) {
+      addError('sample_type', '样本类型不能为空');
+    } else if (!sampleType) {
+      addError('sample_type', `样本类型 ${typeKey} 不存在`);
+    } else if (!sampleType.is_active) {
+      addError('sample_type', `样本类型 ${typeKey} 已停用`);
+    }
+
+    // 条码
+    const barcode = clean(row.barcode);
+    if (barcode) {
+      if (barcode.length > 100) {
+        addError('barcode', '条形码不能超过100个字符');
+      } else if ((barcodeCounts.get(barcode) || 0) > 1) {
+        addError('barcode', `条形码 ${barcode} 在清单中重复`);
+      } else if (existingBarcodes.has(barcode)) {
+        addError('barcode', `条形码 ${barcode} 已存在`);
+      }
+    }
+
+    // 样本量
+    let volume: number | null = null;
+    const rawVolume = typeof row.volume === 'string' ? row.volume.trim() : row.volume;
+    if (rawVolume !== undefined && rawVolume !== null && rawVolume !== '') {
+      volume = Number(rawVolume);
+      if (!Number.isFinite(volume)) {
+        addError('volume', `样本量 ${rawVolume} 不是有效数字`);
+      } else if (volume < 0) {
+        addError('volume', '样本量不能小于0');
+      }
+    }
+
+    // 采集时间
+    let collectionTime: string | null = null;
+    const rawCollectionTime = clean(row.collection_time);
+    if (rawCollectionTime) {
+      const parsed = new Date(rawCollectionTime);
+      if (Number.isNaN(parsed.getTime())) {
+        addError('collection_time', `采集时间 ${rawCollectionTime} 格式无效`);
+      } else if (parsed.getTime() > now) {
+        addError('collection_time', '采集时间不能晚于当前时间');
+      } else {
+        collectionTime = parsed.toISOString();
+      }
+    }
+
+    const unit = clean(row.unit) || 'ml';
+    if (unit.length > 20) {
+      addError('unit', '单位不能超过20个字符');
+    }
+
+    const storageTemperature = clean(row.storage_temperature);
+    if (storageTemperature && storageTemperature.length > 20) {
+      addError('storage_temperature', '保存温度不能超过20个字符');
+    }
+
+    const remarks = clean(row.remarks);
+    if (remarks && remarks.length > 500) {
+      addError('remarks', '备注不能超过500个字符');
+    }
+
+    if (rowErrors.length > 0 || !submission || !sampleType) {
+      errors.push(...rowErrors);
+      continue;
+    }
+
+    resolved.push({
+      row_no: row.row_no,
+      submission_id: submission.id,
+      submission_no: submission.submission_no,
+      submission_status: submission.status,
+      sample_type_id: sampleType.id,
+      sample_type_code: sampleType.code,
+      sample_type_name: sampleType.name,
+      default_destroy_days: sampleType.default_destroy_days,
+      barcode,
+      volume,
+      unit,
+      collection_time: collectionTime,
+      storage_temperature: storageTemperature,
+      remarks
+    });
+  }
+
+  return {
+    total: rows.length,
+    valid_count: resolved.length,
+    error_count: rows.length - resolved.length,
+    errors,
+    rows: resolved
+  };
+};
+
+/**
+ * 导入样本清单
+ * @description 空条码按编码规则分配后，样本与接收操作记录通过数据库函数在同一事务内写入，接收时间统一为事务时间；
+ * 送检单首批样本到达时送检单变为已接收
+ * @param rows 校验通过的清单行
+ * @param options 文件名、预分配的样本编号及操作人
+ * @returns 导入记录及登记的样本
+ */
+export const importManifest = async (rows: ResolvedManifestRow[], options: ManifestImportOptions) => {
+  const { fileName, sampleNos, operatorId } = options;
+
+  // 分配的条码不能与清单中自带的条码重复
+  const usedBarcodes = new Set(rows.map(row => row.barcode).filter(Boolean) as string[]);
+  const today = new Date();
+  const payload = [];
+
+  for (const [index, row] of rows.entries()) {
+    let barcode = row.barcode;
+    while (!barcode || (!row.barcode && usedBarcodes.has(barcode))) {
+      barcode = await allocateSampleBarcode(row.sample_type_code, today);
+    }
+    usedBarcodes.add(barcode);
+
+    const expectedDestroyDate = new Date(today);
+    expectedDestroyDate.setDate(expectedDestroyDate.getDate() + (row.default_destroy_days || 30));
+
+    payload.push({
+      sample_no: sampleNos[index],
+      barcode,
+      submission_id: row.submission_id,
+      submission_no: row.submission_no,
+      sample_type_id: row.sample_type_id,
+      volume: row.volume,
+      unit: row.unit,
+      collection_time: row.collection_time,
+      storage_temperature: row.storage_temperature,
+      expected_destroy_date: expectedDestroyDate.toISOString().slice(0, 10),
+      remarks: row.remarks
+    });
+  }
+
+  const { data: importId, error } = await supabase.rpc('receive_sample_manifest', {
+    p_file_name: fileName,
+    p_samples: payload,
+    p_operator_id: operatorId ?? null
+  });
+
+  if (error || !importId) {
+    if (error?.code === '23505') {
+      throw new ConflictError('条形码或样本编号已被占用，请重新校验清单后导入');
+    }
+    logger.error('导入样本清单失败:', error);
+    throw new DatabaseError('导入样本清单失败');
+  }
+
+  const { data: samples, error: samplesError } = await supabase
+    .from('samples')
+    .select(`
+      *,
+      sample_types(
+        id,
+        code,
+        name
+      ),
+      submissions(
+        id,
+        submission_no
+      )
+    `)
+    .eq('manifest_import_id', importId)
+    .order('sample_no', { ascending: true });
+
+  if (samplesError) {
+    logger.error('获取导入样本失败:', samplesError);
+    throw new DatabaseError('获取导入样本失败');
+  }
+
+  // 样本已入库，送检单状态更新失败不影响导入结果
+  const receivedSubmissions = new Map<string, string>();
+  rows
+    .filter(row => row.submission_status === 'submitted')
+    .forEach(row => receivedSubmissions.set(row.submission_id, row.submission_no));
+
+  for (const [submissionId, submissionNo] of receivedSubmissions) {
+    try {
+      await transitionSubmission(submissionId, 'received', operatorId, `样本清单${fileName}已接收`);
+    } catch (transitionError) {
+      logger.warn(`送检单${submissionNo}状态更新失败:`, transitionError);
+    }
+  }
+
+  logger.info(`样本清单已导入: ${fileName}，共${payload.length}个样本`, { operatorId });
+
+  return {
+    import_id: importId as string,
+    file_name: fileName,
+    row_count: payload.length,
+    samples: samples || []
+  };
+};
+
+/**
+ * 规整单元格文本
+ * @param value 单元格值
+ * @returns 去除首尾空白后的文本，空值返回 null
+ */
+function clean(value: string | null | undefined): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const text = String(value).trim();
+  return text || null;
+}
+
+/**
+ * 按送检编号加载送检单
+ * @param submissionNos 送检编号
+ * @returns 送检编号到送检单的映射
+ */
+async function loadSubmissions(submissionNos: string[]) {
+  const submissions = new Map<string, { id: string; submission_no: string; status: string }>();
+  if (submissionNos.length === 0) {
+    return submissions;
+  }
+
+  const { data, error } = await supabase
+    .from('submissions')
+    .select('id, submission_no, status')
+    .in('submission_no', submissionNos);
+
+  if (error) {
+    logger.error('查询送检单失败:', error);
+    throw new DatabaseError('查询送检单失败');
+  }
+
+  (data || []).forEach(submission => submissions.set(submission.submission_no, submission));
+  return submissions;
+}
+
+/**
+ * 加载样本类型
+ * @returns 全部样本类型
+ */
+async function loadSampleTypes() {
+  const { data, error } = await supabase
+    .from('sample_types')
+    .select('id, code, name, default_destroy_days, is_active');
+
+  if (error) {
+    logger.error('查询样本类型失败:', error);
+    throw new DatabaseError('查询样本类型失败');
+  }
+
+  return (data || []) as {
+    id: string;
+    code: string;
+    name: string;
+    default_destroy_days: number | null;
+    is_active: boolean;
+  }[];
+}
+
+/**
+ * 查询已登记的条码
+ * @param barcodes 待查条码
+ * @returns 已存在的条码集合
+ */
+async function findExistingBarcodes(barcodes: string[]) {
+  const existing = new Set<string>();
+
+  for (let offset = 0; offset < barcodes.length; offset += BARCODE_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('samples')
+      .select('barcode')
+      .in('barcode', barcodes.slice(offset, offset + BARCODE_LOOKUP_CHUNK));
+
+    if (error) {
+      logger.error('查询条形码失败:', error);
+      throw new DatabaseError('查询条形码失败');
+    }
+
+    (data || []).forEach(sample => existing.add(sample.barcode));
+  }
+
+  return existing;
+}
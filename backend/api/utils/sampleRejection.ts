@@ -0,0 +1,466 @@
+/**
+ * 样本拒收与重采工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：按编码原因拒收不合格样本，送检单转为异常并通知送检单位联系人；跟踪重采申请直至替代样本到达后恢复送检单状态
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { createNotification, type NotificationChannel, type NotificationRecipient } from './notification.js';
+import { transitionSample, recordSampleOperation, canTransitionSample, SAMPLE_STATUS_TEXT, type SampleStatus } from './sampleLifecycle.js';
+import { transitionSubmission, type SubmissionStatus } from './submissionStatus.js';
+
+/**
+ * 拒收原因编码
+ */
+export type SampleRejectionReason =
+  | 'hemolysis'
+  | 'insufficient_volume'
+  | 'wrong_container'
+  | 'expired_stability'
+  | 'other';
+
+/**
+ * 拒收原因中文名称
+ */
+export const SAMPLE_REJECTION_REASON_TEXT: Record<SampleRejectionReason, string> = {
+  hemolysis: '溶血',
+  insufficient_volume: '样本量不足',
+  wrong_container: '容器错误',
+  expired_stability: '超出稳定期',
+  other: '其他'
+};
+
+/**
+ * 重采状态
+ */
+export type RecollectionStatus = 'awaiting_recollection' | 'recollected' | 'cancelled';
+
+/**
+ * 重采状态中文名称
+ */
+export const RECOLLECTION_STATUS_TEXT: Record<RecollectionStatus, string> = {
+  awaiting_recollection: '待重采',
+  recollected: '已重采',
+  cancelled: '已取消'
+};
+
+/**
+ * 拒收选项
+ */
+export interface RejectSampleOptions {
+  reasonCode: SampleRejectionReason;
+  reasonDetail?: string;
+  operatorId?: string;
+}
+
+/**
+ * 拒收样本
+ * @description 样本转为异常并标记为不合格，送检单转为异常，同时生成重采申请并通知送检单位联系人
+ * @param sampleId 样本ID
+ * @param options 拒收原因及操作人
+ * @returns 重采申请
+ */
+export const rejectSample = async (sampleId: string, options: RejectSampleOptions) => {
+  const { reasonCode, reasonDetail, operatorId } = options;
+
+  const { data: sample, error: sampleError } = await supabase
+    .from('samples')
+    .select(`
+      id,
+      sample_no,
+      barcode,
+      status,
+      submission_id,
+      sample_types(
+        id,
+        name
+      ),
+      submissions(
+        id,
+        submission_no,
+        patient_name,
+        status,
+        created_by,
+        client_units(
+          id,
+          name,
+          contact_person,
+          contact_phone,
+          contact_email
+        )
+      )
+    `)
+    .eq('id', sampleId)
+    .single();
+
+  if (sampleError || !sample) {
+    throw new NotFoundError('样本不存在');
+  }
+
+  const status = sample.status as SampleStatus;
+  if (!canTransitionSample(status, 'abnormal')) {
+    throw new ConflictError(`样本处于「${SAMPLE_STATUS_TEXT[status]}」状态，不能拒收`);
+  }
+
+  const submission = firstRelation(sample.submissions);
+  const submissionStatus = submission?.status as SubmissionStatus | undefined;
+  if (!submission || submissionStatus === 'completed' || submissionStatus === 'cancelled') {
+    throw new ConflictError('送检单已完成或已取消，不能拒收样本');
+  }
+
+  const reasonText = SAMPLE_REJECTION_REASON_TEXT[reasonCode];
+  const fullReason = reasonDetail ? `${reasonText}：${reasonDetail}` : reasonText;
+
+  const { data: rejection, error: insertError } = await supabase
+    .from('sample_rejections')
+    .insert({
+      recollection_no: await generateRecollectionNo(),
+      sample_id: sampleId,
+      submission_id: sample.submission_id,
+      reason_code: reasonCode,
+      reason_detail: reasonDetail,
+      submission_status_before: submissionStatus,
+      status: 'awaiting_recollection',
+      rejected_by: operatorId,
+      rejected_at: new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (insertError || !rejection) {
+    if (insertError?.code === '23505') {
+      throw new ConflictError('该样本已拒收，正在等待重采');
+    }
+    logger.error('创建重采申请失败:', insertError);
+    throw new DatabaseError('创建重采申请失败');
+  }
+
+  try {
+    await transitionSample(sampleId, 'abnormal', {
+      reason: `拒收：${fullReason}`,
+      operatorId,
+      operationType: 'reject',
+      remarks: `重采申请${rejection.recollection_no}`
+    });
+  } catch (transitionError) {
+    // 样本状态变更失败时撤销重采申请
+    await supabase.from('sample_rejections').delete().eq('id', rejection.id);
+    throw transitionError;
+  }
+
+  const { error: qualityError } = await supabase
+    .from('samples')
+    .update({ quality_status: 'unqualified' })
+    .eq('id', sampleId);
+
+  if (qualityError) {
+    logger.error('更新样本质量状态失败:', qualityError);
+  }
+
+  await transitionSubmission(
+    sample.submission_id,
+    'abnormal',
+    operatorId,
+    `样本${sample.sample_no}拒收（${fullReason}），等待重采`
+  );
+
+  // 通知送检单位联系人及送检单创建人
+  const clientUnit = firstRelation(submission.client_units);
+  const recipients: NotificationRecipient[] = [];
+  const channels: NotificationChannel[] = ['system'];
+  if (clientUnit?.contact_email || clientUnit?.contact_phone) {
+    recipients.push({
+      name: clientUnit.contact_person || clientUnit.name,
+      email: clientUnit.contact_email || undefined,
+      phone: clientUnit.contact_phone || undefined
+    });
+    if (clientUnit.contact_email) channels.push('email');
+    if (clientUnit.contact_phone) channels.push('sms');
+  } else {
+    logger.warn(`送检单位未登记联系方式，拒收通知仅发送系统内: ${submission.submission_no}`);
+  }
+
+  const notification = await createNotification({
+    title: `样本拒收通知：送检单${submission.submission_no}`,
+    content: `${clientUnit?.name || ''}送检的受检者${submission.patient_name}样本${sample.barcode}（${firstRelation(sample.sample_types)?.name || ''}）因${fullReason}被拒收，请重新采样送检，重采申请编号${rejection.recollection_no}`,
+    type: 'sample_rejection',
+    priority: 'high',
+    targetUsers: submission.created_by ? [submission.created_by] : [],
+    targetRoles: ['lab_manager'],
+    channels,
+    recipients,
+    createdBy: operatorId
+  });
+
+  const notifiedContact = recipients.length > 0
+    ? [recipients[0].name, recipients[0].phone, recipients[0].email].filter(Boolean).join(' ')
+    : null;
+
+  const { data, error } = await supabase
+    .from('sample_rejections')
+    .update({
+      notification_id: notification.id,
+      notified_contact: notifiedContact,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', rejection.id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('更新重采申请失败:', error);
+    throw new DatabaseError('更新重采申请失败');
+  }
+
+  logger.info(`样本已拒收: ${sample.sample_no}，原因${reasonCode}，重采申请${rejection.recollection_no}`, { operatorId });
+  return data;
+};
+
+/**
+ * 获取重采申请详情
+ * @param rejectionId 重采申请ID
+ * @returns 重采申请及拒收样本、替代样本
+ */
+export const getSampleRejection = async (rejectionId: string) => {
+  const { data, error } = await supabase
+    .from('sample_rejections')
+    .select(`
+      *,
+      sample:samples!sample_rejections_sample_id_fkey(
+        id,
+        sample_no,
+        barcode,
+        status,
+        sample_types(
+          id,
+          code,
+          name
+        )
+      ),
+      replacement:samples!sample_rejections_replacement_sample_id_fkey(
+        id,
+        sample_no,
+        barcode,
+        status,
+        received_time
+      ),
+      submissions(
+        id,
+        submission_no,
+        patient_name,
+        status,
+        client_units(
+          id,
+          name,
+          contact_person,
+          contact_phone,
+          contact_email
+        )
+      )
+    `)
+    .eq('id', rejectionId)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('重采申请不存在');
+  }
+
+  return data;
+};
+
+/**
+ * 登记重采到样
+ * @description 替代样本须属于同一送检单且状态正常；送检单无其他待重采样本时恢复拒收前的状态
+ * @param rejectionId 重采申请ID
+ * @param replacementSampleId 替代样本ID
+ * @param operatorId 操作人ID
+ * @returns 更新后的重采申请
+ */
+export const fulfilRecollection = async (rejectionId: string, replacementSampleId: string, operatorId?: string) => {
+  const rejection = await getSampleRejection(rejectionId);
+
+  if (rejection.status !== 'awaiting_recollection') {
+    throw new ConflictError(`重采申请${RECOLLECTION_STATUS_TEXT[rejection.status as RecollectionStatus]}，不能登记到样`);
+  }
+
+  const { data: replacement, error: replacementError } = await supabase
+    .from('samples')
+    .select('id, sample_no, status, submission_id')
+    .eq('id', replacementSampleId)
+    .single();
+
+  if (replacementError || !replacement) {
+    throw new ValidationError('替代样本不存在');
+  }
+  if (replacement.id === rejection.sample_id) {
+    throw new ValidationError('替代样本不能是被拒收的样本');
+  }
+  if (replacement.submission_id !== rejection.submission_id) {
+    throw new ValidationError('替代样本必须属于同一送检单');
+  }
+  if (['abnormal', 'destroyed'].includes(replacement.status)) {
+    throw new ValidationError(`替代样本处于「${SAMPLE_STATUS_TEXT[replacement.status as SampleStatus]}」状态`);
+  }
+
+  const { data: used } = await supabase
+    .from('sample_rejections')
+    .select('recollection_no')
+    .eq('replacement_sample_id', replacementSampleId)
+    .maybeSingle();
+
+  if (used) {
+    throw new ConflictError(`样本${replacement.sample_no}已作为重采申请${used.recollection_no}的替代样本`);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('sample_rejections')
+    .update({
+      status: 'recollected',
+      replacement_sample_id: replacementSampleId,
+      closed_by: operatorId,
+      closed_at: now,
+      updated_at: now
+    })
+    .eq('id', rejectionId)
+    .eq('status', 'awaiting_recollection')
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('更新重采申请失败:', error);
+    throw new ConflictError('重采申请已被其他操作修改，请刷新后重试');
+  }
+
+  await recordSampleOperation({
+    sampleId: replacementSampleId,
+    operationType: 'recollect',
+    description: `重采到样，替代样本${rejection.sample?.sample_no || ''}`,
+    operatorId,
+    remarks: `重采申请${rejection.recollection_no}`
+  });
+
+  await restoreSubmissionStatus(rejection.submission_id, operatorId);
+
+  logger.info(`重采申请已到样: ${rejection.recollection_no} -> ${replacement.sample_no}`, { operatorId });
+  return data;
+};
+
+/**
+ * 取消重采申请
+ * @description 送检单位放弃重采时使用；送检单保持异常状态，由主管决定后续处理
+ * @param rejectionId 重采申请ID
+ * @param operatorId 操作人ID
+ * @param reason 取消原因
+ * @returns 更新后的重采申请
+ */
+export const cancelRecollection = async (rejectionId: string, operatorId: string | undefined, reason: string) => {
+  const rejection = await getSampleRejection(rejectionId);
+
+  if (rejection.status !== 'awaiting_recollection') {
+    throw new ConflictError(`重采申请${RECOLLECTION_STATUS_TEXT[rejection.status as RecollectionStatus]}，不能取消`);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('sample_rejections')
+    .update({
+      status: 'cancelled',
+      close_reason: reason,
+      closed_by: operatorId,
+      closed_at: now,
+      updated_at: now
+    })
+    .eq('id', rejectionId)
+    .eq('status', 'awaiting_recollection')
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('取消重采申请失败:', error);
+    throw new ConflictError('重采申请已被其他操作修改，请刷新后重试');
+  }
+
+  logger.info(`重采申请已取消: ${rejection.recollection_no}`, { operatorId });
+  return data;
+};
+
+/**
+ * 生成重采申请编号
+ * @returns 重采申请编号
+ */
+const generateRecollectionNo = async (): Promise<string> => {
+  const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+  const { data, error } = await supabase
+    .from('sample_rejections')
+    .select('recollection_no')
+    .like('recollection_no', `RC${dateStr}%`)
+    .order('recollection_no', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    logger.error('生成重采申请编号失败:', error);
+    throw new DatabaseError('生成重采申请编号失败');
+  }
+
+  const last = data?.[0]?.recollection_no ? Number(data[0].recollection_no.slice(-3)) : 0;
+  return `RC${dateStr}${String(last + 1).padStart(3, '0')}`;
+};
+
+/**
+ * 恢复送检单状态
+ * @description 送检单仍有待重采样本时保持异常；否则恢复到本轮首次拒收前的状态，已提交的送检单因重采到样恢复为已接收
+ * @param submissionId 送检单ID
+ * @param operatorId 操作人ID
+ */
+const restoreSubmissionStatus = async (submissionId: string, operatorId?: string) => {
+  const { count, error } = await supabase
+    .from('sample_rejections')
+    .select('id', { count: 'exact', head: true })
+    .eq('submission_id', submissionId)
+    .eq('status', 'awaiting_recollection');
+
+  if (error) {
+    logger.error('查询待重采样本失败:', error);
+    throw new DatabaseError('查询待重采样本失败');
+  }
+  if (count && count > 0) {
+    return;
+  }
+
+  // 拒收前已是异常的记录不代表送检单的原状态
+  const { data: origin } = await supabase
+    .from('sample_rejections')
+    .select('submission_status_before')
+    .eq('submission_id', submissionId)
+    .neq('submission_status_before', 'abnormal')
+    .order('rejected_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const before = origin?.submission_status_before as SubmissionStatus | undefined;
+  if (!before) {
+    return;
+  }
+
+  const { data: submission } = await supabase
+    .from('submissions')
+    .select('status')
+    .eq('id', submissionId)
+    .single();
+
+  if (submission?.status !== 'abnormal') {
+    return;
+  }
+
+  await transitionSubmission(
+    submissionId,
+    before === 'in_progress' ? 'in_progress' : 'received',
+    operatorId,
+    '拒收样本已全部重采到样'
+  );
+};
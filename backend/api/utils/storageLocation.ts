@@ -0,0 +1,693 @@
+/**
+ * 样本存储位置工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：维护冰箱 → 层架 → 冻存架 → 冻存盒的存储层级，查询冻存盒孔位图和空闲孔位，执行样本入库定位和移位
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { transitionSample, recordSampleOperation, type SampleTransitionOptions } from './sampleLifecycle.js';
+
+/**
+ * 存储单元类型
+ */
+export type StorageUnitType = 'freezer' | 'shelf' | 'rack' | 'box';
+
+/**
+ * 温度等级
+ */
+export type TemperatureClass = 'room' | '2-8' | '-20' | '-80' | 'ln2';
+
+/**
+ * 存储单元类型中文名称
+ */
+export const STORAGE_UNIT_TYPE_TEXT: Record<StorageUnitType, string> = {
+  freezer: '冰箱',
+  shelf: '层架',
+  rack: '冻存架',
+  box: '冻存盒'
+};
+
+/**
+ * 温度等级中文名称
+ */
+export const TEMPERATURE_CLASS_TEXT: Record<TemperatureClass, string> = {
+  room: '室温',
+  '2-8': '2-8℃',
+  '-20': '-20℃',
+  '-80': '-80℃',
+  ln2: '液氮'
+};
+
+/**
+ * 各类存储单元允许的上级单元类型
+ * @description 冰箱为顶层单元；冻存盒可放在冻存架上，也可直接放在层架上
+ */
+export const STORAGE_PARENT_TYPES: Record<StorageUnitType, StorageUnitType[]> = {
+  freezer: [],
+  shelf: ['freezer'],
+  rack: ['shelf'],
+  box: ['rack', 'shelf']
+};
+
+/**
+ * 存储单元
+ */
+export interface StorageUnit {
+  id: string;
+  parent_id: string | null;
+  unit_type: StorageUnitType;
+  code: string;
+  name: string;
+  path: string;
+  temperature_class: TemperatureClass;
+  rows: number | null;
+  cols: number | null;
+  sort_order: number;
+  is_active: boolean;
+  remarks: string | null;
+}
+
+/**
+ * 空闲孔位
+ */
+export interface FreeSlot {
+  box_id: string;
+  box_path: string;
+  box_name: string;
+  row_no: number;
+  col_no: number;
+  position: string;
+  location: string;
+}
+
+/**
+ * 冻存盒孔位
+ */
+export interface BoxWell {
+  row_no: number;
+  col_no: number;
+  position: string;
+  sample: {
+    id: string;
+    sample_no: string;
+    barcode: string;
+    status: string;
+    sample_type: string | null;
+    stored_at: string;
+  } | null;
+}
+
+/**
+ * 样本孔位记录
+ */
+export interface SamplePosition {
+  id: string;
+  sample_id: string;
+  box_id: string;
+  row_no: number;
+  col_no: number;
+  stored_at: string;
+  stored_by: string | null;
+  storage_units: Pick<StorageUnit, 'path' | 'name'>;
+}
+
+/**
+ * 冻存盒已占用孔位记录
+ */
+interface OccupiedPositionRow {
+  row_no: number;
+  col_no: number;
+  stored_at: string;
+  samples?: {
+    id: string;
+    sample_no: string;
+    barcode: string;
+    status: string;
+    sample_types?: { name: string } | null;
+  } | null;
+}
+
+/**
+ * 孔位占用结果
+ * @description rollback 用于后续操作失败时恢复占用前的孔位
+ */
+export interface WellPlacement {
+  box: StorageUnit;
+  row_no: number;
+  col_no: number;
+  position: string;
+  location: string;
+  rollback: () => Promise<void>;
+}
+
+/**
+ * 单次查找空闲孔位的最大数量
+ */
+const MAX_FREE_SLOTS = 200;
+
+/**
+ * 生成孔位编号
+ * @param rowNo 行号（1起）
+ * @param colNo 列号（1起）
+ * @returns 孔位编号，如 A1
+ */
+export const positionLabel = (rowNo: number, colNo: number): string => {
+  return `${String.fromCharCode(64 + rowNo)}${colNo}`;
+};
+
+/**
+ * 解析孔位编号
+ * @param position 孔位编号，如 A1、h12
+ * @param box 冻存盒
+ * @returns 行号和列号
+ */
+export const parsePosition = (position: string, box: Pick<StorageUnit, 'path' | 'rows' | 'cols'>) => {
+  const match = /^([A-Za-z])(\d{1,2})$/.exec(position.trim());
+  if (!match) {
+    throw new ValidationError('孔位编号格式不正确，应为行字母加列号，如 A1', { position });
+  }
+
+  const rowNo = match[1].toUpperCase().charCodeAt(0) - 64;
+  const colNo = Number(match[2]);
+  if (rowNo > (box.rows || 0) || colNo < 1 || colNo > (box.cols || 0)) {
+    throw new ValidationError(`孔位 ${position} 超出冻存盒 ${box.path} 的范围`, {
+      position,
+      rows: box.rows,
+      cols: box.cols
+    });
+  }
+
+  return { row_no: rowNo, col_no: colNo };
+};
+
+/**
+ * 生成样本存储位置文本
+ * @param boxPath 冻存盒位置编码
+ * @param rowNo 行号
+ * @param colNo 列号
+ * @returns 存储位置，如 F01/S2/R3/B04:A1
+ */
+export const formatStorageLocation = (boxPath: string, rowNo: number, colNo: number): string => {
+  return `${boxPath}:${positionLabel(rowNo, colNo)}`;
+};
+
+/**
+ * 将样本保存温度转换为温度等级
+ * @param storageTemperature 样本登记时填写的保存温度，如 -80℃、2-8℃、室温
+ * @returns 温度等级，无法识别时返回 null
+ */
+export const toTemperatureClass = (storageTemperature?: string | null): TemperatureClass | null => {
+  if (!storageTemperature) {
+    return null;
+  }
+
+  const value = storageTemperature.replace(/\s|℃|°C|°/gi, '');
+  if (['室温', '常温', 'room'].includes(value)) return 'room';
+  if (['液氮', 'ln2', 'LN2', '-196'].includes(value)) return 'ln2';
+  if (['2-8', '4', '冷藏'].includes(value)) return '2-8';
+  if (value === '-20') return '-20';
+  if (value === '-80' || value === '-70') return '-80';
+  return null;
+};
+
+/**
+ * 获取存储单元
+ * @param id 存储单元ID
+ * @returns 存储单元
+ */
+export const getStorageUnit = async (id: string): Promise<StorageUnit> => {
+  const { data, error } = await supabase
+    .from('storage_units')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('存储单元不存在');
+  }
+
+  return data as StorageUnit;
+};
+
+/**
+ * 获取冻存盒
+ * @param id 冻存盒ID
+ * @returns 冻存盒
+ */
+const getBox = async (id: string): Promise<StorageUnit> => {
+  const unit = await getStorageUnit(id);
+  if (unit.unit_type !== 'box') {
+    throw new ValidationError(`${unit.path} 是${STORAGE_UNIT_TYPE_TEXT[unit.unit_type]}，样本只能存放在冻存盒中`);
+  }
+  return unit;
+};
+
+/**
+ * 确定新建存储单元的位置编码和温度等级
+ * @description 校验上级单元类型；冰箱必须指定温度等级，下级单元继承上级单元的温度等级
+ * @param unitType 单元类型
+ * @param code 单元编码
+ * @param parentId 上级单元ID
+ * @param temperatureClass 指定的温度等级
+ * @returns 位置编码和温度等级
+ */
+export const resolveUnitPlacement = async (
+  unitType: StorageUnitType,
+  code: string,
+  parentId?: string | null,
+  temperatureClass?: TemperatureClass
+) => {
+  const allowedParents = STORAGE_PARENT_TYPES[unitType];
+
+  if (!parentId) {
+    if (allowedParents.length > 0) {
+      throw new ValidationError(`${STORAGE_UNIT_TYPE_TEXT[unitType]}必须指定上级单元`);
+    }
+    if (!temperatureClass) {
+      throw new ValidationError('冰箱必须指定温度等级');
+    }
+    return { path: code, temperature_class: temperatureClass };
+  }
+
+  const parent = await getStorageUnit(parentId);
+  if (!allowedParents.includes(parent.unit_type)) {
+    throw new ValidationError(
+      `${STORAGE_UNIT_TYPE_TEXT[unitType]}不能放在${STORAGE_UNIT_TYPE_TEXT[parent.unit_type]}下`,
+      { allowed_parent_types: allowedParents }
+    );
+  }
+  if (!parent.is_active) {
+    throw new ConflictError(`上级单元 ${parent.path} 已停用`);
+  }
+  if (temperatureClass && temperatureClass !== parent.temperature_class) {
+    throw new ValidationError(
+      `温度等级须与上级单元一致（${TEMPERATURE_CLASS_TEXT[parent.temperature_class]}）`
+    );
+  }
+
+  return { path: `${parent.path}/${code}`, temperature_class: parent.temperature_class };
+};
+
+/**
+ * 获取冻存盒孔位图
+ * @param boxId 冻存盒ID
+ * @returns 冻存盒信息、按行排列的孔位及占用统计
+ */
+export const getBoxMap = async (boxId: string) => {
+  const box = await getBox(boxId);
+
+  const { data: positions, error } = await supabase
+    .from('sample_storage_positions')
+    .select(`
+      row_no,
+      col_no,
+      stored_at,
+      samples(
+        id,
+        sample_no,
+        barcode,
+        status,
+        sample_types(
+          name
+        )
+      )
+    `)
+    .eq('box_id', boxId);
+
+  if (error) {
+    logger.error('获取冻存盒孔位失败:', error);
+    throw new DatabaseError('获取冻存盒孔位失败');
+  }
+
+  const occupied = new Map<string, OccupiedPositionRow>(
+    (positions || []).map(row => {
+      const sample = firstRelation(row.samples);
+      return [positionLabel(row.row_no, row.col_no), {
+        ...row,
+        samples: sample && { ...sample, sample_types: firstRelation(sample.sample_types) }
+      }];
+    })
+  );
+
+  const rows = box.rows || 0;
+  const cols = box.cols || 0;
+  const wells: BoxWell[][] = [];
+  for (let rowNo = 1; rowNo <= rows; rowNo++) {
+    const line: BoxWell[] = [];
+    for (let colNo = 1; colNo <= cols; colNo++) {
+      const position = positionLabel(rowNo, colNo);
+      const row = occupied.get(position);
+      line.push({
+        row_no: rowNo,
+        col_no: colNo,
+        position,
+        sample: row?.samples
+          ? {
+              id: row.samples.id,
+              sample_no: row.samples.sample_no,
+              barcode: row.samples.barcode,
+              status: row.samples.status,
+              sample_type: row.samples.sample_types?.name ?? null,
+              stored_at: row.stored_at
+            }
+          : null
+      });
+    }
+    wells.push(line);
+  }
+
+  return {
+    box,
+    wells,
+    capacity: rows * cols,
+    occupied_count: occupied.size,
+    free_count: rows * cols - occupied.size
+  };
+};
+
+/**
+ * 查找空闲孔位
+ * @description 按位置编码顺序遍历启用的冻存盒，逐行返回未被占用的孔位
+ * @param options 温度等级、查找范围（冻存盒或其上级单元）及数量
+ * @returns 空闲孔位列表
+ */
+export const findFreeSlots = async (options: {
+  temperatureClass?: TemperatureClass | null;
+  unitId?: string;
+  count?: number;
+}): Promise<FreeSlot[]> => {
+  const count = Math.min(options.count || 1, MAX_FREE_SLOTS);
+
+  let query = supabase
+    .from('storage_units')
+    .select('id, path, name, rows, cols')
+    .eq('unit_type', 'box')
+    .eq('is_active', true)
+    .order('path', { ascending: true });
+
+  if (options.temperatureClass) {
+    query = query.eq('temperature_class', options.temperatureClass);
+  }
+
+  if (options.unitId) {
+    const scope = await getStorageUnit(options.unitId);
+    query = scope.unit_type === 'box'
+      ? query.eq('id', scope.id)
+      : query.like('path', `${scope.path}/%`);
+  }
+
+  const { data: boxes, error } = await query;
+  if (error) {
+    logger.error('查询冻存盒失败:', error);
+    throw new DatabaseError('查询空闲孔位失败');
+  }
+  if (!boxes || boxes.length === 0) {
+    return [];
+  }
+
+  const { data: positions, error: positionError } = await supabase
+    .from('sample_storage_positions')
+    .select('box_id, row_no, col_no')
+    .in('box_id', boxes.map(box => box.id));
+
+  if (positionError) {
+    logger.error('查询孔位占用失败:', positionError);
+    throw new DatabaseError('查询空闲孔位失败');
+  }
+
+  const occupied = new Set((positions || []).map(row => `${row.box_id}:${row.row_no}:${row.col_no}`));
+  const slots: FreeSlot[] = [];
+
+  for (const box of boxes) {
+    for (let rowNo = 1; rowNo <= (box.rows || 0); rowNo++) {
+      for (let colNo = 1; colNo <= (box.cols || 0); colNo++) {
+        if (occupied.has(`${box.id}:${rowNo}:${colNo}`)) {
+          continue;
+        }
+        slots.push({
+          box_id: box.id,
+          box_path: box.path,
+          box_name: box.name,
+          row_no: rowNo,
+          col_no: colNo,
+          position: positionLabel(rowNo, colNo),
+          location: formatStorageLocation(box.path, rowNo, colNo)
+        });
+        if (slots.length >= count) {
+          return slots;
+        }
+      }
+    }
+  }
+
+  return slots;
+};
+
+/**
+ * 获取样本当前占用的孔位
+ * @param sampleId 样本ID
+ * @returns 孔位占用记录，未占用时返回 null
+ */
+export const getSamplePosition = async (sampleId: string): Promise<SamplePosition | null> => {
+  const { data, error } = await supabase
+    .from('sample_storage_positions')
+    .select('id, sample_id, box_id, row_no, col_no, stored_at, stored_by, storage_units(path, name)')
+    .eq('sample_id', sampleId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('获取样本孔位失败:', error);
+    throw new DatabaseError('获取样本孔位失败');
+  }
+
+  return data as SamplePosition | null;
+};
+
+/**
+ * 释放样本占用的孔位
+ * @param sampleId 样本ID
+ */
+export const releaseSamplePosition = async (sampleId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('sample_storage_positions')
+    .delete()
+    .eq('sample_id', sampleId);
+
+  if (error) {
+    logger.error('释放样本孔位失败:', error);
+    throw new DatabaseError('释放样本孔位失败');
+  }
+};
+
+/**
+ * 占用孔位
+ * @description 校验冻存盒状态及样本保存温度后占用孔位；样本已占用其他孔位时改为占用新孔位。
+ * 孔位唯一约束冲突说明孔位已被其他样本占用
+ * @param sampleId 样本ID
+ * @param boxId 冻存盒ID
+ * @param position 孔位编号
+ * @param operatorId 操作人ID
+ * @returns 孔位占用结果
+ */
+export const occupyWell = async (
+  sampleId: string,
+  boxId: string,
+  position: string,
+  operatorId?: string
+): Promise<WellPlacement> => {
+  const box = await getBox(boxId);
+  if (!box.is_active) {
+    throw new ConflictError(`冻存盒 ${box.path} 已停用`);
+  }
+
+  const { row_no, col_no } = parsePosition(position, box);
+
+  const { data: sample, error: sampleError } = await supabase
+    .from('samples')
+    .select('id, sample_no, storage_temperature')
+    .eq('id', sampleId)
+    .single();
+
+  if (sampleError || !sample) {
+    throw new NotFoundError('样本不存在');
+  }
+
+  const sampleClass = toTemperatureClass(sample.storage_temperature);
+  if (sampleClass && sampleClass !== box.temperature_class) {
+    throw new ValidationError(
+      `样本 ${sample.sample_no} 要求保存温度 ${sample.storage_temperature}，冻存盒 ${box.path} 为${TEMPERATURE_CLASS_TEXT[box.temperature_class]}`,
+      { sample_temperature_class: sampleClass, box_temperature_class: box.temperature_class }
+    );
+  }
+
+  const previous = await getSamplePosition(sampleId);
+  const record = {
+    sample_id: sampleId,
+    box_id: boxId,
+    row_no,
+    col_no,
+    stored_at: new Date().toISOString(),
+    stored_by: operatorId
+  };
+
+  const { error } = previous
+    ? await supabase.from('sample_storage_positions').update(record).eq('sample_id', sampleId)
+    : await supabase.from('sample_storage_positions').insert(record);
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new ConflictError(`孔位 ${formatStorageLocation(box.path, row_no, col_no)} 已被占用`);
+    }
+    logger.error('占用孔位失败:', error);
+    throw new DatabaseError('占用孔位失败');
+  }
+
+  const rollback = async () => {
+    const { error: rollbackError } = previous
+      ? await supabase
+          .from('sample_storage_positions')
+          .update({
+            box_id: previous.box_id,
+            row_no: previous.row_no,
+            col_no: previous.col_no,
+            stored_at: previous.stored_at,
+            stored_by: previous.stored_by
+          })
+          .eq('sample_id', sampleId)
+      : await supabase.from('sample_storage_positions').delete().eq('sample_id', sampleId);
+
+    if (rollbackError) {
+      logger.error('恢复样本孔位失败:', rollbackError);
+    }
+  };
+
+  return {
+    box,
+    row_no,
+    col_no,
+    position: positionLabel(row_no, col_no),
+    location: formatStorageLocation(box.path, row_no, col_no),
+    rollback
+  };
+};
+
+/**
+ * 样本入库
+ * @description 指定冻存盒孔位时先占用孔位再变更状态，状态变更失败则恢复孔位；
+ * 未指定孔位和存储位置时放回样本出库前保留的孔位；仅填写存储位置文本时释放保留的孔位
+ * @param sampleId 样本ID
+ * @param options 状态变更选项及冻存盒孔位
+ * @returns 更新后的样本
+ */
+export const storeSample = async (
+  sampleId: string,
+  options: SampleTransitionOptions & { boxId?: string; position?: string }
+) => {
+  const { boxId, position, ...transitionOptions } = options;
+
+  if (boxId && position) {
+    const placement = await occupyWell(sampleId, boxId, position, transitionOptions.operatorId);
+    try {
+      return await transitionSample(sampleId, 'in_storage', { ...transitionOptions, toLocation: placement.location });
+    } catch (error) {
+      await placement.rollback();
+      throw error;
+    }
+  }
+
+  const reserved = await getSamplePosition(sampleId);
+  if (reserved && !transitionOptions.toLocation) {
+    const boxPath = reserved.storage_units.path;
+    return transitionSample(sampleId, 'in_storage', {
+      ...transitionOptions,
+      toLocation: formatStorageLocation(boxPath, reserved.row_no, reserved.col_no)
+    });
+  }
+
+  const data = await transitionSample(sampleId, 'in_storage', transitionOptions);
+  if (reserved) {
+    await releaseSamplePosition(sampleId);
+  }
+  return data;
+};
+
+/**
+ * 样本移位
+ * @description 在库样本移动到新的孔位，更新存储位置并写入移位操作记录；任一步骤失败时恢复原孔位和存储位置
+ * @param sampleId 样本ID
+ * @param boxId 目标冻存盒ID
+ * @param position 目标孔位编号
+ * @param operatorId 操作人ID
+ * @param remarks 备注
+ * @returns 更新后的样本
+ */
+export const moveSample = async (
+  sampleId: string,
+  boxId: string,
+  position: string,
+  operatorId?: string,
+  remarks?: string
+) => {
+  const { data: sample, error: sampleError } = await supabase
+    .from('samples')
+    .select('id, sample_no, status, storage_location')
+    .eq('id', sampleId)
+    .single();
+
+  if (sampleError || !sample) {
+    throw new NotFoundError('样本不存在');
+  }
+  if (sample.status !== 'in_storage') {
+    throw new ConflictError('只有在库样本可以移位');
+  }
+
+  const placement = await occupyWell(sampleId, boxId, position, operatorId);
+  if (placement.location === sample.storage_location) {
+    throw new ConflictError('样本已在该孔位');
+  }
+
+  const { data, error } = await supabase
+    .from('samples')
+    .update({
+      storage_location: placement.location,
+      updated_at: new Date().toISOString(),
+      updated_by: operatorId
+    })
+    .eq('id', sampleId)
+    .eq('status', 'in_storage')
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('更新样本存储位置失败:', error);
+    await placement.rollback();
+    throw new ConflictError('样本状态已被其他操作修改，请刷新后重试');
+  }
+
+  try {
+    await recordSampleOperation({
+      sampleId,
+      operationType: 'move',
+      description: `样本移位：${sample.storage_location || '-'} → ${placement.location}`,
+      fromStatus: 'in_storage',
+      toStatus: 'in_storage',
+      fromLocation: sample.storage_location,
+      toLocation: placement.location,
+      operatorId,
+      remarks
+    });
+  } catch (operationError) {
+    await supabase
+      .from('samples')
+      .update({ storage_location: sample.storage_location })
+      .eq('id', sampleId);
+    await placement.rollback();
+    throw operationError;
+  }
+
+  logger.info(`样本已移位: ${sample.sample_no} -> ${placement.location}`, { operatorId });
+  return data;
+};
@@ -0,0 +1,164 @@
+/**
+ * 送检状态流转工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：定义送检单状态流转规则，执行状态变更并记录送检进度
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+
+/**
+ * 送检状态类型
+ */
+export type SubmissionStatus =
+  | 'submitted'
+  | 'received'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'abnormal';
+
+/**
+ * 送检状态中文名称
+ */
+export const SUBMISSION_STATUS_TEXT: Record<SubmissionStatus, string> = {
+  submitted: '已提交',
+  received: '已接收',
+  in_progress: '进行中',
+  completed: '已完成',
+  cancelled: '已取消',
+  abnormal: '异常'
+};
+
+/**
+ * 送检状态流转规则
+ * @description 键为当前状态，值为允许流转到的目标状态
+ */
+export const SUBMISSION_TRANSITIONS: Record<SubmissionStatus, SubmissionStatus[]> = {
+  submitted: ['received', 'cancelled', 'abnormal'],
+  received: ['in_progress', 'cancelled', 'abnormal'],
+  in_progress: ['completed', 'abnormal'],
+  abnormal: ['received', 'in_progress', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+/**
+ * 判断状态流转是否合法
+ * @param from 当前状态
+ * @param to 目标状态
+ * @returns 是否允许流转
+ */
+export const canTransitionSubmission = (from: SubmissionStatus, to: SubmissionStatus): boolean => {
+  return (SUBMISSION_TRANSITIONS[from] || []).includes(to);
+};
+
+/**
+ * 记录送检进度
+ * @param submissionId 送检单ID
+ * @param stage 阶段名称
+ * @param description 阶段描述
+ * @param operatorId 操作人ID
+ */
+export const recordSubmissionProgress = async (
+  submissionId: string,
+  stage: string,
+  description: string,
+  operatorId?: string
+): Promise<void> => {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('submission_progress')
+    .insert({
+      submission_id: submissionId,
+      stage,
+      status: 'completed',
+      description,
+      operator_id: operatorId,
+      started_at: now,
+      completed_at: now
+    });
+
+  if (error) {
+    logger.error('记录送检进度失败:', error);
+    throw new DatabaseError('记录送检进度失败');
+  }
+};
+
+/**
+ * 变更送检状态
+ * @description 校验流转规则后更新送检状态，同步接收/完成时间并写入进度记录
+ * @param submissionId 送检单ID
+ * @param to 目标状态
+ * @param operatorId 操作人ID
+ * @param description 变更说明
+ * @returns 更新后的送检单
+ */
+export const transitionSubmission = async (
+  submissionId: string,
+  to: SubmissionStatus,
+  operatorId?: string,
+  description?: string
+) => {
+  const { data: submission, error: checkError } = await supabase
+    .from('submissions')
+    .select('id, submission_no, status')
+    .eq('id', submissionId)
+    .single();
+
+  if (checkError || !submission) {
+    throw new NotFoundError('送检单不存在');
+  }
+
+  const from = submission.status as SubmissionStatus;
+  if (from === to) {
+    return submission;
+  }
+
+  if (!canTransitionSubmission(from, to)) {
+    throw new ConflictError(
+      `送检单状态不能从「${SUBMISSION_STATUS_TEXT[from]}」变更为「${SUBMISSION_STATUS_TEXT[to]}」`,
+      { from, to, allowed: SUBMISSION_TRANSITIONS[from] }
+    );
+  }
+
+  const now = new Date().toISOString();
+  const updateData: Record<string, unknown> = {
+    status: to,
+    updated_at: now,
+    updated_by: operatorId
+  };
+
+  if (to === 'received') {
+    updateData.received_at = now;
+  }
+  if (to === 'completed') {
+    updateData.completed_at = now;
+  }
+
+  const { data, error } = await supabase
+    .from('submissions')
+    .update(updateData)
+    .eq('id', submissionId)
+    .eq('status', from)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error('更新送检状态失败:', error);
+    throw new ConflictError('送检单状态已被其他操作修改，请刷新后重试');
+  }
+
+  await recordSubmissionProgress(
+    submissionId,
+    to,
+    description || `状态变更：${SUBMISSION_STATUS_TEXT[from]} → ${SUBMISSION_STATUS_TEXT[to]}`,
+    operatorId
+  );
+
+  logger.info(`送检状态已变更: ${submission.submission_no} ${from} -> ${to}`, { operatorId });
+  return data;
+};
@@ -0,0 +1,59 @@
+/**
+ * 系统配置工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：读取 system_configs 中的业务配置，并按配置类型转换取值
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+
+/**
+ * 按配置类型转换配置值
+ * @param value 配置值文本
+ * @param type 配置类型：string, number, boolean, json
+ * @returns 转换后的配置值
+ */
+const parseConfigValue = (value: string, type: string): unknown => {
+  switch (type) {
+    case 'number':
+      return Number(value);
+    case 'boolean':
+      return value === 'true';
+    case 'json':
+      return JSON.parse(value);
+    default:
+      return value;
+  }
+};
+
+/**
+ * 获取系统配置
+ * @description 配置不存在或解析失败时返回默认值
+ * @param key 配置键
+ * @param defaultValue 默认值
+ * @returns 配置值
+ */
+export const getConfigValue = async <T>(key: string, defaultValue: T): Promise<T> => {
+  const { data, error } = await supabase
+    .from('system_configs')
+    .select('config_value, config_type')
+    .eq('config_key', key)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`读取系统配置失败: ${key}`, error);
+    return defaultValue;
+  }
+
+  if (!data || data.config_value === null || data.config_value === undefined) {
+    return defaultValue;
+  }
+
+  try {
+    return parseConfigValue(data.config_value, data.config_type) as T;
+  } catch (parseError) {
+    logger.error(`系统配置格式错误: ${key}`, parseError);
+    return defaultValue;
+  }
+};
@@ -0,0 +1,660 @@
+/**
+ * 实验员分配工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：实验员方法学资质判定、未完成工作量统计，待开始实验按资质和工作量生成分配建议并写入分配记录
+ */
+
+import { supabase, firstRelation } from '../config/database.js';
+import logger from '../config/logger.js';
+import { ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { getConfigValue } from './systemConfig.js';
+import { createNotification } from './notification.js';
+import { EXPERIMENT_METHOD_TEXT, type ExperimentMethod } from './experimentResults.js';
+
+/**
+ * 实验员资质认证
+ * @description expires_at 为空表示长期有效
+ */
+export interface TechnicianCertification {
+  method?: string;
+  name?: string;
+  cert_no?: string;
+  expires_at?: string | null;
+}
+
+/**
+ * 自动分配参数
+ * @description max_open_workload-每人未完成工作量上限（加急实验不受上限限制），
+ * urgent_weight-加急实验计入工作量的权重，cert_expiry_warning_days-资质到期提醒天数
+ */
+export interface AssignmentConfig {
+  max_open_workload: number;
+  urgent_weight: number;
+  cert_expiry_warning_days: number;
+}
+
+/**
+ * 资质判定结果
+ */
+export interface TechnicianQualification {
+  qualified: boolean;
+  reason?: string;
+  expires_at?: string | null;
+}
+
+/**
+ * 待分配实验筛选条件
+ */
+export interface AssignmentFilter {
+  method: ExperimentMethod;
+  batch_no?: string;
+  experiment_ids?: string[];
+}
+
+/**
+ * 分配参数
+ */
+export interface AssignmentInput {
+  experiment_id: string;
+  technician_id: string;
+}
+
+/**
+ * 实验员记录
+ */
+type TechnicianRow = {
+  id: string;
+  user_id: string;
+  employee_no: string;
+  methods: string[] | null;
+  certifications: TechnicianCertification[] | null;
+  skills: string[] | null;
+  is_active: boolean;
+  users?: { id: string; real_name: string } | { id: string; real_name: string }[] | null;
+};
+
+/**
+ * 实验员未完成工作量
+ */
+type Workload = {
+  open_count: number;
+  urgent_count: number;
+  workload: number;
+};
+
+/**
+ * 加急判定所需的样本及送检单
+ * @description 嵌套查询的关联记录可能返回对象或数组
+ */
+type UrgencySource = {
+  samples?: UrgencySample | UrgencySample[] | null;
+};
+
+type UrgencySample = {
+  submissions?: { is_urgent: boolean } | { is_urgent: boolean }[] | null;
+};
+
+/**
+ * 待分配实验记录
+ * @description 嵌套查询的关联记录可能返回对象或数组
+ */
+type AssignmentExperimentRow = {
+  id: string;
+  experiment_no: string;
+  method: ExperimentMethod;
+  status: string;
+  batch_no: string | null;
+  technician_id: string | null;
+  created_at: string;
+  samples?: AssignmentSample | AssignmentSample[] | null;
+  test_products?: ProductBrief | ProductBrief[] | null;
+};
+
+type AssignmentSample = {
+  id: string;
+  sample_no: string;
+  barcode: string;
+  submissions?: SubmissionBrief | SubmissionBrief[] | null;
+};
+
+type SubmissionBrief = {
+  id: string;
+  submission_no: string;
+  is_urgent: boolean;
+};
+
+type ProductBrief = {
+  id: string;
+  code: string;
+  name: string;
+};
+
+/**
+ * 实验员简要信息
+ */
+type TechnicianBrief = {
+  id: string;
+  employee_no: string;
+  real_name: string;
+};
+
+/**
+ * 分配结果
+ */
+type AssignedExperiment = {
+  experiment_id: string;
+  experiment_no: string;
+  technician: TechnicianBrief;
+  previous_technician_id: string | null;
+  open_workload: number;
+  is_urgent: boolean;
+};
+
+/**
+ * 默认分配参数
+ */
+export const DEFAULT_ASSIGNMENT_CONFIG: AssignmentConfig = {
+  max_open_workload: 20,
+  urgent_weight: 2,
+  cert_expiry_warning_days: 30
+};
+
+/**
+ * 实验员查询字段
+ */
+const TECHNICIAN_FIELDS = `
+  id,
+  user_id,
+  employee_no,
+  methods,
+  certifications,
+  skills,
+  is_active,
+  users(
+    id,
+    real_name
+  )
+`;
+
+/**
+ * 待分配实验查询字段
+ */
+const EXPERIMENT_FIELDS = `
+  id,
+  experiment_no,
+  method,
+  status,
+  batch_no,
+  technician_id,
+  created_at,
+  samples(
+    id,
+    sample_no,
+    barcode,
+    submissions(
+      id,
+      submission_no,
+      is_urgent
+    )
+  ),
+  test_products(
+    id,
+    code,
+    name
+  )
+`;
+
+/**
+ * 获取自动分配参数
+ * @returns 分配参数，未配置的项使用默认值
+ */
+export const getAssignmentConfig = async (): Promise<AssignmentConfig> => {
+  const config = await getConfigValue<Partial<AssignmentConfig>>('experiment.assignment', {});
+  return { ...DEFAULT_ASSIGNMENT_CONFIG, ...(config || {}) };
+};
+
+/**
+ * 当天日期
+ * @returns YYYY-MM-DD
+ */
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * 实验是否加急
+ * @param experiment 含样本及送检单的实验
+ * @returns 送检单加急时为 true
+ */
+const isUrgent = (experiment: UrgencySource): boolean => {
+  const submission = firstRelation(firstRelation(experiment.samples)?.submissions);
+  return Boolean(submission?.is_urgent);
+};
+
+/**
+ * 实验员简要信息
+ * @param technician 实验员记录
+ * @returns ID、工号和姓名
+ */
+const technicianBrief = (technician: TechnicianRow): TechnicianBrief => {
+  const user = firstRelation(technician.users);
+  return { id: technician.id, employee_no: technician.employee_no, real_name: user?.real_name || '' };
+};
+
+/**
+ * 判定实验员的方法学资质
+ * @description 须在岗、绑定该方法学，并持有该方法学未过期的资质认证
+ * @param technician 实验员记录
+ * @param method 实验方法
+ * @param date 判定日期（YYYY-MM-DD）
+ * @returns 判定结果，合格时给出资质有效期
+ */
+export const getTechnicianQualification = (
+  technician: Pick<TechnicianRow, 'is_active' | 'methods' | 'certifications'>,
+  method: ExperimentMethod,
+  date: string = today()
+): TechnicianQualification => {
+  const methodText = EXPERIMENT_METHOD_TEXT[method];
+
+  if (!technician.is_active) {
+    return { qualified: false, reason: '实验员已停用' };
+  }
+  if (!(technician.methods || []).includes(method)) {
+    return { qualified: false, reason: `未绑定${methodText}方法学` };
+  }
+
+  const certifications = (technician.certifications || []).filter(cert => cert.method === method);
+  if (certifications.length === 0) {
+    return { qualified: false, reason: `没有${methodText}资质认证` };
+  }
+
+  const valid = certifications.filter(cert => !cert.expires_at || cert.expires_at.slice(0, 10) >= date);
+  if (valid.length === 0) {
+    const lastExpiry = certifications
+      .map(cert => cert.expires_at!.slice(0, 10))
+      .sort()
+      .pop();
+    return { qualified: false, reason: `${methodText}资质认证已于${lastExpiry}过期` };
+  }
+
+  const expiresAt = valid.some(cert => !cert.expires_at)
+    ? null
+    : valid.map(cert => cert.expires_at!.slice(0, 10)).sort().pop();
+  return { qualified: true, expires_at: expiresAt };
+};
+
+/**
+ * 统计实验员未完成工作量
+ * @description 待开始和进行中的实验计入工作量，加急实验按权重计
+ * @param technicianIds 实验员ID
+ * @param urgentWeight 加急实验权重
+ * @returns 各实验员的工作量
+ */
+const getOpenWorkloads = async (technicianIds: string[], urgentWeight: number) => {
+  const workloads = new Map<string, Workload>(
+    technicianIds.map(id => [id, { open_count: 0, urgent_count: 0, workload: 0 }])
+  );
+  if (technicianIds.length === 0) {
+    return workloads;
+  }
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .select('technician_id, samples(submissions(is_urgent))')
+    .in('technician_id', technicianIds)
+    .in('status', ['pending', 'in_progress']);
+
+  if (error) {
+    logger.error('统计实验员工作量失败:', error);
+    throw new DatabaseError('统计实验员工作量失败');
+  }
+
+  ((data || []) as (UrgencySource & { technician_id: string })[]).forEach(experiment => {
+    const workload = workloads.get(experiment.technician_id);
+    if (!workload) {
+      return;
+    }
+    const urgent = isUrgent(experiment);
+    workload.open_count += 1;
+    workload.urgent_count += urgent ? 1 : 0;
+    workload.workload += urgent ? urgentWeight : 1;
+  });
+
+  return workloads;
+};
+
+/**
+ * 查询实验员
+ * @param ids 实验员ID，为空时查询全部在岗实验员
+ * @returns 实验员记录
+ */
+const getTechnicians = async (ids?: string[]): Promise<TechnicianRow[]> => {
+  let query = supabase
+    .from('technicians')
+    .select(TECHNICIAN_FIELDS)
+    .order('employee_no', { ascending: true });
+
+  query = ids ? query.in('id', ids) : query.eq('is_active', true);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('查询实验员失败:', error);
+    throw new DatabaseError('查询实验员失败');
+  }
+
+  return data || [];
+};
+
+/**
+ * 获取在岗实验员的资质和工作量
+ * @param method 实验方法，指定时只返回绑定该方法学的实验员
+ * @returns 实验员、各方法学资质、未完成工作量和即将到期的资质认证
+ */
+export const listTechnicianWorkloads = async (method?: ExperimentMethod) => {
+  const config = await getAssignmentConfig();
+  const technicians = (await getTechnicians())
+    .filter(technician => !method || (technician.methods || []).includes(method));
+  const workloads = await getOpenWorkloads(technicians.map(technician => technician.id), config.urgent_weight);
+
+  const date = today();
+  const warningDate = new Date(Date.now() + config.cert_expiry_warning_days * 86400000).toISOString().slice(0, 10);
+
+  return technicians.map(technician => ({
+    ...technicianBrief(technician),
+    methods: technician.methods || [],
+    skills: technician.skills || [],
+    certifications: technician.certifications || [],
+    qualifications: Object.fromEntries(
+      (Object.keys(EXPERIMENT_METHOD_TEXT) as ExperimentMethod[])
+        .map(item => [item, getTechnicianQualification(technician, item, date)])
+    ) as Record<ExperimentMethod, TechnicianQualification>,
+    expiring_certifications: (technician.certifications || []).filter(cert =>
+      cert.expires_at && cert.expires_at.slice(0, 10) >= date && cert.expires_at.slice(0, 10) <= warningDate
+    ),
+    ...workloads.get(technician.id)!,
+    max_open_workload: config.max_open_workload
+  }));
+};
+
+/**
+ * 校验实验员具备实验方法资质
+ * @param technicianId 实验员ID
+ * @param method 实验方法
+ */
+export const assertTechnicianQualified = async (technicianId: string, method: ExperimentMethod): Promise<void> => {
+  const [technician] = await getTechnicians([technicianId]);
+  if (!technician) {
+    throw new ValidationError('实验员不存在');
+  }
+
+  const qualification = getTechnicianQualification(technician, method);
+  if (!qualification.qualified) {
+    throw new ValidationError(
+      `实验员 ${technician.employee_no} 不具备${EXPERIMENT_METHOD_TEXT[method]}实验资质：${qualification.reason}`
+    );
+  }
+};
+
+/**
+ * 查询待分配实验
+ * @description 未指定实验员的待开始实验，加急优先，其次按创建时间
+ * @param filter 筛选条件
+ * @returns 待分配实验
+ */
+const getUnassignedExperiments = async (filter: AssignmentFilter) => {
+  let query = supabase
+    .from('experiments')
+    .select(EXPERIMENT_FIELDS)
+    .eq('method', filter.method)
+    .eq('status', 'pending')
+    .is('technician_id', null)
+    .order('created_at', { ascending: true })
+    .limit(500);
+
+  if (filter.batch_no) {
+    query = query.eq('batch_no', filter.batch_no);
+  }
+  if (filter.experiment_ids && filter.experiment_ids.length > 0) {
+    query = query.in('id', filter.experiment_ids);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('查询待分配实验失败:', error);
+    throw new DatabaseError('查询待分配实验失败');
+  }
+
+  const experiments: AssignmentExperimentRow[] = data || [];
+  return experiments
+    .map(experiment => ({ ...experiment, is_urgent: isUrgent(experiment) }))
+    .sort((a, b) => Number(b.is_urgent) - Number(a.is_urgent));
+};
+
+/**
+ * 生成分配建议
+ * @description 待分配实验依次分配给当前工作量最低的合格实验员（工作量相同时取未完成实验数少的）；
+ * 普通实验不超过每人工作量上限，加急实验优先分配且不受上限限制
+ * @param filter 筛选条件
+ * @returns 分配建议和无法分配的实验
+ */
+export const proposeAssignments = async (filter: AssignmentFilter) => {
+  const config = await getAssignmentConfig();
+  const experiments = await getUnassignedExperiments(filter);
+
+  const date = today();
+  const candidates = (await getTechnicians())
+    .filter(technician => getTechnicianQualification(technician, filter.method, date).qualified);
+  const workloads = await getOpenWorkloads(candidates.map(technician => technician.id), config.urgent_weight);
+
+  const proposals: { experiment: typeof experiments[number]; technician: TechnicianBrief; open_workload: number }[] = [];
+  const unassigned: { experiment: typeof experiments[number]; reason: string }[] = [];
+
+  experiments.forEach(experiment => {
+    const weight = experiment.is_urgent ? config.urgent_weight : 1;
+    const available = candidates
+      .filter(technician =>
+        experiment.is_urgent || workloads.get(technician.id)!.workload + weight <= config.max_open_workload
+      )
+      .sort((a, b) => {
+        const left = workloads.get(a.id)!;
+        const right = workloads.get(b.id)!;
+        return left.workload - right.workload || left.open_count - right.open_count;
+      });
+
+    const technician = available[0];
+    if (!technician) {
+      unassigned.push({
+        experiment,
+        reason: candidates.length === 0
+          ? `没有具备${EXPERIMENT_METHOD_TEXT[filter.method]}资质的在岗实验员`
+          : '具备资质的实验员工作量已满'
+      });
+      return;
+    }
+
+    const workload = workloads.get(technician.id)!;
+    proposals.push({
+      experiment,
+      technician: technicianBrief(technician),
+      open_workload: workload.workload
+    });
+    workload.open_count += 1;
+    workload.urgent_count += experiment.is_urgent ? 1 : 0;
+    workload.workload += weight;
+  });
+
+  return { proposals, unassigned };
+};
+
+/**
+ * 分配实验
+ * @description 只能分配待开始的实验；实验员须具备实验方法资质，任一不合格时整批拒绝。
+ * 实验已被其他操作修改时跳过，分配后通知实验员
+ * @param method 实验方法
+ * @param assignments 实验与实验员
+ * @param mode 分配方式
+ * @param operatorId 操作人ID
+ * @returns 已分配和被跳过的实验
+ */
+export const applyAssignments = async (
+  method: ExperimentMethod,
+  assignments: AssignmentInput[],
+  mode: 'auto' | 'manual',
+  operatorId?: string
+) => {
+  const experimentIds = assignments.map(item => item.experiment_id);
+  const { data: experiments, error } = await supabase
+    .from('experiments')
+    .select(EXPERIMENT_FIELDS)
+    .in('id', experimentIds);
+
+  if (error) {
+    logger.error('查询实验失败:', error);
+    throw new DatabaseError('查询实验失败');
+  }
+
+  const rows: AssignmentExperimentRow[] = experiments || [];
+  const experimentMap = new Map(rows.map(experiment => [experiment.id, experiment]));
+  const missing = experimentIds.filter(id => !experimentMap.has(id));
+  if (missing.length > 0) {
+    throw new ValidationError('实验不存在', { experiment_ids: missing });
+  }
+
+  const otherMethod = rows.filter(experiment => experiment.method !== method);
+  if (otherMethod.length > 0) {
+    throw new ValidationError(`实验不是${EXPERIMENT_METHOD_TEXT[method]}实验`, {
+      experiments: otherMethod.map(experiment => experiment.experiment_no)
+    });
+  }
+
+  const notPending = rows.filter(experiment => experiment.status !== 'pending');
+  if (notPending.length > 0) {
+    throw new ConflictError('只能分配待开始的实验', {
+      experiments: notPending.map(experiment => experiment.experiment_no)
+    });
+  }
+
+  // 实验员资质
+  const technicianIds = [...new Set(assignments.map(item => item.technician_id))];
+  const technicians = new Map((await getTechnicians(technicianIds)).map(technician => [technician.id, technician]));
+  const date = today();
+  const refused = assignments
+    .map(item => {
+      const technician = technicians.get(item.technician_id);
+      const experiment = experimentMap.get(item.experiment_id)!;
+      const qualification = technician
+        ? getTechnicianQualification(technician, method, date)
+        : { qualified: false, reason: '实验员不存在' };
+      return qualification.qualified
+        ? null
+        : { experiment_no: experiment.experiment_no, employee_no: technician?.employee_no, reason: qualification.reason };
+    })
+    .filter(item => item !== null);
+  if (refused.length > 0) {
+    throw new ValidationError('实验员不具备实验资质，不能分配', { refused });
+  }
+
+  const config = await getAssignmentConfig();
+  const workloads = await getOpenWorkloads(technicianIds, config.urgent_weight);
+  const now = new Date().toISOString();
+  const assigned: AssignedExperiment[] = [];
+  const skipped: { experiment_no: string; reason: string }[] = [];
+
+  for (const item of assignments) {
+    const experiment = experimentMap.get(item.experiment_id)!;
+    if (experiment.technician_id === item.technician_id) {
+      skipped.push({ experiment_no: experiment.experiment_no, reason: '已分配给该实验员' });
+      continue;
+    }
+
+    let update = supabase
+      .from('experiments')
+      .update({ technician_id: item.technician_id, updated_at: now, updated_by: operatorId })
+      .eq('id', experiment.id)
+      .eq('status', 'pending');
+    update = experiment.technician_id
+      ? update.eq('technician_id', experiment.technician_id)
+      : update.is('technician_id', null);
+
+    const { data: updated, error: updateError } = await update.select('id').maybeSingle();
+    if (updateError) {
+      logger.error('分配实验失败:', updateError);
+      throw new DatabaseError('分配实验失败');
+    }
+    if (!updated) {
+      skipped.push({ experiment_no: experiment.experiment_no, reason: '实验已被其他操作修改' });
+      continue;
+    }
+
+    const urgent = isUrgent(experiment);
+    const workload = workloads.get(item.technician_id)!;
+    assigned.push({
+      experiment_id: experiment.id,
+      experiment_no: experiment.experiment_no,
+      technician: technicianBrief(technicians.get(item.technician_id)!),
+      previous_technician_id: experiment.technician_id,
+      open_workload: workload.workload,
+      is_urgent: urgent
+    });
+    workload.workload += urgent ? config.urgent_weight : 1;
+  }
+
+  if (assigned.length > 0) {
+    const { error: logError } = await supabase
+      .from('experiment_assignments')
+      .insert(assigned.map(item => ({
+        experiment_id: item.experiment_id,
+        technician_id: item.technician.id,
+        previous_technician_id: item.previous_technician_id,
+        assign_mode: mode,
+        open_workload: item.open_workload,
+        is_urgent: item.is_urgent,
+        assigned_by: operatorId,
+        assigned_at: now
+      })));
+
+    if (logError) {
+      logger.error('写入分配记录失败:', logError);
+      throw new DatabaseError('写入分配记录失败');
+    }
+
+    // 按实验员汇总通知
+    for (const technicianId of new Set(assigned.map(item => item.technician.id))) {
+      const items = assigned.filter(item => item.technician.id === technicianId);
+      await createNotification({
+        title: `新分配${EXPERIMENT_METHOD_TEXT[method]}实验${items.length}个`,
+        content: `分配给您的实验：${items.map(item => item.experiment_no).join('、')}`,
+        type: 'experiment_assigned',
+        priority: items.some(item => item.is_urgent) ? 'high' : 'normal',
+        targetUsers: [technicians.get(technicianId)!.user_id],
+        createdBy: operatorId
+      });
+    }
+  }
+
+  logger.info(`实验已分配: ${assigned.length}个，跳过${skipped.length}个`, { mode, operatorId });
+  return { assigned, skipped };
+};
+
+/**
+ * 自动分配实验
+ * @description 按分配建议直接分配
+ * @param filter 筛选条件
+ * @param operatorId 操作人ID
+ * @returns 已分配、被跳过和无法分配的实验
+ */
+export const autoAssignExperiments = async (filter: AssignmentFilter, operatorId?: string) => {
+  const { proposals, unassigned } = await proposeAssignments(filter);
+  if (proposals.length === 0) {
+    return { assigned: [], skipped: [], unassigned };
+  }
+
+  const result = await applyAssignments(
+    filter.method,
+    proposals.map(proposal => ({ experiment_id: proposal.experiment.id, technician_id: proposal.technician.id })),
+    'auto',
+    operatorId
+  );
+  return { ...result, unassigned };
+};
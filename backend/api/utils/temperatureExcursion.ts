@@ -0,0 +1,881 @@
+/**
+ * 存储温度偏离工具函数
+ * 创建时间：2025-08-20
+ * 创建人：Erikwang
+ * 描述：将监控点连续的异常温度读数合并为温度偏离，按样本操作记录还原偏离期间存放在监控单元内的样本及暴露时长，
+ * 质控人员评估受影响样本
+ */
+
+import { supabase } from '../config/database.js';
+import logger from '../config/logger.js';
+import { NotFoundError, ValidationError, ConflictError, DatabaseError } from '../middleware/enhancedErrorHandler.js';
+import { createNotification } from './notification.js';
+import { recordSampleOperation } from './sampleLifecycle.js';
+import { getStorageUnit } from './storageLocation.js';
+
+/**
+ * 偏离检查任务执行间隔（分钟）
+ */
+const EXCURSION_JOB_INTERVAL_MINUTES = Number(process.env.TEMPERATURE_EXCURSION_JOB_INTERVAL_MINUTES) || 10;
+
+/**
+ * 首次检查时回溯的读数时长（小时）
+ */
+const EXCURSION_LOOKBACK_HOURS = Number(process.env.TEMPERATURE_EXCURSION_LOOKBACK_HOURS) || 24;
+
+/**
+ * 单次检查读取的最大读数条数
+ */
+const MAX_READINGS = 5000;
+
+/**
+ * 批量查询样本时每批的数量
+ */
+const SAMPLE_CHUNK_SIZE = 200;
+
+/**
+ * 温度偏离状态
+ */
+export type ExcursionStatus = 'ongoing' | 'pending_assessment' | 'assessed';
+
+/**
+ * 温度偏离状态中文名称
+ */
+export const EXCURSION_STATUS_TEXT: Record<ExcursionStatus, string> = {
+  ongoing: '偏离中',
+  pending_assessment: '待评估',
+  assessed: '已评估'
+};
+
+/**
+ * 样本评估结果
+ */
+export type ExcursionAssessment = 'pending' | 'assessed' | 'unqualified';
+
+/**
+ * 样本评估结果中文名称
+ */
+export const EXCURSION_ASSESSMENT_TEXT: Record<ExcursionAssessment, string> = {
+  pending: '待评估',
+  assessed: '不受影响',
+  unqualified: '不合格'
+};
+
+/**
+ * 温度阈值
+ */
+export interface TemperatureThreshold {
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * 评估受影响样本参数
+ */
+export interface AssessExcursionInput {
+  sampleIds: string[];
+  result: 'assessed' | 'unqualified';
+  comments?: string;
+  operatorId?: string;
+}
+
+/**
+ * 偏离检查任务结果
+ */
+export interface ExcursionScanSummary {
+  points: number;
+  detected: number;
+  updated: number;
+  run_at: string;
+}
+
+/**
+ * 温度读数
+ */
+interface TemperatureReading {
+  measured_at: string;
+  temperature: number | null;
+  is_abnormal: boolean;
+}
+
+/**
+ * 受影响样本记录
+ */
+interface ExcursionSampleRow {
+  id: string;
+  sample_id: string;
+  storage_location: string | null;
+  exposure_start: string;
+  exposure_end: string | null;
+  exposure_minutes: number | null;
+  assessment: ExcursionAssessment;
+  assessment_comments: string | null;
+  assessed_by: string | null;
+  assessed_at: string | null;
+  samples?: {
+    id: string;
+    sample_no: string;
+    barcode: string;
+    status: string;
+    quality_status: string | null;
+    storage_location: string | null;
+    storage_temperature: string | null;
+    sample_types?: { id: string; name: string } | null;
+  } | null;
+}
+
+/**
+ * 温度偏离详情查询字段
+ */
+const EXCURSION_DETAIL_FIELDS = `
+  *,
+  monitoring_points(
+    id,
+    point_no,
+    name,
+    location
+  ),
+  storage_units(
+    id,
+    path,
+    name,
+    unit_type,
+    temperature_class
+  ),
+  temperature_excursion_samples(
+    id,
+    sample_id,
+    storage_location,
+    exposure_start,
+    exposure_end,
+    exposure_minutes,
+    assessment,
+    assessment_comments,
+    assessed_by,
+    assessed_at,
+    samples(
+      id,
+      sample_no,
+      barcode,
+      status,
+      quality_status,
+      storage_location,
+      storage_temperature,
+      sample_types(
+        id,
+        name
+      )
+    )
+  )
+`;
+
+/**
+ * 解析监控点温度阈值
+ * @description 阈值配置格式为 {"temperature": {"min": -90, "max": -70}}，未配置的上下限为 null
+ * @param thresholds 监控点阈值配置
+ * @returns 温度阈值，未配置温度阈值时返回 null
+ */
+export const parseTemperatureThreshold = (thresholds: unknown): TemperatureThreshold | null => {
+  const config = (thresholds as { temperature?: { min?: unknown; max?: unknown } } | null | undefined)?.temperature;
+  if (!config || typeof config !== 'object') {
+    return null;
+  }
+
+  const min = config.min !== undefined && config.min !== null && config.min !== '' ? Number(config.min) : null;
+  const max = config.max !== undefined && config.max !== null && config.max !== '' ? Number(config.max) : null;
+  if ((min === null || isNaN(min)) && (max === null || isNaN(max))) {
+    return null;
+  }
+
+  return { min: min !== null && !isNaN(min) ? min : null, max: max !== null && !isNaN(max) ? max : null };
+};
+
+/**
+ * 计算温度偏离值
+ * @param temperature 温度
+ * @param threshold 温度阈值
+ * @returns 高于上限为正，低于下限为负，在范围内为 0
+ */
+export const temperatureDeviation = (temperature: number, threshold: TemperatureThreshold): number => {
+  if (threshold.max !== null && temperature > threshold.max) {
+    return temperature - threshold.max;
+  }
+  if (threshold.min !== null && temperature < threshold.min) {
+    return temperature - threshold.min;
+  }
+  return 0;
+};
+
+/**
+ * 判断存储位置是否在存储单元内
+ * @param location 存储位置，如 F01/S2/R3/B04:A1
+ * @param unitPath 存储单元位置编码
+ * @returns 是否在单元内
+ */
+const isLocationInUnit = (location: string | null | undefined, unitPath: string): boolean => {
+  if (!location) {
+    return false;
+  }
+  return location === unitPath || location.startsWith(`${unitPath}/`) || location.startsWith(`${unitPath}:`);
+};
+
+/**
+ * 生成温度偏离编号
+ * @returns 偏离编号
+ */
+const generateExcursionNo = async (): Promise<string> => {
+  const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+  const { data, error } = await supabase
+    .from('temperature_excursions')
+    .select('excursion_no')
+    .like('excursion_no', `TE${dateStr}%`)
+    .order('excursion_no', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    logger.error('生成温度偏离编号失败:', error);
+    throw new DatabaseError('生成温度偏离编号失败');
+  }
+
+  const last = data?.[0]?.excursion_no ? Number(data[0].excursion_no.slice(-3)) : 0;
+  return `TE${dateStr}${String(last + 1).padStart(3, '0')}`;
+};
+
+/**
+ * 将读数按连续异常分段
+ * @description 每段从首个异常读数开始，到其后首个正常读数结束；读数末尾仍异常的段结束时间为空
+ * @param readings 按时间升序的读数
+ * @returns 偏离段
+ */
+const splitExcursionRuns = (readings: TemperatureReading[]) => {
+  const runs: { startedAt: string; endedAt: string | null; readings: TemperatureReading[] }[] = [];
+  let current: (typeof runs)[number] | null = null;
+
+  for (const reading of readings) {
+    if (reading.is_abnormal) {
+      if (!current) {
+        current = { startedAt: reading.measured_at, endedAt: null, readings: [] };
+        runs.push(current);
+      }
+      current.readings.push(reading);
+    } else if (current) {
+      current.endedAt = reading.measured_at;
+      current = null;
+    }
+  }
+
+  return runs;
+};
+
+/**
+ * 计算偏离峰值
+ * @description 有温度阈值时取偏离阈值最远的读数，否则取最高温度
+ * @param readings 偏离期间的读数
+ * @param threshold 温度阈值
+ * @returns 峰值温度和峰值偏离
+ */
+const findPeak = (readings: TemperatureReading[], threshold: TemperatureThreshold | null) => {
+  let peakTemperature: number | null = null;
+  let peakDeviation: number | null = null;
+
+  for (const reading of readings) {
+    if (reading.temperature === null || reading.temperature === undefined) {
+      continue;
+    }
+    const temperature = Number(reading.temperature);
+
+    if (threshold) {
+      const deviation = temperatureDeviation(temperature, threshold);
+      if (peakDeviation === null || Math.abs(deviation) > Math.abs(peakDeviation)) {
+        peakDeviation = deviation;
+        peakTemperature = temperature;
+      }
+    } else if (peakTemperature === null || temperature > peakTemperature) {
+      peakTemperature = temperature;
+    }
+  }
+
+  return { peakTemperature, peakDeviation };
+};
+
+/**
+ * 刷新温度偏离的评估状态
+ * @description 汇总受影响、已评估和不合格样本数；偏离结束且样本全部评估后为已评估
+ * @param excursionId 温度偏离ID
+ */
+const refreshExcursionStatus = async (excursionId: string): Promise<void> => {
+  const { data: excursion, error: excursionError } = await supabase
+    .from('temperature_excursions')
+    .select('id, ended_at')
+    .eq('id', excursionId)
+    .single();
+
+  const { data: samples, error: sampleError } = await supabase
+    .from('temperature_excursion_samples')
+    .select('assessment')
+    .eq('excursion_id', excursionId);
+
+  if (excursionError || sampleError || !excursion) {
+    logger.error('获取温度偏离评估情况失败:', excursionError || sampleError);
+    return;
+  }
+
+  const rows = samples || [];
+  const assessedCount = rows.filter(row => row.assessment !== 'pending').length;
+  const status: ExcursionStatus = !excursion.ended_at
+    ? 'ongoing'
+    : assessedCount === rows.length ? 'assessed' : 'pending_assessment';
+
+  const { error } = await supabase
+    .from('temperature_excursions')
+    .update({
+      status,
+      affected_count: rows.length,
+      assessed_count: assessedCount,
+      unqualified_count: rows.filter(row => row.assessment === 'unqualified').length,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', excursionId);
+
+  if (error) {
+    logger.error('更新温度偏离状态失败:', error);
+  }
+};
+
+/**
+ * 查找偏离期间存放在存储单元内的样本
+ * @description 按样本操作记录还原每个样本的位置和状态变化，只有在库且位置在单元内的时段计入暴露；
+ * 没有操作记录的在库样本按孔位存放时间计算
+ * @param unitPath 存储单元位置编码
+ * @param windowStart 偏离开始时间
+ * @param windowEnd 偏离结束时间，进行中的偏离为当前时间
+ * @param ongoing 偏离是否仍在进行
+ * @returns 受影响样本及暴露时段
+ */
+const findExposedSamples = async (
+  unitPath: string,
+  windowStart: string,
+  windowEnd: string,
+  ongoing: boolean
+) => {
+  // 偏离结束前进出过该单元的样本
+  const { data: operations, error: operationError } = await supabase
+    .from('sample_operations')
+    .select('sample_id')
+    .lte('operation_time', windowEnd)
+    .or([
+      `to_location.eq.${unitPath}`,
+      `to_location.like.${unitPath}/*`,
+      `to_location.like.${unitPath}:*`,
+      `from_location.like.${unitPath}/*`,
+      `from_location.like.${unitPath}:*`
+    ].join(','));
+
+  if (operationError) {
+    logger.error('获取样本位置记录失败:', operationError);
+    throw new DatabaseError('获取样本位置记录失败');
+  }
+
+  // 当前存放在该单元冻存盒中的样本
+  const { data: boxes, error: boxError } = await supabase
+    .from('storage_units')
+    .select('id')
+    .eq('unit_type', 'box')
+    .or(`path.eq.${unitPath},path.like.${unitPath}/*`);
+
+  if (boxError) {
+    logger.error('获取存储单元冻存盒失败:', boxError);
+    throw new DatabaseError('获取存储单元冻存盒失败');
+  }
+
+  const positions = new Map<string, string>();
+  const boxIds = (boxes || []).map(box => box.id);
+  for (let i = 0; i < boxIds.length; i += SAMPLE_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('sample_storage_positions')
+      .select('sample_id, stored_at')
+      .in('box_id', boxIds.slice(i, i + SAMPLE_CHUNK_SIZE))
+      .lte('stored_at', windowEnd);
+
+    if (error) {
+      logger.error('获取孔位占用失败:', error);
+      throw new DatabaseError('获取孔位占用失败');
+    }
+    (data || []).forEach(row => positions.set(row.sample_id, row.stored_at));
+  }
+
+  const sampleIds = [...new Set([...(operations || []).map(op => op.sample_id), ...positions.keys()])];
+  const windowStartMs = Date.parse(windowStart);
+  const windowEndMs = Date.parse(windowEnd);
+  const exposed: {
+    sample_id: string;
+    storage_location: string | null;
+    exposure_start: string;
+    exposure_end: string | null;
+    exposure_minutes: number;
+  }[] = [];
+
+  for (let i = 0; i < sampleIds.length; i += SAMPLE_CHUNK_SIZE) {
+    const chunk = sampleIds.slice(i, i + SAMPLE_CHUNK_SIZE);
+
+    const [{ data: history, error: historyError }, { data: samples, error: sampleError }] = await Promise.all([
+      supabase
+        .from('sample_operations')
+        .select('sample_id, operation_time, from_status, to_status, from_location, to_location')
+        .in('sample_id', chunk)
+        .lte('operation_time', windowEnd)
+        .order('operation_time', { ascending: true }),
+      supabase
+        .from('samples')
+        .select('id, status, storage_location')
+        .in('id', chunk)
+    ]);
+
+    if (historyError || sampleError) {
+      logger.error('获取样本操作记录失败:', historyError || sampleError);
+      throw new DatabaseError('获取样本操作记录失败');
+    }
+
+    const historyBySample = new Map<string, NonNullable<typeof history>>();
+    (history || []).forEach(op => {
+      historyBySample.set(op.sample_id, [...(historyBySample.get(op.sample_id) || []), op]);
+    });
+
+    for (const sample of samples || []) {
+      const ops = historyBySample.get(sample.id) || [];
+
+      // 样本所处的时段：[开始, 结束) 及其位置和状态
+      const segments: { start: number; end: number; location: string | null; status: string | null }[] = [];
+      if (ops.length > 0) {
+        let location: string | null = ops[0].from_location ?? null;
+        let status: string | null = ops[0].from_status ?? null;
+        let start = -Infinity;
+        for (const op of ops) {
+          const time = Date.parse(op.operation_time);
+          segments.push({ start, end: time, location, status });
+          location = op.to_location ?? location;
+          status = op.to_status ?? status;
+          start = time;
+        }
+        segments.push({ start, end: Infinity, location, status });
+      } else if (positions.has(sample.id)) {
+        segments.push({
+          start: Date.parse(positions.get(sample.id)!),
+          end: Infinity,
+          location: sample.storage_location,
+          status: sample.status
+        });
+      }
+
+      let exposureStart: number | null = null;
+      let exposureEnd: number | null = null;
+      let exposureMs = 0;
+      let exposureLocation: string | null = null;
+      let stillInside = false;
+
+      for (const segment of segments) {
+        if (segment.status !== 'in_storage' || !isLocationInUnit(segment.location, unitPath)) {
+          continue;
+        }
+        const start = Math.max(segment.start, windowStartMs);
+        const end = Math.min(segment.end, windowEndMs);
+        if (end < start) {
+          continue;
+        }
+        exposureStart = exposureStart === null ? start : Math.min(exposureStart, start);
+        exposureEnd = exposureEnd === null ? end : Math.max(exposureEnd, end);
+        exposureMs += end - start;
+        exposureLocation = exposureLocation ?? segment.location;
+        stillInside = segment.end === Infinity;
+      }
+
+      if (exposureStart === null || exposureEnd === null) {
+        continue;
+      }
+
+      exposed.push({
+        sample_id: sample.id,
+        storage_location: exposureLocation,
+        exposure_start: new Date(exposureStart).toISOString(),
+        exposure_end: ongoing && stillInside ? null : new Date(exposureEnd).toISOString(),
+        exposure_minutes: Math.round(exposureMs / 60000)
+      });
+    }
+  }
+
+  return exposed;
+};
+
+/**
+ * 关联温度偏离受影响样本
+ * @description 重新计算暴露时段并写入受影响样本；已有的评估结果保留
+ * @param excursion 温度偏离
+ * @param unitPath 存储单元位置编码
+ * @returns 受影响样本数
+ */
+const linkExcursionSamples = async (
+  excursion: { id: string; started_at: string; ended_at: string | null },
+  unitPath: string
+): Promise<number> => {
+  const exposed = await findExposedSamples(
+    unitPath,
+    excursion.started_at,
+    excursion.ended_at || new Date().toISOString(),
+    !excursion.ended_at
+  );
+
+  if (exposed.length > 0) {
+    const { error } = await supabase
+      .from('temperature_excursion_samples')
+      .upsert(
+        exposed.map(row => ({ excursion_id: excursion.id, ...row })),
+        { onConflict: 'excursion_id,sample_id' }
+      );
+
+    if (error) {
+      logger.error('保存温度偏离受影响样本失败:', error);
+      throw new DatabaseError('保存温度偏离受影响样本失败');
+    }
+  }
+
+  await refreshExcursionStatus(excursion.id);
+  return exposed.length;
+};
+
+/**
+ * 检查单个监控点的温度偏离
+ * @description 从进行中偏离的开始时间（或上次偏离的结束时间）起读取读数，进行中的偏离按新读数延长或结束，
+ * 新出现的连续异常读数生成新的偏离并通知相关人员
+ * @param point 监控点
+ * @returns 新建和更新的偏离数
+ */
+const scanPointExcursions = async (point: {
+  id: string;
+  point_no: string;
+  name: string;
+  thresholds: unknown;
+  storage_unit_id: string;
+}) => {
+  const unit = await getStorageUnit(point.storage_unit_id);
+  const threshold = parseTemperatureThreshold(point.thresholds);
+
+  const { data: latest, error: latestError } = await supabase
+    .from('temperature_excursions')
+    .select('id, excursion_no, started_at, ended_at')
+    .eq('point_id', point.id)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    logger.error('获取温度偏离失败:', latestError);
+    throw new DatabaseError('获取温度偏离失败');
+  }
+
+  const ongoing = latest && !latest.ended_at ? latest : null;
+  const since = ongoing?.started_at
+    || latest?.ended_at
+    || new Date(Date.now() - EXCURSION_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { data: readings, error: readingError } = await supabase
+    .from('environmental_data')
+    .select('measured_at, temperature, is_abnormal')
+    .eq('point_id', point.id)
+    .gte('measured_at', since)
+    .order('measured_at', { ascending: true })
+    .limit(MAX_READINGS);
+
+  if (readingError) {
+    logger.error('获取环境数据失败:', readingError);
+    throw new DatabaseError('获取环境数据失败');
+  }
+
+  const runs = splitExcursionRuns((readings || []) as TemperatureReading[]);
+  let detected = 0;
+  let updated = 0;
+
+  for (const run of runs) {
+    const { peakTemperature, peakDeviation } = findPeak(run.readings, threshold);
+    const values = {
+      ended_at: run.endedAt,
+      reading_count: run.readings.length,
+      threshold_min: threshold?.min ?? null,
+      threshold_max: threshold?.max ?? null,
+      peak_temperature: peakTemperature,
+      peak_deviation: peakDeviation,
+      updated_at: new Date().toISOString()
+    };
+
+    if (ongoing && run.startedAt === ongoing.started_at) {
+      const { error } = await supabase
+        .from('temperature_excursions')
+        .update(values)
+        .eq('id', ongoing.id);
+
+      if (error) {
+        logger.error('更新温度偏离失败:', error);
+        throw new DatabaseError('更新温度偏离失败');
+      }
+
+      await linkExcursionSamples({ id: ongoing.id, started_at: ongoing.started_at, ended_at: run.endedAt }, unit.path);
+      updated += 1;
+      continue;
+    }
+
+    const excursionNo = await generateExcursionNo();
+    const { data: excursion, error } = await supabase
+      .from('temperature_excursions')
+      .insert({
+        excursion_no: excursionNo,
+        point_id: point.id,
+        storage_unit_id: unit.id,
+        started_at: run.startedAt,
+        ...values
+      })
+      .select()
+      .single();
+
+    if (error || !excursion) {
+      if (error?.code === '23505') {
+        logger.warn(`温度偏离已存在，跳过: ${point.point_no} ${run.startedAt}`);
+        continue;
+      }
+      logger.error('创建温度偏离失败:', error);
+      throw new DatabaseError('创建温度偏离失败');
+    }
+
+    const affected = await linkExcursionSamples(excursion, unit.path);
+    detected += 1;
+
+    await createNotification({
+      title: `存储温度偏离：${unit.path} ${unit.name}`,
+      content: `监控点 ${point.point_no}（${point.name}）自 ${new Date(run.startedAt).toLocaleString('zh-CN')} 起温度异常`
+        + `${peakTemperature !== null ? `，峰值 ${peakTemperature}℃` : ''}`
+        + `${peakDeviation !== null ? `（偏离 ${peakDeviation > 0 ? '+' : ''}${peakDeviation.toFixed(2)}℃）` : ''}`
+        + `，受影响样本${affected}个，请在偏离结束后完成影响评估`,
+      type: 'temperature_excursion',
+      priority: 'urgent',
+      targetRoles: ['sample_manager', 'quality_controller', 'lab_manager']
+    });
+  }
+
+  // 进行中的偏离没有新读数时仍按当前时间延长暴露时长
+  if (ongoing && !runs.some(run => run.startedAt === ongoing.started_at)) {
+    await linkExcursionSamples(ongoing, unit.path);
+    updated += 1;
+  }
+
+  return { detected, updated };
+};
+
+/**
+ * 执行温度偏离检查
+ * @description 检查所有关联了存储单元的启用监控点，单个监控点失败不影响其他监控点
+ * @returns 检查结果
+ */
+export const scanTemperatureExcursions = async (): Promise<ExcursionScanSummary> => {
+  const { data: points, error } = await supabase
+    .from('monitoring_points')
+    .select('id, point_no, name, thresholds, storage_unit_id')
+    .eq('is_active', true)
+    .not('storage_unit_id', 'is', null);
+
+  if (error) {
+    logger.error('获取监控点失败:', error);
+    throw new DatabaseError('获取监控点失败');
+  }
+
+  let detected = 0;
+  let updated = 0;
+  for (const point of points || []) {
+    try {
+      const result = await scanPointExcursions(point);
+      detected += result.detected;
+      updated += result.updated;
+    } catch (scanError) {
+      logger.error(`监控点温度偏离检查失败: ${point.point_no}`, scanError);
+    }
+  }
+
+  logger.info(`温度偏离检查完成: 监控点${points?.length || 0}个，新偏离${detected}次，更新${updated}次`);
+  return { points: points?.length || 0, detected, updated, run_at: new Date().toISOString() };
+};
+
+/**
+ * 启动温度偏离检查定时任务
+ * @description 启动后立即执行一次，之后按 TEMPERATURE_EXCURSION_JOB_INTERVAL_MINUTES 间隔执行；
+ * 无常驻进程的部署方式通过偏离检查接口由外部调度触发
+ * @returns 定时器
+ */
+export const startExcursionScanScheduler = () => {
+  const run = () => {
+    scanTemperatureExcursions().catch(error => logger.error('温度偏离检查失败:', error));
+  };
+
+  run();
+  const timer = setInterval(run, EXCURSION_JOB_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+  return timer;
+};
+
+/**
+ * 获取温度偏离详情
+ * @param excursionId 温度偏离ID
+ * @returns 温度偏离及受影响样本
+ */
+export const getTemperatureExcursion = async (excursionId: string) => {
+  const { data, error } = await supabase
+    .from('temperature_excursions')
+    .select(EXCURSION_DETAIL_FIELDS)
+    .eq('id', excursionId)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('温度偏离不存在');
+  }
+
+  return data;
+};
+
+/**
+ * 关联监控点与存储单元
+ * @param pointId 监控点ID
+ * @param storageUnitId 存储单元ID，为 null 时取消关联
+ * @param operatorId 操作人ID
+ * @returns 更新后的监控点
+ */
+export const linkMonitoringPoint = async (pointId: string, storageUnitId: string | null, operatorId?: string) => {
+  if (storageUnitId) {
+    await getStorageUnit(storageUnitId);
+  }
+
+  const { data, error } = await supabase
+    .from('monitoring_points')
+    .update({
+      storage_unit_id: storageUnitId,
+      updated_at: new Date().toISOString(),
+      updated_by: operatorId
+    })
+    .eq('id', pointId)
+    .select('id, point_no, name, location, thresholds, is_active, storage_unit_id, storage_units(id, path, name)')
+    .single();
+
+  if (error || !data) {
+    if (error?.code === 'PGRST116') {
+      throw new NotFoundError('监控点不存在');
+    }
+    logger.error('关联监控点失败:', error);
+    throw new DatabaseError('关联监控点失败');
+  }
+
+  logger.info(`监控点已关联存储单元: ${data.point_no} -> ${storageUnitId || '无'}`, { operatorId });
+  return data;
+};
+
+/**
+ * 评估温度偏离受影响样本
+ * @description 偏离结束后才能评估；只能评估待评估的样本。评为不合格的样本质量状态改为不合格并通知样本管理员；
+ * 每个样本写入评估操作记录
+ * @param excursionId 温度偏离ID
+ * @param input 评估参数
+ * @returns 温度偏离详情
+ */
+export const assessExcursionSamples = async (excursionId: string, input: AssessExcursionInput) => {
+  const { sampleIds, result, comments, operatorId } = input;
+  const excursion = await getTemperatureExcursion(excursionId);
+
+  if (!excursion.ended_at) {
+    throw new ConflictError('温度偏离尚未结束，暴露时长未确定，不能评估');
+  }
+  if (result === 'unqualified' && !comments) {
+    throw new ValidationError('评为不合格时必须填写评估意见');
+  }
+
+  const rows: ExcursionSampleRow[] = excursion.temperature_excursion_samples || [];
+  const targets = rows.filter(row => sampleIds.includes(row.sample_id));
+  const missing = sampleIds.filter(id => !targets.some(row => row.sample_id === id));
+  if (missing.length > 0) {
+    throw new ValidationError('部分样本不在该温度偏离的受影响样本中', { sample_ids: missing });
+  }
+
+  const assessed = targets.filter(row => row.assessment !== 'pending');
+  if (assessed.length > 0) {
+    throw new ConflictError('部分样本已评估', {
+      samples: assessed.map(row => ({
+        sample_no: row.samples?.sample_no,
+        assessment: EXCURSION_ASSESSMENT_TEXT[row.assessment]
+      }))
+    });
+  }
+
+  const now = new Date().toISOString();
+  const { data: updated, error } = await supabase
+    .from('temperature_excursion_samples')
+    .update({
+      assessment: result,
+      assessment_comments: comments || null,
+      assessed_by: operatorId,
+      assessed_at: now
+    })
+    .in('id', targets.map(row => row.id))
+    .eq('assessment', 'pending')
+    .select('id');
+
+  if (error) {
+    logger.error('评估受影响样本失败:', error);
+    throw new DatabaseError('评估受影响样本失败');
+  }
+  if ((updated || []).length !== targets.length) {
+    logger.warn(`部分受影响样本已被其他操作评估: ${excursion.excursion_no}`);
+  }
+
+  if (result === 'unqualified') {
+    const { error: qualityError } = await supabase
+      .from('samples')
+      .update({ quality_status: 'unqualified', updated_at: now, updated_by: operatorId })
+      .in('id', sampleIds);
+
+    if (qualityError) {
+      logger.error('更新样本质量状态失败:', qualityError);
+      throw new DatabaseError('更新样本质量状态失败');
+    }
+  }
+
+  const deviation = excursion.peak_deviation !== null && excursion.peak_deviation !== undefined
+    ? `，峰值偏离 ${excursion.peak_deviation}℃`
+    : '';
+  for (const row of targets) {
+    try {
+      await recordSampleOperation({
+        sampleId: row.sample_id,
+        operationType: 'excursion_assess',
+        description: `温度偏离 ${excursion.excursion_no} 评估：${EXCURSION_ASSESSMENT_TEXT[result]}（暴露 ${row.exposure_minutes} 分钟${deviation}）`,
+        fromStatus: row.samples?.status,
+        toStatus: row.samples?.status,
+        fromLocation: row.storage_location,
+        toLocation: row.samples?.storage_location ?? row.storage_location,
+        operatorId,
+        remarks: comments
+      });
+    } catch (operationError) {
+      logger.error(`写入温度偏离评估记录失败: ${row.sample_id}`, operationError);
+    }
+  }
+
+  if (result === 'unqualified') {
+    await createNotification({
+      title: `温度偏离样本不合格：${excursion.excursion_no}`,
+      content: `${targets.map(row => row.samples?.sample_no).join('、')} 评估为不合格，评估意见：${comments}`,
+      type: 'temperature_excursion_unqualified',
+      priority: 'high',
+      targetRoles: ['sample_manager', 'lab_manager'],
+      createdBy: operatorId
+    });
+  }
+
+  await refreshExcursionStatus(excursionId);
+
+  logger.info(`温度偏离样本已评估: ${excursion.excursion_no} ${result} ${targets.length}个`, { operatorId });
+  return getTemperatureExcursion(excursionId);
+};
@@ -0,0 +1,108 @@
+/**
+ * 校准曲线图
+ * 绘制校准品浓度-响应散点和拟合曲线，剔除的校准品画空心点，回算准确度不合格的画红点
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React from 'react'
+import type { CalibrationPoint } from '../services/calibrationService'
+
+interface CalibrationCurveChartProps {
+  points: CalibrationPoint[]
+  coefficients: { intercept: number; slope: number; quadratic: number }
+  unit?: string
+  height?: number
+}
+
+const CalibrationCurveChart: React.FC<CalibrationCurveChartProps> = ({ points, coefficients, unit, height = 300 }) => {
+  const width = 600
+  const padding = { top: 16, right: 16, bottom: 40, left: 64 }
+  const plotWidth = width - padding.left - padding.right
+  const plotHeight = height - padding.top - padding.bottom
+
+  const predict = (x: number) => coefficients.quadratic * x * x + coefficients.slope * x + coefficients.intercept
+  const maxX = Math.max(...points.map(point => Number(point.nominal_concentration)), 1) * 1.05
+  const curve = Array.from({ length: 51 }, (_, i) => {
+    const x = (maxX * i) / 50
+    return { x, y: predict(x) }
+  })
+  const responses = [...points.map(point => Number(point.response)), ...curve.map(point => point.y)]
+  const minY = Math.min(0, ...responses)
+  const maxY = Math.max(...responses) * 1.05 || 1
+
+  const toX = (x: number) => padding.left + (x / maxX) * plotWidth
+  const toY = (y: number) => padding.top + plotHeight - ((y - minY) / (maxY - minY)) * plotHeight
+  const formatTick = (value: number) => Number(value.toPrecision(3)).toString()
+  const ticks = [0, 0.25, 0.5, 0.75, 1]
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className='w-full h-auto' role='img'>
+      <rect x={padding.left} y={padding.top} width={plotWidth} height={plotHeight} fill='#ffffff' stroke='#e5e7eb' />
+
+      {/* 坐标刻度 */}
+      {ticks.map(ratio => (
+        <g key={ratio}>
+          <line
+            x1={toX(maxX * ratio)}
+            x2={toX(maxX * ratio)}
+            y1={padding.top}
+            y2={padding.top + plotHeight}
+            stroke='#f3f4f6'
+          />
+          <text x={toX(maxX * ratio)} y={height - padding.bottom + 14} fontSize={10} fill='#6b7280' textAnchor='middle'>
+            {formatTick(maxX * ratio)}
+          </text>
+          <line
+            x1={padding.left}
+            x2={padding.left + plotWidth}
+            y1={toY(minY + (maxY - minY) * ratio)}
+            y2={toY(minY + (maxY - minY) * ratio)}
+            stroke='#f3f4f6'
+          />
+          <text
+            x={padding.left - 6}
+            y={toY(minY + (maxY - minY) * ratio) + 3}
+            fontSize={10}
+            fill='#6b7280'
+            textAnchor='end'
+          >
+            {formatTick(minY + (maxY - minY) * ratio)}
+          </text>
+        </g>
+      ))}
+      <text x={padding.left + plotWidth / 2} y={height - 6} fontSize={11} fill='#374151' textAnchor='middle'>
+        浓度{unit ? `（${unit}）` : ''}
+      </text>
+
+      {/* 拟合曲线 */}
+      <polyline
+        fill='none'
+        stroke='#2563eb'
+        strokeWidth={1.5}
+        points={curve.map(point => `${toX(point.x)},${toY(point.y)}`).join(' ')}
+      />
+
+      {/* 校准品 */}
+      {points.map(point => (
+        <circle
+          key={`${point.level}-${point.sort_order}`}
+          cx={toX(Number(point.nominal_concentration))}
+          cy={toY(Number(point.response))}
+          r={4}
+          fill={point.is_excluded ? '#ffffff' : point.passed ? '#16a34a' : '#dc2626'}
+          stroke={point.is_excluded ? '#9ca3af' : '#ffffff'}
+          strokeWidth={1.5}
+        >
+          <title>
+            {`${point.level}  标示浓度 ${point.nominal_concentration}  响应 ${formatTick(Number(point.response))}`
+              + (point.accuracy !== null ? `\n回算准确度 ${point.accuracy}%` : '')
+              + (point.is_excluded ? '\n已剔除' : '')}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+
+export default CalibrationCurveChart
@@ -0,0 +1,264 @@
+/**
+ * 化合物表单
+ * 维护化合物库中的分子式、单同位素质量、预期保留时间和可能的加合离子
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect } from 'react'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../lib/http'
+import Modal from './Modal'
+import { CompoundService, type AdductOption, type Compound, type CompoundInput } from '../services/compoundService'
+
+// 表单中的数值以文本编辑
+interface CompoundFormState {
+  name: string
+  formula: string
+  monoisotopic_mass: string
+  expected_rt: string
+  adducts: string[]
+  cas_no: string
+  category: string
+  is_active: boolean
+  remarks: string
+}
+
+const emptyCompound: CompoundFormState = {
+  name: '',
+  formula: '',
+  monoisotopic_mass: '',
+  expected_rt: '',
+  adducts: ['[M+H]+'],
+  cas_no: '',
+  category: '',
+  is_active: true,
+  remarks: '',
+}
+
+interface CompoundFormProps {
+  open: boolean
+  compound?: Compound | null
+  adducts: AdductOption[]
+  onClose: () => void
+  onSaved: (compound: Compound) => void
+}
+
+const CompoundForm: React.FC<CompoundFormProps> = ({ open, compound, adducts, onClose, onSaved }) => {
+  const [form, setForm] = useState<CompoundFormState>(emptyCompound)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setForm(
+      compound
+        ? {
+          name: compound.name,
+          formula: compound.formula,
+          monoisotopic_mass: String(Number(compound.monoisotopic_mass)),
+          expected_rt: compound.expected_rt != null ? String(Number(compound.expected_rt)) : '',
+          adducts: compound.adducts || [],
+          cas_no: compound.cas_no || '',
+          category: compound.category || '',
+          is_active: compound.is_active,
+          remarks: compound.remarks || '',
+        }
+        : emptyCompound
+    )
+  }, [open, compound])
+
+  const update = (changes: Partial<CompoundFormState>) => {
+    setForm(prev => ({ ...prev, ...changes }))
+  }
+
+  const toggleAdduct = (adduct: string) => {
+    update({
+      adducts: form.adducts.includes(adduct)
+        ? form.adducts.filter(item => item !== adduct)
+        : [...form.adducts, adduct],
+    })
+  }
+
+  // 保存化合物
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!(Number(form.monoisotopic_mass) > 0)) {
+      toast.error('请填写大于0的单同位素质量')
+      return
+    }
+    if (form.adducts.length === 0) {
+      toast.error('至少选择一种加合离子')
+      return
+    }
+
+    const payload: CompoundInput = {
+      name: form.name.trim(),
+      formula: form.formula.trim(),
+      monoisotopic_mass: Number(form.monoisotopic_mass),
+      expected_rt: form.expected_rt === '' ? null : Number(form.expected_rt),
+      adducts: form.adducts,
+      cas_no: form.cas_no || null,
+      category: form.category || null,
+      is_active: form.is_active,
+      remarks: form.remarks || null,
+    }
+
+    try {
+      setSaving(true)
+      const saved = compound
+        ? await CompoundService.updateCompound(compound.id, payload)
+        : await CompoundService.createCompound(payload)
+      toast.success(compound ? '化合物已更新' : '化合物已创建')
+      onSaved(saved)
+    } catch (error: unknown) {
+      console.error('保存化合物失败:', error)
+      toast.error(getApiErrorMessage(error, '保存化合物失败'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <Modal open={open} onClose={onClose} title={compound ? '编辑化合物' : '新增化合物'} size='large'>
+      <form onSubmit={handleSubmit} className='space-y-4'>
+        <div className='grid grid-cols-2 md:grid-cols-3 gap-3'>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>
+              化合物名称<span className='text-red-500 ml-0.5'>*</span>
+            </label>
+            <input
+              type='text'
+              required
+              maxLength={200}
+              value={form.name}
+              onChange={e => update({ name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>
+              分子式<span className='text-red-500 ml-0.5'>*</span>
+            </label>
+            <input
+              type='text'
+              required
+              maxLength={100}
+              value={form.formula}
+              onChange={e => update({ formula: e.target.value })}
+              placeholder='如：C8H10N4O2'
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>
+              单同位素质量（Da）<span className='text-red-500 ml-0.5'>*</span>
+            </label>
+            <input
+              type='number'
+              required
+              step='any'
+              min={0}
+              value={form.monoisotopic_mass}
+              onChange={e => update({ monoisotopic_mass: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>预期保留时间（分钟）</label>
+            <input
+              type='number'
+              step='any'
+              min={0}
+              value={form.expected_rt}
+              onChange={e => update({ expected_rt: e.target.value })}
+              placeholder='为空时不比对保留时间'
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>CAS号</label>
+            <input
+              type='text'
+              maxLength={30}
+              value={form.cas_no}
+              onChange={e => update({ cas_no: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>分类</label>
+            <input
+              type='text'
+              maxLength={100}
+              value={form.category}
+              onChange={e => update({ category: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className='block text-xs font-medium text-gray-700 mb-2'>
+            加合离子<span className='text-red-500 ml-0.5'>*</span>
+          </label>
+          <div className='flex flex-wrap gap-3'>
+            {adducts.map(option => (
+              <label key={option.adduct} className='flex items-center text-sm text-gray-700'>
+                <input
+                  type='checkbox'
+                  checked={form.adducts.includes(option.adduct)}
+                  onChange={() => toggleAdduct(option.adduct)}
+                  className='rounded border-gray-300 mr-1.5'
+                />
+                <span className='font-mono'>{option.adduct}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className='block text-xs font-medium text-gray-700 mb-1'>备注</label>
+          <input
+            type='text'
+            maxLength={500}
+            value={form.remarks}
+            onChange={e => update({ remarks: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+
+        <label className='flex items-center text-sm text-gray-700'>
+          <input
+            type='checkbox'
+            checked={form.is_active}
+            onChange={e => update({ is_active: e.target.checked })}
+            className='rounded border-gray-300 mr-2'
+          />
+          启用（参与比对）
+        </label>
+
+        <div className='flex justify-end space-x-3 pt-2 border-t'>
+          <button
+            type='button'
+            onClick={onClose}
+            className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+          >
+            取消
+          </button>
+          <button
+            type='submit'
+            disabled={saving}
+            className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+          >
+            {saving ? '保存中...' : '保存'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default CompoundForm
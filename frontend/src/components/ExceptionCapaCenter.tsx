@@ -0,0 +1,1252 @@
+/**
+ * 实验异常与CAPA处理组件
+ * 按实验方法登记和查看实验异常，指派调查、记录根本原因，制定并跟踪纠正/预防措施，验证有效后签字关闭，可导出CAPA台账
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Filter, Plus, Download, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage, getApiErrorDetails } from '../lib/http'
+import DataTable from './DataTable'
+import Modal from './Modal'
+import { useAuthStore } from '../stores/auth'
+import {
+  ExperimentService,
+  type Experiment,
+  type ExperimentMethod,
+} from '../services/experimentService'
+import {
+  ExceptionService,
+  type ExceptionRecord,
+  type ExceptionAction,
+  type ExceptionStatus,
+  type ExceptionSeverity,
+  type ExceptionActionType,
+  type ExceptionActionStatus,
+  type UserBrief,
+} from '../services/exceptionService'
+
+// 可指派调查、取消措施、签字关闭的角色
+const managerRoles = ['admin', 'lab_manager']
+
+// 可做有效性验证的角色
+const effectivenessRoles = ['admin', 'lab_manager', 'quality_controller']
+
+// 未关闭的异常状态
+const openStatuses: ExceptionStatus[] = ['open', 'investigating', 'action', 'verification']
+
+// 异常状态配置
+const statusConfig: Record<ExceptionStatus, { label: string; className: string }> = {
+  open: { label: '待指派', className: 'bg-red-100 text-red-800' },
+  investigating: { label: '调查中', className: 'bg-yellow-100 text-yellow-800' },
+  action: { label: '整改中', className: 'bg-blue-100 text-blue-800' },
+  verification: { label: '待验证', className: 'bg-purple-100 text-purple-800' },
+  closed: { label: '已关闭', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: '已取消', className: 'bg-gray-100 text-gray-600' },
+}
+
+// 严重程度配置
+const severityConfig: Record<ExceptionSeverity, { label: string; className: string }> = {
+  low: { label: '低', className: 'bg-green-100 text-green-800' },
+  medium: { label: '中', className: 'bg-yellow-100 text-yellow-800' },
+  high: { label: '高', className: 'bg-orange-100 text-orange-800' },
+  critical: { label: '严重', className: 'bg-red-100 text-red-800' },
+}
+
+// 措施类型
+const actionTypeText: Record<ExceptionActionType, string> = {
+  corrective: '纠正措施',
+  preventive: '预防措施',
+}
+
+// 措施状态配置
+const actionStatusConfig: Record<ExceptionActionStatus, { label: string; className: string }> = {
+  open: { label: '执行中', className: 'bg-yellow-100 text-yellow-800' },
+  completed: { label: '已完成', className: 'bg-blue-100 text-blue-800' },
+  cancelled: { label: '已取消', className: 'bg-gray-100 text-gray-600' },
+}
+
+// 处理记录类型
+const eventTypeText: Record<string, string> = {
+  created: '登记',
+  assigned: '指派',
+  investigated: '调查',
+  action_added: '制定措施',
+  action_updated: '调整措施',
+  action_completed: '完成措施',
+  action_cancelled: '取消措施',
+  effectiveness_checked: '有效性验证',
+  closed: '关闭',
+  cancelled: '取消',
+}
+
+// 统计卡片
+const statCards: { key: ExceptionStatus | 'overdue'; label: string; className: string }[] = [
+  { key: 'open', label: '待指派', className: 'text-red-600' },
+  { key: 'investigating', label: '调查中', className: 'text-yellow-600' },
+  { key: 'action', label: '整改中', className: 'text-blue-600' },
+  { key: 'verification', label: '待验证', className: 'text-purple-600' },
+  { key: 'overdue', label: '已逾期', className: 'text-red-600' },
+]
+
+// 登记异常表单
+interface CreateForm {
+  experiment_id: string
+  exception_type: string
+  title: string
+  description: string
+  severity: ExceptionSeverity
+  occurred_at: string
+  impact: string
+  estimated_loss: string
+}
+
+// 措施操作：完成、验证有效、验证无效、取消
+interface ActionOperation {
+  action: ExceptionAction
+  type: 'complete' | 'effective' | 'ineffective' | 'cancel'
+  notes: string
+  due_date: string
+}
+
+const emptyCreateForm = (exceptionType: string): CreateForm => ({
+  experiment_id: '',
+  exception_type: exceptionType,
+  title: '',
+  description: '',
+  severity: 'medium',
+  occurred_at: '',
+  impact: '',
+  estimated_loss: '',
+})
+
+const inputClass =
+  'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+/**
+ * 格式化日期时间
+ * @param value ISO时间
+ * @returns 本地时间文本
+ */
+const formatTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString() : '-'
+
+/**
+ * 状态标签
+ * @param config 状态名称和样式
+ * @returns JSX元素
+ */
+const renderBadge = (config: { label: string; className: string }) => (
+  <span
+    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.className}`}
+  >
+    {config.label}
+  </span>
+)
+
+/**
+ * 字段展示
+ * @param label 字段名
+ * @param value 字段值
+ * @returns JSX元素
+ */
+const renderField = (label: string, value: React.ReactNode) => (
+  <div>
+    <div className='text-gray-500'>{label}</div>
+    <div className='text-gray-900 whitespace-pre-wrap'>{value || '-'}</div>
+  </div>
+)
+
+interface ExceptionCapaCenterProps {
+  method: ExperimentMethod
+  exceptionTypes: string[]
+}
+
+const ExceptionCapaCenter: React.FC<ExceptionCapaCenterProps> = ({ method, exceptionTypes }) => {
+  const { user } = useAuthStore()
+  const roles = user?.roles || []
+  const canManage = roles.some(role => managerRoles.includes(role))
+  const canCheckEffectiveness = roles.some(role => effectivenessRoles.includes(role))
+
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [exceptions, setExceptions] = useState<ExceptionRecord[]>([])
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(10)
+  const [total, setTotal] = useState(0)
+  const [stats, setStats] = useState<Record<string, number>>({})
+  const [handlers, setHandlers] = useState<UserBrief[]>([])
+
+  // 筛选条件
+  const [statusFilter, setStatusFilter] = useState<ExceptionStatus | ''>('')
+  const [severityFilter, setSeverityFilter] = useState<ExceptionSeverity | ''>('')
+  const [overdueOnly, setOverdueOnly] = useState(false)
+  const [search, setSearch] = useState('')
+
+  // 登记异常
+  const [createOpen, setCreateOpen] = useState(false)
+  const [createForm, setCreateForm] = useState<CreateForm>(emptyCreateForm(exceptionTypes[0] || ''))
+  const [experimentSearch, setExperimentSearch] = useState('')
+  const [experimentOptions, setExperimentOptions] = useState<Experiment[]>([])
+
+  // 异常详情与处理
+  const [detail, setDetail] = useState<ExceptionRecord | null>(null)
+  const [assignForm, setAssignForm] = useState({ assignee_id: '', due_date: '' })
+  const [investigationForm, setInvestigationForm] = useState({
+    investigation: '',
+    root_cause: '',
+    impact: '',
+    actual_loss: '',
+  })
+  const [actionForm, setActionForm] = useState({
+    action_type: 'corrective' as ExceptionActionType,
+    description: '',
+    owner_id: '',
+    due_date: '',
+  })
+  const [operation, setOperation] = useState<ActionOperation | null>(null)
+  const [resolution, setResolution] = useState('')
+  const [cancelReason, setCancelReason] = useState('')
+
+  // 加载异常列表
+  const loadExceptions = useCallback(async () => {
+    setLoading(true)
+    try {
+      const result = await ExceptionService.getExceptions({
+        page,
+        limit: pageSize,
+        source_type: 'experiment',
+        method,
+        status: statusFilter,
+        severity: severityFilter,
+        overdue: overdueOnly || undefined,
+        search: search || undefined,
+      })
+      setExceptions(result.data)
+      setTotal(result.pagination.total)
+    } catch (error) {
+      console.error('加载异常列表失败:', error)
+      toast.error('加载异常列表失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [method, page, pageSize, statusFilter, severityFilter, overdueOnly, search])
+
+  // 加载各状态异常数
+  const loadStats = useCallback(async () => {
+    try {
+      const counts = await Promise.all(
+        statCards.map(card =>
+          ExceptionService.getExceptions({
+            page: 1,
+            limit: 1,
+            source_type: 'experiment',
+            method,
+            ...(card.key === 'overdue' ? { overdue: true } : { status: card.key }),
+          }).then(result => [card.key, result.pagination.total] as const)
+        )
+      )
+      setStats(Object.fromEntries(counts))
+    } catch (error) {
+      console.error('加载异常统计失败:', error)
+    }
+  }, [method])
+
+  useEffect(() => {
+    loadExceptions()
+  }, [loadExceptions])
+
+  useEffect(() => {
+    loadStats()
+    ExceptionService.getHandlers({ source_type: 'experiment', method })
+      .then(setHandlers)
+      .catch(error => console.error('加载异常处理人员失败:', error))
+  }, [method, loadStats])
+
+  // 刷新列表、统计及打开的详情
+  const refresh = (updated?: ExceptionRecord) => {
+    if (updated) {
+      setDetail(updated)
+    }
+    loadExceptions()
+    loadStats()
+  }
+
+  // 打开异常详情
+  const openDetail = async (record: ExceptionRecord) => {
+    try {
+      const data = await ExceptionService.getException(record.id)
+      setDetail(data)
+      setAssignForm({ assignee_id: data.assignee_id || '', due_date: data.due_date || '' })
+      setInvestigationForm({
+        investigation: data.investigation || '',
+        root_cause: data.root_cause || '',
+        impact: data.impact || '',
+        actual_loss: data.actual_loss === null || data.actual_loss === undefined ? '' : String(data.actual_loss),
+      })
+      setActionForm({ action_type: 'corrective', description: '', owner_id: '', due_date: '' })
+      setOperation(null)
+      setResolution('')
+      setCancelReason('')
+    } catch (error) {
+      console.error('加载异常详情失败:', error)
+      toast.error('加载异常详情失败')
+    }
+  }
+
+  /**
+   * 执行异常处理操作
+   * @param task 调用接口的操作，返回最新的异常详情
+   * @param successText 成功提示
+   * @param failureText 失败提示
+   */
+  const runOperation = async (
+    task: () => Promise<ExceptionRecord>,
+    successText: string,
+    failureText: string
+  ) => {
+    setSubmitting(true)
+    try {
+      const updated = await task()
+      toast.success(successText)
+      refresh(updated)
+      return true
+    } catch (error: unknown) {
+      console.error(`${failureText}:`, error)
+      const message = getApiErrorMessage(error, failureText)
+      const { problems } = getApiErrorDetails<{ problems: string[] }>(error)
+      toast.error(problems?.length ? `${message}：${problems.join('；')}` : message)
+      return false
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 搜索可关联的实验
+  const handleSearchExperiments = async () => {
+    try {
+      const result = await ExperimentService.getExperiments({
+        page: 1,
+        limit: 20,
+        method,
+        search: experimentSearch || undefined,
+      })
+      setExperimentOptions(result.data)
+      if (result.data.length === 0) {
+        toast.error('未找到匹配的实验')
+      }
+    } catch (error) {
+      console.error('查询实验失败:', error)
+      toast.error('查询实验失败')
+    }
+  }
+
+  // 打开登记异常
+  const openCreate = () => {
+    setCreateForm(emptyCreateForm(exceptionTypes[0] || ''))
+    setExperimentSearch('')
+    setExperimentOptions([])
+    setCreateOpen(true)
+  }
+
+  // 登记异常
+  const handleCreate = async () => {
+    if (!createForm.experiment_id || !createForm.title.trim() || !createForm.description.trim()) {
+      toast.error('请选择关联实验并填写异常标题和描述')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const created = await ExceptionService.createException({
+        source_type: 'experiment',
+        experiment_id: createForm.experiment_id,
+        exception_type: createForm.exception_type,
+        title: createForm.title.trim(),
+        description: createForm.description.trim(),
+        severity: createForm.severity,
+        occurred_at: createForm.occurred_at ? new Date(createForm.occurred_at).toISOString() : undefined,
+        impact: createForm.impact.trim() || undefined,
+        estimated_loss: createForm.estimated_loss ? Number(createForm.estimated_loss) : undefined,
+      })
+      toast.success(`异常 ${created.exception_no} 已登记`)
+      setCreateOpen(false)
+      refresh()
+    } catch (error: unknown) {
+      console.error('登记异常失败:', error)
+      toast.error(getApiErrorMessage(error, '登记异常失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 导出CAPA台账
+  const handleExport = async () => {
+    try {
+      const blob = await ExceptionService.exportCapaLog({
+        source_type: 'experiment',
+        method,
+        status: statusFilter,
+      })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `capa_log_${new Date().toISOString().slice(0, 10).replace(/-/g, '')}.csv`
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 60000)
+    } catch (error) {
+      console.error('导出CAPA台账失败:', error)
+      toast.error('导出CAPA台账失败')
+    }
+  }
+
+  // 指派调查
+  const handleAssign = () => {
+    if (!detail || !assignForm.assignee_id) {
+      toast.error('请选择调查负责人')
+      return
+    }
+    runOperation(
+      () => ExceptionService.assign(detail.id, assignForm.assignee_id, assignForm.due_date || undefined),
+      '已指派调查负责人',
+      '指派调查失败'
+    )
+  }
+
+  // 保存调查结果
+  const handleSaveInvestigation = () => {
+    if (!detail) return
+    runOperation(
+      () =>
+        ExceptionService.saveInvestigation(detail.id, {
+          investigation: investigationForm.investigation,
+          root_cause: investigationForm.root_cause,
+          impact: investigationForm.impact,
+          actual_loss: investigationForm.actual_loss === '' ? null : Number(investigationForm.actual_loss),
+        }),
+      '调查结果已保存',
+      '保存调查结果失败'
+    )
+  }
+
+  // 制定措施
+  const handleAddAction = async () => {
+    if (!detail) return
+    if (!actionForm.description.trim() || !actionForm.owner_id || !actionForm.due_date) {
+      toast.error('请填写措施内容、负责人和完成期限')
+      return
+    }
+    const saved = await runOperation(
+      () => ExceptionService.addAction(detail.id, { ...actionForm, description: actionForm.description.trim() }),
+      `${actionTypeText[actionForm.action_type]}已制定`,
+      '制定措施失败'
+    )
+    if (saved) {
+      setActionForm({ action_type: 'corrective', description: '', owner_id: '', due_date: '' })
+    }
+  }
+
+  // 提交措施操作
+  const handleOperation = async () => {
+    if (!detail || !operation) return
+    const { action, type, notes, due_date } = operation
+
+    if ((type === 'complete' || type === 'cancel' || type === 'ineffective') && !notes.trim()) {
+      toast.error(type === 'complete' ? '请填写完成情况' : type === 'cancel' ? '请填写取消原因' : '请填写验证意见')
+      return
+    }
+    if (type === 'ineffective' && !due_date) {
+      toast.error('验证无效时请重新设定完成期限')
+      return
+    }
+
+    const tasks = {
+      complete: () => ExceptionService.completeAction(detail.id, action.id, notes.trim()),
+      effective: () =>
+        ExceptionService.checkEffectiveness(detail.id, action.id, { effective: true, notes: notes.trim() || undefined }),
+      ineffective: () =>
+        ExceptionService.checkEffectiveness(detail.id, action.id, { effective: false, notes: notes.trim(), due_date }),
+      cancel: () => ExceptionService.cancelAction(detail.id, action.id, notes.trim()),
+    }
+    const texts = {
+      complete: '措施已完成，待有效性验证',
+      effective: '措施已验证有效',
+      ineffective: '措施验证无效，已退回执行',
+      cancel: '措施已取消',
+    }
+
+    const saved = await runOperation(tasks[type], texts[type], '措施操作失败')
+    if (saved) {
+      setOperation(null)
+    }
+  }
+
+  // 签字关闭
+  const handleClose = () => {
+    if (!detail || !resolution.trim()) {
+      toast.error('请填写关闭结论')
+      return
+    }
+    runOperation(() => ExceptionService.close(detail.id, resolution.trim()), '异常已签字关闭', '关闭异常失败')
+  }
+
+  // 取消异常
+  const handleCancel = () => {
+    if (!detail || !cancelReason.trim()) {
+      toast.error('请填写取消原因')
+      return
+    }
+    if (!window.confirm('确定取消该异常吗？执行中的措施将一并取消')) return
+    runOperation(() => ExceptionService.cancel(detail.id, cancelReason.trim()), '异常已取消', '取消异常失败')
+  }
+
+  // 异常列表列配置
+  const exceptionColumns = [
+    {
+      key: 'exception_no',
+      title: '异常编号',
+      dataIndex: 'exception_no',
+      render: (value: string) => <span className='font-mono text-sm'>{value}</span>,
+    },
+    {
+      key: 'experiment',
+      title: '实验 / 样本',
+      dataIndex: 'experiment_id',
+      render: (_: string, record: ExceptionRecord) => (
+        <div>
+          <div className='font-mono text-sm'>{record.experiments?.experiment_no || '-'}</div>
+          <div className='text-xs text-gray-500'>{record.samples?.sample_no || ''}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'title',
+      title: '异常',
+      dataIndex: 'title',
+      render: (value: string, record: ExceptionRecord) => (
+        <div>
+          <div className='text-sm text-gray-900'>{value || record.exception_desc}</div>
+          <div className='text-xs text-gray-500'>{record.exception_type}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'severity',
+      title: '严重程度',
+      dataIndex: 'severity',
+      render: (value: ExceptionSeverity) => renderBadge(severityConfig[value]),
+    },
+    {
+      key: 'assignee',
+      title: '调查负责人',
+      dataIndex: 'assignee_id',
+      render: (_: string, record: ExceptionRecord) => (
+        <div className='text-sm'>
+          <div>{record.assignee?.real_name || '-'}</div>
+          {record.due_date && (
+            <div className={`text-xs ${record.is_overdue ? 'text-red-600' : 'text-gray-500'}`}>
+              期限 {record.due_date}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'actions_summary',
+      title: '措施',
+      dataIndex: 'action_summary',
+      render: (value: ExceptionRecord['action_summary']) =>
+        value.total > 0 ? (
+          <span className='text-sm'>
+            {value.effective}/{value.total} 有效
+            {value.overdue > 0 && <span className='text-red-600'>，逾期 {value.overdue}</span>}
+          </span>
+        ) : (
+          <span className='text-sm text-gray-400'>未制定</span>
+        ),
+    },
+    {
+      key: 'status',
+      title: '状态',
+      dataIndex: 'status',
+      render: (value: ExceptionStatus, record: ExceptionRecord) => (
+        <div className='space-x-1'>
+          {renderBadge(statusConfig[value])}
+          {record.is_overdue && renderBadge({ label: '逾期', className: 'bg-red-100 text-red-800' })}
+        </div>
+      ),
+    },
+    {
+      key: 'occurred_at',
+      title: '发生时间',
+      dataIndex: 'occurred_at',
+      render: (value: string, record: ExceptionRecord) => (
+        <span className='text-sm'>{formatTime(value || record.created_at)}</span>
+      ),
+    },
+    {
+      key: 'operations',
+      title: '操作',
+      dataIndex: 'id',
+      render: (_: string, record: ExceptionRecord) => (
+        <button onClick={() => openDetail(record)} className='text-sm text-blue-600 hover:text-blue-800'>
+          {openStatuses.includes(record.status) ? '处理' : '查看'}
+        </button>
+      ),
+    },
+  ]
+
+  const isOpen = detail ? openStatuses.includes(detail.status) : false
+  const canInvestigate = detail ? ['investigating', 'action'].includes(detail.status) : false
+  const canAddAction = detail
+    ? Boolean(detail.root_cause) && ['investigating', 'action', 'verification'].includes(detail.status)
+    : false
+
+  // 措施列配置
+  const actionColumns = [
+    {
+      key: 'action_type',
+      title: '类型',
+      dataIndex: 'action_type',
+      render: (value: ExceptionActionType) => <span className='text-sm'>{actionTypeText[value]}</span>,
+    },
+    {
+      key: 'description',
+      title: '措施内容',
+      dataIndex: 'description',
+      render: (value: string, record: ExceptionAction) => (
+        <div className='text-sm'>
+          <div className='whitespace-pre-wrap'>{value}</div>
+          {record.completion_notes && (
+            <div className='text-xs text-gray-500 mt-1'>完成情况：{record.completion_notes}</div>
+          )}
+          {record.effectiveness_notes && (
+            <div className='text-xs text-gray-500 mt-1'>验证意见：{record.effectiveness_notes}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'owner',
+      title: '负责人 / 期限',
+      dataIndex: 'owner_id',
+      render: (_: string, record: ExceptionAction) => (
+        <div className='text-sm'>
+          <div>{record.owner?.real_name || '-'}</div>
+          <div className={`text-xs ${record.is_overdue ? 'text-red-600' : 'text-gray-500'}`}>{record.due_date}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      title: '状态',
+      dataIndex: 'status',
+      render: (value: ExceptionActionStatus, record: ExceptionAction) => (
+        <div className='space-x-1'>
+          {renderBadge(actionStatusConfig[value])}
+          {record.effectiveness === 'effective' &&
+            renderBadge({ label: '有效', className: 'bg-green-100 text-green-800' })}
+        </div>
+      ),
+    },
+    {
+      key: 'operations',
+      title: '操作',
+      dataIndex: 'id',
+      render: (_: string, record: ExceptionAction) => {
+        if (!isOpen) return null
+        const startOperation = (type: ActionOperation['type']) =>
+          setOperation({ action: record, type, notes: '', due_date: '' })
+        return (
+          <div className='flex space-x-2 text-sm'>
+            {record.status === 'open' && (record.owner_id === user?.id || canManage) && (
+              <button onClick={() => startOperation('complete')} className='text-blue-600 hover:text-blue-800'>
+                完成
+              </button>
+            )}
+            {record.status === 'completed' &&
+              record.effectiveness !== 'effective' &&
+              canCheckEffectiveness &&
+              record.owner_id !== user?.id && (
+                <>
+                  <button onClick={() => startOperation('effective')} className='text-green-600 hover:text-green-800'>
+                    有效
+                  </button>
+                  <button onClick={() => startOperation('ineffective')} className='text-orange-600 hover:text-orange-800'>
+                    无效
+                  </button>
+                </>
+              )}
+            {record.status !== 'cancelled' && record.effectiveness !== 'effective' && canManage && (
+              <button onClick={() => startOperation('cancel')} className='text-red-600 hover:text-red-800'>
+                取消
+              </button>
+            )}
+          </div>
+        )
+      },
+    },
+  ]
+
+  const operationTitle = operation
+    ? {
+        complete: '完成情况',
+        effective: '验证意见（可选）',
+        ineffective: '验证意见',
+        cancel: '取消原因',
+      }[operation.type]
+    : ''
+
+  return (
+    <div className='space-y-6'>
+      {/* 统计卡片 */}
+      <div className='grid grid-cols-2 md:grid-cols-5 gap-4'>
+        {statCards.map(card => (
+          <div key={card.key} className='bg-white rounded-lg shadow-md border p-4'>
+            <div className='text-sm text-gray-600'>{card.label}</div>
+            <div className={`text-2xl font-bold mt-1 ${card.className}`}>{stats[card.key] ?? '-'}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className='bg-white rounded-lg shadow-md border p-6'>
+        {/* 筛选条件 */}
+        <div className='flex items-center justify-between mb-4'>
+          <div className='flex items-center space-x-2'>
+            <Filter className='w-5 h-5 text-gray-600' />
+            <h2 className='text-lg font-semibold text-gray-900'>筛选条件</h2>
+          </div>
+          <div className='flex items-center space-x-3'>
+            <button
+              onClick={handleExport}
+              className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 flex items-center space-x-2'
+            >
+              <Download className='w-4 h-4' />
+              <span>导出CAPA台账</span>
+            </button>
+            <button
+              onClick={() => refresh()}
+              disabled={loading}
+              className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center space-x-2'
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>刷新</span>
+            </button>
+            <button
+              onClick={openCreate}
+              className='px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center space-x-2'
+            >
+              <Plus className='w-4 h-4' />
+              <span>登记异常</span>
+            </button>
+          </div>
+        </div>
+        <div className='grid grid-cols-1 md:grid-cols-4 gap-4 mb-6'>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>处理状态</label>
+            <select
+              value={statusFilter}
+              onChange={e => {
+                setStatusFilter(e.target.value as ExceptionStatus | '')
+                setPage(1)
+              }}
+              className={inputClass}
+            >
+              <option value=''>全部状态</option>
+              {(Object.keys(statusConfig) as ExceptionStatus[]).map(status => (
+                <option key={status} value={status}>
+                  {statusConfig[status].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>严重程度</label>
+            <select
+              value={severityFilter}
+              onChange={e => {
+                setSeverityFilter(e.target.value as ExceptionSeverity | '')
+                setPage(1)
+              }}
+              className={inputClass}
+            >
+              <option value=''>全部程度</option>
+              {(Object.keys(severityConfig) as ExceptionSeverity[]).map(severity => (
+                <option key={severity} value={severity}>
+                  {severityConfig[severity].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>搜索</label>
+            <input
+              type='text'
+              value={search}
+              onChange={e => {
+                setSearch(e.target.value)
+                setPage(1)
+              }}
+              placeholder='异常编号、标题或类型'
+              className={inputClass}
+            />
+          </div>
+          <div className='flex items-end'>
+            <label className='flex items-center space-x-2 text-sm text-gray-700 pb-2'>
+              <input
+                type='checkbox'
+                checked={overdueOnly}
+                onChange={e => {
+                  setOverdueOnly(e.target.checked)
+                  setPage(1)
+                }}
+                className='rounded border-gray-300'
+              />
+              <span>只看逾期</span>
+            </label>
+          </div>
+        </div>
+
+        <DataTable
+          columns={exceptionColumns}
+          dataSource={exceptions}
+          loading={loading}
+          pagination={{
+            current: page,
+            pageSize,
+            total,
+            onChange: (nextPage, nextPageSize) => {
+              setPage(nextPage)
+              setPageSize(nextPageSize)
+            },
+          }}
+        />
+      </div>
+
+      {/* 登记异常 */}
+      <Modal open={createOpen} onClose={() => setCreateOpen(false)} title='登记实验异常' size='large'>
+        <div className='space-y-4'>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>关联实验</label>
+            <div className='flex space-x-2'>
+              <input
+                type='text'
+                value={experimentSearch}
+                onChange={e => setExperimentSearch(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleSearchExperiments()}
+                placeholder='输入实验编号或批次号查询'
+                className={inputClass}
+              />
+              <button
+                onClick={handleSearchExperiments}
+                className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 whitespace-nowrap'
+              >
+                查询
+              </button>
+            </div>
+            {experimentOptions.length > 0 && (
+              <select
+                value={createForm.experiment_id}
+                onChange={e => setCreateForm({ ...createForm, experiment_id: e.target.value })}
+                className={`${inputClass} mt-2`}
+              >
+                <option value=''>请选择实验</option>
+                {experimentOptions.map(experiment => (
+                  <option key={experiment.id} value={experiment.id}>
+                    {experiment.experiment_no}
+                    {experiment.samples ? ` · ${experiment.samples.sample_no}` : ''}
+                    {experiment.batch_no ? ` · 批次${experiment.batch_no}` : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div className='grid grid-cols-2 gap-4'>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>异常类型</label>
+              <select
+                value={createForm.exception_type}
+                onChange={e => setCreateForm({ ...createForm, exception_type: e.target.value })}
+                className={inputClass}
+              >
+                {exceptionTypes.map(type => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>严重程度</label>
+              <select
+                value={createForm.severity}
+                onChange={e => setCreateForm({ ...createForm, severity: e.target.value as ExceptionSeverity })}
+                className={inputClass}
+              >
+                {(Object.keys(severityConfig) as ExceptionSeverity[]).map(severity => (
+                  <option key={severity} value={severity}>
+                    {severityConfig[severity].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>异常标题</label>
+            <input
+              type='text'
+              maxLength={200}
+              value={createForm.title}
+              onChange={e => setCreateForm({ ...createForm, title: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>异常描述</label>
+            <textarea
+              rows={3}
+              maxLength={2000}
+              value={createForm.description}
+              onChange={e => setCreateForm({ ...createForm, description: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className='grid grid-cols-2 gap-4'>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>发生时间</label>
+              <input
+                type='datetime-local'
+                value={createForm.occurred_at}
+                onChange={e => setCreateForm({ ...createForm, occurred_at: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>预估损失（元）</label>
+              <input
+                type='number'
+                min={0}
+                value={createForm.estimated_loss}
+                onChange={e => setCreateForm({ ...createForm, estimated_loss: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>影响</label>
+            <textarea
+              rows={2}
+              value={createForm.impact}
+              onChange={e => setCreateForm({ ...createForm, impact: e.target.value })}
+              placeholder='如 影响的样本、报告时效'
+              className={inputClass}
+            />
+          </div>
+          <div className='flex justify-end space-x-3'>
+            <button
+              onClick={() => setCreateOpen(false)}
+              className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
+            >
+              取消
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={submitting}
+              className='px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50'
+            >
+              登记
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* 异常详情与处理 */}
+      <Modal
+        open={Boolean(detail)}
+        onClose={() => setDetail(null)}
+        title={`异常 ${detail?.exception_no || ''}`}
+        size='xl'
+      >
+        {detail && (
+          <div className='space-y-6'>
+            <div className='flex items-center space-x-2'>
+              {renderBadge(statusConfig[detail.status])}
+              {renderBadge(severityConfig[detail.severity])}
+              {detail.is_overdue && renderBadge({ label: '逾期', className: 'bg-red-100 text-red-800' })}
+            </div>
+
+            <div className='grid grid-cols-2 md:grid-cols-4 gap-4 text-sm'>
+              {renderField('异常标题', detail.title)}
+              {renderField('异常类型', detail.exception_type)}
+              {renderField('实验', detail.experiments?.experiment_no)}
+              {renderField('样本', detail.samples?.sample_no)}
+              {renderField('发生时间', formatTime(detail.occurred_at || detail.created_at))}
+              {renderField('调查负责人', detail.assignee?.real_name)}
+              {renderField('调查期限', detail.due_date)}
+              {renderField('预估损失（元）', detail.estimated_loss ?? '')}
+            </div>
+            <div className='grid grid-cols-1 md:grid-cols-2 gap-4 text-sm'>
+              {renderField('异常描述', detail.exception_desc)}
+              {renderField('影响', detail.impact)}
+            </div>
+
+            {/* 指派调查 */}
+            {canManage && ['open', 'investigating', 'action'].includes(detail.status) && (
+              <div className='border-t pt-4'>
+                <h3 className='text-sm font-semibold text-gray-900 mb-2'>指派调查</h3>
+                <div className='grid grid-cols-1 md:grid-cols-3 gap-3'>
+                  <select
+                    value={assignForm.assignee_id}
+                    onChange={e => setAssignForm({ ...assignForm, assignee_id: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value=''>选择调查负责人</option>
+                    {handlers.map(handler => (
+                      <option key={handler.id} value={handler.id}>
+                        {handler.real_name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type='date'
+                    value={assignForm.due_date}
+                    onChange={e => setAssignForm({ ...assignForm, due_date: e.target.value })}
+                    title='为空时按严重程度确定调查期限'
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={handleAssign}
+                    disabled={submitting}
+                    className='px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50'
+                  >
+                    {detail.assignee_id ? '重新指派' : '指派'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* 调查结果 */}
+            <div className='border-t pt-4'>
+              <h3 className='text-sm font-semibold text-gray-900 mb-2'>调查与根本原因</h3>
+              {canInvestigate ? (
+                <div className='space-y-3'>
+                  <textarea
+                    rows={2}
+                    value={investigationForm.investigation}
+                    onChange={e => setInvestigationForm({ ...investigationForm, investigation: e.target.value })}
+                    placeholder='调查过程'
+                    className={inputClass}
+                  />
+                  <textarea
+                    rows={2}
+                    value={investigationForm.root_cause}
+                    onChange={e => setInvestigationForm({ ...investigationForm, root_cause: e.target.value })}
+                    placeholder='根本原因，确认后才能制定纠正/预防措施'
+                    className={inputClass}
+                  />
+                  <div className='grid grid-cols-1 md:grid-cols-3 gap-3'>
+                    <input
+                      type='text'
+                      value={investigationForm.impact}
+                      onChange={e => setInvestigationForm({ ...investigationForm, impact: e.target.value })}
+                      placeholder='影响评估'
+                      className={`${inputClass} md:col-span-2`}
+                    />
+                    <input
+                      type='number'
+                      min={0}
+                      value={investigationForm.actual_loss}
+                      onChange={e => setInvestigationForm({ ...investigationForm, actual_loss: e.target.value })}
+                      placeholder='实际损失（元）'
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className='flex justify-end'>
+                    <button
+                      onClick={handleSaveInvestigation}
+                      disabled={submitting}
+                      className='px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50'
+                    >
+                      保存调查结果
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className='grid grid-cols-1 md:grid-cols-3 gap-4 text-sm'>
+                  {renderField('调查过程', detail.investigation)}
+                  {renderField('根本原因', detail.root_cause)}
+                  {renderField('实际损失（元）', detail.actual_loss ?? '')}
+                </div>
+              )}
+            </div>
+
+            {/* 纠正/预防措施 */}
+            <div className='border-t pt-4 space-y-3'>
+              <h3 className='text-sm font-semibold text-gray-900'>纠正/预防措施</h3>
+              <DataTable columns={actionColumns} dataSource={detail.exception_actions || []} />
+
+              {operation && (
+                <div className='bg-gray-50 rounded-md p-3 space-y-2'>
+                  <div className='text-sm text-gray-700'>
+                    {actionTypeText[operation.action.action_type]}「{operation.action.description}」- {operationTitle}
+                  </div>
+                  <textarea
+                    rows={2}
+                    value={operation.notes}
+                    onChange={e => setOperation({ ...operation, notes: e.target.value })}
+                    className={inputClass}
+                  />
+                  {operation.type === 'ineffective' && (
+                    <input
+                      type='date'
+                      value={operation.due_date}
+                      onChange={e => setOperation({ ...operation, due_date: e.target.value })}
+                      title='重新设定完成期限'
+                      className={inputClass}
+                    />
+                  )}
+                  <div className='flex justify-end space-x-3'>
+                    <button
+                      onClick={() => setOperation(null)}
+                      className='px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-white'
+                    >
+                      取消
+                    </button>
+                    <button
+                      onClick={handleOperation}
+                      disabled={submitting}
+                      className='px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50'
+                    >
+                      确定
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {canAddAction && (
+                <div className='grid grid-cols-1 md:grid-cols-6 gap-3'>
+                  <select
+                    value={actionForm.action_type}
+                    onChange={e => setActionForm({ ...actionForm, action_type: e.target.value as ExceptionActionType })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(actionTypeText) as ExceptionActionType[]).map(type => (
+                      <option key={type} value={type}>
+                        {actionTypeText[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type='text'
+                    value={actionForm.description}
+                    onChange={e => setActionForm({ ...actionForm, description: e.target.value })}
+                    placeholder='措施内容'
+                    className={`${inputClass} md:col-span-2`}
+                  />
+                  <select
+                    value={actionForm.owner_id}
+                    onChange={e => setActionForm({ ...actionForm, owner_id: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value=''>负责人</option>
+                    {handlers.map(handler => (
+                      <option key={handler.id} value={handler.id}>
+                        {handler.real_name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type='date'
+                    value={actionForm.due_date}
+                    onChange={e => setActionForm({ ...actionForm, due_date: e.target.value })}
+                    title='完成期限'
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={handleAddAction}
+                    disabled={submitting}
+                    className='px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50'
+                  >
+                    制定措施
+                  </button>
+                </div>
+              )}
+              {isOpen && !detail.root_cause && (
+                <p className='text-xs text-gray-500'>记录根本原因后才能制定纠正/预防措施</p>
+              )}
+            </div>
+
+            {/* 签字关闭与取消 */}
+            {canManage && isOpen && (
+              <div className='border-t pt-4 grid grid-cols-1 md:grid-cols-2 gap-4'>
+                {detail.status === 'verification' && detail.assignee_id !== user?.id && (
+                  <div className='space-y-2'>
+                    <h3 className='text-sm font-semibold text-gray-900'>签字关闭</h3>
+                    <textarea
+                      rows={2}
+                      value={resolution}
+                      onChange={e => setResolution(e.target.value)}
+                      placeholder='关闭结论'
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={handleClose}
+                      disabled={submitting}
+                      className='px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50'
+                    >
+                      签字关闭
+                    </button>
+                  </div>
+                )}
+                <div className='space-y-2'>
+                  <h3 className='text-sm font-semibold text-gray-900'>取消异常</h3>
+                  <textarea
+                    rows={2}
+                    value={cancelReason}
+                    onChange={e => setCancelReason(e.target.value)}
+                    placeholder='取消原因，如 误报、重复登记'
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={handleCancel}
+                    disabled={submitting}
+                    className='px-4 py-2 text-sm border border-red-300 text-red-600 rounded-md hover:bg-red-50 disabled:opacity-50'
+                  >
+                    取消异常
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {detail.status === 'closed' && (
+              <div className='border-t pt-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm'>
+                {renderField('关闭结论', detail.resolution)}
+                {renderField('签字人', detail.resolver?.real_name)}
+                {renderField('关闭时间', formatTime(detail.resolved_at))}
+              </div>
+            )}
+
+            {/* 处理记录 */}
+            <div className='border-t pt-4'>
+              <h3 className='text-sm font-semibold text-gray-900 mb-2'>处理记录</h3>
+              <ul className='space-y-1 text-sm'>
+                {(detail.exception_events || []).map(event => (
+                  <li key={event.id} className='flex space-x-3'>
+                    <span className='text-gray-500 whitespace-nowrap'>{formatTime(event.created_at)}</span>
+                    <span className='whitespace-nowrap'>{eventTypeText[event.event_type] || event.event_type}</span>
+                    <span className='text-gray-600 whitespace-nowrap'>{event.operator?.real_name || '-'}</span>
+                    <span className='text-gray-600'>{event.comments}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
+
+export default ExceptionCapaCenter
@@ -0,0 +1,365 @@
+/**
+ * 仪器导入映射方案表单
+ * 按仪器导出文件的表头配置样本列、检测项目列和结果列，列名须与文件表头一致
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../lib/http'
+import Modal from './Modal'
+import type { ExperimentMethod } from '../services/experimentService'
+import {
+  InstrumentImportService,
+  type InstrumentImportProfile,
+  type InstrumentImportProfileInput,
+  type ImportItemColumn,
+} from '../services/instrumentImportService'
+
+// 分隔符选项
+const delimiterOptions = [
+  { label: '自动识别', value: '' },
+  { label: '逗号 ,', value: ',' },
+  { label: '制表符 Tab', value: '\t' },
+  { label: '分号 ;', value: ';' },
+  { label: '竖线 |', value: '|' },
+]
+
+/**
+ * 生成空白方案
+ * @param method 实验方法
+ * @returns 方案初始值
+ */
+const emptyProfile = (method: ExperimentMethod): InstrumentImportProfileInput => ({
+  name: '',
+  method,
+  delimiter: '',
+  header_row: 1,
+  layout: 'wide',
+  sample_column: '',
+  sample_key: 'barcode',
+  item_columns: [{ column: '', item_code: '', unit_column: '' }],
+  item_column: '',
+  value_column: '',
+  unit_column: '',
+  measured_at_column: '',
+  skip_sample_pattern: '',
+  is_active: true,
+  remarks: '',
+})
+
+interface InstrumentImportProfileFormProps {
+  open: boolean
+  method: ExperimentMethod
+  profile?: InstrumentImportProfile | null
+  onClose: () => void
+  onSaved: (profile: InstrumentImportProfile) => void
+}
+
+const InstrumentImportProfileForm: React.FC<InstrumentImportProfileFormProps> = ({
+  open,
+  method,
+  profile,
+  onClose,
+  onSaved,
+}) => {
+  const [form, setForm] = useState<InstrumentImportProfileInput>(emptyProfile(method))
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    if (profile) {
+      // 只取可编辑字段，接口不接受其他字段
+      const initial = emptyProfile(method)
+      const picked = Object.fromEntries(
+        Object.keys(initial).map(key => [
+          key,
+          profile[key as keyof InstrumentImportProfileInput] ?? initial[key as keyof InstrumentImportProfileInput],
+        ])
+      ) as unknown as InstrumentImportProfileInput
+      setForm({
+        ...picked,
+        item_columns: profile.item_columns.length > 0 ? profile.item_columns : initial.item_columns,
+      })
+    } else {
+      setForm(emptyProfile(method))
+    }
+  }, [open, profile, method])
+
+  const update = (changes: Partial<InstrumentImportProfileInput>) => {
+    setForm(prev => ({ ...prev, ...changes }))
+  }
+
+  const updateItemColumn = (index: number, changes: Partial<ImportItemColumn>) => {
+    update({
+      item_columns: form.item_columns.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    })
+  }
+
+  // 保存方案
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const itemColumns = form.item_columns.filter(item => item.column.trim() && item.item_code.trim())
+    if (form.layout === 'wide' && itemColumns.length === 0) {
+      toast.error('请至少映射一个检测项目列')
+      return
+    }
+    if (form.layout === 'long' && (!form.item_column || !form.value_column)) {
+      toast.error('请填写检测项目列和结果列')
+      return
+    }
+
+    const payload = { ...form, item_columns: form.layout === 'wide' ? itemColumns : [] }
+
+    try {
+      setSaving(true)
+      const saved = profile
+        ? await InstrumentImportService.updateProfile(profile.id, payload)
+        : await InstrumentImportService.createProfile(payload)
+      toast.success(profile ? '映射方案已更新' : '映射方案已创建')
+      onSaved(saved)
+    } catch (error: unknown) {
+      console.error('保存映射方案失败:', error)
+      toast.error(getApiErrorMessage(error, '保存映射方案失败'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <Modal open={open} onClose={onClose} title={profile ? '编辑映射方案' : '新建映射方案'} size='large'>
+      <form onSubmit={handleSubmit} className='space-y-4'>
+        <div className='grid grid-cols-2 md:grid-cols-4 gap-3'>
+          <div className='col-span-2'>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>
+              方案名称<span className='text-red-500 ml-0.5'>*</span>
+            </label>
+            <input
+              type='text'
+              required
+              maxLength={100}
+              value={form.name}
+              onChange={e => update({ name: e.target.value })}
+              placeholder='如：Sciex 6500 定量结果'
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>分隔符</label>
+            <select
+              value={form.delimiter || ''}
+              onChange={e => update({ delimiter: e.target.value })}
+              className={inputClass}
+            >
+              {delimiterOptions.map(option => (
+                <option key={option.label} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>表头行号</label>
+            <input
+              type='number'
+              min={1}
+              max={100}
+              value={form.header_row}
+              onChange={e => update({ header_row: Number(e.target.value) || 1 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>
+              样本列<span className='text-red-500 ml-0.5'>*</span>
+            </label>
+            <input
+              type='text'
+              required
+              value={form.sample_column}
+              onChange={e => update({ sample_column: e.target.value })}
+              placeholder='如：Sample Name'
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>样本列内容</label>
+            <select
+              value={form.sample_key}
+              onChange={e => update({ sample_key: e.target.value as 'barcode' | 'sample_no' })}
+              className={inputClass}
+            >
+              <option value='barcode'>样本条码</option>
+              <option value='sample_no'>样本编号</option>
+            </select>
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>测定时间列</label>
+            <input
+              type='text'
+              value={form.measured_at_column || ''}
+              onChange={e => update({ measured_at_column: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>文件版式</label>
+            <select
+              value={form.layout}
+              onChange={e => update({ layout: e.target.value as 'wide' | 'long' })}
+              className={inputClass}
+            >
+              <option value='wide'>每行一个样本</option>
+              <option value='long'>每行一个项目结果</option>
+            </select>
+          </div>
+        </div>
+
+        {form.layout === 'wide' ? (
+          <div>
+            <div className='flex items-center justify-between mb-2'>
+              <h4 className='text-sm font-semibold text-gray-900'>检测项目列</h4>
+              <button
+                type='button'
+                onClick={() =>
+                  update({ item_columns: [...form.item_columns, { column: '', item_code: '', unit_column: '' }] })
+                }
+                className='flex items-center text-sm text-blue-600 hover:text-blue-700'
+              >
+                <Plus className='w-4 h-4 mr-1' />
+                添加
+              </button>
+            </div>
+            <div className='space-y-2'>
+              {form.item_columns.map((item, index) => (
+                <div key={index} className='grid grid-cols-7 gap-2 items-center'>
+                  <input
+                    type='text'
+                    value={item.column}
+                    onChange={e => updateItemColumn(index, { column: e.target.value })}
+                    placeholder='结果列（文件表头）'
+                    className={`${inputClass} col-span-3`}
+                  />
+                  <input
+                    type='text'
+                    value={item.item_code}
+                    onChange={e => updateItemColumn(index, { item_code: e.target.value })}
+                    placeholder='项目编码'
+                    className={`${inputClass} col-span-2`}
+                  />
+                  <input
+                    type='text'
+                    value={item.unit_column || ''}
+                    onChange={e => updateItemColumn(index, { unit_column: e.target.value })}
+                    placeholder='单位列（可选）'
+                    className={inputClass}
+                  />
+                  <button
+                    type='button'
+                    onClick={() => update({ item_columns: form.item_columns.filter((_, i) => i !== index) })}
+                    className='text-red-600 hover:text-red-700 justify-self-center'
+                  >
+                    <Trash2 className='w-4 h-4' />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className='grid grid-cols-3 gap-3'>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>
+                检测项目列<span className='text-red-500 ml-0.5'>*</span>
+              </label>
+              <input
+                type='text'
+                value={form.item_column || ''}
+                onChange={e => update({ item_column: e.target.value })}
+                placeholder='内容为项目编码或名称'
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>
+                结果列<span className='text-red-500 ml-0.5'>*</span>
+              </label>
+              <input
+                type='text'
+                value={form.value_column || ''}
+                onChange={e => update({ value_column: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>单位列</label>
+              <input
+                type='text'
+                value={form.unit_column || ''}
+                onChange={e => update({ unit_column: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className='grid grid-cols-2 gap-3'>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>跳过样本规则（通配符）</label>
+            <input
+              type='text'
+              maxLength={200}
+              value={form.skip_sample_pattern || ''}
+              onChange={e => update({ skip_sample_pattern: e.target.value })}
+              placeholder='如：CAL*,QC*,BLANK'
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>备注</label>
+            <input
+              type='text'
+              maxLength={500}
+              value={form.remarks || ''}
+              onChange={e => update({ remarks: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <label className='flex items-center text-sm text-gray-700'>
+          <input
+            type='checkbox'
+            checked={form.is_active}
+            onChange={e => update({ is_active: e.target.checked })}
+            className='rounded border-gray-300 mr-2'
+          />
+          启用
+        </label>
+
+        <div className='flex justify-end space-x-3 pt-2 border-t'>
+          <button
+            type='button'
+            onClick={onClose}
+            className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+          >
+            取消
+          </button>
+          <button
+            type='submit'
+            disabled={saving}
+            className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+          >
+            {saving ? '保存中...' : '保存'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default InstrumentImportProfileForm
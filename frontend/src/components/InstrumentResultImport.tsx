@@ -0,0 +1,358 @@
+/**
+ * 仪器结果导入组件
+ * 选择仪器映射方案后上传CSV/TSV/Excel结果文件，服务端按方案解析并匹配实验，预览校验错误后整个文件导入
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { FileSpreadsheet, AlertTriangle, CheckCircle, Plus, Edit } from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../lib/http'
+import { useAuthStore } from '../stores/auth'
+import InstrumentImportProfileForm from './InstrumentImportProfileForm'
+import type { ExperimentMethod } from '../services/experimentService'
+import {
+  InstrumentImportService,
+  type InstrumentImportProfile,
+  type InstrumentImportValidation,
+  type InstrumentImportRecord,
+} from '../services/instrumentImportService'
+
+// 可维护映射方案的角色
+const profileManagerRoles = ['admin', 'lab_manager']
+
+interface InstrumentResultImportProps {
+  method: ExperimentMethod
+}
+
+const InstrumentResultImport: React.FC<InstrumentResultImportProps> = ({ method }) => {
+  const { user } = useAuthStore()
+  const canManageProfiles = (user?.roles || []).some(role => profileManagerRoles.includes(role))
+
+  const [profiles, setProfiles] = useState<InstrumentImportProfile[]>([])
+  const [profileId, setProfileId] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [validation, setValidation] = useState<InstrumentImportValidation | null>(null)
+  const [recentImports, setRecentImports] = useState<InstrumentImportRecord[]>([])
+  const [validating, setValidating] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingProfile, setEditingProfile] = useState<InstrumentImportProfile | null>(null)
+
+  const profile = profiles.find(item => item.id === profileId)
+
+  // 加载映射方案
+  const loadProfiles = useCallback(async () => {
+    try {
+      const result = await InstrumentImportService.getProfiles(method, !canManageProfiles)
+      setProfiles(result)
+      setProfileId(prev => prev || result.find(item => item.is_active)?.id || '')
+    } catch (error) {
+      console.error('加载映射方案失败:', error)
+      toast.error('加载映射方案失败')
+    }
+  }, [method, canManageProfiles])
+
+  // 加载最近导入记录
+  const loadRecentImports = useCallback(async () => {
+    try {
+      const result = await InstrumentImportService.getImports({ page: 1, limit: 5 })
+      setRecentImports(result.data)
+    } catch (error) {
+      console.error('加载导入记录失败:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadProfiles()
+    loadRecentImports()
+  }, [loadProfiles, loadRecentImports])
+
+  // 选择结果文件，CSV/TSV/Excel均上传原文件由服务端按方案解析
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+
+    setFile(selected)
+    setValidation(null)
+  }
+
+  // 试运行校验
+  const handleValidate = async () => {
+    if (!file || !profile) return
+
+    try {
+      setValidating(true)
+      const result = await InstrumentImportService.validateFile(profile.id, file)
+      setValidation(result)
+      if (result.error_count > 0) {
+        toast.error(`${result.error_count} 行未通过校验，请修正后重新上传`)
+      } else if (result.result_count === 0) {
+        toast.error('文件中没有可导入的结果')
+      } else {
+        toast.success(`校验通过，共 ${result.experiments.length} 个实验 ${result.result_count} 条结果`)
+      }
+    } catch (error: unknown) {
+      console.error('校验结果文件失败:', error)
+      toast.error(getApiErrorMessage(error, '校验结果文件失败'))
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  // 整个文件导入
+  const handleImport = async () => {
+    if (!file || !profile || !validation || validation.error_count > 0) return
+
+    try {
+      setImporting(true)
+      const record = await InstrumentImportService.importFile(profile.id, file)
+      toast.success(`成功导入 ${record.experiment_count} 个实验 ${record.result_count} 条结果`)
+      setFile(null)
+      setValidation(null)
+      loadRecentImports()
+    } catch (error: unknown) {
+      console.error('导入仪器结果失败:', error)
+      toast.error(getApiErrorMessage(error, '导入仪器结果失败'))
+      setValidation(null)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  // 方案保存后刷新并选中
+  const handleProfileSaved = async (saved: InstrumentImportProfile) => {
+    setFormOpen(false)
+    setProfileId(saved.id)
+    setValidation(null)
+    await loadProfiles()
+  }
+
+  return (
+    <div className='space-y-6'>
+      <div className='bg-white rounded-lg shadow p-6 space-y-4'>
+        <h3 className='text-lg font-medium text-gray-900'>仪器结果导入</h3>
+
+        {/* 映射方案 */}
+        <div className='flex items-end space-x-3'>
+          <div className='flex-1'>
+            <label className='block text-sm font-medium text-gray-700 mb-2'>
+              映射方案 <span className='text-red-500'>*</span>
+            </label>
+            <select
+              value={profileId}
+              onChange={e => {
+                setProfileId(e.target.value)
+                setValidation(null)
+              }}
+              className='w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+            >
+              <option value=''>请选择映射方案</option>
+              {profiles.map(item => (
+                <option key={item.id} value={item.id} disabled={!item.is_active}>
+                  {item.name}
+                  {item.equipment ? `（${item.equipment.name}）` : ''}
+                  {!item.is_active ? ' [已停用]' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          {canManageProfiles && (
+            <>
+              <button
+                type='button'
+                onClick={() => {
+                  setEditingProfile(null)
+                  setFormOpen(true)
+                }}
+                className='flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
+              >
+                <Plus className='w-4 h-4 mr-1' />
+                新建方案
+              </button>
+              <button
+                type='button'
+                disabled={!profile}
+                onClick={() => {
+                  setEditingProfile(profile || null)
+                  setFormOpen(true)
+                }}
+                className='flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50'
+              >
+                <Edit className='w-4 h-4 mr-1' />
+                编辑方案
+              </button>
+            </>
+          )}
+        </div>
+
+        {profile && (
+          <p className='text-xs text-gray-500'>
+            第 {profile.header_row} 行为表头；样本列「{profile.sample_column}」按
+            {profile.sample_key === 'barcode' ? '样本条码' : '样本编号'}匹配；
+            {profile.layout === 'wide'
+              ? `项目列 ${profile.item_columns.map(item => `${item.column}→${item.item_code}`).join('、')}`
+              : `项目列「${profile.item_column}」，结果列「${profile.value_column}」`}
+            {profile.skip_sample_pattern && `；跳过样本 ${profile.skip_sample_pattern}`}
+          </p>
+        )}
+
+        {/* 选择文件 */}
+        <div className='flex items-center justify-between border border-dashed border-gray-300 rounded-md p-4'>
+          <div className='flex items-center space-x-3'>
+            <FileSpreadsheet className='w-6 h-6 text-green-600' />
+            <div>
+              <p className='text-sm font-medium text-gray-900'>{file ? file.name : '选择仪器结果文件'}</p>
+              <p className='text-xs text-gray-500'>支持 .csv、.tsv、.txt、.xlsx，分隔符和引号按方案解析</p>
+            </div>
+          </div>
+          <label className='px-3 py-1.5 text-sm border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50'>
+            {file ? '重新选择' : '选择文件'}
+            <input
+              type='file'
+              accept='.csv,.tsv,.txt,.xlsx'
+              className='hidden'
+              onChange={handleFileChange}
+            />
+          </label>
+        </div>
+
+        <div className='flex justify-end space-x-3'>
+          <button
+            type='button'
+            onClick={handleValidate}
+            disabled={!file || !profile || validating || importing}
+            className='px-4 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50 text-sm'
+          >
+            {validating ? '校验中...' : '校验预览'}
+          </button>
+          <button
+            type='button'
+            onClick={handleImport}
+            disabled={!validation || validation.error_count > 0 || validation.result_count === 0 || importing}
+            className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+          >
+            {importing ? '导入中...' : '确认导入'}
+          </button>
+        </div>
+      </div>
+
+      {/* 校验结果 */}
+      {validation && (
+        <div className='bg-white rounded-lg shadow p-6 space-y-4'>
+          {validation.error_count > 0 ? (
+            <div className='flex items-center text-sm text-red-600'>
+              <AlertTriangle className='w-4 h-4 mr-1' />
+              共 {validation.total_rows} 行，跳过 {validation.skipped_count} 行，
+              {validation.error_count} 行有错误，修正前不能导入
+            </div>
+          ) : (
+            <div className='flex items-center text-sm text-green-600'>
+              <CheckCircle className='w-4 h-4 mr-1' />
+              共 {validation.total_rows} 行，跳过 {validation.skipped_count} 行，
+              {validation.experiments.length} 个实验 {validation.result_count} 条结果待导入
+            </div>
+          )}
+
+          {validation.errors.length > 0 && (
+            <div className='max-h-64 overflow-y-auto border rounded-md'>
+              <table className='w-full text-sm'>
+                <thead className='bg-gray-50 sticky top-0'>
+                  <tr className='text-left text-gray-600'>
+                    <th className='px-3 py-2 w-20'>行号</th>
+                    <th className='px-3 py-2 w-40'>列</th>
+                    <th className='px-3 py-2'>错误</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {validation.errors.map((error, index) => (
+                    <tr key={index} className='border-t'>
+                      <td className='px-3 py-1.5'>{error.row_no}</td>
+                      <td className='px-3 py-1.5'>{error.column}</td>
+                      <td className='px-3 py-1.5 text-red-600'>{error.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {validation.experiments.length > 0 && (
+            <div className='max-h-96 overflow-y-auto border rounded-md'>
+              <table className='w-full text-sm'>
+                <thead className='bg-gray-50 sticky top-0'>
+                  <tr className='text-left text-gray-600'>
+                    <th className='px-3 py-2'>样本编号</th>
+                    <th className='px-3 py-2'>实验编号</th>
+                    <th className='px-3 py-2'>结果</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {validation.experiments.map(experiment => (
+                    <tr key={experiment.experiment_id} className='border-t align-top'>
+                      <td className='px-3 py-1.5'>{experiment.sample_no}</td>
+                      <td className='px-3 py-1.5'>
+                        {experiment.experiment_no}
+                        {experiment.status === 'pending' && (
+                          <span className='ml-1 text-xs text-gray-500'>（将自动开始）</span>
+                        )}
+                      </td>
+                      <td className='px-3 py-1.5'>
+                        {experiment.results
+                          .map(result => `${result.item_name} ${result.result_value}${result.unit || ''}`)
+                          .join('；')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 最近导入 */}
+      {recentImports.length > 0 && (
+        <div className='bg-white rounded-lg shadow p-6'>
+          <h3 className='text-lg font-medium text-gray-900 mb-4'>最近导入</h3>
+          <table className='w-full text-sm'>
+            <thead className='bg-gray-50'>
+              <tr className='text-left text-gray-600'>
+                <th className='px-3 py-2'>文件</th>
+                <th className='px-3 py-2'>映射方案</th>
+                <th className='px-3 py-2'>实验数</th>
+                <th className='px-3 py-2'>结果数</th>
+                <th className='px-3 py-2'>导入人</th>
+                <th className='px-3 py-2'>导入时间</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recentImports.map(record => (
+                <tr key={record.id} className='border-t'>
+                  <td className='px-3 py-1.5'>{record.file_name}</td>
+                  <td className='px-3 py-1.5'>{record.instrument_import_profiles?.name || '-'}</td>
+                  <td className='px-3 py-1.5'>{record.experiment_count}</td>
+                  <td className='px-3 py-1.5'>{record.result_count}</td>
+                  <td className='px-3 py-1.5'>{record.importer?.real_name || '-'}</td>
+                  <td className='px-3 py-1.5'>{new Date(record.imported_at).toLocaleString('zh-CN')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <InstrumentImportProfileForm
+        open={formOpen}
+        method={method}
+        profile={editingProfile}
+        onClose={() => setFormOpen(false)}
+        onSaved={handleProfileSaved}
+      />
+    </div>
+  )
+}
+
+export default InstrumentResultImport
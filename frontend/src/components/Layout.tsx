@@ -82,6 +82,11 @@ const menuItems = [
         label: '样本销毁',
         permission: 'sample.destroy',
       },
+      {
+        path: '/sample/recollection',
+        label: '拒收重采',
+        permission: 'sample.list',
+      },
     ],
   },
   {
@@ -100,6 +105,16 @@ const menuItems = [
         label: '普检数据录入',
         permission: 'routine.data_entry',
       },
+      {
+        path: '/general-experiment/plate-layout',
+        label: '普检孔板布局',
+        permission: 'routine.data_entry',
+      },
+      {
+        path: '/general-experiment/assignment',
+        label: '普检实验分配',
+        permission: 'routine.data_entry',
+      },
       {
         path: '/general-experiment/data-review',
         label: '普检数据审核',
@@ -128,6 +143,31 @@ const menuItems = [
         label: '质谱数据录入',
         permission: 'mass_spec.data_entry',
       },
+      {
+        path: '/mass-spec/plate-layout',
+        label: '质谱孔板布局',
+        permission: 'mass_spec.data_entry',
+      },
+      {
+        path: '/mass-spec/assignment',
+        label: '质谱实验分配',
+        permission: 'mass_spec.data_entry',
+      },
+      {
+        path: '/mass-spec/injection-sequence',
+        label: '进样序列',
+        permission: 'mass_spec.list',
+      },
+      {
+        path: '/mass-spec/calibration',
+        label: '校准曲线定量',
+        permission: 'mass_spec.data_entry',
+      },
+      {
+        path: '/mass-spec/compound-matching',
+        label: '化合物鉴定',
+        permission: 'mass_spec.list',
+      },
       {
         path: '/mass-spec/data-review',
         label: '质谱数据审核',
@@ -235,6 +275,11 @@ const menuItems = [
         label: '环境监控',
         permission: 'environment.monitoring',
       },
+      {
+        path: '/environment/excursions',
+        label: '温度偏离评估',
+        permission: 'environment.monitoring',
+      },
     ],
   },
   {
@@ -0,0 +1,158 @@
+/**
+ * Levey-Jennings质控图
+ * 以靶值为中心线绘制±1SD、±2SD、±3SD控制线，质控点按判定结果着色，超出±4SD的点画在图边缘
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React from 'react'
+import type { LeveyJenningsData } from '../services/qcService'
+
+// 判定结果颜色
+const statusColors: Record<string, string> = {
+  accepted: '#16a34a',
+  warning: '#ca8a04',
+  rejected: '#dc2626',
+}
+
+// 控制线：SD倍数、颜色、线型
+const controlLines = [
+  { sd: 3, color: '#dc2626', dash: '' },
+  { sd: 2, color: '#ca8a04', dash: '6 4' },
+  { sd: 1, color: '#9ca3af', dash: '2 4' },
+]
+
+// 纵轴范围（SD倍数）
+const Y_RANGE = 4
+
+interface LeveyJenningsChartProps {
+  data: LeveyJenningsData
+  height?: number
+}
+
+const LeveyJenningsChart: React.FC<LeveyJenningsChartProps> = ({ data, height = 320 }) => {
+  const width = 900
+  const padding = { top: 20, right: 90, bottom: 40, left: 20 }
+  const plotWidth = width - padding.left - padding.right
+  const plotHeight = height - padding.top - padding.bottom
+  const { points, target_mean: mean, target_sd: sd } = data
+
+  // Z值映射到纵坐标，超出范围的点截断到边缘
+  const toY = (z: number) => {
+    const clamped = Math.max(-Y_RANGE, Math.min(Y_RANGE, z))
+    return padding.top + plotHeight / 2 - (clamped / Y_RANGE) * (plotHeight / 2)
+  }
+  const toX = (index: number) =>
+    padding.left + (points.length <= 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth)
+
+  // 按当前靶值计算Z值，靶值调整后历史点仍以测定值为准显示
+  const zOf = (value: number) => (value - mean) / sd
+  const formatValue = (value: number) => Number(value.toFixed(4)).toString()
+
+  // 横轴日期标签，点多时间隔显示
+  const labelStep = Math.max(1, Math.ceil(points.length / 10))
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className='w-full h-auto' role='img'>
+      <rect
+        x={padding.left}
+        y={padding.top}
+        width={plotWidth}
+        height={plotHeight}
+        fill='#ffffff'
+        stroke='#e5e7eb'
+      />
+
+      {/* 靶值线 */}
+      <line
+        x1={padding.left}
+        x2={padding.left + plotWidth}
+        y1={toY(0)}
+        y2={toY(0)}
+        stroke='#2563eb'
+        strokeWidth={1.5}
+      />
+      <text x={padding.left + plotWidth + 6} y={toY(0) + 4} fontSize={11} fill='#2563eb'>
+        靶值 {formatValue(mean)}
+      </text>
+
+      {/* ±1SD、±2SD、±3SD控制线 */}
+      {controlLines.map(line =>
+        [1, -1].map(sign => (
+          <g key={`${line.sd}-${sign}`}>
+            <line
+              x1={padding.left}
+              x2={padding.left + plotWidth}
+              y1={toY(sign * line.sd)}
+              y2={toY(sign * line.sd)}
+              stroke={line.color}
+              strokeDasharray={line.dash}
+            />
+            <text
+              x={padding.left + plotWidth + 6}
+              y={toY(sign * line.sd) + 4}
+              fontSize={11}
+              fill={line.color}
+            >
+              {sign > 0 ? '+' : '-'}
+              {line.sd}SD {formatValue(mean + sign * line.sd * sd)}
+            </text>
+          </g>
+        ))
+      )}
+
+      {/* 质控点连线 */}
+      {points.length > 1 && (
+        <polyline
+          fill='none'
+          stroke='#6b7280'
+          strokeWidth={1}
+          points={points.map((point, index) => `${toX(index)},${toY(zOf(Number(point.measured_value)))}`).join(' ')}
+        />
+      )}
+
+      {/* 质控点 */}
+      {points.map((point, index) => {
+        const z = zOf(Number(point.measured_value))
+        const rules = (point.violations || []).map(item => item.rule).join('、')
+        return (
+          <g key={point.id}>
+            <circle
+              cx={toX(index)}
+              cy={toY(z)}
+              r={point.status === 'accepted' ? 3.5 : 5}
+              fill={statusColors[point.status] || '#6b7280'}
+              stroke={point.status === 'rejected' && !point.resolved_at ? '#7f1d1d' : '#ffffff'}
+              strokeWidth={1.5}
+            >
+              <title>
+                {`${new Date(point.measured_at).toLocaleString('zh-CN')}  批次${point.batch_no}\n`
+                  + `测定值 ${point.measured_value}  Z值 ${point.z_score}`
+                  + (rules ? `\n违反规则：${rules}` : '')}
+              </title>
+            </circle>
+            {index % labelStep === 0 && (
+              <text
+                x={toX(index)}
+                y={height - padding.bottom + 16}
+                fontSize={10}
+                fill='#6b7280'
+                textAnchor='middle'
+              >
+                {new Date(point.measured_at).toLocaleDateString('zh-CN', { month: '2-digit', day: '2-digit' })}
+              </text>
+            )}
+          </g>
+        )
+      })}
+
+      {points.length === 0 && (
+        <text x={padding.left + plotWidth / 2} y={toY(0) - 10} fontSize={13} fill='#9ca3af' textAnchor='middle'>
+          所选期间无质控结果
+        </text>
+      )}
+    </svg>
+  )
+}
+
+export default LeveyJenningsChart
@@ -0,0 +1,822 @@
+/**
+ * 孔板布局设计器
+ * 按排布方案自动填充批次孔板，点击孔位调整样本、校准品、质控品和空白，确认后导出工作列表和打印布局图
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect, useMemo } from 'react'
+import {
+  Grid3X3,
+  Search,
+  Wand2,
+  Save,
+  CheckCircle,
+  Unlock,
+  Download,
+  Printer,
+  ArrowLeftRight,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../lib/http'
+import { useAuthStore } from '../stores/auth'
+import type { ExperimentMethod } from '../services/experimentService'
+import {
+  PlateLayoutService,
+  type PlateFormat,
+  type PlateFillPattern,
+  type PlateLayout,
+  type PlateWell,
+  type WellType,
+  type WorklistFormat,
+  type BatchPlateLayouts,
+} from '../services/plateLayoutService'
+
+// 可撤销孔板确认的角色
+const reopenRoles = ['admin', 'lab_manager']
+
+// 孔板行列数
+const plateDimensions: Record<PlateFormat, { rows: number; cols: number }> = {
+  96: { rows: 8, cols: 12 },
+  384: { rows: 16, cols: 24 },
+}
+
+// 孔位类型配置
+const wellTypeConfig: Record<WellType, { label: string; className: string }> = {
+  sample: { label: '样本', className: 'bg-blue-100 border-blue-400 text-blue-800' },
+  calibrator: { label: '校准品', className: 'bg-yellow-100 border-yellow-400 text-yellow-800' },
+  control: { label: '质控品', className: 'bg-green-100 border-green-400 text-green-800' },
+  blank: { label: '空白', className: 'bg-gray-200 border-gray-400 text-gray-700' },
+}
+
+// 工作列表格式选项
+const worklistFormatOptions: { label: string; value: WorklistFormat }[] = [
+  { label: '通用CSV', value: 'generic' },
+  { label: 'Tecan 移液工作站', value: 'tecan' },
+  { label: 'Hamilton 移液工作站', value: 'hamilton' },
+  { label: 'Agilent MassHunter 进样序列', value: 'masshunter' },
+]
+
+/**
+ * 生成孔位编号
+ * @param rowNo 行号
+ * @param colNo 列号
+ * @returns 孔位编号，如 A1
+ */
+const wellPosition = (rowNo: number, colNo: number) =>
+  `${String.fromCharCode(64 + rowNo)}${colNo}`
+
+/**
+ * 标准品列表转文本
+ * @param items 校准品或质控品
+ * @returns 以逗号分隔的名称
+ */
+const standardsToText = (items: { label: string }[]) =>
+  items.map(item => item.label).join(',')
+
+/**
+ * 文本转标准品列表
+ * @description 名称末尾的数字或字母作为水平，如 CAL3 的水平为 3，QC-H 的水平为 H
+ * @param text 以逗号分隔的名称
+ * @returns 校准品或质控品
+ */
+const textToStandards = (text: string) =>
+  text
+    .split(/[,，]/)
+    .map(label => label.trim())
+    .filter(Boolean)
+    .map(label => ({ label, level: label.match(/[-_]?([0-9]+|[A-Za-z])$/)?.[1] }))
+
+/**
+ * 下载文件
+ * @param blob 文件内容
+ * @param fileName 文件名
+ */
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 60000)
+}
+
+interface PlateLayoutDesignerProps {
+  method: ExperimentMethod
+}
+
+const PlateLayoutDesigner: React.FC<PlateLayoutDesignerProps> = ({ method }) => {
+  const { user } = useAuthStore()
+  const canReopen = (user?.roles || []).some(role => reopenRoles.includes(role))
+
+  const [batchInput, setBatchInput] = useState('')
+  const [batch, setBatch] = useState<BatchPlateLayouts | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  // 排布方案
+  const [patterns, setPatterns] = useState<PlateFillPattern[]>([])
+  const [pattern, setPattern] = useState<PlateFillPattern | null>(null)
+  const [plateFormat, setPlateFormat] = useState<PlateFormat>(96)
+
+  // 当前孔板及编辑中的孔位
+  const [plateIndex, setPlateIndex] = useState(0)
+  const [wells, setWells] = useState<PlateWell[]>([])
+  const [dirty, setDirty] = useState(false)
+  const [selected, setSelected] = useState<{ row_no: number; col_no: number } | null>(null)
+  const [swapping, setSwapping] = useState(false)
+  const [worklistFormat, setWorklistFormat] = useState<WorklistFormat>(
+    method === 'mass_spec' ? 'masshunter' : 'generic'
+  )
+
+  const layout: PlateLayout | undefined = batch?.layouts[plateIndex]
+  const editable = layout?.status === 'draft'
+
+  useEffect(() => {
+    PlateLayoutService.getPatterns()
+      .then(result => {
+        setPatterns(result)
+        setPattern(result[0] || null)
+      })
+      .catch(error => {
+        console.error('加载排布方案失败:', error)
+        toast.error('加载排布方案失败')
+      })
+  }, [])
+
+  // 切换孔板时载入孔位
+  useEffect(() => {
+    setWells(layout?.plate_wells || [])
+    setDirty(false)
+    setSelected(null)
+    setSwapping(false)
+  }, [layout])
+
+  // 加载批次
+  const loadBatch = async (batchNo: string, keepPlate = false) => {
+    if (!batchNo.trim()) return
+
+    setLoading(true)
+    try {
+      const result = await PlateLayoutService.getBatchLayouts(batchNo.trim())
+      if (result.method !== method) {
+        toast.error('该批次不属于当前实验方法')
+        return
+      }
+      setBatch(result)
+      if (!keepPlate) setPlateIndex(0)
+      if (result.layouts[0]) setPlateFormat(result.layouts[0].plate_format)
+    } catch (error: unknown) {
+      console.error('加载批次失败:', error)
+      toast.error(getApiErrorMessage(error, '加载批次失败'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // 已分配孔位的实验
+  const placedExperiments = useMemo(() => {
+    const placed = new Set<string>()
+    batch?.layouts.forEach((item, index) => {
+      const plateWells = index === plateIndex ? wells : item.plate_wells
+      plateWells.forEach(well => well.experiment_id && placed.add(well.experiment_id))
+    })
+    return placed
+  }, [batch, plateIndex, wells])
+
+  const unplaced = (batch?.experiments || []).filter(
+    experiment => !placedExperiments.has(experiment.id)
+  )
+
+  const wellAt = (rowNo: number, colNo: number) =>
+    wells.find(well => well.row_no === rowNo && well.col_no === colNo)
+
+  const selectedWell = selected ? wellAt(selected.row_no, selected.col_no) : undefined
+
+  // 自动填充
+  const handleAutoFill = async () => {
+    if (!batch || !pattern) return
+    if (
+      batch.layouts.length > 0 &&
+      !window.confirm('重新生成将替换批次现有的草稿孔板布局，确定继续吗？')
+    )
+      return
+
+    setSubmitting(true)
+    try {
+      const layouts = await PlateLayoutService.autoFill(batch.batch_no, plateFormat, pattern)
+      toast.success(`已生成 ${layouts.length} 块孔板`)
+      setBatch({ ...batch, layouts })
+      setPlateIndex(0)
+    } catch (error: unknown) {
+      console.error('自动填充失败:', error)
+      toast.error(getApiErrorMessage(error, '自动填充失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 点击孔位：交换模式下与选中孔位交换内容，否则选中
+  const handleWellClick = (rowNo: number, colNo: number) => {
+    if (swapping && selected && editable) {
+      const source = wellAt(selected.row_no, selected.col_no)
+      const target = wellAt(rowNo, colNo)
+      setWells([
+        ...wells.filter(well => well !== source && well !== target),
+        ...(source ? [{ ...source, row_no: rowNo, col_no: colNo }] : []),
+        ...(target ? [{ ...target, row_no: selected.row_no, col_no: selected.col_no }] : []),
+      ])
+      setDirty(true)
+      setSwapping(false)
+      setSelected({ row_no: rowNo, col_no: colNo })
+      return
+    }
+    setSelected({ row_no: rowNo, col_no: colNo })
+  }
+
+  // 修改选中孔位
+  const updateSelectedWell = (changes: Partial<PlateWell> | null) => {
+    if (!selected) return
+
+    const rest = wells.filter(
+      well => !(well.row_no === selected.row_no && well.col_no === selected.col_no)
+    )
+    if (changes === null) {
+      setWells(rest)
+    } else {
+      const current = selectedWell || {
+        row_no: selected.row_no,
+        col_no: selected.col_no,
+        well_type: 'blank' as WellType,
+        replicate: 1,
+      }
+      const next = { ...current, ...changes }
+      // 样本孔显示所选实验的样本信息
+      if (next.well_type === 'sample' && changes.experiment_id) {
+        const experiment = batch?.experiments.find(item => item.id === changes.experiment_id)
+        next.samples = experiment?.samples || null
+        next.experiments = experiment
+          ? { id: experiment.id, experiment_no: experiment.experiment_no, test_products: experiment.test_products }
+          : null
+      }
+      if (next.well_type !== 'sample') {
+        next.experiment_id = null
+        next.samples = null
+        next.experiments = null
+      }
+      setWells([...rest, next])
+    }
+    setDirty(true)
+  }
+
+  // 保存孔位
+  const handleSave = async () => {
+    if (!layout || !batch) return
+    if (wells.some(well => well.well_type === 'sample' && !well.experiment_id)) {
+      toast.error('样本孔必须选择实验')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const updated = await PlateLayoutService.saveWells(
+        layout.id,
+        wells.map(well => ({
+          row_no: well.row_no,
+          col_no: well.col_no,
+          well_type: well.well_type,
+          experiment_id: well.experiment_id || null,
+          label: well.label || null,
+          level: well.level || null,
+          concentration: well.concentration ?? null,
+          replicate: well.replicate || 1,
+        }))
+      )
+      toast.success('孔位分配已保存')
+      setBatch({
+        ...batch,
+        layouts: batch.layouts.map(item => (item.id === updated.id ? updated : item)),
+      })
+    } catch (error: unknown) {
+      console.error('保存孔位失败:', error)
+      toast.error(getApiErrorMessage(error, '保存孔位失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 确认或撤销确认
+  const handleStatus = async (action: 'confirm' | 'reopen') => {
+    if (!layout || !batch) return
+    if (action === 'confirm' && dirty) {
+      toast.error('请先保存孔位分配')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const updated =
+        action === 'confirm'
+          ? await PlateLayoutService.confirm(layout.id)
+          : await PlateLayoutService.reopen(layout.id)
+      toast.success(action === 'confirm' ? '孔板布局已确认' : '已撤销确认')
+      setBatch({
+        ...batch,
+        layouts: batch.layouts.map(item => (item.id === updated.id ? updated : item)),
+      })
+    } catch (error: unknown) {
+      console.error('更新孔板状态失败:', error)
+      toast.error(getApiErrorMessage(error, '更新孔板状态失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 导出工作列表
+  const handleExport = async () => {
+    if (!layout) return
+    try {
+      const blob = await PlateLayoutService.exportWorklist(layout.id, worklistFormat)
+      downloadBlob(blob, `${layout.batch_no}_P${layout.plate_no}_${worklistFormat}.csv`)
+    } catch (error) {
+      console.error('导出工作列表失败:', error)
+      toast.error('导出工作列表失败')
+    }
+  }
+
+  // 打印布局图
+  const handlePrintMap = async () => {
+    if (!layout) return
+    try {
+      const blob = await PlateLayoutService.printMap(layout.id)
+      window.open(URL.createObjectURL(blob), '_blank')
+    } catch (error) {
+      console.error('生成布局图失败:', error)
+      toast.error('生成布局图失败')
+    }
+  }
+
+  const dimensions = plateDimensions[layout?.plate_format || plateFormat]
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className='max-w-7xl mx-auto p-6 space-y-6'>
+      {/* 页面标题与批次 */}
+      <div className='bg-white rounded-lg shadow-md border p-6'>
+        <div className='flex items-center justify-between'>
+          <div className='flex items-center space-x-4'>
+            <Grid3X3 className='w-8 h-8 text-blue-600' />
+            <div>
+              <h1 className='text-2xl font-bold text-gray-900'>孔板布局</h1>
+              <p className='text-gray-600 mt-1'>
+                为实验批次分配样本、校准品、质控品和空白孔位，导出工作列表并打印布局图
+              </p>
+            </div>
+          </div>
+          <div className='flex items-center space-x-2'>
+            <input
+              type='text'
+              value={batchInput}
+              onChange={e => setBatchInput(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && loadBatch(batchInput)}
+              placeholder='输入实验批次号'
+              className='w-56 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
+            <button
+              onClick={() => loadBatch(batchInput)}
+              disabled={loading}
+              className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center space-x-2'
+            >
+              <Search className='w-4 h-4' />
+              <span>加载批次</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {batch && (
+        <div className='grid grid-cols-1 lg:grid-cols-4 gap-6'>
+          {/* 自动填充 */}
+          <div className='bg-white rounded-lg shadow-md border p-4 space-y-3'>
+            <h2 className='text-lg font-semibold text-gray-900'>自动填充</h2>
+            <p className='text-sm text-gray-500'>
+              批次 {batch.batch_no}，实验 {batch.experiments.length} 个，未分配{' '}
+              {unplaced.length} 个
+            </p>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>排布方案</label>
+              <select
+                value={pattern?.key || ''}
+                onChange={e =>
+                  setPattern(patterns.find(item => item.key === e.target.value) || null)
+                }
+                className={inputClass}
+              >
+                {patterns.map(item => (
+                  <option key={item.key} value={item.key}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className='grid grid-cols-2 gap-2'>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>孔板</label>
+                <select
+                  value={plateFormat}
+                  onChange={e => setPlateFormat(Number(e.target.value) as PlateFormat)}
+                  className={inputClass}
+                >
+                  <option value={96}>96孔</option>
+                  <option value={384}>384孔</option>
+                </select>
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>方向</label>
+                <select
+                  value={pattern?.direction || 'column'}
+                  onChange={e =>
+                    pattern &&
+                    setPattern({ ...pattern, direction: e.target.value as 'row' | 'column' })
+                  }
+                  className={inputClass}
+                >
+                  <option value='column'>逐列</option>
+                  <option value='row'>逐行</option>
+                </select>
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>空白孔</label>
+                <input
+                  type='number'
+                  min={0}
+                  value={pattern?.blanks ?? 0}
+                  onChange={e => pattern && setPattern({ ...pattern, blanks: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>样本复孔</label>
+                <input
+                  type='number'
+                  min={1}
+                  max={4}
+                  value={pattern?.sample_replicates ?? 1}
+                  onChange={e =>
+                    pattern && setPattern({ ...pattern, sample_replicates: Number(e.target.value) })
+                  }
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>校准品</label>
+              <input
+                type='text'
+                value={standardsToText(pattern?.calibrators || [])}
+                onChange={e =>
+                  pattern && setPattern({ ...pattern, calibrators: textToStandards(e.target.value) })
+                }
+                placeholder='CAL1,CAL2,CAL3'
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>质控品</label>
+              <input
+                type='text'
+                value={standardsToText(pattern?.controls || [])}
+                onChange={e =>
+                  pattern && setPattern({ ...pattern, controls: textToStandards(e.target.value) })
+                }
+                placeholder='QC-L,QC-H'
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                每隔多少个样本插入质控（0 不插入）
+              </label>
+              <input
+                type='number'
+                min={0}
+                value={pattern?.control_interval ?? 0}
+                onChange={e =>
+                  pattern && setPattern({ ...pattern, control_interval: Number(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </div>
+            <label className='flex items-center text-sm text-gray-700'>
+              <input
+                type='checkbox'
+                checked={Boolean(pattern?.trailing_controls)}
+                onChange={e =>
+                  pattern && setPattern({ ...pattern, trailing_controls: e.target.checked })
+                }
+                className='rounded border-gray-300 mr-2'
+              />
+              板末放置质控
+            </label>
+            <label className='flex items-center text-sm text-gray-700'>
+              <input
+                type='checkbox'
+                checked={Boolean(pattern?.skip_edge_wells)}
+                onChange={e =>
+                  pattern && setPattern({ ...pattern, skip_edge_wells: e.target.checked })
+                }
+                className='rounded border-gray-300 mr-2'
+              />
+              跳过边缘孔
+            </label>
+            <button
+              onClick={handleAutoFill}
+              disabled={submitting || !pattern}
+              className='w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center space-x-2'
+            >
+              <Wand2 className='w-4 h-4' />
+              <span>{batch.layouts.length > 0 ? '重新生成' : '生成布局'}</span>
+            </button>
+          </div>
+
+          {/* 孔板 */}
+          <div className='lg:col-span-3 bg-white rounded-lg shadow-md border p-4 space-y-4'>
+            {batch.layouts.length === 0 ? (
+              <p className='py-12 text-center text-sm text-gray-500'>
+                批次尚未生成孔板布局，请选择排布方案后生成
+              </p>
+            ) : (
+              <>
+                <div className='flex flex-wrap items-center justify-between gap-2'>
+                  <div className='flex items-center space-x-2'>
+                    {batch.layouts.map((item, index) => (
+                      <button
+                        key={item.id}
+                        onClick={() => {
+                          if (dirty && !window.confirm('当前孔板有未保存的修改，确定切换吗？')) return
+                          setPlateIndex(index)
+                        }}
+                        className={`px-3 py-1.5 text-sm rounded-md ${
+                          index === plateIndex
+                            ? 'bg-blue-50 text-blue-700'
+                            : 'text-gray-600 hover:bg-gray-100'
+                        }`}
+                      >
+                        第{item.plate_no}板{item.status === 'confirmed' ? ' ✓' : ''}
+                      </button>
+                    ))}
+                  </div>
+                  <div className='flex items-center space-x-2'>
+                    {editable ? (
+                      <>
+                        <button
+                          onClick={handleSave}
+                          disabled={submitting || !dirty}
+                          className='px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center'
+                        >
+                          <Save className='w-4 h-4 mr-1' />
+                          保存
+                        </button>
+                        <button
+                          onClick={() => handleStatus('confirm')}
+                          disabled={submitting}
+                          className='px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center'
+                        >
+                          <CheckCircle className='w-4 h-4 mr-1' />
+                          确认布局
+                        </button>
+                      </>
+                    ) : (
+                      canReopen && (
+                        <button
+                          onClick={() => handleStatus('reopen')}
+                          disabled={submitting}
+                          className='px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center'
+                        >
+                          <Unlock className='w-4 h-4 mr-1' />
+                          撤销确认
+                        </button>
+                      )
+                    )}
+                    <select
+                      value={worklistFormat}
+                      onChange={e => setWorklistFormat(e.target.value as WorklistFormat)}
+                      className='px-2 py-1.5 text-sm border border-gray-300 rounded-md'
+                    >
+                      {worklistFormatOptions.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleExport}
+                      className='px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 flex items-center'
+                    >
+                      <Download className='w-4 h-4 mr-1' />
+                      工作列表
+                    </button>
+                    <button
+                      onClick={handlePrintMap}
+                      className='px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 flex items-center'
+                    >
+                      <Printer className='w-4 h-4 mr-1' />
+                      布局图
+                    </button>
+                  </div>
+                </div>
+
+                {/* 图例 */}
+                <div className='flex items-center space-x-4 text-xs'>
+                  {(Object.keys(wellTypeConfig) as WellType[]).map(type => (
+                    <span key={type} className='flex items-center'>
+                      <span
+                        className={`inline-block w-3 h-3 border rounded-sm mr-1 ${wellTypeConfig[type].className}`}
+                      />
+                      {wellTypeConfig[type].label}{' '}
+                      {wells.filter(well => well.well_type === type).length}
+                    </span>
+                  ))}
+                  {swapping && (
+                    <span className='text-orange-600'>点击目标孔位与 {selected && wellPosition(selected.row_no, selected.col_no)} 交换</span>
+                  )}
+                </div>
+
+                {/* 孔位网格 */}
+                <div className='overflow-auto'>
+                  <table className='border-collapse text-xs'>
+                    <thead>
+                      <tr>
+                        <th className='w-6' />
+                        {Array.from({ length: dimensions.cols }, (_, index) => (
+                          <th key={index} className='font-medium text-gray-600 px-0.5'>
+                            {index + 1}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Array.from({ length: dimensions.rows }, (_, rowIndex) => (
+                        <tr key={rowIndex}>
+                          <th className='font-medium text-gray-600 pr-1'>
+                            {String.fromCharCode(65 + rowIndex)}
+                          </th>
+                          {Array.from({ length: dimensions.cols }, (_, colIndex) => {
+                            const well = wellAt(rowIndex + 1, colIndex + 1)
+                            const isSelected =
+                              selected?.row_no === rowIndex + 1 && selected?.col_no === colIndex + 1
+                            return (
+                              <td key={colIndex} className='p-0.5'>
+                                <div
+                                  onClick={() => handleWellClick(rowIndex + 1, colIndex + 1)}
+                                  title={`${wellPosition(rowIndex + 1, colIndex + 1)}${
+                                    well
+                                      ? ` ${well.samples?.sample_no || well.label || ''}`
+                                      : ''
+                                  }`}
+                                  className={`${
+                                    dimensions.cols > 12 ? 'w-7 h-7' : 'w-14 h-10'
+                                  } border rounded cursor-pointer flex items-center justify-center overflow-hidden text-center leading-tight ${
+                                    well
+                                      ? wellTypeConfig[well.well_type].className
+                                      : 'bg-white border-gray-200 text-gray-300'
+                                  } ${isSelected ? 'ring-2 ring-offset-1 ring-blue-500' : ''}`}
+                                >
+                                  {well && dimensions.cols <= 12 && (
+                                    <span className='truncate px-0.5'>
+                                      {well.well_type === 'sample'
+                                        ? well.samples?.sample_no?.slice(-6)
+                                        : well.label}
+                                      {well.replicate > 1 && `#${well.replicate}`}
+                                    </span>
+                                  )}
+                                </div>
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* 选中孔位 */}
+                {selected && (
+                  <div className='border-t pt-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end text-sm'>
+                    <div>
+                      <div className='text-gray-500'>孔位</div>
+                      <div className='font-mono font-medium'>
+                        {wellPosition(selected.row_no, selected.col_no)}
+                      </div>
+                    </div>
+                    <div>
+                      <label className='block text-gray-500 mb-1'>类型</label>
+                      <select
+                        value={selectedWell?.well_type || ''}
+                        disabled={!editable}
+                        onChange={e =>
+                          e.target.value
+                            ? updateSelectedWell({ well_type: e.target.value as WellType })
+                            : updateSelectedWell(null)
+                        }
+                        className={inputClass}
+                      >
+                        <option value=''>空孔</option>
+                        {(Object.keys(wellTypeConfig) as WellType[]).map(type => (
+                          <option key={type} value={type}>
+                            {wellTypeConfig[type].label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {selectedWell?.well_type === 'sample' ? (
+                      <div className='md:col-span-2'>
+                        <label className='block text-gray-500 mb-1'>实验</label>
+                        <select
+                          value={selectedWell.experiment_id || ''}
+                          disabled={!editable}
+                          onChange={e => updateSelectedWell({ experiment_id: e.target.value })}
+                          className={inputClass}
+                        >
+                          <option value=''>请选择实验</option>
+                          {batch.experiments
+                            .filter(
+                              experiment =>
+                                experiment.id === selectedWell.experiment_id ||
+                                !placedExperiments.has(experiment.id) ||
+                                (selectedWell.replicate || 1) > 1
+                            )
+                            .map(experiment => (
+                              <option key={experiment.id} value={experiment.id}>
+                                {experiment.samples?.sample_no} · {experiment.experiment_no}
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+                    ) : (
+                      selectedWell && (
+                        <>
+                          <div>
+                            <label className='block text-gray-500 mb-1'>名称</label>
+                            <input
+                              type='text'
+                              maxLength={50}
+                              value={selectedWell.label || ''}
+                              disabled={!editable}
+                              onChange={e => updateSelectedWell({ label: e.target.value })}
+                              className={inputClass}
+                            />
+                          </div>
+                          <div>
+                            <label className='block text-gray-500 mb-1'>水平</label>
+                            <input
+                              type='text'
+                              maxLength={20}
+                              value={selectedWell.level || ''}
+                              disabled={!editable}
+                              onChange={e => updateSelectedWell({ level: e.target.value })}
+                              className={inputClass}
+                            />
+                          </div>
+                        </>
+                      )
+                    )}
+                    {editable && (
+                      <div className='flex space-x-2'>
+                        <button
+                          onClick={() => setSwapping(!swapping)}
+                          className={`px-3 py-2 text-sm border rounded-md flex items-center ${
+                            swapping
+                              ? 'border-orange-400 text-orange-600 bg-orange-50'
+                              : 'border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          <ArrowLeftRight className='w-4 h-4 mr-1' />
+                          交换
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {unplaced.length > 0 && (
+                  <p className='text-sm text-orange-600'>
+                    未分配孔位：
+                    {unplaced
+                      .slice(0, 10)
+                      .map(experiment => experiment.samples?.sample_no)
+                      .join('、')}
+                    {unplaced.length > 10 && ` 等 ${unplaced.length} 个`}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PlateLayoutDesigner
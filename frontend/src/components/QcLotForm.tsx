@@ -0,0 +1,314 @@
+/**
+ * 质控品批号表单
+ * 登记质控品批号和水平，并为各检测项目设定靶值和标准差
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../lib/http'
+import Modal from './Modal'
+import type { ExperimentMethod } from '../services/experimentService'
+import { QcService, type QcItem, type QcLot, type QcLotInput } from '../services/qcService'
+
+// 表单中的靶值行，数值以文本编辑
+interface TargetRow {
+  item_id: string
+  target_mean: string
+  target_sd: string
+  unit: string
+}
+
+/**
+ * 生成空白批号
+ * @param method 实验方法
+ * @returns 批号初始值
+ */
+const emptyLot = (method: ExperimentMethod): Omit<QcLotInput, 'targets'> => ({
+  lot_no: '',
+  material_name: '',
+  level: '',
+  manufacturer: '',
+  method,
+  expiry_date: '',
+  is_active: true,
+  remarks: '',
+})
+
+const emptyTarget: TargetRow = { item_id: '', target_mean: '', target_sd: '', unit: '' }
+
+interface QcLotFormProps {
+  open: boolean
+  method: ExperimentMethod
+  lot?: QcLot | null
+  items: QcItem[]
+  onClose: () => void
+  onSaved: (lot: QcLot) => void
+}
+
+const QcLotForm: React.FC<QcLotFormProps> = ({ open, method, lot, items, onClose, onSaved }) => {
+  const [form, setForm] = useState(emptyLot(method))
+  const [targets, setTargets] = useState<TargetRow[]>([emptyTarget])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    if (lot) {
+      setForm({
+        lot_no: lot.lot_no,
+        material_name: lot.material_name,
+        level: lot.level,
+        manufacturer: lot.manufacturer || '',
+        method: lot.method,
+        expiry_date: lot.expiry_date || '',
+        is_active: lot.is_active,
+        remarks: lot.remarks || '',
+      })
+      setTargets(
+        lot.qc_lot_targets.length > 0
+          ? lot.qc_lot_targets.map(target => ({
+            item_id: target.item_id,
+            target_mean: String(target.target_mean),
+            target_sd: String(target.target_sd),
+            unit: target.unit || '',
+          }))
+          : [emptyTarget]
+      )
+    } else {
+      setForm(emptyLot(method))
+      setTargets([emptyTarget])
+    }
+  }, [open, lot, method])
+
+  const update = (changes: Partial<typeof form>) => {
+    setForm(prev => ({ ...prev, ...changes }))
+  }
+
+  const updateTarget = (index: number, changes: Partial<TargetRow>) => {
+    setTargets(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  // 保存批号
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const rows = targets.filter(row => row.item_id)
+    if (rows.length === 0) {
+      toast.error('请至少设定一个检测项目的靶值')
+      return
+    }
+    if (new Set(rows.map(row => row.item_id)).size !== rows.length) {
+      toast.error('同一检测项目不能重复设定靶值')
+      return
+    }
+    const invalid = rows.find(row => !Number.isFinite(Number(row.target_mean)) || !(Number(row.target_sd) > 0))
+    if (invalid || rows.some(row => row.target_mean.trim() === '')) {
+      toast.error('请填写有效的靶值和大于0的标准差')
+      return
+    }
+
+    const payload: QcLotInput = {
+      ...form,
+      expiry_date: form.expiry_date || null,
+      targets: rows.map(row => ({
+        item_id: row.item_id,
+        target_mean: Number(row.target_mean),
+        target_sd: Number(row.target_sd),
+        unit: row.unit || null,
+      })),
+    }
+
+    try {
+      setSaving(true)
+      const saved = lot ? await QcService.updateLot(lot.id, payload) : await QcService.createLot(payload)
+      toast.success(lot ? '质控品批号已更新' : '质控品批号已创建')
+      onSaved(saved)
+    } catch (error: unknown) {
+      console.error('保存质控品批号失败:', error)
+      toast.error(getApiErrorMessage(error, '保存质控品批号失败'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <Modal open={open} onClose={onClose} title={lot ? '编辑质控品批号' : '新建质控品批号'} size='large'>
+      <form onSubmit={handleSubmit} className='space-y-4'>
+        <div className='grid grid-cols-2 md:grid-cols-3 gap-3'>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>
+              质控品批号<span className='text-red-500 ml-0.5'>*</span>
+            </label>
+            <input
+              type='text'
+              required
+              maxLength={50}
+              value={form.lot_no}
+              onChange={e => update({ lot_no: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>
+              质控品名称<span className='text-red-500 ml-0.5'>*</span>
+            </label>
+            <input
+              type='text'
+              required
+              maxLength={100}
+              value={form.material_name}
+              onChange={e => update({ material_name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>
+              质控水平<span className='text-red-500 ml-0.5'>*</span>
+            </label>
+            <input
+              type='text'
+              required
+              maxLength={20}
+              value={form.level}
+              onChange={e => update({ level: e.target.value })}
+              placeholder='如：L、H 或 1、2'
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>生产厂家</label>
+            <input
+              type='text'
+              maxLength={100}
+              value={form.manufacturer || ''}
+              onChange={e => update({ manufacturer: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>有效期至</label>
+            <input
+              type='date'
+              value={form.expiry_date || ''}
+              onChange={e => update({ expiry_date: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>备注</label>
+            <input
+              type='text'
+              maxLength={500}
+              value={form.remarks || ''}
+              onChange={e => update({ remarks: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <div className='flex items-center justify-between mb-2'>
+            <h4 className='text-sm font-semibold text-gray-900'>靶值</h4>
+            <button
+              type='button'
+              onClick={() => setTargets(prev => [...prev, emptyTarget])}
+              className='flex items-center text-sm text-blue-600 hover:text-blue-700'
+            >
+              <Plus className='w-4 h-4 mr-1' />
+              添加
+            </button>
+          </div>
+          <div className='space-y-2'>
+            {targets.map((row, index) => (
+              <div key={index} className='grid grid-cols-8 gap-2 items-center'>
+                <select
+                  value={row.item_id}
+                  onChange={e => {
+                    const item = items.find(option => option.id === e.target.value)
+                    updateTarget(index, { item_id: e.target.value, unit: row.unit || item?.unit || '' })
+                  }}
+                  className={`${inputClass} col-span-3`}
+                >
+                  <option value=''>选择检测项目</option>
+                  {items.map(item => (
+                    <option key={item.id} value={item.id}>
+                      {item.code} {item.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type='number'
+                  step='any'
+                  value={row.target_mean}
+                  onChange={e => updateTarget(index, { target_mean: e.target.value })}
+                  placeholder='靶值'
+                  className={`${inputClass} col-span-2`}
+                />
+                <input
+                  type='number'
+                  step='any'
+                  min={0}
+                  value={row.target_sd}
+                  onChange={e => updateTarget(index, { target_sd: e.target.value })}
+                  placeholder='标准差'
+                  className={inputClass}
+                />
+                <input
+                  type='text'
+                  maxLength={20}
+                  value={row.unit}
+                  onChange={e => updateTarget(index, { unit: e.target.value })}
+                  placeholder='单位'
+                  className={inputClass}
+                />
+                <button
+                  type='button'
+                  onClick={() => setTargets(prev => prev.filter((_, i) => i !== index))}
+                  className='text-red-600 hover:text-red-700 justify-self-center'
+                >
+                  <Trash2 className='w-4 h-4' />
+                </button>
+              </div>
+            ))}
+          </div>
+          {lot && (
+            <p className='mt-2 text-xs text-gray-500'>调整靶值只影响之后录入的质控结果，已有结果保留录入时的靶值和判定。</p>
+          )}
+        </div>
+
+        <label className='flex items-center text-sm text-gray-700'>
+          <input
+            type='checkbox'
+            checked={form.is_active}
+            onChange={e => update({ is_active: e.target.checked })}
+            className='rounded border-gray-300 mr-2'
+          />
+          启用
+        </label>
+
+        <div className='flex justify-end space-x-3 pt-2 border-t'>
+          <button
+            type='button'
+            onClick={onClose}
+            className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+          >
+            取消
+          </button>
+          <button
+            type='submit'
+            disabled={saving}
+            className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+          >
+            {saving ? '保存中...' : '保存'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default QcLotForm
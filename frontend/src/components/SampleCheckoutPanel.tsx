@@ -0,0 +1,995 @@
+/**
+ * 样本借出面板
+ * 借出单申请、审批、扫码取样出库、归还入库登记用量，以及借出中样本和逾期情况
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  Plus,
+  RefreshCw,
+  ScanLine,
+  AlertTriangle,
+  ClipboardList,
+  Users,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../lib/http'
+import DataTable from './DataTable'
+import Modal from './Modal'
+import { useAuthStore } from '../stores/auth'
+import {
+  SampleCheckoutService,
+  type CheckoutOrder,
+  type CheckoutOrderStatus,
+  type CheckoutReason,
+  type CheckoutItem,
+  type CheckoutItemStatus,
+  type CheckedOutSample,
+} from '../services/sampleCheckoutService'
+import { SampleService, type Sample } from '../services/sampleService'
+
+// 可审批借出单的角色
+const approverRoles = ['admin', 'lab_manager']
+
+// 借出原因选项
+const checkoutReasonOptions: { label: string; value: CheckoutReason }[] = [
+  { label: '检测使用', value: 'testing' },
+  { label: '样本转移', value: 'transfer' },
+  { label: '质量控制', value: 'qc' },
+  { label: '其他', value: 'other' },
+]
+
+// 借出单状态配置
+const orderStatusConfig: Record<
+  CheckoutOrderStatus,
+  { label: string; className: string }
+> = {
+  pending_approval: { label: '待审批', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: '已批准', className: 'bg-blue-100 text-blue-800' },
+  rejected: { label: '已驳回', className: 'bg-red-100 text-red-800' },
+  checked_out: { label: '已出库', className: 'bg-purple-100 text-purple-800' },
+  returned: { label: '已归还', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: '已取消', className: 'bg-gray-100 text-gray-800' },
+}
+
+// 借出单样本状态配置
+const itemStatusConfig: Record<
+  CheckoutItemStatus,
+  { label: string; className: string }
+> = {
+  pending: { label: '待取样', className: 'bg-yellow-100 text-yellow-800' },
+  picked: { label: '已出库', className: 'bg-purple-100 text-purple-800' },
+  returned: { label: '已归还', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: '未出库', className: 'bg-gray-100 text-gray-800' },
+}
+
+// 新建借出单表单
+interface OrderForm {
+  reason: CheckoutReason
+  purpose: string
+  destination: string
+  dueBackAt: string
+  remarks: string
+}
+
+const emptyOrderForm: OrderForm = {
+  reason: 'testing',
+  purpose: '',
+  destination: '',
+  dueBackAt: '',
+  remarks: '',
+}
+
+/**
+ * 格式化日期时间
+ * @param value ISO时间
+ * @returns 本地时间文本
+ */
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString() : '-'
+
+/**
+ * 状态标签
+ * @param config 状态名称和样式
+ * @returns JSX元素
+ */
+const renderBadge = (config: { label: string; className: string }) => (
+  <span
+    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.className}`}
+  >
+    {config.label}
+  </span>
+)
+
+/**
+ * 逾期标签
+ * @param hours 逾期小时数
+ * @returns JSX元素
+ */
+const renderOverdue = (hours?: number) => (
+  <span className='inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800'>
+    <AlertTriangle className='w-3 h-3 mr-1' />
+    逾期{hours ? ` ${hours} 小时` : ''}
+  </span>
+)
+
+const SampleCheckoutPanel: React.FC = () => {
+  const { user } = useAuthStore()
+  const canApprove = (user?.roles || []).some(role =>
+    approverRoles.includes(role)
+  )
+
+  const [view, setView] = useState<'orders' | 'outstanding'>('orders')
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  // 借出单列表
+  const [orders, setOrders] = useState<CheckoutOrder[]>([])
+  const [statusFilter, setStatusFilter] = useState<CheckoutOrderStatus | ''>('')
+
+  // 借出中样本
+  const [checkedOut, setCheckedOut] = useState<CheckedOutSample[]>([])
+  const [overdueOnly, setOverdueOnly] = useState(false)
+
+  // 新建借出单
+  const [createOpen, setCreateOpen] = useState(false)
+  const [orderForm, setOrderForm] = useState<OrderForm>(emptyOrderForm)
+  const [storedSamples, setStoredSamples] = useState<Sample[]>([])
+  const [sampleSearch, setSampleSearch] = useState('')
+  const [selectedSamples, setSelectedSamples] = useState<string[]>([])
+
+  // 审批
+  const [reviewTarget, setReviewTarget] = useState<CheckoutOrder | null>(null)
+  const [reviewComments, setReviewComments] = useState('')
+
+  // 扫码出库/归还
+  const [scanOrder, setScanOrder] = useState<CheckoutOrder | null>(null)
+  const [scanMode, setScanMode] = useState<'pick' | 'return'>('pick')
+  const [barcode, setBarcode] = useState('')
+  const [volumeUsed, setVolumeUsed] = useState('')
+  const barcodeInputRef = useRef<HTMLInputElement>(null)
+
+  // 加载借出单
+  const loadOrders = useCallback(async () => {
+    setLoading(true)
+    try {
+      const result = await SampleCheckoutService.getOrders({
+        limit: 100,
+        status: statusFilter,
+      })
+      setOrders(result.data)
+    } catch (error) {
+      console.error('加载借出单失败:', error)
+      toast.error('加载借出单失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter])
+
+  // 加载借出中样本
+  const loadCheckedOut = useCallback(async () => {
+    setLoading(true)
+    try {
+      setCheckedOut(
+        await SampleCheckoutService.getCheckedOutSamples({
+          overdue_only: overdueOnly || undefined,
+        })
+      )
+    } catch (error) {
+      console.error('加载借出中样本失败:', error)
+      toast.error('加载借出中样本失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [overdueOnly])
+
+  useEffect(() => {
+    if (view === 'orders') {
+      loadOrders()
+    } else {
+      loadCheckedOut()
+    }
+  }, [view, loadOrders, loadCheckedOut])
+
+  // 加载可借出的在库样本
+  const loadStoredSamples = useCallback(async (search: string) => {
+    try {
+      const result = await SampleService.getSamples({
+        status: 'in_storage',
+        search: search || undefined,
+        limit: 100,
+      })
+      setStoredSamples(result.data)
+    } catch (error) {
+      console.error('加载在库样本失败:', error)
+      toast.error('加载在库样本失败')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (createOpen) {
+      loadStoredSamples(sampleSearch)
+    }
+  }, [createOpen, sampleSearch, loadStoredSamples])
+
+  // 扫码弹窗打开或切换模式后聚焦条码输入框
+  useEffect(() => {
+    if (scanOrder) {
+      barcodeInputRef.current?.focus()
+    }
+  }, [scanOrder, scanMode])
+
+  // 打开新建借出单
+  const openCreate = () => {
+    setOrderForm(emptyOrderForm)
+    setSelectedSamples([])
+    setSampleSearch('')
+    setCreateOpen(true)
+  }
+
+  // 提交借出单
+  const handleCreate = async () => {
+    if (selectedSamples.length === 0) {
+      toast.error('请选择要借出的样本')
+      return
+    }
+    if (orderForm.reason === 'other' && !orderForm.purpose.trim()) {
+      toast.error('借出原因为其他时请填写用途')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const order = await SampleCheckoutService.createOrder({
+        sample_ids: selectedSamples,
+        reason: orderForm.reason,
+        purpose: orderForm.purpose || undefined,
+        destination: orderForm.destination || undefined,
+        due_back_at: orderForm.dueBackAt
+          ? new Date(orderForm.dueBackAt).toISOString()
+          : undefined,
+        remarks: orderForm.remarks || undefined,
+      })
+      toast.success(`借出单 ${order.order_no} 已提交审批`)
+      setCreateOpen(false)
+      loadOrders()
+    } catch (error: unknown) {
+      console.error('提交借出单失败:', error)
+      toast.error(getApiErrorMessage(error, '提交借出单失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 审批借出单
+  const handleReview = async (result: 'approved' | 'rejected') => {
+    if (!reviewTarget) return
+    if (result === 'rejected' && !reviewComments.trim()) {
+      toast.error('驳回时请填写审批意见')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      await SampleCheckoutService.reviewOrder(
+        reviewTarget.id,
+        result,
+        reviewComments || undefined
+      )
+      toast.success(result === 'approved' ? '借出单已批准' : '借出单已驳回')
+      setReviewTarget(null)
+      loadOrders()
+    } catch (error: unknown) {
+      console.error('审批借出单失败:', error)
+      toast.error(getApiErrorMessage(error, '审批借出单失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 取消借出单
+  const handleCancel = async (order: CheckoutOrder) => {
+    if (!window.confirm(`确定取消借出单 ${order.order_no} 吗？`)) return
+
+    try {
+      await SampleCheckoutService.cancelOrder(order.id)
+      toast.success('借出单已取消')
+      loadOrders()
+    } catch (error: unknown) {
+      console.error('取消借出单失败:', error)
+      toast.error(getApiErrorMessage(error, '取消借出单失败'))
+    }
+  }
+
+  // 打开扫码弹窗，有已出库样本时默认归还
+  const openScan = async (order: CheckoutOrder) => {
+    try {
+      const detail = await SampleCheckoutService.getOrder(order.id)
+      const items = detail.sample_checkout_items || []
+      setScanMode(
+        detail.status === 'checked_out' &&
+          items.some(item => item.status === 'picked')
+          ? 'return'
+          : 'pick'
+      )
+      setBarcode('')
+      setVolumeUsed('')
+      setScanOrder(detail)
+    } catch (error) {
+      console.error('加载借出单详情失败:', error)
+      toast.error('加载借出单详情失败')
+    }
+  }
+
+  // 扫码确认
+  const handleScan = async () => {
+    if (!scanOrder || !barcode.trim()) return
+
+    setSubmitting(true)
+    try {
+      const detail =
+        scanMode === 'pick'
+          ? await SampleCheckoutService.pickSample(scanOrder.id, barcode.trim())
+          : await SampleCheckoutService.returnSample(scanOrder.id, {
+              barcode: barcode.trim(),
+              volume_used: volumeUsed ? Number(volumeUsed) : undefined,
+            })
+      toast.success(
+        `${barcode.trim()} ${scanMode === 'pick' ? '已出库' : '已归还入库'}`
+      )
+      setScanOrder(detail)
+      setBarcode('')
+      setVolumeUsed('')
+      loadOrders()
+    } catch (error: unknown) {
+      console.error('扫码处理失败:', error)
+      toast.error(getApiErrorMessage(error, '扫码处理失败'))
+    } finally {
+      setSubmitting(false)
+      barcodeInputRef.current?.focus()
+    }
+  }
+
+  // 执行逾期检查
+  const handleOverdueCheck = async () => {
+    try {
+      const summary = await SampleCheckoutService.runOverdueCheck()
+      toast.success(
+        `逾期样本 ${summary.overdue} 个，新发送提醒 ${summary.notified} 个`
+      )
+      loadCheckedOut()
+    } catch (error) {
+      console.error('逾期检查失败:', error)
+      toast.error('逾期检查失败')
+    }
+  }
+
+  // 借出单表格列配置
+  const orderColumns = [
+    {
+      key: 'order_no',
+      title: '借出单号',
+      dataIndex: 'order_no',
+      render: (value: string, record: CheckoutOrder) => (
+        <div>
+          <div className='font-mono text-sm font-medium text-blue-600'>
+            {value}
+          </div>
+          <div className='text-xs text-gray-500'>
+            {record.requester?.real_name || '-'} ·{' '}
+            {formatTime(record.requested_at)}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'holder',
+      title: '借出人',
+      dataIndex: 'holder_id',
+      render: (_: string, record: CheckoutOrder) => (
+        <span className='text-sm'>{record.holder?.real_name || '-'}</span>
+      ),
+    },
+    {
+      key: 'reason',
+      title: '原因/去向',
+      dataIndex: 'reason',
+      render: (value: CheckoutReason, record: CheckoutOrder) => (
+        <div className='text-sm'>
+          <div>
+            {checkoutReasonOptions.find(o => o.value === value)?.label}
+            {record.purpose ? `（${record.purpose}）` : ''}
+          </div>
+          <div className='text-xs text-gray-500'>
+            {record.destination || '-'}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'sample_count',
+      title: '样本数',
+      dataIndex: 'sample_count',
+      render: (value: number, record: CheckoutOrder) => (
+        <span className='text-sm'>
+          {value}
+          {record.status === 'checked_out' &&
+            `（借出 ${record.picked_count ?? 0}，已还 ${record.returned_count ?? 0}）`}
+        </span>
+      ),
+    },
+    {
+      key: 'due_back_at',
+      title: '预计归还',
+      dataIndex: 'due_back_at',
+      render: (value: string, record: CheckoutOrder) => (
+        <div className='space-y-1'>
+          <div className='text-sm'>{formatTime(value)}</div>
+          {record.is_overdue && renderOverdue()}
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      title: '状态',
+      dataIndex: 'status',
+      render: (value: CheckoutOrderStatus) =>
+        renderBadge(orderStatusConfig[value]),
+    },
+    {
+      key: 'actions',
+      title: '操作',
+      dataIndex: 'id',
+      render: (_: string, record: CheckoutOrder) => (
+        <div className='flex items-center space-x-3 text-sm'>
+          {record.status === 'pending_approval' &&
+            canApprove &&
+            record.requested_by !== user?.id && (
+              <button
+                onClick={() => {
+                  setReviewComments('')
+                  setReviewTarget(record)
+                }}
+                className='text-green-600 hover:text-green-800'
+              >
+                审批
+              </button>
+            )}
+          {(record.status === 'approved' ||
+            record.status === 'checked_out') && (
+            <button
+              onClick={() => openScan(record)}
+              className='text-blue-600 hover:text-blue-800'
+            >
+              {record.status === 'approved' ? '扫码出库' : '出库/归还'}
+            </button>
+          )}
+          {(record.status === 'pending_approval' ||
+            record.status === 'approved') && (
+            <button
+              onClick={() => handleCancel(record)}
+              className='text-gray-600 hover:text-gray-800'
+            >
+              取消
+            </button>
+          )}
+        </div>
+      ),
+    },
+  ]
+
+  // 借出中样本表格列配置
+  const checkedOutColumns = [
+    {
+      key: 'sample_no',
+      title: '样本编号',
+      dataIndex: 'sample_id',
+      render: (_: string, record: CheckedOutSample) => (
+        <div>
+          <div className='font-mono text-sm font-medium text-blue-600'>
+            {record.samples.sample_no}
+          </div>
+          <div className='text-xs text-gray-500'>{record.samples.barcode}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'holder',
+      title: '借出人',
+      dataIndex: 'order_id',
+      render: (_: string, record: CheckedOutSample) => (
+        <div className='text-sm'>
+          <div>{record.sample_checkout_orders.holder?.real_name || '-'}</div>
+          <div className='text-xs text-gray-500'>
+            {record.sample_checkout_orders.destination || '-'}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'order_no',
+      title: '借出单号',
+      dataIndex: 'order_id',
+      render: (_: string, record: CheckedOutSample) => (
+        <span className='font-mono text-sm'>
+          {record.sample_checkout_orders.order_no}
+        </span>
+      ),
+    },
+    {
+      key: 'from_location',
+      title: '原存储位置',
+      dataIndex: 'from_location',
+      render: (value: string) => <span className='text-sm'>{value || '-'}</span>,
+    },
+    {
+      key: 'picked_at',
+      title: '出库时间',
+      dataIndex: 'picked_at',
+      render: (value: string) => (
+        <span className='text-sm'>{formatTime(value)}</span>
+      ),
+    },
+    {
+      key: 'due_back_at',
+      title: '预计归还',
+      dataIndex: 'order_id',
+      render: (_: string, record: CheckedOutSample) => (
+        <div className='space-y-1'>
+          <div className='text-sm'>
+            {formatTime(record.sample_checkout_orders.due_back_at)}
+          </div>
+          {record.is_overdue && renderOverdue(record.overdue_hours)}
+        </div>
+      ),
+    },
+  ]
+
+  // 扫码弹窗样本列配置
+  const scanItemColumns = [
+    {
+      key: 'sample_no',
+      title: '样本',
+      dataIndex: 'sample_id',
+      render: (_: string, record: CheckoutItem) => (
+        <div>
+          <div className='font-mono text-sm'>{record.samples?.sample_no}</div>
+          <div className='text-xs text-gray-500'>{record.samples?.barcode}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'location',
+      title: '位置',
+      dataIndex: 'from_location',
+      render: (value: string, record: CheckoutItem) => (
+        <span className='text-sm'>
+          {record.status === 'returned'
+            ? record.return_location || '-'
+            : value || '-'}
+        </span>
+      ),
+    },
+    {
+      key: 'volume',
+      title: '余量/用量',
+      dataIndex: 'volume_used',
+      render: (value: number, record: CheckoutItem) => (
+        <span className='text-sm'>
+          {record.samples?.volume ?? '-'} {record.samples?.unit || ''}
+          {value !== null && value !== undefined && ` / 用 ${value}`}
+        </span>
+      ),
+    },
+    {
+      key: 'status',
+      title: '状态',
+      dataIndex: 'status',
+      render: (value: CheckoutItemStatus) =>
+        renderBadge(itemStatusConfig[value]),
+    },
+  ]
+
+  return (
+    <div className='space-y-6'>
+      <div className='flex items-center justify-between'>
+        <div className='flex items-center space-x-2'>
+          {[
+            { key: 'orders', label: '借出单', icon: ClipboardList },
+            { key: 'outstanding', label: '借出中样本', icon: Users },
+          ].map(item => {
+            const Icon = item.icon
+            return (
+              <button
+                key={item.key}
+                onClick={() => setView(item.key as 'orders' | 'outstanding')}
+                className={`flex items-center px-3 py-1.5 text-sm rounded-md transition-colors ${
+                  view === item.key
+                    ? 'bg-blue-50 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <Icon className='w-4 h-4 mr-1' />
+                {item.label}
+              </button>
+            )
+          })}
+        </div>
+        <div className='flex items-center space-x-3'>
+          {view === 'orders' ? (
+            <>
+              <select
+                value={statusFilter}
+                onChange={e =>
+                  setStatusFilter(e.target.value as CheckoutOrderStatus | '')
+                }
+                className='px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              >
+                <option value=''>全部状态</option>
+                {Object.entries(orderStatusConfig).map(([value, config]) => (
+                  <option key={value} value={value}>
+                    {config.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={openCreate}
+                className='flex items-center px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors'
+              >
+                <Plus className='w-4 h-4 mr-1' />
+                申请借出
+              </button>
+            </>
+          ) : (
+            <>
+              <label className='flex items-center text-sm text-gray-700'>
+                <input
+                  type='checkbox'
+                  checked={overdueOnly}
+                  onChange={e => setOverdueOnly(e.target.checked)}
+                  className='rounded border-gray-300 mr-2'
+                />
+                仅显示逾期
+              </label>
+              {canApprove && (
+                <button
+                  onClick={handleOverdueCheck}
+                  className='flex items-center px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
+                >
+                  <RefreshCw className='w-4 h-4 mr-1' />
+                  逾期检查
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {view === 'orders' ? (
+        <DataTable columns={orderColumns} dataSource={orders} loading={loading} />
+      ) : (
+        <DataTable
+          columns={checkedOutColumns}
+          dataSource={checkedOut}
+          loading={loading}
+        />
+      )}
+
+      {/* 申请借出 */}
+      <Modal
+        open={createOpen}
+        onClose={() => setCreateOpen(false)}
+        title='申请借出样本'
+        size='xl'
+      >
+        <div className='space-y-4'>
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                借出原因
+              </label>
+              <select
+                value={orderForm.reason}
+                onChange={e =>
+                  setOrderForm({
+                    ...orderForm,
+                    reason: e.target.value as CheckoutReason,
+                  })
+                }
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              >
+                {checkoutReasonOptions.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                预计归还时间
+              </label>
+              <input
+                type='datetime-local'
+                value={orderForm.dueBackAt}
+                onChange={e =>
+                  setOrderForm({ ...orderForm, dueBackAt: e.target.value })
+                }
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+              <p className='text-xs text-gray-500 mt-1'>
+                不填写时按系统默认借出时限计算
+              </p>
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                用途
+              </label>
+              <input
+                type='text'
+                maxLength={500}
+                value={orderForm.purpose}
+                onChange={e =>
+                  setOrderForm({ ...orderForm, purpose: e.target.value })
+                }
+                placeholder='如 复检、方法验证'
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                样本去向
+              </label>
+              <input
+                type='text'
+                maxLength={100}
+                value={orderForm.destination}
+                onChange={e =>
+                  setOrderForm({ ...orderForm, destination: e.target.value })
+                }
+                placeholder='如 质谱室、外送机构'
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className='flex items-center justify-between mb-2'>
+              <label className='text-sm font-medium text-gray-700'>
+                在库样本（已选 {selectedSamples.length}）
+              </label>
+              <input
+                type='text'
+                value={sampleSearch}
+                onChange={e => setSampleSearch(e.target.value)}
+                placeholder='搜索样本编号或条码'
+                className='w-64 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+            <div className='max-h-64 overflow-y-auto border border-gray-200 rounded-md divide-y'>
+              {storedSamples.length === 0 ? (
+                <p className='p-4 text-sm text-gray-500 text-center'>
+                  没有可借出的在库样本
+                </p>
+              ) : (
+                storedSamples.map(sample => (
+                  <label
+                    key={sample.id}
+                    className='flex items-center px-3 py-2 text-sm hover:bg-gray-50'
+                  >
+                    <input
+                      type='checkbox'
+                      checked={selectedSamples.includes(sample.id)}
+                      onChange={e =>
+                        setSelectedSamples(
+                          e.target.checked
+                            ? [...selectedSamples, sample.id]
+                            : selectedSamples.filter(id => id !== sample.id)
+                        )
+                      }
+                      className='rounded border-gray-300 mr-3'
+                    />
+                    <span className='font-mono w-36'>{sample.sample_no}</span>
+                    <span className='text-gray-500 w-36'>{sample.barcode}</span>
+                    <span className='w-24'>{sample.sample_types?.name || '-'}</span>
+                    <span className='text-gray-500 flex-1'>
+                      {sample.storage_location || '-'}
+                    </span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>
+              备注
+            </label>
+            <textarea
+              rows={2}
+              maxLength={500}
+              value={orderForm.remarks}
+              onChange={e =>
+                setOrderForm({ ...orderForm, remarks: e.target.value })
+              }
+              className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
+          </div>
+
+          <div className='flex justify-end space-x-3'>
+            <button
+              onClick={() => setCreateOpen(false)}
+              className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
+            >
+              取消
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={submitting || selectedSamples.length === 0}
+              className='px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50'
+            >
+              {submitting ? '提交中...' : '提交审批'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* 审批借出单 */}
+      <Modal
+        open={Boolean(reviewTarget)}
+        onClose={() => setReviewTarget(null)}
+        title={`审批借出单 - ${reviewTarget?.order_no || ''}`}
+      >
+        {reviewTarget && (
+          <div className='space-y-4'>
+            <div className='text-sm text-gray-600 space-y-1'>
+              <p>
+                借出人：{reviewTarget.holder?.real_name || '-'}，样本{' '}
+                {reviewTarget.sample_count} 个
+              </p>
+              <p>
+                原因：
+                {checkoutReasonOptions.find(o => o.value === reviewTarget.reason)
+                  ?.label}
+                {reviewTarget.purpose ? `（${reviewTarget.purpose}）` : ''}
+              </p>
+              <p>预计归还：{formatTime(reviewTarget.due_back_at)}</p>
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                审批意见
+              </label>
+              <textarea
+                rows={3}
+                maxLength={1000}
+                value={reviewComments}
+                onChange={e => setReviewComments(e.target.value)}
+                placeholder='驳回时必填'
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+            <div className='flex justify-end space-x-3'>
+              <button
+                onClick={() => handleReview('rejected')}
+                disabled={submitting}
+                className='px-4 py-2 text-sm border border-red-300 text-red-600 rounded-md hover:bg-red-50 disabled:opacity-50'
+              >
+                驳回
+              </button>
+              <button
+                onClick={() => handleReview('approved')}
+                disabled={submitting}
+                className='px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50'
+              >
+                批准
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* 扫码出库/归还 */}
+      <Modal
+        open={Boolean(scanOrder)}
+        onClose={() => setScanOrder(null)}
+        title={`借出单 ${scanOrder?.order_no || ''} - 借出人 ${scanOrder?.holder?.real_name || '-'}`}
+        size='xl'
+      >
+        {scanOrder && (
+          <div className='space-y-4'>
+            <div className='flex items-center space-x-2'>
+              {(
+                [
+                  { key: 'pick', label: '扫码出库' },
+                  { key: 'return', label: '扫码归还' },
+                ] as const
+              ).map(item => (
+                <button
+                  key={item.key}
+                  onClick={() => setScanMode(item.key)}
+                  disabled={
+                    item.key === 'return' && scanOrder.status !== 'checked_out'
+                  }
+                  className={`px-3 py-1.5 text-sm rounded-md transition-colors disabled:opacity-40 ${
+                    scanMode === item.key
+                      ? 'bg-blue-600 text-white'
+                      : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {item.label}
+                </button>
+              ))}
+              <span className='text-sm text-gray-500 ml-2'>
+                预计归还：{formatTime(scanOrder.due_back_at)}
+              </span>
+              {scanOrder.is_overdue && renderOverdue()}
+            </div>
+
+            <div className='flex items-end space-x-3'>
+              <div className='flex-1'>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>
+                  样本条码
+                </label>
+                <div className='relative'>
+                  <ScanLine className='absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400' />
+                  <input
+                    ref={barcodeInputRef}
+                    type='text'
+                    value={barcode}
+                    onChange={e => setBarcode(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') handleScan()
+                    }}
+                    placeholder={
+                      scanMode === 'pick'
+                        ? '扫描待出库样本条码'
+                        : '扫描归还样本条码'
+                    }
+                    className='w-full pl-10 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                  />
+                </div>
+              </div>
+              {scanMode === 'return' && (
+                <div className='w-40'>
+                  <label className='block text-sm font-medium text-gray-700 mb-1'>
+                    用量
+                  </label>
+                  <input
+                    type='number'
+                    min={0}
+                    step='0.01'
+                    value={volumeUsed}
+                    onChange={e => setVolumeUsed(e.target.value)}
+                    placeholder='未使用可不填'
+                    className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                  />
+                </div>
+              )}
+              <button
+                onClick={handleScan}
+                disabled={submitting || !barcode.trim()}
+                className='px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50'
+              >
+                {scanMode === 'pick' ? '确认出库' : '确认归还'}
+              </button>
+            </div>
+            {scanMode === 'return' && (
+              <p className='text-xs text-gray-500'>
+                归还样本放回出库前的孔位，用量从样本余量中扣减
+              </p>
+            )}
+
+            <DataTable
+              columns={scanItemColumns}
+              dataSource={scanOrder.sample_checkout_items || []}
+            />
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
+
+export default SampleCheckoutPanel
@@ -0,0 +1,429 @@
+/**
+ * 样本清单导入组件
+ * 读取客户提供的Excel/CSV送样清单，映射列后试运行校验并显示行级错误，校验通过后整单导入接收
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState } from 'react'
+import ExcelJS from 'exceljs'
+import { FileSpreadsheet, AlertTriangle, CheckCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../lib/http'
+import Modal from './Modal'
+import {
+  SampleService,
+  type Sample,
+  type ManifestRow,
+  type ManifestField,
+  type ManifestValidationResult,
+} from '../services/sampleService'
+
+// 清单字段定义，aliases 用于按表头自动匹配列
+const manifestFields: {
+  field: ManifestField
+  label: string
+  required?: boolean
+  aliases: string[]
+}[] = [
+  { field: 'submission_no', label: '送检编号', required: true, aliases: ['送检编号', '送检单号', 'submission_no', 'submission'] },
+  { field: 'sample_type', label: '样本类型', required: true, aliases: ['样本类型', '类型', 'sample_type', 'type'] },
+  { field: 'barcode', label: '条形码', aliases: ['条形码', '条码', '管码', 'barcode'] },
+  { field: 'volume', label: '样本量', aliases: ['样本量', '体积', 'volume'] },
+  { field: 'unit', label: '单位', aliases: ['单位', 'unit'] },
+  { field: 'collection_time', label: '采集时间', aliases: ['采集时间', '采样时间', 'collection_time', 'collected_at'] },
+  { field: 'storage_temperature', label: '保存温度', aliases: ['保存温度', '温度', 'storage_temperature', 'temperature'] },
+  { field: 'remarks', label: '备注', aliases: ['备注', 'remarks', 'note', 'notes'] },
+]
+
+// 解析后的清单文件
+interface ParsedManifest {
+  fileName: string
+  headers: string[]
+  rows: { rowNo: number; cells: string[] }[]
+}
+
+interface SampleManifestImportProps {
+  open: boolean
+  onClose: () => void
+  onImported: (samples: Sample[]) => void
+}
+
+const SampleManifestImport: React.FC<SampleManifestImportProps> = ({
+  open,
+  onClose,
+  onImported,
+}) => {
+  const [manifest, setManifest] = useState<ParsedManifest | null>(null)
+  const [mapping, setMapping] = useState<Partial<Record<ManifestField, number>>>({})
+  const [validation, setValidation] = useState<ManifestValidationResult | null>(null)
+  const [parsing, setParsing] = useState(false)
+  const [validating, setValidating] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  // 关闭时清空已读取的清单
+  const handleClose = () => {
+    setManifest(null)
+    setMapping({})
+    setValidation(null)
+    onClose()
+  }
+
+  // 读取清单文件并按表头自动映射列
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      setParsing(true)
+      const parsed = /\.csv$/i.test(file.name)
+        ? parseCsv(file.name, await file.text())
+        : await parseXlsx(file.name, await file.arrayBuffer())
+
+      if (parsed.rows.length === 0) {
+        toast.error('清单中没有样本数据')
+        return
+      }
+
+      const autoMapping: Partial<Record<ManifestField, number>> = {}
+      manifestFields.forEach(({ field, aliases }) => {
+        const index = parsed.headers.findIndex(header =>
+          aliases.some(alias => alias.toLowerCase() === header.trim().toLowerCase())
+        )
+        if (index >= 0) autoMapping[field] = index
+      })
+
+      setManifest(parsed)
+      setMapping(autoMapping)
+      setValidation(null)
+    } catch (error) {
+      console.error('读取清单失败:', error)
+      toast.error('读取清单失败，请确认文件为 .xlsx 或 .csv 格式')
+    } finally {
+      setParsing(false)
+    }
+  }
+
+  // 变更列映射后需重新校验
+  const handleMappingChange = (field: ManifestField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === '') {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+    setValidation(null)
+  }
+
+  // 按列映射生成清单行
+  const buildRows = (): ManifestRow[] => {
+    if (!manifest) return []
+    return manifest.rows.map(({ rowNo, cells }) => {
+      const row: ManifestRow = { row_no: rowNo }
+      manifestFields.forEach(({ field }) => {
+        const index = mapping[field]
+        if (index !== undefined && cells[index] !== undefined && cells[index] !== '') {
+          row[field] = cells[index]
+        }
+      })
+      // 清单中的时间按本地时间理解，转为ISO时间提交
+      if (row.collection_time) {
+        const parsed = new Date(row.collection_time)
+        if (!Number.isNaN(parsed.getTime())) {
+          row.collection_time = parsed.toISOString()
+        }
+      }
+      return row
+    })
+  }
+
+  // 试运行校验
+  const handleValidate = async () => {
+    if (!manifest) return
+
+    const missing = manifestFields.filter(({ field, required }) => required && mapping[field] === undefined)
+    if (missing.length > 0) {
+      toast.error(`请映射必填列：${missing.map(item => item.label).join('、')}`)
+      return
+    }
+
+    try {
+      setValidating(true)
+      const result = await SampleService.validateManifest(manifest.fileName, buildRows())
+      setValidation(result)
+      if (result.error_count > 0) {
+        toast.error(`${result.error_count} 行未通过校验，请修正清单后重新上传`)
+      } else {
+        toast.success(`校验通过，共 ${result.total} 个样本`)
+      }
+    } catch (error) {
+      console.error('校验清单失败:', error)
+      toast.error('校验清单失败，请重试')
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  // 整单导入
+  const handleImport = async () => {
+    if (!manifest || !validation || validation.error_count > 0) return
+
+    try {
+      setImporting(true)
+      const result = await SampleService.importManifest(manifest.fileName, buildRows())
+      toast.success(`成功接收 ${result.row_count} 个样本，请打印样本标签`)
+      handleClose()
+      onImported(result.samples)
+    } catch (error: unknown) {
+      console.error('导入清单失败:', error)
+      toast.error(getApiErrorMessage(error, '导入清单失败，未登记任何样本'))
+      setValidation(null)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const fieldLabel = (field: ManifestField) =>
+    manifestFields.find(item => item.field === field)?.label || field
+
+  return (
+    <Modal open={open} onClose={handleClose} title='清单导入' size='xl'>
+      <div className='space-y-4'>
+        {/* 选择文件 */}
+        <div className='flex items-center justify-between border border-dashed border-gray-300 rounded-md p-4'>
+          <div className='flex items-center space-x-3'>
+            <FileSpreadsheet className='w-6 h-6 text-green-600' />
+            <div>
+              <p className='text-sm font-medium text-gray-900'>
+                {manifest ? manifest.fileName : '选择送样清单'}
+              </p>
+              <p className='text-xs text-gray-500'>
+                {manifest
+                  ? `共 ${manifest.rows.length} 行样本数据`
+                  : '支持 .xlsx、.csv，首行为表头，单次最多1000个样本'}
+              </p>
+            </div>
+          </div>
+          <label className='px-3 py-1.5 text-sm border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50'>
+            {parsing ? '读取中...' : manifest ? '重新选择' : '选择文件'}
+            <input
+              type='file'
+              accept='.xlsx,.csv'
+              className='hidden'
+              disabled={parsing}
+              onChange={handleFileChange}
+            />
+          </label>
+        </div>
+
+        {/* 列映射 */}
+        {manifest && (
+          <div>
+            <h4 className='text-sm font-semibold text-gray-900 mb-2'>列映射</h4>
+            <div className='grid grid-cols-2 md:grid-cols-4 gap-3'>
+              {manifestFields.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className='block text-xs font-medium text-gray-700 mb-1'>
+                    {label}
+                    {required && <span className='text-red-500 ml-0.5'>*</span>}
+                  </label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={e => handleMappingChange(field, e.target.value)}
+                    className='w-full px-2 py-1 text-sm border border-gray-300 rounded'
+                  >
+                    <option value=''>不导入</option>
+                    {manifest.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `第${index + 1}列`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <p className='text-xs text-gray-500 mt-2'>
+              样本类型可填写编码或名称；条形码为空时按编码规则分配；单位为空时默认 ml
+            </p>
+          </div>
+        )}
+
+        {/* 校验结果 */}
+        {validation && (
+          <div>
+            {validation.error_count > 0 ? (
+              <div className='flex items-center text-sm text-red-600 mb-2'>
+                <AlertTriangle className='w-4 h-4 mr-1' />
+                共 {validation.total} 行，{validation.valid_count} 行通过，
+                {validation.error_count} 行有错误，修正前不能导入
+              </div>
+            ) : (
+              <div className='flex items-center text-sm text-green-600 mb-2'>
+                <CheckCircle className='w-4 h-4 mr-1' />
+                共 {validation.total} 行，全部通过校验
+              </div>
+            )}
+            {validation.errors.length > 0 && (
+              <div className='max-h-64 overflow-y-auto border rounded-md'>
+                <table className='w-full text-sm'>
+                  <thead className='bg-gray-50 sticky top-0'>
+                    <tr className='text-left text-gray-600'>
+                      <th className='px-3 py-2 w-20'>行号</th>
+                      <th className='px-3 py-2 w-28'>字段</th>
+                      <th className='px-3 py-2'>错误</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {validation.errors.map((error, index) => (
+                      <tr key={index} className='border-t'>
+                        <td className='px-3 py-1.5'>{error.row_no}</td>
+                        <td className='px-3 py-1.5'>{fieldLabel(error.field)}</td>
+                        <td className='px-3 py-1.5 text-red-600'>{error.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className='flex justify-end space-x-3 pt-2 border-t'>
+          <button
+            type='button'
+            onClick={handleClose}
+            className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+          >
+            取消
+          </button>
+          <button
+            type='button'
+            onClick={handleValidate}
+            disabled={!manifest || validating || importing}
+            className='px-4 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50 text-sm'
+          >
+            {validating ? '校验中...' : '校验'}
+          </button>
+          <button
+            type='button'
+            onClick={handleImport}
+            disabled={!validation || validation.error_count > 0 || importing}
+            className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+          >
+            {importing ? '导入中...' : '确认导入'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+/**
+ * 解析CSV清单
+ * @description 支持双引号包裹的字段及字段内换行，忽略全空行
+ */
+function parseCsv(fileName: string, text: string): ParsedManifest {
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let quoted = false
+  const content = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      record.push(cell)
+      records.push(record)
+      record = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell)
+    records.push(record)
+  }
+
+  const [headers = [], ...dataRows] = records
+  return {
+    fileName,
+    headers: headers.map(header => header.trim()),
+    rows: dataRows
+      .map((cells, index) => ({ rowNo: index + 2, cells: cells.map(value => value.trim()) }))
+      .filter(row => row.cells.some(Boolean)),
+  }
+}
+
+/**
+ * 解析Excel清单
+ * @description 读取第一个工作表，首行为表头
+ */
+async function parseXlsx(fileName: string, buffer: ArrayBuffer): Promise<ParsedManifest> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer)
+  const worksheet = workbook.worksheets[0]
+  if (!worksheet) {
+    return { fileName, headers: [], rows: [] }
+  }
+
+  const readRow = (row: ExcelJS.Row) => {
+    const cells: string[] = []
+    for (let col = 1; col <= worksheet.columnCount; col++) {
+      cells.push(cellToText(row.getCell(col).value))
+    }
+    return cells
+  }
+
+  const headers = readRow(worksheet.getRow(1))
+  const rows: ParsedManifest['rows'] = []
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return
+    const cells = readRow(row)
+    if (cells.some(Boolean)) {
+      rows.push({ rowNo: rowNumber, cells })
+    }
+  })
+
+  return { fileName, headers, rows }
+}
+
+/**
+ * 单元格值转文本
+ * @description Excel日期不带时区，按UTC分量还原为本地时间文本
+ */
+function cellToText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())} ${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}`
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('').trim()
+    if ('result' in value) return cellToText(value.result as ExcelJS.CellValue)
+    if ('text' in value) return String(value.text).trim()
+    return ''
+  }
+  return String(value).trim()
+}
+
+export default SampleManifestImport
@@ -0,0 +1,391 @@
+/**
+ * 实验员分配
+ * 查看实验员资质和未完成工作量，按资质和工作量生成待分配实验的分配建议，主管调整后确认分配或一键自动分配
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react'
+import { UserCheck, Search, Wand2, Zap, CheckCircle, AlertTriangle, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage, getApiErrorDetails } from '../lib/http'
+import { useAuthStore } from '../stores/auth'
+import type { ExperimentMethod } from '../services/experimentService'
+import {
+  TechnicianAssignmentService,
+  type TechnicianWorkload,
+  type AssignableExperiment,
+  type AssignmentResult,
+} from '../services/technicianAssignmentService'
+
+// 可分配实验的角色
+const assignRoles = ['admin', 'lab_manager']
+
+// 实验方法名称
+const methodText: Record<ExperimentMethod, string> = {
+  routine: '普检',
+  mass_spec: '质谱',
+  special: '特检',
+}
+
+// 分配行：建议的或主管选择的实验员
+interface AssignmentRow {
+  experiment: AssignableExperiment
+  technician_id: string
+  selected: boolean
+  reason?: string
+}
+
+interface TechnicianAssignmentProps {
+  method: ExperimentMethod
+}
+
+const TechnicianAssignment: React.FC<TechnicianAssignmentProps> = ({ method }) => {
+  const { user } = useAuthStore()
+  const canAssign = (user?.roles || []).some(role => assignRoles.includes(role))
+
+  const [technicians, setTechnicians] = useState<TechnicianWorkload[]>([])
+  const [batchNo, setBatchNo] = useState('')
+  const [rows, setRows] = useState<AssignmentRow[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  // 加载实验员工作量
+  const loadWorkloads = useCallback(async () => {
+    try {
+      setTechnicians(await TechnicianAssignmentService.getWorkloads(method))
+    } catch (error: unknown) {
+      console.error('加载实验员工作量失败:', error)
+      toast.error(getApiErrorMessage(error, '加载实验员工作量失败'))
+    }
+  }, [method])
+
+  useEffect(() => {
+    loadWorkloads()
+    setRows(null)
+  }, [loadWorkloads])
+
+  // 具备资质的实验员
+  const qualified = useMemo(
+    () => technicians.filter(technician => technician.qualifications[method]?.qualified),
+    [technicians, method]
+  )
+
+  // 分配后各实验员的预计工作量
+  const plannedCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    ;(rows || []).forEach(row => {
+      if (row.selected && row.technician_id) {
+        counts.set(row.technician_id, (counts.get(row.technician_id) || 0) + 1)
+      }
+    })
+    return counts
+  }, [rows])
+
+  const filter = () => ({ method, batch_no: batchNo.trim() || undefined })
+
+  // 生成分配建议
+  const handlePropose = async () => {
+    setLoading(true)
+    try {
+      const result = await TechnicianAssignmentService.propose(filter())
+      setRows([
+        ...result.proposals.map(proposal => ({
+          experiment: proposal.experiment,
+          technician_id: proposal.technician.id,
+          selected: true,
+        })),
+        ...result.unassigned.map(item => ({
+          experiment: item.experiment,
+          technician_id: '',
+          selected: false,
+          reason: item.reason,
+        })),
+      ])
+      if (result.proposals.length === 0 && result.unassigned.length === 0) {
+        toast.info('没有待分配的实验')
+      }
+    } catch (error: unknown) {
+      console.error('生成分配建议失败:', error)
+      toast.error(getApiErrorMessage(error, '生成分配建议失败'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // 分配完成后提示并刷新
+  const afterAssign = async (result: AssignmentResult) => {
+    const skipped = result.skipped.length + (result.unassigned?.length || 0)
+    if (result.assigned.length > 0) {
+      toast.success(
+        `已分配 ${result.assigned.length} 个实验${skipped > 0 ? `，${skipped} 个未分配` : ''}`
+      )
+    } else {
+      toast.warning('没有实验被分配')
+    }
+    result.skipped.forEach(item => toast.warning(`${item.experiment_no}：${item.reason}`))
+    setRows(null)
+    await loadWorkloads()
+  }
+
+  // 按当前选择分配
+  const handleAssign = async () => {
+    const assignments = (rows || [])
+      .filter(row => row.selected && row.technician_id)
+      .map(row => ({ experiment_id: row.experiment.id, technician_id: row.technician_id }))
+    if (assignments.length === 0) {
+      toast.error('请选择要分配的实验和实验员')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      await afterAssign(await TechnicianAssignmentService.assign(method, assignments))
+    } catch (error: unknown) {
+      console.error('分配实验失败:', error)
+      const { refused = [] } = getApiErrorDetails<{ refused: AssignmentResult['skipped'] }>(error)
+      refused.forEach(item => toast.error(`${item.experiment_no}：${item.reason}`))
+      toast.error(getApiErrorMessage(error, '分配实验失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 一键自动分配
+  const handleAutoAssign = async () => {
+    if (!window.confirm(`将按资质和工作量自动分配${batchNo.trim() ? `批次 ${batchNo.trim()} 的` : '全部'}待分配实验，确定继续吗？`))
+      return
+
+    setSubmitting(true)
+    try {
+      await afterAssign(await TechnicianAssignmentService.autoAssign(filter()))
+    } catch (error: unknown) {
+      console.error('自动分配失败:', error)
+      toast.error(getApiErrorMessage(error, '自动分配失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const updateRow = (index: number, changes: Partial<AssignmentRow>) => {
+    setRows((rows || []).map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const inputClass =
+    'px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className='max-w-7xl mx-auto p-6 space-y-6'>
+      {/* 页面标题 */}
+      <div className='bg-white rounded-lg shadow-md border p-6'>
+        <div className='flex items-center justify-between'>
+          <div className='flex items-center space-x-4'>
+            <UserCheck className='w-8 h-8 text-blue-600' />
+            <div>
+              <h1 className='text-2xl font-bold text-gray-900'>{methodText[method]}实验分配</h1>
+              <p className='text-gray-600 mt-1'>
+                按方法学资质和未完成工作量分配待开始的实验，加急送检优先分配
+              </p>
+            </div>
+          </div>
+          {canAssign && (
+            <div className='flex items-center space-x-2'>
+              <input
+                type='text'
+                value={batchNo}
+                onChange={e => setBatchNo(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handlePropose()}
+                placeholder='批次号（可选）'
+                className={`w-44 ${inputClass}`}
+              />
+              <button
+                onClick={handlePropose}
+                disabled={loading || submitting}
+                className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center space-x-2'
+              >
+                <Search className='w-4 h-4' />
+                <span>生成建议</span>
+              </button>
+              <button
+                onClick={handleAutoAssign}
+                disabled={loading || submitting}
+                className='px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center space-x-2'
+              >
+                <Zap className='w-4 h-4' />
+                <span>自动分配</span>
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* 实验员工作量 */}
+      <div className='bg-white rounded-lg shadow-md border p-4'>
+        <div className='flex items-center justify-between mb-3'>
+          <h2 className='text-lg font-semibold text-gray-900'>实验员工作量</h2>
+          <button
+            onClick={loadWorkloads}
+            className='p-1.5 text-gray-500 hover:text-blue-600'
+            title='刷新'
+          >
+            <RefreshCw className='w-4 h-4' />
+          </button>
+        </div>
+        {technicians.length === 0 ? (
+          <p className='py-6 text-center text-sm text-gray-500'>
+            没有绑定{methodText[method]}方法学的在岗实验员
+          </p>
+        ) : (
+          <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3'>
+            {technicians.map(technician => {
+              const qualification = technician.qualifications[method]
+              const planned = plannedCounts.get(technician.id) || 0
+              const ratio = Math.min(1, technician.workload / Math.max(1, technician.max_open_workload))
+              return (
+                <div
+                  key={technician.id}
+                  className={`border rounded-md p-3 space-y-2 ${
+                    qualification?.qualified ? 'border-gray-200' : 'border-red-200 bg-red-50'
+                  }`}
+                >
+                  <div className='flex items-center justify-between'>
+                    <div>
+                      <div className='font-medium text-gray-900'>{technician.real_name}</div>
+                      <div className='text-xs text-gray-500'>{technician.employee_no}</div>
+                    </div>
+                    {qualification?.qualified ? (
+                      <span className='px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800'>
+                        {qualification.expires_at ? `资质至 ${qualification.expires_at}` : '资质长期有效'}
+                      </span>
+                    ) : (
+                      <span className='px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800'>
+                        无资质
+                      </span>
+                    )}
+                  </div>
+                  {!qualification?.qualified && (
+                    <p className='text-xs text-red-700'>{qualification?.reason}</p>
+                  )}
+                  <div>
+                    <div className='flex justify-between text-xs text-gray-600 mb-1'>
+                      <span>
+                        未完成 {technician.open_count}（加急 {technician.urgent_count}）
+                        {planned > 0 && <span className='text-blue-600'> +{planned}</span>}
+                      </span>
+                      <span>
+                        {technician.workload}/{technician.max_open_workload}
+                      </span>
+                    </div>
+                    <div className='h-2 bg-gray-100 rounded-full overflow-hidden'>
+                      <div
+                        className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-blue-500'}`}
+                        style={{ width: `${ratio * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                  {technician.expiring_certifications.length > 0 && (
+                    <p className='text-xs text-orange-600 flex items-center'>
+                      <AlertTriangle className='w-3 h-3 mr-1' />
+                      {technician.expiring_certifications
+                        .map(cert => `${cert.name || cert.method}于${cert.expires_at?.slice(0, 10)}到期`)
+                        .join('，')}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* 分配建议 */}
+      {rows && (
+        <div className='bg-white rounded-lg shadow-md border p-4 space-y-4'>
+          <div className='flex items-center justify-between'>
+            <h2 className='text-lg font-semibold text-gray-900'>
+              分配建议（{rows.filter(row => row.selected && row.technician_id).length}/{rows.length}）
+            </h2>
+            <button
+              onClick={handleAssign}
+              disabled={submitting || rows.length === 0}
+              className='px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center space-x-2'
+            >
+              <CheckCircle className='w-4 h-4' />
+              <span>确认分配</span>
+            </button>
+          </div>
+          {rows.length === 0 ? (
+            <p className='py-6 text-center text-sm text-gray-500'>没有待分配的实验</p>
+          ) : (
+            <div className='overflow-x-auto'>
+              <table className='min-w-full divide-y divide-gray-200 text-sm'>
+                <thead className='bg-gray-50'>
+                  <tr>
+                    <th className='px-3 py-2 w-8' />
+                    <th className='px-3 py-2 text-left font-medium text-gray-500'>实验编号</th>
+                    <th className='px-3 py-2 text-left font-medium text-gray-500'>样本</th>
+                    <th className='px-3 py-2 text-left font-medium text-gray-500'>检测产品</th>
+                    <th className='px-3 py-2 text-left font-medium text-gray-500'>批次</th>
+                    <th className='px-3 py-2 text-left font-medium text-gray-500'>实验员</th>
+                  </tr>
+                </thead>
+                <tbody className='divide-y divide-gray-100'>
+                  {rows.map((row, index) => (
+                    <tr key={row.experiment.id} className={row.experiment.is_urgent ? 'bg-red-50' : ''}>
+                      <td className='px-3 py-2'>
+                        <input
+                          type='checkbox'
+                          checked={row.selected}
+                          onChange={e => updateRow(index, { selected: e.target.checked })}
+                          className='rounded border-gray-300'
+                        />
+                      </td>
+                      <td className='px-3 py-2 text-gray-900'>
+                        {row.experiment.experiment_no}
+                        {row.experiment.is_urgent && (
+                          <span className='ml-2 px-1.5 py-0.5 rounded text-xs bg-red-100 text-red-700'>
+                            加急
+                          </span>
+                        )}
+                      </td>
+                      <td className='px-3 py-2 text-gray-600'>
+                        {row.experiment.samples?.barcode || row.experiment.samples?.sample_no || '-'}
+                      </td>
+                      <td className='px-3 py-2 text-gray-600'>{row.experiment.test_products?.name || '-'}</td>
+                      <td className='px-3 py-2 text-gray-600'>{row.experiment.batch_no || '-'}</td>
+                      <td className='px-3 py-2'>
+                        <select
+                          value={row.technician_id}
+                          onChange={e =>
+                            updateRow(index, { technician_id: e.target.value, selected: Boolean(e.target.value) })
+                          }
+                          className='px-2 py-1 text-sm border border-gray-300 rounded-md'
+                        >
+                          <option value=''>未分配</option>
+                          {qualified.map(technician => (
+                            <option key={technician.id} value={technician.id}>
+                              {technician.real_name}（{technician.employee_no}，工作量 {technician.workload}）
+                            </option>
+                          ))}
+                        </select>
+                        {row.reason && !row.technician_id && (
+                          <span className='ml-2 text-xs text-orange-600'>{row.reason}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className='text-xs text-gray-500 flex items-center'>
+            <Wand2 className='w-3 h-3 mr-1' />
+            建议按加急优先、工作量最低的合格实验员生成，只能选择具备{methodText[method]}资质的实验员
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TechnicianAssignment
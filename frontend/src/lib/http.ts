@@ -19,6 +19,43 @@ export interface ApiResponse<T = any> {
   timestamp: string
 }
 
+// 接口错误响应数据结构
+export interface ApiErrorBody<D = Record<string, unknown>> {
+  success?: boolean
+  message?: string
+  details?: D
+}
+
+/**
+ * 获取接口错误提示
+ * @param error 捕获的错误
+ * @param fallback 无错误信息时的提示
+ * @returns 后端返回的错误信息，业务错误取其消息
+ */
+export const getApiErrorMessage = (
+  error: unknown,
+  fallback: string
+): string => {
+  if (axios.isAxiosError<ApiErrorBody>(error)) {
+    return error.response?.data?.message || fallback
+  }
+  return error instanceof Error && error.message ? error.message : fallback
+}
+
+/**
+ * 获取接口错误详情
+ * @param error 捕获的错误
+ * @returns 后端返回的错误详情，无详情时为空对象
+ */
+export const getApiErrorDetails = <D extends object>(
+  error: unknown
+): Partial<D> => {
+  if (axios.isAxiosError<ApiErrorBody<D>>(error)) {
+    return error.response?.data?.details || {}
+  }
+  return {}
+}
+
 // 创建Axios实例
 const http: AxiosInstance = axios.create({
   baseURL: import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api',
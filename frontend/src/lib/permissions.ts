@@ -12,6 +12,7 @@ export const PERMISSIONS = {
     VIEW: 'submission.view',
     CREATE: 'submission.create',
     EDIT: 'submission.edit',
+    CANCEL: 'submission.cancel',
     DELETE: 'submission.delete',
     APPROVE: 'submission.approve',
   },
@@ -96,11 +97,14 @@ export const PAGE_PERMISSIONS: Record<string, string[]> = {
   '/sample/receive': ['sample.receive'],
   '/sample/storage': ['sample.storage'],
   '/sample/destroy': ['sample.destroy'],
+  '/sample/recollection': ['sample.list'],
 
   // 普检实验管理
   '/general-experiment': ['routine.list'],
   '/general-experiment/list': ['routine.list'],
   '/general-experiment/data-entry': ['routine.data_entry'],
+  '/general-experiment/plate-layout': ['routine.data_entry'],
+  '/general-experiment/assignment': ['routine.data_entry'],
   '/general-experiment/data-review': ['routine.data_review'],
   '/general-experiment/exception-handle': ['routine.exception'],
 
@@ -108,6 +112,11 @@ export const PAGE_PERMISSIONS: Record<string, string[]> = {
   '/mass-spec': ['mass_spec.list'],
   '/mass-spec/list': ['mass_spec.list'],
   '/mass-spec/data-entry': ['mass_spec.data_entry'],
+  '/mass-spec/plate-layout': ['mass_spec.data_entry'],
+  '/mass-spec/assignment': ['mass_spec.data_entry'],
+  '/mass-spec/injection-sequence': ['mass_spec.list'],
+  '/mass-spec/calibration': ['mass_spec.data_entry'],
+  '/mass-spec/compound-matching': ['mass_spec.list'],
   '/mass-spec/data-review': ['mass_spec.data_review'],
   '/mass-spec/quality-control': ['mass_spec.qc'],
   '/mass-spec/exception-handle': ['mass_spec.exception'],
@@ -137,6 +146,7 @@ export const PAGE_PERMISSIONS: Record<string, string[]> = {
   // 环境管理
   '/environment': ['environment.monitoring'],
   '/environment/monitor': ['environment.monitoring'],
+  '/environment/excursions': ['environment.monitoring'],
 
   // 用户管理
   '/user': ['user.list'],
@@ -0,0 +1,669 @@
+/**
+ * 温度偏离评估页面
+ * 查看存储单元温度偏离及偏离期间存放的样本、暴露时长和峰值偏离，质控人员评估样本是否受影响
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Filter, RefreshCw, Link2, ThermometerSnowflake } from 'lucide-react'
+import DataTable from '../../components/DataTable'
+import Modal from '../../components/Modal'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../../lib/http'
+import { useAuthStore } from '../../stores/auth'
+import {
+  TemperatureExcursionService,
+  type TemperatureExcursion as Excursion,
+  type ExcursionStatus,
+  type ExcursionAssessment,
+  type ExcursionSample,
+  type MonitoringPoint,
+} from '../../services/temperatureExcursionService'
+import { StorageService, type StorageUnit } from '../../services/storageService'
+
+// 可评估受影响样本的角色
+const assessorRoles = ['admin', 'lab_manager', 'quality_controller']
+
+// 可关联监控点和执行偏离检查的角色
+const managerRoles = ['admin', 'lab_manager']
+
+// 偏离状态配置
+const excursionStatusConfig: Record<
+  ExcursionStatus,
+  { label: string; className: string }
+> = {
+  ongoing: { label: '偏离中', className: 'bg-red-100 text-red-800' },
+  pending_assessment: { label: '待评估', className: 'bg-yellow-100 text-yellow-800' },
+  assessed: { label: '已评估', className: 'bg-green-100 text-green-800' },
+}
+
+// 样本评估结果配置
+const assessmentConfig: Record<
+  ExcursionAssessment,
+  { label: string; className: string }
+> = {
+  pending: { label: '待评估', className: 'bg-yellow-100 text-yellow-800' },
+  assessed: { label: '不受影响', className: 'bg-green-100 text-green-800' },
+  unqualified: { label: '不合格', className: 'bg-red-100 text-red-800' },
+}
+
+/**
+ * 格式化日期时间
+ * @param value ISO时间
+ * @returns 本地时间文本
+ */
+const formatTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString() : '-'
+
+/**
+ * 格式化时长
+ * @param minutes 分钟数
+ * @returns 时长文本
+ */
+const formatDuration = (minutes: number) =>
+  minutes >= 60
+    ? `${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分钟`
+    : `${minutes} 分钟`
+
+/**
+ * 格式化温度偏离值
+ * @param value 偏离值
+ * @returns 带符号的偏离文本
+ */
+const formatDeviation = (value?: number | null) =>
+  value === null || value === undefined
+    ? '-'
+    : `${value > 0 ? '+' : ''}${Number(value).toFixed(2)}℃`
+
+/**
+ * 状态标签
+ * @param config 状态名称和样式
+ * @returns JSX元素
+ */
+const renderBadge = (config: { label: string; className: string }) => (
+  <span
+    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.className}`}
+  >
+    {config.label}
+  </span>
+)
+
+const TemperatureExcursion: React.FC = () => {
+  const { user } = useAuthStore()
+  const canAssess = (user?.roles || []).some(role =>
+    assessorRoles.includes(role)
+  )
+  const canManage = (user?.roles || []).some(role => managerRoles.includes(role))
+
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [excursions, setExcursions] = useState<Excursion[]>([])
+  const [statusFilter, setStatusFilter] = useState<ExcursionStatus | ''>('')
+  const [search, setSearch] = useState('')
+
+  // 偏离详情与评估
+  const [detail, setDetail] = useState<Excursion | null>(null)
+  const [selectedSamples, setSelectedSamples] = useState<string[]>([])
+  const [comments, setComments] = useState('')
+
+  // 监控点关联
+  const [pointsOpen, setPointsOpen] = useState(false)
+  const [points, setPoints] = useState<MonitoringPoint[]>([])
+  const [units, setUnits] = useState<StorageUnit[]>([])
+
+  // 加载温度偏离
+  const loadExcursions = useCallback(async () => {
+    setLoading(true)
+    try {
+      const result = await TemperatureExcursionService.getExcursions({
+        limit: 100,
+        status: statusFilter,
+        search: search || undefined,
+      })
+      setExcursions(result.data)
+    } catch (error) {
+      console.error('加载温度偏离失败:', error)
+      toast.error('加载温度偏离失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter, search])
+
+  useEffect(() => {
+    loadExcursions()
+  }, [loadExcursions])
+
+  // 打开偏离详情
+  const openDetail = async (excursion: Excursion) => {
+    try {
+      setDetail(await TemperatureExcursionService.getExcursion(excursion.id))
+      setSelectedSamples([])
+      setComments('')
+    } catch (error) {
+      console.error('加载温度偏离详情失败:', error)
+      toast.error('加载温度偏离详情失败')
+    }
+  }
+
+  // 评估选中样本
+  const handleAssess = async (result: 'assessed' | 'unqualified') => {
+    if (!detail || selectedSamples.length === 0) return
+    if (result === 'unqualified' && !comments.trim()) {
+      toast.error('评为不合格时请填写评估意见')
+      return
+    }
+    if (
+      result === 'unqualified' &&
+      !window.confirm(
+        `确定将选中的 ${selectedSamples.length} 个样本评为不合格吗？样本质量状态将改为不合格`
+      )
+    )
+      return
+
+    setSubmitting(true)
+    try {
+      const updated = await TemperatureExcursionService.assessSamples(
+        detail.id,
+        selectedSamples,
+        result,
+        comments || undefined
+      )
+      toast.success(
+        `${selectedSamples.length} 个样本已评估为${assessmentConfig[result].label}`
+      )
+      setDetail(updated)
+      setSelectedSamples([])
+      setComments('')
+      loadExcursions()
+    } catch (error: unknown) {
+      console.error('评估样本失败:', error)
+      toast.error(getApiErrorMessage(error, '评估样本失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 执行偏离检查
+  const handleScan = async () => {
+    try {
+      const summary = await TemperatureExcursionService.runScan()
+      toast.success(
+        `已检查监控点 ${summary.points} 个，新偏离 ${summary.detected} 次，更新 ${summary.updated} 次`
+      )
+      loadExcursions()
+    } catch (error) {
+      console.error('温度偏离检查失败:', error)
+      toast.error('温度偏离检查失败')
+    }
+  }
+
+  // 打开监控点关联
+  const openPoints = async () => {
+    try {
+      const [pointList, unitList] = await Promise.all([
+        TemperatureExcursionService.getPoints(),
+        StorageService.getUnits({ status: 'active' }),
+      ])
+      setPoints(pointList)
+      setUnits(unitList.filter(unit => unit.unit_type !== 'box'))
+      setPointsOpen(true)
+    } catch (error) {
+      console.error('加载监控点失败:', error)
+      toast.error('加载监控点失败')
+    }
+  }
+
+  // 关联监控点与存储单元
+  const handleLink = async (point: MonitoringPoint, storageUnitId: string) => {
+    try {
+      const updated = await TemperatureExcursionService.linkPoint(
+        point.id,
+        storageUnitId || null
+      )
+      setPoints(
+        points.map(item =>
+          item.id === point.id ? { ...item, ...updated } : item
+        )
+      )
+      toast.success(storageUnitId ? '监控点已关联存储单元' : '已取消关联')
+    } catch (error: unknown) {
+      console.error('关联监控点失败:', error)
+      toast.error(getApiErrorMessage(error, '关联监控点失败'))
+    }
+  }
+
+  const pendingSamples = (detail?.temperature_excursion_samples || []).filter(
+    row => row.assessment === 'pending'
+  )
+  const assessable = Boolean(detail?.ended_at) && canAssess
+
+  // 温度偏离表格列配置
+  const excursionColumns = [
+    {
+      key: 'excursion_no',
+      title: '偏离编号',
+      dataIndex: 'excursion_no',
+      render: (value: string, record: Excursion) => (
+        <div>
+          <div className='font-mono text-sm font-medium text-blue-600'>
+            {value}
+          </div>
+          <div className='text-xs text-gray-500'>
+            {record.monitoring_points?.point_no} {record.monitoring_points?.name}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'storage_unit',
+      title: '存储单元',
+      dataIndex: 'storage_unit_id',
+      render: (_: string, record: Excursion) => (
+        <div className='text-sm'>
+          <div className='font-mono'>{record.storage_units?.path || '-'}</div>
+          <div className='text-xs text-gray-500'>
+            {record.storage_units?.name}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'window',
+      title: '偏离时段',
+      dataIndex: 'started_at',
+      render: (value: string, record: Excursion) => (
+        <div className='text-sm'>
+          <div>{formatTime(value)}</div>
+          <div className='text-xs text-gray-500'>
+            至 {record.ended_at ? formatTime(record.ended_at) : '仍在偏离'}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'peak',
+      title: '峰值/阈值',
+      dataIndex: 'peak_temperature',
+      render: (value: number | null, record: Excursion) => (
+        <div className='text-sm'>
+          <div>
+            {value ?? '-'}℃（{formatDeviation(record.peak_deviation)}）
+          </div>
+          <div className='text-xs text-gray-500'>
+            {record.threshold_min ?? '-'} ~ {record.threshold_max ?? '-'}℃
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'affected_count',
+      title: '受影响样本',
+      dataIndex: 'affected_count',
+      render: (value: number, record: Excursion) => (
+        <span className='text-sm'>
+          {value}（已评估 {record.assessed_count}
+          {record.unqualified_count > 0 &&
+            `，不合格 ${record.unqualified_count}`}
+          ）
+        </span>
+      ),
+    },
+    {
+      key: 'status',
+      title: '状态',
+      dataIndex: 'status',
+      render: (value: ExcursionStatus) =>
+        renderBadge(excursionStatusConfig[value]),
+    },
+    {
+      key: 'actions',
+      title: '操作',
+      dataIndex: 'id',
+      render: (_: string, record: Excursion) => (
+        <button
+          onClick={() => openDetail(record)}
+          className='text-sm text-blue-600 hover:text-blue-800'
+        >
+          {record.status === 'pending_assessment' && canAssess
+            ? '评估'
+            : '查看'}
+        </button>
+      ),
+    },
+  ]
+
+  // 受影响样本表格列配置
+  const sampleColumns = [
+    {
+      key: 'select',
+      title: '',
+      dataIndex: 'sample_id',
+      render: (value: string, record: ExcursionSample) =>
+        assessable && record.assessment === 'pending' ? (
+          <input
+            type='checkbox'
+            checked={selectedSamples.includes(value)}
+            onChange={e =>
+              setSelectedSamples(
+                e.target.checked
+                  ? [...selectedSamples, value]
+                  : selectedSamples.filter(id => id !== value)
+              )
+            }
+            className='rounded border-gray-300'
+          />
+        ) : null,
+    },
+    {
+      key: 'sample_no',
+      title: '样本',
+      dataIndex: 'sample_id',
+      render: (_: string, record: ExcursionSample) => (
+        <div>
+          <div className='font-mono text-sm'>{record.samples?.sample_no}</div>
+          <div className='text-xs text-gray-500'>
+            {record.samples?.barcode} · {record.samples?.sample_types?.name || '-'}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'storage_location',
+      title: '偏离时位置',
+      dataIndex: 'storage_location',
+      render: (value: string) => (
+        <span className='font-mono text-sm'>{value || '-'}</span>
+      ),
+    },
+    {
+      key: 'exposure',
+      title: '暴露时长',
+      dataIndex: 'exposure_minutes',
+      render: (value: number, record: ExcursionSample) => (
+        <div className='text-sm'>
+          <div>{formatDuration(value)}</div>
+          <div className='text-xs text-gray-500'>
+            {formatTime(record.exposure_start)} ~{' '}
+            {record.exposure_end ? formatTime(record.exposure_end) : '至今'}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'assessment',
+      title: '评估结果',
+      dataIndex: 'assessment',
+      render: (value: ExcursionAssessment, record: ExcursionSample) => (
+        <div>
+          {renderBadge(assessmentConfig[value])}
+          {record.assessment_comments && (
+            <div className='text-xs text-gray-500 mt-1'>
+              {record.assessment_comments}
+            </div>
+          )}
+        </div>
+      ),
+    },
+  ]
+
+  return (
+    <div className='max-w-7xl mx-auto p-6 space-y-6'>
+      {/* 页面标题 */}
+      <div className='bg-white rounded-lg shadow-md border p-6'>
+        <div className='flex items-center justify-between'>
+          <div className='flex items-center space-x-4'>
+            <ThermometerSnowflake className='w-8 h-8 text-blue-600' />
+            <div>
+              <h1 className='text-2xl font-bold text-gray-900'>温度偏离评估</h1>
+              <p className='text-gray-600 mt-1'>
+                存储单元温度异常时自动关联偏离期间存放的样本，评估样本是否受影响
+              </p>
+            </div>
+          </div>
+          <div className='flex items-center space-x-3'>
+            {canManage && (
+              <>
+                <button
+                  onClick={openPoints}
+                  className='px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center space-x-2'
+                >
+                  <Link2 className='w-4 h-4' />
+                  <span>监控点关联</span>
+                </button>
+                <button
+                  onClick={handleScan}
+                  className='px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center space-x-2'
+                >
+                  <ThermometerSnowflake className='w-4 h-4' />
+                  <span>偏离检查</span>
+                </button>
+              </>
+            )}
+            <button
+              onClick={loadExcursions}
+              disabled={loading}
+              className='px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center space-x-2'
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>刷新</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className='bg-white rounded-lg shadow-md border p-6'>
+        {/* 筛选条件 */}
+        <div className='flex items-center space-x-2 mb-4'>
+          <Filter className='w-5 h-5 text-gray-600' />
+          <h2 className='text-lg font-semibold text-gray-900'>筛选条件</h2>
+        </div>
+        <div className='grid grid-cols-1 md:grid-cols-4 gap-4 mb-6'>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>
+              偏离状态
+            </label>
+            <select
+              value={statusFilter}
+              onChange={e =>
+                setStatusFilter(e.target.value as ExcursionStatus | '')
+              }
+              className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+            >
+              <option value=''>全部状态</option>
+              {(Object.keys(excursionStatusConfig) as ExcursionStatus[]).map(
+                status => (
+                  <option key={status} value={status}>
+                    {excursionStatusConfig[status].label}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>
+              偏离编号
+            </label>
+            <input
+              type='text'
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder='搜索偏离编号'
+              className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+            />
+          </div>
+        </div>
+
+        <DataTable
+          columns={excursionColumns}
+          dataSource={excursions}
+          loading={loading}
+        />
+      </div>
+
+      {/* 偏离详情与评估 */}
+      <Modal
+        open={Boolean(detail)}
+        onClose={() => setDetail(null)}
+        title={`温度偏离 ${detail?.excursion_no || ''}`}
+        size='xl'
+      >
+        {detail && (
+          <div className='space-y-4'>
+            <div className='grid grid-cols-2 md:grid-cols-4 gap-4 text-sm'>
+              <div>
+                <div className='text-gray-500'>存储单元</div>
+                <div className='font-mono'>
+                  {detail.storage_units?.path} {detail.storage_units?.name}
+                </div>
+              </div>
+              <div>
+                <div className='text-gray-500'>偏离时段</div>
+                <div>
+                  {formatTime(detail.started_at)} ~{' '}
+                  {detail.ended_at ? formatTime(detail.ended_at) : '仍在偏离'}
+                </div>
+              </div>
+              <div>
+                <div className='text-gray-500'>峰值温度</div>
+                <div>
+                  {detail.peak_temperature ?? '-'}℃（
+                  {formatDeviation(detail.peak_deviation)}）
+                </div>
+              </div>
+              <div>
+                <div className='text-gray-500'>温度阈值</div>
+                <div>
+                  {detail.threshold_min ?? '-'} ~ {detail.threshold_max ?? '-'}℃
+                </div>
+              </div>
+            </div>
+
+            {!detail.ended_at && (
+              <p className='text-sm text-red-600'>
+                偏离仍在进行，暴露时长尚未确定，恢复正常后方可评估
+              </p>
+            )}
+
+            {assessable && pendingSamples.length > 0 && (
+              <div className='flex items-center justify-between text-sm'>
+                <span className='text-gray-600'>
+                  待评估 {pendingSamples.length} 个，已选 {selectedSamples.length} 个
+                </span>
+                <button
+                  onClick={() =>
+                    setSelectedSamples(
+                      selectedSamples.length === pendingSamples.length
+                        ? []
+                        : pendingSamples.map(row => row.sample_id)
+                    )
+                  }
+                  className='text-blue-600 hover:text-blue-800'
+                >
+                  {selectedSamples.length === pendingSamples.length
+                    ? '取消全选'
+                    : '全选待评估'}
+                </button>
+              </div>
+            )}
+
+            <DataTable
+              columns={sampleColumns}
+              dataSource={detail.temperature_excursion_samples || []}
+            />
+
+            {assessable && pendingSamples.length > 0 && (
+              <>
+                <div>
+                  <label className='block text-sm font-medium text-gray-700 mb-1'>
+                    评估意见
+                  </label>
+                  <textarea
+                    rows={2}
+                    maxLength={1000}
+                    value={comments}
+                    onChange={e => setComments(e.target.value)}
+                    placeholder='评为不合格时必填，如 样本稳定性不支持该暴露条件'
+                    className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                  />
+                </div>
+                <div className='flex justify-end space-x-3'>
+                  <button
+                    onClick={() => handleAssess('unqualified')}
+                    disabled={submitting || selectedSamples.length === 0}
+                    className='px-4 py-2 text-sm border border-red-300 text-red-600 rounded-md hover:bg-red-50 disabled:opacity-50'
+                  >
+                    评为不合格
+                  </button>
+                  <button
+                    onClick={() => handleAssess('assessed')}
+                    disabled={submitting || selectedSamples.length === 0}
+                    className='px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50'
+                  >
+                    不受影响
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </Modal>
+
+      {/* 监控点关联存储单元 */}
+      <Modal
+        open={pointsOpen}
+        onClose={() => setPointsOpen(false)}
+        title='监控点关联存储单元'
+        size='large'
+      >
+        <div className='space-y-3'>
+          <p className='text-sm text-gray-500'>
+            关联后，监控点温度异常时评估该单元及其下级单元内存放的样本
+          </p>
+          <div className='border border-gray-200 rounded-md divide-y'>
+            {points.length === 0 ? (
+              <p className='p-4 text-sm text-gray-500 text-center'>暂无监控点</p>
+            ) : (
+              points.map(point => (
+                <div
+                  key={point.id}
+                  className='flex items-center px-3 py-2 text-sm space-x-3'
+                >
+                  <div className='flex-1'>
+                    <div>
+                      <span className='font-mono'>{point.point_no}</span>{' '}
+                      {point.name}
+                      {!point.is_active && (
+                        <span className='ml-2 text-xs text-gray-400'>已停用</span>
+                      )}
+                    </div>
+                    <div className='text-xs text-gray-500'>
+                      {point.location} · 阈值{' '}
+                      {point.temperature_threshold
+                        ? `${point.temperature_threshold.min ?? '-'} ~ ${point.temperature_threshold.max ?? '-'}℃`
+                        : '未配置'}
+                    </div>
+                  </div>
+                  <select
+                    value={point.storage_unit_id || ''}
+                    onChange={e => handleLink(point, e.target.value)}
+                    className='w-64 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                  >
+                    <option value=''>未关联</option>
+                    {units.map(unit => (
+                      <option key={unit.id} value={unit.id}>
+                        {unit.path} {unit.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
+
+export default TemperatureExcursion
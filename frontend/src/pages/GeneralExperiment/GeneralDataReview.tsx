@@ -20,6 +20,11 @@ import {
 } from 'lucide-react'
 import DataTable from '../../components/DataTable'
 import { toast } from 'sonner'
+import {
+  ExperimentService,
+  type ExperimentDetail,
+  type PendingReview,
+} from '../../services'
 
 // 审核状态
 type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'reviewing'
@@ -78,6 +83,71 @@ const priorityOptions = [
   { label: '低', value: 'low' },
 ]
 
+/**
+ * 将待审核实验转换为页面数据
+ * @param experiment 待审核实验
+ * @returns 审核数据
+ */
+const toReviewData = (experiment: PendingReview): ReviewData => {
+  const level = experiment.current_review_level || 1
+  const total = experiment.required_review_levels || 1
+
+  return {
+    id: experiment.id,
+    experimentId: experiment.id,
+    experimentCode: experiment.experiment_no,
+    experimentName: experiment.test_products?.name || '-',
+    sampleCode: experiment.samples?.sample_no || '-',
+    sampleName: experiment.samples?.submissions?.patient_name || '-',
+    dataCount: experiment.data_count,
+    submittedBy:
+      experiment.submitter?.real_name ||
+      experiment.technicians?.users?.real_name ||
+      '-',
+    submittedAt: experiment.submitted_at || experiment.completed_at || '',
+    reviewStatus: level > 1 ? 'reviewing' : 'pending',
+    reviewer: `第${level}/${total}级审核`,
+    priority: experiment.samples?.submissions?.is_urgent
+      ? 'urgent'
+      : experiment.abnormal_count > 0
+        ? 'high'
+        : 'medium',
+    createdAt: experiment.created_at || '',
+    updatedAt: experiment.submitted_at || '',
+  }
+}
+
+/**
+ * 将实验详情转换为数据明细
+ * @param detail 实验详情
+ * @returns 数据明细列表
+ */
+const toDataDetails = (detail: ExperimentDetail): ExperimentDataDetail[] => {
+  const itemMap = new Map(detail.items.map(item => [item.id, item]))
+
+  return detail.experiment_data.map(row => {
+    const item = itemMap.get(row.item_id)
+    return {
+      id: row.id,
+      parameterName: item?.name || '-',
+      parameterCode: item?.code || '-',
+      measuredValue: row.result_value,
+      unit: row.unit || '',
+      result: row.is_abnormal ? 'fail' : 'pass',
+      method: detail.test_products?.name || '-',
+      equipment: detail.batch_no ? `批次 ${detail.batch_no}` : '-',
+      operator: detail.technicians?.users?.real_name || '-',
+      measureTime: row.measured_at || '',
+      remarks: [
+        row.reference_range ? `参考范围：${row.reference_range}` : '',
+        row.abnormal_flag ? `异常标识：${row.abnormal_flag}` : '',
+      ]
+        .filter(Boolean)
+        .join('，'),
+    }
+  })
+}
+
 const DataReview: React.FC = () => {
   const navigate = useNavigate()
   const [loading, setLoading] = useState(false)
@@ -96,118 +166,18 @@ const DataReview: React.FC = () => {
   const [reviewComments, setReviewComments] = useState('')
   const [processing, setProcessing] = useState(false)
 
-  // 模拟审核数据
-  const mockReviewList: ReviewData[] = [
-    {
-      id: '1',
-      experimentId: 'exp1',
-      experimentCode: 'EXP2025010001',
-      experimentName: '工业废水COD检测',
-      sampleCode: 'S2025010001',
-      sampleName: '工业废水样本',
-      dataCount: 5,
-      submittedBy: '张三',
-      submittedAt: '2025-01-21T16:30:00Z',
-      reviewStatus: 'pending',
-      priority: 'high',
-      createdAt: '2025-01-21T16:30:00Z',
-      updatedAt: '2025-01-21T16:30:00Z',
-    },
-    {
-      id: '2',
-      experimentId: 'exp2',
-      experimentCode: 'EXP2025010002',
-      experimentName: '土壤重金属分析',
-      sampleCode: 'S2025010002',
-      sampleName: '农田土壤样本',
-      dataCount: 8,
-      submittedBy: '李四',
-      submittedAt: '2025-01-20T14:20:00Z',
-      reviewStatus: 'reviewing',
-      reviewer: '王审核',
-      priority: 'medium',
-      createdAt: '2025-01-20T14:20:00Z',
-      updatedAt: '2025-01-21T10:15:00Z',
-    },
-    {
-      id: '3',
-      experimentId: 'exp3',
-      experimentCode: 'EXP2025010003',
-      experimentName: '室内空气甲醛检测',
-      sampleCode: 'S2025010003',
-      sampleName: '室内空气样本',
-      dataCount: 3,
-      submittedBy: '王五',
-      submittedAt: '2025-01-19T11:45:00Z',
-      reviewStatus: 'approved',
-      reviewer: '赵审核',
-      reviewedAt: '2025-01-19T15:30:00Z',
-      reviewComments: '数据准确，符合标准要求',
-      priority: 'urgent',
-      createdAt: '2025-01-19T11:45:00Z',
-      updatedAt: '2025-01-19T15:30:00Z',
-    },
-    {
-      id: '4',
-      experimentId: 'exp4',
-      experimentCode: 'EXP2025010004',
-      experimentName: '食品添加剂检测',
-      sampleCode: 'S2025010004',
-      sampleName: '食品添加剂样本',
-      dataCount: 6,
-      submittedBy: '赵六',
-      submittedAt: '2025-01-18T09:20:00Z',
-      reviewStatus: 'rejected',
-      reviewer: '孙审核',
-      reviewedAt: '2025-01-18T17:10:00Z',
-      reviewComments: '部分数据异常，需要重新检测',
-      priority: 'low',
-      createdAt: '2025-01-18T09:20:00Z',
-      updatedAt: '2025-01-18T17:10:00Z',
-    },
-  ]
-
-  // 模拟实验数据详情
-  const mockReviewDetails: ExperimentDataDetail[] = [
-    {
-      id: '1',
-      parameterName: 'pH值',
-      parameterCode: 'ph',
-      measuredValue: 7.2,
-      unit: '',
-      standardValue: 7.0,
-      result: 'pass',
-      method: 'GB/T 6920-1986',
-      equipment: 'pH计-PHS-3C',
-      operator: '张三',
-      measureTime: '2025-01-21T10:30:00',
-      remarks: '测量环境温度25℃',
-    },
-    {
-      id: '2',
-      parameterName: '化学需氧量(COD)',
-      parameterCode: 'cod',
-      measuredValue: 45.6,
-      unit: 'mg/L',
-      standardValue: 50,
-      result: 'pass',
-      method: 'HJ 828-2017',
-      equipment: 'COD消解仪-XJ-Ⅱ',
-      operator: '张三',
-      measureTime: '2025-01-21T14:15:00',
-      remarks: '消解时间2小时',
-    },
-  ]
-
   // 加载审核数据
   useEffect(() => {
     const loadReviewData = async () => {
       setLoading(true)
       try {
-        // 模拟API调用
-        await new Promise(resolve => setTimeout(resolve, 500))
-        setReviewList(mockReviewList)
-        setFilteredReviewList(mockReviewList)
+        const { data } = await ExperimentService.getPendingReviews({
+          method: 'routine',
+          limit: 100,
+        })
+        const list = data.map(toReviewData)
+        setReviewList(list)
+        setFilteredReviewList(list)
       } catch (error) {
         console.error('加载审核数据失败:', error)
         toast.error('加载审核数据失败')
@@ -466,9 +436,10 @@ const DataReview: React.FC = () => {
     setSelectedReview(record)
     setLoading(true)
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 500))
-      setReviewDetails(mockReviewDetails)
+      const detail = await ExperimentService.getExperimentById(
+        record.experimentId
+      )
+      setReviewDetails(toDataDetails(detail))
     } catch (error) {
       console.error('加载详情失败:', error)
       toast.error('加载详情失败')
@@ -497,24 +468,22 @@ const DataReview: React.FC = () => {
   const handleSubmitReview = async () => {
     if (!selectedReview || !reviewAction) return
 
+    if (reviewAction === 'reject' && !reviewComments.trim()) {
+      toast.error('驳回时请填写审核意见')
+      return
+    }
+
     setProcessing(true)
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      const updatedReview: ReviewData = {
-        ...selectedReview,
-        reviewStatus: reviewAction === 'approve' ? 'approved' : 'rejected',
-        reviewer: '当前用户', // 实际应用中从用户状态获取
-        reviewedAt: new Date().toISOString(),
-        reviewComments: reviewComments,
-        updatedAt: new Date().toISOString(),
-      }
+      await ExperimentService.reviewExperiment(
+        selectedReview.experimentId,
+        reviewAction === 'approve' ? 'approved' : 'rejected',
+        reviewComments || undefined
+      )
 
+      // 审核后该实验转入下一级审核人或退回录入，不再出现在当前用户的队列中
       setReviewList(
-        reviewList.map(item =>
-          item.id === selectedReview.id ? updatedReview : item
-        )
+        reviewList.filter(item => item.id !== selectedReview.id)
       )
 
       toast.success(`审核${reviewAction === 'approve' ? '批准' : '驳回'}成功`)
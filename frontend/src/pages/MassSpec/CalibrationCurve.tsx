@@ -0,0 +1,719 @@
+/**
+ * 校准曲线定量页面
+ * 按批次和检测项目录入校准品峰面积，线性或二次加权拟合并按r²和回算准确度判定；
+ * 合格曲线将粘贴的未知样本峰面积定量为浓度写入实验结果
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Trash2, ClipboardPaste, CheckCircle, XCircle, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage, getApiErrorDetails } from '../../lib/http'
+import DataTable from '../../components/DataTable'
+import CalibrationCurveChart from '../../components/CalibrationCurveChart'
+import {
+  CalibrationService,
+  type QuantitativeItem,
+  type CalibrationCurve as CalibrationCurveRecord,
+  type CalibrationCurveInput,
+  type CalibrationFit,
+  type FitType,
+  type Weighting,
+  type UnknownInput,
+  type QuantitationResult,
+} from '../../services/calibrationService'
+
+// 表单中的校准品行，数值以文本编辑
+interface PointRow {
+  level: string
+  nominal_concentration: string
+  analyte_area: string
+  is_area: string
+  is_excluded: boolean
+}
+
+// 权重选项
+const weightingOptions: { value: Weighting; label: string }[] = [
+  { value: 'none', label: '不加权' },
+  { value: '1/x', label: '1/x' },
+  { value: '1/x2', label: '1/x²' },
+]
+
+// 超出定量范围标识
+const rangeFlagText: Record<string, string> = {
+  below_lloq: '低于定量下限',
+  above_uloq: '高于定量上限，须稀释重测',
+}
+
+const emptyPoint = (index: number): PointRow => ({
+  level: `CAL${index + 1}`,
+  nominal_concentration: '',
+  analyte_area: '',
+  is_area: '',
+  is_excluded: false,
+})
+
+/**
+ * 解析从Excel复制的表格文本
+ * @description 按制表符或逗号分列，跳过空行和数值列不是数字的表头行
+ * @param text 粘贴的文本
+ * @param numericColumns 必须为数字的列下标
+ * @returns 按行的单元格
+ */
+const parsePasted = (text: string, numericColumns: number[]): string[][] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.split(/\t|,/).map(cell => cell.trim()))
+    .filter(cells => cells.some(Boolean))
+    .filter(cells => numericColumns.every(col => cells[col] !== undefined && cells[col] !== '' && !Number.isNaN(Number(cells[col]))))
+
+const CalibrationCurve = () => {
+  const [items, setItems] = useState<QuantitativeItem[]>([])
+  const [curves, setCurves] = useState<CalibrationCurveRecord[]>([])
+  const [batchSearch, setBatchSearch] = useState('')
+
+  // 曲线编辑
+  const [batchNo, setBatchNo] = useState('')
+  const [itemId, setItemId] = useState('')
+  const [fitType, setFitType] = useState<FitType>('linear')
+  const [weighting, setWeighting] = useState<Weighting>('1/x')
+  const [useInternalStandard, setUseInternalStandard] = useState(true)
+  const [rows, setRows] = useState<PointRow[]>(Array.from({ length: 6 }, (_, i) => emptyPoint(i)))
+  const [fit, setFit] = useState<CalibrationFit | null>(null)
+  const [savedCurve, setSavedCurve] = useState<CalibrationCurveRecord | null>(null)
+  const [dirty, setDirty] = useState(false)
+  const [fitting, setFitting] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  // 未知样本定量
+  const [unknownText, setUnknownText] = useState('')
+  const [quantResult, setQuantResult] = useState<QuantitationResult | null>(null)
+  const [quantifying, setQuantifying] = useState(false)
+
+  const item = items.find(option => option.id === itemId)
+
+  useEffect(() => {
+    CalibrationService.getItems()
+      .then(setItems)
+      .catch(error => console.error('加载质谱定量项目失败:', error))
+  }, [])
+
+  // 加载校准曲线列表
+  const loadCurves = useCallback(async () => {
+    try {
+      const result = await CalibrationService.getCurves({ page: 1, limit: 20, search: batchSearch || undefined })
+      setCurves(result.data)
+    } catch (error) {
+      console.error('加载校准曲线失败:', error)
+      toast.error('加载校准曲线失败')
+    }
+  }, [batchSearch])
+
+  useEffect(() => {
+    loadCurves()
+  }, [loadCurves])
+
+  // 编辑后已保存的曲线不再对应当前数据
+  const markDirty = () => {
+    setDirty(true)
+    setFit(null)
+  }
+
+  const updateRow = (index: number, changes: Partial<PointRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+    markDirty()
+  }
+
+  // 粘贴校准品：水平、标示浓度、待测物峰面积、内标峰面积
+  const handlePastePoints = async () => {
+    try {
+      const text = await navigator.clipboard.readText()
+      const parsed = parsePasted(text, [1, 2])
+      if (parsed.length === 0) {
+        toast.error('剪贴板中没有可识别的校准品数据')
+        return
+      }
+      setRows(parsed.map(cells => ({
+        level: cells[0],
+        nominal_concentration: cells[1],
+        analyte_area: cells[2],
+        is_area: cells[3] || '',
+        is_excluded: false,
+      })))
+      markDirty()
+      toast.success(`已粘贴${parsed.length}个校准品`)
+    } catch (error) {
+      console.error('读取剪贴板失败:', error)
+      toast.error('无法读取剪贴板，请检查浏览器权限')
+    }
+  }
+
+  // 整理曲线参数
+  const buildInput = (): CalibrationCurveInput | null => {
+    if (!batchNo.trim() || !itemId) {
+      toast.error('请填写实验批次并选择检测项目')
+      return null
+    }
+    const filled = rows.filter(row => row.nominal_concentration !== '' && row.analyte_area !== '')
+    if (filled.length < 2) {
+      toast.error('至少需要2个校准品')
+      return null
+    }
+    if (useInternalStandard && filled.some(row => !(Number(row.is_area) > 0))) {
+      toast.error('使用内标时每个校准品都需填写内标峰面积')
+      return null
+    }
+    return {
+      batch_no: batchNo.trim(),
+      item_id: itemId,
+      fit_type: fitType,
+      weighting,
+      use_internal_standard: useInternalStandard,
+      points: filled.map(row => ({
+        level: row.level || '-',
+        nominal_concentration: Number(row.nominal_concentration),
+        analyte_area: Number(row.analyte_area),
+        is_area: row.is_area ? Number(row.is_area) : null,
+        is_excluded: row.is_excluded,
+      })),
+    }
+  }
+
+  // 试拟合
+  const handleFit = async () => {
+    const input = buildInput()
+    if (!input) return
+    try {
+      setFitting(true)
+      setFit(await CalibrationService.fitCurve(input))
+    } catch (error: unknown) {
+      console.error('拟合校准曲线失败:', error)
+      toast.error(getApiErrorMessage(error, '拟合校准曲线失败'))
+    } finally {
+      setFitting(false)
+    }
+  }
+
+  // 保存曲线
+  const handleSave = async () => {
+    const input = buildInput()
+    if (!input) return
+    try {
+      setSaving(true)
+      const saved = await CalibrationService.saveCurve(input)
+      applyCurve(saved)
+      toast[saved.status === 'passed' ? 'success' : 'warning'](
+        saved.status === 'passed' ? '校准曲线已保存，判定合格' : '校准曲线已保存，判定不合格'
+      )
+      loadCurves()
+    } catch (error: unknown) {
+      console.error('保存校准曲线失败:', error)
+      toast.error(getApiErrorMessage(error, '保存校准曲线失败'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // 载入已保存的曲线
+  const applyCurve = (curve: CalibrationCurveRecord) => {
+    const points = curve.calibration_points || []
+    setSavedCurve(curve)
+    setBatchNo(curve.batch_no)
+    setItemId(curve.item_id)
+    setFitType(curve.fit_type)
+    setWeighting(curve.weighting)
+    setUseInternalStandard(curve.use_internal_standard)
+    setRows(points.map(point => ({
+      level: point.level,
+      nominal_concentration: String(Number(point.nominal_concentration)),
+      analyte_area: String(Number(point.analyte_area)),
+      is_area: point.is_area ? String(Number(point.is_area)) : '',
+      is_excluded: Boolean(point.is_excluded),
+    })))
+    setFit({
+      coefficients: {
+        intercept: Number(curve.intercept),
+        slope: Number(curve.slope),
+        quadratic: Number(curve.quadratic || 0),
+      },
+      r_squared: Number(curve.r_squared),
+      points,
+      lloq: curve.lloq,
+      uloq: curve.uloq,
+      status: curve.status,
+      failure_reasons: curve.failure_reasons || [],
+      acceptance: curve.acceptance!,
+    })
+    setDirty(false)
+    setQuantResult(null)
+  }
+
+  const handleOpenCurve = async (id: string) => {
+    try {
+      applyCurve(await CalibrationService.getCurve(id))
+    } catch (error) {
+      console.error('加载校准曲线失败:', error)
+      toast.error('加载校准曲线失败')
+    }
+  }
+
+  // 解析未知样本：样本标识、待测物峰面积、内标峰面积
+  const parseUnknowns = (): UnknownInput[] =>
+    parsePasted(unknownText, [1]).map(cells => ({
+      sample_key: cells[0],
+      analyte_area: Number(cells[1]),
+      is_area: cells[2] ? Number(cells[2]) : null,
+    }))
+
+  // 校验或执行定量
+  const handleQuantify = async (commit: boolean) => {
+    if (!savedCurve) return
+    const unknowns = parseUnknowns()
+    if (unknowns.length === 0) {
+      toast.error('请粘贴未知样本：样本标识、峰面积、内标峰面积')
+      return
+    }
+    try {
+      setQuantifying(true)
+      const result = commit
+        ? await CalibrationService.quantify(savedCurve.id, unknowns)
+        : await CalibrationService.validateQuantitation(savedCurve.id, unknowns)
+      setQuantResult(result)
+      if (commit) {
+        toast.success(`定量完成，共写入${result.quantified_count}个样本结果`)
+        loadCurves()
+      } else if (result.error_count > 0) {
+        toast.error(`有${result.error_count}个样本未通过校验`)
+      }
+    } catch (error: unknown) {
+      console.error('定量失败:', error)
+      const { errors } = getApiErrorDetails<Pick<QuantitationResult, 'errors'>>(error)
+      if (errors) {
+        setQuantResult(prev => (prev ? { ...prev, errors, error_count: errors.length } : prev))
+      }
+      toast.error(getApiErrorMessage(error, '定量失败'))
+    } finally {
+      setQuantifying(false)
+    }
+  }
+
+  const curveColumns = [
+    {
+      key: 'batch_no',
+      title: '实验批次',
+      dataIndex: 'batch_no',
+      render: (value: string, record: CalibrationCurveRecord) => (
+        <button onClick={() => handleOpenCurve(record.id)} className='font-mono text-blue-600 hover:text-blue-800'>
+          {value}
+        </button>
+      ),
+    },
+    {
+      key: 'item',
+      title: '检测项目',
+      dataIndex: 'test_items',
+      render: (_: unknown, record: CalibrationCurveRecord) => record.test_items?.name || '-',
+    },
+    {
+      key: 'r_squared',
+      title: 'r²',
+      dataIndex: 'r_squared',
+      render: (value: number) => Number(value).toFixed(4),
+    },
+    {
+      key: 'status',
+      title: '判定',
+      dataIndex: 'status',
+      render: (value: string) =>
+        value === 'passed' ? (
+          <span className='px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800'>合格</span>
+        ) : (
+          <span className='px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800'>不合格</span>
+        ),
+    },
+    {
+      key: 'quantified_at',
+      title: '定量时间',
+      dataIndex: 'quantified_at',
+      render: (value: string | null) => (value ? new Date(value).toLocaleString('zh-CN') : '未定量'),
+    },
+  ]
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500'
+  const fitPoints = fit?.points || []
+
+  return (
+    <div className='p-6 space-y-6'>
+      {/* 页面标题 */}
+      <div>
+        <h1 className='text-2xl font-bold text-gray-900'>校准曲线定量</h1>
+        <p className='text-gray-600 mt-1'>按批次拟合校准曲线，合格后将未知样本峰面积定量为浓度写入实验结果</p>
+      </div>
+
+      <div className='grid grid-cols-1 xl:grid-cols-3 gap-6'>
+        {/* 曲线编辑 */}
+        <div className='xl:col-span-2 bg-white p-4 rounded-lg shadow space-y-4'>
+          <div className='grid grid-cols-2 md:grid-cols-5 gap-3'>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>实验批次</label>
+              <input
+                type='text'
+                value={batchNo}
+                onChange={e => {
+                  setBatchNo(e.target.value)
+                  markDirty()
+                }}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>检测项目</label>
+              <select
+                value={itemId}
+                onChange={e => {
+                  setItemId(e.target.value)
+                  markDirty()
+                }}
+                className={inputClass}
+              >
+                <option value=''>选择检测项目</option>
+                {items.map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.code} {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>拟合方式</label>
+              <select
+                value={fitType}
+                onChange={e => {
+                  setFitType(e.target.value as FitType)
+                  markDirty()
+                }}
+                className={inputClass}
+              >
+                <option value='linear'>线性</option>
+                <option value='quadratic'>二次</option>
+              </select>
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>权重</label>
+              <select
+                value={weighting}
+                onChange={e => {
+                  setWeighting(e.target.value as Weighting)
+                  markDirty()
+                }}
+                className={inputClass}
+              >
+                {weightingOptions.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className='flex items-center text-sm text-gray-700 mt-5'>
+              <input
+                type='checkbox'
+                checked={useInternalStandard}
+                onChange={e => {
+                  setUseInternalStandard(e.target.checked)
+                  markDirty()
+                }}
+                className='rounded border-gray-300 mr-2'
+              />
+              内标校正
+            </label>
+          </div>
+
+          {/* 校准品 */}
+          <div>
+            <div className='flex items-center justify-between mb-2'>
+              <h4 className='text-sm font-semibold text-gray-900'>校准品</h4>
+              <div className='flex items-center space-x-4'>
+                <button
+                  type='button'
+                  onClick={handlePastePoints}
+                  className='flex items-center text-sm text-blue-600 hover:text-blue-700'
+                  title='从Excel复制：水平、标示浓度、峰面积、内标峰面积'
+                >
+                  <ClipboardPaste className='w-4 h-4 mr-1' />
+                  从剪贴板粘贴
+                </button>
+                <button
+                  type='button'
+                  onClick={() => {
+                    setRows(prev => [...prev, emptyPoint(prev.length)])
+                    markDirty()
+                  }}
+                  className='flex items-center text-sm text-blue-600 hover:text-blue-700'
+                >
+                  <Plus className='w-4 h-4 mr-1' />
+                  添加
+                </button>
+              </div>
+            </div>
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='text-left text-xs text-gray-500 border-b'>
+                  <th className='py-2 pr-2'>水平</th>
+                  <th className='py-2 pr-2'>标示浓度{item ? `（${item.unit}）` : ''}</th>
+                  <th className='py-2 pr-2'>峰面积</th>
+                  <th className='py-2 pr-2'>内标峰面积</th>
+                  <th className='py-2 pr-2'>回算浓度</th>
+                  <th className='py-2 pr-2'>准确度</th>
+                  <th className='py-2 pr-2'>剔除</th>
+                  <th className='py-2' />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => {
+                  const evaluated = fitPoints[index]
+                  return (
+                    <tr key={index} className='border-b last:border-0'>
+                      <td className='py-1 pr-2 w-20'>
+                        <input
+                          type='text'
+                          value={row.level}
+                          onChange={e => updateRow(index, { level: e.target.value })}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className='py-1 pr-2'>
+                        <input
+                          type='number'
+                          step='any'
+                          value={row.nominal_concentration}
+                          onChange={e => updateRow(index, { nominal_concentration: e.target.value })}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className='py-1 pr-2'>
+                        <input
+                          type='number'
+                          step='any'
+                          value={row.analyte_area}
+                          onChange={e => updateRow(index, { analyte_area: e.target.value })}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className='py-1 pr-2'>
+                        <input
+                          type='number'
+                          step='any'
+                          disabled={!useInternalStandard}
+                          value={row.is_area}
+                          onChange={e => updateRow(index, { is_area: e.target.value })}
+                          className={`${inputClass} disabled:bg-gray-100`}
+                        />
+                      </td>
+                      <td className='py-1 pr-2 text-gray-700'>{evaluated?.back_calculated ?? '-'}</td>
+                      <td
+                        className={`py-1 pr-2 ${
+                          !evaluated || evaluated.is_excluded
+                            ? 'text-gray-400'
+                            : evaluated.passed
+                              ? 'text-green-700'
+                              : 'text-red-600 font-medium'
+                        }`}
+                      >
+                        {evaluated?.accuracy != null ? `${evaluated.accuracy}%` : '-'}
+                      </td>
+                      <td className='py-1 pr-2'>
+                        <input
+                          type='checkbox'
+                          checked={row.is_excluded}
+                          onChange={e => updateRow(index, { is_excluded: e.target.checked })}
+                          className='rounded border-gray-300'
+                        />
+                      </td>
+                      <td className='py-1'>
+                        <button
+                          type='button'
+                          onClick={() => {
+                            setRows(prev => prev.filter((_, i) => i !== index))
+                            markDirty()
+                          }}
+                          className='text-red-600 hover:text-red-700'
+                        >
+                          <Trash2 className='w-4 h-4' />
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className='flex justify-end space-x-3 pt-2 border-t'>
+            <button
+              onClick={handleFit}
+              disabled={fitting}
+              className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 text-sm'
+            >
+              {fitting ? '拟合中...' : '试拟合'}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+            >
+              {saving ? '保存中...' : '保存曲线'}
+            </button>
+          </div>
+        </div>
+
+        {/* 拟合结果 */}
+        <div className='bg-white p-4 rounded-lg shadow space-y-3'>
+          <h3 className='text-sm font-semibold text-gray-900'>拟合结果</h3>
+          {fit ? (
+            <>
+              <div
+                className={`flex items-center text-sm font-medium ${
+                  fit.status === 'passed' ? 'text-green-700' : 'text-red-600'
+                }`}
+              >
+                {fit.status === 'passed' ? <CheckCircle className='w-4 h-4 mr-1' /> : <XCircle className='w-4 h-4 mr-1' />}
+                {fit.status === 'passed' ? '曲线合格' : '曲线不合格'}
+              </div>
+              {fit.failure_reasons.length > 0 && (
+                <ul className='text-xs text-red-600 list-disc pl-4'>
+                  {fit.failure_reasons.map(reason => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+              <div className='text-xs text-gray-700 space-y-1 font-mono'>
+                <div>
+                  y = {fit.coefficients.quadratic ? `${fit.coefficients.quadratic.toPrecision(4)}x² + ` : ''}
+                  {fit.coefficients.slope.toPrecision(4)}x + {fit.coefficients.intercept.toPrecision(4)}
+                </div>
+                <div>r² = {fit.r_squared.toFixed(4)}</div>
+                <div>
+                  定量范围：{fit.lloq ?? '-'} ~ {fit.uloq ?? '-'} {item?.unit || ''}
+                </div>
+              </div>
+              <CalibrationCurveChart points={fit.points} coefficients={fit.coefficients} unit={item?.unit} />
+            </>
+          ) : (
+            <div className='text-sm text-gray-500 py-8 text-center'>录入校准品后试拟合或保存曲线</div>
+          )}
+        </div>
+      </div>
+
+      {/* 未知样本定量 */}
+      <div className='bg-white p-4 rounded-lg shadow space-y-3'>
+        <h3 className='text-sm font-semibold text-gray-900'>未知样本定量</h3>
+        {!savedCurve || dirty ? (
+          <p className='text-sm text-gray-500'>请先保存校准曲线，保存后的曲线判定合格才能定量。</p>
+        ) : savedCurve.status !== 'passed' ? (
+          <p className='text-sm text-red-600'>当前曲线不合格，不能用于定量。</p>
+        ) : (
+          <>
+            <textarea
+              rows={6}
+              value={unknownText}
+              onChange={e => {
+                setUnknownText(e.target.value)
+                setQuantResult(null)
+              }}
+              placeholder={'从Excel复制粘贴，每行：样本条码/样本编号/实验编号、峰面积、内标峰面积\n例如：\nS20250820001\t152340\t98210'}
+              className='w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
+            <div className='flex justify-end space-x-3'>
+              <button
+                onClick={() => handleQuantify(false)}
+                disabled={quantifying}
+                className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 text-sm'
+              >
+                校验预览
+              </button>
+              <button
+                onClick={() => handleQuantify(true)}
+                disabled={quantifying || !quantResult || quantResult.error_count > 0}
+                className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+              >
+                {quantifying ? '处理中...' : '定量并写入结果'}
+              </button>
+            </div>
+
+            {quantResult && (
+              <div className='space-y-3'>
+                <div className='text-sm text-gray-700'>
+                  共{quantResult.total_rows}行，可定量{quantResult.quantified_count}个，超出定量范围
+                  {quantResult.out_of_range_count}个，错误{quantResult.error_count}行
+                </div>
+                {quantResult.errors.length > 0 && (
+                  <ul className='text-sm text-red-600 space-y-1'>
+                    {quantResult.errors.map(error => (
+                      <li key={error.row_no} className='flex items-start'>
+                        <AlertTriangle className='w-4 h-4 mr-1 mt-0.5 flex-shrink-0' />
+                        第{error.row_no}行 {error.sample_key}：{error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {quantResult.results.length > 0 && (
+                  <table className='w-full text-sm'>
+                    <thead>
+                      <tr className='text-left text-xs text-gray-500 border-b'>
+                        <th className='py-2 pr-2'>行</th>
+                        <th className='py-2 pr-2'>样本</th>
+                        <th className='py-2 pr-2'>实验编号</th>
+                        <th className='py-2 pr-2'>响应</th>
+                        <th className='py-2 pr-2'>浓度</th>
+                        <th className='py-2 pr-2'>报告结果</th>
+                        <th className='py-2'>范围</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {quantResult.results.map(result => (
+                        <tr key={result.row_no} className='border-b last:border-0'>
+                          <td className='py-1 pr-2 text-gray-500'>{result.row_no}</td>
+                          <td className='py-1 pr-2 font-mono'>{result.sample_key}</td>
+                          <td className='py-1 pr-2 font-mono'>{result.experiment_no}</td>
+                          <td className='py-1 pr-2'>{result.response}</td>
+                          <td className='py-1 pr-2 font-medium'>
+                            {result.concentration} {item?.unit || ''}
+                          </td>
+                          <td className='py-1 pr-2 font-medium'>
+                            {result.result_value} {item?.unit || ''}
+                          </td>
+                          <td className={`py-1 ${result.range_flag ? 'text-yellow-700' : 'text-gray-400'}`}>
+                            {result.range_flag ? rangeFlagText[result.range_flag] : '范围内'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* 已保存的曲线 */}
+      <div className='bg-white p-4 rounded-lg shadow'>
+        <div className='flex items-center justify-between mb-4'>
+          <h3 className='text-sm font-semibold text-gray-900'>校准曲线记录</h3>
+          <input
+            type='text'
+            value={batchSearch}
+            onChange={e => setBatchSearch(e.target.value)}
+            placeholder='搜索实验批次'
+            className='px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+          />
+        </div>
+        <DataTable columns={curveColumns} dataSource={curves} />
+      </div>
+    </div>
+  )
+}
+
+export default CalibrationCurve
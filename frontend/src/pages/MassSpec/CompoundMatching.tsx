@@ -0,0 +1,795 @@
+/**
+ * 化合物鉴定页面
+ * 上传质谱峰后按ppm和保留时间容差与化合物库比对打分，审核人员确认候选或人工改判；维护化合物库
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { Plus, Edit, Search, RefreshCw, ChevronDown, ChevronRight, Check } from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../../lib/http'
+import DataTable from '../../components/DataTable'
+import Modal from '../../components/Modal'
+import CompoundForm from '../../components/CompoundForm'
+import { usePermissions } from '../../hooks/usePermissions'
+import { ExperimentService, type Experiment } from '../../services/experimentService'
+import {
+  CompoundService,
+  type AdductOption,
+  type AnnotationStatus,
+  type Compound,
+  type ExperimentPeaks,
+  type MassSpecPeak,
+  type PeakInput,
+} from '../../services/compoundService'
+
+// 鉴定状态选项
+const annotationStatusOptions: { value: AnnotationStatus; label: string; color: string }[] = [
+  { value: 'suggested', label: '待确认', color: 'bg-yellow-100 text-yellow-800' },
+  { value: 'unmatched', label: '无匹配', color: 'bg-gray-100 text-gray-700' },
+  { value: 'accepted', label: '已确认', color: 'bg-green-100 text-green-800' },
+  { value: 'overridden', label: '人工改判', color: 'bg-blue-100 text-blue-800' },
+]
+
+// 页签
+type MatchingTab = 'peaks' | 'library'
+
+// 空白改判表单
+const emptyOverride = { compound_id: '', compound: '', formula: '', adduct: '', confidence: '', notes: '' }
+
+/**
+ * 解析从峰表导出文件复制的文本
+ * @description 每行：峰编号、m/z、强度、保留时间，按制表符或逗号分列，跳过表头行
+ * @param text 粘贴的文本
+ * @returns 质谱峰
+ */
+const parsePeaks = (text: string): PeakInput[] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.split(/\t|,/).map(cell => cell.trim()))
+    .filter(cells => cells[0] && [1, 2, 3].every(col => cells[col] !== undefined && cells[col] !== '' && !Number.isNaN(Number(cells[col]))))
+    .map(cells => ({
+      peak_no: cells[0],
+      mz: Number(cells[1]),
+      intensity: Number(cells[2]),
+      retention_time: Number(cells[3]),
+    }))
+
+const CompoundMatching = () => {
+  const { hasPermission } = usePermissions()
+  const canEntry = hasPermission('mass_spec.data_entry')
+  const canReview = hasPermission('mass_spec.data_review')
+
+  const [tab, setTab] = useState<MatchingTab>('peaks')
+  const [adducts, setAdducts] = useState<AdductOption[]>([])
+
+  // 实验选择
+  const [experimentSearch, setExperimentSearch] = useState('')
+  const [experimentOptions, setExperimentOptions] = useState<Experiment[]>([])
+  const [current, setCurrent] = useState<ExperimentPeaks | null>(null)
+  const [statusFilter, setStatusFilter] = useState<AnnotationStatus | ''>('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  // 上传
+  const [peakText, setPeakText] = useState('')
+  const [uploading, setUploading] = useState(false)
+
+  // 人工改判
+  const [overriding, setOverriding] = useState<MassSpecPeak | null>(null)
+  const [override, setOverride] = useState(emptyOverride)
+  const [overrideSearch, setOverrideSearch] = useState('')
+  const [overrideOptions, setOverrideOptions] = useState<Compound[]>([])
+  const [reviewing, setReviewing] = useState(false)
+
+  // 化合物库
+  const [compounds, setCompounds] = useState<Compound[]>([])
+  const [libraryLoading, setLibraryLoading] = useState(false)
+  const [libraryPage, setLibraryPage] = useState(1)
+  const [libraryPageSize, setLibraryPageSize] = useState(10)
+  const [libraryTotal, setLibraryTotal] = useState(0)
+  const [librarySearch, setLibrarySearch] = useState('')
+  const [editingCompound, setEditingCompound] = useState<Compound | null>(null)
+  const [showCompoundForm, setShowCompoundForm] = useState(false)
+
+  useEffect(() => {
+    CompoundService.getAdducts()
+      .then(setAdducts)
+      .catch(error => console.error('加载加合离子失败:', error))
+  }, [])
+
+  // 加载化合物库
+  const loadCompounds = useCallback(async () => {
+    try {
+      setLibraryLoading(true)
+      const result = await CompoundService.getCompounds({
+        page: libraryPage,
+        limit: libraryPageSize,
+        search: librarySearch || undefined,
+      })
+      setCompounds(result.data)
+      setLibraryTotal(result.pagination.total)
+    } catch (error) {
+      console.error('加载化合物库失败:', error)
+      toast.error('加载化合物库失败')
+    } finally {
+      setLibraryLoading(false)
+    }
+  }, [libraryPage, libraryPageSize, librarySearch])
+
+  useEffect(() => {
+    if (tab === 'library') {
+      loadCompounds()
+    }
+  }, [tab, loadCompounds])
+
+  // 查找质谱实验
+  const handleSearchExperiments = async () => {
+    try {
+      const result = await ExperimentService.getExperiments({
+        method: 'mass_spec',
+        search: experimentSearch || undefined,
+        limit: 20,
+      })
+      setExperimentOptions(result.data)
+      if (result.data.length === 0) {
+        toast.info('未找到匹配的质谱实验')
+      }
+    } catch (error) {
+      console.error('查找实验失败:', error)
+      toast.error('查找实验失败')
+    }
+  }
+
+  // 加载实验的质谱峰
+  const loadPeaks = async (experimentId: string) => {
+    try {
+      setCurrent(await CompoundService.getPeaks(experimentId))
+      setExpandedId(null)
+    } catch (error: unknown) {
+      console.error('加载质谱峰失败:', error)
+      toast.error(getApiErrorMessage(error, '加载质谱峰失败'))
+    }
+  }
+
+  // 上传质谱峰并比对
+  const handleUpload = async () => {
+    if (!current) return
+    const peaks = parsePeaks(peakText)
+    if (peaks.length === 0) {
+      toast.error('请粘贴质谱峰：峰编号、m/z、强度、保留时间')
+      return
+    }
+    if (current.peaks.length > 0 && !window.confirm('重新上传将替换该实验已有的质谱峰及鉴定结果，确定继续吗？')) {
+      return
+    }
+    try {
+      setUploading(true)
+      const result = await CompoundService.uploadPeaks(current.experiment.id, peaks)
+      toast.success(`已上传${result.total}个质谱峰，建议鉴定${result.suggested_count}个`)
+      setPeakText('')
+      loadPeaks(current.experiment.id)
+    } catch (error: unknown) {
+      console.error('上传质谱峰失败:', error)
+      toast.error(getApiErrorMessage(error, '上传质谱峰失败'))
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  // 重新比对化合物库
+  const handleRematch = async () => {
+    if (!current) return
+    try {
+      const count = await CompoundService.rematchPeaks(current.experiment.id)
+      toast.success(`已重新比对${count}个质谱峰`)
+      loadPeaks(current.experiment.id)
+    } catch (error: unknown) {
+      console.error('重新比对失败:', error)
+      toast.error(getApiErrorMessage(error, '重新比对失败'))
+    }
+  }
+
+  // 用审核后的质谱峰替换列表中的记录
+  const replacePeak = (peak: MassSpecPeak) => {
+    setCurrent(prev => (prev ? { ...prev, peaks: prev.peaks.map(item => (item.id === peak.id ? { ...item, ...peak } : item)) } : prev))
+  }
+
+  // 确认候选
+  const handleAccept = async (peak: MassSpecPeak, candidateIndex: number) => {
+    try {
+      replacePeak(await CompoundService.acceptCandidate(peak.id, candidateIndex))
+      toast.success(`峰 ${peak.peak_no} 鉴定已确认`)
+    } catch (error: unknown) {
+      console.error('确认鉴定失败:', error)
+      toast.error(getApiErrorMessage(error, '确认鉴定失败'))
+    }
+  }
+
+  // 打开改判
+  const openOverride = (peak: MassSpecPeak) => {
+    setOverriding(peak)
+    setOverride({
+      ...emptyOverride,
+      compound: peak.compound || '',
+      formula: peak.formula || '',
+      adduct: peak.adduct || '',
+      notes: peak.notes || '',
+    })
+    setOverrideSearch('')
+    setOverrideOptions([])
+  }
+
+  // 在化合物库中查找改判的化合物
+  const handleSearchCompounds = async () => {
+    try {
+      const result = await CompoundService.getCompounds({ search: overrideSearch || undefined, is_active: true, limit: 20 })
+      setOverrideOptions(result.data)
+    } catch (error) {
+      console.error('查找化合物失败:', error)
+      toast.error('查找化合物失败')
+    }
+  }
+
+  // 提交改判
+  const handleOverride = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!overriding) return
+    if (!override.compound_id && !override.compound.trim()) {
+      toast.error('请选择化合物或填写化合物名称')
+      return
+    }
+    if (override.confidence === '' || Number(override.confidence) < 0 || Number(override.confidence) > 100) {
+      toast.error('请填写0-100的置信度')
+      return
+    }
+    try {
+      setReviewing(true)
+      const saved = await CompoundService.overrideAnnotation(overriding.id, {
+        compound_id: override.compound_id || null,
+        compound: override.compound_id ? null : override.compound.trim(),
+        formula: override.compound_id ? null : override.formula.trim() || null,
+        adduct: override.adduct || null,
+        confidence: Number(override.confidence),
+        notes: override.notes || null,
+      })
+      replacePeak(saved)
+      toast.success(`峰 ${overriding.peak_no} 鉴定已改判`)
+      setOverriding(null)
+    } catch (error: unknown) {
+      console.error('改判鉴定失败:', error)
+      toast.error(getApiErrorMessage(error, '改判鉴定失败'))
+    } finally {
+      setReviewing(false)
+    }
+  }
+
+  const renderStatus = (status: AnnotationStatus) => {
+    const option = annotationStatusOptions.find(item => item.value === status)
+    return (
+      <span className={`px-2 py-1 rounded-full text-xs font-medium ${option?.color || ''}`}>
+        {option?.label || status}
+      </span>
+    )
+  }
+
+  const peaks = (current?.peaks || []).filter(peak => !statusFilter || peak.annotation_status === statusFilter)
+  const statusCounts = annotationStatusOptions.map(option => ({
+    ...option,
+    count: (current?.peaks || []).filter(peak => peak.annotation_status === option.value).length,
+  }))
+
+  const compoundColumns = [
+    {
+      key: 'name',
+      title: '化合物',
+      dataIndex: 'name',
+      render: (value: string, record: Compound) => (
+        <div>
+          <div className='font-medium text-gray-900'>{value}</div>
+          {record.cas_no && <div className='text-xs text-gray-500'>CAS {record.cas_no}</div>}
+        </div>
+      ),
+    },
+    { key: 'formula', title: '分子式', dataIndex: 'formula' },
+    {
+      key: 'monoisotopic_mass',
+      title: '单同位素质量',
+      dataIndex: 'monoisotopic_mass',
+      render: (value: number) => Number(value).toFixed(4),
+    },
+    {
+      key: 'expected_rt',
+      title: '预期保留时间',
+      dataIndex: 'expected_rt',
+      render: (value: number | null) => (value != null ? `${Number(value)} min` : '-'),
+    },
+    {
+      key: 'adducts',
+      title: '加合离子',
+      dataIndex: 'adducts',
+      render: (value: string[]) => <span className='font-mono text-xs'>{(value || []).join(' ')}</span>,
+    },
+    { key: 'category', title: '分类', dataIndex: 'category', render: (value: string | null) => value || '-' },
+    {
+      key: 'is_active',
+      title: '状态',
+      dataIndex: 'is_active',
+      render: (value: boolean) => (
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${value ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+          {value ? '启用' : '停用'}
+        </span>
+      ),
+    },
+    {
+      key: 'actions',
+      title: '操作',
+      dataIndex: 'id',
+      render: (_: unknown, record: Compound) =>
+        canReview ? (
+          <button
+            onClick={() => {
+              setEditingCompound(record)
+              setShowCompoundForm(true)
+            }}
+            className='text-blue-600 hover:text-blue-800'
+            title='编辑'
+          >
+            <Edit className='w-4 h-4' />
+          </button>
+        ) : null,
+    },
+  ]
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className='p-6'>
+      {/* 页面标题 */}
+      <div className='mb-6'>
+        <h1 className='text-2xl font-bold text-gray-900'>化合物鉴定</h1>
+        <p className='text-gray-600 mt-1'>质谱峰按质量偏差和保留时间与化合物库比对打分，审核人员确认或改判鉴定结果</p>
+      </div>
+
+      {/* 页签 */}
+      <div className='border-b border-gray-200 mb-6'>
+        <nav className='flex space-x-6'>
+          {([
+            ['peaks', '峰鉴定'],
+            ['library', '化合物库'],
+          ] as [MatchingTab, string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`pb-3 text-sm font-medium border-b-2 ${
+                tab === key ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {tab === 'peaks' && (
+        <div className='space-y-6'>
+          {/* 选择实验 */}
+          <div className='bg-white p-4 rounded-lg shadow'>
+            <div className='flex flex-col md:flex-row md:items-end gap-3'>
+              <div className='flex-1'>
+                <label className='block text-xs font-medium text-gray-700 mb-1'>质谱实验</label>
+                <div className='flex gap-2'>
+                  <input
+                    type='text'
+                    value={experimentSearch}
+                    onChange={e => setExperimentSearch(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleSearchExperiments()}
+                    placeholder='实验编号或批次号'
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={handleSearchExperiments}
+                    className='flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+                  >
+                    <Search className='w-4 h-4 mr-1' />
+                    查找
+                  </button>
+                </div>
+              </div>
+              {experimentOptions.length > 0 && (
+                <div className='flex-1'>
+                  <select
+                    value={current?.experiment.id || ''}
+                    onChange={e => e.target.value && loadPeaks(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value=''>选择实验</option>
+                    {experimentOptions.map(experiment => (
+                      <option key={experiment.id} value={experiment.id}>
+                        {experiment.experiment_no} {experiment.samples?.sample_no || ''} {experiment.batch_no ? `（${experiment.batch_no}）` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {current && (
+            <>
+              {/* 上传质谱峰 */}
+              {canEntry && (
+                <div className='bg-white p-4 rounded-lg shadow space-y-3'>
+                  <div className='flex items-center justify-between'>
+                    <h3 className='text-sm font-semibold text-gray-900'>上传质谱峰</h3>
+                    <button
+                      onClick={handleRematch}
+                      disabled={current.peaks.length === 0}
+                      className='flex items-center text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50'
+                      title='化合物库更新后重新比对，已确认和人工改判的质谱峰不变'
+                    >
+                      <RefreshCw className='w-4 h-4 mr-1' />
+                      重新比对化合物库
+                    </button>
+                  </div>
+                  <textarea
+                    rows={5}
+                    value={peakText}
+                    onChange={e => setPeakText(e.target.value)}
+                    placeholder={'从峰表复制粘贴，每行：峰编号、m/z、强度、保留时间（分钟）\n例如：\nP001\t195.0877\t1520000\t3.21'}
+                    className={`${inputClass} font-mono`}
+                  />
+                  <div className='flex justify-end'>
+                    <button
+                      onClick={handleUpload}
+                      disabled={uploading}
+                      className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+                    >
+                      {uploading ? '比对中...' : '上传并比对'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* 质谱峰 */}
+              <div className='bg-white p-4 rounded-lg shadow'>
+                <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+                  <h3 className='text-sm font-semibold text-gray-900'>
+                    {current.experiment.experiment_no} 质谱峰（{current.peaks.length}）
+                  </h3>
+                  <div className='flex flex-wrap gap-2'>
+                    <button
+                      onClick={() => setStatusFilter('')}
+                      className={`px-3 py-1 rounded-full text-xs ${statusFilter === '' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                    >
+                      全部
+                    </button>
+                    {statusCounts.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => setStatusFilter(option.value)}
+                        className={`px-3 py-1 rounded-full text-xs ${
+                          statusFilter === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {option.label} {option.count}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {peaks.length === 0 ? (
+                  <div className='text-sm text-gray-500 py-8 text-center'>暂无质谱峰</div>
+                ) : (
+                  <table className='w-full text-sm'>
+                    <thead>
+                      <tr className='text-left text-xs text-gray-500 border-b'>
+                        <th className='py-2 w-6' />
+                        <th className='py-2 pr-2'>峰编号</th>
+                        <th className='py-2 pr-2'>m/z</th>
+                        <th className='py-2 pr-2'>保留时间</th>
+                        <th className='py-2 pr-2'>强度</th>
+                        <th className='py-2 pr-2'>鉴定</th>
+                        <th className='py-2 pr-2'>置信度</th>
+                        <th className='py-2 pr-2'>状态</th>
+                        <th className='py-2'>操作</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {peaks.map(peak => (
+                        <Fragment key={peak.id}>
+                          <tr className='border-b'>
+                            <td className='py-2'>
+                              {peak.candidates.length > 0 && (
+                                <button
+                                  onClick={() => setExpandedId(expandedId === peak.id ? null : peak.id)}
+                                  className='text-gray-500 hover:text-gray-700'
+                                  title='比对候选'
+                                >
+                                  {expandedId === peak.id ? <ChevronDown className='w-4 h-4' /> : <ChevronRight className='w-4 h-4' />}
+                                </button>
+                              )}
+                            </td>
+                            <td className='py-2 pr-2 font-mono'>{peak.peak_no}</td>
+                            <td className='py-2 pr-2 font-mono'>{Number(peak.mz).toFixed(4)}</td>
+                            <td className='py-2 pr-2'>{Number(peak.retention_time)}</td>
+                            <td className='py-2 pr-2'>{Number(peak.intensity).toExponential(2)}</td>
+                            <td className='py-2 pr-2'>
+                              {peak.compound ? (
+                                <div>
+                                  <div className='font-medium text-gray-900'>{peak.compound}</div>
+                                  <div className='text-xs text-gray-500 font-mono'>
+                                    {peak.formula} {peak.adduct}
+                                  </div>
+                                </div>
+                              ) : (
+                                '-'
+                              )}
+                            </td>
+                            <td className='py-2 pr-2'>{peak.confidence != null ? Number(peak.confidence) : '-'}</td>
+                            <td className='py-2 pr-2'>
+                              {renderStatus(peak.annotation_status)}
+                              {peak.reviewer && (
+                                <div className='text-xs text-gray-500 mt-1'>{peak.reviewer.real_name}</div>
+                              )}
+                            </td>
+                            <td className='py-2'>
+                              {canReview && (
+                                <div className='flex items-center space-x-3'>
+                                  {peak.annotation_status === 'suggested' && (
+                                    <button
+                                      onClick={() => handleAccept(peak, 0)}
+                                      className='text-green-600 hover:text-green-800'
+                                      title='确认建议鉴定'
+                                    >
+                                      <Check className='w-4 h-4' />
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => openOverride(peak)}
+                                    className='text-blue-600 hover:text-blue-800'
+                                    title='人工改判'
+                                  >
+                                    <Edit className='w-4 h-4' />
+                                  </button>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                          {expandedId === peak.id && (
+                            <tr className='border-b bg-gray-50'>
+                              <td />
+                              <td colSpan={8} className='py-2'>
+                                <table className='w-full text-xs'>
+                                  <thead>
+                                    <tr className='text-left text-gray-500'>
+                                      <th className='py-1 pr-2'>候选化合物</th>
+                                      <th className='py-1 pr-2'>加合离子</th>
+                                      <th className='py-1 pr-2'>理论m/z</th>
+                                      <th className='py-1 pr-2'>偏差(ppm)</th>
+                                      <th className='py-1 pr-2'>保留时间偏差</th>
+                                      <th className='py-1 pr-2'>得分</th>
+                                      <th className='py-1' />
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {peak.candidates.map((candidate, index) => (
+                                      <tr key={`${candidate.compound_id}-${candidate.adduct}`}>
+                                        <td className='py-1 pr-2'>
+                                          {candidate.name} <span className='text-gray-500 font-mono'>{candidate.formula}</span>
+                                        </td>
+                                        <td className='py-1 pr-2 font-mono'>{candidate.adduct}</td>
+                                        <td className='py-1 pr-2 font-mono'>{candidate.theoretical_mz}</td>
+                                        <td className='py-1 pr-2'>{candidate.ppm_error}</td>
+                                        <td className='py-1 pr-2'>{candidate.rt_delta ?? '未维护'}</td>
+                                        <td className='py-1 pr-2 font-medium'>{candidate.score}</td>
+                                        <td className='py-1'>
+                                          {canReview && (
+                                            <button
+                                              onClick={() => handleAccept(peak, index)}
+                                              className='text-blue-600 hover:text-blue-800'
+                                            >
+                                              确认
+                                            </button>
+                                          )}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {tab === 'library' && (
+        <div className='bg-white p-4 rounded-lg shadow'>
+          <div className='flex items-center justify-between mb-4'>
+            <input
+              type='text'
+              value={librarySearch}
+              onChange={e => {
+                setLibrarySearch(e.target.value)
+                setLibraryPage(1)
+              }}
+              placeholder='搜索名称、分子式或CAS号'
+              className='px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 w-72'
+            />
+            {canReview && (
+              <button
+                onClick={() => {
+                  setEditingCompound(null)
+                  setShowCompoundForm(true)
+                }}
+                className='flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm'
+              >
+                <Plus className='w-4 h-4 mr-1' />
+                新增化合物
+              </button>
+            )}
+          </div>
+          <DataTable
+            columns={compoundColumns}
+            dataSource={compounds}
+            loading={libraryLoading}
+            pagination={{
+              current: libraryPage,
+              pageSize: libraryPageSize,
+              total: libraryTotal,
+              onChange: (page: number, size: number) => {
+                setLibraryPage(page)
+                setLibraryPageSize(size)
+              },
+            }}
+          />
+        </div>
+      )}
+
+      <CompoundForm
+        open={showCompoundForm}
+        compound={editingCompound}
+        adducts={adducts}
+        onClose={() => setShowCompoundForm(false)}
+        onSaved={() => {
+          setShowCompoundForm(false)
+          loadCompounds()
+        }}
+      />
+
+      {/* 人工改判 */}
+      <Modal
+        open={Boolean(overriding)}
+        onClose={() => setOverriding(null)}
+        title={`人工改判 ${overriding?.peak_no || ''}`}
+        size='medium'
+      >
+        <form onSubmit={handleOverride} className='space-y-4'>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>从化合物库选择</label>
+            <div className='flex gap-2'>
+              <input
+                type='text'
+                value={overrideSearch}
+                onChange={e => setOverrideSearch(e.target.value)}
+                placeholder='名称、分子式或CAS号'
+                className={inputClass}
+              />
+              <button
+                type='button'
+                onClick={handleSearchCompounds}
+                className='px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+              >
+                查找
+              </button>
+            </div>
+            {overrideOptions.length > 0 && (
+              <select
+                value={override.compound_id}
+                onChange={e => setOverride(prev => ({ ...prev, compound_id: e.target.value }))}
+                className={`${inputClass} mt-2`}
+              >
+                <option value=''>不从化合物库选择</option>
+                {overrideOptions.map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}（{option.formula}）
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          {!override.compound_id && (
+            <div className='grid grid-cols-2 gap-3'>
+              <div>
+                <label className='block text-xs font-medium text-gray-700 mb-1'>化合物名称</label>
+                <input
+                  type='text'
+                  maxLength={200}
+                  value={override.compound}
+                  onChange={e => setOverride(prev => ({ ...prev, compound: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className='block text-xs font-medium text-gray-700 mb-1'>分子式</label>
+                <input
+                  type='text'
+                  maxLength={100}
+                  value={override.formula}
+                  onChange={e => setOverride(prev => ({ ...prev, formula: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+          <div className='grid grid-cols-2 gap-3'>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>加合离子</label>
+              <select
+                value={override.adduct}
+                onChange={e => setOverride(prev => ({ ...prev, adduct: e.target.value }))}
+                className={inputClass}
+              >
+                <option value=''>未指定</option>
+                {adducts.map(option => (
+                  <option key={option.adduct} value={option.adduct}>
+                    {option.adduct}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>
+                置信度(%)<span className='text-red-500 ml-0.5'>*</span>
+              </label>
+              <input
+                type='number'
+                min={0}
+                max={100}
+                value={override.confidence}
+                onChange={e => setOverride(prev => ({ ...prev, confidence: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className='block text-xs font-medium text-gray-700 mb-1'>改判说明</label>
+            <textarea
+              rows={3}
+              maxLength={500}
+              value={override.notes}
+              onChange={e => setOverride(prev => ({ ...prev, notes: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div className='flex justify-end space-x-3 pt-2 border-t'>
+            <button
+              type='button'
+              onClick={() => setOverriding(null)}
+              className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+            >
+              取消
+            </button>
+            <button
+              type='submit'
+              disabled={reviewing}
+              className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+            >
+              {reviewing ? '保存中...' : '保存改判'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  )
+}
+
+export default CompoundMatching
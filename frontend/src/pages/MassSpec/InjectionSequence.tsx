@@ -0,0 +1,732 @@
+/**
+ * 质谱进样序列
+ * 按序列规则由实验批次生成进样顺序，调整后检查质控包夹违规，确认后导出采集软件的序列文件
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import {
+  ListOrdered,
+  Search,
+  Wand2,
+  Save,
+  CheckCircle,
+  Unlock,
+  Download,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Plus,
+  AlertTriangle,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { getApiErrorMessage, getApiErrorDetails } from '../../lib/http'
+import { useAuthStore } from '../../stores/auth'
+import { usePermissions } from '../../hooks/usePermissions'
+import {
+  InjectionSequenceService,
+  type BatchInjectionSequence,
+  type InjectionSequence as Sequence,
+  type InjectionType,
+  type SequenceItem,
+  type SequenceRules,
+  type SequenceExportFormat,
+} from '../../services/injectionSequenceService'
+
+// 可撤销序列确认的角色
+const reopenRoles = ['admin', 'lab_manager']
+
+// 进样类型配置
+const injectionTypeConfig: Record<InjectionType, { label: string; className: string }> = {
+  blank: { label: '空白', className: 'bg-gray-100 text-gray-700' },
+  sst: { label: '系统适用性', className: 'bg-purple-100 text-purple-800' },
+  calibrator: { label: '校准品', className: 'bg-yellow-100 text-yellow-800' },
+  qc: { label: '质控', className: 'bg-green-100 text-green-800' },
+  unknown: { label: '未知样本', className: 'bg-blue-100 text-blue-800' },
+}
+
+// 序列文件格式选项
+const exportFormatOptions: { label: string; value: SequenceExportFormat }[] = [
+  { label: '通用CSV', value: 'generic' },
+  { label: 'Agilent MassHunter', value: 'masshunter' },
+  { label: 'Sciex Analyst', value: 'analyst' },
+  { label: 'Thermo Xcalibur', value: 'xcalibur' },
+]
+
+// 编辑中的进样，key 用于列表渲染
+type EditableItem = SequenceItem & { key: string }
+
+/**
+ * 标准品列表转文本
+ * @param items 校准品或质控品
+ * @returns 以逗号分隔的名称
+ */
+const standardsToText = (items: { label: string }[]) =>
+  items.map(item => item.label).join(',')
+
+/**
+ * 文本转标准品列表
+ * @description 名称末尾的数字或字母作为水平，如 CAL3 的水平为 3，QC-H 的水平为 H
+ * @param text 以逗号分隔的名称
+ * @returns 校准品或质控品
+ */
+const textToStandards = (text: string) =>
+  text
+    .split(/[,，]/)
+    .map(label => label.trim())
+    .filter(Boolean)
+    .map(label => ({ label, level: label.match(/[-_]?([0-9]+|[A-Za-z])$/)?.[1] }))
+
+/**
+ * 下载文件
+ * @param blob 文件内容
+ * @param fileName 文件名
+ */
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 60000)
+}
+
+/**
+ * 进样显示名称
+ * @param item 进样
+ * @returns 未知样本为条码，其他为名称
+ */
+const injectionName = (item: SequenceItem) =>
+  item.injection_type === 'unknown'
+    ? item.samples?.barcode || item.experiments?.experiment_no || '-'
+    : item.label || injectionTypeConfig[item.injection_type].label
+
+const InjectionSequence: React.FC = () => {
+  const { user } = useAuthStore()
+  const { hasPermission } = usePermissions()
+  const canEntry = hasPermission('mass_spec.data_entry')
+  const canReopen = canEntry && (user?.roles || []).some(role => reopenRoles.includes(role))
+
+  const [batchInput, setBatchInput] = useState('')
+  const [batch, setBatch] = useState<BatchInjectionSequence | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  // 序列规则
+  const [rulesList, setRulesList] = useState<SequenceRules[]>([])
+  const [rules, setRules] = useState<SequenceRules | null>(null)
+
+  // 编辑中的进样
+  const [items, setItems] = useState<EditableItem[]>([])
+  const [dirty, setDirty] = useState(false)
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+  const [insertExperimentId, setInsertExperimentId] = useState('')
+  const [exportFormat, setExportFormat] = useState<SequenceExportFormat>('masshunter')
+  const keySeed = useRef(0)
+
+  const sequence: Sequence | null = batch?.sequence || null
+  const editable = canEntry && sequence?.status === 'draft'
+
+  useEffect(() => {
+    InjectionSequenceService.getRules()
+      .then(result => {
+        setRulesList(result)
+        setRules(result[0] || null)
+      })
+      .catch(error => {
+        console.error('加载序列规则失败:', error)
+        toast.error('加载序列规则失败')
+      })
+  }, [])
+
+  // 载入序列时重置编辑状态
+  useEffect(() => {
+    setItems(
+      (sequence?.injection_sequence_items || []).map(item => ({
+        ...item,
+        key: item.id || `new-${keySeed.current++}`,
+      }))
+    )
+    setDirty(false)
+    setSelectedIndex(null)
+  }, [sequence])
+
+  // 加载批次
+  const loadBatch = async (batchNo: string) => {
+    if (!batchNo.trim()) return
+
+    setLoading(true)
+    try {
+      const result = await InjectionSequenceService.getBatchSequence(batchNo.trim())
+      setBatch(result)
+      if (result.sequence?.rules) setRules(result.sequence.rules)
+    } catch (error: unknown) {
+      console.error('加载批次失败:', error)
+      toast.error(getApiErrorMessage(error, '加载批次失败'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // 更新批次中的序列
+  const applySequence = (updated: Sequence) => {
+    if (!batch) return
+    setBatch({ ...batch, sequence: updated })
+  }
+
+  // 违规进样序号，仅对已保存的顺序有效
+  const violationPositions = useMemo(
+    () =>
+      new Set(
+        dirty
+          ? []
+          : (sequence?.violations || [])
+              .map(violation => violation.position)
+              .filter((position): position is number => position !== null)
+      ),
+    [sequence, dirty]
+  )
+
+  // 各实验的进样次数
+  const unknownCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    items.forEach(item => {
+      if (item.injection_type === 'unknown' && item.experiment_id) {
+        counts.set(item.experiment_id, (counts.get(item.experiment_id) || 0) + 1)
+      }
+    })
+    return counts
+  }, [items])
+
+  const missingExperiments = (batch?.experiments || []).filter(
+    experiment => !unknownCounts.has(experiment.id)
+  )
+
+  // 生成序列
+  const handleGenerate = async () => {
+    if (!batch || !rules) return
+    if (sequence && !window.confirm('重新生成将替换批次现有的草稿进样序列，确定继续吗？')) return
+
+    setSubmitting(true)
+    try {
+      const generated = await InjectionSequenceService.generate(batch.batch_no, rules)
+      toast.success(`已生成 ${generated.injection_sequence_items.length} 针进样`)
+      applySequence(generated)
+    } catch (error: unknown) {
+      console.error('生成进样序列失败:', error)
+      toast.error(getApiErrorMessage(error, '生成进样序列失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 上移或下移进样
+  const moveItem = (index: number, offset: -1 | 1) => {
+    const target = index + offset
+    if (target < 0 || target >= items.length) return
+    const next = [...items]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setItems(next)
+    setSelectedIndex(target)
+    setDirty(true)
+  }
+
+  // 删除进样
+  const removeItem = (index: number) => {
+    setItems(items.filter((_, i) => i !== index))
+    setSelectedIndex(null)
+    setDirty(true)
+  }
+
+  // 在选中进样之后插入，未选中时追加到末尾
+  const insertItems = (inserted: SequenceItem[]) => {
+    const at = selectedIndex === null ? items.length : selectedIndex + 1
+    const volume = rules?.injection_volume ?? null
+    const next = [...items]
+    next.splice(
+      at,
+      0,
+      ...inserted.map(item => ({
+        injection_volume: volume,
+        ...item,
+        key: `new-${keySeed.current++}`,
+      }))
+    )
+    setItems(next)
+    setSelectedIndex(at + inserted.length - 1)
+    setDirty(true)
+  }
+
+  const insertBlank = () => insertItems([{ injection_type: 'blank', label: '空白', replicate: 1 }])
+
+  const insertQcGroup = () =>
+    insertItems(
+      (rules?.qcs || []).map(qc => ({
+        injection_type: 'qc' as InjectionType,
+        label: qc.label,
+        level: qc.level || null,
+        replicate: 1,
+      }))
+    )
+
+  const insertUnknown = () => {
+    const experiment = batch?.experiments.find(item => item.id === insertExperimentId)
+    if (!experiment) return
+    insertItems([
+      {
+        injection_type: 'unknown',
+        experiment_id: experiment.id,
+        replicate: (unknownCounts.get(experiment.id) || 0) + 1,
+        experiments: { id: experiment.id, experiment_no: experiment.experiment_no },
+        samples: experiment.samples || null,
+      },
+    ])
+    setInsertExperimentId('')
+  }
+
+  // 保存进样顺序
+  const handleSave = async () => {
+    if (!sequence) return
+
+    setSubmitting(true)
+    try {
+      const updated = await InjectionSequenceService.saveItems(
+        sequence.id,
+        items.map(item => ({
+          injection_type: item.injection_type,
+          experiment_id: item.experiment_id || null,
+          label: item.label || null,
+          level: item.level || null,
+          replicate: item.replicate || 1,
+          vial_position: item.vial_position || null,
+          injection_volume: item.injection_volume ?? null,
+        }))
+      )
+      const count = updated.violations.length
+      if (count > 0) {
+        toast.warning(`进样序列已保存，有 ${count} 项违规`)
+      } else {
+        toast.success('进样序列已保存')
+      }
+      applySequence(updated)
+    } catch (error: unknown) {
+      console.error('保存进样序列失败:', error)
+      toast.error(getApiErrorMessage(error, '保存进样序列失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 确认或撤销确认
+  const handleStatus = async (action: 'confirm' | 'reopen') => {
+    if (!sequence) return
+    if (action === 'confirm' && dirty) {
+      toast.error('请先保存进样顺序')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const updated =
+        action === 'confirm'
+          ? await InjectionSequenceService.confirm(sequence.id)
+          : await InjectionSequenceService.reopen(sequence.id)
+      toast.success(action === 'confirm' ? '进样序列已确认' : '已撤销确认')
+      applySequence(updated)
+    } catch (error: unknown) {
+      console.error('更新进样序列状态失败:', error)
+      const { violations } = getApiErrorDetails<Pick<Sequence, 'violations'>>(error)
+      if (violations) {
+        applySequence({ ...sequence, violations })
+      }
+      toast.error(getApiErrorMessage(error, '更新进样序列状态失败'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 导出序列文件
+  const handleExport = async () => {
+    if (!sequence) return
+    try {
+      const blob = await InjectionSequenceService.exportSequence(sequence.id, exportFormat)
+      downloadBlob(blob, `${sequence.batch_no}_sequence_${exportFormat}.csv`)
+    } catch (error) {
+      console.error('导出序列文件失败:', error)
+      toast.error('导出序列文件失败')
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  // 序列规则数值字段
+  const numberField = (field: keyof SequenceRules, label: string, min = 0) => (
+    <div>
+      <label className='block text-sm font-medium text-gray-700 mb-1'>{label}</label>
+      <input
+        type='number'
+        min={min}
+        value={(rules?.[field] as number | null) ?? ''}
+        onChange={e => rules && setRules({ ...rules, [field]: Number(e.target.value) })}
+        className={inputClass}
+      />
+    </div>
+  )
+
+  return (
+    <div className='max-w-7xl mx-auto p-6 space-y-6'>
+      {/* 页面标题与批次 */}
+      <div className='bg-white rounded-lg shadow-md border p-6'>
+        <div className='flex items-center justify-between'>
+          <div className='flex items-center space-x-4'>
+            <ListOrdered className='w-8 h-8 text-blue-600' />
+            <div>
+              <h1 className='text-2xl font-bold text-gray-900'>进样序列</h1>
+              <p className='text-gray-600 mt-1'>
+                按序列规则生成批次进样顺序，检查质控包夹后导出采集软件的序列文件
+              </p>
+            </div>
+          </div>
+          <div className='flex items-center space-x-2'>
+            <input
+              type='text'
+              value={batchInput}
+              onChange={e => setBatchInput(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && loadBatch(batchInput)}
+              placeholder='输入质谱实验批次号'
+              className='w-56 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
+            <button
+              onClick={() => loadBatch(batchInput)}
+              disabled={loading}
+              className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center space-x-2'
+            >
+              <Search className='w-4 h-4' />
+              <span>加载批次</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {batch && (
+        <div className='grid grid-cols-1 lg:grid-cols-4 gap-6'>
+          {/* 序列规则 */}
+          <div className='bg-white rounded-lg shadow-md border p-4 space-y-3'>
+            <h2 className='text-lg font-semibold text-gray-900'>序列规则</h2>
+            <p className='text-sm text-gray-500'>
+              批次 {batch.batch_no}，实验 {batch.experiments.length} 个
+            </p>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>规则</label>
+              <select
+                value={rules?.key || ''}
+                onChange={e => setRules(rulesList.find(item => item.key === e.target.value) || null)}
+                className={inputClass}
+              >
+                {rules && !rulesList.some(item => item.key === rules.key) && (
+                  <option value={rules.key || ''}>{rules.name || '当前序列规则'}</option>
+                )}
+                {rulesList.map(item => (
+                  <option key={item.key} value={item.key}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className='grid grid-cols-2 gap-2'>
+              {numberField('leading_blanks', '前置空白')}
+              {numberField('sst_injections', '系统适用性')}
+              {numberField('blanks_after_calibrators', '校准后空白')}
+              {numberField('trailing_blanks', '后置空白')}
+              {numberField('unknown_replicates', '样本重复进样', 1)}
+              {numberField('injection_volume', '进样体积(μL)')}
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>校准品</label>
+              <input
+                type='text'
+                value={standardsToText(rules?.calibrators || [])}
+                onChange={e =>
+                  rules && setRules({ ...rules, calibrators: textToStandards(e.target.value) })
+                }
+                placeholder='CAL1,CAL2,CAL3'
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>质控组</label>
+              <input
+                type='text'
+                value={standardsToText(rules?.qcs || [])}
+                onChange={e => rules && setRules({ ...rules, qcs: textToStandards(e.target.value) })}
+                placeholder='QC-L,QC-M,QC-H'
+                className={inputClass}
+              />
+            </div>
+            {numberField('qc_interval', '每隔多少针样本插入质控（0 不插入）')}
+            <label className='flex items-center text-sm text-gray-700'>
+              <input
+                type='checkbox'
+                checked={Boolean(rules?.trailing_qc)}
+                onChange={e => rules && setRules({ ...rules, trailing_qc: e.target.checked })}
+                className='rounded border-gray-300 mr-2'
+              />
+              末尾质控闭合
+            </label>
+            {canEntry && (
+              <button
+                onClick={handleGenerate}
+                disabled={submitting || !rules || sequence?.status === 'confirmed'}
+                className='w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center space-x-2'
+              >
+                <Wand2 className='w-4 h-4' />
+                <span>{sequence ? '重新生成' : '生成序列'}</span>
+              </button>
+            )}
+          </div>
+
+          {/* 进样序列 */}
+          <div className='lg:col-span-3 bg-white rounded-lg shadow-md border p-4 space-y-4'>
+            {!sequence ? (
+              <p className='py-12 text-center text-sm text-gray-500'>
+                批次尚未生成进样序列，请选择序列规则后生成
+              </p>
+            ) : (
+              <>
+                <div className='flex flex-wrap items-center justify-between gap-2'>
+                  <div className='flex items-center space-x-3 text-sm text-gray-600'>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        sequence.status === 'confirmed'
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {sequence.status === 'confirmed' ? '已确认' : '草稿'}
+                    </span>
+                    <span>共 {items.length} 针</span>
+                    {dirty && <span className='text-orange-600'>有未保存的修改</span>}
+                  </div>
+                  <div className='flex items-center space-x-2'>
+                    {editable && (
+                      <>
+                        <button
+                          onClick={handleSave}
+                          disabled={submitting || !dirty}
+                          className='px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center'
+                        >
+                          <Save className='w-4 h-4 mr-1' />
+                          保存
+                        </button>
+                        <button
+                          onClick={() => handleStatus('confirm')}
+                          disabled={submitting}
+                          className='px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center'
+                        >
+                          <CheckCircle className='w-4 h-4 mr-1' />
+                          确认序列
+                        </button>
+                      </>
+                    )}
+                    {sequence.status === 'confirmed' && canReopen && (
+                      <button
+                        onClick={() => handleStatus('reopen')}
+                        disabled={submitting}
+                        className='px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center'
+                      >
+                        <Unlock className='w-4 h-4 mr-1' />
+                        撤销确认
+                      </button>
+                    )}
+                    <select
+                      value={exportFormat}
+                      onChange={e => setExportFormat(e.target.value as SequenceExportFormat)}
+                      className='px-2 py-1.5 text-sm border border-gray-300 rounded-md'
+                    >
+                      {exportFormatOptions.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleExport}
+                      disabled={sequence.status !== 'confirmed'}
+                      title={sequence.status !== 'confirmed' ? '确认后才能导出序列文件' : undefined}
+                      className='px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center'
+                    >
+                      <Download className='w-4 h-4 mr-1' />
+                      导出序列
+                    </button>
+                  </div>
+                </div>
+
+                {/* 违规 */}
+                {sequence.violations.length > 0 && (
+                  <div className='border border-red-200 bg-red-50 rounded-md p-3'>
+                    <div className='flex items-center text-sm font-medium text-red-800 mb-1'>
+                      <AlertTriangle className='w-4 h-4 mr-1' />
+                      {dirty ? '上次保存时的违规（保存后重新检查）' : `违规 ${sequence.violations.length} 项`}
+                    </div>
+                    <ul className='text-sm text-red-700 space-y-0.5 list-disc list-inside'>
+                      {sequence.violations.map((violation, index) => (
+                        <li key={`${violation.code}-${index}`}>
+                          {violation.position !== null && `第${violation.position}针：`}
+                          {violation.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* 插入进样 */}
+                {editable && (
+                  <div className='flex flex-wrap items-center gap-2 text-sm'>
+                    <span className='text-gray-500'>
+                      {selectedIndex === null ? '插入到末尾：' : `插入到第${selectedIndex + 1}针之后：`}
+                    </span>
+                    <button
+                      onClick={insertBlank}
+                      className='px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50 flex items-center'
+                    >
+                      <Plus className='w-3 h-3 mr-1' />
+                      空白
+                    </button>
+                    <button
+                      onClick={insertQcGroup}
+                      disabled={!rules?.qcs.length}
+                      className='px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center'
+                    >
+                      <Plus className='w-3 h-3 mr-1' />
+                      质控组
+                    </button>
+                    <select
+                      value={insertExperimentId}
+                      onChange={e => setInsertExperimentId(e.target.value)}
+                      className='px-2 py-1 border border-gray-300 rounded-md'
+                    >
+                      <option value=''>选择样本</option>
+                      {batch.experiments.map(experiment => (
+                        <option key={experiment.id} value={experiment.id}>
+                          {experiment.samples?.barcode || experiment.experiment_no}
+                          {unknownCounts.has(experiment.id) ? '' : '（未排入）'}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={insertUnknown}
+                      disabled={!insertExperimentId}
+                      className='px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex items-center'
+                    >
+                      <Plus className='w-3 h-3 mr-1' />
+                      样本
+                    </button>
+                    {missingExperiments.length > 0 && (
+                      <span className='text-orange-600'>
+                        {missingExperiments.length} 个实验未排入序列
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {/* 进样表 */}
+                <div className='overflow-x-auto'>
+                  <table className='min-w-full divide-y divide-gray-200 text-sm'>
+                    <thead className='bg-gray-50'>
+                      <tr>
+                        <th className='px-3 py-2 text-left font-medium text-gray-500'>序号</th>
+                        <th className='px-3 py-2 text-left font-medium text-gray-500'>类型</th>
+                        <th className='px-3 py-2 text-left font-medium text-gray-500'>名称</th>
+                        <th className='px-3 py-2 text-left font-medium text-gray-500'>水平</th>
+                        <th className='px-3 py-2 text-left font-medium text-gray-500'>重复</th>
+                        <th className='px-3 py-2 text-left font-medium text-gray-500'>进样盘位置</th>
+                        <th className='px-3 py-2 text-left font-medium text-gray-500'>体积(μL)</th>
+                        {editable && (
+                          <th className='px-3 py-2 text-right font-medium text-gray-500'>操作</th>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody className='divide-y divide-gray-100'>
+                      {items.map((item, index) => {
+                        const config = injectionTypeConfig[item.injection_type]
+                        const violated = violationPositions.has(index + 1)
+                        return (
+                          <tr
+                            key={item.key}
+                            onClick={() => editable && setSelectedIndex(index)}
+                            className={`${
+                              index === selectedIndex
+                                ? 'bg-blue-50'
+                                : violated
+                                  ? 'bg-red-50'
+                                  : 'hover:bg-gray-50'
+                            } ${editable ? 'cursor-pointer' : ''}`}
+                          >
+                            <td className='px-3 py-1.5 text-gray-900'>
+                              {index + 1}
+                              {violated && <AlertTriangle className='inline w-3 h-3 ml-1 text-red-500' />}
+                            </td>
+                            <td className='px-3 py-1.5'>
+                              <span className={`px-2 py-0.5 rounded-full text-xs ${config.className}`}>
+                                {config.label}
+                              </span>
+                            </td>
+                            <td className='px-3 py-1.5 text-gray-900'>{injectionName(item)}</td>
+                            <td className='px-3 py-1.5 text-gray-600'>{item.level || '-'}</td>
+                            <td className='px-3 py-1.5 text-gray-600'>{item.replicate}</td>
+                            <td className='px-3 py-1.5 text-gray-600'>{item.vial_position || '-'}</td>
+                            <td className='px-3 py-1.5 text-gray-600'>{item.injection_volume ?? '-'}</td>
+                            {editable && (
+                              <td className='px-3 py-1.5 text-right whitespace-nowrap'>
+                                <button
+                                  onClick={e => {
+                                    e.stopPropagation()
+                                    moveItem(index, -1)
+                                  }}
+                                  disabled={index === 0}
+                                  className='p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30'
+                                  title='上移'
+                                >
+                                  <ArrowUp className='w-4 h-4' />
+                                </button>
+                                <button
+                                  onClick={e => {
+                                    e.stopPropagation()
+                                    moveItem(index, 1)
+                                  }}
+                                  disabled={index === items.length - 1}
+                                  className='p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30'
+                                  title='下移'
+                                >
+                                  <ArrowDown className='w-4 h-4' />
+                                </button>
+                                <button
+                                  onClick={e => {
+                                    e.stopPropagation()
+                                    removeItem(index)
+                                  }}
+                                  className='p-1 text-gray-500 hover:text-red-600'
+                                  title='删除'
+                                >
+                                  <Trash2 className='w-4 h-4' />
+                                </button>
+                              </td>
+                            )}
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default InjectionSequence
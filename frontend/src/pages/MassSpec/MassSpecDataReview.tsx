@@ -19,6 +19,7 @@ import {
 } from 'lucide-react'
 import DataTable from '../../components/DataTable'
 import { toast } from 'sonner'
+import { ExperimentService, type PendingReview } from '../../services'
 
 // 审核状态选项
 const reviewStatusOptions = [
@@ -59,57 +60,40 @@ interface MassSpecDataReview {
   updatedAt: string
 }
 
-// 模拟质谱数据审核数据
-const mockReviewData: MassSpecDataReview[] = [
-  {
-    id: '1',
-    experimentId: 'MS-2025-001',
-    experimentNo: 'MS-2025-001',
-    sampleName: '血清样本A',
-    dataType: 'peak',
-    submitter: '张三',
-    submitTime: '2025-01-20 16:30:00',
-    reviewer: '李四',
-    reviewTime: '2025-01-21 09:15:00',
-    status: 'approved',
-    dataCount: 156,
-    comments: '数据质量良好，峰识别准确',
-    priority: 'high',
-    createdAt: '2025-01-20 16:30:00',
-    updatedAt: '2025-01-21 09:15:00',
-  },
-  {
-    id: '2',
-    experimentId: 'MS-2025-002',
-    experimentNo: 'MS-2025-002',
-    sampleName: '尿液样本B',
-    dataType: 'compound',
-    submitter: '王五',
-    submitTime: '2025-01-21 14:20:00',
-    status: 'pending',
-    dataCount: 89,
-    priority: 'normal',
-    createdAt: '2025-01-21 14:20:00',
-    updatedAt: '2025-01-21 14:20:00',
-  },
-  {
-    id: '3',
-    experimentId: 'MS-2025-003',
-    experimentNo: 'MS-2025-003',
-    sampleName: '组织样本C',
+/**
+ * 将待审核实验转换为页面数据
+ * @param experiment 待审核实验
+ * @returns 质谱数据审核记录
+ */
+const toMassSpecReview = (experiment: PendingReview): MassSpecDataReview => {
+  const level = experiment.current_review_level || 1
+  const total = experiment.required_review_levels || 1
+
+  return {
+    id: experiment.id,
+    experimentId: experiment.id,
+    experimentNo: experiment.experiment_no,
+    sampleName: `${experiment.samples?.sample_no || '-'} ${experiment.test_products?.name || ''}`.trim(),
     dataType: 'quantitative',
-    submitter: '赵六',
-    submitTime: '2025-01-21 11:45:00',
-    reviewer: '李四',
-    reviewTime: '2025-01-21 15:30:00',
-    status: 'rejected',
-    dataCount: 234,
-    comments: '部分峰识别存在问题，需要重新处理数据',
-    priority: 'urgent',
-    createdAt: '2025-01-21 11:45:00',
-    updatedAt: '2025-01-21 15:30:00',
-  },
-]
+    submitter:
+      experiment.submitter?.real_name ||
+      experiment.technicians?.users?.real_name ||
+      '-',
+    submitTime: experiment.submitted_at
+      ? new Date(experiment.submitted_at).toLocaleString('zh-CN')
+      : '-',
+    reviewer: `第${level}/${total}级审核`,
+    status: 'pending',
+    dataCount: experiment.data_count,
+    priority: experiment.samples?.submissions?.is_urgent
+      ? 'urgent'
+      : experiment.abnormal_count > 0
+        ? 'high'
+        : 'normal',
+    createdAt: experiment.created_at || '',
+    updatedAt: experiment.submitted_at || '',
+  }
+}
 
 /**
  * 质谱数据审核页面组件
@@ -133,11 +117,15 @@ const MassSpecDataReview: React.FC = () => {
   const loadReviewData = async () => {
     setLoading(true)
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      setReviewData(mockReviewData)
-      setFilteredData(mockReviewData)
+      const { data } = await ExperimentService.getPendingReviews({
+        method: 'mass_spec',
+        limit: 100,
+      })
+      const list = data.map(toMassSpecReview)
+      setReviewData(list)
+      setFilteredData(list)
     } catch (error) {
+      console.error('加载审核数据失败:', error)
       toast.error('加载审核数据失败')
     } finally {
       setLoading(false)
@@ -184,9 +172,18 @@ const MassSpecDataReview: React.FC = () => {
     action: 'approve' | 'reject' | 'revision',
     comment?: string
   ) => {
+    if (action !== 'approve' && !comment?.trim()) {
+      toast.error('驳回或要求修改时请填写审核意见')
+      return
+    }
+
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 500))
+      // 要求修改与驳回一致，均退回数据录入
+      await ExperimentService.reviewExperiment(
+        id,
+        action === 'approve' ? 'approved' : 'rejected',
+        comment || undefined
+      )
 
       const statusMap = {
         approve: 'approved',
@@ -217,6 +214,7 @@ const MassSpecDataReview: React.FC = () => {
 
       toast.success(`审核${actionText[action]}成功`)
     } catch (error) {
+      console.error('审核操作失败:', error)
       toast.error('审核操作失败')
     }
   }
@@ -231,34 +229,39 @@ const MassSpecDataReview: React.FC = () => {
       return
     }
 
-    try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      const statusMap = {
-        approve: 'approved',
-        reject: 'rejected',
-      }
+    // 驳回必须逐条填写审核意见
+    if (action === 'reject') {
+      toast.error('驳回需填写审核意见，请逐条驳回')
+      return
+    }
 
-      setReviewData(prev =>
-        prev.map(item =>
-          selectedItems.includes(item.id)
-            ? {
-                ...item,
-                status: statusMap[action],
-                reviewer: '当前用户',
-                reviewTime: new Date().toLocaleString('zh-CN'),
-                updatedAt: new Date().toLocaleString('zh-CN'),
-              }
-            : item
-        )
+    const results = await Promise.allSettled(
+      selectedItems.map(id => ExperimentService.reviewExperiment(id, 'approved'))
+    )
+    const approvedIds = selectedItems.filter(
+      (_, index) => results[index].status === 'fulfilled'
+    )
+
+    setReviewData(prev =>
+      prev.map(item =>
+        approvedIds.includes(item.id)
+          ? {
+              ...item,
+              status: 'approved',
+              reviewer: '当前用户',
+              reviewTime: new Date().toLocaleString('zh-CN'),
+              updatedAt: new Date().toLocaleString('zh-CN'),
+            }
+          : item
       )
-
-      setSelectedItems([])
-      const actionText = action === 'approve' ? '批准' : '驳回'
-      toast.success(`批量${actionText}成功`)
-    } catch (error) {
-      toast.error('批量审核失败')
+    )
+
+    setSelectedItems([])
+    const failedCount = selectedItems.length - approvedIds.length
+    if (failedCount > 0) {
+      toast.error(`批量批准完成，${failedCount}条审核失败`)
+    } else {
+      toast.success('批量批准成功')
     }
   }
 
@@ -279,6 +282,10 @@ const MassSpecDataReview: React.FC = () => {
   const submitReviewWithComment = (
     action: 'approve' | 'reject' | 'revision'
   ) => {
+    if (action !== 'approve' && !reviewComment.trim()) {
+      toast.error('驳回或要求修改时请填写审核意见')
+      return
+    }
     handleReview(currentReviewId, action, reviewComment)
     setShowCommentModal(false)
     setCurrentReviewId('')
@@ -7,7 +7,7 @@
 
 import { useState, useEffect, useMemo, useCallback, memo } from 'react'
 import { Link } from 'react-router-dom'
-import { Search, Filter, Plus, Eye, Edit, Trash2, Download } from 'lucide-react'
+import { Search, Filter, Plus, Eye, Edit, Trash2, Download, ListOrdered } from 'lucide-react'
 import DataTable from '../../components/DataTable'
 import { toast } from 'sonner'
 import { useDataCache } from '../../hooks/useDataCache'
@@ -520,6 +520,14 @@ const MassSpecList: React.FC = () => {
               ))}
             </select>
 
+            <Link
+              to='/mass-spec/injection-sequence'
+              className='border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 flex items-center space-x-2'
+            >
+              <ListOrdered className='w-4 h-4' />
+              <span>进样序列</span>
+            </Link>
+
             <Link
               to='/mass-spec/create'
               className='bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 flex items-center space-x-2'
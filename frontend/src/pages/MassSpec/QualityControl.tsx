@@ -1,608 +1,742 @@
 /**
  * 质控管理页面
- * 处理质谱实验质控管理
+ * 录入质控结果并按Westgard多规则判定，失控结果记录纠正措施前阻止同批次该项目的结果审核发布；
+ * 按质控品和检测项目查看Levey-Jennings质控图，维护质控品批号及靶值
  * @author Erikwang
  * @date 2025-08-20
  */
 
-import { useState, useEffect } from 'react'
-import { Link } from 'react-router-dom'
-import {
-  Search,
-  Filter,
-  Plus,
-  Eye,
-  Edit,
-  Trash2,
-  AlertTriangle,
-  CheckCircle,
-  XCircle,
-  TrendingUp,
-} from 'lucide-react'
-import DataTable from '../../components/DataTable'
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Edit, AlertTriangle, CheckCircle, XCircle, ShieldCheck } from 'lucide-react'
 import { toast } from 'sonner'
-
-// 质控状态选项
-const qcStatusOptions = [
-  { value: 'pass', label: '通过', color: 'bg-green-100 text-green-800' },
+import { getApiErrorMessage } from '../../lib/http'
+import DataTable from '../../components/DataTable'
+import Modal from '../../components/Modal'
+import QcLotForm from '../../components/QcLotForm'
+import LeveyJenningsChart from '../../components/LeveyJenningsChart'
+import { useAuthStore } from '../../stores/auth'
+import type { ExperimentMethod } from '../../services/experimentService'
+import {
+  QcService,
+  type QcItem,
+  type QcLot,
+  type QcResult,
+  type QcStatus,
+  type WestgardRuleConfig,
+  type LeveyJenningsData,
+} from '../../services/qcService'
+
+// 质控页面所属实验方法
+const METHOD: ExperimentMethod = 'mass_spec'
+
+// 可维护质控品和处理失控的角色
+const qcManagerRoles = ['admin', 'lab_manager', 'quality_controller']
+
+// 判定结果选项
+const qcStatusOptions: { value: QcStatus; label: string; color: string }[] = [
+  { value: 'accepted', label: '在控', color: 'bg-green-100 text-green-800' },
   { value: 'warning', label: '警告', color: 'bg-yellow-100 text-yellow-800' },
-  { value: 'fail', label: '失败', color: 'bg-red-100 text-red-800' },
-  { value: 'pending', label: '待检查', color: 'bg-gray-100 text-gray-800' },
+  { value: 'rejected', label: '失控', color: 'bg-red-100 text-red-800' },
 ]
 
-// 质控类型选项
-const qcTypeOptions = [
-  { value: 'blank', label: '空白对照' },
-  { value: 'standard', label: '标准品' },
-  { value: 'duplicate', label: '重复样本' },
-  { value: 'spike', label: '加标回收' },
-  { value: 'internal', label: '内标' },
-]
-
-// 质控项目接口
-interface QualityControlItem {
-  id: string
-  qcNo: string
-  experimentId: string
-  experimentNo: string
-  qcType: string
-  sampleName: string
-  targetCompound: string
-  expectedValue: number
-  measuredValue: number
-  unit: string
-  deviation: number
-  recoveryRate?: number
-  status: string
-  operator: string
-  testDate: string
-  instrument: string
-  comments?: string
-  createdAt: string
-  updatedAt: string
+// 规则判定文本
+const ruleActionText: Record<string, string> = {
+  warning: '警告',
+  reject: '失控',
+  off: '不启用',
 }
 
-// 模拟质控数据
-const mockQcData: QualityControlItem[] = [
-  {
-    id: '1',
-    qcNo: 'QC-2025-001',
-    experimentId: 'MS-2025-001',
-    experimentNo: 'MS-2025-001',
-    qcType: 'standard',
-    sampleName: '葡萄糖标准品',
-    targetCompound: '葡萄糖',
-    expectedValue: 100.0,
-    measuredValue: 98.5,
-    unit: 'mg/L',
-    deviation: -1.5,
-    status: 'pass',
-    operator: '张三',
-    testDate: '2025-01-20 10:30:00',
-    instrument: 'LC-MS-8060',
-    comments: '质控结果正常',
-    createdAt: '2025-01-20 10:30:00',
-    updatedAt: '2025-01-20 10:30:00',
-  },
-  {
-    id: '2',
-    qcNo: 'QC-2025-002',
-    experimentId: 'MS-2025-001',
-    experimentNo: 'MS-2025-001',
-    qcType: 'blank',
-    sampleName: '空白对照',
-    targetCompound: '葡萄糖',
-    expectedValue: 0.0,
-    measuredValue: 2.1,
-    unit: 'mg/L',
-    deviation: 2.1,
-    status: 'warning',
-    operator: '张三',
-    testDate: '2025-01-20 10:45:00',
-    instrument: 'LC-MS-8060',
-    comments: '空白对照有轻微污染',
-    createdAt: '2025-01-20 10:45:00',
-    updatedAt: '2025-01-20 10:45:00',
-  },
-  {
-    id: '3',
-    qcNo: 'QC-2025-003',
-    experimentId: 'MS-2025-002',
-    experimentNo: 'MS-2025-002',
-    qcType: 'spike',
-    sampleName: '加标样本',
-    targetCompound: '咖啡因',
-    expectedValue: 50.0,
-    measuredValue: 47.8,
-    unit: 'μg/L',
-    deviation: -2.2,
-    recoveryRate: 95.6,
-    status: 'pass',
-    operator: '李四',
-    testDate: '2025-01-21 14:20:00',
-    instrument: 'GC-MS-QP2020',
-    createdAt: '2025-01-21 14:20:00',
-    updatedAt: '2025-01-21 14:20:00',
-  },
-  {
-    id: '4',
-    qcNo: 'QC-2025-004',
-    experimentId: 'MS-2025-003',
-    experimentNo: 'MS-2025-003',
-    qcType: 'duplicate',
-    sampleName: '重复样本',
-    targetCompound: '蛋白质',
-    expectedValue: 25.0,
-    measuredValue: 31.2,
-    unit: 'mg/mL',
-    deviation: 6.2,
-    status: 'fail',
-    operator: '王五',
-    testDate: '2025-01-21 16:15:00',
-    instrument: 'MALDI-TOF-5800',
-    comments: '重复性超出允许范围，需要重新测试',
-    createdAt: '2025-01-21 16:15:00',
-    updatedAt: '2025-01-21 16:15:00',
-  },
-]
+// 页签
+type QcTab = 'results' | 'chart' | 'lots'
 
-/**
- * 质控管理页面组件
- * @returns 质控管理页面
- */
-const QualityControl: React.FC = () => {
-  const [qcData, setQcData] = useState<QualityControlItem[]>([])
-  const [filteredData, setFilteredData] = useState<QualityControlItem[]>([])
-  const [searchTerm, setSearchTerm] = useState('')
-  const [statusFilter, setStatusFilter] = useState('')
-  const [typeFilter, setTypeFilter] = useState('')
+// 空白结果录入表单
+const emptyEntry = { lot_id: '', item_id: '', batch_no: '', measured_value: '', measured_at: '', remarks: '' }
+
+const QualityControl = () => {
+  const { user } = useAuthStore()
+  const canManage = (user?.roles || []).some(role => qcManagerRoles.includes(role))
+
+  const [tab, setTab] = useState<QcTab>('results')
+  const [lots, setLots] = useState<QcLot[]>([])
+  const [items, setItems] = useState<QcItem[]>([])
+  const [rules, setRules] = useState<WestgardRuleConfig[]>([])
+
+  // 质控结果
+  const [results, setResults] = useState<QcResult[]>([])
   const [loading, setLoading] = useState(false)
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(10)
+  const [total, setTotal] = useState(0)
+  const [statusFilter, setStatusFilter] = useState<QcStatus | ''>('')
+  const [unresolvedOnly, setUnresolvedOnly] = useState(false)
+  const [batchSearch, setBatchSearch] = useState('')
+
+  // 结果录入
+  const [entry, setEntry] = useState(emptyEntry)
+  const [recording, setRecording] = useState(false)
+  const [lastResult, setLastResult] = useState<QcResult | null>(null)
+
+  // 失控纠正
+  const [resolving, setResolving] = useState<QcResult | null>(null)
+  const [correctiveAction, setCorrectiveAction] = useState('')
+  const [resolveSaving, setResolveSaving] = useState(false)
+
+  // 质控图
+  const [chartLotId, setChartLotId] = useState('')
+  const [chartItemId, setChartItemId] = useState('')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [chart, setChart] = useState<LeveyJenningsData | null>(null)
+  const [chartLoading, setChartLoading] = useState(false)
+
+  // 质控品批号表单
+  const [lotFormOpen, setLotFormOpen] = useState(false)
+  const [editingLot, setEditingLot] = useState<QcLot | null>(null)
+
+  // 加载质控品批号
+  const loadLots = useCallback(async () => {
+    try {
+      setLots(await QcService.getLots(METHOD))
+    } catch (error) {
+      console.error('加载质控品批号失败:', error)
+      toast.error('加载质控品批号失败')
+    }
+  }, [])
 
-  /**
-   * 加载质控数据
-   */
-  const loadQcData = async () => {
+  useEffect(() => {
+    loadLots()
+    QcService.getItems(METHOD)
+      .then(setItems)
+      .catch(error => console.error('加载检测项目失败:', error))
+    QcService.getRules()
+      .then(setRules)
+      .catch(error => console.error('加载质控规则失败:', error))
+  }, [loadLots])
+
+  // 加载质控结果
+  const loadResults = useCallback(async () => {
     setLoading(true)
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      setQcData(mockQcData)
-      setFilteredData(mockQcData)
+      const result = await QcService.getResults({
+        page,
+        limit: pageSize,
+        status: statusFilter || undefined,
+        unresolved_only: unresolvedOnly || undefined,
+        search: batchSearch || undefined,
+      })
+      setResults(result.data)
+      setTotal(result.pagination.total)
     } catch (error) {
-      toast.error('加载质控数据失败')
+      console.error('加载质控结果失败:', error)
+      toast.error('加载质控结果失败')
     } finally {
       setLoading(false)
     }
-  }
+  }, [page, pageSize, statusFilter, unresolvedOnly, batchSearch])
 
-  /**
-   * 筛选数据
-   */
-  const filterData = () => {
-    let filtered = qcData
-
-    // 搜索筛选
-    if (searchTerm) {
-      filtered = filtered.filter(
-        item =>
-          item.qcNo.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          item.experimentNo.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          item.sampleName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          item.targetCompound
-            .toLowerCase()
-            .includes(searchTerm.toLowerCase()) ||
-          item.operator.toLowerCase().includes(searchTerm.toLowerCase())
-      )
-    }
+  useEffect(() => {
+    loadResults()
+  }, [loadResults])
 
-    // 状态筛选
-    if (statusFilter) {
-      filtered = filtered.filter(item => item.status === statusFilter)
+  // 加载质控图
+  const loadChart = useCallback(async () => {
+    if (!chartLotId || !chartItemId) {
+      setChart(null)
+      return
+    }
+    setChartLoading(true)
+    try {
+      setChart(await QcService.getLeveyJennings(chartLotId, chartItemId, dateFrom, dateTo))
+    } catch (error: unknown) {
+      console.error('加载质控图失败:', error)
+      toast.error(getApiErrorMessage(error, '加载质控图失败'))
+    } finally {
+      setChartLoading(false)
     }
+  }, [chartLotId, chartItemId, dateFrom, dateTo])
 
-    // 类型筛选
-    if (typeFilter) {
-      filtered = filtered.filter(item => item.qcType === typeFilter)
+  useEffect(() => {
+    if (tab === 'chart') {
+      loadChart()
     }
+  }, [tab, loadChart])
 
-    setFilteredData(filtered)
-  }
+  const activeLots = lots.filter(lot => lot.is_active)
+  const entryLot = lots.find(lot => lot.id === entry.lot_id)
+  const chartLot = lots.find(lot => lot.id === chartLotId)
 
-  /**
-   * 处理删除质控项目
-   * @param id 质控项目ID
-   */
-  const handleDelete = async (id: string) => {
-    if (!confirm('确定要删除这个质控项目吗？')) {
+  // 录入质控结果
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!entry.lot_id || !entry.item_id || !entry.batch_no.trim() || entry.measured_value === '') {
+      toast.error('请填写质控品、检测项目、实验批次和测定值')
       return
     }
 
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 500))
-      setQcData(prev => prev.filter(item => item.id !== id))
-      toast.success('删除成功')
-    } catch (error) {
-      toast.error('删除失败')
+      setRecording(true)
+      const result = await QcService.recordResult({
+        lot_id: entry.lot_id,
+        item_id: entry.item_id,
+        batch_no: entry.batch_no.trim(),
+        measured_value: Number(entry.measured_value),
+        measured_at: entry.measured_at ? new Date(entry.measured_at).toISOString() : undefined,
+        remarks: entry.remarks || undefined,
+      })
+      setLastResult(result)
+      if (result.status === 'rejected') {
+        toast.error('质控失控，本批次该项目结果在记录纠正措施前不能审核发布')
+      } else if (result.status === 'warning') {
+        toast.warning('质控结果警告')
+      } else {
+        toast.success('质控结果在控')
+      }
+      setEntry(prev => ({ ...prev, measured_value: '', measured_at: '', remarks: '' }))
+      loadResults()
+    } catch (error: unknown) {
+      console.error('录入质控结果失败:', error)
+      toast.error(getApiErrorMessage(error, '录入质控结果失败'))
+    } finally {
+      setRecording(false)
     }
   }
 
-  /**
-   * 重新执行质控检查
-   * @param id 质控项目ID
-   */
-  const handleRecheck = async (id: string) => {
+  // 记录纠正措施
+  const handleResolve = async () => {
+    if (!resolving || !correctiveAction.trim()) {
+      toast.error('请填写纠正措施')
+      return
+    }
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      toast.success('质控检查已重新执行')
-      loadQcData() // 重新加载数据
-    } catch (error) {
-      toast.error('重新检查失败')
+      setResolveSaving(true)
+      await QcService.resolveResult(resolving.id, correctiveAction.trim())
+      toast.success('纠正措施已记录')
+      setResolving(null)
+      setCorrectiveAction('')
+      loadResults()
+    } catch (error: unknown) {
+      console.error('记录纠正措施失败:', error)
+      toast.error(getApiErrorMessage(error, '记录纠正措施失败'))
+    } finally {
+      setResolveSaving(false)
     }
   }
 
-  // 获取状态标签样式
-  const getStatusLabel = (status: string) => {
-    const option = qcStatusOptions.find(opt => opt.value === status)
-    return option
-      ? { label: option.label, color: option.color }
-      : { label: status, color: 'bg-gray-100 text-gray-800' }
-  }
-
-  // 获取质控类型标签
-  const getTypeLabel = (type: string) => {
-    const option = qcTypeOptions.find(opt => opt.value === type)
-    return option ? option.label : type
-  }
-
-  // 获取状态图标
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'pass':
-        return <CheckCircle className='w-4 h-4 text-green-600' />
-      case 'warning':
-        return <AlertTriangle className='w-4 h-4 text-yellow-600' />
-      case 'fail':
-        return <XCircle className='w-4 h-4 text-red-600' />
-      default:
-        return <div className='w-4 h-4 bg-gray-400 rounded-full' />
-    }
+  // 判定结果标签
+  const renderStatus = (status: QcStatus) => {
+    const option = qcStatusOptions.find(item => item.value === status)
+    const Icon = status === 'accepted' ? CheckCircle : status === 'warning' ? AlertTriangle : XCircle
+    return (
+      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${option?.color || ''}`}>
+        <Icon className='w-3 h-3 mr-1' />
+        {option?.label || status}
+      </span>
+    )
   }
 
-  // 计算偏差百分比
-  const getDeviationPercentage = (expected: number, measured: number) => {
-    if (expected === 0) return measured === 0 ? 0 : 100
-    return ((measured - expected) / expected) * 100
-  }
+  // 违反的规则
+  const renderViolations = (record: Pick<QcResult, 'violations'>) =>
+    record.violations?.length ? (
+      <div className='flex flex-wrap gap-1'>
+        {record.violations.map(violation => (
+          <span
+            key={violation.rule}
+            className={`px-1.5 py-0.5 rounded text-xs font-mono ${
+              violation.action === 'reject' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-700'
+            }`}
+          >
+            {violation.rule}
+          </span>
+        ))}
+      </div>
+    ) : (
+      '-'
+    )
 
-  // 表格列配置
-  const columns = [
+  const resultColumns = [
     {
-      key: 'qcNo',
-      title: '质控编号',
-      width: 120,
-      render: (value: string, record: QualityControlItem) => (
-        <Link
-          to={`/quality-control/${record.id}`}
-          className='text-blue-600 hover:text-blue-800 font-medium'
-        >
-          {value}
-        </Link>
-      ),
+      key: 'measured_at',
+      title: '测定时间',
+      dataIndex: 'measured_at',
+      render: (value: string) => new Date(value).toLocaleString('zh-CN'),
     },
     {
-      key: 'experimentNo',
-      title: '实验编号',
-      width: 120,
-      render: (value: string) => (
-        <Link
-          to={`/experiment/${value}`}
-          className='text-blue-600 hover:text-blue-800'
-        >
-          {value}
-        </Link>
-      ),
+      key: 'batch_no',
+      title: '实验批次',
+      dataIndex: 'batch_no',
+      render: (value: string) => <span className='font-mono'>{value}</span>,
     },
     {
-      key: 'qcType',
-      title: '质控类型',
-      width: 100,
-      render: (value: string) => (
-        <span className='px-2 py-1 bg-purple-100 text-purple-800 rounded-full text-xs font-medium'>
-          {getTypeLabel(value)}
-        </span>
-      ),
+      key: 'lot',
+      title: '质控品',
+      dataIndex: 'qc_lots',
+      render: (_: unknown, record: QcResult) =>
+        record.qc_lots ? `${record.qc_lots.material_name} ${record.qc_lots.lot_no}（${record.qc_lots.level}）` : '-',
     },
     {
-      key: 'sampleName',
-      title: '样本名称',
-      width: 150,
+      key: 'item',
+      title: '检测项目',
+      dataIndex: 'test_items',
+      render: (_: unknown, record: QcResult) => record.test_items?.name || '-',
     },
     {
-      key: 'targetCompound',
-      title: '目标化合物',
-      width: 120,
+      key: 'measured_value',
+      title: '测定值 / 靶值±SD',
+      dataIndex: 'measured_value',
+      render: (_: unknown, record: QcResult) => (
+        <span className='text-sm'>
+          <span className='font-medium'>{Number(record.measured_value)}</span>
+          <span className='text-gray-500'> / {Number(record.target_mean)}±{Number(record.target_sd)}</span>
+        </span>
+      ),
     },
     {
-      key: 'values',
-      title: '测试结果',
-      width: 200,
-      render: (_: any, record: QualityControlItem) => (
-        <div className='space-y-1'>
-          <div className='text-sm'>
-            <span className='text-gray-600'>期望值：</span>
-            <span className='font-medium'>
-              {record.expectedValue} {record.unit}
-            </span>
-          </div>
-          <div className='text-sm'>
-            <span className='text-gray-600'>测量值：</span>
-            <span className='font-medium'>
-              {record.measuredValue} {record.unit}
-            </span>
-          </div>
-          <div className='text-sm'>
-            <span className='text-gray-600'>偏差：</span>
-            <span
-              className={`font-medium ${
-                Math.abs(
-                  getDeviationPercentage(
-                    record.expectedValue,
-                    record.measuredValue
-                  )
-                ) > 10
-                  ? 'text-red-600'
-                  : Math.abs(
-                        getDeviationPercentage(
-                          record.expectedValue,
-                          record.measuredValue
-                        )
-                      ) > 5
-                    ? 'text-yellow-600'
-                    : 'text-green-600'
-              }`}
-            >
-              {getDeviationPercentage(
-                record.expectedValue,
-                record.measuredValue
-              ).toFixed(1)}
-              %
-            </span>
-          </div>
-          {record.recoveryRate && (
-            <div className='text-sm'>
-              <span className='text-gray-600'>回收率：</span>
-              <span className='font-medium'>{record.recoveryRate}%</span>
-            </div>
-          )}
-        </div>
+      key: 'z_score',
+      title: 'Z值',
+      dataIndex: 'z_score',
+      render: (value: number) => (
+        <span className={Math.abs(Number(value)) > 2 ? 'text-red-600 font-medium' : ''}>{Number(value).toFixed(2)}</span>
       ),
     },
+    {
+      key: 'violations',
+      title: '违反规则',
+      dataIndex: 'violations',
+      render: (_: unknown, record: QcResult) => renderViolations(record),
+    },
     {
       key: 'status',
-      title: '状态',
-      width: 100,
-      render: (value: string) => {
-        const { label, color } = getStatusLabel(value)
-        return (
-          <div className='flex items-center space-x-2'>
-            {getStatusIcon(value)}
-            <span
-              className={`px-2 py-1 rounded-full text-xs font-medium ${color}`}
-            >
-              {label}
-            </span>
-          </div>
-        )
-      },
+      title: '判定',
+      dataIndex: 'status',
+      render: (value: QcStatus) => renderStatus(value),
     },
     {
-      key: 'operator',
-      title: '操作员',
-      width: 80,
+      key: 'corrective_action',
+      title: '纠正措施',
+      dataIndex: 'corrective_action',
+      render: (_: unknown, record: QcResult) =>
+        record.status !== 'rejected' ? (
+          '-'
+        ) : record.resolved_at ? (
+          <div className='max-w-xs text-sm' title={record.corrective_action || ''}>
+            <div className='truncate'>{record.corrective_action}</div>
+            <div className='text-xs text-gray-500'>
+              {record.resolver?.real_name} {new Date(record.resolved_at).toLocaleString('zh-CN')}
+            </div>
+          </div>
+        ) : canManage ? (
+          <button
+            onClick={() => {
+              setResolving(record)
+              setCorrectiveAction('')
+            }}
+            className='inline-flex items-center text-sm text-blue-600 hover:text-blue-800'
+          >
+            <ShieldCheck className='w-4 h-4 mr-1' />
+            记录纠正措施
+          </button>
+        ) : (
+          <span className='text-sm text-red-600'>待纠正</span>
+        ),
     },
+  ]
+
+  const lotColumns = [
     {
-      key: 'testDate',
-      title: '测试时间',
-      width: 150,
-      render: (value: string) => {
-        try {
-          return new Date(value).toLocaleString('zh-CN')
-        } catch {
-          return value || '-'
-        }
-      },
+      key: 'lot_no',
+      title: '批号',
+      dataIndex: 'lot_no',
+      render: (value: string) => <span className='font-mono'>{value}</span>,
     },
+    { key: 'material_name', title: '质控品名称', dataIndex: 'material_name' },
+    { key: 'level', title: '水平', dataIndex: 'level' },
     {
-      key: 'instrument',
-      title: '仪器设备',
-      width: 120,
+      key: 'expiry_date',
+      title: '有效期至',
+      dataIndex: 'expiry_date',
+      render: (value: string | null) => value || '-',
     },
     {
-      key: 'comments',
-      title: '备注',
-      width: 200,
-      render: (value: string) => (
-        <div className='max-w-xs truncate' title={value}>
-          {value || '-'}
+      key: 'targets',
+      title: '靶值±SD',
+      dataIndex: 'qc_lot_targets',
+      render: (_: unknown, record: QcLot) => (
+        <div className='text-sm space-y-0.5'>
+          {record.qc_lot_targets.map(target => (
+            <div key={target.item_id}>
+              <span className='text-gray-600'>{target.test_items?.name}：</span>
+              {Number(target.target_mean)}±{Number(target.target_sd)} {target.unit || ''}
+            </div>
+          ))}
         </div>
       ),
     },
+    {
+      key: 'is_active',
+      title: '状态',
+      dataIndex: 'is_active',
+      render: (value: boolean) => (
+        <span
+          className={`px-2 py-1 rounded-full text-xs font-medium ${
+            value ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {value ? '启用' : '停用'}
+        </span>
+      ),
+    },
     {
       key: 'actions',
       title: '操作',
-      width: 150,
-      render: (_: any, record: QualityControlItem) => (
-        <div className='flex space-x-2'>
-          <Link
-            to={`/quality-control/${record.id}`}
-            className='text-blue-600 hover:text-blue-800'
-            title='查看详情'
-          >
-            <Eye className='w-4 h-4' />
-          </Link>
-          <Link
-            to={`/quality-control/${record.id}/edit`}
+      dataIndex: 'id',
+      render: (_: unknown, record: QcLot) =>
+        canManage ? (
+          <button
+            onClick={() => {
+              setEditingLot(record)
+              setLotFormOpen(true)
+            }}
             className='text-green-600 hover:text-green-800'
             title='编辑'
           >
             <Edit className='w-4 h-4' />
-          </Link>
-          <button
-            onClick={() => handleRecheck(record.id)}
-            className='text-purple-600 hover:text-purple-800'
-            title='重新检查'
-          >
-            <TrendingUp className='w-4 h-4' />
           </button>
-          <button
-            onClick={() => handleDelete(record.id)}
-            className='text-red-600 hover:text-red-800'
-            title='删除'
-          >
-            <Trash2 className='w-4 h-4' />
-          </button>
-        </div>
-      ),
+        ) : null,
     },
   ]
 
-  // 统计数据
-  const stats = {
-    total: qcData.length,
-    pass: qcData.filter(item => item.status === 'pass').length,
-    warning: qcData.filter(item => item.status === 'warning').length,
-    fail: qcData.filter(item => item.status === 'fail').length,
-    pending: qcData.filter(item => item.status === 'pending').length,
-  }
-
-  // 计算通过率
-  const passRate =
-    stats.total > 0 ? ((stats.pass / stats.total) * 100).toFixed(1) : '0'
-
-  useEffect(() => {
-    loadQcData()
-  }, [])
-
-  useEffect(() => {
-    filterData()
-  }, [searchTerm, statusFilter, typeFilter, qcData])
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
 
   return (
     <div className='p-6'>
       {/* 页面标题 */}
       <div className='mb-6'>
         <h1 className='text-2xl font-bold text-gray-900'>质控管理</h1>
-        <p className='text-gray-600 mt-1'>管理质谱实验质控项目，确保数据质量</p>
+        <p className='text-gray-600 mt-1'>按Westgard多规则判定质控结果，失控纠正前同批次结果不能审核发布</p>
       </div>
 
-      {/* 统计卡片 */}
-      <div className='grid grid-cols-1 md:grid-cols-6 gap-4 mb-6'>
-        <div className='bg-white p-4 rounded-lg shadow'>
-          <div className='text-2xl font-bold text-gray-900'>{stats.total}</div>
-          <div className='text-sm text-gray-600'>总质控数</div>
-        </div>
-        <div className='bg-white p-4 rounded-lg shadow'>
-          <div className='text-2xl font-bold text-green-600'>{stats.pass}</div>
-          <div className='text-sm text-gray-600'>通过</div>
-        </div>
-        <div className='bg-white p-4 rounded-lg shadow'>
-          <div className='text-2xl font-bold text-yellow-600'>
-            {stats.warning}
-          </div>
-          <div className='text-sm text-gray-600'>警告</div>
-        </div>
-        <div className='bg-white p-4 rounded-lg shadow'>
-          <div className='text-2xl font-bold text-red-600'>{stats.fail}</div>
-          <div className='text-sm text-gray-600'>失败</div>
-        </div>
-        <div className='bg-white p-4 rounded-lg shadow'>
-          <div className='text-2xl font-bold text-gray-600'>
-            {stats.pending}
-          </div>
-          <div className='text-sm text-gray-600'>待检查</div>
-        </div>
-        <div className='bg-white p-4 rounded-lg shadow'>
-          <div className='text-2xl font-bold text-blue-600'>{passRate}%</div>
-          <div className='text-sm text-gray-600'>通过率</div>
-        </div>
+      {/* 页签 */}
+      <div className='border-b border-gray-200 mb-6'>
+        <nav className='flex space-x-6'>
+          {([
+            ['results', '质控结果'],
+            ['chart', 'Levey-Jennings质控图'],
+            ['lots', '质控品批号'],
+          ] as [QcTab, string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`pb-3 text-sm font-medium border-b-2 ${
+                tab === key ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
       </div>
 
-      {/* 操作栏 */}
-      <div className='bg-white p-4 rounded-lg shadow mb-6'>
-        <div className='flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0'>
-          {/* 搜索框 */}
-          <div className='flex-1 max-w-md'>
-            <div className='relative'>
-              <Search className='absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4' />
+      {tab === 'results' && (
+        <div className='space-y-6'>
+          {/* 结果录入 */}
+          <div className='bg-white p-4 rounded-lg shadow'>
+            <h3 className='text-sm font-semibold text-gray-900 mb-3'>录入质控结果</h3>
+            <form onSubmit={handleRecord} className='grid grid-cols-2 md:grid-cols-6 gap-3 items-end'>
+              <div>
+                <label className='block text-xs font-medium text-gray-700 mb-1'>质控品</label>
+                <select
+                  value={entry.lot_id}
+                  onChange={e => setEntry(prev => ({ ...prev, lot_id: e.target.value, item_id: '' }))}
+                  className={inputClass}
+                >
+                  <option value=''>选择质控品</option>
+                  {activeLots.map(lot => (
+                    <option key={lot.id} value={lot.id}>
+                      {lot.material_name} {lot.lot_no}（{lot.level}）
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className='block text-xs font-medium text-gray-700 mb-1'>检测项目</label>
+                <select
+                  value={entry.item_id}
+                  onChange={e => setEntry(prev => ({ ...prev, item_id: e.target.value }))}
+                  className={inputClass}
+                >
+                  <option value=''>选择检测项目</option>
+                  {(entryLot?.qc_lot_targets || []).map(target => (
+                    <option key={target.item_id} value={target.item_id}>
+                      {target.test_items?.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className='block text-xs font-medium text-gray-700 mb-1'>实验批次</label>
+                <input
+                  type='text'
+                  value={entry.batch_no}
+                  onChange={e => setEntry(prev => ({ ...prev, batch_no: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className='block text-xs font-medium text-gray-700 mb-1'>测定值</label>
+                <input
+                  type='number'
+                  step='any'
+                  value={entry.measured_value}
+                  onChange={e => setEntry(prev => ({ ...prev, measured_value: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className='block text-xs font-medium text-gray-700 mb-1'>测定时间</label>
+                <input
+                  type='datetime-local'
+                  value={entry.measured_at}
+                  onChange={e => setEntry(prev => ({ ...prev, measured_at: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type='submit'
+                disabled={recording}
+                className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+              >
+                {recording ? '判定中...' : '录入并判定'}
+              </button>
+            </form>
+
+            {lastResult && (
+              <div className='mt-3 flex items-center space-x-3 text-sm'>
+                <span className='text-gray-600'>最近录入：</span>
+                {renderStatus(lastResult.status)}
+                <span>Z值 {Number(lastResult.z_score).toFixed(2)}</span>
+                {renderViolations(lastResult)}
+              </div>
+            )}
+
+            {rules.length > 0 && (
+              <div className='mt-3 pt-3 border-t flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500'>
+                {rules.map(rule => (
+                  <span key={rule.rule} title={rule.description}>
+                    <span className='font-mono text-gray-700'>{rule.rule}</span> {ruleActionText[rule.action]}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* 结果列表 */}
+          <div className='bg-white p-4 rounded-lg shadow'>
+            <div className='flex flex-wrap items-center gap-3 mb-4'>
               <input
                 type='text'
-                placeholder='搜索质控编号、实验编号、样本名称或化合物...'
-                value={searchTerm}
-                onChange={e => setSearchTerm(e.target.value)}
-                className='pl-10 pr-4 py-2 w-full border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                value={batchSearch}
+                onChange={e => {
+                  setBatchSearch(e.target.value)
+                  setPage(1)
+                }}
+                placeholder='搜索实验批次'
+                className='px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
               />
-            </div>
-          </div>
-
-          {/* 筛选器 */}
-          <div className='flex flex-wrap items-center space-x-4'>
-            <div className='flex items-center space-x-2'>
-              <Filter className='w-4 h-4 text-gray-400' />
               <select
                 value={statusFilter}
-                onChange={e => setStatusFilter(e.target.value)}
-                className='border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                onChange={e => {
+                  setStatusFilter(e.target.value as QcStatus | '')
+                  setPage(1)
+                }}
+                className='px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
               >
-                <option value=''>全部状态</option>
+                <option value=''>全部判定</option>
                 {qcStatusOptions.map(option => (
                   <option key={option.value} value={option.value}>
                     {option.label}
                   </option>
                 ))}
               </select>
+              <label className='flex items-center text-sm text-gray-700'>
+                <input
+                  type='checkbox'
+                  checked={unresolvedOnly}
+                  onChange={e => {
+                    setUnresolvedOnly(e.target.checked)
+                    setPage(1)
+                  }}
+                  className='rounded border-gray-300 mr-2'
+                />
+                只看待纠正的失控
+              </label>
             </div>
+            <DataTable
+              columns={resultColumns}
+              dataSource={results}
+              loading={loading}
+              pagination={{
+                current: page,
+                pageSize,
+                total,
+                onChange: (nextPage, nextSize) => {
+                  setPage(nextPage)
+                  setPageSize(nextSize)
+                },
+              }}
+            />
+          </div>
+        </div>
+      )}
 
-            <select
-              value={typeFilter}
-              onChange={e => setTypeFilter(e.target.value)}
-              className='border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-            >
-              <option value=''>全部类型</option>
-              {qcTypeOptions.map(option => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
-              ))}
-            </select>
-
-            <Link
-              to='/quality-control/create'
-              className='bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 flex items-center space-x-2'
-            >
-              <Plus className='w-4 h-4' />
-              <span>新建质控</span>
-            </Link>
+      {tab === 'chart' && (
+        <div className='bg-white p-4 rounded-lg shadow space-y-4'>
+          <div className='grid grid-cols-2 md:grid-cols-4 gap-3'>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>质控品</label>
+              <select
+                value={chartLotId}
+                onChange={e => {
+                  const lot = lots.find(item => item.id === e.target.value)
+                  setChartLotId(e.target.value)
+                  setChartItemId(lot?.qc_lot_targets[0]?.item_id || '')
+                }}
+                className={inputClass}
+              >
+                <option value=''>选择质控品</option>
+                {lots.map(lot => (
+                  <option key={lot.id} value={lot.id}>
+                    {lot.material_name} {lot.lot_no}（{lot.level}）
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>检测项目</label>
+              <select value={chartItemId} onChange={e => setChartItemId(e.target.value)} className={inputClass}>
+                <option value=''>选择检测项目</option>
+                {(chartLot?.qc_lot_targets || []).map(target => (
+                  <option key={target.item_id} value={target.item_id}>
+                    {target.test_items?.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>开始日期</label>
+              <input type='date' value={dateFrom} onChange={e => setDateFrom(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>结束日期</label>
+              <input type='date' value={dateTo} onChange={e => setDateTo(e.target.value)} className={inputClass} />
+            </div>
           </div>
+
+          {chartLoading ? (
+            <div className='flex items-center justify-center h-64'>
+              <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600'></div>
+            </div>
+          ) : chart ? (
+            <div>
+              <div className='text-sm text-gray-700 mb-2'>
+                {chart.item?.name} · {chart.lot.material_name} {chart.lot.lot_no}（{chart.lot.level}） · 靶值
+                {chart.target_mean}±{chart.target_sd} {chart.unit || ''} · 共{chart.points.length}个质控点
+              </div>
+              <LeveyJenningsChart data={chart} />
+              <div className='flex items-center space-x-4 mt-2 text-xs text-gray-500'>
+                <span className='flex items-center'>
+                  <span className='w-2.5 h-2.5 rounded-full bg-green-600 mr-1' />在控
+                </span>
+                <span className='flex items-center'>
+                  <span className='w-2.5 h-2.5 rounded-full bg-yellow-600 mr-1' />警告
+                </span>
+                <span className='flex items-center'>
+                  <span className='w-2.5 h-2.5 rounded-full bg-red-600 mr-1' />失控
+                </span>
+              </div>
+            </div>
+          ) : (
+            <div className='text-center text-sm text-gray-500 py-16'>请选择质控品和检测项目</div>
+          )}
         </div>
-      </div>
+      )}
 
-      {/* 数据表格 */}
-      <div className='bg-white rounded-lg shadow'>
-        <DataTable
-          columns={columns}
-          dataSource={filteredData}
-          loading={loading}
-          pagination={{
-            pageSize: 10,
-            showSizeChanger: true,
-            showQuickJumper: true,
-            showTotal: (total, range) =>
-              `显示 ${range[0]}-${range[1]} 条，共 ${total} 条`,
-          }}
-        />
-      </div>
+      {tab === 'lots' && (
+        <div className='bg-white p-4 rounded-lg shadow'>
+          {canManage && (
+            <div className='flex justify-end mb-4'>
+              <button
+                onClick={() => {
+                  setEditingLot(null)
+                  setLotFormOpen(true)
+                }}
+                className='bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 flex items-center space-x-2 text-sm'
+              >
+                <Plus className='w-4 h-4' />
+                <span>新建质控品批号</span>
+              </button>
+            </div>
+          )}
+          <DataTable columns={lotColumns} dataSource={lots} />
+        </div>
+      )}
+
+      <QcLotForm
+        open={lotFormOpen}
+        method={METHOD}
+        lot={editingLot}
+        items={items}
+        onClose={() => setLotFormOpen(false)}
+        onSaved={() => {
+          setLotFormOpen(false)
+          loadLots()
+        }}
+      />
+
+      {/* 失控纠正措施 */}
+      <Modal open={Boolean(resolving)} onClose={() => setResolving(null)} title='记录失控纠正措施' size='medium'>
+        {resolving && (
+          <div className='space-y-4'>
+            <div className='text-sm space-y-1'>
+              <div>
+                <span className='text-gray-500'>实验批次：</span>
+                <span className='font-mono'>{resolving.batch_no}</span>
+              </div>
+              <div>
+                <span className='text-gray-500'>检测项目：</span>
+                {resolving.test_items?.name}
+              </div>
+              <div className='flex items-center'>
+                <span className='text-gray-500'>违反规则：</span>
+                {renderViolations(resolving)}
+              </div>
+            </div>
+            <textarea
+              rows={4}
+              maxLength={1000}
+              value={correctiveAction}
+              onChange={e => setCorrectiveAction(e.target.value)}
+              placeholder='如：更换试剂后重新校准，复测质控在控，本批次样本重新检测'
+              className={inputClass}
+            />
+            <p className='text-xs text-gray-500'>记录纠正措施后，本批次该项目的实验结果可继续审核发布。</p>
+            <div className='flex justify-end space-x-3 pt-2 border-t'>
+              <button
+                onClick={() => setResolving(null)}
+                className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+              >
+                取消
+              </button>
+              <button
+                onClick={handleResolve}
+                disabled={resolveSaving}
+                className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+              >
+                {resolveSaving ? '保存中...' : '确认'}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
     </div>
   )
 }
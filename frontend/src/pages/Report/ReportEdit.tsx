@@ -5,8 +5,8 @@
  * @date 2025-08-20
  */
 
-import React, { useState, useEffect } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import React, { useState, useEffect, useCallback } from 'react'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
 import {
   Card,
   CardContent,
@@ -16,6 +16,7 @@ import {
 import { Button } from '../../components/ui/button'
 import { Input } from '../../components/ui/input'
 import { Badge } from '../../components/ui/badge'
+import Modal from '../../components/Modal'
 import {
   Save,
   Eye,
@@ -26,28 +27,36 @@ import {
   Download,
   Upload,
   Copy,
+  History,
 } from 'lucide-react'
 import { toast } from 'sonner'
+import {
+  ReportService,
+  type ReportDetail,
+  type ReportVersion,
+} from '../../services'
 
 // 报告数据接口
 interface ReportEditData {
   id: string
   reportNumber: string
+  title: string
   sampleNumber: string
   clientName: string
-  clientContact: string
+  patientName: string
   testItems: string[]
-  status: 'draft' | 'pending_review' | 'approved' | 'rejected' | 'sent'
+  status: 'draft' | 'pending_review' | 'approved' | 'delivered' | 'cancelled'
   priority: 'low' | 'normal' | 'high' | 'urgent'
   createdAt: string
   updatedAt: string
   createdBy: string
   reviewer?: string
-  dueDate: string
   reportType: string
+  versionNo: number
+  isAmended: boolean
+  amendmentReason?: string
   content: {
     summary: string
-    testMethods: string
     results: string
     conclusion: string
     recommendations: string
@@ -56,6 +65,16 @@ interface ReportEditData {
   template: string
 }
 
+// 字段中文名称（用于版本差异展示）
+const fieldLabels: Record<string, string> = {
+  template_id: '报告模板',
+  title: '报告标题',
+  content: '检测结果',
+  summary: '检测概述',
+  conclusion: '结论',
+  recommendations: '建议',
+}
+
 // 报告模板选项
 const templateOptions = [
   { value: 'standard', label: '标准检测报告' },
@@ -64,61 +83,130 @@ const templateOptions = [
   { value: 'material', label: '材料检测报告' },
 ]
 
-// 模拟报告数据
-const mockReportData: ReportEditData = {
-  id: '1',
-  reportNumber: 'RPT-2025-001',
-  sampleNumber: 'SMP-2025-001',
-  clientName: '华为技术有限公司',
-  clientContact: '张经理 (13800138000)',
-  testItems: ['重金属检测', '有机物分析'],
+/**
+ * 格式化时间
+ * @param value ISO时间
+ * @returns 本地时间文本
+ */
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString('zh-CN') : '-'
+
+/**
+ * 空白报告（新建报告时使用）
+ */
+const emptyReportData: ReportEditData = {
+  id: '',
+  reportNumber: '保存后自动生成',
+  title: '',
+  sampleNumber: '-',
+  clientName: '-',
+  patientName: '-',
+  testItems: [],
   status: 'draft',
-  priority: 'high',
-  createdAt: '2025-01-20 09:00:00',
-  updatedAt: '2025-01-22 14:30:00',
-  createdBy: '张三',
-  dueDate: '2025-01-25',
+  priority: 'normal',
+  createdAt: '-',
+  updatedAt: '-',
+  createdBy: '-',
   reportType: '检测报告',
+  versionNo: 1,
+  isAmended: false,
   content: {
-    summary:
-      '本次检测针对华为技术有限公司送检的电子产品进行重金属和有机物分析，检测项目包括铅、汞、镉、六价铬等重金属含量，以及多种有机化合物的定性定量分析。',
-    testMethods:
-      '采用ICP-MS法检测重金属含量，GC-MS法检测有机物成分。所有检测方法均符合国家标准GB/T 26125-2011和GB/T 26572-2011的要求。',
-    results:
-      '检测结果显示：\n1. 重金属含量：铅 < 0.1 mg/kg，汞 < 0.01 mg/kg，镉 < 0.05 mg/kg，六价铬 < 0.1 mg/kg\n2. 有机物分析：未检出限制性有机化合物\n3. 所有检测项目均符合相关标准要求',
-    conclusion:
-      '根据检测结果，送检样品的重金属含量和有机物成分均符合相关标准要求，产品质量合格。',
-    recommendations:
-      '建议继续保持现有的生产工艺和质量控制体系，定期进行产品质量检测，确保产品持续符合标准要求。',
-    attachments: ['检测数据表.xlsx', '色谱图.pdf', '质谱图.pdf'],
+    summary: '',
+    results: '',
+    conclusion: '',
+    recommendations: '',
+    attachments: [],
   },
   template: 'standard',
 }
 
+/**
+ * 将报告详情转换为编辑数据
+ * @param detail 报告详情
+ * @returns 报告编辑数据
+ */
+const toReportEditData = (detail: ReportDetail): ReportEditData => ({
+  id: detail.id,
+  reportNumber: detail.report_no,
+  title: detail.title,
+  sampleNumber:
+    detail.submissions?.samples?.map(sample => sample.sample_no).join('、') ||
+    '-',
+  clientName: detail.submissions?.client_units?.name || '-',
+  patientName: detail.submissions?.patient_name || '-',
+  testItems: [],
+  status: detail.status,
+  priority: detail.submissions?.is_urgent ? 'urgent' : 'normal',
+  createdAt: formatTime(detail.created_at),
+  updatedAt: formatTime(detail.updated_at),
+  createdBy: detail.submitter?.real_name || '-',
+  reportType: '检测报告',
+  versionNo: detail.version_no || 1,
+  isAmended: Boolean(detail.is_amended),
+  amendmentReason: detail.amendment_reason,
+  content: {
+    summary: detail.summary || '',
+    results: detail.content || '',
+    conclusion: detail.conclusion || '',
+    recommendations: detail.recommendations || '',
+    attachments: (detail.file_urls || []).map(file => file.file_name),
+  },
+  template: 'standard',
+})
+
 const ReportEdit: React.FC = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const [reportData, setReportData] = useState<ReportEditData | null>(null)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [previewMode, setPreviewMode] = useState(false)
+  const [versions, setVersions] = useState<ReportVersion[]>([])
+  const [amendModalOpen, setAmendModalOpen] = useState(false)
+  const [amendmentReason, setAmendmentReason] = useState('')
+
+  // 已审核或已交付的报告修改时生成修订版本
+  const isLocked =
+    reportData?.status === 'approved' || reportData?.status === 'delivered'
 
   /**
    * 加载报告数据
    */
-  const loadReportData = async () => {
+  const loadReportData = useCallback(async () => {
     try {
       setLoading(true)
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      setReportData(mockReportData)
+      if (!id) {
+        setReportData(emptyReportData)
+        return
+      }
+
+      const [detail, versionList] = await Promise.all([
+        ReportService.getReportById(id),
+        ReportService.getVersions(id),
+      ])
+      setReportData(toReportEditData(detail))
+      setVersions(versionList)
     } catch (error) {
       console.error('加载报告数据失败:', error)
       toast.error('加载报告数据失败')
     } finally {
       setLoading(false)
     }
-  }
+  }, [id])
+
+  /**
+   * 获取提交的报告内容
+   * @param data 报告编辑数据
+   * @returns 报告内容参数
+   */
+  const getContentParams = (data: ReportEditData) => ({
+    title: data.title,
+    summary: data.content.summary,
+    content: data.content.results,
+    conclusion: data.content.conclusion,
+    recommendations: data.content.recommendations,
+  })
 
   /**
    * 保存报告
@@ -126,11 +214,39 @@ const ReportEdit: React.FC = () => {
   const handleSave = async () => {
     if (!reportData) return
 
+    if (!reportData.title.trim()) {
+      toast.error('请输入报告标题')
+      return
+    }
+
+    // 已审核报告需填写修订原因
+    if (isLocked) {
+      setAmendmentReason('')
+      setAmendModalOpen(true)
+      return
+    }
+
     try {
       setSaving(true)
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1500))
-      toast.success('报告保存成功')
+      if (reportData.id) {
+        await ReportService.updateReport(
+          reportData.id,
+          getContentParams(reportData)
+        )
+        toast.success('报告保存成功')
+      } else {
+        const submissionId = searchParams.get('submission_id')
+        if (!submissionId) {
+          toast.error('请从送检单创建报告')
+          return
+        }
+        const created = await ReportService.createReport({
+          ...getContentParams(reportData),
+          submission_id: submissionId,
+        })
+        toast.success('报告创建成功')
+        navigate(`/report/edit/${created.id}`, { replace: true })
+      }
     } catch (error) {
       console.error('保存报告失败:', error)
       toast.error('保存报告失败')
@@ -139,16 +255,43 @@ const ReportEdit: React.FC = () => {
     }
   }
 
+  /**
+   * 提交修订
+   */
+  const handleSubmitAmendment = async () => {
+    if (!reportData || !amendmentReason.trim()) return
+
+    try {
+      setSaving(true)
+      const { diff } = await ReportService.amendReport(
+        reportData.id,
+        getContentParams(reportData),
+        amendmentReason.trim()
+      )
+      toast.success(`已生成第${reportData.versionNo + 1}版，修改${diff.length}项，请重新提交审核`)
+      setAmendModalOpen(false)
+      await loadReportData()
+    } catch (error) {
+      console.error('修订报告失败:', error)
+      toast.error('修订报告失败')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   /**
    * 提交审核
    */
   const handleSubmitReview = async () => {
-    if (!reportData) return
+    if (!reportData?.id) return
 
     try {
       setSaving(true)
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1500))
+      await ReportService.updateReport(
+        reportData.id,
+        getContentParams(reportData)
+      )
+      await ReportService.submitForReview(reportData.id)
       setReportData(prev =>
         prev ? { ...prev, status: 'pending_review' } : null
       )
@@ -161,6 +304,27 @@ const ReportEdit: React.FC = () => {
     }
   }
 
+  /**
+   * 下载历史版本
+   * @param versionNo 版本号
+   */
+  const handleDownloadVersion = async (versionNo: number) => {
+    if (!reportData?.id) return
+
+    try {
+      const version = await ReportService.getVersion(reportData.id, versionNo)
+      const file = version.file_urls[version.file_urls.length - 1]
+      if (!file?.download_url) {
+        toast.error('该版本没有发布文件')
+        return
+      }
+      window.open(file.download_url, '_blank')
+    } catch (error) {
+      console.error('获取版本文件失败:', error)
+      toast.error('获取版本文件失败')
+    }
+  }
+
   /**
    * 更新报告内容
    * @param field 字段名
@@ -219,7 +383,7 @@ const ReportEdit: React.FC = () => {
 
   useEffect(() => {
     loadReportData()
-  }, [id])
+  }, [loadReportData])
 
   if (loading) {
     return (
@@ -259,6 +423,11 @@ const ReportEdit: React.FC = () => {
           <div>
             <h1 className='text-2xl font-bold text-gray-900'>
               编辑报告 - {reportData.reportNumber}
+              {reportData.isAmended && (
+                <Badge className='ml-2 bg-red-100 text-red-800'>
+                  修订版 第{reportData.versionNo}版
+                </Badge>
+              )}
             </h1>
             <p className='text-gray-600 mt-1'>
               样本编号: {reportData.sampleNumber} | 客户:{' '}
@@ -288,12 +457,12 @@ const ReportEdit: React.FC = () => {
             variant='outline'
             size='sm'
             onClick={handleSave}
-            disabled={saving}
+            disabled={saving || reportData.status === 'pending_review'}
           >
             <Save className='h-4 w-4 mr-2' />
-            {saving ? '保存中...' : '保存'}
+            {saving ? '保存中...' : isLocked ? '修订' : '保存'}
           </Button>
-          {reportData.status === 'draft' && (
+          {reportData.status === 'draft' && reportData.id && (
             <Button size='sm' onClick={handleSubmitReview} disabled={saving}>
               <Send className='h-4 w-4 mr-2' />
               提交审核
@@ -341,32 +510,27 @@ const ReportEdit: React.FC = () => {
                   </label>
                   <Input
                     value={reportData.clientName}
-                    onChange={e =>
-                      updateBasicInfo('clientName', e.target.value)
-                    }
-                    disabled={previewMode}
+                    disabled
+                    className='bg-gray-50'
                   />
                 </div>
                 <div>
                   <label className='block text-sm font-medium text-gray-700 mb-1'>
-                    客户联系方式
+                    受检者
                   </label>
                   <Input
-                    value={reportData.clientContact}
-                    onChange={e =>
-                      updateBasicInfo('clientContact', e.target.value)
-                    }
-                    disabled={previewMode}
+                    value={reportData.patientName}
+                    disabled
+                    className='bg-gray-50'
                   />
                 </div>
                 <div>
                   <label className='block text-sm font-medium text-gray-700 mb-1'>
-                    截止日期
+                    报告标题
                   </label>
                   <Input
-                    type='date'
-                    value={reportData.dueDate}
-                    onChange={e => updateBasicInfo('dueDate', e.target.value)}
+                    value={reportData.title}
+                    onChange={e => updateBasicInfo('title', e.target.value)}
                     disabled={previewMode}
                   />
                 </div>
@@ -425,21 +589,6 @@ const ReportEdit: React.FC = () => {
                 />
               </div>
 
-              {/* 检测方法 */}
-              <div>
-                <label className='block text-sm font-medium text-gray-700 mb-2'>
-                  检测方法
-                </label>
-                <textarea
-                  value={reportData.content.testMethods}
-                  onChange={e => updateContent('testMethods', e.target.value)}
-                  disabled={previewMode}
-                  rows={4}
-                  className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none'
-                  placeholder='请输入检测方法...'
-                />
-              </div>
-
               {/* 检测结果 */}
               <div>
                 <label className='block text-sm font-medium text-gray-700 mb-2'>
@@ -513,7 +662,7 @@ const ReportEdit: React.FC = () => {
                         ? 'bg-yellow-100 text-yellow-800'
                         : reportData.status === 'approved'
                           ? 'bg-green-100 text-green-800'
-                          : reportData.status === 'rejected'
+                          : reportData.status === 'cancelled'
                             ? 'bg-red-100 text-red-800'
                             : 'bg-blue-100 text-blue-800'
                   }
@@ -524,9 +673,9 @@ const ReportEdit: React.FC = () => {
                       ? '待审核'
                       : reportData.status === 'approved'
                         ? '已批准'
-                        : reportData.status === 'rejected'
-                          ? '已驳回'
-                          : '已发送'}
+                        : reportData.status === 'cancelled'
+                          ? '已取消'
+                          : '已交付'}
                 </Badge>
               </div>
 
@@ -578,6 +727,61 @@ const ReportEdit: React.FC = () => {
             </CardContent>
           </Card>
 
+          {/* 版本记录 */}
+          {versions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className='flex items-center'>
+                  <History className='h-5 w-5 mr-2' />
+                  版本记录
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className='space-y-3'>
+                  {versions.map(version => (
+                    <div
+                      key={version.id}
+                      className='p-2 bg-gray-50 rounded text-sm space-y-1'
+                    >
+                      <div className='flex items-center justify-between'>
+                        <span className='font-medium'>
+                          第{version.version_no}版
+                        </span>
+                        {version.released_at && (
+                          <Button
+                            size='sm'
+                            variant='ghost'
+                            onClick={() =>
+                              handleDownloadVersion(version.version_no)
+                            }
+                          >
+                            <Download className='h-3 w-3' />
+                          </Button>
+                        )}
+                      </div>
+                      <p className='text-gray-500'>
+                        审核通过：{formatTime(version.approved_at)}
+                      </p>
+                      {version.amendment_reason && (
+                        <p className='text-gray-600'>
+                          修订原因：{version.amendment_reason}
+                        </p>
+                      )}
+                      {version.diff.length > 0 && (
+                        <p className='text-gray-600'>
+                          修改内容：
+                          {version.diff
+                            .map(change => fieldLabels[change.field] || change.field)
+                            .join('、')}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* 附件 */}
           <Card>
             <CardHeader>
@@ -612,6 +816,48 @@ const ReportEdit: React.FC = () => {
           </Card>
         </div>
       </div>
+
+      {/* 修订原因模态框 */}
+      <Modal
+        open={amendModalOpen}
+        onClose={() => setAmendModalOpen(false)}
+        title='修订报告'
+        size='medium'
+      >
+        <div className='space-y-4'>
+          <p className='text-sm text-gray-600'>
+            报告已审核，修改将生成第{reportData.versionNo + 1}
+            版修订报告，需重新审核并发布，原版本保留可查。
+          </p>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-2'>
+              修订原因 <span className='text-red-500'>*</span>
+            </label>
+            <textarea
+              value={amendmentReason}
+              onChange={e => setAmendmentReason(e.target.value)}
+              rows={4}
+              className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none'
+              placeholder='请输入修订原因...'
+            />
+          </div>
+          <div className='flex justify-end space-x-3 pt-4'>
+            <Button
+              variant='outline'
+              onClick={() => setAmendModalOpen(false)}
+              disabled={saving}
+            >
+              取消
+            </Button>
+            <Button
+              onClick={handleSubmitAmendment}
+              disabled={saving || !amendmentReason.trim()}
+            >
+              {saving ? '提交中...' : '确认修订'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
     </div>
   )
 }
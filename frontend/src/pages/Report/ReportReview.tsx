@@ -29,25 +29,32 @@ import {
   MessageSquare,
   User,
   Calendar,
+  Send,
+  Truck,
 } from 'lucide-react'
 import { toast } from 'sonner'
+import {
+  ReportService,
+  type Report,
+  type ReportAudit,
+  type DeliveryMethod,
+} from '../../services'
 
 // 审核报告数据接口
 interface ReviewReportData {
   id: string
   reportNumber: string
-  sampleNumber: string
+  submissionNumber: string
   clientName: string
-  testItems: string[]
-  status: 'pending_review' | 'approved' | 'rejected'
+  title: string
+  status: 'pending_review' | 'approved' | 'released' | 'rejected'
   priority: 'low' | 'normal' | 'high' | 'urgent'
   submittedAt: string
   submittedBy: string
+  reviewLevel: string
   reviewer?: string
   reviewedAt?: string
   reviewComments?: string
-  dueDate: string
-  reportType: string
 }
 
 // 审核历史接口
@@ -66,9 +73,18 @@ const statusConfig = {
     className: 'bg-yellow-100 text-yellow-800',
   },
   approved: { label: '已批准', className: 'bg-green-100 text-green-800' },
+  released: { label: '已发布', className: 'bg-blue-100 text-blue-800' },
   rejected: { label: '已驳回', className: 'bg-red-100 text-red-800' },
 }
 
+// 交付方式选项
+const deliveryMethodOptions: { value: DeliveryMethod; label: string }[] = [
+  { value: 'email', label: '邮件' },
+  { value: 'download', label: '在线下载' },
+  { value: 'print', label: '打印自取' },
+  { value: 'courier', label: '快递' },
+]
+
 // 优先级配置
 const priorityConfig = {
   low: { label: '低', className: 'bg-gray-100 text-gray-800' },
@@ -104,72 +120,52 @@ const getPriorityBadge = (priority: string) => {
 }
 
 /**
- * 模拟审核报告数据
+ * 格式化时间
+ * @param value ISO时间
+ * @returns 本地时间文本
  */
-const mockReviewReports: ReviewReportData[] = [
-  {
-    id: '1',
-    reportNumber: 'RPT-2025-002',
-    sampleNumber: 'SMP-2025-002',
-    clientName: '腾讯科技有限公司',
-    testItems: ['微生物检测'],
-    status: 'pending_review',
-    priority: 'normal',
-    submittedAt: '2025-01-21 10:30:00',
-    submittedBy: '王五',
-    dueDate: '2025-01-28',
-    reportType: '检测报告',
-  },
-  {
-    id: '2',
-    reportNumber: 'RPT-2025-004',
-    sampleNumber: 'SMP-2025-004',
-    clientName: '百度在线网络技术有限公司',
-    testItems: ['化学成分分析', '物理性能测试'],
-    status: 'pending_review',
-    priority: 'high',
-    submittedAt: '2025-01-22 14:15:00',
-    submittedBy: '赵六',
-    dueDate: '2025-01-26',
-    reportType: '检测报告',
-  },
-  {
-    id: '3',
-    reportNumber: 'RPT-2025-001',
-    sampleNumber: 'SMP-2025-001',
-    clientName: '华为技术有限公司',
-    testItems: ['重金属检测', '有机物分析'],
-    status: 'approved',
-    priority: 'high',
-    submittedAt: '2025-01-20 09:00:00',
-    submittedBy: '张三',
-    reviewer: '李四',
-    reviewedAt: '2025-01-22 14:30:00',
-    reviewComments: '报告内容完整，检测结果准确，符合审核标准。',
-    dueDate: '2025-01-25',
-    reportType: '检测报告',
-  },
-]
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString('zh-CN') : '-'
 
 /**
- * 模拟审核历史数据
+ * 将报告转换为审核列表数据
+ * @param report 报告
+ * @returns 审核报告数据
  */
-const mockReviewHistory: ReviewHistory[] = [
-  {
-    id: '1',
-    action: 'submitted',
-    reviewer: '王五',
-    timestamp: '2025-01-21 10:30:00',
-    comments: '提交报告审核',
-  },
-  {
-    id: '2',
-    action: 'approved',
-    reviewer: '李四',
-    timestamp: '2025-01-22 14:30:00',
-    comments: '报告内容完整，检测结果准确，符合审核标准。',
-  },
-]
+const toReviewReportData = (report: Report): ReviewReportData => ({
+  id: report.id,
+  reportNumber: report.report_no,
+  submissionNumber: report.submissions?.submission_no || '-',
+  clientName: report.submissions?.client_units?.name || '-',
+  title: report.title,
+  status:
+    report.status === 'pending_review'
+      ? 'pending_review'
+      : report.released_at
+        ? 'released'
+        : 'approved',
+  priority: report.submissions?.is_urgent ? 'urgent' : 'normal',
+  submittedAt: formatTime(report.submitted_at),
+  submittedBy: report.submitter?.real_name || '-',
+  reviewLevel:
+    report.status === 'pending_review'
+      ? `第${report.current_review_level}/${report.required_review_levels}级`
+      : '已完成',
+  reviewedAt: report.approved_at ? formatTime(report.approved_at) : undefined,
+})
+
+/**
+ * 将审核记录转换为审核历史
+ * @param audit 审核记录
+ * @returns 审核历史
+ */
+const toReviewHistory = (audit: ReportAudit): ReviewHistory => ({
+  id: audit.id,
+  action: audit.audit_result === 'rejected' ? 'rejected' : 'approved',
+  reviewer: `${audit.users?.real_name || '-'}（第${audit.audit_level}级）`,
+  timestamp: formatTime(audit.audit_time),
+  comments: audit.audit_comments || '',
+})
 
 const ReportReview: React.FC = () => {
   const [reports, setReports] = useState<ReviewReportData[]>([])
@@ -191,6 +187,14 @@ const ReportReview: React.FC = () => {
   const [submitting, setSubmitting] = useState(false)
   const [historyModalOpen, setHistoryModalOpen] = useState(false)
   const [reviewHistory, setReviewHistory] = useState<ReviewHistory[]>([])
+  const [deliveryModalOpen, setDeliveryModalOpen] = useState(false)
+  const [deliveryForm, setDeliveryForm] = useState({
+    delivery_method: 'email' as DeliveryMethod,
+    recipient_name: '',
+    recipient_contact: '',
+    delivered: true,
+    remarks: '',
+  })
 
   /**
    * 加载审核报告数据
@@ -198,20 +202,21 @@ const ReportReview: React.FC = () => {
   const loadReports = async () => {
     try {
       setLoading(true)
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      setReports(mockReviewReports)
+      // 待审核及已审核待交付的报告
+      const [pending, approved] = await Promise.all([
+        ReportService.getReports({ status: 'pending_review', limit: 100 }),
+        ReportService.getReports({ status: 'approved', limit: 100 }),
+      ])
+      const list = [...pending.data, ...approved.data].map(toReviewReportData)
+      setReports(list)
 
       // 计算统计数据
-      const newStats = {
-        total: mockReviewReports.length,
-        pending_review: mockReviewReports.filter(
-          r => r.status === 'pending_review'
-        ).length,
-        approved: mockReviewReports.filter(r => r.status === 'approved').length,
-        rejected: mockReviewReports.filter(r => r.status === 'rejected').length,
-      }
-      setStats(newStats)
+      setStats(prev => ({
+        total: list.length,
+        pending_review: pending.pagination.total,
+        approved: approved.pagination.total,
+        rejected: prev.rejected,
+      }))
     } catch (error) {
       console.error('加载审核报告数据失败:', error)
       toast.error('加载审核报告数据失败')
@@ -251,34 +256,19 @@ const ReportReview: React.FC = () => {
 
     try {
       setSubmitting(true)
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1500))
-
-      // 更新报告状态
-      const newStatus = reviewAction === 'approve' ? 'approved' : 'rejected'
-      setReports(prev =>
-        prev.map(report =>
-          report.id === selectedReport.id
-            ? {
-                ...report,
-                status: newStatus,
-                reviewer: '当前用户',
-                reviewedAt: new Date().toLocaleString('zh-CN'),
-                reviewComments,
-              }
-            : report
-        )
+      await ReportService.reviewReport(
+        selectedReport.id,
+        reviewAction === 'approve' ? 'approved' : 'rejected',
+        reviewComments || undefined
       )
 
-      // 更新统计数据
-      setStats(prev => ({
-        ...prev,
-        pending_review: prev.pending_review - 1,
-        [newStatus]: prev[newStatus as keyof typeof prev] + 1,
-      }))
+      if (reviewAction === 'reject') {
+        setStats(prev => ({ ...prev, rejected: prev.rejected + 1 }))
+      }
 
       toast.success(`报告${reviewAction === 'approve' ? '批准' : '驳回'}成功`)
       setReviewModalOpen(false)
+      await loadReports()
     } catch (error) {
       console.error('提交审核失败:', error)
       toast.error('提交审核失败')
@@ -287,14 +277,86 @@ const ReportReview: React.FC = () => {
     }
   }
 
+  /**
+   * 发布报告
+   * @param record 报告记录
+   */
+  const handleRelease = async (record: ReviewReportData) => {
+    try {
+      await ReportService.releaseReport(record.id)
+      toast.success(`报告 ${record.reportNumber} 已发布`)
+      await loadReports()
+    } catch (error) {
+      console.error('发布报告失败:', error)
+      toast.error('发布报告失败')
+    }
+  }
+
+  /**
+   * 打开交付记录
+   * @param record 报告记录
+   */
+  const handleDelivery = (record: ReviewReportData) => {
+    setSelectedReport(record)
+    setDeliveryForm({
+      delivery_method: 'email',
+      recipient_name: '',
+      recipient_contact: '',
+      delivered: true,
+      remarks: '',
+    })
+    setDeliveryModalOpen(true)
+  }
+
+  /**
+   * 提交交付记录
+   */
+  const handleSubmitDelivery = async () => {
+    if (!selectedReport) return
+
+    try {
+      setSubmitting(true)
+      await ReportService.recordDelivery(selectedReport.id, {
+        delivery_method: deliveryForm.delivery_method,
+        recipient_name: deliveryForm.recipient_name || undefined,
+        recipient_contact: deliveryForm.recipient_contact || undefined,
+        delivery_status: deliveryForm.delivered ? 'delivered' : 'pending',
+        remarks: deliveryForm.remarks || undefined,
+      })
+      toast.success('交付记录已保存')
+      setDeliveryModalOpen(false)
+      await loadReports()
+    } catch (error) {
+      console.error('保存交付记录失败:', error)
+      toast.error('保存交付记录失败')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
   /**
    * 查看审核历史
    * @param record 报告记录
    */
-  const handleViewHistory = (record: ReviewReportData) => {
+  const handleViewHistory = async (record: ReviewReportData) => {
     setSelectedReport(record)
-    setReviewHistory(mockReviewHistory)
     setHistoryModalOpen(true)
+    try {
+      const audits = await ReportService.getAudits(record.id)
+      setReviewHistory([
+        {
+          id: 'submitted',
+          action: 'submitted',
+          reviewer: record.submittedBy,
+          timestamp: record.submittedAt,
+          comments: '提交报告审核',
+        },
+        ...audits.map(toReviewHistory),
+      ])
+    } catch (error) {
+      console.error('加载审核历史失败:', error)
+      toast.error('加载审核历史失败')
+    }
   }
 
   // 表格列配置
@@ -309,9 +371,9 @@ const ReportReview: React.FC = () => {
       ),
     },
     {
-      key: 'sampleNumber',
-      title: '样本编号',
-      dataIndex: 'sampleNumber',
+      key: 'submissionNumber',
+      title: '送检单号',
+      dataIndex: 'submissionNumber',
       width: 150,
     },
     {
@@ -321,24 +383,10 @@ const ReportReview: React.FC = () => {
       width: 200,
     },
     {
-      key: 'testItems',
-      title: '检测项目',
-      dataIndex: 'testItems',
+      key: 'title',
+      title: '报告标题',
+      dataIndex: 'title',
       width: 200,
-      render: (value: string[]) => (
-        <div className='space-y-1'>
-          {value?.slice(0, 2).map((item, index) => (
-            <Badge key={index} variant='outline' className='text-xs'>
-              {item}
-            </Badge>
-          ))}
-          {value?.length > 2 && (
-            <Badge variant='outline' className='text-xs'>
-              +{value.length - 2}项
-            </Badge>
-          )}
-        </div>
-      ),
     },
     {
       key: 'status',
@@ -368,21 +416,10 @@ const ReportReview: React.FC = () => {
       render: (value: string) => <span className='text-sm'>{value}</span>,
     },
     {
-      key: 'dueDate',
-      title: '截止日期',
-      dataIndex: 'dueDate',
-      width: 120,
-      render: (value: string) => {
-        const isOverdue = new Date(value) < new Date()
-        return (
-          <span
-            className={`text-sm ${isOverdue ? 'text-red-600 font-medium' : ''}`}
-          >
-            {value}
-            {isOverdue && <AlertTriangle className='h-3 w-3 inline ml-1' />}
-          </span>
-        )
-      },
+      key: 'reviewLevel',
+      title: '审核级别',
+      dataIndex: 'reviewLevel',
+      width: 100,
     },
     {
       key: 'actions',
@@ -421,6 +458,30 @@ const ReportReview: React.FC = () => {
             </>
           )}
 
+          {record.status === 'approved' && (
+            <Button
+              size='sm'
+              variant='outline'
+              onClick={() => handleRelease(record)}
+              className='h-8 px-2 text-blue-600 border-blue-200 hover:bg-blue-50'
+              title='发布报告'
+            >
+              <Send className='h-3 w-3' />
+            </Button>
+          )}
+
+          {record.status === 'released' && (
+            <Button
+              size='sm'
+              variant='outline'
+              onClick={() => handleDelivery(record)}
+              className='h-8 px-2'
+              title='记录交付'
+            >
+              <Truck className='h-3 w-3' />
+            </Button>
+          )}
+
           <Button
             size='sm'
             variant='outline'
@@ -505,7 +566,7 @@ const ReportReview: React.FC = () => {
             data={reports}
             loading={loading}
             searchable
-            searchPlaceholder='搜索报告编号、样本编号或客户名称...'
+            searchPlaceholder='搜索报告编号、送检单号或客户名称...'
             pagination={{
               current: 1,
               pageSize: 10,
@@ -539,9 +600,9 @@ const ReportReview: React.FC = () => {
                   </span>
                 </div>
                 <div>
-                  <span className='text-gray-500'>样本编号:</span>
+                  <span className='text-gray-500'>送检单号:</span>
                   <span className='ml-2 font-medium'>
-                    {selectedReport.sampleNumber}
+                    {selectedReport.submissionNumber}
                   </span>
                 </div>
                 <div>
@@ -606,6 +667,112 @@ const ReportReview: React.FC = () => {
         </div>
       </Modal>
 
+      {/* 交付记录模态框 */}
+      <Modal
+        open={deliveryModalOpen}
+        onClose={() => setDeliveryModalOpen(false)}
+        title='记录报告交付'
+        size='medium'
+      >
+        <div className='space-y-4'>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-2'>
+              交付方式 <span className='text-red-500'>*</span>
+            </label>
+            <select
+              value={deliveryForm.delivery_method}
+              onChange={e =>
+                setDeliveryForm(prev => ({
+                  ...prev,
+                  delivery_method: e.target.value as DeliveryMethod,
+                }))
+              }
+              className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+            >
+              {deliveryMethodOptions.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className='grid grid-cols-2 gap-4'>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-2'>
+                接收人
+              </label>
+              <input
+                value={deliveryForm.recipient_name}
+                onChange={e =>
+                  setDeliveryForm(prev => ({
+                    ...prev,
+                    recipient_name: e.target.value,
+                  }))
+                }
+                className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+              />
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-2'>
+                联系方式
+              </label>
+              <input
+                value={deliveryForm.recipient_contact}
+                onChange={e =>
+                  setDeliveryForm(prev => ({
+                    ...prev,
+                    recipient_contact: e.target.value,
+                  }))
+                }
+                className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+              />
+            </div>
+          </div>
+
+          <label className='flex items-center space-x-2 text-sm text-gray-700'>
+            <input
+              type='checkbox'
+              checked={deliveryForm.delivered}
+              onChange={e =>
+                setDeliveryForm(prev => ({
+                  ...prev,
+                  delivered: e.target.checked,
+                }))
+              }
+            />
+            <span>已交付给接收人</span>
+          </label>
+
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-2'>
+              备注
+            </label>
+            <textarea
+              value={deliveryForm.remarks}
+              onChange={e =>
+                setDeliveryForm(prev => ({ ...prev, remarks: e.target.value }))
+              }
+              rows={3}
+              className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none'
+            />
+          </div>
+
+          <div className='flex justify-end space-x-3 pt-4'>
+            <Button
+              variant='outline'
+              onClick={() => setDeliveryModalOpen(false)}
+              disabled={submitting}
+            >
+              取消
+            </Button>
+            <Button onClick={handleSubmitDelivery} disabled={submitting}>
+              {submitting ? '提交中...' : '保存'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* 审核历史模态框 */}
       <Modal
         open={historyModalOpen}
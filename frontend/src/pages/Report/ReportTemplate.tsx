@@ -1,11 +1,11 @@
 /**
  * 报告模板管理页面
- * 支持模板创建、编辑、删除和应用
+ * 支持章节模板编辑、占位符插入、实时预览及版本记录
  * @author Erikwang
  * @date 2025-08-20
  */
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import DataTable, {
   type TableColumn,
   type TableAction,
@@ -30,55 +30,39 @@ import {
   Settings,
   Save,
   X,
+  ArrowUp,
+  ArrowDown,
+  RefreshCw,
 } from 'lucide-react'
 import { toast } from 'sonner'
+import {
+  ReportTemplateService,
+  type ReportTemplateRecord,
+  type ReportTemplateVersion,
+  type StructuredTemplate,
+  type TemplateContentParams,
+  type TemplateFormat,
+  type TemplatePlaceholder,
+  type TemplateSection,
+  type TemplateSectionType,
+} from '../../services/reportTemplateService'
+import { ReportService, type Report } from '../../services/reportService'
 
 // 报告模板数据接口
 interface ReportTemplate {
   id: string
   name: string
   description: string
-  category: 'standard' | 'environmental' | 'food' | 'material' | 'custom'
+  category: string
+  format: TemplateFormat
   isDefault: boolean
   isActive: boolean
+  version: string
   createdAt: string
   updatedAt: string
-  createdBy: string
   usageCount: number
-  template: {
-    header: string
-    sections: TemplateSection[]
-    footer: string
-    styles: TemplateStyles
-  }
-}
-
-// 模板章节接口
-interface TemplateSection {
-  id: string
-  title: string
-  content: string
-  order: number
-  required: boolean
-  type: 'text' | 'table' | 'image' | 'chart'
-}
-
-// 模板样式接口
-interface TemplateStyles {
-  fontSize: number
-  fontFamily: string
-  lineHeight: number
-  margins: {
-    top: number
-    right: number
-    bottom: number
-    left: number
-  }
-  colors: {
-    primary: string
-    secondary: string
-    text: string
-  }
+  template: StructuredTemplate
+  html: string
 }
 
 // 模板分类配置
@@ -93,6 +77,24 @@ const categoryConfig = {
   custom: { label: '自定义', className: 'bg-gray-100 text-gray-800' },
 }
 
+// 结果表格默认列
+const defaultResultColumns = [
+  'sample_no',
+  'item_name',
+  'result',
+  'abnormal_flag',
+  'unit',
+  'reference_range',
+]
+
+// 章节类型名称
+const sectionTypeText: Record<TemplateSectionType, string> = {
+  text: '文本',
+  table: '结果表格',
+  image: '图片',
+  chart: '结果图表',
+}
+
 /**
  * 获取分类徽章
  * @param category 分类
@@ -100,194 +102,94 @@ const categoryConfig = {
  */
 const getCategoryBadge = (category: string) => {
   const config = categoryConfig[category as keyof typeof categoryConfig] || {
-    label: '未知',
+    label: category || '未知',
     className: 'bg-gray-100 text-gray-800',
   }
   return <Badge className={config.className}>{config.label}</Badge>
 }
 
 /**
- * 模拟模板数据
+ * 新建模板的默认内容
  */
-const mockTemplates: ReportTemplate[] = [
-  {
-    id: '1',
-    name: '标准检测报告模板',
-    description: '适用于常规检测项目的标准报告模板',
-    category: 'standard',
-    isDefault: true,
-    isActive: true,
-    createdAt: '2025-01-15 10:00:00',
-    updatedAt: '2025-01-20 14:30:00',
-    createdBy: '系统管理员',
-    usageCount: 25,
-    template: {
-      header: '检测报告',
-      sections: [
-        {
-          id: '1',
-          title: '检测概述',
-          content:
-            '本次检测针对{客户名称}送检的{样本类型}进行{检测项目}检测...',
-          order: 1,
-          required: true,
-          type: 'text',
-        },
-        {
-          id: '2',
-          title: '检测方法',
-          content: '采用{检测方法}进行检测，符合{标准编号}要求...',
-          order: 2,
-          required: true,
-          type: 'text',
-        },
-        {
-          id: '3',
-          title: '检测结果',
-          content: '检测结果表格',
-          order: 3,
-          required: true,
-          type: 'table',
-        },
-        {
-          id: '4',
-          title: '结论',
-          content: '根据检测结果，{结论内容}...',
-          order: 4,
-          required: true,
-          type: 'text',
-        },
-      ],
-      footer: '本报告仅对送检样本负责',
-      styles: {
-        fontSize: 12,
-        fontFamily: 'SimSun',
-        lineHeight: 1.5,
-        margins: { top: 20, right: 20, bottom: 20, left: 20 },
-        colors: { primary: '#1f2937', secondary: '#6b7280', text: '#374151' },
-      },
+const createDefaultTemplate = (): StructuredTemplate => ({
+  header: '{{report.title}}',
+  sections: [
+    {
+      id: 'overview',
+      title: '检测概述',
+      content:
+        '本次检测针对{{client_unit.name}}送检的{{sample.type}}样本（{{sample.sample_no}}）进行检测。',
+      order: 1,
+      required: true,
+      type: 'text',
     },
-  },
-  {
-    id: '2',
-    name: '环境检测报告模板',
-    description: '专用于环境监测项目的报告模板',
-    category: 'environmental',
-    isDefault: false,
-    isActive: true,
-    createdAt: '2025-01-16 09:30:00',
-    updatedAt: '2025-01-18 16:45:00',
-    createdBy: '张三',
-    usageCount: 12,
-    template: {
-      header: '环境检测报告',
-      sections: [
-        {
-          id: '1',
-          title: '监测概况',
-          content: '本次环境监测针对{监测点位}进行{监测项目}监测...',
-          order: 1,
-          required: true,
-          type: 'text',
-        },
-        {
-          id: '2',
-          title: '监测方法',
-          content: '按照{环境标准}执行监测...',
-          order: 2,
-          required: true,
-          type: 'text',
-        },
-        {
-          id: '3',
-          title: '监测结果',
-          content: '监测数据表格',
-          order: 3,
-          required: true,
-          type: 'table',
-        },
-        {
-          id: '4',
-          title: '评价结论',
-          content: '根据监测结果，环境质量{评价结论}...',
-          order: 4,
-          required: true,
-          type: 'text',
-        },
-      ],
-      footer: '本报告仅对监测时段和监测点位负责',
-      styles: {
-        fontSize: 12,
-        fontFamily: 'SimSun',
-        lineHeight: 1.5,
-        margins: { top: 25, right: 25, bottom: 25, left: 25 },
-        colors: { primary: '#059669', secondary: '#10b981', text: '#374151' },
-      },
+    {
+      id: 'results',
+      title: '检测结果',
+      content: '',
+      order: 2,
+      required: true,
+      type: 'table',
     },
-  },
-  {
-    id: '3',
-    name: '食品检测报告模板',
-    description: '适用于食品安全检测的专用模板',
-    category: 'food',
-    isDefault: false,
-    isActive: true,
-    createdAt: '2025-01-17 11:15:00',
-    updatedAt: '2025-01-19 13:20:00',
-    createdBy: '李四',
-    usageCount: 8,
-    template: {
-      header: '食品检测报告',
-      sections: [
-        {
-          id: '1',
-          title: '样品信息',
-          content:
-            '样品名称：{样品名称}\n生产日期：{生产日期}\n保质期：{保质期}...',
-          order: 1,
-          required: true,
-          type: 'text',
-        },
-        {
-          id: '2',
-          title: '检测项目',
-          content: '按照{食品标准}进行{检测项目}检测...',
-          order: 2,
-          required: true,
-          type: 'text',
-        },
-        {
-          id: '3',
-          title: '检测结果',
-          content: '食品检测数据表格',
-          order: 3,
-          required: true,
-          type: 'table',
-        },
-        {
-          id: '4',
-          title: '安全评价',
-          content: '根据检测结果，该食品{安全评价}...',
-          order: 4,
-          required: true,
-          type: 'text',
-        },
-      ],
-      footer: '本报告仅对送检样品负责，不代表整批产品质量',
-      styles: {
-        fontSize: 12,
-        fontFamily: 'SimSun',
-        lineHeight: 1.5,
-        margins: { top: 20, right: 20, bottom: 20, left: 20 },
-        colors: { primary: '#dc2626', secondary: '#ef4444', text: '#374151' },
-      },
+    {
+      id: 'conclusion',
+      title: '结论',
+      content: '{{report.conclusion}}',
+      order: 3,
+      required: true,
+      type: 'text',
     },
+  ],
+  footer: '本报告仅对送检样本负责',
+  styles: {
+    fontSize: 12,
+    fontFamily: 'SimSun',
+    lineHeight: 1.5,
+    margins: { top: 20, right: 20, bottom: 20, left: 20 },
+    colors: { primary: '#1f2937', secondary: '#6b7280', text: '#374151' },
   },
-]
+})
+
+/**
+ * 将API模板数据转换为页面展示数据
+ * @param record API模板数据
+ * @returns 页面模板数据
+ */
+const toReportTemplate = (record: ReportTemplateRecord): ReportTemplate => {
+  const structured =
+    record.template_format === 'sections' &&
+    typeof record.template_content === 'object'
+      ? record.template_content
+      : null
+
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description || '',
+    category: record.category,
+    format: record.template_format === 'sections' ? 'sections' : 'html',
+    isDefault: record.is_default,
+    isActive: record.is_active,
+    version: record.version,
+    createdAt: new Date(record.created_at).toLocaleString('zh-CN'),
+    updatedAt: new Date(record.updated_at).toLocaleString('zh-CN'),
+    usageCount: record.usage_count || 0,
+    template: structured
+      ? {
+          ...createDefaultTemplate(),
+          ...structured,
+          sections: [...structured.sections].sort((a, b) => a.order - b.order),
+        }
+      : createDefaultTemplate(),
+    html:
+      typeof record.template_content === 'string' ? record.template_content : '',
+  }
+}
 
 const ReportTemplate: React.FC = () => {
   const [templates, setTemplates] = useState<ReportTemplate[]>([])
   const [loading, setLoading] = useState(true)
+  const [searchText, setSearchText] = useState('')
   const [stats, setStats] = useState({
     total: 0,
     active: 0,
@@ -303,10 +205,25 @@ const ReportTemplate: React.FC = () => {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    category: 'standard' as ReportTemplate['category'],
+    category: 'standard',
     isDefault: false,
     isActive: true,
   })
+  const [format, setFormat] = useState<TemplateFormat>('sections')
+  const [templateData, setTemplateData] = useState<StructuredTemplate>(
+    createDefaultTemplate()
+  )
+  const [htmlContent, setHtmlContent] = useState('')
+  const [activeSectionId, setActiveSectionId] = useState<string | null>(null)
+  const [placeholders, setPlaceholders] = useState<TemplatePlaceholder[]>([])
+  const [resultColumns, setResultColumns] = useState<
+    { key: string; label: string }[]
+  >([])
+  const [versions, setVersions] = useState<ReportTemplateVersion[]>([])
+  const [previewReports, setPreviewReports] = useState<Report[]>([])
+  const [previewReportId, setPreviewReportId] = useState('')
+  const [previewHtml, setPreviewHtml] = useState('')
+  const [previewing, setPreviewing] = useState(false)
   const [saving, setSaving] = useState(false)
 
   /**
@@ -315,16 +232,16 @@ const ReportTemplate: React.FC = () => {
   const loadTemplates = async () => {
     try {
       setLoading(true)
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      setTemplates(mockTemplates)
+      const response = await ReportTemplateService.getTemplates({ limit: 100 })
+      const list = response.data.map(toReportTemplate)
+      setTemplates(list)
 
       // 计算统计数据
       const newStats = {
-        total: mockTemplates.length,
-        active: mockTemplates.filter(t => t.isActive).length,
-        inactive: mockTemplates.filter(t => !t.isActive).length,
-        default: mockTemplates.filter(t => t.isDefault).length,
+        total: list.length,
+        active: list.filter(t => t.isActive).length,
+        inactive: list.filter(t => !t.isActive).length,
+        default: list.filter(t => t.isDefault).length,
       }
       setStats(newStats)
     } catch (error) {
@@ -336,19 +253,64 @@ const ReportTemplate: React.FC = () => {
   }
 
   /**
-   * 打开创建模板模态框
+   * 加载编辑器辅助数据（占位符及可用于预览的报告）
    */
-  const handleCreate = () => {
-    setSelectedTemplate(null)
+  const loadEditorOptions = async () => {
+    try {
+      const [placeholderData, reports] = await Promise.all([
+        ReportTemplateService.getPlaceholders(),
+        ReportService.getReports({ limit: 20 }),
+      ])
+      setPlaceholders(placeholderData.placeholders)
+      setResultColumns(placeholderData.result_columns)
+      setPreviewReports(reports.data)
+    } catch (error) {
+      console.error('加载模板编辑选项失败:', error)
+    }
+  }
+
+  /**
+   * 打开模板模态框并初始化编辑内容
+   * @param mode 模态框模式
+   * @param record 模板记录，新建时为空
+   * @param copy 是否复制为新模板
+   */
+  const openModal = (
+    mode: 'create' | 'edit' | 'view',
+    record: ReportTemplate | null,
+    copy = false
+  ) => {
+    setSelectedTemplate(copy ? null : record)
     setFormData({
-      name: '',
-      description: '',
-      category: 'standard',
-      isDefault: false,
-      isActive: true,
+      name: record ? (copy ? `${record.name} - 副本` : record.name) : '',
+      description: record?.description || '',
+      category: record?.category || 'standard',
+      isDefault: copy ? false : record?.isDefault || false,
+      isActive: copy ? true : record?.isActive ?? true,
     })
-    setModalMode('create')
+    setFormat(record?.format || 'sections')
+    setTemplateData(
+      record ? JSON.parse(JSON.stringify(record.template)) : createDefaultTemplate()
+    )
+    setHtmlContent(record?.html || '')
+    setActiveSectionId(null)
+    setPreviewHtml('')
+    setVersions([])
+    setModalMode(mode)
     setModalOpen(true)
+
+    if (record && !copy) {
+      ReportTemplateService.getVersions(record.id)
+        .then(setVersions)
+        .catch(error => console.error('加载模板历史版本失败:', error))
+    }
+  }
+
+  /**
+   * 打开创建模板模态框
+   */
+  const handleCreate = () => {
+    openModal('create', null)
   }
 
   /**
@@ -356,16 +318,7 @@ const ReportTemplate: React.FC = () => {
    * @param record 模板记录
    */
   const handleEdit = (record: ReportTemplate) => {
-    setSelectedTemplate(record)
-    setFormData({
-      name: record.name,
-      description: record.description,
-      category: record.category,
-      isDefault: record.isDefault,
-      isActive: record.isActive,
-    })
-    setModalMode('edit')
-    setModalOpen(true)
+    openModal('edit', record)
   }
 
   /**
@@ -373,9 +326,7 @@ const ReportTemplate: React.FC = () => {
    * @param record 模板记录
    */
   const handleView = (record: ReportTemplate) => {
-    setSelectedTemplate(record)
-    setModalMode('view')
-    setModalOpen(true)
+    openModal('view', record)
   }
 
   /**
@@ -383,16 +334,7 @@ const ReportTemplate: React.FC = () => {
    * @param record 模板记录
    */
   const handleCopy = (record: ReportTemplate) => {
-    setSelectedTemplate(record)
-    setFormData({
-      name: `${record.name} - 副本`,
-      description: record.description,
-      category: record.category,
-      isDefault: false,
-      isActive: true,
-    })
-    setModalMode('create')
-    setModalOpen(true)
+    openModal('create', record, true)
   }
 
   /**
@@ -411,10 +353,9 @@ const ReportTemplate: React.FC = () => {
     }
 
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      setTemplates(prev => prev.filter(t => t.id !== record.id))
+      await ReportTemplateService.deleteTemplate(record.id)
       toast.success('模板删除成功')
+      loadTemplates()
     } catch (error) {
       console.error('删除模板失败:', error)
       toast.error('删除模板失败')
@@ -427,15 +368,9 @@ const ReportTemplate: React.FC = () => {
    */
   const handleSetDefault = async (record: ReportTemplate) => {
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      setTemplates(prev =>
-        prev.map(t => ({
-          ...t,
-          isDefault: t.id === record.id,
-        }))
-      )
+      await ReportTemplateService.setDefault(record.id)
       toast.success('默认模板设置成功')
+      loadTemplates()
     } catch (error) {
       console.error('设置默认模板失败:', error)
       toast.error('设置默认模板失败')
@@ -453,20 +388,155 @@ const ReportTemplate: React.FC = () => {
     }
 
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      setTemplates(prev =>
-        prev.map(t =>
-          t.id === record.id ? { ...t, isActive: !t.isActive } : t
-        )
-      )
+      await ReportTemplateService.toggleStatus(record.id)
       toast.success(`模板${record.isActive ? '禁用' : '启用'}成功`)
+      loadTemplates()
     } catch (error) {
       console.error('切换模板状态失败:', error)
       toast.error('切换模板状态失败')
     }
   }
 
+  /**
+   * 获取当前编辑的模板内容参数
+   * @returns 模板内容参数
+   */
+  const getContentParams = useCallback(
+    (): TemplateContentParams =>
+      format === 'sections'
+        ? {
+            template_format: 'sections',
+            template_content: {
+              ...templateData,
+              sections: templateData.sections.map((section, index) => ({
+                ...section,
+                order: index + 1,
+              })),
+            },
+          }
+        : { template_format: 'html', template_content: htmlContent },
+    [format, templateData, htmlContent]
+  )
+
+  /**
+   * 更新章节
+   * @param id 章节ID
+   * @param changes 修改内容
+   */
+  const updateSection = (id: string, changes: Partial<TemplateSection>) => {
+    setTemplateData(prev => ({
+      ...prev,
+      sections: prev.sections.map(section =>
+        section.id === id ? { ...section, ...changes } : section
+      ),
+    }))
+  }
+
+  /**
+   * 新增章节
+   * @param type 章节类型
+   */
+  const addSection = (type: TemplateSectionType) => {
+    const id = `section_${Date.now()}`
+    setTemplateData(prev => ({
+      ...prev,
+      sections: [
+        ...prev.sections,
+        {
+          id,
+          title: sectionTypeText[type],
+          content: '',
+          order: prev.sections.length + 1,
+          required: false,
+          type,
+        },
+      ],
+    }))
+    setActiveSectionId(id)
+  }
+
+  /**
+   * 移动章节
+   * @param index 章节位置
+   * @param offset 移动方向，-1上移，1下移
+   */
+  const moveSection = (index: number, offset: number) => {
+    setTemplateData(prev => {
+      const target = index + offset
+      if (target < 0 || target >= prev.sections.length) {
+        return prev
+      }
+      const sections = [...prev.sections]
+      ;[sections[index], sections[target]] = [sections[target], sections[index]]
+      return { ...prev, sections }
+    })
+  }
+
+  /**
+   * 删除章节
+   * @param section 章节
+   */
+  const removeSection = (section: TemplateSection) => {
+    if (section.required) {
+      toast.error('必需章节不能删除')
+      return
+    }
+    setTemplateData(prev => ({
+      ...prev,
+      sections: prev.sections.filter(item => item.id !== section.id),
+    }))
+  }
+
+  /**
+   * 插入占位符
+   * @description 插入到当前选中的章节，HTML模板插入到内容末尾
+   * @param key 占位符
+   */
+  const insertPlaceholder = (key: string) => {
+    const token = `{{${key}}}`
+    if (format === 'html') {
+      setHtmlContent(prev => `${prev}${token}`)
+      return
+    }
+
+    const section = templateData.sections.find(
+      item => item.id === activeSectionId
+    )
+    if (!section || section.type !== 'text') {
+      toast.error('请先选择一个文本章节')
+      return
+    }
+    updateSection(section.id, { content: `${section.content}${token}` })
+  }
+
+  /**
+   * 刷新预览
+   * @param reportId 用于填充数据的报告ID
+   */
+  const refreshPreview = useCallback(
+    async (reportId = previewReportId) => {
+      if (!reportId) {
+        return
+      }
+
+      try {
+        setPreviewing(true)
+        const html = await ReportTemplateService.preview(
+          reportId,
+          selectedTemplate?.id,
+          getContentParams()
+        )
+        setPreviewHtml(html)
+      } catch (error) {
+        console.error('模板预览失败:', error)
+        toast.error('模板预览失败，请检查模板内容')
+      } finally {
+        setPreviewing(false)
+      }
+    },
+    [previewReportId, selectedTemplate?.id, getContentParams]
+  )
+
   /**
    * 保存模板
    */
@@ -476,54 +546,49 @@ const ReportTemplate: React.FC = () => {
       return
     }
 
+    if (format === 'sections' && templateData.sections.length === 0) {
+      toast.error('模板至少需要一个章节')
+      return
+    }
+
+    if (format === 'html' && !htmlContent.trim()) {
+      toast.error('请输入模板内容')
+      return
+    }
+
     try {
       setSaving(true)
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1500))
-
-      if (modalMode === 'create') {
-        const newTemplate: ReportTemplate = {
-          id: Date.now().toString(),
-          ...formData,
-          createdAt: new Date().toLocaleString('zh-CN'),
-          updatedAt: new Date().toLocaleString('zh-CN'),
-          createdBy: '当前用户',
-          usageCount: 0,
-          template: selectedTemplate?.template || {
-            header: '检测报告',
-            sections: [],
-            footer: '本报告仅对送检样本负责',
-            styles: {
-              fontSize: 12,
-              fontFamily: 'SimSun',
-              lineHeight: 1.5,
-              margins: { top: 20, right: 20, bottom: 20, left: 20 },
-              colors: {
-                primary: '#1f2937',
-                secondary: '#6b7280',
-                text: '#374151',
-              },
-            },
-          },
+      const info = {
+        name: formData.name.trim(),
+        description: formData.description,
+        category: formData.category,
+      }
+
+      let saved: ReportTemplateRecord
+      if (modalMode === 'edit' && selectedTemplate) {
+        saved = await ReportTemplateService.updateTemplate(selectedTemplate.id, {
+          ...info,
+          ...getContentParams(),
+        })
+        if (formData.isActive !== selectedTemplate.isActive) {
+          saved = await ReportTemplateService.toggleStatus(saved.id)
         }
-        setTemplates(prev => [...prev, newTemplate])
+        toast.success(`模板更新成功（版本 ${saved.version}）`)
+      } else {
+        saved = await ReportTemplateService.createTemplate({
+          ...info,
+          ...getContentParams(),
+          is_active: formData.isActive,
+        })
         toast.success('模板创建成功')
-      } else if (modalMode === 'edit' && selectedTemplate) {
-        setTemplates(prev =>
-          prev.map(t =>
-            t.id === selectedTemplate.id
-              ? {
-                  ...t,
-                  ...formData,
-                  updatedAt: new Date().toLocaleString('zh-CN'),
-                }
-              : t
-          )
-        )
-        toast.success('模板更新成功')
+      }
+
+      if (formData.isDefault && !saved.is_default) {
+        await ReportTemplateService.setDefault(saved.id)
       }
 
       setModalOpen(false)
+      loadTemplates()
     } catch (error) {
       console.error('保存模板失败:', error)
       toast.error('保存模板失败')
@@ -586,10 +651,11 @@ const ReportTemplate: React.FC = () => {
       ),
     },
     {
-      key: 'createdBy',
-      title: '创建人',
-      dataIndex: 'createdBy',
-      width: 100,
+      key: 'version',
+      title: '版本',
+      dataIndex: 'version',
+      width: 80,
+      render: (value: string) => <span className='text-sm'>v{value}</span>,
     },
     {
       key: 'updatedAt',
@@ -684,8 +750,26 @@ const ReportTemplate: React.FC = () => {
 
   useEffect(() => {
     loadTemplates()
+    loadEditorOptions()
   }, [])
 
+  // 编辑内容变化后自动刷新预览
+  useEffect(() => {
+    if (!modalOpen || !previewReportId) {
+      return
+    }
+    const timer = setTimeout(() => refreshPreview(), 800)
+    return () => clearTimeout(timer)
+  }, [refreshPreview, previewReportId, modalOpen])
+
+  // 按名称或描述过滤
+  const filteredTemplates = templates.filter(
+    t =>
+      !searchText ||
+      t.name.includes(searchText) ||
+      t.description.includes(searchText)
+  )
+
   return (
     <div className='space-y-6'>
       {/* 页面标题 */}
@@ -750,7 +834,7 @@ const ReportTemplate: React.FC = () => {
         <CardContent className='p-0'>
           <DataTable
             columns={columns}
-            data={templates}
+            data={filteredTemplates}
             loading={loading}
             actions={actions}
             searchable
@@ -758,13 +842,11 @@ const ReportTemplate: React.FC = () => {
             pagination={{
               current: 1,
               pageSize: 10,
-              total: templates.length,
+              total: filteredTemplates.length,
               showSizeChanger: true,
               showQuickJumper: true,
             }}
-            onSearch={value => {
-              console.log('搜索:', value)
-            }}
+            onSearch={setSearchText}
           />
         </CardContent>
       </Card>
@@ -777,13 +859,13 @@ const ReportTemplate: React.FC = () => {
           modalMode === 'create'
             ? '新建模板'
             : modalMode === 'edit'
-              ? '编辑模板'
-              : '查看模板'
+              ? `编辑模板（当前版本 v${selectedTemplate?.version}）`
+              : `查看模板（v${selectedTemplate?.version}）`
         }
-        size='lg'
+        size='xl'
       >
         <div className='space-y-4'>
-          <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+          <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
             <div>
               <label className='block text-sm font-medium text-gray-700 mb-1'>
                 模板名称 <span className='text-red-500'>*</span>
@@ -807,12 +889,15 @@ const ReportTemplate: React.FC = () => {
                 onChange={e =>
                   setFormData(prev => ({
                     ...prev,
-                    category: e.target.value as ReportTemplate['category'],
+                    category: e.target.value,
                   }))
                 }
                 disabled={modalMode === 'view'}
                 className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
               >
+                {!(formData.category in categoryConfig) && (
+                  <option value={formData.category}>{formData.category}</option>
+                )}
                 <option value='standard'>标准模板</option>
                 <option value='environmental'>环境检测</option>
                 <option value='food'>食品检测</option>
@@ -820,6 +905,21 @@ const ReportTemplate: React.FC = () => {
                 <option value='custom'>自定义</option>
               </select>
             </div>
+
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                模板格式
+              </label>
+              <select
+                value={format}
+                onChange={e => setFormat(e.target.value as TemplateFormat)}
+                disabled={modalMode === 'view'}
+                className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+              >
+                <option value='sections'>章节模板</option>
+                <option value='html'>HTML模板</option>
+              </select>
+            </div>
           </div>
 
           <div>
@@ -831,7 +931,7 @@ const ReportTemplate: React.FC = () => {
               onChange={e =>
                 setFormData(prev => ({ ...prev, description: e.target.value }))
               }
-              rows={3}
+              rows={2}
               className='w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none'
               placeholder='请输入模板描述'
               disabled={modalMode === 'view'}
@@ -849,7 +949,7 @@ const ReportTemplate: React.FC = () => {
                     isDefault: e.target.checked,
                   }))
                 }
-                disabled={modalMode === 'view'}
+                disabled={modalMode === 'view' || selectedTemplate?.isDefault}
                 className='mr-2'
               />
               <span className='text-sm text-gray-700'>设为默认模板</span>
@@ -862,13 +962,402 @@ const ReportTemplate: React.FC = () => {
                 onChange={e =>
                   setFormData(prev => ({ ...prev, isActive: e.target.checked }))
                 }
-                disabled={modalMode === 'view'}
+                disabled={modalMode === 'view' || selectedTemplate?.isDefault}
                 className='mr-2'
               />
               <span className='text-sm text-gray-700'>启用模板</span>
             </label>
           </div>
 
+          <div className='grid grid-cols-1 lg:grid-cols-2 gap-4'>
+            {/* 模板内容编辑 */}
+            <div className='space-y-3'>
+              {format === 'sections' ? (
+                <>
+                  <div>
+                    <label className='block text-sm font-medium text-gray-700 mb-1'>
+                      报告标题
+                    </label>
+                    <Input
+                      value={templateData.header}
+                      onChange={e =>
+                        setTemplateData(prev => ({
+                          ...prev,
+                          header: e.target.value,
+                        }))
+                      }
+                      disabled={modalMode === 'view'}
+                    />
+                  </div>
+
+                  {templateData.sections.map((section, index) => (
+                    <div
+                      key={section.id}
+                      onClick={() => setActiveSectionId(section.id)}
+                      className={`border rounded-md p-3 space-y-2 ${
+                        activeSectionId === section.id
+                          ? 'border-blue-400'
+                          : 'border-gray-200'
+                      }`}
+                    >
+                      <div className='flex items-center space-x-2'>
+                        <Input
+                          value={section.title}
+                          onChange={e =>
+                            updateSection(section.id, { title: e.target.value })
+                          }
+                          placeholder='章节标题'
+                          disabled={modalMode === 'view'}
+                        />
+                        <select
+                          value={section.type}
+                          onChange={e =>
+                            updateSection(section.id, {
+                              type: e.target.value as TemplateSectionType,
+                            })
+                          }
+                          disabled={modalMode === 'view'}
+                          className='px-2 py-2 border border-gray-300 rounded-md text-sm'
+                        >
+                          {Object.entries(sectionTypeText).map(
+                            ([value, label]) => (
+                              <option key={value} value={value}>
+                                {label}
+                              </option>
+                            )
+                          )}
+                        </select>
+                        {modalMode !== 'view' && (
+                          <>
+                            <Button
+                              size='sm'
+                              variant='outline'
+                              onClick={() => moveSection(index, -1)}
+                              className='h-8 px-2'
+                            >
+                              <ArrowUp className='h-3 w-3' />
+                            </Button>
+                            <Button
+                              size='sm'
+                              variant='outline'
+                              onClick={() => moveSection(index, 1)}
+                              className='h-8 px-2'
+                            >
+                              <ArrowDown className='h-3 w-3' />
+                            </Button>
+                            <Button
+                              size='sm'
+                              variant='outline'
+                              onClick={() => removeSection(section)}
+                              className='h-8 px-2 text-red-600 border-red-200 hover:bg-red-50'
+                            >
+                              <Trash2 className='h-3 w-3' />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+
+                      {section.type === 'text' && (
+                        <textarea
+                          value={section.content}
+                          onChange={e =>
+                            updateSection(section.id, {
+                              content: e.target.value,
+                            })
+                          }
+                          rows={3}
+                          className='w-full px-3 py-2 border border-gray-300 rounded-md text-sm resize-none'
+                          placeholder='章节内容，可插入占位符'
+                          disabled={modalMode === 'view'}
+                        />
+                      )}
+
+                      {section.type === 'image' && (
+                        <Input
+                          value={section.content}
+                          onChange={e =>
+                            updateSection(section.id, {
+                              content: e.target.value,
+                            })
+                          }
+                          placeholder='图片地址（http(s)或data:image）'
+                          disabled={modalMode === 'view'}
+                        />
+                      )}
+
+                      {section.type === 'table' && (
+                        <div className='flex flex-wrap gap-3'>
+                          {resultColumns.map(column => (
+                            <label
+                              key={column.key}
+                              className='flex items-center text-sm text-gray-700'
+                            >
+                              <input
+                                type='checkbox'
+                                checked={
+                                  section.columns
+                                    ? section.columns.includes(column.key)
+                                    : defaultResultColumns.includes(column.key)
+                                }
+                                onChange={e => {
+                                  const current =
+                                    section.columns || defaultResultColumns
+                                  updateSection(section.id, {
+                                    columns: e.target.checked
+                                      ? resultColumns
+                                          .map(item => item.key)
+                                          .filter(
+                                            key =>
+                                              current.includes(key) ||
+                                              key === column.key
+                                          )
+                                      : current.filter(
+                                          key => key !== column.key
+                                        ),
+                                  })
+                                }}
+                                disabled={modalMode === 'view'}
+                                className='mr-1'
+                              />
+                              {column.label}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+
+                      {section.type === 'chart' && (
+                        <p className='text-xs text-gray-500'>
+                          以条形图展示数值型检测结果，异常结果标红
+                        </p>
+                      )}
+
+                      <label className='flex items-center text-sm text-gray-700'>
+                        <input
+                          type='checkbox'
+                          checked={section.required}
+                          onChange={e =>
+                            updateSection(section.id, {
+                              required: e.target.checked,
+                            })
+                          }
+                          disabled={modalMode === 'view'}
+                          className='mr-2'
+                        />
+                        必需章节
+                      </label>
+                    </div>
+                  ))}
+
+                  {modalMode !== 'view' && (
+                    <div className='flex flex-wrap gap-2'>
+                      {(
+                        Object.keys(sectionTypeText) as TemplateSectionType[]
+                      ).map(type => (
+                        <Button
+                          key={type}
+                          size='sm'
+                          variant='outline'
+                          onClick={() => addSection(type)}
+                        >
+                          <Plus className='h-3 w-3 mr-1' />
+                          {sectionTypeText[type]}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+
+                  <div>
+                    <label className='block text-sm font-medium text-gray-700 mb-1'>
+                      页脚
+                    </label>
+                    <Input
+                      value={templateData.footer}
+                      onChange={e =>
+                        setTemplateData(prev => ({
+                          ...prev,
+                          footer: e.target.value,
+                        }))
+                      }
+                      disabled={modalMode === 'view'}
+                    />
+                  </div>
+
+                  <div className='grid grid-cols-2 md:grid-cols-4 gap-2'>
+                    <div>
+                      <label className='block text-xs text-gray-600 mb-1'>
+                        字号
+                      </label>
+                      <Input
+                        type='number'
+                        value={templateData.styles.fontSize}
+                        onChange={e =>
+                          setTemplateData(prev => ({
+                            ...prev,
+                            styles: {
+                              ...prev.styles,
+                              fontSize: Number(e.target.value) || 12,
+                            },
+                          }))
+                        }
+                        disabled={modalMode === 'view'}
+                      />
+                    </div>
+                    <div>
+                      <label className='block text-xs text-gray-600 mb-1'>
+                        字体
+                      </label>
+                      <Input
+                        value={templateData.styles.fontFamily}
+                        onChange={e =>
+                          setTemplateData(prev => ({
+                            ...prev,
+                            styles: {
+                              ...prev.styles,
+                              fontFamily: e.target.value,
+                            },
+                          }))
+                        }
+                        disabled={modalMode === 'view'}
+                      />
+                    </div>
+                    <div>
+                      <label className='block text-xs text-gray-600 mb-1'>
+                        行高
+                      </label>
+                      <Input
+                        type='number'
+                        step='0.1'
+                        value={templateData.styles.lineHeight}
+                        onChange={e =>
+                          setTemplateData(prev => ({
+                            ...prev,
+                            styles: {
+                              ...prev.styles,
+                              lineHeight: Number(e.target.value) || 1.5,
+                            },
+                          }))
+                        }
+                        disabled={modalMode === 'view'}
+                      />
+                    </div>
+                    <div>
+                      <label className='block text-xs text-gray-600 mb-1'>
+                        主色
+                      </label>
+                      <input
+                        type='color'
+                        value={templateData.styles.colors.primary}
+                        onChange={e =>
+                          setTemplateData(prev => ({
+                            ...prev,
+                            styles: {
+                              ...prev.styles,
+                              colors: {
+                                ...prev.styles.colors,
+                                primary: e.target.value,
+                              },
+                            },
+                          }))
+                        }
+                        disabled={modalMode === 'view'}
+                        className='h-9 w-full'
+                      />
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <textarea
+                  value={htmlContent}
+                  onChange={e => setHtmlContent(e.target.value)}
+                  rows={18}
+                  className='w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs'
+                  placeholder='HTML模板内容，可插入占位符'
+                  disabled={modalMode === 'view'}
+                />
+              )}
+
+              {modalMode !== 'view' && (
+                <div>
+                  <label className='block text-sm font-medium text-gray-700 mb-1'>
+                    插入占位符
+                  </label>
+                  <div className='flex flex-wrap gap-1'>
+                    {placeholders.map(placeholder => (
+                      <button
+                        key={placeholder.key}
+                        type='button'
+                        title={`{{${placeholder.key}}}`}
+                        onClick={() => insertPlaceholder(placeholder.key)}
+                        className='px-2 py-0.5 text-xs rounded bg-gray-100 hover:bg-blue-100'
+                      >
+                        {placeholder.group}·{placeholder.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* 实时预览 */}
+            <div className='space-y-2'>
+              <div className='flex items-center space-x-2'>
+                <select
+                  value={previewReportId}
+                  onChange={e => setPreviewReportId(e.target.value)}
+                  className='flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm'
+                >
+                  <option value=''>选择报告数据进行预览</option>
+                  {previewReports.map(report => (
+                    <option key={report.id} value={report.id}>
+                      {report.report_no} - {report.title}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={() => refreshPreview()}
+                  disabled={!previewReportId || previewing}
+                >
+                  <RefreshCw
+                    className={`h-3 w-3 ${previewing ? 'animate-spin' : ''}`}
+                  />
+                </Button>
+              </div>
+              {previewHtml ? (
+                <iframe
+                  title='模板预览'
+                  srcDoc={previewHtml}
+                  sandbox=''
+                  className='w-full h-[560px] border border-gray-200 rounded-md bg-white'
+                />
+              ) : (
+                <div className='h-[560px] flex items-center justify-center border border-dashed border-gray-300 rounded-md text-sm text-gray-500'>
+                  选择报告后显示预览
+                </div>
+              )}
+
+              {versions.length > 0 && (
+                <div>
+                  <label className='block text-sm font-medium text-gray-700 mb-1'>
+                    历史版本
+                  </label>
+                  <ul className='text-sm text-gray-600 space-y-1'>
+                    {versions.map(version => (
+                      <li key={version.id}>
+                        v{version.version}（
+                        {version.template_format === 'sections'
+                          ? '章节模板'
+                          : 'HTML模板'}
+                        ）{new Date(version.created_at).toLocaleString('zh-CN')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+
           {modalMode !== 'view' && (
             <div className='flex justify-end space-x-3 pt-4'>
               <Button
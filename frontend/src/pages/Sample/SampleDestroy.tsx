@@ -1,11 +1,11 @@
 /**
  * 样本销毁页面
- * 样本销毁管理功能页面 - 列表样式展示可销毁样本
+ * 列出到期待销毁样本，编制销毁批次并经主管审批后执行，下载销毁证明
  * @author Erikwang
  * @date 2025-08-20
  */
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import {
   ArrowLeft,
@@ -15,186 +15,196 @@ import {
   AlertTriangle,
   Calendar,
   Package,
+  ShieldCheck,
+  FileText,
+  Lock,
+  RefreshCw,
 } from 'lucide-react'
 import DataTable from '../../components/DataTable'
+import Modal from '../../components/Modal'
 import { toast } from 'sonner'
+import { useAuthStore } from '../../stores/auth'
+import {
+  SampleDestructionService,
+  type DueSample,
+  type DestructionBatch,
+  type DestructionBatchStatus,
+  type SampleHoldType,
+} from '../../services/sampleDestructionService'
+
+// 销毁批次状态配置
+const batchStatusConfig: Record<
+  DestructionBatchStatus,
+  { label: string; className: string }
+> = {
+  pending_approval: { label: '待审批', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: '已批准', className: 'bg-blue-100 text-blue-800' },
+  rejected: { label: '已驳回', className: 'bg-red-100 text-red-800' },
+  completed: { label: '已销毁', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: '已取消', className: 'bg-gray-100 text-gray-800' },
+}
+
+// 样本状态名称
+const sampleStatusText: Record<string, string> = {
+  in_storage: '在库',
+  completed: '已完成',
+  abnormal: '异常',
+}
 
-// 样本状态选项
-const sampleStatusOptions = [
-  { label: '可用', value: 'available' },
-  { label: '检测中', value: 'testing' },
-  { label: '已完成', value: 'completed' },
-  { label: '过期', value: 'expired' },
-  { label: '污染', value: 'contaminated' },
-  { label: '损坏', value: 'damaged' },
+// 到期范围选项
+const dueRangeOptions = [
+  { label: '已到期', value: 0 },
+  { label: '7天内到期', value: 7 },
+  { label: '30天内到期', value: 30 },
 ]
 
-// 样本类型选项
-const sampleTypeOptions = [
-  { label: '水质样本', value: 'water' },
-  { label: '土壤样本', value: 'soil' },
-  { label: '空气样本', value: 'air' },
-  { label: '食品样本', value: 'food' },
-  { label: '化学品样本', value: 'chemical' },
-  { label: '生物样本', value: 'biological' },
-  { label: '其他', value: 'other' },
+// 常用销毁方式
+const destroyMethodOptions = ['高压灭菌', '焚烧', '化学消毒', '医疗废物转运']
+
+// 保留类型选项
+const holdTypeOptions: { label: string; value: SampleHoldType }[] = [
+  { label: '法律保留', value: 'legal' },
+  { label: '科研保留', value: 'research' },
 ]
 
-// 样本接口
-interface Sample {
-  id: string
-  sampleCode: string
-  sampleName: string
-  sampleType: string
-  source: string
-  quantity: number
-  unit: string
-  status: string
-  receivedAt: string
-  location: string
-  expiryDate?: string
-  notes?: string
+// 可审批销毁批次的角色
+const approverRoles = ['admin', 'lab_manager']
+
+// 编制批次表单
+interface BatchForm {
+  reason: string
+  destroyMethod: string
+  plannedDate: string
+  witnessName: string
+  remarks: string
+}
+
+// 样本保留表单
+interface HoldForm {
+  holdType: SampleHoldType
+  reason: string
+  holdUntil: string
+}
+
+const emptyBatchForm: BatchForm = {
+  reason: '保存期限已到',
+  destroyMethod: destroyMethodOptions[0],
+  plannedDate: '',
+  witnessName: '',
+  remarks: '',
+}
+
+/**
+ * 格式化日期时间
+ * @param value ISO时间
+ * @returns 本地时间文本
+ */
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString() : '-'
+
+/**
+ * 批次状态标签
+ * @param status 批次状态
+ * @returns JSX元素
+ */
+const getBatchStatusBadge = (status: DestructionBatchStatus) => {
+  const config = batchStatusConfig[status]
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.className}`}
+    >
+      {config.label}
+    </span>
+  )
 }
 
 const SampleDestroy: React.FC = () => {
   const navigate = useNavigate()
+  const { user } = useAuthStore()
+  const canApprove = (user?.roles || []).some(role =>
+    approverRoles.includes(role)
+  )
+
+  const [activeTab, setActiveTab] = useState<'due' | 'batches'>('due')
   const [loading, setLoading] = useState(false)
-  const [samples, setSamples] = useState<Sample[]>([])
-  const [filteredSamples, setFilteredSamples] = useState<Sample[]>([])
+  const [checking, setChecking] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  // 到期样本
+  const [samples, setSamples] = useState<DueSample[]>([])
   const [selectedSamples, setSelectedSamples] = useState<string[]>([])
-  const [statusFilter, setStatusFilter] = useState('')
-  const [typeFilter, setTypeFilter] = useState('')
+  const [withinDays, setWithinDays] = useState(0)
   const [searchTerm, setSearchTerm] = useState('')
-  const [showConfirmDialog, setShowConfirmDialog] = useState(false)
-
-  // 模拟样本数据
-  const mockSamples: Sample[] = [
-    {
-      id: '1',
-      sampleCode: 'S2025010001',
-      sampleName: '工业废水样本',
-      sampleType: 'water',
-      source: '某化工厂',
-      quantity: 2,
-      unit: 'L',
-      status: 'completed',
-      receivedAt: '2025-01-15T09:30:00Z',
-      location: 'A区-01号柜',
-      expiryDate: '2025-02-15',
-      notes: '检测已完成，可销毁',
-    },
-    {
-      id: '2',
-      sampleCode: 'S2025010002',
-      sampleName: '过期土壤样本',
-      sampleType: 'soil',
-      source: '某建筑工地',
-      quantity: 1.5,
-      unit: 'kg',
-      status: 'expired',
-      receivedAt: '2024-12-20T14:15:00Z',
-      location: 'B区-03号柜',
-      expiryDate: '2025-01-20',
-      notes: '样本已过期',
-    },
-    {
-      id: '3',
-      sampleCode: 'S2025010003',
-      sampleName: '污染空气样本',
-      sampleType: 'air',
-      source: '某工业园区',
-      quantity: 3,
-      unit: '份',
-      status: 'contaminated',
-      receivedAt: '2025-01-18T11:20:00Z',
-      location: 'C区-05号柜',
-      notes: '运输过程中受到污染',
-    },
-    {
-      id: '4',
-      sampleCode: 'S2025010004',
-      sampleName: '损坏食品样本',
-      sampleType: 'food',
-      source: '某食品厂',
-      quantity: 800,
-      unit: 'g',
-      status: 'damaged',
-      receivedAt: '2025-01-16T16:45:00Z',
-      location: 'D区-02号柜',
-      notes: '包装破损，内容物泄漏',
-    },
-    {
-      id: '5',
-      sampleCode: 'S2025010005',
-      sampleName: '化学试剂样本',
-      sampleType: 'chemical',
-      source: '某实验室',
-      quantity: 500,
-      unit: 'mL',
-      status: 'completed',
-      receivedAt: '2025-01-12T08:30:00Z',
-      location: 'E区-01号柜',
-      expiryDate: '2025-03-12',
-      notes: '检测完成，剩余样本',
-    },
-  ]
 
-  // 加载样本数据
-  useEffect(() => {
-    const loadSamples = async () => {
-      setLoading(true)
-      try {
-        // 模拟API调用
-        await new Promise(resolve => setTimeout(resolve, 500))
-        // 只显示可销毁的样本（已完成、过期、污染、损坏状态）
-        const destroyableSamples = mockSamples.filter(sample =>
-          ['completed', 'expired', 'contaminated', 'damaged'].includes(
-            sample.status
-          )
-        )
-        setSamples(destroyableSamples)
-        setFilteredSamples(destroyableSamples)
-      } catch (error) {
-        console.error('加载样本数据失败:', error)
-        toast.error('加载样本数据失败')
-      } finally {
-        setLoading(false)
-      }
-    }
+  // 销毁批次
+  const [batches, setBatches] = useState<DestructionBatch[]>([])
+  const [batchStatusFilter, setBatchStatusFilter] = useState<
+    DestructionBatchStatus | ''
+  >('')
 
-    loadSamples()
-  }, [])
+  // 弹窗
+  const [showBatchForm, setShowBatchForm] = useState(false)
+  const [batchForm, setBatchForm] = useState<BatchForm>(emptyBatchForm)
+  const [holdTarget, setHoldTarget] = useState<DueSample | null>(null)
+  const [holdForm, setHoldForm] = useState<HoldForm>({
+    holdType: 'legal',
+    reason: '',
+    holdUntil: '',
+  })
+  const [reviewTarget, setReviewTarget] = useState<DestructionBatch | null>(
+    null
+  )
+  const [reviewComments, setReviewComments] = useState('')
+  const [executeTarget, setExecuteTarget] = useState<DestructionBatch | null>(
+    null
+  )
+  const [executeWitness, setExecuteWitness] = useState('')
+  const [detail, setDetail] = useState<DestructionBatch | null>(null)
 
-  // 筛选和搜索
-  useEffect(() => {
-    let filtered = samples.filter(sample => sample && sample.id) // 确保样本数据有效
-
-    // 搜索筛选
-    if (searchTerm) {
-      filtered = filtered.filter(
-        sample =>
-          (sample.sampleCode || '')
-            .toLowerCase()
-            .includes(searchTerm.toLowerCase()) ||
-          (sample.sampleName || '')
-            .toLowerCase()
-            .includes(searchTerm.toLowerCase()) ||
-          (sample.source || '').toLowerCase().includes(searchTerm.toLowerCase())
+  // 加载到期样本
+  const loadDueSamples = useCallback(async () => {
+    setLoading(true)
+    try {
+      const data = await SampleDestructionService.getDueSamples({
+        within_days: withinDays,
+        search: searchTerm || undefined,
+      })
+      setSamples(data)
+      setSelectedSamples(prev =>
+        prev.filter(id => data.some(sample => sample.id === id))
       )
+    } catch (error) {
+      console.error('加载到期样本失败:', error)
+      toast.error('加载到期样本失败')
+    } finally {
+      setLoading(false)
     }
+  }, [withinDays, searchTerm])
 
-    // 状态筛选
-    if (statusFilter) {
-      filtered = filtered.filter(sample => sample.status === statusFilter)
+  // 加载销毁批次
+  const loadBatches = useCallback(async () => {
+    setLoading(true)
+    try {
+      const result = await SampleDestructionService.getBatches({
+        limit: 100,
+        status: batchStatusFilter,
+      })
+      setBatches(result.data)
+    } catch (error) {
+      console.error('加载销毁批次失败:', error)
+      toast.error('加载销毁批次失败')
+    } finally {
+      setLoading(false)
     }
+  }, [batchStatusFilter])
 
-    // 类型筛选
-    if (typeFilter) {
-      filtered = filtered.filter(sample => sample.sampleType === typeFilter)
+  useEffect(() => {
+    if (activeTab === 'due') {
+      loadDueSamples()
+    } else {
+      loadBatches()
     }
-
-    setFilteredSamples(filtered)
-  }, [samples, searchTerm, statusFilter, typeFilter])
+  }, [activeTab, loadDueSamples, loadBatches])
 
   // 处理样本选择
   const handleSelectSample = (sampleId: string, checked: boolean) => {
@@ -207,208 +217,394 @@ const SampleDestroy: React.FC = () => {
 
   // 处理全选
   const handleSelectAll = (checked: boolean) => {
-    if (checked) {
-      setSelectedSamples(filteredSamples.map(sample => sample.id))
-    } else {
-      setSelectedSamples([])
+    setSelectedSamples(checked ? samples.map(sample => sample.id) : [])
+  }
+
+  // 执行到期检查
+  const handleRunCheck = async () => {
+    setChecking(true)
+    try {
+      const summary = await SampleDestructionService.runRetentionCheck()
+      toast.success(
+        `到期检查完成：补齐销毁日期 ${summary.updated} 个，已到期 ${summary.due} 个，即将到期 ${summary.upcoming} 个`
+      )
+      loadDueSamples()
+    } catch (error) {
+      console.error('到期检查失败:', error)
+      toast.error('到期检查失败')
+    } finally {
+      setChecking(false)
     }
   }
 
-  // 处理批量销毁
-  const handleBatchDestroy = () => {
+  // 打开编制批次
+  const openBatchForm = () => {
     if (selectedSamples.length === 0) {
       toast.error('请选择要销毁的样本')
       return
     }
-    setShowConfirmDialog(true)
+    setBatchForm(emptyBatchForm)
+    setShowBatchForm(true)
   }
 
-  // 确认销毁
-  const confirmDestroy = async () => {
-    setLoading(true)
+  // 提交销毁批次
+  const handleCreateBatch = async () => {
+    if (!batchForm.reason.trim() || !batchForm.destroyMethod.trim()) {
+      toast.error('请填写销毁原因和销毁方式')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const batch = await SampleDestructionService.createBatch({
+        sample_ids: selectedSamples,
+        reason: batchForm.reason.trim(),
+        destroy_method: batchForm.destroyMethod.trim(),
+        planned_date: batchForm.plannedDate || undefined,
+        witness_name: batchForm.witnessName.trim() || undefined,
+        remarks: batchForm.remarks.trim() || undefined,
+      })
+      toast.success(`销毁批次 ${batch.batch_no} 已提交审批`)
+      setShowBatchForm(false)
+      setSelectedSamples([])
+      loadDueSamples()
+    } catch (error) {
+      console.error('提交销毁批次失败:', error)
+      toast.error('提交销毁批次失败')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 设置样本保留
+  const handleHold = async () => {
+    if (!holdTarget) return
+    if (!holdForm.reason.trim()) {
+      toast.error('请填写保留原因')
+      return
+    }
+
+    setSubmitting(true)
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
+      await SampleDestructionService.setHold(holdTarget.id, {
+        hold_type: holdForm.holdType,
+        reason: holdForm.reason.trim(),
+        hold_until: holdForm.holdUntil || undefined,
+      })
+      toast.success(`样本 ${holdTarget.sample_no} 已设置保留`)
+      setHoldTarget(null)
+      loadDueSamples()
+    } catch (error) {
+      console.error('设置样本保留失败:', error)
+      toast.error('设置样本保留失败')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 审批销毁批次
+  const handleReview = async (result: 'approved' | 'rejected') => {
+    if (!reviewTarget) return
+    if (result === 'rejected' && !reviewComments.trim()) {
+      toast.error('驳回时必须填写审批意见')
+      return
+    }
 
-      // 从列表中移除已销毁的样本
-      const remainingSamples = samples.filter(
-        sample => !selectedSamples.includes(sample.id)
+    setSubmitting(true)
+    try {
+      await SampleDestructionService.reviewBatch(
+        reviewTarget.id,
+        result,
+        reviewComments.trim() || undefined
       )
-      setSamples(remainingSamples)
-      setSelectedSamples([])
-      setShowConfirmDialog(false)
+      toast.success(result === 'approved' ? '销毁批次已批准' : '销毁批次已驳回')
+      setReviewTarget(null)
+      loadBatches()
+    } catch (error) {
+      console.error('审批销毁批次失败:', error)
+      toast.error('审批销毁批次失败')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 执行销毁
+  const handleExecute = async () => {
+    if (!executeTarget) return
+    if (!executeWitness.trim()) {
+      toast.error('请填写见证人')
+      return
+    }
 
-      toast.success(`成功销毁 ${selectedSamples.length} 个样本！`)
+    setSubmitting(true)
+    try {
+      const batch = await SampleDestructionService.executeBatch(
+        executeTarget.id,
+        { witness_name: executeWitness.trim() }
+      )
+      const skipped = batch.sample_count - batch.destroyed_count
+      toast.success(
+        `已销毁 ${batch.destroyed_count} 个样本${skipped > 0 ? `，${skipped} 个未销毁` : ''}`
+      )
+      setExecuteTarget(null)
+      setDetail(batch)
+      loadBatches()
     } catch (error) {
-      console.error('销毁失败:', error)
-      toast.error('销毁失败，请重试')
+      console.error('执行销毁失败:', error)
+      toast.error('执行销毁失败')
     } finally {
-      setLoading(false)
+      setSubmitting(false)
     }
   }
 
-  // 状态标签样式
-  const getStatusBadge = (status: string) => {
-    const statusConfig = {
-      available: {
-        label: '可用',
-        className: 'bg-green-100 text-green-800',
-        icon: Package,
-      },
-      testing: {
-        label: '检测中',
-        className: 'bg-blue-100 text-blue-800',
-        icon: Calendar,
-      },
-      completed: {
-        label: '已完成',
-        className: 'bg-purple-100 text-purple-800',
-        icon: Package,
-      },
-      expired: {
-        label: '过期',
-        className: 'bg-yellow-100 text-yellow-800',
-        icon: AlertTriangle,
-      },
-      contaminated: {
-        label: '污染',
-        className: 'bg-red-100 text-red-800',
-        icon: AlertTriangle,
-      },
-      damaged: {
-        label: '损坏',
-        className: 'bg-orange-100 text-orange-800',
-        icon: AlertTriangle,
-      },
+  // 取消销毁批次
+  const handleCancel = async (batch: DestructionBatch) => {
+    if (!window.confirm(`确定取消销毁批次 ${batch.batch_no} 吗？`)) return
+
+    try {
+      await SampleDestructionService.cancelBatch(batch.id)
+      toast.success('销毁批次已取消')
+      loadBatches()
+    } catch (error) {
+      console.error('取消销毁批次失败:', error)
+      toast.error('取消销毁批次失败')
     }
+  }
 
-    const config = statusConfig[status as keyof typeof statusConfig] || {
-      label: status,
-      className: 'bg-gray-100 text-gray-800',
-      icon: AlertTriangle,
+  // 查看批次详情
+  const openDetail = async (batch: DestructionBatch) => {
+    try {
+      setDetail(await SampleDestructionService.getBatch(batch.id))
+    } catch (error) {
+      console.error('获取销毁批次详情失败:', error)
+      toast.error('获取销毁批次详情失败')
     }
-    const Icon = config.icon
+  }
 
-    return (
-      <span
-        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.className}`}
-      >
-        <Icon className='w-3 h-3 mr-1' />
-        {config.label}
-      </span>
-    )
+  // 下载销毁证明
+  const handleCertificate = async (batch: DestructionBatch) => {
+    try {
+      const url = await SampleDestructionService.getCertificateUrl(batch.id)
+      window.open(url, '_blank')
+    } catch (error) {
+      console.error('获取销毁证明失败:', error)
+      toast.error('获取销毁证明失败')
+    }
   }
 
-  // 表格列配置
-  const columns = [
+  // 到期样本列配置
+  const sampleColumns = [
     {
       key: 'selection',
-      title: (
+      title: '选择',
+      dataIndex: 'id',
+      render: (_: string, record: DueSample) => (
         <input
           type='checkbox'
-          checked={
-            selectedSamples.length === filteredSamples.length &&
-            filteredSamples.length > 0
-          }
-          onChange={e => handleSelectAll(e.target.checked)}
+          checked={selectedSamples.includes(record.id)}
+          onChange={e => handleSelectSample(record.id, e.target.checked)}
           className='rounded border-gray-300 text-blue-600 focus:ring-blue-500'
         />
       ),
-      width: 50,
-      render: (record: Sample) => {
-        if (!record || !record.id) return null
-        return (
-          <input
-            type='checkbox'
-            checked={selectedSamples.includes(record.id)}
-            onChange={e => handleSelectSample(record.id, e.target.checked)}
-            className='rounded border-gray-300 text-blue-600 focus:ring-blue-500'
-          />
-        )
-      },
     },
     {
-      key: 'sampleCode',
+      key: 'sample_no',
       title: '样本编号',
-      dataIndex: 'sampleCode',
-      width: 120,
-      render: (value: string) => (
-        <span className='font-mono text-sm font-medium text-blue-600'>
-          {value}
-        </span>
+      dataIndex: 'sample_no',
+      render: (value: string, record: DueSample) => (
+        <div>
+          <div className='font-mono text-sm font-medium text-blue-600'>
+            {value}
+          </div>
+          <div className='font-mono text-xs text-gray-500'>{record.barcode}</div>
+        </div>
       ),
     },
     {
       key: 'sampleInfo',
       title: '样本信息',
-      dataIndex: 'sampleName',
-      width: 200,
-      render: (value: string, record: Sample) => {
-        if (!record) return null
-        return (
-          <div>
-            <div className='font-medium text-gray-900'>{value || '-'}</div>
-            <div className='text-sm text-gray-500'>
-              {sampleTypeOptions.find(opt => opt.value === record.sampleType)
-                ?.label || '-'}{' '}
-              · {record.quantity || 0} {record.unit || ''}
-            </div>
+      dataIndex: 'sample_types',
+      render: (_: unknown, record: DueSample) => (
+        <div>
+          <div className='font-medium text-gray-900'>
+            {record.sample_types?.name || '-'}
           </div>
-        )
-      },
+          <div className='text-sm text-gray-500'>
+            {record.volume ?? '-'} {record.unit || ''} ·{' '}
+            {sampleStatusText[record.status] || record.status}
+          </div>
+        </div>
+      ),
     },
     {
-      key: 'source',
-      title: '样本来源',
-      dataIndex: 'source',
-      width: 150,
-      render: (value: string) => (
-        <span className='text-sm text-gray-900'>{value}</span>
+      key: 'submission',
+      title: '送检单',
+      dataIndex: 'submissions',
+      render: (_: unknown, record: DueSample) => (
+        <div className='text-sm'>
+          <div>{record.submissions?.submission_no || '-'}</div>
+          <div className='text-gray-500'>
+            {record.submissions?.patient_name || ''}
+          </div>
+        </div>
       ),
     },
     {
-      key: 'location',
+      key: 'storage_location',
       title: '存储位置',
-      dataIndex: 'location',
-      width: 120,
+      dataIndex: 'storage_location',
       render: (value: string) => (
         <span className='text-sm text-gray-600'>{value || '-'}</span>
       ),
     },
     {
-      key: 'receivedAt',
-      title: '接收时间',
-      dataIndex: 'receivedAt',
-      width: 150,
-      render: (value: string) => {
-        if (!value) return <span className='text-sm text-gray-400'>-</span>
-        try {
-          return (
-            <span className='text-sm'>{new Date(value).toLocaleString()}</span>
-          )
-        } catch {
-          return <span className='text-sm text-gray-400'>无效日期</span>
-        }
-      },
+      key: 'expected_destroy_date',
+      title: '预计销毁日期',
+      dataIndex: 'expected_destroy_date',
+      render: (value: string, record: DueSample) => (
+        <div className='text-sm'>
+          <div>{value}</div>
+          {record.overdue_days > 0 ? (
+            <span className='text-xs text-red-600'>
+              已逾期 {record.overdue_days} 天
+            </span>
+          ) : record.overdue_days < 0 ? (
+            <span className='text-xs text-yellow-600'>
+              {-record.overdue_days} 天后到期
+            </span>
+          ) : (
+            <span className='text-xs text-orange-600'>今天到期</span>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'actions',
+      title: '操作',
+      dataIndex: 'id',
+      render: (_: string, record: DueSample) => (
+        <button
+          onClick={() => {
+            setHoldForm({ holdType: 'legal', reason: '', holdUntil: '' })
+            setHoldTarget(record)
+          }}
+          className='inline-flex items-center text-sm text-purple-600 hover:text-purple-800'
+          title='法律或科研保留'
+        >
+          <Lock className='w-4 h-4 mr-1' />
+          保留
+        </button>
+      ),
+    },
+  ]
+
+  // 销毁批次列配置
+  const batchColumns = [
+    {
+      key: 'batch_no',
+      title: '批次号',
+      dataIndex: 'batch_no',
+      render: (value: string) => (
+        <span className='font-mono text-sm font-medium text-blue-600'>
+          {value}
+        </span>
+      ),
+    },
+    {
+      key: 'sample_count',
+      title: '样本数',
+      dataIndex: 'sample_count',
+      render: (value: number, record: DestructionBatch) => (
+        <span className='text-sm'>
+          {record.status === 'completed'
+            ? `${record.destroyed_count}/${value}`
+            : value}
+        </span>
+      ),
+    },
+    {
+      key: 'destroy_method',
+      title: '销毁方式',
+      dataIndex: 'destroy_method',
+    },
+    {
+      key: 'reason',
+      title: '销毁原因',
+      dataIndex: 'reason',
+      render: (value: string) => (
+        <span className='text-sm text-gray-600' title={value}>
+          {value.length > 20 ? `${value.substring(0, 20)}...` : value}
+        </span>
+      ),
     },
     {
       key: 'status',
       title: '状态',
       dataIndex: 'status',
-      width: 100,
-      render: (value: string) => getStatusBadge(value),
+      render: (value: DestructionBatchStatus) => getBatchStatusBadge(value),
     },
     {
-      key: 'notes',
-      title: '备注',
-      dataIndex: 'notes',
-      width: 200,
+      key: 'requested_at',
+      title: '提交时间',
+      dataIndex: 'requested_at',
       render: (value: string) => (
-        <span className='text-sm text-gray-600' title={value || ''}>
-          {value && value.length > 20
-            ? `${value.substring(0, 20)}...`
-            : value || '-'}
-        </span>
+        <span className='text-sm'>{formatTime(value)}</span>
+      ),
+    },
+    {
+      key: 'actions',
+      title: '操作',
+      dataIndex: 'id',
+      render: (_: string, record: DestructionBatch) => (
+        <div className='flex items-center space-x-3 text-sm'>
+          <button
+            onClick={() => openDetail(record)}
+            className='text-blue-600 hover:text-blue-800'
+          >
+            详情
+          </button>
+          {record.status === 'pending_approval' &&
+            canApprove &&
+            record.requested_by !== user?.id && (
+              <button
+                onClick={() => {
+                  setReviewComments('')
+                  setReviewTarget(record)
+                }}
+                className='text-green-600 hover:text-green-800'
+              >
+                审批
+              </button>
+            )}
+          {record.status === 'approved' && (
+            <button
+              onClick={() => {
+                setExecuteWitness(record.witness_name || '')
+                setExecuteTarget(record)
+              }}
+              className='text-red-600 hover:text-red-800'
+            >
+              执行销毁
+            </button>
+          )}
+          {(record.status === 'pending_approval' ||
+            record.status === 'approved') && (
+            <button
+              onClick={() => handleCancel(record)}
+              className='text-gray-600 hover:text-gray-800'
+            >
+              取消
+            </button>
+          )}
+          {record.status === 'completed' && (
+            <button
+              onClick={() => handleCertificate(record)}
+              className='text-purple-600 hover:text-purple-800'
+            >
+              销毁证明
+            </button>
+          )}
+        </div>
       ),
     },
   ]
@@ -416,10 +612,10 @@ const SampleDestroy: React.FC = () => {
   // 统计数据
   const stats = {
     total: samples.length,
-    completed: samples.filter(s => s && s.status === 'completed').length,
-    expired: samples.filter(s => s && s.status === 'expired').length,
-    contaminated: samples.filter(s => s && s.status === 'contaminated').length,
-    damaged: samples.filter(s => s && s.status === 'damaged').length,
+    overdue: samples.filter(s => s.overdue_days > 0).length,
+    upcoming: samples.filter(s => s.overdue_days < 0).length,
+    pendingApproval: batches.filter(b => b.status === 'pending_approval')
+      .length,
     selected: selectedSamples.length,
   }
 
@@ -438,79 +634,80 @@ const SampleDestroy: React.FC = () => {
             <div>
               <h1 className='text-2xl font-bold text-gray-900'>样本销毁管理</h1>
               <p className='text-gray-600 mt-1'>
-                管理可销毁样本，支持批量销毁操作
+                到期样本编制销毁批次，经主管审批后执行销毁并出具销毁证明
               </p>
             </div>
           </div>
           <div className='flex items-center space-x-3'>
+            {canApprove && (
+              <button
+                onClick={handleRunCheck}
+                disabled={checking}
+                className='px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center space-x-2'
+              >
+                <RefreshCw
+                  className={`w-4 h-4 ${checking ? 'animate-spin' : ''}`}
+                />
+                <span>到期检查</span>
+              </button>
+            )}
             {selectedSamples.length > 0 && (
               <span className='text-sm text-gray-600'>
                 已选择 {selectedSamples.length} 个样本
               </span>
             )}
             <button
-              onClick={handleBatchDestroy}
+              onClick={openBatchForm}
               disabled={selectedSamples.length === 0}
               className='px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center space-x-2'
             >
               <Trash2 className='w-4 h-4' />
-              <span>批量销毁</span>
+              <span>编制销毁批次</span>
             </button>
           </div>
         </div>
       </div>
 
       {/* 统计卡片 */}
-      <div className='grid grid-cols-1 md:grid-cols-6 gap-4'>
+      <div className='grid grid-cols-1 md:grid-cols-5 gap-4'>
         <div className='bg-white rounded-lg shadow-sm border p-4'>
           <div className='flex items-center'>
             <Package className='w-8 h-8 text-blue-600' />
             <div className='ml-3'>
-              <p className='text-sm font-medium text-gray-500'>总样本数</p>
+              <p className='text-sm font-medium text-gray-500'>待销毁样本</p>
               <p className='text-2xl font-bold text-gray-900'>{stats.total}</p>
             </div>
           </div>
         </div>
         <div className='bg-white rounded-lg shadow-sm border p-4'>
           <div className='flex items-center'>
-            <Package className='w-8 h-8 text-purple-600' />
+            <AlertTriangle className='w-8 h-8 text-red-600' />
             <div className='ml-3'>
-              <p className='text-sm font-medium text-gray-500'>已完成</p>
-              <p className='text-2xl font-bold text-purple-600'>
-                {stats.completed}
+              <p className='text-sm font-medium text-gray-500'>已逾期</p>
+              <p className='text-2xl font-bold text-red-600'>
+                {stats.overdue}
               </p>
             </div>
           </div>
         </div>
         <div className='bg-white rounded-lg shadow-sm border p-4'>
           <div className='flex items-center'>
-            <AlertTriangle className='w-8 h-8 text-yellow-600' />
+            <Calendar className='w-8 h-8 text-yellow-600' />
             <div className='ml-3'>
-              <p className='text-sm font-medium text-gray-500'>过期</p>
+              <p className='text-sm font-medium text-gray-500'>即将到期</p>
               <p className='text-2xl font-bold text-yellow-600'>
-                {stats.expired}
-              </p>
-            </div>
-          </div>
-        </div>
-        <div className='bg-white rounded-lg shadow-sm border p-4'>
-          <div className='flex items-center'>
-            <AlertTriangle className='w-8 h-8 text-red-600' />
-            <div className='ml-3'>
-              <p className='text-sm font-medium text-gray-500'>污染</p>
-              <p className='text-2xl font-bold text-red-600'>
-                {stats.contaminated}
+                {stats.upcoming}
               </p>
             </div>
           </div>
         </div>
         <div className='bg-white rounded-lg shadow-sm border p-4'>
           <div className='flex items-center'>
-            <AlertTriangle className='w-8 h-8 text-orange-600' />
+            <ShieldCheck className='w-8 h-8 text-purple-600' />
             <div className='ml-3'>
-              <p className='text-sm font-medium text-gray-500'>损坏</p>
-              <p className='text-2xl font-bold text-orange-600'>
-                {stats.damaged}
+              <p className='text-sm font-medium text-gray-500'>待审批批次</p>
+              <p className='text-2xl font-bold text-purple-600'>
+                {stats.pendingApproval}
               </p>
             </div>
           </div>
@@ -528,165 +725,489 @@ const SampleDestroy: React.FC = () => {
         </div>
       </div>
 
-      {/* 筛选条件 */}
-      <div className='bg-white rounded-lg shadow-md border p-6'>
-        <div className='flex items-center space-x-2 mb-4'>
-          <Filter className='w-5 h-5 text-gray-600' />
-          <h2 className='text-lg font-semibold text-gray-900'>筛选条件</h2>
+      {/* 标签页 */}
+      <div className='bg-white rounded-lg shadow-md border'>
+        <div className='border-b px-6'>
+          <nav className='flex space-x-8'>
+            {[
+              { key: 'due' as const, label: '到期样本' },
+              { key: 'batches' as const, label: '销毁批次' },
+            ].map(tab => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className={`py-4 text-sm font-medium border-b-2 transition-colors ${
+                  activeTab === tab.key
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </nav>
         </div>
-        <div className='grid grid-cols-1 md:grid-cols-4 gap-4'>
-          <div>
-            <label className='block text-sm font-medium text-gray-700 mb-1'>
-              搜索
-            </label>
-            <div className='relative'>
-              <Search className='absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400' />
+
+        <div className='p-6'>
+          {/* 筛选条件 */}
+          <div className='flex items-center space-x-2 mb-4'>
+            <Filter className='w-5 h-5 text-gray-600' />
+            <h2 className='text-lg font-semibold text-gray-900'>筛选条件</h2>
+          </div>
+          {activeTab === 'due' ? (
+            <div className='grid grid-cols-1 md:grid-cols-4 gap-4 mb-6'>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>
+                  搜索
+                </label>
+                <div className='relative'>
+                  <Search className='absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400' />
+                  <input
+                    type='text'
+                    value={searchTerm}
+                    onChange={e => setSearchTerm(e.target.value)}
+                    placeholder='搜索样本编号或条码'
+                    className='w-full pl-10 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                  />
+                </div>
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>
+                  到期范围
+                </label>
+                <select
+                  value={withinDays}
+                  onChange={e => setWithinDays(Number(e.target.value))}
+                  className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                >
+                  {dueRangeOptions.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ) : (
+            <div className='grid grid-cols-1 md:grid-cols-4 gap-4 mb-6'>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>
+                  批次状态
+                </label>
+                <select
+                  value={batchStatusFilter}
+                  onChange={e =>
+                    setBatchStatusFilter(
+                      e.target.value as DestructionBatchStatus | ''
+                    )
+                  }
+                  className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                >
+                  <option value=''>全部状态</option>
+                  {(
+                    Object.keys(batchStatusConfig) as DestructionBatchStatus[]
+                  ).map(status => (
+                    <option key={status} value={status}>
+                      {batchStatusConfig[status].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'due' ? (
+            <>
+              <div className='flex items-center justify-between mb-2'>
+                <label className='flex items-center space-x-2 text-sm text-gray-600'>
+                  <input
+                    type='checkbox'
+                    checked={
+                      selectedSamples.length === samples.length &&
+                      samples.length > 0
+                    }
+                    onChange={e => handleSelectAll(e.target.checked)}
+                    className='rounded border-gray-300 text-blue-600 focus:ring-blue-500'
+                  />
+                  <span>全选</span>
+                </label>
+                <span className='text-sm text-gray-500'>
+                  共 {samples.length} 个样本
+                </span>
+              </div>
+              <DataTable
+                columns={sampleColumns}
+                dataSource={samples}
+                loading={loading}
+              />
+            </>
+          ) : (
+            <DataTable
+              columns={batchColumns}
+              dataSource={batches}
+              loading={loading}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* 编制销毁批次 */}
+      <Modal
+        open={showBatchForm}
+        onClose={() => setShowBatchForm(false)}
+        title='编制销毁批次'
+        size='large'
+      >
+        <div className='space-y-4'>
+          <div className='bg-gray-50 rounded-lg p-3'>
+            <p className='text-sm text-gray-700 font-medium mb-2'>
+              将要销毁的样本（{selectedSamples.length} 个）：
+            </p>
+            <div className='space-y-1 max-h-32 overflow-y-auto'>
+              {samples
+                .filter(s => selectedSamples.includes(s.id))
+                .map(sample => (
+                  <div key={sample.id} className='text-sm text-gray-600'>
+                    {sample.sample_no} - {sample.sample_types?.name || ''}{' '}
+                    {sample.storage_location || ''}
+                  </div>
+                ))}
+            </div>
+          </div>
+          <div className='grid grid-cols-2 gap-4'>
+            <div className='col-span-2'>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                销毁原因
+              </label>
+              <input
+                type='text'
+                value={batchForm.reason}
+                onChange={e =>
+                  setBatchForm(prev => ({ ...prev, reason: e.target.value }))
+                }
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                销毁方式
+              </label>
               <input
                 type='text'
-                value={searchTerm}
-                onChange={e => setSearchTerm(e.target.value)}
-                placeholder='搜索样本编号、名称或来源'
-                className='w-full pl-10 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                list='destroy-methods'
+                value={batchForm.destroyMethod}
+                onChange={e =>
+                  setBatchForm(prev => ({
+                    ...prev,
+                    destroyMethod: e.target.value,
+                  }))
+                }
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+              <datalist id='destroy-methods'>
+                {destroyMethodOptions.map(method => (
+                  <option key={method} value={method} />
+                ))}
+              </datalist>
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                计划销毁日期
+              </label>
+              <input
+                type='date'
+                value={batchForm.plannedDate}
+                onChange={e =>
+                  setBatchForm(prev => ({
+                    ...prev,
+                    plannedDate: e.target.value,
+                  }))
+                }
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                拟定见证人
+              </label>
+              <input
+                type='text'
+                value={batchForm.witnessName}
+                onChange={e =>
+                  setBatchForm(prev => ({
+                    ...prev,
+                    witnessName: e.target.value,
+                  }))
+                }
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                备注
+              </label>
+              <input
+                type='text'
+                value={batchForm.remarks}
+                onChange={e =>
+                  setBatchForm(prev => ({ ...prev, remarks: e.target.value }))
+                }
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
               />
             </div>
           </div>
+          <div className='flex justify-end space-x-3'>
+            <button
+              onClick={() => setShowBatchForm(false)}
+              className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
+            >
+              取消
+            </button>
+            <button
+              onClick={handleCreateBatch}
+              disabled={submitting}
+              className='px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50'
+            >
+              {submitting ? '提交中...' : '提交审批'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* 样本保留 */}
+      <Modal
+        open={Boolean(holdTarget)}
+        onClose={() => setHoldTarget(null)}
+        title={`样本保留 - ${holdTarget?.sample_no || ''}`}
+      >
+        <div className='space-y-4'>
+          <p className='text-sm text-gray-500'>
+            保留期间样本不进入到期列表，也不能销毁。
+          </p>
+          <div className='flex space-x-6'>
+            {holdTypeOptions.map(option => (
+              <label
+                key={option.value}
+                className='flex items-center space-x-2 text-sm'
+              >
+                <input
+                  type='radio'
+                  checked={holdForm.holdType === option.value}
+                  onChange={() =>
+                    setHoldForm(prev => ({ ...prev, holdType: option.value }))
+                  }
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
           <div>
             <label className='block text-sm font-medium text-gray-700 mb-1'>
-              状态
+              保留原因
             </label>
-            <select
-              value={statusFilter}
-              onChange={e => setStatusFilter(e.target.value)}
-              className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-            >
-              <option value=''>全部状态</option>
-              {sampleStatusOptions
-                .filter(opt =>
-                  ['completed', 'expired', 'contaminated', 'damaged'].includes(
-                    opt.value
-                  )
-                )
-                .map(option => (
-                  <option key={option.value} value={option.value}>
-                    {option.label}
-                  </option>
-                ))}
-            </select>
+            <textarea
+              rows={3}
+              value={holdForm.reason}
+              onChange={e =>
+                setHoldForm(prev => ({ ...prev, reason: e.target.value }))
+              }
+              className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
           </div>
           <div>
             <label className='block text-sm font-medium text-gray-700 mb-1'>
-              样本类型
+              保留截止日期（不填则保留至手动解除）
             </label>
-            <select
-              value={typeFilter}
-              onChange={e => setTypeFilter(e.target.value)}
-              className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-            >
-              <option value=''>全部类型</option>
-              {sampleTypeOptions.map(option => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
-              ))}
-            </select>
+            <input
+              type='date'
+              value={holdForm.holdUntil}
+              onChange={e =>
+                setHoldForm(prev => ({ ...prev, holdUntil: e.target.value }))
+              }
+              className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
           </div>
-          <div className='flex items-end'>
+          <div className='flex justify-end space-x-3'>
             <button
-              onClick={() => {
-                setSearchTerm('')
-                setStatusFilter('')
-                setTypeFilter('')
-              }}
-              className='px-4 py-2 text-sm text-blue-600 hover:text-blue-800 transition-colors'
+              onClick={() => setHoldTarget(null)}
+              className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
             >
-              清除筛选
+              取消
+            </button>
+            <button
+              onClick={handleHold}
+              disabled={submitting}
+              className='px-4 py-2 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50'
+            >
+              确认保留
             </button>
           </div>
         </div>
-      </div>
+      </Modal>
 
-      {/* 样本列表 */}
-      <div className='bg-white rounded-lg shadow-md border'>
-        <div className='p-6'>
-          <div className='flex items-center justify-between mb-4'>
-            <div className='flex items-center space-x-2'>
-              <Trash2 className='w-5 h-5 text-gray-600' />
-              <h2 className='text-lg font-semibold text-gray-900'>
-                可销毁样本列表
-              </h2>
+      {/* 审批销毁批次 */}
+      <Modal
+        open={Boolean(reviewTarget)}
+        onClose={() => setReviewTarget(null)}
+        title={`审批销毁批次 - ${reviewTarget?.batch_no || ''}`}
+      >
+        {reviewTarget && (
+          <div className='space-y-4'>
+            <div className='text-sm text-gray-700 space-y-1'>
+              <div>样本数量：{reviewTarget.sample_count}</div>
+              <div>销毁方式：{reviewTarget.destroy_method}</div>
+              <div>销毁原因：{reviewTarget.reason}</div>
+              {reviewTarget.planned_date && (
+                <div>计划日期：{reviewTarget.planned_date}</div>
+              )}
             </div>
-            <div className='text-sm text-gray-500'>
-              共 {filteredSamples.length} 个样本
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                审批意见
+              </label>
+              <textarea
+                rows={3}
+                value={reviewComments}
+                onChange={e => setReviewComments(e.target.value)}
+                placeholder='驳回时必填'
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
             </div>
-          </div>
-
-          <DataTable
-            columns={columns}
-            dataSource={filteredSamples}
-            loading={loading}
-            pagination={{
-              pageSize: 10,
-              showSizeChanger: true,
-              showQuickJumper: true,
-              showTotal: (total, range) =>
-                `显示 ${range[0]}-${range[1]} 条，共 ${total} 条记录`,
-            }}
-            rowKey='id'
-          />
-        </div>
-      </div>
-
-      {/* 销毁确认对话框 */}
-      {showConfirmDialog && (
-        <div className='fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50'>
-          <div className='bg-white rounded-lg p-6 max-w-md w-full mx-4'>
-            <div className='flex items-center space-x-3 mb-4'>
-              <div className='flex-shrink-0'>
-                <AlertTriangle className='w-6 h-6 text-red-600' />
-              </div>
-              <div>
-                <h3 className='text-lg font-medium text-gray-900'>
-                  确认销毁样本
-                </h3>
-                <p className='text-sm text-gray-500 mt-1'>
-                  您即将销毁 {selectedSamples.length} 个样本，此操作不可撤销。
-                </p>
-              </div>
+            <div className='flex justify-end space-x-3'>
+              <button
+                onClick={() => handleReview('rejected')}
+                disabled={submitting}
+                className='px-4 py-2 text-sm border border-red-300 text-red-600 rounded-md hover:bg-red-50 disabled:opacity-50'
+              >
+                驳回
+              </button>
+              <button
+                onClick={() => handleReview('approved')}
+                disabled={submitting}
+                className='px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50'
+              >
+                批准
+              </button>
             </div>
+          </div>
+        )}
+      </Modal>
 
-            <div className='bg-gray-50 rounded-lg p-3 mb-4'>
-              <p className='text-sm text-gray-700 font-medium mb-2'>
-                将要销毁的样本：
+      {/* 执行销毁 */}
+      <Modal
+        open={Boolean(executeTarget)}
+        onClose={() => setExecuteTarget(null)}
+        title={`执行销毁 - ${executeTarget?.batch_no || ''}`}
+      >
+        {executeTarget && (
+          <div className='space-y-4'>
+            <div className='flex items-start space-x-3'>
+              <AlertTriangle className='w-6 h-6 text-red-600 flex-shrink-0' />
+              <p className='text-sm text-gray-600'>
+                将以「{executeTarget.destroy_method}」销毁{' '}
+                {executeTarget.sample_count}{' '}
+                个样本，此操作不可撤销。审批后被保留或状态变化的样本将跳过。
               </p>
-              <div className='space-y-1 max-h-32 overflow-y-auto'>
-                {samples
-                  .filter(s => selectedSamples.includes(s.id))
-                  .map(sample => (
-                    <div key={sample.id} className='text-sm text-gray-600'>
-                      {sample.sampleCode} - {sample.sampleName}
-                    </div>
-                  ))}
-              </div>
             </div>
-
-            <div className='flex space-x-3'>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                见证人
+              </label>
+              <input
+                type='text'
+                value={executeWitness}
+                onChange={e => setExecuteWitness(e.target.value)}
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+            <div className='flex justify-end space-x-3'>
               <button
-                onClick={() => setShowConfirmDialog(false)}
-                className='flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 transition-colors'
+                onClick={() => setExecuteTarget(null)}
+                className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
               >
                 取消
               </button>
               <button
-                onClick={confirmDestroy}
-                disabled={loading}
-                className='flex-1 px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+                onClick={handleExecute}
+                disabled={submitting}
+                className='px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50'
               >
-                {loading ? '销毁中...' : '确认销毁'}
+                {submitting ? '销毁中...' : '确认销毁'}
               </button>
             </div>
           </div>
-        </div>
-      )}
+        )}
+      </Modal>
+
+      {/* 批次详情 */}
+      <Modal
+        open={Boolean(detail)}
+        onClose={() => setDetail(null)}
+        title={`销毁批次 - ${detail?.batch_no || ''}`}
+        size='xl'
+      >
+        {detail && (
+          <div className='space-y-4'>
+            <div className='grid grid-cols-2 gap-2 text-sm text-gray-700'>
+              <div>状态：{getBatchStatusBadge(detail.status)}</div>
+              <div>销毁方式：{detail.destroy_method}</div>
+              <div>销毁原因：{detail.reason}</div>
+              <div>见证人：{detail.witness_name || '-'}</div>
+              <div>提交时间：{formatTime(detail.requested_at)}</div>
+              <div>审批时间：{formatTime(detail.approved_at)}</div>
+              <div>执行时间：{formatTime(detail.executed_at)}</div>
+              <div>审批意见：{detail.approval_comments || '-'}</div>
+            </div>
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='text-left text-gray-500 border-b'>
+                  <th className='py-2'>样本编号</th>
+                  <th className='py-2'>样本类型</th>
+                  <th className='py-2'>原存储位置</th>
+                  <th className='py-2'>结果</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(detail.sample_destruction_items || []).map(item => (
+                  <tr key={item.id} className='border-b'>
+                    <td className='py-2 font-mono'>
+                      {item.samples?.sample_no}
+                    </td>
+                    <td className='py-2'>
+                      {item.samples?.sample_types?.name || '-'}
+                    </td>
+                    <td className='py-2'>{item.storage_location || '-'}</td>
+                    <td className='py-2'>
+                      {item.result === 'destroyed' && (
+                        <span className='text-green-600'>已销毁</span>
+                      )}
+                      {item.result === 'pending' && (
+                        <span className='text-gray-500'>待销毁</span>
+                      )}
+                      {item.result === 'skipped' && (
+                        <span className='text-red-600'>
+                          未销毁：{item.skip_reason}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {detail.status === 'completed' && (
+              <div className='flex justify-end'>
+                <button
+                  onClick={() => handleCertificate(detail)}
+                  className='inline-flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700'
+                >
+                  <FileText className='w-4 h-4 mr-2' />
+                  下载销毁证明
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
     </div>
   )
 }
@@ -16,44 +16,76 @@ import {
   Edit,
   Trash2,
   Package,
+  GitBranch,
+  Network,
+  Printer,
+  XCircle,
 } from 'lucide-react'
 import DataTable from '../../components/DataTable'
+import Modal from '../../components/Modal'
 import { StatusBadge, TypeBadge } from '../../components/ui/badge'
 import { toast } from 'sonner'
+import { getApiErrorMessage } from '../../lib/http'
 import { useDataCache } from '../../hooks/useDataCache'
 import { useSearchDebounce } from '../../hooks/useDebounce'
 import SkeletonLoader from '../../components/SkeletonLoader'
 import ErrorBoundary from '../../components/ErrorBoundary'
+import {
+  SampleService,
+  Sample as ApiSample,
+  SampleStatus,
+  SampleType,
+  DerivationType,
+  LineageNode,
+  SampleLineage,
+} from '../../services/sampleService'
+import {
+  SampleRejectionService,
+  SampleRejectionReason,
+} from '../../services/sampleRejectionService'
+
+// 样本状态名称
+const sampleStatusText: Record<SampleStatus, string> = {
+  received: '已接收',
+  in_storage: '在库',
+  out_for_test: '出库待检',
+  testing: '检测中',
+  completed: '已完成',
+  destroyed: '已销毁',
+  abnormal: '异常',
+}
 
 // 样本状态选项
 const sampleStatusOptions = [
   { label: '全部状态', value: '' },
-  { label: '待接收', value: 'pending' },
-  { label: '已接收', value: 'received' },
-  { label: '处理中', value: 'processing' },
-  { label: '已完成', value: 'completed' },
-  { label: '已销毁', value: 'destroyed' },
+  ...Object.entries(sampleStatusText).map(([value, label]) => ({
+    label,
+    value,
+  })),
 ]
 
-// 样本类型选项
-const sampleTypeOptions = [
-  { label: '全部类型', value: '' },
-  { label: '水质样本', value: 'water' },
-  { label: '土壤样本', value: 'soil' },
-  { label: '空气样本', value: 'air' },
-  { label: '食品样本', value: 'food' },
-  { label: '化学品样本', value: 'chemical' },
-  { label: '生物样本', value: 'biological' },
-  { label: '其他', value: 'other' },
-]
-
-// 样本来源选项
+// 样本来源选项（原始样本或由其他样本分装/衍生）
 const sampleSourceOptions = [
   { label: '全部来源', value: '' },
-  { label: '客户送检', value: 'client' },
-  { label: '现场采样', value: 'field' },
-  { label: '内部质控', value: 'qc' },
-  { label: '标准样品', value: 'standard' },
+  { label: '原始样本', value: 'original' },
+  { label: '分装', value: 'aliquot' },
+  { label: '衍生', value: 'derivative' },
+]
+
+// 可分装/衍生的样本状态
+const derivableStatuses: SampleStatus[] = [
+  'received',
+  'in_storage',
+  'out_for_test',
+  'testing',
+]
+
+// 拒收原因选项
+const rejectionReasonOptions: { label: string; value: SampleRejectionReason }[] = [
+  { label: '溶血', value: 'hemolysis' },
+  { label: '样本量不足', value: 'insufficient_volume' },
+  { label: '容器错误', value: 'wrong_container' },
+  { label: '超出稳定期', value: 'expired_stability' },
   { label: '其他', value: 'other' },
 ]
 
@@ -61,108 +93,124 @@ const sampleSourceOptions = [
 interface Sample {
   id: string
   sampleCode: string
+  barcode: string
   sampleName: string
   sampleType: string
-  source: string
-  quantity: number
+  source: 'original' | DerivationType
+  derivationMethod: string
+  quantity: number | null
   unit: string
-  status: string
+  status: SampleStatus
   receivedDate: string
-  receivedBy: string
-  description: string
-  createdAt: string
+  patientName: string
+  submissionNo: string
+  storageTemperature: string
+}
+
+// 分装/衍生表单
+interface DeriveForm {
+  derivationType: DerivationType
+  count: number
+  volume: number
+  unit: string
+  sampleTypeId: string
+  consumedVolume: number
+  method: string
+  remarks: string
 }
 
 /**
- * 模拟API调用获取样本数据
- * @returns 样本数据
+ * 样本数据转换为列表行
+ * @param sample 接口返回的样本
+ * @returns 列表行数据
+ */
+const toSampleRow = (sample: ApiSample): Sample => ({
+  id: sample.id,
+  sampleCode: sample.sample_no,
+  barcode: sample.barcode,
+  sampleName: sample.sample_types?.name || '-',
+  sampleType: sample.sample_types?.code || '',
+  source: sample.derivation_type || 'original',
+  derivationMethod: sample.derivation_method || '',
+  quantity:
+    sample.volume !== null && sample.volume !== undefined
+      ? Number(sample.volume)
+      : null,
+  unit: sample.unit || '',
+  status: sample.status as SampleStatus,
+  receivedDate: (sample.received_time || sample.created_at || '').slice(0, 10),
+  patientName: sample.submissions?.patient_name || '-',
+  submissionNo: sample.submissions?.submission_no || '-',
+  storageTemperature: sample.storage_temperature || '',
+})
+
+/**
+ * 获取样本数据
+ * @returns 最近登记的样本
  */
 const fetchSamples = async (): Promise<Sample[]> => {
-  // 模拟API延迟
-  await new Promise(resolve => setTimeout(resolve, 500))
-  
-  return [
-    {
-      id: '1',
-      sampleCode: 'S2025010001',
-      sampleName: '工业废水样本',
-      sampleType: 'water',
-      source: 'client',
-      quantity: 2,
-      unit: 'L',
-      status: 'received',
-      receivedDate: '2025-01-20',
-      receivedBy: '张三',
-      description: '某化工厂废水处理后样本',
-      createdAt: '2025-01-20T10:30:00Z',
-    },
-    {
-      id: '2',
-      sampleCode: 'S2025010002',
-      sampleName: '农田土壤样本',
-      sampleType: 'soil',
-      source: 'field',
-      quantity: 5,
-      unit: 'kg',
-      status: 'processing',
-      receivedDate: '2025-01-19',
-      receivedBy: '李四',
-      description: '农田重金属污染检测样本',
-      createdAt: '2025-01-19T14:20:00Z',
-    },
-    {
-      id: '3',
-      sampleCode: 'S2025010003',
-      sampleName: '室内空气样本',
-      sampleType: 'air',
-      source: 'client',
-      quantity: 1,
-      unit: '份',
-      status: 'completed',
-      receivedDate: '2025-01-18',
-      receivedBy: '王五',
-      description: '新装修房屋空气质量检测',
-      createdAt: '2025-01-18T09:15:00Z',
-    },
-    {
-      id: '4',
-      sampleCode: 'S2025010004',
-      sampleName: '食品添加剂样本',
-      sampleType: 'food',
-      source: 'qc',
-      quantity: 3,
-      unit: 'g',
-      status: 'pending',
-      receivedDate: '2025-01-21',
-      receivedBy: '赵六',
-      description: '食品添加剂安全性检测',
-      createdAt: '2025-01-21T16:45:00Z',
-    },
-    {
-      id: '5',
-      sampleCode: 'S2025010005',
-      sampleName: '标准参考物质',
-      sampleType: 'chemical',
-      source: 'standard',
-      quantity: 1,
-      unit: '个',
-      status: 'received',
-      receivedDate: '2025-01-20',
-      receivedBy: '孙七',
-      description: '质量控制标准样品',
-      createdAt: '2025-01-20T11:30:00Z',
-    },
-  ]
+  const result = await SampleService.getSamples({ limit: 100 })
+  return result.data.map(toSampleRow)
 }
 
+/**
+ * 谱系树节点
+ * @param props 节点、当前样本ID及层级
+ * @returns 节点及其子节点
+ */
+const LineageTreeNode: React.FC<{
+  node: LineageNode
+  currentId: string
+  depth: number
+}> = ({ node, currentId, depth }) => (
+  <div>
+    <div
+      className={`flex items-center space-x-3 py-1.5 px-2 rounded ${
+        node.id === currentId ? 'bg-blue-50 border border-blue-200' : ''
+      }`}
+      style={{ marginLeft: depth * 20 }}
+    >
+      {depth > 0 && <GitBranch className='w-3 h-3 text-gray-400' />}
+      <span className='font-mono text-sm font-medium text-blue-600'>
+        {node.sample_no}
+      </span>
+      <span className='text-xs text-gray-500'>{node.barcode}</span>
+      <span className='text-sm text-gray-700'>
+        {node.sample_types?.name || '-'}
+      </span>
+      {node.derivation_type && (
+        <span className='text-xs text-gray-500'>
+          {node.derivation_type === 'aliquot' ? '分装' : '衍生'}
+          {node.derivation_method ? `·${node.derivation_method}` : ''}
+        </span>
+      )}
+      <span className='text-sm text-gray-700'>
+        {node.volume ?? '-'} {node.unit || ''}
+      </span>
+      <StatusBadge
+        status={node.status}
+        customLabel={sampleStatusText[node.status]}
+      />
+    </div>
+    {node.children.map(child => (
+      <LineageTreeNode
+        key={child.id}
+        node={child}
+        currentId={currentId}
+        depth={depth + 1}
+      />
+    ))}
+  </div>
+)
+
 // 状态标签样式（使用useCallback优化）
-const getStatusBadge = (status: string) => {
-  return <StatusBadge status={status} />
+const getStatusBadge = (status: SampleStatus) => {
+  return <StatusBadge status={status} customLabel={sampleStatusText[status]} />
 }
 
 // 类型标签样式（使用useCallback优化）
-const getTypeBadge = (type: string) => {
-  return <TypeBadge type={type} />
+const getTypeBadge = (type: string, label?: string) => {
+  return <TypeBadge type={type} customLabel={label} />
 }
 
 const SampleList: React.FC = () => {
@@ -183,6 +231,46 @@ const SampleList: React.FC = () => {
   
   // 搜索状态
   const [searchTerm, setSearchTerm] = useState('')
+
+  // 分装/衍生状态
+  const [deriveTarget, setDeriveTarget] = useState<Sample | null>(null)
+  const [deriveForm, setDeriveForm] = useState<DeriveForm>({
+    derivationType: 'aliquot',
+    count: 2,
+    volume: 0,
+    unit: '',
+    sampleTypeId: '',
+    consumedVolume: 0,
+    method: '',
+    remarks: '',
+  })
+  const [derivedSamples, setDerivedSamples] = useState<LineageNode[]>([])
+  const [sampleTypes, setSampleTypes] = useState<SampleType[]>([])
+  const [deriving, setDeriving] = useState(false)
+
+  // 拒收状态
+  const [rejectTarget, setRejectTarget] = useState<Sample | null>(null)
+  const [rejectForm, setRejectForm] = useState<{
+    reasonCode: SampleRejectionReason
+    reasonDetail: string
+  }>({ reasonCode: 'hemolysis', reasonDetail: '' })
+  const [rejecting, setRejecting] = useState(false)
+
+  // 谱系状态
+  const [lineageTarget, setLineageTarget] = useState<Sample | null>(null)
+  const [lineage, setLineage] = useState<SampleLineage | null>(null)
+
+  // 类型筛选选项（按已加载样本的类型生成）
+  const sampleTypeOptions = useMemo(() => {
+    const types = new Map<string, string>()
+    ;(samples || []).forEach(sample => {
+      if (sample.sampleType) types.set(sample.sampleType, sample.sampleName)
+    })
+    return [
+      { label: '全部类型', value: '' },
+      ...Array.from(types, ([value, label]) => ({ label, value })),
+    ]
+  }, [samples])
   
   // 搜索防抖
   const { debouncedSearchTerm } = useSearchDebounce(
@@ -203,8 +291,8 @@ const SampleList: React.FC = () => {
       filtered = filtered.filter(
         sample =>
           sample.sampleCode.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-          sample.sampleName.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-          sample.receivedBy.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
+          sample.barcode.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
+          sample.patientName.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
       )
     }
 
@@ -238,13 +326,13 @@ const SampleList: React.FC = () => {
   
   // 统计数据（使用缓存优化）
   const stats = useMemo(() => {
-    if (!samples) return { total: 0, pending: 0, received: 0, processing: 0, completed: 0 }
+    if (!samples) return { total: 0, received: 0, inStorage: 0, testing: 0, completed: 0 }
     
     return {
       total: samples.length,
-      pending: samples.filter(s => s.status === 'pending').length,
       received: samples.filter(s => s.status === 'received').length,
-      processing: samples.filter(s => s.status === 'processing').length,
+      inStorage: samples.filter(s => s.status === 'in_storage').length,
+      testing: samples.filter(s => s.status === 'out_for_test' || s.status === 'testing').length,
       completed: samples.filter(s => s.status === 'completed').length,
     }
   }, [samples])
@@ -259,6 +347,7 @@ const SampleList: React.FC = () => {
       render: (value: string, record: Sample) => (
         <div className='font-mono text-sm'>
           <div className='font-medium text-blue-600'>{value}</div>
+          <div className='text-xs text-gray-500'>{record.barcode}</div>
         </div>
       ),
     },
@@ -270,7 +359,9 @@ const SampleList: React.FC = () => {
       render: (value: string, record: Sample) => (
         <div>
           <div className='font-medium text-gray-900'>{value}</div>
-          <div className='text-sm text-gray-500 mt-1'>{record.description}</div>
+          <div className='text-sm text-gray-500 mt-1'>
+            {record.patientName} · {record.submissionNo}
+          </div>
         </div>
       ),
     },
@@ -279,16 +370,17 @@ const SampleList: React.FC = () => {
       title: '类型',
       dataIndex: 'sampleType',
       width: 100,
-      render: (value: string) => getTypeBadge(value),
+      render: (value: string, record: Sample) =>
+        getTypeBadge(value, record.sampleName),
     },
     {
       key: 'quantity',
-      title: '数量',
+      title: '余量',
       dataIndex: 'quantity',
       width: 80,
-      render: (value: number, record: Sample) => (
+      render: (value: number | null, record: Sample) => (
         <span className='text-sm'>
-          {value} {record.unit}
+          {value ?? '-'} {record.unit}
         </span>
       ),
     },
@@ -297,44 +389,36 @@ const SampleList: React.FC = () => {
       title: '来源',
       dataIndex: 'source',
       width: 100,
-      render: (value: string) => {
-        const sourceLabels = {
-          client: '客户送检',
-          field: '现场采样',
-          qc: '内部质控',
-          standard: '标准样品',
-          other: '其他',
-        }
-        return (
-          <span className='text-sm'>
-            {sourceLabels[value as keyof typeof sourceLabels] || value}
-          </span>
-        )
-      },
+      render: (value: string, record: Sample) => (
+        <span className='text-sm'>
+          {sampleSourceOptions.find(option => option.value === value)?.label ||
+            value}
+          {record.derivationMethod && (
+            <span className='block text-xs text-gray-500'>
+              {record.derivationMethod}
+            </span>
+          )}
+        </span>
+      ),
     },
     {
       key: 'status',
       title: '状态',
       dataIndex: 'status',
       width: 100,
-      render: (value: string) => getStatusBadge(value),
+      render: (value: SampleStatus) => getStatusBadge(value),
     },
     {
       key: 'receivedInfo',
-      title: '接收信息',
+      title: '接收日期',
       dataIndex: 'receivedDate',
-      width: 150,
-      render: (value: string, record: Sample) => (
-        <div className='text-sm'>
-          <div>{value}</div>
-          <div className='text-gray-500'>{record.receivedBy}</div>
-        </div>
-      ),
+      width: 120,
+      render: (value: string) => <div className='text-sm'>{value || '-'}</div>,
     },
     {
       key: 'actions',
       title: '操作',
-      width: 120,
+      width: 180,
       render: (record: Sample) => (
         <div className='flex space-x-2'>
           <button
@@ -351,6 +435,31 @@ const SampleList: React.FC = () => {
           >
             <Edit className='w-4 h-4' />
           </button>
+          {derivableStatuses.includes(record.status) && (
+            <button
+              onClick={() => openDerive(record)}
+              className='p-1 text-purple-600 hover:text-purple-800 hover:bg-purple-50 rounded transition-colors'
+              title='分装/衍生'
+            >
+              <GitBranch className='w-4 h-4' />
+            </button>
+          )}
+          {derivableStatuses.includes(record.status) && (
+            <button
+              onClick={() => openReject(record)}
+              className='p-1 text-orange-600 hover:text-orange-800 hover:bg-orange-50 rounded transition-colors'
+              title='拒收'
+            >
+              <XCircle className='w-4 h-4' />
+            </button>
+          )}
+          <button
+            onClick={() => openLineage(record)}
+            className='p-1 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded transition-colors'
+            title='样本谱系'
+          >
+            <Network className='w-4 h-4' />
+          </button>
           <button
             onClick={() => handleDelete(record.id)}
             className='p-1 text-red-600 hover:text-red-800 hover:bg-red-50 rounded transition-colors'
@@ -376,17 +485,145 @@ const SampleList: React.FC = () => {
     if (!confirm('确定要删除这个样本吗？')) return
 
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 500))
+      await SampleService.deleteSample(id)
       // 使用局部更新优化
       updateData(prevSamples => prevSamples.filter(sample => sample.id !== id))
       toast.success('样本删除成功')
-    } catch (error) {
+    } catch (error: unknown) {
       console.error('删除失败:', error)
-      toast.error('删除失败，请重试')
+      toast.error(getApiErrorMessage(error, '删除失败，请重试'))
     }
   }, [updateData])
 
+  // 打开拒收弹窗
+  const openReject = useCallback((sample: Sample) => {
+    setRejectTarget(sample)
+    setRejectForm({ reasonCode: 'hemolysis', reasonDetail: '' })
+  }, [])
+
+  /**
+   * 提交拒收
+   * @description 样本及送检单转为异常，并生成重采申请通知送检单位
+   */
+  const handleReject = async () => {
+    if (!rejectTarget) return
+    if (rejectForm.reasonCode === 'other' && !rejectForm.reasonDetail.trim()) {
+      toast.error('拒收原因为其他时请填写说明')
+      return
+    }
+
+    try {
+      setRejecting(true)
+      const rejection = await SampleRejectionService.rejectSample(rejectTarget.id, {
+        reason_code: rejectForm.reasonCode,
+        reason_detail: rejectForm.reasonDetail.trim() || undefined,
+      })
+      toast.success(`样本已拒收，重采申请 ${rejection.recollection_no} 已通知送检单位`)
+      setRejectTarget(null)
+      refresh()
+    } catch (error: unknown) {
+      console.error('拒收失败:', error)
+      toast.error(getApiErrorMessage(error, '拒收失败，请重试'))
+    } finally {
+      setRejecting(false)
+    }
+  }
+
+  // 打开分装/衍生弹窗
+  const openDerive = useCallback((sample: Sample) => {
+    setDeriveTarget(sample)
+    setDerivedSamples([])
+    setDeriveForm({
+      derivationType: 'aliquot',
+      count: 2,
+      volume: 0,
+      unit: sample.unit,
+      sampleTypeId: '',
+      consumedVolume: 0,
+      method: '',
+      remarks: '',
+    })
+  }, [])
+
+  // 衍生样本需选择产物类型，首次打开弹窗时加载样本类型
+  useEffect(() => {
+    if (!deriveTarget || sampleTypes.length > 0) return
+    SampleService.getReceiveOptions()
+      .then(options => setSampleTypes(options.sample_types))
+      .catch(error => console.error('加载样本类型失败:', error))
+  }, [deriveTarget, sampleTypes.length])
+
+  /**
+   * 提交分装/衍生
+   * @description 分装按每份体积之和扣减来源样本，衍生按填写的消耗量扣减
+   */
+  const handleDerive = async () => {
+    if (!deriveTarget) return
+
+    const { derivationType, count, volume, unit, sampleTypeId, consumedVolume } =
+      deriveForm
+    if (count < 1 || volume <= 0) {
+      toast.error('请填写子样本份数和每份体积')
+      return
+    }
+    if (derivationType === 'derivative' && (!sampleTypeId || consumedVolume <= 0)) {
+      toast.error('衍生处理须选择产物类型并填写消耗量')
+      return
+    }
+
+    setDeriving(true)
+    try {
+      const result = await SampleService.deriveSamples(deriveTarget.id, {
+        derivation_type: derivationType,
+        children: Array.from({ length: count }, () =>
+          derivationType === 'aliquot'
+            ? { volume }
+            : { sample_type_id: sampleTypeId, volume, unit: unit || undefined }
+        ),
+        consumed_volume:
+          derivationType === 'derivative' ? consumedVolume : undefined,
+        method: deriveForm.method || undefined,
+        remarks: deriveForm.remarks || undefined,
+      })
+      setDerivedSamples(result.children)
+      toast.success(
+        `已${derivationType === 'aliquot' ? '分装' : '衍生'} ${result.children.length} 个子样本`
+      )
+      refresh()
+    } catch (error: unknown) {
+      console.error('分装/衍生失败:', error)
+      toast.error(getApiErrorMessage(error, '操作失败，请重试'))
+    } finally {
+      setDeriving(false)
+    }
+  }
+
+  // 打印子样本标签
+  const handlePrintDerived = async () => {
+    try {
+      const blob = await SampleService.printLabels({
+        sample_ids: derivedSamples.map(sample => sample.id),
+        format: 'pdf',
+      })
+      window.open(URL.createObjectURL(blob), '_blank')
+    } catch (error) {
+      console.error('打印标签失败:', error)
+      toast.error('打印标签失败')
+    }
+  }
+
+  // 打开谱系弹窗
+  const openLineage = useCallback(async (sample: Sample) => {
+    setLineageTarget(sample)
+    setLineage(null)
+    try {
+      setLineage(await SampleService.getLineage(sample.id))
+    } catch (error) {
+      console.error('加载样本谱系失败:', error)
+      toast.error('加载样本谱系失败')
+    }
+  }, [])
+
   const handleExport = useCallback(() => {
     toast.info('导出功能开发中...')
   }, [])
@@ -461,12 +698,12 @@ const SampleList: React.FC = () => {
           <div className='bg-white rounded-lg shadow-sm border p-4'>
             <div className='flex items-center'>
               <div className='w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center'>
-                <span className='text-yellow-600 font-bold text-sm'>待</span>
+                <span className='text-yellow-600 font-bold text-sm'>收</span>
               </div>
               <div className='ml-3'>
-                <p className='text-sm font-medium text-gray-500'>待接收</p>
+                <p className='text-sm font-medium text-gray-500'>已接收</p>
                 <p className='text-2xl font-bold text-yellow-600'>
-                  {stats.pending}
+                  {stats.received}
                 </p>
               </div>
             </div>
@@ -474,12 +711,12 @@ const SampleList: React.FC = () => {
           <div className='bg-white rounded-lg shadow-sm border p-4'>
             <div className='flex items-center'>
               <div className='w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center'>
-                <span className='text-blue-600 font-bold text-sm'>收</span>
+                <span className='text-blue-600 font-bold text-sm'>库</span>
               </div>
               <div className='ml-3'>
-                <p className='text-sm font-medium text-gray-500'>已接收</p>
+                <p className='text-sm font-medium text-gray-500'>在库</p>
                 <p className='text-2xl font-bold text-blue-600'>
-                  {stats.received}
+                  {stats.inStorage}
                 </p>
               </div>
             </div>
@@ -487,12 +724,12 @@ const SampleList: React.FC = () => {
           <div className='bg-white rounded-lg shadow-sm border p-4'>
             <div className='flex items-center'>
               <div className='w-8 h-8 bg-orange-100 rounded-lg flex items-center justify-center'>
-                <span className='text-orange-600 font-bold text-sm'>处</span>
+                <span className='text-orange-600 font-bold text-sm'>检</span>
               </div>
               <div className='ml-3'>
-                <p className='text-sm font-medium text-gray-500'>处理中</p>
+                <p className='text-sm font-medium text-gray-500'>检测中</p>
                 <p className='text-2xl font-bold text-orange-600'>
-                  {stats.processing}
+                  {stats.testing}
                 </p>
               </div>
             </div>
@@ -538,7 +775,7 @@ const SampleList: React.FC = () => {
                 type='text'
                 value={searchTerm}
                 onChange={e => setSearchTerm(e.target.value)}
-                placeholder='搜索样本编号、名称或接收人'
+                placeholder='搜索样本编号、条码或患者'
                 className='w-full pl-10 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
               />
             </div>
@@ -631,6 +868,337 @@ const SampleList: React.FC = () => {
           rowKey='id'
         />
       </div>
+
+      {/* 分装/衍生弹窗 */}
+      <Modal
+        open={Boolean(deriveTarget)}
+        onClose={() => setDeriveTarget(null)}
+        title={`分装/衍生 - ${deriveTarget?.sampleCode || ''}`}
+        size='large'
+      >
+        {deriveTarget && derivedSamples.length === 0 && (
+          <div className='space-y-4'>
+            <div className='bg-gray-50 rounded-md p-3 text-sm text-gray-700'>
+              {deriveTarget.sampleName} · 当前余量{' '}
+              <span className='font-medium'>
+                {deriveTarget.quantity ?? '-'} {deriveTarget.unit}
+              </span>
+            </div>
+
+            <div className='flex space-x-6'>
+              {(['aliquot', 'derivative'] as DerivationType[]).map(type => (
+                <label key={type} className='flex items-center space-x-2 text-sm'>
+                  <input
+                    type='radio'
+                    checked={deriveForm.derivationType === type}
+                    onChange={() =>
+                      setDeriveForm(prev => ({ ...prev, derivationType: type }))
+                    }
+                  />
+                  <span>
+                    {type === 'aliquot'
+                      ? '分装（同类型子样本）'
+                      : '衍生（如提取DNA）'}
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className='grid grid-cols-2 gap-4'>
+              {deriveForm.derivationType === 'derivative' && (
+                <>
+                  <div>
+                    <label className='block text-sm font-medium text-gray-700 mb-1'>
+                      产物类型
+                    </label>
+                    <select
+                      value={deriveForm.sampleTypeId}
+                      onChange={e =>
+                        setDeriveForm(prev => ({
+                          ...prev,
+                          sampleTypeId: e.target.value,
+                        }))
+                      }
+                      className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                    >
+                      <option value=''>请选择</option>
+                      {sampleTypes.map(type => (
+                        <option key={type.id} value={type.id}>
+                          {type.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className='block text-sm font-medium text-gray-700 mb-1'>
+                      来源消耗量（{deriveTarget.unit}）
+                    </label>
+                    <input
+                      type='number'
+                      min={0}
+                      step='0.01'
+                      value={deriveForm.consumedVolume || ''}
+                      onChange={e =>
+                        setDeriveForm(prev => ({
+                          ...prev,
+                          consumedVolume: Number(e.target.value),
+                        }))
+                      }
+                      className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                    />
+                  </div>
+                </>
+              )}
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>
+                  份数
+                </label>
+                <input
+                  type='number'
+                  min={1}
+                  max={96}
+                  value={deriveForm.count}
+                  onChange={e =>
+                    setDeriveForm(prev => ({
+                      ...prev,
+                      count: Number(e.target.value),
+                    }))
+                  }
+                  className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                />
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>
+                  每份体积
+                </label>
+                <div className='flex space-x-2'>
+                  <input
+                    type='number'
+                    min={0}
+                    step='0.01'
+                    value={deriveForm.volume || ''}
+                    onChange={e =>
+                      setDeriveForm(prev => ({
+                        ...prev,
+                        volume: Number(e.target.value),
+                      }))
+                    }
+                    className='flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                  />
+                  <input
+                    type='text'
+                    value={deriveForm.unit}
+                    disabled={deriveForm.derivationType === 'aliquot'}
+                    onChange={e =>
+                      setDeriveForm(prev => ({ ...prev, unit: e.target.value }))
+                    }
+                    className='w-20 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100'
+                  />
+                </div>
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>
+                  处理方法
+                </label>
+                <input
+                  type='text'
+                  value={deriveForm.method}
+                  placeholder='如 DNA提取、血浆分离'
+                  onChange={e =>
+                    setDeriveForm(prev => ({ ...prev, method: e.target.value }))
+                  }
+                  className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                />
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-1'>
+                  备注
+                </label>
+                <input
+                  type='text'
+                  value={deriveForm.remarks}
+                  onChange={e =>
+                    setDeriveForm(prev => ({ ...prev, remarks: e.target.value }))
+                  }
+                  className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+                />
+              </div>
+            </div>
+
+            {deriveForm.derivationType === 'aliquot' && (
+              <p className='text-sm text-gray-500'>
+                将扣减来源样本 {(deriveForm.count * deriveForm.volume).toFixed(2)}{' '}
+                {deriveTarget.unit}
+              </p>
+            )}
+
+            <div className='flex justify-end space-x-3'>
+              <button
+                onClick={() => setDeriveTarget(null)}
+                className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
+              >
+                取消
+              </button>
+              <button
+                onClick={handleDerive}
+                disabled={deriving}
+                className='px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300'
+              >
+                {deriving ? '处理中...' : '确认'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {derivedSamples.length > 0 && (
+          <div className='space-y-4'>
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='text-left text-gray-500 border-b'>
+                  <th className='py-2'>样本编号</th>
+                  <th className='py-2'>条码</th>
+                  <th className='py-2'>类型</th>
+                  <th className='py-2'>体积</th>
+                </tr>
+              </thead>
+              <tbody>
+                {derivedSamples.map(sample => (
+                  <tr key={sample.id} className='border-b'>
+                    <td className='py-2 font-mono'>{sample.sample_no}</td>
+                    <td className='py-2 font-mono'>{sample.barcode}</td>
+                    <td className='py-2'>{sample.sample_types?.name || '-'}</td>
+                    <td className='py-2'>
+                      {sample.volume ?? '-'} {sample.unit || ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className='flex justify-end space-x-3'>
+              <button
+                onClick={() => setDeriveTarget(null)}
+                className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
+              >
+                关闭
+              </button>
+              <button
+                onClick={handlePrintDerived}
+                className='inline-flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700'
+              >
+                <Printer className='w-4 h-4 mr-2' />
+                打印子样本标签
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* 样本拒收弹窗 */}
+      <Modal
+        open={Boolean(rejectTarget)}
+        onClose={() => setRejectTarget(null)}
+        title={`拒收样本 - ${rejectTarget?.sampleCode || ''}`}
+        size='medium'
+      >
+        {rejectTarget && (
+          <div className='space-y-4'>
+            <div className='text-sm text-gray-600'>
+              {rejectTarget.sampleName} · 送检单 {rejectTarget.submissionNo} ·{' '}
+              {rejectTarget.patientName}
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                拒收原因 <span className='text-red-500'>*</span>
+              </label>
+              <select
+                value={rejectForm.reasonCode}
+                onChange={e =>
+                  setRejectForm(prev => ({
+                    ...prev,
+                    reasonCode: e.target.value as SampleRejectionReason,
+                  }))
+                }
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md'
+              >
+                {rejectionReasonOptions.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                说明
+                {rejectForm.reasonCode === 'other' && (
+                  <span className='text-red-500'> *</span>
+                )}
+              </label>
+              <textarea
+                rows={3}
+                maxLength={500}
+                value={rejectForm.reasonDetail}
+                onChange={e =>
+                  setRejectForm(prev => ({ ...prev, reasonDetail: e.target.value }))
+                }
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md'
+                placeholder='如溶血程度、实际样本量等'
+              />
+            </div>
+            <p className='text-xs text-orange-600'>
+              拒收后样本和送检单将转为异常，系统生成重采申请并通知送检单位联系人
+            </p>
+            <div className='flex justify-end space-x-3'>
+              <button
+                type='button'
+                onClick={() => setRejectTarget(null)}
+                className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+              >
+                取消
+              </button>
+              <button
+                type='button'
+                onClick={handleReject}
+                disabled={rejecting}
+                className='px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 text-sm'
+              >
+                {rejecting ? '提交中...' : '确认拒收'}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* 样本谱系弹窗 */}
+      <Modal
+        open={Boolean(lineageTarget)}
+        onClose={() => setLineageTarget(null)}
+        title={`样本谱系 - ${lineageTarget?.sampleCode || ''}`}
+        size='large'
+      >
+        {!lineage ? (
+          <div className='py-8 text-center text-sm text-gray-500'>加载中...</div>
+        ) : (
+          <div className='space-y-4'>
+            <div className='text-sm text-gray-600'>
+              来源路径：
+              {lineage.path.map(item => item.sample_no).join(' → ')}
+              <span className='ml-4 text-gray-500'>
+                谱系内共 {lineage.total} 个样本
+              </span>
+            </div>
+            {lineage.root && (
+              <div className='border rounded-md p-3 max-h-96 overflow-auto'>
+                <LineageTreeNode
+                  node={lineage.root}
+                  currentId={lineage.sample_id}
+                  depth={0}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
       </div>
     </ErrorBoundary>
   )
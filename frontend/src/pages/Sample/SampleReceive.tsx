@@ -1,11 +1,11 @@
 /**
  * 样本接收页面
- * 样本接收功能页面，支持可视化孔位管理
+ * 样本接收功能页面，支持可视化孔位管理及Excel/CSV清单批量导入，接收后打印样本条码标签
  * @author Erikwang
  * @date 2025-08-20
  */
 
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import {
   ArrowLeft,
@@ -14,6 +14,8 @@ import {
   Package,
   CheckCircle,
   TestTube,
+  Printer,
+  FileSpreadsheet,
 } from 'lucide-react'
 import FormBuilder, { FormField } from '../../components/FormBuilder'
 import ContainerInfo from '../../components/ContainerInfo'
@@ -22,7 +24,16 @@ import WellPlateVisualization, {
   WellStatus,
 } from '../../components/WellPlateVisualization'
 import PackageInfo, { PackageData } from '../../components/PackageInfo'
+import SampleManifestImport from '../../components/SampleManifestImport'
 import { toast } from 'sonner'
+import {
+  SampleService,
+  type Sample,
+  type SampleType,
+  type ReceivableSubmission,
+  type LabelFormat,
+  type LabelSymbology,
+} from '../../services/sampleService'
 
 // 样本来源选项
 const sampleSourceOptions = [
@@ -41,6 +52,9 @@ const sampleStatusOptions = [
   { label: '已完成', value: 'completed' },
 ]
 
+// 保存温度选项
+const storageTemperatureOptions = ['室温', '2-8℃', '-20℃', '-80℃', '液氮']
+
 // 容器规格接口
 interface ContainerSpec {
   rows: number
@@ -53,6 +67,9 @@ interface SampleInfo {
   id: string
   sampleCode: string
   source: string
+  sampleTypeId: string
+  collectionTime: string
+  storageTemperature: string
   wellPosition?: string // 孔位位置
   receivedDate: string
   receivedBy: string
@@ -79,6 +96,9 @@ const SampleReceive: React.FC = () => {
       id: '1',
       sampleCode: '',
       source: '',
+      sampleTypeId: '',
+      collectionTime: '',
+      storageTemperature: '',
       receivedDate: new Date().toISOString().split('T')[0],
       receivedBy: '',
       status: 'pending',
@@ -86,6 +106,32 @@ const SampleReceive: React.FC = () => {
   ])
   const [packageData, setPackageData] = useState<PackageData>({})
 
+  // 接收选项及接收结果
+  const [sampleTypes, setSampleTypes] = useState<SampleType[]>([])
+  const [submissions, setSubmissions] = useState<ReceivableSubmission[]>([])
+  const [submissionId, setSubmissionId] = useState('')
+  const [receivedSamples, setReceivedSamples] = useState<Sample[]>([])
+  const [manifestOpen, setManifestOpen] = useState(false)
+
+  // 标签打印设置
+  const [labelFormat, setLabelFormat] = useState<LabelFormat>('pdf')
+  const [labelSymbology, setLabelSymbology] =
+    useState<LabelSymbology>('code128')
+  const [labelCopies, setLabelCopies] = useState(1)
+  const [printing, setPrinting] = useState(false)
+
+  useEffect(() => {
+    SampleService.getReceiveOptions()
+      .then(options => {
+        setSampleTypes(options.sample_types)
+        setSubmissions(options.submissions)
+      })
+      .catch(error => {
+        console.error('加载接收选项失败:', error)
+        toast.error('加载送检单和样本类型失败')
+      })
+  }, [])
+
   // 处理容器规格变化
   const handleContainerSpecChange = (spec: ContainerSpec) => {
     setContainerSpec(spec)
@@ -179,7 +225,7 @@ const SampleReceive: React.FC = () => {
   // 自动分配样本到选中的孔位
   const autoAssignSamplesToWells = () => {
     const availableSamples = samples.filter(
-      s => !s.wellPosition && s.sampleCode
+      s => !s.wellPosition && s.sampleTypeId
     )
     const selectedWellsList = wells.filter(
       w => selectedWells.includes(w.id) && w.status === WellStatus.SELECTED
@@ -249,6 +295,9 @@ const SampleReceive: React.FC = () => {
       id: Date.now().toString(),
       sampleCode: '',
       source: '',
+      sampleTypeId: '',
+      collectionTime: '',
+      storageTemperature: '',
       receivedDate: new Date().toISOString().split('T')[0],
       receivedBy: '',
       status: 'pending',
@@ -276,42 +325,195 @@ const SampleReceive: React.FC = () => {
 
   // 提交表单
   const handleSubmit = async (receiveData: Record<string, any>) => {
+    if (!submissionId) {
+      toast.error('请选择送检单')
+      return
+    }
+
     // 验证样本信息
     for (const sample of samples) {
-      if (!sample.sampleCode || !sample.source) {
-        toast.error('请完善所有样本信息（样本编号和来源为必填项）')
+      if (!sample.sampleTypeId || !sample.source) {
+        toast.error('请完善所有样本信息（样本类型和来源为必填项）')
         return
       }
     }
 
     setLoading(true)
+    const created: Sample[] = []
     try {
-      // 构建提交数据
-      const submitData = {
-        ...receiveData,
-        samples,
-        containerSpec,
-        wells,
-        packageData,
-        receiveMode,
-        receivedAt: new Date().toISOString(),
+      // 逐个登记，保证样本编号按录入顺序生成
+      for (const sample of samples) {
+        const remarks = [
+          `样本来源：${sampleSourceOptions.find(o => o.value === sample.source)?.label || sample.source}`,
+          sample.wellPosition ? `孔位：${containerSpec.name} ${sample.wellPosition}` : '',
+          receiveData.receiveNotes || '',
+        ]
+          .filter(Boolean)
+          .join('；')
+
+        created.push(
+          await SampleService.createSample({
+            submission_id: submissionId,
+            sample_type_id: sample.sampleTypeId,
+            barcode: sample.sampleCode.trim() || undefined,
+            collection_time: sample.collectionTime
+              ? new Date(sample.collectionTime).toISOString()
+              : undefined,
+            storage_temperature: sample.storageTemperature || undefined,
+            remarks,
+          })
+        )
       }
 
-      console.log('样本接收数据:', submitData)
-
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      toast.success(`成功接收 ${samples.length} 个样本！`)
-      navigate('/sample')
+      toast.success(`成功接收 ${created.length} 个样本，请打印样本标签`)
     } catch (error) {
       console.error('接收失败:', error)
-      toast.error('接收失败，请重试')
+      toast.error(
+        created.length > 0
+          ? `已接收 ${created.length} 个样本，其余样本接收失败`
+          : '接收失败，请重试'
+      )
     } finally {
+      setReceivedSamples(created)
       setLoading(false)
     }
   }
 
+  /**
+   * 打印样本标签
+   * @description PDF在新窗口打开供打印，ZPL下载后发送到热敏打印机
+   */
+  const handlePrintLabels = async () => {
+    try {
+      setPrinting(true)
+      const blob = await SampleService.printLabels({
+        sample_ids: receivedSamples.map(sample => sample.id),
+        format: labelFormat,
+        symbology: labelSymbology,
+        copies: labelCopies,
+      })
+      const url = URL.createObjectURL(blob)
+
+      if (labelFormat === 'pdf') {
+        window.open(url, '_blank')
+      } else {
+        const link = document.createElement('a')
+        link.href = url
+        link.download = `labels_${Date.now()}.zpl`
+        link.click()
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000)
+      toast.success('标签已生成')
+    } catch (error) {
+      console.error('生成标签失败:', error)
+      toast.error('生成标签失败，请重试')
+    } finally {
+      setPrinting(false)
+    }
+  }
+
+  // 打印标签步骤
+  if (receivedSamples.length > 0) {
+    return (
+      <div className='max-w-3xl mx-auto p-4 md:p-6 space-y-4'>
+        <div className='bg-white rounded-lg shadow-md border p-4 md:p-6'>
+          <div className='flex items-center space-x-3 mb-4'>
+            <Printer className='w-5 h-5 text-blue-600' />
+            <h1 className='text-xl font-bold text-gray-900'>打印样本标签</h1>
+          </div>
+
+          <table className='w-full text-sm mb-4'>
+            <thead>
+              <tr className='text-left text-gray-600 border-b'>
+                <th className='py-2'>样本编号</th>
+                <th className='py-2'>条码</th>
+                <th className='py-2'>样本类型</th>
+                <th className='py-2'>保存温度</th>
+              </tr>
+            </thead>
+            <tbody>
+              {receivedSamples.map(sample => (
+                <tr key={sample.id} className='border-b'>
+                  <td className='py-2'>{sample.sample_no}</td>
+                  <td className='py-2 font-mono'>{sample.barcode}</td>
+                  <td className='py-2'>{sample.sample_types?.name}</td>
+                  <td className='py-2'>{sample.storage_temperature || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className='grid grid-cols-1 md:grid-cols-3 gap-3 mb-4'>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>
+                打印方式
+              </label>
+              <select
+                value={labelFormat}
+                onChange={e => setLabelFormat(e.target.value as LabelFormat)}
+                className='w-full px-2 py-1 text-sm border border-gray-300 rounded'
+              >
+                <option value='pdf'>A4标签纸（PDF）</option>
+                <option value='zpl'>热敏打印机（ZPL）</option>
+              </select>
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>
+                码制
+              </label>
+              <select
+                value={labelSymbology}
+                onChange={e =>
+                  setLabelSymbology(e.target.value as LabelSymbology)
+                }
+                className='w-full px-2 py-1 text-sm border border-gray-300 rounded'
+              >
+                <option value='code128'>一维码（Code128）</option>
+                <option value='qrcode'>二维码</option>
+              </select>
+            </div>
+            <div>
+              <label className='block text-xs font-medium text-gray-700 mb-1'>
+                每个样本份数
+              </label>
+              <input
+                type='number'
+                min={1}
+                max={10}
+                value={labelCopies}
+                onChange={e =>
+                  setLabelCopies(
+                    Math.min(10, Math.max(1, Number(e.target.value) || 1))
+                  )
+                }
+                className='w-full px-2 py-1 text-sm border border-gray-300 rounded'
+              />
+            </div>
+          </div>
+
+          <div className='flex justify-end space-x-3'>
+            <button
+              type='button'
+              onClick={() => navigate('/sample')}
+              className='px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm'
+            >
+              完成
+            </button>
+            <button
+              type='button'
+              onClick={handlePrintLabels}
+              disabled={printing}
+              className='inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm'
+            >
+              <Printer className='w-4 h-4 mr-2' />
+              {printing ? '生成中...' : '打印标签'}
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className='max-w-7xl mx-auto p-4 md:p-6 space-y-4 md:space-y-6'>
       {/* 页面标题 */}
@@ -428,6 +630,14 @@ const SampleReceive: React.FC = () => {
                   <CheckCircle className='w-4 h-4 inline mr-2' />
                   批量接收
                 </button>
+                <button
+                  type='button'
+                  onClick={() => setManifestOpen(true)}
+                  className='px-3 py-2 rounded-md border transition-colors text-sm bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                >
+                  <FileSpreadsheet className='w-4 h-4 inline mr-2' />
+                  清单导入
+                </button>
               </div>
             </div>
 
@@ -464,6 +674,29 @@ const SampleReceive: React.FC = () => {
                 </div>
               </div>
 
+              <div className='mb-3'>
+                <label className='block text-xs font-medium text-gray-700 mb-1'>
+                  送检单 <span className='text-red-500'>*</span>
+                </label>
+                <select
+                  value={submissionId}
+                  onChange={e => setSubmissionId(e.target.value)}
+                  className='w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-transparent'
+                  required
+                >
+                  <option value=''>请选择送检单</option>
+                  {submissions.map(submission => (
+                    <option key={submission.id} value={submission.id}>
+                      {submission.is_urgent ? '【急】' : ''}
+                      {submission.submission_no} - {submission.patient_name}
+                      {submission.client_units
+                        ? `（${submission.client_units.name}）`
+                        : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className='space-y-3 max-h-80 xl:max-h-96 overflow-y-auto'>
                 {samples.map((sample, index) => (
                   <div
@@ -488,7 +721,7 @@ const SampleReceive: React.FC = () => {
                     <div className='space-y-3'>
                       <div>
                         <label className='block text-xs font-medium text-gray-700 mb-1'>
-                          样本编号 <span className='text-red-500'>*</span>
+                          样本条码
                         </label>
                         <input
                           type='text'
@@ -500,12 +733,78 @@ const SampleReceive: React.FC = () => {
                               e.target.value
                             )
                           }
-                          placeholder='请输入样本编号'
+                          placeholder='已贴条码请扫描，留空自动分配'
+                          className='w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-transparent'
+                        />
+                      </div>
+
+                      <div>
+                        <label className='block text-xs font-medium text-gray-700 mb-1'>
+                          样本类型 <span className='text-red-500'>*</span>
+                        </label>
+                        <select
+                          value={sample.sampleTypeId}
+                          onChange={e =>
+                            updateSample(
+                              sample.id,
+                              'sampleTypeId',
+                              e.target.value
+                            )
+                          }
                           className='w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-transparent'
                           required
+                        >
+                          <option value=''>请选择样本类型</option>
+                          {sampleTypes.map(type => (
+                            <option key={type.id} value={type.id}>
+                              {type.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className='block text-xs font-medium text-gray-700 mb-1'>
+                          采集时间
+                        </label>
+                        <input
+                          type='datetime-local'
+                          value={sample.collectionTime}
+                          onChange={e =>
+                            updateSample(
+                              sample.id,
+                              'collectionTime',
+                              e.target.value
+                            )
+                          }
+                          className='w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-transparent'
                         />
                       </div>
 
+                      <div>
+                        <label className='block text-xs font-medium text-gray-700 mb-1'>
+                          保存温度
+                        </label>
+                        <select
+                          value={sample.storageTemperature}
+                          onChange={e =>
+                            updateSample(
+                              sample.id,
+                              'storageTemperature',
+                              e.target.value
+                            )
+                          }
+                          className='w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-transparent'
+                        >
+                          <option value=''>请选择保存温度</option>
+                          {storageTemperatureOptions.map(option => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
                       <div>
                         <label className='block text-xs font-medium text-gray-700 mb-1'>
                           样本来源 <span className='text-red-500'>*</span>
@@ -548,13 +847,13 @@ const SampleReceive: React.FC = () => {
                         <div className='flex items-center justify-between p-2 bg-gray-50 border border-gray-200 rounded'>
                           <div className='text-xs text-gray-600'>
                             <span className='font-medium'>未分配孔位</span>
-                            {!sample.sampleCode && (
+                            {!sample.sampleTypeId && (
                               <span className='text-gray-500 block'>
-                                (请先填写编号)
+                                (请先选择样本类型)
                               </span>
                             )}
                           </div>
-                          {sample.sampleCode && selectedWells.length > 0 && (
+                          {sample.sampleTypeId && selectedWells.length > 0 && (
                             <button
                               type='button'
                               onClick={() => {
@@ -594,6 +893,13 @@ const SampleReceive: React.FC = () => {
           </form>
         </div>
       </div>
+
+      {/* 清单导入 */}
+      <SampleManifestImport
+        open={manifestOpen}
+        onClose={() => setManifestOpen(false)}
+        onImported={setReceivedSamples}
+      />
     </div>
   )
 }
@@ -0,0 +1,464 @@
+/**
+ * 样本拒收重采页面
+ * 跟踪拒收样本的重采申请，替代样本到达后登记到样，送检单位放弃时取消申请
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowLeft, Filter, RefreshCw } from 'lucide-react'
+import DataTable from '../../components/DataTable'
+import Modal from '../../components/Modal'
+import { toast } from 'sonner'
+import { getApiErrorMessage } from '../../lib/http'
+import {
+  SampleRejectionService,
+  type SampleRejection,
+  type SampleRejectionReason,
+  type RecollectionStatus,
+} from '../../services/sampleRejectionService'
+import { SampleService, type Sample } from '../../services/sampleService'
+
+// 重采状态配置
+const recollectionStatusConfig: Record<
+  RecollectionStatus,
+  { label: string; className: string }
+> = {
+  awaiting_recollection: { label: '待重采', className: 'bg-yellow-100 text-yellow-800' },
+  recollected: { label: '已重采', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: '已取消', className: 'bg-gray-100 text-gray-800' },
+}
+
+// 拒收原因名称
+const rejectionReasonText: Record<SampleRejectionReason, string> = {
+  hemolysis: '溶血',
+  insufficient_volume: '样本量不足',
+  wrong_container: '容器错误',
+  expired_stability: '超出稳定期',
+  other: '其他',
+}
+
+/**
+ * 格式化日期时间
+ * @param value ISO时间
+ * @returns 本地时间文本
+ */
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString() : '-'
+
+const SampleRecollection: React.FC = () => {
+  const navigate = useNavigate()
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [rejections, setRejections] = useState<SampleRejection[]>([])
+  const [statusFilter, setStatusFilter] = useState<RecollectionStatus | ''>(
+    'awaiting_recollection'
+  )
+  const [reasonFilter, setReasonFilter] = useState<SampleRejectionReason | ''>('')
+
+  // 登记到样
+  const [fulfilTarget, setFulfilTarget] = useState<SampleRejection | null>(null)
+  const [candidates, setCandidates] = useState<Sample[]>([])
+  const [replacementId, setReplacementId] = useState('')
+
+  // 取消申请
+  const [cancelTarget, setCancelTarget] = useState<SampleRejection | null>(null)
+  const [cancelReason, setCancelReason] = useState('')
+
+  // 加载重采申请
+  const loadRejections = useCallback(async () => {
+    setLoading(true)
+    try {
+      const result = await SampleRejectionService.getRejections({
+        limit: 100,
+        status: statusFilter,
+        reason_code: reasonFilter,
+      })
+      setRejections(result.data)
+    } catch (error) {
+      console.error('加载重采申请失败:', error)
+      toast.error('加载重采申请失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter, reasonFilter])
+
+  useEffect(() => {
+    loadRejections()
+  }, [loadRejections])
+
+  /**
+   * 打开登记到样
+   * @description 候选样本为同一送检单中除被拒收样本外状态正常的样本
+   */
+  const openFulfil = async (rejection: SampleRejection) => {
+    setFulfilTarget(rejection)
+    setReplacementId('')
+    setCandidates([])
+    try {
+      const result = await SampleService.getSamples({
+        submission_id: rejection.submission_id,
+        limit: 100,
+      })
+      setCandidates(
+        result.data.filter(
+          sample =>
+            sample.id !== rejection.sample_id &&
+            !['abnormal', 'destroyed'].includes(sample.status)
+        )
+      )
+    } catch (error) {
+      console.error('加载送检单样本失败:', error)
+      toast.error('加载送检单样本失败')
+    }
+  }
+
+  // 提交登记到样
+  const handleFulfil = async () => {
+    if (!fulfilTarget || !replacementId) {
+      toast.error('请选择替代样本')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      await SampleRejectionService.fulfil(fulfilTarget.id, replacementId)
+      toast.success('重采到样已登记')
+      setFulfilTarget(null)
+      loadRejections()
+    } catch (error: unknown) {
+      console.error('登记到样失败:', error)
+      toast.error(getApiErrorMessage(error, '登记到样失败，请重试'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // 提交取消申请
+  const handleCancel = async () => {
+    if (!cancelTarget || !cancelReason.trim()) {
+      toast.error('请填写取消原因')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      await SampleRejectionService.cancel(cancelTarget.id, cancelReason.trim())
+      toast.success('重采申请已取消')
+      setCancelTarget(null)
+      loadRejections()
+    } catch (error: unknown) {
+      console.error('取消重采申请失败:', error)
+      toast.error(getApiErrorMessage(error, '取消失败，请重试'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const columns = [
+    {
+      key: 'recollection_no',
+      title: '重采申请号',
+      dataIndex: 'recollection_no',
+      render: (value: string) => (
+        <span className='font-mono text-sm font-medium text-blue-600'>
+          {value}
+        </span>
+      ),
+    },
+    {
+      key: 'sample',
+      title: '拒收样本',
+      dataIndex: 'sample',
+      render: (value: SampleRejection['sample']) => (
+        <div className='text-sm'>
+          <div className='font-mono'>{value?.sample_no || '-'}</div>
+          <div className='text-xs text-gray-500'>
+            {value?.barcode} {value?.sample_types?.name}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'submissions',
+      title: '送检单',
+      dataIndex: 'submissions',
+      render: (value: SampleRejection['submissions']) => (
+        <div className='text-sm'>
+          <div>{value?.submission_no || '-'}</div>
+          <div className='text-xs text-gray-500'>
+            {value?.patient_name} · {value?.client_units?.name}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'reason_code',
+      title: '拒收原因',
+      dataIndex: 'reason_code',
+      render: (value: SampleRejectionReason, record: SampleRejection) => (
+        <span className='text-sm' title={record.reason_detail}>
+          {rejectionReasonText[value]}
+          {record.reason_detail ? `：${record.reason_detail}` : ''}
+        </span>
+      ),
+    },
+    {
+      key: 'notified_contact',
+      title: '已通知联系人',
+      dataIndex: 'notified_contact',
+      render: (value?: string) => (
+        <span className='text-sm text-gray-600'>{value || '未登记联系方式'}</span>
+      ),
+    },
+    {
+      key: 'status',
+      title: '状态',
+      dataIndex: 'status',
+      render: (value: RecollectionStatus, record: SampleRejection) => {
+        const config = recollectionStatusConfig[value]
+        return (
+          <div>
+            <span
+              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.className}`}
+            >
+              {config.label}
+            </span>
+            {record.replacement && (
+              <div className='text-xs text-gray-500 mt-1'>
+                替代样本 {record.replacement.sample_no}
+              </div>
+            )}
+            {record.close_reason && (
+              <div className='text-xs text-gray-500 mt-1'>
+                {record.close_reason}
+              </div>
+            )}
+          </div>
+        )
+      },
+    },
+    {
+      key: 'rejected_at',
+      title: '拒收时间',
+      dataIndex: 'rejected_at',
+      render: (value: string) => (
+        <span className='text-sm'>{formatTime(value)}</span>
+      ),
+    },
+    {
+      key: 'actions',
+      title: '操作',
+      dataIndex: 'id',
+      render: (_: string, record: SampleRejection) =>
+        record.status === 'awaiting_recollection' ? (
+          <div className='flex items-center space-x-3 text-sm'>
+            <button
+              onClick={() => openFulfil(record)}
+              className='text-blue-600 hover:text-blue-800'
+            >
+              登记到样
+            </button>
+            <button
+              onClick={() => {
+                setCancelTarget(record)
+                setCancelReason('')
+              }}
+              className='text-gray-600 hover:text-gray-800'
+            >
+              取消
+            </button>
+          </div>
+        ) : (
+          <span className='text-sm text-gray-400'>-</span>
+        ),
+    },
+  ]
+
+  return (
+    <div className='max-w-7xl mx-auto p-6 space-y-6'>
+      {/* 页面标题 */}
+      <div className='bg-white rounded-lg shadow-md border p-6'>
+        <div className='flex items-center justify-between'>
+          <div className='flex items-center space-x-4'>
+            <button
+              onClick={() => navigate('/sample')}
+              className='p-2 hover:bg-gray-100 rounded-md transition-colors'
+            >
+              <ArrowLeft className='w-5 h-5' />
+            </button>
+            <div>
+              <h1 className='text-2xl font-bold text-gray-900'>拒收重采</h1>
+              <p className='text-gray-600 mt-1'>
+                跟踪拒收样本的重采申请，替代样本到达后登记到样并恢复送检单状态
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={loadRejections}
+            disabled={loading}
+            className='px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center space-x-2'
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>刷新</span>
+          </button>
+        </div>
+      </div>
+
+      <div className='bg-white rounded-lg shadow-md border p-6'>
+        {/* 筛选条件 */}
+        <div className='flex items-center space-x-2 mb-4'>
+          <Filter className='w-5 h-5 text-gray-600' />
+          <h2 className='text-lg font-semibold text-gray-900'>筛选条件</h2>
+        </div>
+        <div className='grid grid-cols-1 md:grid-cols-4 gap-4 mb-6'>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>
+              重采状态
+            </label>
+            <select
+              value={statusFilter}
+              onChange={e =>
+                setStatusFilter(e.target.value as RecollectionStatus | '')
+              }
+              className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+            >
+              <option value=''>全部状态</option>
+              {(Object.keys(recollectionStatusConfig) as RecollectionStatus[]).map(
+                status => (
+                  <option key={status} value={status}>
+                    {recollectionStatusConfig[status].label}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+          <div>
+            <label className='block text-sm font-medium text-gray-700 mb-1'>
+              拒收原因
+            </label>
+            <select
+              value={reasonFilter}
+              onChange={e =>
+                setReasonFilter(e.target.value as SampleRejectionReason | '')
+              }
+              className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+            >
+              <option value=''>全部原因</option>
+              {(Object.keys(rejectionReasonText) as SampleRejectionReason[]).map(
+                reason => (
+                  <option key={reason} value={reason}>
+                    {rejectionReasonText[reason]}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+        </div>
+
+        <DataTable columns={columns} dataSource={rejections} loading={loading} />
+      </div>
+
+      {/* 登记到样 */}
+      <Modal
+        open={Boolean(fulfilTarget)}
+        onClose={() => setFulfilTarget(null)}
+        title={`登记重采到样 - ${fulfilTarget?.recollection_no || ''}`}
+      >
+        {fulfilTarget && (
+          <div className='space-y-4'>
+            <p className='text-sm text-gray-600'>
+              拒收样本 {fulfilTarget.sample?.sample_no}（
+              {rejectionReasonText[fulfilTarget.reason_code]}），请选择送检单{' '}
+              {fulfilTarget.submissions?.submission_no} 中已接收的替代样本
+            </p>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                替代样本
+              </label>
+              <select
+                value={replacementId}
+                onChange={e => setReplacementId(e.target.value)}
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              >
+                <option value=''>请选择</option>
+                {candidates.map(sample => (
+                  <option key={sample.id} value={sample.id}>
+                    {sample.sample_no} · {sample.barcode} ·{' '}
+                    {sample.sample_types?.name}
+                  </option>
+                ))}
+              </select>
+              {candidates.length === 0 && (
+                <p className='text-xs text-gray-500 mt-1'>
+                  送检单暂无可用的替代样本，请先在样本接收中登记
+                </p>
+              )}
+            </div>
+            <div className='flex justify-end space-x-3'>
+              <button
+                onClick={() => setFulfilTarget(null)}
+                className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
+              >
+                取消
+              </button>
+              <button
+                onClick={handleFulfil}
+                disabled={submitting || !replacementId}
+                className='px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50'
+              >
+                {submitting ? '提交中...' : '确认到样'}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* 取消申请 */}
+      <Modal
+        open={Boolean(cancelTarget)}
+        onClose={() => setCancelTarget(null)}
+        title={`取消重采申请 - ${cancelTarget?.recollection_no || ''}`}
+      >
+        {cancelTarget && (
+          <div className='space-y-4'>
+            <p className='text-sm text-gray-600'>
+              取消后送检单保持异常状态，请与送检单位确认后续处理方式
+            </p>
+            <div>
+              <label className='block text-sm font-medium text-gray-700 mb-1'>
+                取消原因
+              </label>
+              <textarea
+                rows={3}
+                maxLength={500}
+                value={cancelReason}
+                onChange={e => setCancelReason(e.target.value)}
+                placeholder='如送检单位放弃重采'
+                className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+            </div>
+            <div className='flex justify-end space-x-3'>
+              <button
+                onClick={() => setCancelTarget(null)}
+                className='px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50'
+              >
+                返回
+              </button>
+              <button
+                onClick={handleCancel}
+                disabled={submitting}
+                className='px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50'
+              >
+                {submitting ? '提交中...' : '确认取消'}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
+
+export default SampleRecollection
@@ -5,7 +5,7 @@
  * @date 2025-08-20
  */
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import {
   ArrowLeft,
@@ -15,17 +15,43 @@ import {
   Search,
   Filter,
   CheckSquare,
+  Wand2,
 } from 'lucide-react'
 import DataTable from '../../components/DataTable'
+import SampleCheckoutPanel from '../../components/SampleCheckoutPanel'
+import WellPlateVisualization, {
+  WellInfo,
+  WellStatus,
+} from '../../components/WellPlateVisualization'
 import { toast } from 'sonner'
+import { getApiErrorMessage } from '../../lib/http'
+import {
+  SampleService,
+  Sample,
+  SampleStatus,
+} from '../../services/sampleService'
+import {
+  StorageService,
+  StorageUnit,
+  BoxMap,
+  TemperatureClass,
+} from '../../services/storageService'
+
+// 可入库的样本状态
+const inboundStatusOptions: { label: string; value: SampleStatus }[] = [
+  { label: '已接收', value: 'received' },
+  { label: '出库待检', value: 'out_for_test' },
+  { label: '检测中', value: 'testing' },
+  { label: '已完成', value: 'completed' },
+]
 
-// 存储位置选项
-const storageLocationOptions = [
-  { label: 'A区-冷藏室', value: 'A-cold' },
-  { label: 'B区-常温室', value: 'B-normal' },
-  { label: 'C区-冷冻室', value: 'C-frozen' },
-  { label: 'D区-危化品室', value: 'D-hazard' },
-  { label: 'E区-临时存放', value: 'E-temp' },
+// 温度等级选项
+const temperatureClassOptions: { label: string; value: TemperatureClass }[] = [
+  { label: '室温', value: 'room' },
+  { label: '2-8℃', value: '2-8' },
+  { label: '-20℃', value: '-20' },
+  { label: '-80℃', value: '-80' },
+  { label: '液氮', value: 'ln2' },
 ]
 
 // 存储条件选项
@@ -37,15 +63,6 @@ const storageConditionOptions = [
   { label: '避光保存', value: 'dark' },
 ]
 
-// 出库原因选项
-const outboundReasonOptions = [
-  { label: '检测使用', value: 'testing' },
-  { label: '样本转移', value: 'transfer' },
-  { label: '质量控制', value: 'qc' },
-  { label: '样本销毁', value: 'destroy' },
-  { label: '其他', value: 'other' },
-]
-
 // 库存记录接口
 interface StorageRecord {
   id: string
@@ -63,33 +80,56 @@ interface StorageRecord {
   remainingQuantity: number
 }
 
-// 出库单接口
-interface OutboundOrder {
+// 待入库样本接口
+interface InboundSample {
   id: string
-  orderCode: string
-  sampleCode: string
-  sampleName: string
-  quantity: number
-  unit: string
-  requestedBy: string
-  requestedAt: string
-  status: 'pending' | 'approved' | 'completed'
-  notes: string
+  sampleNo: string
+  barcode: string
+  sampleType: string
+  patientName: string
+  storageTemperature: string
+  storageLocation: string
+  status: SampleStatus
+  receivedAt: string
 }
 
-// 已接收样本接口
-interface ReceivedSample {
-  id: string
-  sampleCode: string
-  sampleName: string
-  quantity: number
-  unit: string
-  location: string
-  condition: string
-  receivedAt: string
-  status: 'available' | 'reserved' | 'used'
+// 孔位组件ID（0起的行列号）
+const toWellId = (rowNo: number, colNo: number): string =>
+  `${rowNo - 1}-${colNo - 1}`
+
+// 孔位组件ID转孔位编号
+const wellIdToPosition = (wellId: string): string => {
+  const [row, col] = wellId.split('-').map(Number)
+  return `${String.fromCharCode(65 + row)}${col + 1}`
 }
 
+// 孔位按行优先排序
+const compareWellIds = (a: string, b: string): number => {
+  const [rowA, colA] = a.split('-').map(Number)
+  const [rowB, colB] = b.split('-').map(Number)
+  return rowA - rowB || colA - colB
+}
+
+// 冻存盒选项名称
+const boxLabel = (box: StorageUnit): string =>
+  `${box.path} ${box.name}（${
+    temperatureClassOptions.find(o => o.value === box.temperature_class)
+      ?.label || box.temperature_class
+  }，空 ${box.free_count ?? '-'}）`
+
+// 样本数据转换为待入库样本
+const toInboundSample = (sample: Sample): InboundSample => ({
+  id: sample.id,
+  sampleNo: sample.sample_no,
+  barcode: sample.barcode,
+  sampleType: sample.sample_types?.name || '-',
+  patientName: sample.submissions?.patient_name || '-',
+  storageTemperature: sample.storage_temperature || '',
+  storageLocation: sample.storage_location || '',
+  status: sample.status as SampleStatus,
+  receivedAt: sample.received_time || sample.created_at || '',
+})
+
 const SampleStorage: React.FC = () => {
   const navigate = useNavigate()
   const [activeTab, setActiveTab] = useState<
@@ -98,14 +138,19 @@ const SampleStorage: React.FC = () => {
   const [loading, setLoading] = useState(false)
 
   // 样本入库相关状态
-  const [outboundOrders, setOutboundOrders] = useState<OutboundOrder[]>([])
-  const [filteredOrders, setFilteredOrders] = useState<OutboundOrder[]>([])
-  const [selectedOrders, setSelectedOrders] = useState<string[]>([])
-
-  // 样本出库相关状态
-  const [receivedSamples, setReceivedSamples] = useState<ReceivedSample[]>([])
-  const [filteredSamples, setFilteredSamples] = useState<ReceivedSample[]>([])
-  const [selectedSamples, setSelectedSamples] = useState<string[]>([])
+  const [inboundSamples, setInboundSamples] = useState<InboundSample[]>([])
+  const [filteredInbound, setFilteredInbound] = useState<InboundSample[]>([])
+  const [selectedInbound, setSelectedInbound] = useState<string[]>([])
+  const [inboundStatus, setInboundStatus] = useState<SampleStatus>('received')
+
+  // 冻存盒孔位相关状态
+  const [temperatureFilter, setTemperatureFilter] = useState<
+    TemperatureClass | ''
+  >('')
+  const [boxes, setBoxes] = useState<StorageUnit[]>([])
+  const [selectedBoxId, setSelectedBoxId] = useState('')
+  const [boxMap, setBoxMap] = useState<BoxMap | null>(null)
+  const [selectedWells, setSelectedWells] = useState<string[]>([])
 
   // 出库记录相关状态
   const [records, setRecords] = useState<StorageRecord[]>([])
@@ -113,84 +158,6 @@ const SampleStorage: React.FC = () => {
 
   // 搜索和筛选状态
   const [searchTerm, setSearchTerm] = useState('')
-  const [statusFilter, setStatusFilter] = useState('')
-
-  // 模拟出库单数据
-  const mockOutboundOrders: OutboundOrder[] = [
-    {
-      id: '1',
-      orderCode: 'OUT2025010001',
-      sampleCode: 'S2025010001',
-      sampleName: '工业废水样本',
-      quantity: 1,
-      unit: 'L',
-      requestedBy: '检测部门',
-      requestedAt: '2025-01-20T09:00:00Z',
-      status: 'approved',
-      notes: '用于重金属检测',
-    },
-    {
-      id: '2',
-      orderCode: 'OUT2025010002',
-      sampleCode: 'S2025010002',
-      sampleName: '农田土壤样本',
-      quantity: 2,
-      unit: 'kg',
-      requestedBy: '质控部门',
-      requestedAt: '2025-01-19T14:30:00Z',
-      status: 'pending',
-      notes: '质量控制检测',
-    },
-    {
-      id: '3',
-      orderCode: 'OUT2025010003',
-      sampleCode: 'S2025010003',
-      sampleName: '室内空气样本',
-      quantity: 1,
-      unit: '份',
-      requestedBy: '环境部门',
-      requestedAt: '2025-01-18T11:15:00Z',
-      status: 'approved',
-      notes: 'VOCs检测',
-    },
-  ]
-
-  // 模拟已接收样本数据
-  const mockReceivedSamples: ReceivedSample[] = [
-    {
-      id: '1',
-      sampleCode: 'S2025010001',
-      sampleName: '工业废水样本',
-      quantity: 2,
-      unit: 'L',
-      location: 'A-cold',
-      condition: 'cold',
-      receivedAt: '2025-01-20T10:30:00Z',
-      status: 'available',
-    },
-    {
-      id: '2',
-      sampleCode: 'S2025010002',
-      sampleName: '农田土壤样本',
-      quantity: 5,
-      unit: 'kg',
-      location: 'B-normal',
-      condition: 'normal',
-      receivedAt: '2025-01-19T14:20:00Z',
-      status: 'available',
-    },
-    {
-      id: '3',
-      sampleCode: 'S2025010004',
-      sampleName: '地下水样本',
-      quantity: 3,
-      unit: 'L',
-      location: 'A-cold',
-      condition: 'cold',
-      receivedAt: '2025-01-17T16:45:00Z',
-      status: 'reserved',
-    },
-  ]
 
   // 模拟库存记录数据
   const mockRecords: StorageRecord[] = [
@@ -275,10 +242,6 @@ const SampleStorage: React.FC = () => {
       try {
         // 模拟API调用
         await new Promise(resolve => setTimeout(resolve, 500))
-        setOutboundOrders(mockOutboundOrders)
-        setFilteredOrders(mockOutboundOrders)
-        setReceivedSamples(mockReceivedSamples)
-        setFilteredSamples(mockReceivedSamples)
         setRecords(mockRecords)
         setFilteredRecords(mockRecords)
       } catch (error) {
@@ -292,44 +255,112 @@ const SampleStorage: React.FC = () => {
     loadData()
   }, [])
 
-  // 筛选和搜索 - 出库单
+  // 加载待入库样本
+  const loadInboundSamples = useCallback(async () => {
+    setLoading(true)
+    try {
+      const result = await SampleService.getSamples({
+        status: inboundStatus,
+        limit: 100,
+      })
+      setInboundSamples(result.data.map(toInboundSample))
+      setSelectedInbound([])
+    } catch (error) {
+      console.error('加载待入库样本失败:', error)
+      toast.error('加载待入库样本失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [inboundStatus])
+
   useEffect(() => {
-    let filtered = outboundOrders
+    loadInboundSamples()
+  }, [loadInboundSamples])
 
-    if (searchTerm) {
-      filtered = filtered.filter(
-        order =>
-          order.orderCode.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          order.sampleCode.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          order.sampleName.toLowerCase().includes(searchTerm.toLowerCase())
-      )
+  // 加载冻存盒
+  const loadBoxes = useCallback(async () => {
+    try {
+      const units = await StorageService.getUnits({
+        unit_type: 'box',
+        status: 'active',
+        temperature_class: temperatureFilter || undefined,
+      })
+      setBoxes(units)
+    } catch (error) {
+      console.error('加载冻存盒失败:', error)
+      toast.error('加载冻存盒失败')
     }
+  }, [temperatureFilter])
+
+  useEffect(() => {
+    loadBoxes()
+  }, [loadBoxes])
 
-    if (statusFilter) {
-      filtered = filtered.filter(order => order.status === statusFilter)
+  // 加载冻存盒孔位图
+  const loadBoxMap = useCallback(async (boxId: string) => {
+    if (!boxId) {
+      setBoxMap(null)
+      return
+    }
+    try {
+      setBoxMap(await StorageService.getBoxMap(boxId))
+    } catch (error) {
+      console.error('加载冻存盒孔位失败:', error)
+      toast.error('加载冻存盒孔位失败')
     }
+  }, [])
 
-    setFilteredOrders(filtered)
-  }, [outboundOrders, searchTerm, statusFilter])
+  useEffect(() => {
+    loadBoxMap(selectedBoxId)
+  }, [selectedBoxId, loadBoxMap])
+
+  // 冻存盒已占用孔位
+  const occupiedWells = useMemo(() => {
+    const occupied: {
+      [wellId: string]: { sampleId: string; sampleCode: string }
+    } = {}
+    boxMap?.wells.flat().forEach(well => {
+      if (well.sample) {
+        occupied[toWellId(well.row_no, well.col_no)] = {
+          sampleId: well.sample.id,
+          sampleCode: well.sample.sample_no,
+        }
+      }
+    })
+    return occupied
+  }, [boxMap])
+
+  // 选中样本与孔位按顺序一一对应
+  const wellAssignments = useMemo(() => {
+    const positions = [...selectedWells]
+      .sort(compareWellIds)
+      .map(wellIdToPosition)
+    return selectedInbound
+      .map((sampleId, index) => ({
+        sample: inboundSamples.find(sample => sample.id === sampleId),
+        position: positions[index],
+      }))
+      .filter(
+        (item): item is { sample: InboundSample; position: string } =>
+          Boolean(item.sample)
+      )
+  }, [selectedInbound, selectedWells, inboundSamples])
 
-  // 筛选和搜索 - 已接收样本
+  // 筛选和搜索 - 待入库样本
   useEffect(() => {
-    let filtered = receivedSamples
+    let filtered = inboundSamples
 
     if (searchTerm) {
       filtered = filtered.filter(
         sample =>
-          sample.sampleCode.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          sample.sampleName.toLowerCase().includes(searchTerm.toLowerCase())
+          sample.sampleNo.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          sample.barcode.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          sample.patientName.toLowerCase().includes(searchTerm.toLowerCase())
       )
     }
 
-    if (statusFilter) {
-      filtered = filtered.filter(sample => sample.status === statusFilter)
-    }
-
-    setFilteredSamples(filtered)
-  }, [receivedSamples, searchTerm, statusFilter])
+    setFilteredInbound(filtered)
+  }, [inboundSamples, searchTerm])
 
   // 筛选和搜索 - 出库记录
   useEffect(() => {
@@ -347,97 +378,145 @@ const SampleStorage: React.FC = () => {
     setFilteredRecords(filtered)
   }, [records, searchTerm])
 
-  // 处理样本入库 - 批量处理选中的出库单
-  const handleBatchInbound = async () => {
-    if (selectedOrders.length === 0) {
-      toast.error('请选择要入库的出库单')
+  // 切换冻存盒时清空已选孔位
+  const handleBoxChange = (boxId: string) => {
+    setSelectedWells([])
+    setSelectedBoxId(boxId)
+  }
+
+  // 孔位选择变化
+  const handleWellsChange = (wells: WellInfo[]) => {
+    setSelectedWells(
+      wells
+        .filter(well => well.status === WellStatus.SELECTED)
+        .map(well => well.id)
+    )
+  }
+
+  /**
+   * 自动分配空闲孔位
+   * @description 已选冻存盒时在该盒内分配，否则按首个样本的保存温度推荐冻存盒
+   */
+  const handleAutoAssign = async () => {
+    if (selectedInbound.length === 0) {
+      toast.error('请先选择要入库的样本')
       return
     }
 
-    setLoading(true)
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      // 更新出库单状态为已完成
-      const updatedOrders = outboundOrders.map(order =>
-        selectedOrders.includes(order.id)
-          ? { ...order, status: 'completed' as const }
-          : order
+      const slots = await StorageService.getFreeSlots(
+        selectedBoxId
+          ? { unit_id: selectedBoxId, count: selectedInbound.length }
+          : {
+              sample_id: selectedInbound[0],
+              temperature_class: temperatureFilter || undefined,
+              count: selectedInbound.length,
+            }
       )
-      setOutboundOrders(updatedOrders)
-      setSelectedOrders([])
+      if (slots.length === 0) {
+        toast.error('没有可用的空闲孔位')
+        return
+      }
 
-      toast.success(`成功入库 ${selectedOrders.length} 个样本！`)
+      const boxSlots = slots.filter(slot => slot.box_id === slots[0].box_id)
+      setSelectedBoxId(slots[0].box_id)
+      setSelectedWells(boxSlots.map(slot => toWellId(slot.row_no, slot.col_no)))
+
+      if (boxSlots.length < selectedInbound.length) {
+        toast.warning(
+          `冻存盒 ${slots[0].box_path} 仅分配到 ${boxSlots.length} 个空闲孔位，其余样本请另选冻存盒`
+        )
+      }
     } catch (error) {
-      console.error('批量入库失败:', error)
-      toast.error('批量入库失败，请重试')
-    } finally {
-      setLoading(false)
+      console.error('分配空闲孔位失败:', error)
+      toast.error('分配空闲孔位失败')
     }
   }
 
-  // 处理样本出库 - 批量处理选中的样本
-  const handleBatchOutbound = async () => {
-    if (selectedSamples.length === 0) {
-      toast.error('请选择要出库的样本')
+  // 处理样本入库 - 选中样本按顺序放入选中的孔位
+  const handleBatchInbound = async () => {
+    if (selectedInbound.length === 0) {
+      toast.error('请选择要入库的样本')
+      return
+    }
+    if (!selectedBoxId) {
+      toast.error('请选择冻存盒')
+      return
+    }
+    if (selectedWells.length < selectedInbound.length) {
+      toast.error(
+        `已选 ${selectedInbound.length} 个样本，请选择相同数量的孔位`
+      )
       return
     }
 
     setLoading(true)
+    let stored = 0
     try {
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      // 更新样本状态为已使用
-      const updatedSamples = receivedSamples.map(sample =>
-        selectedSamples.includes(sample.id)
-          ? { ...sample, status: 'used' as const }
-          : sample
-      )
-      setReceivedSamples(updatedSamples)
-      setSelectedSamples([])
+      // 逐个入库，某个孔位冲突时不影响其他样本
+      for (const { sample, position } of wellAssignments) {
+        try {
+          await SampleService.transition(sample.id, {
+            status: 'in_storage',
+            box_id: selectedBoxId,
+            position,
+          })
+          stored++
+        } catch (error: unknown) {
+          console.error('样本入库失败:', error)
+          toast.error(
+            `${sample.sampleNo} 入库失败：${getApiErrorMessage(error, '请重试')}`
+          )
+        }
+      }
 
-      toast.success(`成功出库 ${selectedSamples.length} 个样本！`)
-    } catch (error) {
-      console.error('批量出库失败:', error)
-      toast.error('批量出库失败，请重试')
+      if (stored > 0) {
+        toast.success(`成功入库 ${stored} 个样本！`)
+      }
+      setSelectedWells([])
+      await Promise.all([
+        loadInboundSamples(),
+        loadBoxMap(selectedBoxId),
+        loadBoxes(),
+      ])
     } finally {
       setLoading(false)
     }
   }
 
-  // 出库单表格列配置
-  const outboundOrderColumns = [
+  // 待入库样本表格列配置
+  const inboundSampleColumns = [
     {
       key: 'selection',
       title: (
         <input
           type='checkbox'
           checked={
-            selectedOrders.length === filteredOrders.length &&
-            filteredOrders.length > 0
+            selectedInbound.length === filteredInbound.length &&
+            filteredInbound.length > 0
           }
           onChange={e => {
             if (e.target.checked) {
-              setSelectedOrders(filteredOrders.map(order => order.id))
+              setSelectedInbound(filteredInbound.map(sample => sample.id))
             } else {
-              setSelectedOrders([])
+              setSelectedInbound([])
             }
           }}
           className='rounded border-gray-300'
         />
       ),
       width: 50,
-      render: (_: any, record: OutboundOrder) => (
+      render: (_: unknown, record: InboundSample) => (
         <input
           type='checkbox'
-          checked={selectedOrders.includes(record.id)}
+          checked={selectedInbound.includes(record.id)}
           onChange={e => {
             if (e.target.checked) {
-              setSelectedOrders([...selectedOrders, record.id])
+              setSelectedInbound([...selectedInbound, record.id])
             } else {
-              setSelectedOrders(selectedOrders.filter(id => id !== record.id))
+              setSelectedInbound(
+                selectedInbound.filter(id => id !== record.id)
+              )
             }
           }}
           className='rounded border-gray-300'
@@ -445,180 +524,59 @@ const SampleStorage: React.FC = () => {
       ),
     },
     {
-      key: 'orderCode',
-      title: '出库单号',
-      dataIndex: 'orderCode',
-      width: 120,
-      render: (value: string) => (
-        <span className='font-mono text-sm font-medium text-blue-600'>
-          {value}
-        </span>
-      ),
-    },
-    {
-      key: 'sampleCode',
+      key: 'sampleNo',
       title: '样本编号',
-      dataIndex: 'sampleCode',
+      dataIndex: 'sampleNo',
       width: 120,
-    },
-    {
-      key: 'sampleName',
-      title: '样本名称',
-      dataIndex: 'sampleName',
-      width: 150,
-    },
-    {
-      key: 'quantity',
-      title: '数量',
-      dataIndex: 'quantity',
-      width: 80,
-      render: (value: number, record: OutboundOrder) => (
-        <span className='text-sm'>
-          {value} {record.unit}
-        </span>
+      render: (value: string, record: InboundSample) => (
+        <div>
+          <div className='font-mono text-sm font-medium text-blue-600'>
+            {value}
+          </div>
+          <div className='text-xs text-gray-500'>{record.barcode}</div>
+        </div>
       ),
     },
     {
-      key: 'requestedBy',
-      title: '申请部门',
-      dataIndex: 'requestedBy',
+      key: 'sampleType',
+      title: '样本类型',
+      dataIndex: 'sampleType',
       width: 100,
     },
     {
-      key: 'status',
-      title: '状态',
-      dataIndex: 'status',
+      key: 'patientName',
+      title: '患者',
+      dataIndex: 'patientName',
       width: 100,
-      render: (value: string) => {
-        const statusConfig = {
-          pending: { label: '待审批', color: 'bg-yellow-100 text-yellow-800' },
-          approved: { label: '已审批', color: 'bg-green-100 text-green-800' },
-          completed: { label: '已完成', color: 'bg-gray-100 text-gray-800' },
-        }
-        const config = statusConfig[value as keyof typeof statusConfig]
-        return (
-          <span
-            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.color}`}
-          >
-            {config.label}
-          </span>
-        )
-      },
     },
     {
-      key: 'requestedAt',
-      title: '申请时间',
-      dataIndex: 'requestedAt',
-      width: 150,
-      render: (value: string) => (
-        <span className='text-sm'>{new Date(value).toLocaleString()}</span>
-      ),
-    },
-  ]
-
-  // 已接收样本表格列配置
-  const receivedSampleColumns = [
-    {
-      key: 'selection',
-      title: (
-        <input
-          type='checkbox'
-          checked={
-            selectedSamples.length === filteredSamples.length &&
-            filteredSamples.length > 0
-          }
-          onChange={e => {
-            if (e.target.checked) {
-              setSelectedSamples(filteredSamples.map(sample => sample.id))
-            } else {
-              setSelectedSamples([])
-            }
-          }}
-          className='rounded border-gray-300'
-        />
-      ),
-      width: 50,
-      render: (_: any, record: ReceivedSample) => (
-        <input
-          type='checkbox'
-          checked={selectedSamples.includes(record.id)}
-          onChange={e => {
-            if (e.target.checked) {
-              setSelectedSamples([...selectedSamples, record.id])
-            } else {
-              setSelectedSamples(selectedSamples.filter(id => id !== record.id))
-            }
-          }}
-          className='rounded border-gray-300'
-          disabled={record.status !== 'available'}
-        />
-      ),
-    },
-    {
-      key: 'sampleCode',
-      title: '样本编号',
-      dataIndex: 'sampleCode',
-      width: 120,
-      render: (value: string) => (
-        <span className='font-mono text-sm font-medium text-blue-600'>
-          {value}
-        </span>
-      ),
-    },
-    {
-      key: 'sampleName',
-      title: '样本名称',
-      dataIndex: 'sampleName',
-      width: 150,
-    },
-    {
-      key: 'quantity',
-      title: '数量',
-      dataIndex: 'quantity',
-      width: 80,
-      render: (value: number, record: ReceivedSample) => (
-        <span className='text-sm'>
-          {value} {record.unit}
-        </span>
-      ),
+      key: 'storageTemperature',
+      title: '保存温度',
+      dataIndex: 'storageTemperature',
+      width: 90,
+      render: (value: string) => <span className='text-sm'>{value || '-'}</span>,
     },
     {
-      key: 'location',
-      title: '存储位置',
-      dataIndex: 'location',
-      width: 120,
-      render: (value: string) => {
-        const locationLabels = {
-          'A-cold': 'A区-冷藏室',
-          'B-normal': 'B区-常温室',
-          'C-frozen': 'C区-冷冻室',
-          'D-hazard': 'D区-危化品室',
-          'E-temp': 'E区-临时存放',
-        }
-        return (
-          <span className='text-sm'>
-            {locationLabels[value as keyof typeof locationLabels] || value}
-          </span>
+      key: 'position',
+      title: '入库孔位',
+      dataIndex: 'id',
+      width: 140,
+      render: (value: string, record: InboundSample) => {
+        const assignment = wellAssignments.find(
+          item => item.sample.id === value
         )
-      },
-    },
-    {
-      key: 'status',
-      title: '状态',
-      dataIndex: 'status',
-      width: 100,
-      render: (value: string) => {
-        const statusConfig = {
-          available: { label: '可用', color: 'bg-green-100 text-green-800' },
-          reserved: { label: '预留', color: 'bg-yellow-100 text-yellow-800' },
-          used: { label: '已使用', color: 'bg-gray-100 text-gray-800' },
+        if (assignment?.position && boxMap) {
+          return (
+            <span className='font-mono text-sm text-green-700'>
+              {boxMap.box.path}:{assignment.position}
+            </span>
+          )
         }
-        const config = statusConfig[value as keyof typeof statusConfig]
         return (
-          <span
-            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.color}`}
-          >
-            {config.label}
+          <span className='text-sm text-gray-400'>
+            {record.storageLocation
+              ? `原位置 ${record.storageLocation}`
+              : '未分配'}
           </span>
         )
       },
@@ -629,7 +587,9 @@ const SampleStorage: React.FC = () => {
       dataIndex: 'receivedAt',
       width: 150,
       render: (value: string) => (
-        <span className='text-sm'>{new Date(value).toLocaleString()}</span>
+        <span className='text-sm'>
+          {value ? new Date(value).toLocaleString() : '-'}
+        </span>
       ),
     },
   ]
@@ -765,17 +725,31 @@ const SampleStorage: React.FC = () => {
                     样本入库
                   </h2>
                   <span className='text-sm text-gray-500'>
-                    选择出库单进行批量入库
+                    选择样本和冻存盒孔位，样本按选择顺序依次放入孔位
                   </span>
                 </div>
-                <button
-                  onClick={handleBatchInbound}
-                  disabled={selectedOrders.length === 0 || loading}
-                  className='px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors'
-                >
-                  <CheckSquare className='w-4 h-4 mr-2 inline' />
-                  批量入库 ({selectedOrders.length})
-                </button>
+                <div className='flex items-center space-x-2'>
+                  <button
+                    onClick={handleAutoAssign}
+                    disabled={selectedInbound.length === 0 || loading}
+                    className='px-4 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors'
+                  >
+                    <Wand2 className='w-4 h-4 mr-2 inline' />
+                    自动分配孔位
+                  </button>
+                  <button
+                    onClick={handleBatchInbound}
+                    disabled={
+                      selectedInbound.length === 0 ||
+                      selectedWells.length < selectedInbound.length ||
+                      loading
+                    }
+                    className='px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors'
+                  >
+                    <CheckSquare className='w-4 h-4 mr-2 inline' />
+                    批量入库 ({selectedInbound.length})
+                  </button>
+                </div>
               </div>
 
               {/* 筛选条件 */}
@@ -786,7 +760,7 @@ const SampleStorage: React.FC = () => {
                     筛选条件
                   </span>
                 </div>
-                <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+                <div className='grid grid-cols-1 md:grid-cols-4 gap-4'>
                   <div>
                     <label className='block text-sm font-medium text-gray-700 mb-1'>
                       搜索
@@ -797,150 +771,111 @@ const SampleStorage: React.FC = () => {
                         type='text'
                         value={searchTerm}
                         onChange={e => setSearchTerm(e.target.value)}
-                        placeholder='搜索出库单号、样本编号或名称'
+                        placeholder='搜索样本编号、条码或患者'
                         className='w-full pl-10 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
                       />
                     </div>
                   </div>
                   <div>
                     <label className='block text-sm font-medium text-gray-700 mb-1'>
-                      状态
+                      样本状态
                     </label>
                     <select
-                      value={statusFilter}
-                      onChange={e => setStatusFilter(e.target.value)}
+                      value={inboundStatus}
+                      onChange={e =>
+                        setInboundStatus(e.target.value as SampleStatus)
+                      }
                       className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
                     >
-                      <option value=''>全部状态</option>
-                      <option value='pending'>待审批</option>
-                      <option value='approved'>已审批</option>
-                      <option value='completed'>已完成</option>
+                      {inboundStatusOptions.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
                     </select>
                   </div>
-                  <div className='flex items-end'>
-                    <button
-                      onClick={() => {
-                        setSearchTerm('')
-                        setStatusFilter('')
-                      }}
-                      className='px-4 py-2 text-sm text-blue-600 hover:text-blue-800 transition-colors'
-                    >
-                      清除筛选
-                    </button>
-                  </div>
-                </div>
-              </div>
-
-              {/* 出库单列表 */}
-              <DataTable
-                columns={outboundOrderColumns}
-                dataSource={filteredOrders}
-                loading={loading}
-                pagination={{
-                  pageSize: 10,
-                  showSizeChanger: true,
-                  showQuickJumper: true,
-                  showTotal: (total, range) =>
-                    `显示 ${range[0]}-${range[1]} 条，共 ${total} 条记录`,
-                }}
-                rowKey='id'
-              />
-            </div>
-          )}
-
-          {/* 样本出库 */}
-          {activeTab === 'outbound' && (
-            <div className='space-y-6'>
-              <div className='flex items-center justify-between'>
-                <div className='flex items-center space-x-2'>
-                  <ArrowDownCircle className='w-5 h-5 text-red-600' />
-                  <h2 className='text-lg font-semibold text-gray-900'>
-                    样本出库
-                  </h2>
-                  <span className='text-sm text-gray-500'>
-                    选择已接收样本进行批量出库
-                  </span>
-                </div>
-                <button
-                  onClick={handleBatchOutbound}
-                  disabled={selectedSamples.length === 0 || loading}
-                  className='px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors'
-                >
-                  <CheckSquare className='w-4 h-4 mr-2 inline' />
-                  批量出库 ({selectedSamples.length})
-                </button>
-              </div>
-
-              {/* 筛选条件 */}
-              <div className='bg-gray-50 rounded-lg p-4'>
-                <div className='flex items-center space-x-4 mb-4'>
-                  <Filter className='w-4 h-4 text-gray-400' />
-                  <span className='text-sm font-medium text-gray-700'>
-                    筛选条件
-                  </span>
-                </div>
-                <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
                   <div>
                     <label className='block text-sm font-medium text-gray-700 mb-1'>
-                      搜索
+                      温度等级
                     </label>
-                    <div className='relative'>
-                      <Search className='absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400' />
-                      <input
-                        type='text'
-                        value={searchTerm}
-                        onChange={e => setSearchTerm(e.target.value)}
-                        placeholder='搜索样本编号或名称'
-                        className='w-full pl-10 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                      />
-                    </div>
+                    <select
+                      value={temperatureFilter}
+                      onChange={e =>
+                        setTemperatureFilter(
+                          e.target.value as TemperatureClass | ''
+                        )
+                      }
+                      className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                    >
+                      <option value=''>全部温度</option>
+                      {temperatureClassOptions.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                   <div>
                     <label className='block text-sm font-medium text-gray-700 mb-1'>
-                      状态
+                      冻存盒
                     </label>
                     <select
-                      value={statusFilter}
-                      onChange={e => setStatusFilter(e.target.value)}
+                      value={selectedBoxId}
+                      onChange={e => handleBoxChange(e.target.value)}
                       className='w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
                     >
-                      <option value=''>全部状态</option>
-                      <option value='available'>可用</option>
-                      <option value='reserved'>预留</option>
-                      <option value='used'>已使用</option>
+                      <option value=''>请选择冻存盒</option>
+                      {boxes.map(box => (
+                        <option key={box.id} value={box.id}>
+                          {boxLabel(box)}
+                        </option>
+                      ))}
                     </select>
                   </div>
-                  <div className='flex items-end'>
-                    <button
-                      onClick={() => {
-                        setSearchTerm('')
-                        setStatusFilter('')
-                      }}
-                      className='px-4 py-2 text-sm text-blue-600 hover:text-blue-800 transition-colors'
-                    >
-                      清除筛选
-                    </button>
-                  </div>
                 </div>
               </div>
 
-              {/* 已接收样本列表 */}
-              <DataTable
-                columns={receivedSampleColumns}
-                dataSource={filteredSamples}
-                loading={loading}
-                pagination={{
-                  pageSize: 10,
-                  showSizeChanger: true,
-                  showQuickJumper: true,
-                  showTotal: (total, range) =>
-                    `显示 ${range[0]}-${range[1]} 条，共 ${total} 条记录`,
-                }}
-                rowKey='id'
-              />
+              <div className='grid grid-cols-1 xl:grid-cols-2 gap-6'>
+                {/* 待入库样本列表 */}
+                <DataTable
+                  columns={inboundSampleColumns}
+                  dataSource={filteredInbound}
+                  loading={loading}
+                  pagination={{
+                    pageSize: 10,
+                    showSizeChanger: true,
+                    showQuickJumper: true,
+                    showTotal: (total, range) =>
+                      `显示 ${range[0]}-${range[1]} 条，共 ${total} 条记录`,
+                  }}
+                  rowKey='id'
+                />
+
+                {/* 冻存盒孔位图 */}
+                {boxMap ? (
+                  <WellPlateVisualization
+                    containerSpec={{
+                      rows: boxMap.box.rows || 0,
+                      cols: boxMap.box.cols || 0,
+                      name: `${boxMap.box.path} ${boxMap.box.name}`,
+                    }}
+                    occupiedWells={occupiedWells}
+                    selectedWells={selectedWells}
+                    onWellsChange={handleWellsChange}
+                    multiSelect
+                  />
+                ) : (
+                  <div className='flex items-center justify-center rounded-lg border border-dashed border-gray-300 p-12 text-sm text-gray-500'>
+                    请选择冻存盒，或选择样本后自动分配孔位
+                  </div>
+                )}
+              </div>
             </div>
           )}
 
+          {/* 样本出库 */}
+          {activeTab === 'outbound' && <SampleCheckoutPanel />}
+
           {/* 出库记录 */}
           {activeTab === 'records' && (
             <div className='space-y-6'>
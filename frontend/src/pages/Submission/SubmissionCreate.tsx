@@ -5,118 +5,120 @@
  * @date 2025-08-20
  */
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { ArrowLeft, Plus, Trash2 } from 'lucide-react'
 import FormBuilder, { FormField } from '../../components/FormBuilder'
 import { toast } from 'sonner'
-
-// 样本类型选项
-const sampleTypeOptions = [
-  { label: '水质样本', value: 'water' },
-  { label: '土壤样本', value: 'soil' },
-  { label: '空气样本', value: 'air' },
-  { label: '食品样本', value: 'food' },
-  { label: '化学品样本', value: 'chemical' },
-  { label: '其他', value: 'other' },
-]
-
-// 检测项目选项
-const testItemOptions = [
-  { label: 'pH值测定', value: 'ph' },
-  { label: '重金属检测', value: 'heavy_metals' },
-  { label: '有机物检测', value: 'organic' },
-  { label: '微生物检测', value: 'microbial' },
-  { label: '农药残留检测', value: 'pesticide' },
-  { label: '营养成分分析', value: 'nutrition' },
-  { label: '毒理学检测', value: 'toxicology' },
-  { label: '其他检测', value: 'other_test' },
-]
+import {
+  SubmissionService,
+  type SubmissionOptions,
+} from '../../services'
 
 // 紧急程度选项
 const urgencyOptions = [
   { label: '普通', value: 'normal' },
-  { label: '紧急', value: 'urgent' },
-  { label: '特急', value: 'emergency' },
+  { label: '加急', value: 'urgent' },
 ]
 
-// 样本信息接口
-interface SampleInfo {
+// 受检者性别选项
+const genderOptions = [
+  { label: '男', value: 'male' },
+  { label: '女', value: 'female' },
+  { label: '未知', value: 'unknown' },
+]
+
+// 检测产品信息接口
+interface ProductInfo {
   id: string
-  name: string
-  type: string
+  productId: string
   quantity: number
-  unit: string
-  description: string
-  testItems: string[]
 }
 
 const SubmissionCreate: React.FC = () => {
   const navigate = useNavigate()
   const [loading, setLoading] = useState(false)
-  const [samples, setSamples] = useState<SampleInfo[]>([
+  const [options, setOptions] = useState<SubmissionOptions>({
+    client_units: [],
+    test_products: [],
+  })
+  const [products, setProducts] = useState<ProductInfo[]>([
     {
       id: '1',
-      name: '',
-      type: '',
+      productId: '',
       quantity: 1,
-      unit: 'kg',
-      description: '',
-      testItems: [],
     },
   ])
 
-  // 客户信息表单字段
+  // 加载送检单位和检测产品选项
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        setOptions(await SubmissionService.getOptions())
+      } catch (error) {
+        console.error('获取送检表单选项失败:', error)
+        toast.error('获取送检单位和检测产品失败')
+      }
+    }
+
+    fetchOptions()
+  }, [])
+
+  // 送检单位及受检者信息表单字段
   const clientFields: FormField[] = [
     {
-      name: 'clientName',
-      label: '客户名称',
-      type: 'text',
-      placeholder: '请输入客户名称',
+      name: 'clientUnitId',
+      label: '送检单位',
+      type: 'select',
+      placeholder: '请选择送检单位',
+      options: options.client_units.map(unit => ({
+        label: unit.name,
+        value: unit.id,
+      })),
       rules: [{ required: true }],
       span: 8,
     },
     {
-      name: 'contactPerson',
-      label: '联系人',
+      name: 'patientName',
+      label: '受检者姓名',
       type: 'text',
-      placeholder: '请输入联系人姓名',
+      placeholder: '请输入受检者姓名',
       rules: [{ required: true }],
       span: 8,
     },
+    {
+      name: 'patientGender',
+      label: '性别',
+      type: 'select',
+      options: genderOptions,
+      defaultValue: 'unknown',
+      span: 8,
+    },
+    {
+      name: 'patientAge',
+      label: '年龄',
+      type: 'number',
+      placeholder: '请输入年龄',
+      rules: [{ min: 0, max: 150 }],
+      span: 8,
+    },
+    {
+      name: 'patientIdCard',
+      label: '身份证号',
+      type: 'text',
+      placeholder: '请输入身份证号',
+      span: 8,
+    },
     {
       name: 'contactPhone',
       label: '联系电话',
       type: 'text',
       placeholder: '请输入联系电话',
       rules: [
-        { required: true },
         { pattern: /^1[3-9]\d{9}$/, message: '请输入正确的手机号码' },
       ],
       span: 8,
     },
-    {
-      name: 'contactEmail',
-      label: '联系邮箱',
-      type: 'email',
-      placeholder: '请输入联系邮箱',
-      rules: [
-        { required: true },
-        {
-          pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
-          message: '请输入正确的邮箱地址',
-        },
-      ],
-      span: 12,
-    },
-    {
-      name: 'clientAddress',
-      label: '客户地址',
-      type: 'textarea',
-      placeholder: '请输入详细地址',
-      rules: [{ required: true }],
-      span: 12,
-    },
   ]
 
   // 送检信息表单字段
@@ -131,95 +133,99 @@ const SubmissionCreate: React.FC = () => {
       span: 8,
     },
     {
-      name: 'expectedDate',
-      label: '期望完成日期',
-      type: 'date',
-      rules: [{ required: true }],
-      span: 8,
-    },
-    {
-      name: 'reportDelivery',
-      label: '报告交付方式',
-      type: 'select',
-      options: [
-        { label: '电子版', value: 'electronic' },
-        { label: '纸质版', value: 'paper' },
-        { label: '电子版+纸质版', value: 'both' },
-      ],
-      defaultValue: 'electronic',
-      rules: [{ required: true }],
-      span: 8,
+      name: 'sampleInfo',
+      label: '样本说明',
+      type: 'text',
+      placeholder: '如样本类型、数量、采集时间等',
+      span: 16,
     },
     {
-      name: 'specialRequirements',
-      label: '特殊要求',
+      name: 'clinicalInfo',
+      label: '临床信息',
       type: 'textarea',
-      placeholder: '请输入特殊要求或备注信息',
+      placeholder: '请输入临床诊断、用药情况或其他备注信息',
       span: 24,
     },
   ]
 
-  // 添加样本
-  const addSample = () => {
-    const newSample: SampleInfo = {
+  // 添加检测产品
+  const addProduct = () => {
+    const newProduct: ProductInfo = {
       id: Date.now().toString(),
-      name: '',
-      type: '',
+      productId: '',
       quantity: 1,
-      unit: 'kg',
-      description: '',
-      testItems: [],
     }
-    setSamples([...samples, newSample])
+    setProducts([...products, newProduct])
   }
 
-  // 删除样本
-  const removeSample = (id: string) => {
-    if (samples.length === 1) {
-      toast.error('至少需要保留一个样本')
+  // 删除检测产品
+  const removeProduct = (id: string) => {
+    if (products.length === 1) {
+      toast.error('至少需要选择一个检测产品')
       return
     }
-    setSamples(samples.filter(sample => sample.id !== id))
+    setProducts(products.filter(product => product.id !== id))
   }
 
-  // 更新样本信息
-  const updateSample = (id: string, field: keyof SampleInfo, value: string | number | string[]) => {
-    setSamples(
-      samples.map(sample =>
-        sample.id === id ? { ...sample, [field]: value } : sample
+  // 更新检测产品信息
+  const updateProduct = (
+    id: string,
+    field: keyof ProductInfo,
+    value: string | number
+  ) => {
+    setProducts(
+      products.map(product =>
+        product.id === id ? { ...product, [field]: value } : product
       )
     )
   }
 
+  // 获取检测产品详情
+  const getProduct = (productId: string) =>
+    options.test_products.find(product => product.id === productId)
+
+  // 预计费用
+  const totalAmount = products.reduce(
+    (sum, item) =>
+      sum + (Number(getProduct(item.productId)?.price) || 0) * item.quantity,
+    0
+  )
+
   // 提交表单
   const handleSubmit = async (
     clientData: Record<string, FormDataEntryValue | null>,
     submissionData: Record<string, FormDataEntryValue | null>
   ) => {
-    // 验证样本信息
-    for (const sample of samples) {
-      if (!sample.name || !sample.type || sample.testItems.length === 0) {
-        toast.error('请完善所有样本信息')
-        return
-      }
+    // 验证检测产品
+    if (products.some(product => !product.productId)) {
+      toast.error('请选择所有检测产品')
+      return
     }
 
     setLoading(true)
     try {
-      // 构建提交数据
-      const submitData = {
-        ...clientData,
-        ...submissionData,
-        samples,
-        submittedAt: new Date().toISOString(),
-      }
+      const patientAge = clientData.patientAge
+        ? Number(clientData.patientAge)
+        : undefined
 
-      console.log('提交数据:', submitData)
+      const submission = await SubmissionService.createSubmission({
+        client_unit_id: String(clientData.clientUnitId || ''),
+        patient_name: String(clientData.patientName || ''),
+        patient_gender: (clientData.patientGender ||
+          'unknown') as 'male' | 'female' | 'unknown',
+        patient_age: patientAge,
+        patient_id_card: (clientData.patientIdCard as string) || undefined,
+        contact_phone: (clientData.contactPhone as string) || undefined,
+        is_urgent: submissionData.urgency === 'urgent',
+        sample_info: (submissionData.sampleInfo as string) || undefined,
+        clinical_info: (submissionData.clinicalInfo as string) || undefined,
+        products: products.map(product => ({
+          product_id: product.productId,
+          quantity: product.quantity,
+        })),
+      })
 
-      // 模拟API调用
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      toast.success('送检申请提交成功！')
+      toast.success(`送检申请提交成功！送检编号：${submission.submission_no}`)
       navigate('/submission')
     } catch (error) {
       console.error('提交失败:', error)
@@ -253,7 +259,7 @@ const SubmissionCreate: React.FC = () => {
           const clientData: Record<string, FormDataEntryValue | null> = {}
           const submissionData: Record<string, FormDataEntryValue | null> = {}
 
-          // 分离客户信息和送检信息
+          // 分离受检者信息和送检信息
           clientFields.forEach(field => {
             clientData[field.name] = formData.get(field.name)
           })
@@ -264,10 +270,12 @@ const SubmissionCreate: React.FC = () => {
           handleSubmit(clientData, submissionData)
         }}
       >
-        {/* 客户信息 */}
+        {/* 送检单位及受检者信息 */}
         <div className='bg-white rounded-lg shadow-md border border-gray-200 p-6'>
           <div className='border-b border-gray-200 pb-3 mb-4'>
-            <h2 className='text-lg font-semibold text-gray-900'>客户信息</h2>
+            <h2 className='text-lg font-semibold text-gray-900'>
+              送检单位及受检者信息
+            </h2>
           </div>
           <FormBuilder
             fields={clientFields}
@@ -277,159 +285,107 @@ const SubmissionCreate: React.FC = () => {
           />
         </div>
 
-        {/* 样本信息 */}
+        {/* 检测产品 */}
         <div className='bg-white rounded-lg shadow-md border border-gray-200 p-6'>
           <div className='flex justify-between items-center border-b border-gray-200 pb-3 mb-4'>
-            <h2 className='text-lg font-semibold text-gray-900'>样本信息</h2>
+            <h2 className='text-lg font-semibold text-gray-900'>检测产品</h2>
             <button
               type='button'
-              onClick={addSample}
+              onClick={addProduct}
               className='inline-flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors shadow-sm'
             >
               <Plus className='w-4 h-4 mr-1' />
-              添加样本
+              添加产品
             </button>
           </div>
 
           <div className='space-y-5'>
-            {samples.map((sample, index) => (
-              <div
-                key={sample.id}
-                className='border border-gray-200 rounded-lg p-5 bg-gray-50/50 shadow-sm'
-              >
-                <div className='flex justify-between items-center mb-4 pb-2 border-b border-gray-200'>
-                  <h3 className='font-medium text-gray-900 text-base'>
-                    样本 {index + 1}
-                  </h3>
-                  {samples.length > 1 && (
-                    <button
-                      type='button'
-                      onClick={() => removeSample(sample.id)}
-                      className='text-red-600 hover:text-red-800 transition-colors p-1 hover:bg-red-50 rounded'
-                    >
-                      <Trash2 className='w-4 h-4' />
-                    </button>
-                  )}
-                </div>
-
-                <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4'>
-                  <div>
-                    <label className='block text-sm font-medium text-gray-700 mb-2'>
-                      样本名称 <span className='text-red-500'>*</span>
-                    </label>
-                    <input
-                      type='text'
-                      value={sample.name}
-                      onChange={e =>
-                        updateSample(sample.id, 'name', e.target.value)
-                      }
-                      placeholder='请输入样本名称'
-                      className='w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                      required
-                    />
+            {products.map((product, index) => {
+              const detail = getProduct(product.productId)
+              return (
+                <div
+                  key={product.id}
+                  className='border border-gray-200 rounded-lg p-5 bg-gray-50/50 shadow-sm'
+                >
+                  <div className='flex justify-between items-center mb-4 pb-2 border-b border-gray-200'>
+                    <h3 className='font-medium text-gray-900 text-base'>
+                      产品 {index + 1}
+                    </h3>
+                    {products.length > 1 && (
+                      <button
+                        type='button'
+                        onClick={() => removeProduct(product.id)}
+                        className='text-red-600 hover:text-red-800 transition-colors p-1 hover:bg-red-50 rounded'
+                      >
+                        <Trash2 className='w-4 h-4' />
+                      </button>
+                    )}
                   </div>
 
-                  <div>
-                    <label className='block text-sm font-medium text-gray-700 mb-2'>
-                      样本类型 <span className='text-red-500'>*</span>
-                    </label>
-                    <select
-                      value={sample.type}
-                      onChange={e =>
-                        updateSample(sample.id, 'type', e.target.value)
-                      }
-                      className='w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                      required
-                    >
-                      <option value=''>请选择样本类型</option>
-                      {sampleTypeOptions.map(option => (
-                        <option key={option.value} value={option.value}>
-                          {option.label}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
+                  <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4'>
+                    <div className='lg:col-span-2'>
+                      <label className='block text-sm font-medium text-gray-700 mb-2'>
+                        检测产品 <span className='text-red-500'>*</span>
+                      </label>
+                      <select
+                        value={product.productId}
+                        onChange={e =>
+                          updateProduct(product.id, 'productId', e.target.value)
+                        }
+                        className='w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                        required
+                      >
+                        <option value=''>请选择检测产品</option>
+                        {options.test_products.map(option => (
+                          <option key={option.id} value={option.id}>
+                            {option.name}（{option.code}）
+                          </option>
+                        ))}
+                      </select>
+                    </div>
 
-                  <div>
-                    <label className='block text-sm font-medium text-gray-700 mb-2'>
-                      样本数量
-                    </label>
-                    <div className='flex'>
+                    <div>
+                      <label className='block text-sm font-medium text-gray-700 mb-2'>
+                        数量
+                      </label>
                       <input
                         type='number'
-                        value={sample.quantity}
+                        value={product.quantity}
                         onChange={e =>
-                          updateSample(
-                            sample.id,
+                          updateProduct(
+                            product.id,
                             'quantity',
-                            Number(e.target.value)
+                            Math.max(1, Number(e.target.value) || 1)
                           )
                         }
                         min='1'
-                        className='flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-l-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                        className='w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
                       />
-                      <select
-                        value={sample.unit}
-                        onChange={e =>
-                          updateSample(sample.id, 'unit', e.target.value)
-                        }
-                        className='px-3 py-1.5 text-sm border-l-0 border border-gray-300 rounded-r-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                      >
-                        <option value='kg'>kg</option>
-                        <option value='g'>g</option>
-                        <option value='L'>L</option>
-                        <option value='mL'>mL</option>
-                        <option value='个'>个</option>
-                      </select>
                     </div>
-                  </div>
 
-                  <div>
-                    <label className='block text-sm font-medium text-gray-700 mb-2'>
-                      检测项目 <span className='text-red-500'>*</span>
-                    </label>
-                    <select
-                      multiple
-                      value={sample.testItems}
-                      onChange={e => {
-                        const values = Array.from(
-                          e.target.selectedOptions,
-                          option => option.value
-                        )
-                        updateSample(sample.id, 'testItems', values)
-                      }}
-                      className='w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                      size={3}
-                      required
-                    >
-                      {testItemOptions.map(option => (
-                        <option key={option.value} value={option.value}>
-                          {option.label}
-                        </option>
-                      ))}
-                    </select>
-                    <p className='text-xs text-gray-500 mt-1'>
-                      按住Ctrl键可多选
-                    </p>
+                    <div>
+                      <label className='block text-sm font-medium text-gray-700 mb-2'>
+                        单价 / 周期
+                      </label>
+                      <div className='px-3 py-1.5 text-sm text-gray-700'>
+                        {detail
+                          ? `¥${Number(detail.price || 0).toFixed(2)} / ${
+                              detail.turnaround_time || '-'
+                            }小时`
+                          : '-'}
+                      </div>
+                    </div>
                   </div>
                 </div>
+              )
+            })}
+          </div>
 
-                <div className='mt-4'>
-                  <label className='block text-sm font-medium text-gray-700 mb-2'>
-                    样本描述
-                  </label>
-                  <textarea
-                    value={sample.description}
-                    onChange={e =>
-                      updateSample(sample.id, 'description', e.target.value)
-                    }
-                    placeholder='请输入样本描述信息'
-                    rows={2}
-                    className='w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none'
-                  />
-                </div>
-              </div>
-            ))}
+          <div className='flex justify-end mt-4 text-sm text-gray-700'>
+            预计费用：
+            <span className='font-semibold text-gray-900'>
+              ¥{totalAmount.toFixed(2)}
+            </span>
           </div>
         </div>
 
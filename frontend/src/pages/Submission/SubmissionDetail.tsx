@@ -25,10 +25,16 @@ import {
   Activity,
 } from 'lucide-react'
 import { toast } from 'sonner'
+import dayjs from 'dayjs'
+import {
+  SubmissionService,
+  type SubmissionDetail as SubmissionDetailData,
+} from '../../services'
 
 // 送检详情数据接口
 interface SubmissionDetail {
   id: string
+  submissionNo: string
   clientName: string
   contactPerson: string
   contactPhone: string
@@ -44,7 +50,7 @@ interface SubmissionDetail {
   expectedDate: string
   actualDate?: string
   progress: number
-  reportDelivery: string
+  patientInfo: string
   specialRequirements?: string
   timeline: TimelineItem[]
 }
@@ -85,6 +91,118 @@ interface TimelineItem {
   operator?: string
 }
 
+// 状态文本
+const statusText: Record<string, string> = {
+  submitted: '已提交',
+  received: '已接收',
+  in_progress: '进行中',
+  completed: '已完成',
+  cancelled: '已取消',
+  abnormal: '异常',
+  in_storage: '在库',
+  out_for_test: '出库待检',
+  testing: '检测中',
+  destroyed: '已销毁',
+  pending: '待检测',
+}
+
+// 状态对应的进度百分比
+const statusProgress: Record<string, number> = {
+  submitted: 0,
+  received: 25,
+  in_progress: 60,
+  completed: 100,
+  cancelled: 0,
+  abnormal: 25,
+}
+
+// 受检者性别文本
+const genderText: Record<string, string> = {
+  male: '男',
+  female: '女',
+  unknown: '未知',
+}
+
+/**
+ * 格式化时间
+ * @param value 时间字符串
+ * @returns 格式化后的时间
+ */
+const formatTime = (value?: string) =>
+  value ? dayjs(value).format('YYYY-MM-DD HH:mm:ss') : ''
+
+/**
+ * 将接口返回的送检详情转换为页面数据
+ * @param data 送检详情
+ * @returns 页面数据
+ */
+const toSubmissionDetail = (data: SubmissionDetailData): SubmissionDetail => {
+  const products = data.submission_products || []
+  const samples = data.samples || []
+  const turnaroundHours = Math.max(
+    0,
+    ...products.map(item => item.test_products?.turnaround_time || 0)
+  )
+
+  return {
+    id: data.id,
+    submissionNo: data.submission_no,
+    clientName: data.client_units?.name || '-',
+    contactPerson: data.client_units?.contact_person || '-',
+    contactPhone: data.client_units?.contact_phone || data.contact_phone || '-',
+    contactEmail: data.client_units?.contact_email || '-',
+    clientAddress: data.client_units?.address || '-',
+    sampleCount: samples.length,
+    samples: samples.map(sample => ({
+      id: sample.id,
+      name: sample.sample_no,
+      type: sample.sample_types?.code || '',
+      typeText: sample.sample_types?.name || '-',
+      quantity: Number(sample.volume) || 0,
+      unit: sample.unit || '',
+      description: `条码：${sample.barcode}`,
+      status: sample.status,
+      statusText: statusText[sample.status] || sample.status,
+      testItems: products.map(product => ({
+        id: `${sample.id}-${product.id}`,
+        name: product.test_products?.name || '-',
+        status: sample.status,
+        statusText: statusText[sample.status] || sample.status,
+      })),
+    })),
+    status: data.status,
+    statusText: statusText[data.status] || data.status,
+    urgency: data.is_urgent ? 'urgent' : 'normal',
+    urgencyText: data.is_urgent ? '加急' : '普通',
+    submittedAt: formatTime(data.submitted_at),
+    expectedDate: dayjs(data.submitted_at)
+      .add(turnaroundHours, 'hour')
+      .format('YYYY-MM-DD'),
+    actualDate: data.completed_at
+      ? dayjs(data.completed_at).format('YYYY-MM-DD')
+      : undefined,
+    progress: statusProgress[data.status] ?? 0,
+    patientInfo: [
+      data.patient_name,
+      genderText[data.patient_gender || 'unknown'],
+      data.patient_age !== undefined && data.patient_age !== null
+        ? `${data.patient_age}岁`
+        : '',
+    ]
+      .filter(Boolean)
+      .join(' / '),
+    specialRequirements: data.clinical_info,
+    timeline: data.timeline.map((item, index) => ({
+      id: item.id,
+      title: statusText[item.stage] || item.stage,
+      description: item.description || '',
+      time: formatTime(item.completed_at || item.created_at),
+      status: index === data.timeline.length - 1 ? 'current' : 'completed',
+      operator: item.users?.real_name,
+    })),
+  }
+}
+
 const SubmissionDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
@@ -92,142 +210,13 @@ const SubmissionDetail: React.FC = () => {
   const [submission, setSubmission] = useState<SubmissionDetail | null>(null)
   const [activeTab, setActiveTab] = useState('overview')
 
-  // 模拟获取送检详情数据
+  // 获取送检详情数据
   useEffect(() => {
     const fetchSubmissionDetail = async () => {
       setLoading(true)
       try {
-        // 模拟API调用
-        await new Promise(resolve => setTimeout(resolve, 1000))
-
-        // 模拟数据
-        const mockData: SubmissionDetail = {
-          id: id || 'SJ2025001',
-          clientName: 'ABC环保科技有限公司',
-          contactPerson: '张经理',
-          contactPhone: '13800138001',
-          contactEmail: 'zhang.manager@abc-env.com',
-          clientAddress: '北京市朝阳区环保科技园区A座15楼',
-          sampleCount: 3,
-          samples: [
-            {
-              id: 'S001',
-              name: '工业废水样本A',
-              type: 'water',
-              typeText: '水质样本',
-              quantity: 2,
-              unit: 'L',
-              description: '来自生产车间的工业废水，需要检测重金属含量',
-              status: 'testing',
-              statusText: '检测中',
-              testItems: [
-                {
-                  id: 'T001',
-                  name: '重金属检测',
-                  status: 'completed',
-                  statusText: '已完成',
-                  result: '铅: 0.05mg/L, 汞: 0.002mg/L',
-                  startTime: '2025-01-21 09:00:00',
-                  endTime: '2025-01-21 15:30:00',
-                  operator: '李检测师',
-                },
-                {
-                  id: 'T002',
-                  name: 'pH值测定',
-                  status: 'testing',
-                  statusText: '检测中',
-                  startTime: '2025-01-22 10:00:00',
-                  operator: '王检测师',
-                },
-              ],
-            },
-            {
-              id: 'S002',
-              name: '工业废水样本B',
-              type: 'water',
-              typeText: '水质样本',
-              quantity: 1.5,
-              unit: 'L',
-              description: '来自污水处理设施的出水样本',
-              status: 'pending',
-              statusText: '待检测',
-              testItems: [
-                {
-                  id: 'T003',
-                  name: '溶解氧测定',
-                  status: 'pending',
-                  statusText: '待检测',
-                },
-              ],
-            },
-          ],
-          status: 'testing',
-          statusText: '检测中',
-          urgency: 'urgent',
-          urgencyText: '紧急',
-          submittedAt: '2025-01-20 09:30:00',
-          expectedDate: '2025-01-25',
-          progress: 65,
-          reportDelivery: 'electronic',
-          specialRequirements: '需要加急处理，请在预期时间内完成检测',
-          timeline: [
-            {
-              id: '1',
-              title: '送检申请提交',
-              description: '客户提交送检申请，包含3个水质样本',
-              time: '2025-01-20 09:30:00',
-              status: 'completed',
-              operator: '系统',
-            },
-            {
-              id: '2',
-              title: '样本接收确认',
-              description: '实验室接收样本，确认样本状态良好',
-              time: '2025-01-20 14:20:00',
-              status: 'completed',
-              operator: '陈接收员',
-            },
-            {
-              id: '3',
-              title: '检测任务分配',
-              description: '将检测任务分配给相关检测人员',
-              time: '2025-01-21 08:45:00',
-              status: 'completed',
-              operator: '刘主管',
-            },
-            {
-              id: '4',
-              title: '开始检测',
-              description: '开始进行重金属检测和pH值测定',
-              time: '2025-01-21 09:00:00',
-              status: 'current',
-              operator: '李检测师',
-            },
-            {
-              id: '5',
-              title: '检测完成',
-              description: '完成所有检测项目',
-              time: '预计 2025-01-24 17:00:00',
-              status: 'pending',
-            },
-            {
-              id: '6',
-              title: '报告编制',
-              description: '编制检测报告',
-              time: '预计 2025-01-25 12:00:00',
-              status: 'pending',
-            },
-            {
-              id: '7',
-              title: '报告交付',
-              description: '向客户交付检测报告',
-              time: '预计 2025-01-25 17:00:00',
-              status: 'pending',
-            },
-          ],
-        }
-
-        setSubmission(mockData)
+        const data = await SubmissionService.getSubmissionById(id as string)
+        setSubmission(toSubmissionDetail(data))
       } catch (error) {
         console.error('获取送检详情失败:', error)
         toast.error('获取送检详情失败')
@@ -249,16 +238,21 @@ const SubmissionDetail: React.FC = () => {
   const getStatusStyle = (status: string) => {
     switch (status) {
       case 'pending':
+      case 'submitted':
         return 'bg-yellow-100 text-yellow-800'
       case 'received':
+      case 'in_storage':
         return 'bg-blue-100 text-blue-800'
       case 'testing':
+      case 'in_progress':
         return 'bg-purple-100 text-purple-800'
       case 'reporting':
+      case 'out_for_test':
         return 'bg-orange-100 text-orange-800'
       case 'completed':
         return 'bg-green-100 text-green-800'
       case 'cancelled':
+      case 'abnormal':
         return 'bg-red-100 text-red-800'
       default:
         return 'bg-gray-100 text-gray-800'
@@ -341,7 +335,9 @@ const SubmissionDetail: React.FC = () => {
           </button>
           <div>
             <h1 className='text-2xl font-bold text-gray-900'>送检详情</h1>
-            <p className='text-gray-600 mt-1'>送检编号：{submission.id}</p>
+            <p className='text-gray-600 mt-1'>
+              送检编号：{submission.submissionNo}
+            </p>
           </div>
         </div>
         <div className='flex items-center space-x-3'>
@@ -543,15 +539,9 @@ const SubmissionDetail: React.FC = () => {
                       <FileText className='w-5 h-5 text-gray-400' />
                       <div>
                         <div className='font-medium text-gray-900'>
-                          {submission.reportDelivery === 'electronic'
-                            ? '电子版'
-                            : submission.reportDelivery === 'paper'
-                              ? '纸质版'
-                              : '电子版+纸质版'}
-                        </div>
-                        <div className='text-sm text-gray-500'>
-                          报告交付方式
+                          {submission.patientInfo}
                         </div>
+                        <div className='text-sm text-gray-500'>受检者</div>
                       </div>
                     </div>
                   </div>
@@ -19,34 +19,46 @@ import { useDataCache } from '../../hooks/useDataCache'
 import { useSearchDebounce } from '../../hooks/useDebounce'
 import SkeletonLoader from '../../components/SkeletonLoader'
 import ErrorBoundary from '../../components/ErrorBoundary'
+import dayjs from 'dayjs'
+import { SubmissionService, type Submission } from '../../services'
 
 // 送检状态选项
 const statusOptions = [
   { label: '全部状态', value: '' },
-  { label: '待接收', value: 'pending' },
+  { label: '已提交', value: 'submitted' },
   { label: '已接收', value: 'received' },
-  { label: '检测中', value: 'testing' },
-  { label: '报告编制', value: 'reporting' },
+  { label: '进行中', value: 'in_progress' },
   { label: '已完成', value: 'completed' },
   { label: '已取消', value: 'cancelled' },
+  { label: '异常', value: 'abnormal' },
 ]
 
 // 紧急程度选项
 const urgencyOptions = [
   { label: '全部', value: '' },
   { label: '普通', value: 'normal' },
-  { label: '紧急', value: 'urgent' },
-  { label: '特急', value: 'emergency' },
+  { label: '加急', value: 'urgent' },
 ]
 
+// 状态对应的进度百分比
+const statusProgress: Record<string, number> = {
+  submitted: 0,
+  received: 25,
+  in_progress: 60,
+  completed: 100,
+  cancelled: 0,
+  abnormal: 25,
+}
+
 // 送检数据接口
 interface SubmissionRecord {
   id: string
+  submissionNo: string
   clientName: string
   contactPerson: string
   contactPhone: string
+  patientName: string
   sampleCount: number
-  sampleTypes: string[]
   testItems: string[]
   status: string
   statusText: string
@@ -59,96 +71,53 @@ interface SubmissionRecord {
 }
 
 /**
- * 模拟API调用获取送检数据
+ * 将接口返回的送检单转换为列表记录
+ * @param submission 送检单
+ * @returns 列表记录
+ */
+const toSubmissionRecord = (submission: Submission): SubmissionRecord => {
+  const products = submission.submission_products || []
+  // 预期完成时间按最长周转时间估算
+  const turnaroundHours = Math.max(
+    0,
+    ...products.map(item => item.test_products?.turnaround_time || 0)
+  )
+  const sampleCount =
+    (submission.samples as { count: number }[] | undefined)?.[0]?.count || 0
+
+  return {
+    id: submission.id,
+    submissionNo: submission.submission_no,
+    clientName: submission.client_units?.name || '-',
+    contactPerson: submission.client_units?.contact_person || '-',
+    contactPhone: submission.client_units?.contact_phone || '-',
+    patientName: submission.patient_name,
+    sampleCount,
+    testItems: products.map(item => item.test_products?.name || '-'),
+    status: submission.status,
+    statusText:
+      statusOptions.find(option => option.value === submission.status)?.label ||
+      submission.status,
+    urgency: submission.is_urgent ? 'urgent' : 'normal',
+    urgencyText: submission.is_urgent ? '加急' : '普通',
+    submittedAt: dayjs(submission.submitted_at).format('YYYY-MM-DD HH:mm:ss'),
+    expectedDate: dayjs(submission.submitted_at)
+      .add(turnaroundHours, 'hour')
+      .format('YYYY-MM-DD'),
+    actualDate: submission.completed_at
+      ? dayjs(submission.completed_at).format('YYYY-MM-DD')
+      : undefined,
+    progress: statusProgress[submission.status] ?? 0,
+  }
+}
+
+/**
+ * 获取送检数据
  * @returns 送检数据
  */
 const fetchSubmissions = async (): Promise<SubmissionRecord[]> => {
-  // 模拟API延迟
-  await new Promise(resolve => setTimeout(resolve, 500))
-  
-  return [
-    {
-      id: 'SJ2025001',
-      clientName: 'ABC环保科技有限公司',
-      contactPerson: '张经理',
-      contactPhone: '13800138001',
-      sampleCount: 3,
-      sampleTypes: ['水质样本'],
-      testItems: ['重金属检测', 'pH值测定', '溶解氧测定'],
-      status: 'testing',
-      statusText: '检测中',
-      urgency: 'urgent',
-      urgencyText: '紧急',
-      submittedAt: '2025-01-20 09:30:00',
-      expectedDate: '2025-01-25',
-      progress: 65,
-    },
-    {
-      id: 'SJ2025002',
-      clientName: 'XYZ食品检测实验室',
-      contactPerson: '李主任',
-      contactPhone: '13900139002',
-      sampleCount: 5,
-      sampleTypes: ['食品样本'],
-      testItems: ['农药残留检测', '重金属检测'],
-      status: 'reporting',
-      statusText: '报告编制',
-      urgency: 'normal',
-      urgencyText: '普通',
-      submittedAt: '2025-01-19 14:20:00',
-      expectedDate: '2025-01-24',
-      progress: 85,
-    },
-    {
-      id: 'SJ2025003',
-      clientName: '绿色农业合作社',
-      contactPerson: '王总',
-      contactPhone: '13700137003',
-      sampleCount: 2,
-      sampleTypes: ['土壤样本'],
-      testItems: ['有机物检测', '重金属检测'],
-      status: 'completed',
-      statusText: '已完成',
-      urgency: 'normal',
-      urgencyText: '普通',
-      submittedAt: '2025-01-18 10:15:00',
-      expectedDate: '2025-01-23',
-      actualDate: '2025-01-22',
-      progress: 100,
-    },
-    {
-      id: 'SJ2025004',
-      clientName: '城市建设集团',
-      contactPerson: '陈工程师',
-      contactPhone: '13600136004',
-      sampleCount: 8,
-      sampleTypes: ['空气样本', '水质样本'],
-      testItems: ['PM2.5检测', '重金属检测', 'pH值测定'],
-      status: 'received',
-      statusText: '已接收',
-      urgency: 'emergency',
-      urgencyText: '特急',
-      submittedAt: '2025-01-21 16:45:00',
-      expectedDate: '2025-01-24',
-      progress: 25,
-    },
-    {
-      id: 'SJ2025005',
-      clientName: '医药研发中心',
-      contactPerson: '刘博士',
-      contactPhone: '13500135005',
-      sampleCount: 1,
-      sampleTypes: ['化学品样本'],
-      testItems: ['毒理学检测', '纯度分析'],
-      status: 'pending',
-      statusText: '待接收',
-      urgency: 'urgent',
-      urgencyText: '紧急',
-      submittedAt: '2025-01-22 08:30:00',
-      expectedDate: '2025-01-27',
-      progress: 0,
-    },
-  ]
+  const { data } = await SubmissionService.getSubmissions({ page: 1, limit: 100 })
+  return data.map(toSubmissionRecord)
 }
 
 /**
@@ -195,9 +164,9 @@ const SubmissionList: React.FC = () => {
       const urgencyMatch = !urgencyFilter || submission.urgency === urgencyFilter
       // 搜索匹配
       const searchMatch = !debouncedSearchTerm || 
-        submission.id.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
+        submission.submissionNo.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
         submission.clientName.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-        submission.contactPerson.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
+        submission.patientName.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
       
       return statusMatch && urgencyMatch && searchMatch
     })
@@ -209,8 +178,8 @@ const SubmissionList: React.FC = () => {
     
     return {
       total: allSubmissions.length,
-      pending: allSubmissions.filter(s => s.status === 'pending' || s.status === 'received').length,
-      inProgress: allSubmissions.filter(s => s.status === 'testing' || s.status === 'reporting').length,
+      pending: allSubmissions.filter(s => s.status === 'submitted' || s.status === 'received').length,
+      inProgress: allSubmissions.filter(s => s.status === 'in_progress').length,
       completed: allSubmissions.filter(s => s.status === 'completed').length,
     }
   }, [allSubmissions])
@@ -246,9 +215,9 @@ const SubmissionList: React.FC = () => {
   // 表格列配置
   const columns: TableColumn<SubmissionRecord>[] = [
     {
-      key: 'id',
+      key: 'submissionNo',
       title: '送检编号',
-      dataIndex: 'id',
+      dataIndex: 'submissionNo',
       width: 120,
       sortable: true,
       render: (value, record) => (
@@ -283,9 +252,7 @@ const SubmissionList: React.FC = () => {
       render: (value, record) => (
         <div>
           <div className='font-medium text-gray-900'>{value} 个样本</div>
-          <div className='text-sm text-gray-500'>
-            {record.sampleTypes.join(', ')}
-          </div>
+          <div className='text-sm text-gray-500'>受检者：{record.patientName}</div>
         </div>
       ),
     },
@@ -577,7 +544,7 @@ const SubmissionList: React.FC = () => {
         rowKey='id'
         loading={loading}
         searchable
-        searchPlaceholder='搜索送检编号、客户名称、联系人...'
+        searchPlaceholder='搜索送检编号、客户名称、受检者...'
         onSearch={handleSearch}
         actions={actions}
         pagination={{
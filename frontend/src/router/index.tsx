@@ -29,6 +29,7 @@ const SampleList = lazy(() => import('../pages/Sample/SampleList'))
 const SampleReceive = lazy(() => import('../pages/Sample/SampleReceive'))
 const SampleStorage = lazy(() => import('../pages/Sample/SampleStorage'))
 const SampleDestroy = lazy(() => import('../pages/Sample/SampleDestroy'))
+const SampleRecollection = lazy(() => import('../pages/Sample/SampleRecollection'))
 // 普检实验管理页面
 const GeneralExperimentList = lazy(
   () => import('../pages/GeneralExperiment/GeneralExperimentList')
@@ -52,10 +53,19 @@ const MassSpecDataReview = lazy(
   () => import('../pages/MassSpec/MassSpecDataReview')
 )
 const QualityControl = lazy(() => import('../pages/MassSpec/QualityControl'))
+const CalibrationCurve = lazy(() => import('../pages/MassSpec/CalibrationCurve'))
+const CompoundMatching = lazy(() => import('../pages/MassSpec/CompoundMatching'))
+const InjectionSequence = lazy(() => import('../pages/MassSpec/InjectionSequence'))
 const MassSpecExceptionHandle = lazy(
   () => import('../pages/MassSpec/MassSpecExceptionHandle')
 )
 
+// 孔板布局设计器（普检、质谱共用）
+const PlateLayoutDesigner = lazy(() => import('../components/PlateLayoutDesigner'))
+
+// 实验员分配（普检、质谱共用）
+const TechnicianAssignment = lazy(() => import('../components/TechnicianAssignment'))
+
 // 特检实验管理页面
 const WetLab = lazy(() => import('../pages/SpecialExperiment/WetLab'))
 const MachineOperation = lazy(
@@ -78,6 +88,9 @@ const BookingManagement = lazy(() => import('../pages/Lab/BookingManagement'))
 const EnvironmentMonitor = lazy(
   () => import('../pages/Environment/EnvironmentMonitor')
 )
+const TemperatureExcursion = lazy(
+  () => import('../pages/Environment/TemperatureExcursion')
+)
 const AccountManagement = lazy(() => import('../pages/User/AccountManagement'))
 const RoleManagement = lazy(() => import('../pages/RoleManagement'))
 const SystemSettings = lazy(() => import('../pages/Settings/SystemSettings'))
@@ -220,6 +233,14 @@ export const router = createBrowserRouter([
               </PageWrapper>
             ),
           },
+          {
+            path: 'recollection',
+            element: (
+              <PageWrapper>
+                <SampleRecollection />
+              </PageWrapper>
+            ),
+          },
           {
             path: ':id',
             element: (
@@ -262,6 +283,22 @@ export const router = createBrowserRouter([
               </PageWrapper>
             ),
           },
+          {
+            path: 'plate-layout',
+            element: (
+              <PageWrapper>
+                <PlateLayoutDesigner method='routine' />
+              </PageWrapper>
+            ),
+          },
+          {
+            path: 'assignment',
+            element: (
+              <PageWrapper>
+                <TechnicianAssignment method='routine' />
+              </PageWrapper>
+            ),
+          },
           {
             path: 'data-review',
             element: (
@@ -304,6 +341,46 @@ export const router = createBrowserRouter([
               </PageWrapper>
             ),
           },
+          {
+            path: 'plate-layout',
+            element: (
+              <PageWrapper>
+                <PlateLayoutDesigner method='mass_spec' />
+              </PageWrapper>
+            ),
+          },
+          {
+            path: 'assignment',
+            element: (
+              <PageWrapper>
+                <TechnicianAssignment method='mass_spec' />
+              </PageWrapper>
+            ),
+          },
+          {
+            path: 'injection-sequence',
+            element: (
+              <PageWrapper>
+                <InjectionSequence />
+              </PageWrapper>
+            ),
+          },
+          {
+            path: 'calibration',
+            element: (
+              <PageWrapper>
+                <CalibrationCurve />
+              </PageWrapper>
+            ),
+          },
+          {
+            path: 'compound-matching',
+            element: (
+              <PageWrapper>
+                <CompoundMatching />
+              </PageWrapper>
+            ),
+          },
           {
             path: 'data-review',
             element: (
@@ -488,6 +565,14 @@ export const router = createBrowserRouter([
               </PageWrapper>
             ),
           },
+          {
+            path: 'excursions',
+            element: (
+              <PageWrapper>
+                <TemperatureExcursion />
+              </PageWrapper>
+            ),
+          },
         ],
       },
       // 个人中心
@@ -0,0 +1,225 @@
+/**
+ * 校准曲线API服务
+ * 封装质谱校准曲线拟合判定、保存和未知样本定量相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 拟合方式
+export type FitType = 'linear' | 'quadratic'
+
+// 拟合权重：none-不加权，1/x，1/x2-1/x²
+export type Weighting = 'none' | '1/x' | '1/x2'
+
+// 曲线判定
+export type CurveStatus = 'passed' | 'failed'
+
+// 质谱定量检测项目
+export interface QuantitativeItem {
+  id: string
+  code: string
+  name: string
+  unit: string
+}
+
+// 校准品输入
+export interface CalibrationPointInput {
+  level: string
+  nominal_concentration: number
+  analyte_area: number
+  is_area?: number | null
+  is_excluded?: boolean
+}
+
+// 校准品拟合结果
+export interface CalibrationPoint extends CalibrationPointInput {
+  id?: string
+  response: number
+  back_calculated: number | null
+  accuracy: number | null
+  passed: boolean
+  sort_order: number
+}
+
+// 校准曲线保存参数
+export interface CalibrationCurveInput {
+  batch_no: string
+  item_id: string
+  fit_type: FitType
+  weighting: Weighting
+  use_internal_standard: boolean
+  points: CalibrationPointInput[]
+  remarks?: string
+}
+
+// 验收标准
+export interface CalibrationAcceptance {
+  min_r_squared: number
+  accuracy_tolerance: number
+  lloq_tolerance: number
+  min_pass_ratio: number
+  min_levels: number
+}
+
+// 试拟合结果
+export interface CalibrationFit {
+  coefficients: { intercept: number; slope: number; quadratic: number }
+  r_squared: number
+  points: CalibrationPoint[]
+  lloq: number | null
+  uloq: number | null
+  status: CurveStatus
+  failure_reasons: string[]
+  acceptance: CalibrationAcceptance
+}
+
+// 校准曲线接口定义
+export interface CalibrationCurve {
+  id: string
+  batch_no: string
+  item_id: string
+  fit_type: FitType
+  weighting: Weighting
+  use_internal_standard: boolean
+  intercept: number
+  slope: number
+  quadratic: number
+  r_squared: number
+  lloq: number | null
+  uloq: number | null
+  status: CurveStatus
+  failure_reasons: string[]
+  acceptance?: CalibrationAcceptance
+  quantified_at?: string | null
+  remarks?: string | null
+  updated_at: string
+  test_items?: QuantitativeItem
+  calibration_points?: CalibrationPoint[]
+}
+
+// 校准曲线查询参数
+export interface CalibrationCurveQueryParams extends PaginationParams {
+  batch_no?: string
+  item_id?: string
+  status?: CurveStatus | ''
+}
+
+// 未知样本峰面积
+export interface UnknownInput {
+  sample_key: string
+  analyte_area: number
+  is_area?: number | null
+}
+
+// 定量校验结果
+export interface QuantitationResult {
+  total_rows: number
+  quantified_count: number
+  out_of_range_count: number
+  error_count: number
+  errors: { row_no: number; sample_key: string; message: string }[]
+  results: {
+    row_no: number
+    sample_key: string
+    experiment_id: string
+    experiment_no: string
+    analyte_area: number
+    is_area: number | null
+    response: number
+    concentration: string
+    range_flag: 'below_lloq' | 'above_uloq' | null
+    result_value: string
+  }[]
+}
+
+/**
+ * 校准曲线API服务类
+ */
+export class CalibrationService {
+  /**
+   * 获取质谱定量检测项目
+   * @returns 检测项目列表
+   */
+  static async getItems(): Promise<QuantitativeItem[]> {
+    const response = await http.get<ApiResponse<QuantitativeItem[]>>('/calibration-curves/items')
+    return response.data.data
+  }
+
+  /**
+   * 获取校准曲线
+   * @param params 查询参数
+   * @returns 分页的校准曲线
+   */
+  static async getCurves(params: CalibrationCurveQueryParams = {}): Promise<PaginatedResponse<CalibrationCurve>> {
+    const response = await http.get('/calibration-curves', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取校准曲线详情
+   * @param id 曲线ID
+   * @returns 曲线及校准品
+   */
+  static async getCurve(id: string): Promise<CalibrationCurve> {
+    const response = await http.get<ApiResponse<CalibrationCurve>>(`/calibration-curves/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 试拟合校准曲线（不保存）
+   * @param curve 曲线参数
+   * @returns 拟合判定结果
+   */
+  static async fitCurve(curve: CalibrationCurveInput): Promise<CalibrationFit> {
+    const response = await http.post<ApiResponse<CalibrationFit>>('/calibration-curves/fit', curve)
+    return response.data.data
+  }
+
+  /**
+   * 保存校准曲线
+   * @param curve 曲线参数
+   * @returns 保存后的曲线
+   */
+  static async saveCurve(curve: CalibrationCurveInput): Promise<CalibrationCurve> {
+    const response = await http.post<ApiResponse<CalibrationCurve>>('/calibration-curves', curve)
+    return response.data.data
+  }
+
+  /**
+   * 校验未知样本定量（试运行，不写入结果）
+   * @param id 曲线ID
+   * @param rows 未知样本峰面积
+   * @returns 定量校验结果
+   */
+  static async validateQuantitation(id: string, rows: UnknownInput[]): Promise<QuantitationResult> {
+    const response = await http.post<ApiResponse<QuantitationResult>>(`/calibration-curves/${id}/quantify/validate`, { rows })
+    return response.data.data
+  }
+
+  /**
+   * 定量未知样本并写入实验结果
+   * @param id 曲线ID
+   * @param rows 未知样本峰面积
+   * @returns 定量结果
+   */
+  static async quantify(id: string, rows: UnknownInput[]): Promise<QuantitationResult> {
+    const response = await http.post<ApiResponse<QuantitationResult>>(
+      `/calibration-curves/${id}/quantify`,
+      { rows },
+      { timeout: 120000 }
+    )
+    return response.data.data
+  }
+}
+
+export default {
+  CalibrationService,
+}
@@ -0,0 +1,222 @@
+/**
+ * 化合物库API服务
+ * 封装化合物库维护、质谱峰上传比对和鉴定审核相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 鉴定状态：unmatched-无匹配，suggested-待确认，accepted-已确认，overridden-人工改判
+export type AnnotationStatus = 'unmatched' | 'suggested' | 'accepted' | 'overridden'
+
+// 加合离子
+export interface AdductOption {
+  adduct: string
+  charge: number
+  polarity: 'positive' | 'negative'
+}
+
+// 化合物保存参数
+export interface CompoundInput {
+  name: string
+  formula: string
+  monoisotopic_mass: number
+  expected_rt?: number | null
+  adducts: string[]
+  cas_no?: string | null
+  category?: string | null
+  is_active?: boolean
+  remarks?: string | null
+}
+
+// 化合物接口定义
+export interface Compound extends CompoundInput {
+  id: string
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// 化合物查询参数
+export interface CompoundQueryParams extends PaginationParams {
+  category?: string
+  is_active?: boolean
+}
+
+// 比对候选
+export interface MatchCandidate {
+  compound_id: string
+  name: string
+  formula: string
+  adduct: string
+  theoretical_mz: number
+  ppm_error: number
+  rt_delta: number | null
+  score: number
+}
+
+// 上传的质谱峰
+export interface PeakInput {
+  peak_no: string
+  mz: number
+  intensity: number
+  retention_time: number
+  notes?: string | null
+}
+
+// 质谱峰接口定义
+export interface MassSpecPeak extends PeakInput {
+  id: string
+  experiment_id: string
+  compound_id: string | null
+  compound: string | null
+  formula: string | null
+  adduct: string | null
+  confidence: number | null
+  candidates: MatchCandidate[]
+  annotation_status: AnnotationStatus
+  reviewed_at?: string | null
+  reviewer?: { id: string; real_name: string } | null
+}
+
+// 实验的质谱峰
+export interface ExperimentPeaks {
+  experiment: { id: string; experiment_no: string; status: string; review_status?: string }
+  peaks: MassSpecPeak[]
+}
+
+// 上传汇总
+export interface PeakUploadResult {
+  total: number
+  suggested_count: number
+  unmatched_count: number
+}
+
+// 人工改判参数
+export interface PeakOverrideInput {
+  compound_id?: string | null
+  compound?: string | null
+  formula?: string | null
+  adduct?: string | null
+  confidence: number
+  notes?: string | null
+}
+
+/**
+ * 化合物库API服务类
+ */
+export class CompoundService {
+  /**
+   * 获取化合物列表
+   * @param params 查询参数
+   * @returns 分页的化合物
+   */
+  static async getCompounds(params: CompoundQueryParams = {}): Promise<PaginatedResponse<Compound>> {
+    const response = await http.get('/compounds', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取支持的加合离子
+   * @returns 加合离子列表
+   */
+  static async getAdducts(): Promise<AdductOption[]> {
+    const response = await http.get<ApiResponse<AdductOption[]>>('/compounds/adducts')
+    return response.data.data
+  }
+
+  /**
+   * 新增化合物
+   * @param compound 化合物参数
+   * @returns 创建的化合物
+   */
+  static async createCompound(compound: CompoundInput): Promise<Compound> {
+    const response = await http.post<ApiResponse<Compound>>('/compounds', compound)
+    return response.data.data
+  }
+
+  /**
+   * 更新化合物
+   * @param id 化合物ID
+   * @param compound 化合物参数
+   * @returns 更新后的化合物
+   */
+  static async updateCompound(id: string, compound: CompoundInput): Promise<Compound> {
+    const response = await http.put<ApiResponse<Compound>>(`/compounds/${id}`, compound)
+    return response.data.data
+  }
+
+  /**
+   * 获取实验的质谱峰及鉴定
+   * @param experimentId 实验ID
+   * @returns 实验及质谱峰
+   */
+  static async getPeaks(experimentId: string): Promise<ExperimentPeaks> {
+    const response = await http.get<ApiResponse<ExperimentPeaks>>(`/mass-spec-peaks/experiments/${experimentId}`)
+    return response.data.data
+  }
+
+  /**
+   * 上传质谱峰并比对化合物库（替换已有质谱峰）
+   * @param experimentId 实验ID
+   * @param peaks 质谱峰
+   * @returns 上传汇总
+   */
+  static async uploadPeaks(experimentId: string, peaks: PeakInput[]): Promise<PeakUploadResult> {
+    const response = await http.put<ApiResponse<PeakUploadResult>>(
+      `/mass-spec-peaks/experiments/${experimentId}`,
+      { peaks },
+      { timeout: 120000 }
+    )
+    return response.data.data
+  }
+
+  /**
+   * 重新比对化合物库
+   * @param experimentId 实验ID
+   * @returns 重新比对的质谱峰数
+   */
+  static async rematchPeaks(experimentId: string): Promise<number> {
+    const response = await http.post<ApiResponse<{ count: number }>>(`/mass-spec-peaks/experiments/${experimentId}/rematch`)
+    return response.data.data.count
+  }
+
+  /**
+   * 确认比对候选
+   * @param peakId 质谱峰ID
+   * @param candidateIndex 候选序号
+   * @returns 更新后的质谱峰
+   */
+  static async acceptCandidate(peakId: string, candidateIndex = 0): Promise<MassSpecPeak> {
+    const response = await http.post<ApiResponse<MassSpecPeak>>(`/mass-spec-peaks/${peakId}/review`, {
+      action: 'accept',
+      candidate_index: candidateIndex,
+    })
+    return response.data.data
+  }
+
+  /**
+   * 人工改判鉴定
+   * @param peakId 质谱峰ID
+   * @param override 改判参数
+   * @returns 更新后的质谱峰
+   */
+  static async overrideAnnotation(peakId: string, override: PeakOverrideInput): Promise<MassSpecPeak> {
+    const response = await http.post<ApiResponse<MassSpecPeak>>(`/mass-spec-peaks/${peakId}/review`, {
+      action: 'override',
+      ...override,
+    })
+    return response.data.data
+  }
+}
+
+export default {
+  CompoundService,
+}
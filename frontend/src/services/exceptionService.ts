@@ -0,0 +1,362 @@
+/**
+ * 异常与CAPA管理API服务
+ * 封装实验、样本、设备、环境异常的登记、指派、调查、纠正/预防措施、有效性验证、签字关闭及CAPA台账导出相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+import type { ExperimentMethod } from './experimentService'
+
+// 异常来源
+export type ExceptionSourceType = 'experiment' | 'sample' | 'equipment' | 'environment'
+
+// 异常严重程度
+export type ExceptionSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+// 异常状态
+export type ExceptionStatus = 'open' | 'investigating' | 'action' | 'verification' | 'closed' | 'cancelled'
+
+// 措施类型
+export type ExceptionActionType = 'corrective' | 'preventive'
+
+// 措施状态
+export type ExceptionActionStatus = 'open' | 'completed' | 'cancelled'
+
+// 用户简要信息
+export interface UserBrief {
+  id: string
+  real_name: string
+}
+
+// 纠正/预防措施接口定义
+export interface ExceptionAction {
+  id: string
+  exception_id: string
+  action_type: ExceptionActionType
+  description: string
+  owner_id: string
+  due_date: string
+  status: ExceptionActionStatus
+  completed_at?: string | null
+  completion_notes?: string | null
+  effectiveness?: 'effective' | 'ineffective' | null
+  effectiveness_checked_by?: string | null
+  effectiveness_checked_at?: string | null
+  effectiveness_notes?: string | null
+  created_at: string
+  is_overdue?: boolean
+  owner?: UserBrief
+  checker?: UserBrief | null
+}
+
+// 异常处理记录
+export interface ExceptionEvent {
+  id: string
+  action_id?: string | null
+  event_type: string
+  from_status?: ExceptionStatus | null
+  to_status?: ExceptionStatus | null
+  comments?: string | null
+  created_at: string
+  operator?: UserBrief | null
+}
+
+// 异常接口定义
+export interface ExceptionRecord {
+  id: string
+  exception_no: string
+  source_type: ExceptionSourceType
+  method?: ExperimentMethod | null
+  experiment_id?: string | null
+  sample_id?: string | null
+  equipment_id?: string | null
+  monitoring_point_id?: string | null
+  temperature_excursion_id?: string | null
+  exception_type: string
+  title?: string
+  exception_desc: string
+  severity: ExceptionSeverity
+  status: ExceptionStatus
+  occurred_at?: string
+  assignee_id?: string | null
+  assigned_at?: string | null
+  due_date?: string | null
+  investigation?: string | null
+  root_cause?: string | null
+  impact?: string | null
+  estimated_loss?: number | null
+  actual_loss?: number | null
+  resolution?: string | null
+  resolver_id?: string | null
+  resolved_at?: string | null
+  created_at: string
+  updated_at: string
+  experiments?: { id: string; experiment_no: string; method: ExperimentMethod; status: string } | null
+  samples?: { id: string; sample_no: string; barcode: string } | null
+  equipment?: { id: string; equipment_no: string; name: string; status: string } | null
+  monitoring_points?: { id: string; point_no: string; name: string; location: string } | null
+  temperature_excursions?: { id: string; excursion_no: string; status: string } | null
+  assignee?: UserBrief | null
+  resolver?: UserBrief | null
+  exception_actions?: ExceptionAction[]
+  exception_events?: ExceptionEvent[]
+  is_overdue: boolean
+  action_summary: {
+    total: number
+    open: number
+    overdue: number
+    completed: number
+    effective: number
+  }
+}
+
+// 异常查询参数
+export interface ExceptionQueryParams extends PaginationParams {
+  source_type?: ExceptionSourceType | ''
+  method?: ExperimentMethod | ''
+  status?: ExceptionStatus | ''
+  severity?: ExceptionSeverity | ''
+  assignee_id?: string
+  overdue?: boolean
+  date_from?: string
+  date_to?: string
+}
+
+// 登记异常参数
+export interface CreateExceptionData {
+  source_type: ExceptionSourceType
+  experiment_id?: string
+  sample_id?: string
+  equipment_id?: string
+  monitoring_point_id?: string
+  temperature_excursion_id?: string
+  exception_type: string
+  title: string
+  description: string
+  severity?: ExceptionSeverity
+  occurred_at?: string
+  impact?: string
+  estimated_loss?: number
+}
+
+// 调查结果参数
+export interface InvestigationData {
+  investigation?: string
+  root_cause?: string
+  impact?: string
+  actual_loss?: number | null
+}
+
+// 制定措施参数
+export interface ExceptionActionData {
+  action_type: ExceptionActionType
+  description: string
+  owner_id: string
+  due_date: string
+}
+
+// 有效性验证参数
+export interface EffectivenessData {
+  effective: boolean
+  notes?: string
+  due_date?: string
+}
+
+// CAPA台账导出条件
+export interface CapaLogParams {
+  source_type?: ExceptionSourceType | ''
+  method?: ExperimentMethod | ''
+  status?: ExceptionStatus | ''
+  date_from?: string
+  date_to?: string
+}
+
+/**
+ * 异常与CAPA管理API服务类
+ */
+export class ExceptionService {
+  /**
+   * 获取异常列表
+   * @param params 分页和筛选参数
+   * @returns 异常列表
+   */
+  static async getExceptions(params: ExceptionQueryParams = {}): Promise<PaginatedResponse<ExceptionRecord>> {
+    const response = await http.get('/exceptions', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取异常详情
+   * @param id 异常ID
+   * @returns 异常及措施、处理记录
+   */
+  static async getException(id: string): Promise<ExceptionRecord> {
+    const response = await http.get<ApiResponse<ExceptionRecord>>(`/exceptions/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 获取可处理异常的人员
+   * @param params 异常来源及实验方法，实验异常须指定方法
+   * @returns 拥有该异常权限的在用账号，用于选择调查负责人和措施负责人
+   */
+  static async getHandlers(params: { source_type?: ExceptionSourceType; method?: ExperimentMethod }): Promise<UserBrief[]> {
+    const response = await http.get<ApiResponse<UserBrief[]>>('/exceptions/handlers', { params })
+    return response.data.data
+  }
+
+  /**
+   * 登记异常
+   * @param data 异常信息
+   * @returns 异常详情
+   */
+  static async createException(data: CreateExceptionData): Promise<ExceptionRecord> {
+    const response = await http.post<ApiResponse<ExceptionRecord>>('/exceptions', data)
+    return response.data.data
+  }
+
+  /**
+   * 指派异常调查
+   * @param id 异常ID
+   * @param assigneeId 调查负责人ID
+   * @param dueDate 调查完成期限，为空时按严重程度确定
+   * @returns 异常详情
+   */
+  static async assign(id: string, assigneeId: string, dueDate?: string): Promise<ExceptionRecord> {
+    const response = await http.post<ApiResponse<ExceptionRecord>>(`/exceptions/${id}/assign`, {
+      assignee_id: assigneeId,
+      due_date: dueDate,
+    })
+    return response.data.data
+  }
+
+  /**
+   * 记录调查结果
+   * @param id 异常ID
+   * @param data 调查结果
+   * @returns 异常详情
+   */
+  static async saveInvestigation(id: string, data: InvestigationData): Promise<ExceptionRecord> {
+    const response = await http.put<ApiResponse<ExceptionRecord>>(`/exceptions/${id}/investigation`, data)
+    return response.data.data
+  }
+
+  /**
+   * 制定纠正/预防措施
+   * @param id 异常ID
+   * @param data 措施
+   * @returns 异常详情
+   */
+  static async addAction(id: string, data: ExceptionActionData): Promise<ExceptionRecord> {
+    const response = await http.post<ApiResponse<ExceptionRecord>>(`/exceptions/${id}/actions`, data)
+    return response.data.data
+  }
+
+  /**
+   * 调整措施
+   * @param id 异常ID
+   * @param actionId 措施ID
+   * @param data 调整内容
+   * @returns 异常详情
+   */
+  static async updateAction(
+    id: string,
+    actionId: string,
+    data: Partial<Omit<ExceptionActionData, 'action_type'>>
+  ): Promise<ExceptionRecord> {
+    const response = await http.put<ApiResponse<ExceptionRecord>>(`/exceptions/${id}/actions/${actionId}`, data)
+    return response.data.data
+  }
+
+  /**
+   * 取消措施
+   * @param id 异常ID
+   * @param actionId 措施ID
+   * @param reason 取消原因
+   * @returns 异常详情
+   */
+  static async cancelAction(id: string, actionId: string, reason: string): Promise<ExceptionRecord> {
+    const response = await http.post<ApiResponse<ExceptionRecord>>(
+      `/exceptions/${id}/actions/${actionId}/cancel`,
+      { reason }
+    )
+    return response.data.data
+  }
+
+  /**
+   * 完成措施
+   * @param id 异常ID
+   * @param actionId 措施ID
+   * @param completionNotes 完成情况
+   * @returns 异常详情
+   */
+  static async completeAction(id: string, actionId: string, completionNotes: string): Promise<ExceptionRecord> {
+    const response = await http.post<ApiResponse<ExceptionRecord>>(
+      `/exceptions/${id}/actions/${actionId}/complete`,
+      { completion_notes: completionNotes }
+    )
+    return response.data.data
+  }
+
+  /**
+   * 措施有效性验证
+   * @param id 异常ID
+   * @param actionId 措施ID
+   * @param data 验证结果，无效时须填写意见并重新设定期限
+   * @returns 异常详情
+   */
+  static async checkEffectiveness(id: string, actionId: string, data: EffectivenessData): Promise<ExceptionRecord> {
+    const response = await http.post<ApiResponse<ExceptionRecord>>(
+      `/exceptions/${id}/actions/${actionId}/effectiveness`,
+      data
+    )
+    return response.data.data
+  }
+
+  /**
+   * 签字关闭异常
+   * @param id 异常ID
+   * @param resolution 关闭结论
+   * @returns 异常详情
+   */
+  static async close(id: string, resolution: string): Promise<ExceptionRecord> {
+    const response = await http.post<ApiResponse<ExceptionRecord>>(`/exceptions/${id}/close`, { resolution })
+    return response.data.data
+  }
+
+  /**
+   * 取消异常
+   * @param id 异常ID
+   * @param reason 取消原因
+   * @returns 异常详情
+   */
+  static async cancel(id: string, reason: string): Promise<ExceptionRecord> {
+    const response = await http.post<ApiResponse<ExceptionRecord>>(`/exceptions/${id}/cancel`, { reason })
+    return response.data.data
+  }
+
+  /**
+   * 导出CAPA台账
+   * @param params 导出条件
+   * @returns CSV文件
+   */
+  static async exportCapaLog(params: CapaLogParams = {}): Promise<Blob> {
+    const response = await http.get('/exceptions/capa-log/export', {
+      params,
+      responseType: 'blob',
+    })
+    return response.data
+  }
+}
+
+// 导出默认服务
+export default {
+  ExceptionService,
+}
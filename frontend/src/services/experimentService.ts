@@ -0,0 +1,257 @@
+/**
+ * 实验管理API服务
+ * 封装实验、结果录入、结果审核相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 实验方法
+export type ExperimentMethod = 'routine' | 'mass_spec' | 'special'
+
+// 实验状态
+export type ExperimentStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+
+// 实验审核状态
+export type ExperimentReviewStatus =
+  | 'not_submitted'
+  | 'pending'
+  | 'approved'
+  | 'on_hold'
+  | 'rejected'
+
+// 检测项目接口定义
+export interface ExperimentItem {
+  id: string
+  code: string
+  name: string
+  method: ExperimentMethod
+  unit?: string
+  is_required: boolean
+}
+
+// 实验数据接口定义
+export interface ExperimentData {
+  id: string
+  item_id: string
+  result_value: string
+  result_numeric?: number
+  result_text?: string
+  unit?: string
+  reference_range?: string
+  is_abnormal: boolean
+  abnormal_flag?: 'H' | 'L' | 'HH' | 'LL'
+  measured_at?: string
+  updated_at?: string
+}
+
+// 实验接口定义
+export interface Experiment {
+  id: string
+  experiment_no: string
+  method: ExperimentMethod
+  batch_no?: string
+  status: ExperimentStatus
+  review_status?: ExperimentReviewStatus
+  current_review_level?: number
+  required_review_levels?: number
+  submitted_at?: string
+  started_at?: string
+  completed_at?: string
+  created_at?: string
+  remarks?: string
+  samples?: {
+    id: string
+    sample_no: string
+    barcode: string
+    status?: string
+    sample_types?: { id: string; name: string }
+    submissions?: {
+      id: string
+      submission_no: string
+      patient_name: string
+      patient_gender?: string
+      patient_age?: number
+      is_urgent: boolean
+    }
+  }
+  test_products?: { id: string; code: string; name: string }
+  technicians?: {
+    id: string
+    employee_no?: string
+    users?: { id: string; real_name: string }
+  }
+}
+
+// 实验详情接口定义
+export interface ExperimentDetail extends Experiment {
+  experiment_data: ExperimentData[]
+  items: ExperimentItem[]
+}
+
+// 待审核实验接口定义
+export interface PendingReview extends Experiment {
+  submitter?: { id: string; real_name: string }
+  data_count: number
+  abnormal_count: number
+}
+
+// 审核记录接口定义
+export interface ExperimentAudit {
+  id: string
+  audit_level: number
+  audit_result: 'approved' | 'rejected' | 'pending'
+  audit_comments?: string
+  audit_time: string
+  users?: { id: string; real_name: string }
+}
+
+// 实验列表查询参数
+export interface ExperimentQueryParams extends PaginationParams {
+  status?: string
+  method?: ExperimentMethod
+  sample_id?: string
+  technician_id?: string
+  batch_no?: string
+  date_from?: string
+  date_to?: string
+}
+
+// 批量创建实验参数
+export interface CreateExperimentBatchParams {
+  sample_ids: string[]
+  product_ids: string[]
+  method: ExperimentMethod
+  technician_id?: string
+  equipment_id?: string
+  remarks?: string
+}
+
+// 结果录入参数
+export interface ExperimentResultInput {
+  item_id: string
+  result_value: string | number
+  unit?: string
+  result_text?: string
+  measured_at?: string
+}
+
+/**
+ * 实验管理API服务类
+ */
+export class ExperimentService {
+  /**
+   * 获取实验列表
+   * @param params 分页和筛选参数
+   * @returns 实验列表
+   */
+  static async getExperiments(params: ExperimentQueryParams = {}): Promise<PaginatedResponse<Experiment>> {
+    const response = await http.get('/experiments', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取实验详情
+   * @param id 实验ID
+   * @returns 实验详情（含检测项目和已录入数据）
+   */
+  static async getExperimentById(id: string): Promise<ExperimentDetail> {
+    const response = await http.get<ApiResponse<ExperimentDetail>>(`/experiments/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 批量创建实验
+   * @param params 创建参数
+   * @returns 批次号、创建的实验及跳过的组合
+   */
+  static async createBatch(params: CreateExperimentBatchParams): Promise<{
+    batch_no: string
+    experiments: Experiment[]
+    skipped: { sample_no: string; product_id: string; reason: string }[]
+  }> {
+    const response = await http.post('/experiments/batch', params)
+    return response.data.data
+  }
+
+  /**
+   * 录入实验结果
+   * @param id 实验ID
+   * @param results 检测项目结果
+   * @returns 保存后的实验数据
+   */
+  static async saveResults(id: string, results: ExperimentResultInput[]): Promise<ExperimentData[]> {
+    const response = await http.put<ApiResponse<ExperimentData[]>>(`/experiments/${id}/results`, { results })
+    return response.data.data
+  }
+
+  /**
+   * 完成实验并提交审核
+   * @param id 实验ID
+   * @returns 更新后的实验
+   */
+  static async completeExperiment(id: string): Promise<Experiment> {
+    const response = await http.post<ApiResponse<Experiment>>(`/experiments/${id}/complete`)
+    return response.data.data
+  }
+
+  /**
+   * 获取当前用户的待审核队列
+   * @param params 分页和方法筛选参数
+   * @returns 待审核实验列表
+   */
+  static async getPendingReviews(
+    params: PaginationParams & { method?: ExperimentMethod } = {}
+  ): Promise<PaginatedResponse<PendingReview>> {
+    const response = await http.get('/experiments/reviews/pending', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 审核实验结果
+   * @param id 实验ID
+   * @param result 审核结果
+   * @param comments 审核意见（驳回时必填）
+   * @returns 更新后的实验
+   */
+  static async reviewExperiment(
+    id: string,
+    result: 'approved' | 'rejected',
+    comments?: string
+  ): Promise<Experiment> {
+    const response = await http.post<ApiResponse<Experiment>>(`/experiments/${id}/review`, { result, comments })
+    return response.data.data
+  }
+
+  /**
+   * 获取实验审核记录
+   * @param id 实验ID
+   * @returns 审核记录
+   */
+  static async getAudits(id: string): Promise<ExperimentAudit[]> {
+    const response = await http.get<ApiResponse<ExperimentAudit[]>>(`/experiments/${id}/audits`)
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  ExperimentService,
+}
@@ -5,4 +5,40 @@
  */
 
 export * from './userService'
-export { default as userService } from './userService'
\ No newline at end of file
+export { default as userService } from './userService'
+export * from './submissionService'
+export { default as submissionService } from './submissionService'
+export * from './experimentService'
+export { default as experimentService } from './experimentService'
+export * from './reportService'
+export { default as reportService } from './reportService'
+export * from './reportTemplateService'
+export { default as reportTemplateService } from './reportTemplateService'
+export * from './sampleService'
+export { default as sampleService } from './sampleService'
+export * from './storageService'
+export { default as storageService } from './storageService'
+export * from './sampleDestructionService'
+export { default as sampleDestructionService } from './sampleDestructionService'
+export * from './sampleRejectionService'
+export { default as sampleRejectionService } from './sampleRejectionService'
+export * from './sampleCheckoutService'
+export { default as sampleCheckoutService } from './sampleCheckoutService'
+export * from './temperatureExcursionService'
+export { default as temperatureExcursionService } from './temperatureExcursionService'
+export * from './plateLayoutService'
+export { default as plateLayoutService } from './plateLayoutService'
+export * from './instrumentImportService'
+export { default as instrumentImportService } from './instrumentImportService'
+export * from './qcService'
+export { default as qcService } from './qcService'
+export * from './calibrationService'
+export { default as calibrationService } from './calibrationService'
+export * from './compoundService'
+export { default as compoundService } from './compoundService'
+export * from './injectionSequenceService'
+export { default as injectionSequenceService } from './injectionSequenceService'
+export * from './technicianAssignmentService'
+export { default as technicianAssignmentService } from './technicianAssignmentService'
+export * from './exceptionService'
+export { default as exceptionService } from './exceptionService'
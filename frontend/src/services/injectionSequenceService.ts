@@ -0,0 +1,184 @@
+/**
+ * 质谱进样序列API服务
+ * 封装进样序列生成、顺序调整、违规检查、确认及序列文件导出相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { BatchExperiment } from './plateLayoutService'
+
+// 进样类型
+export type InjectionType = 'blank' | 'sst' | 'calibrator' | 'qc' | 'unknown'
+
+// 序列文件格式
+export type SequenceExportFormat = 'generic' | 'masshunter' | 'analyst' | 'xcalibur'
+
+// 校准品或质控品定义
+export interface SequenceStandard {
+  label: string
+  level?: string
+}
+
+// 序列规则
+export interface SequenceRules {
+  key?: string
+  name?: string
+  leading_blanks: number
+  sst_injections: number
+  calibrators: SequenceStandard[]
+  blanks_after_calibrators: number
+  qcs: SequenceStandard[]
+  qc_interval: number
+  trailing_qc: boolean
+  trailing_blanks: number
+  unknown_replicates: number
+  injection_volume: number | null
+}
+
+// 序列违规
+export interface SequenceViolation {
+  code: string
+  position: number | null
+  message: string
+}
+
+// 进样接口定义
+export interface SequenceItem {
+  id?: string
+  position?: number
+  injection_type: InjectionType
+  experiment_id?: string | null
+  sample_id?: string | null
+  label?: string | null
+  level?: string | null
+  replicate: number
+  vial_position?: string | null
+  injection_volume?: number | null
+  experiments?: { id: string; experiment_no: string } | null
+  samples?: { id: string; sample_no: string; barcode: string } | null
+}
+
+// 进样序列接口定义
+export interface InjectionSequence {
+  id: string
+  batch_no: string
+  rules: SequenceRules
+  violations: SequenceViolation[]
+  status: 'draft' | 'confirmed'
+  confirmed_by?: string
+  confirmed_at?: string
+  remarks?: string
+  updated_at: string
+  injection_sequence_items: SequenceItem[]
+}
+
+// 批次进样序列
+export interface BatchInjectionSequence {
+  batch_no: string
+  experiments: BatchExperiment[]
+  sequence: InjectionSequence | null
+}
+
+// 进样参数
+export interface SequenceItemInput {
+  injection_type: InjectionType
+  experiment_id?: string | null
+  label?: string | null
+  level?: string | null
+  replicate?: number
+  vial_position?: string | null
+  injection_volume?: number | null
+}
+
+/**
+ * 进样序列API服务类
+ */
+export class InjectionSequenceService {
+  /**
+   * 获取序列规则
+   * @returns 系统配置的序列规则
+   */
+  static async getRules(): Promise<SequenceRules[]> {
+    const response = await http.get<ApiResponse<SequenceRules[]>>('/injection-sequences/rules')
+    return response.data.data
+  }
+
+  /**
+   * 获取批次进样序列
+   * @param batchNo 批次号
+   * @returns 批次实验及进样序列
+   */
+  static async getBatchSequence(batchNo: string): Promise<BatchInjectionSequence> {
+    const response = await http.get<ApiResponse<BatchInjectionSequence>>('/injection-sequences', {
+      params: { batch_no: batchNo },
+    })
+    return response.data.data
+  }
+
+  /**
+   * 生成批次进样序列
+   * @param batchNo 批次号
+   * @param rules 序列规则
+   * @returns 生成的进样序列
+   */
+  static async generate(batchNo: string, rules: SequenceRules): Promise<InjectionSequence> {
+    const response = await http.post<ApiResponse<InjectionSequence>>('/injection-sequences/generate', {
+      batch_no: batchNo,
+      rules,
+    })
+    return response.data.data
+  }
+
+  /**
+   * 保存调整后的进样顺序
+   * @param id 进样序列ID
+   * @param items 按进样顺序排列的进样
+   * @returns 更新后的进样序列
+   */
+  static async saveItems(id: string, items: SequenceItemInput[]): Promise<InjectionSequence> {
+    const response = await http.put<ApiResponse<InjectionSequence>>(`/injection-sequences/${id}/items`, {
+      items,
+    })
+    return response.data.data
+  }
+
+  /**
+   * 确认进样序列
+   * @param id 进样序列ID
+   * @returns 更新后的进样序列
+   */
+  static async confirm(id: string): Promise<InjectionSequence> {
+    const response = await http.post<ApiResponse<InjectionSequence>>(`/injection-sequences/${id}/confirm`)
+    return response.data.data
+  }
+
+  /**
+   * 撤销进样序列确认
+   * @param id 进样序列ID
+   * @returns 更新后的进样序列
+   */
+  static async reopen(id: string): Promise<InjectionSequence> {
+    const response = await http.post<ApiResponse<InjectionSequence>>(`/injection-sequences/${id}/reopen`)
+    return response.data.data
+  }
+
+  /**
+   * 导出序列文件
+   * @param id 进样序列ID
+   * @param format 序列文件格式
+   * @returns CSV文件
+   */
+  static async exportSequence(id: string, format: SequenceExportFormat): Promise<Blob> {
+    const response = await http.get(`/injection-sequences/${id}/export`, {
+      params: { format },
+      responseType: 'blob',
+    })
+    return response.data
+  }
+}
+
+// 导出默认服务
+export default {
+  InjectionSequenceService,
+}
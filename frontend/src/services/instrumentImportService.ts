@@ -0,0 +1,201 @@
+/**
+ * 仪器结果导入API服务
+ * 封装仪器导入映射方案维护、结果文件校验预览和导入相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+import type { ExperimentMethod } from './experimentService'
+
+// 文件版式：wide-每行一个样本、每个检测项目一列，long-每行一个样本的一个检测项目
+export type ImportLayout = 'wide' | 'long'
+
+// wide版式的项目列映射
+export interface ImportItemColumn {
+  column: string
+  item_code: string
+  unit_column?: string | null
+}
+
+// 仪器导入映射方案接口定义
+export interface InstrumentImportProfile {
+  id: string
+  name: string
+  equipment_id?: string | null
+  method: ExperimentMethod
+  delimiter?: string | null
+  header_row: number
+  layout: ImportLayout
+  sample_column: string
+  sample_key: 'barcode' | 'sample_no'
+  item_columns: ImportItemColumn[]
+  item_column?: string | null
+  value_column?: string | null
+  unit_column?: string | null
+  measured_at_column?: string | null
+  skip_sample_pattern?: string | null
+  is_active: boolean
+  remarks?: string | null
+  equipment?: { id: string; equipment_no: string; name: string; model?: string; manufacturer?: string } | null
+}
+
+// 映射方案保存参数
+export type InstrumentImportProfileInput = Omit<InstrumentImportProfile, 'id' | 'equipment'>
+
+// 行级错误
+export interface InstrumentRowError {
+  row_no: number
+  column: string
+  message: string
+}
+
+// 按实验汇总的预览结果
+export interface ImportExperimentPreview {
+  experiment_id: string
+  experiment_no: string
+  sample_id: string
+  sample_no: string
+  status: string
+  results: {
+    row_no: number
+    item_id: string
+    item_code: string
+    item_name: string
+    result_value: string
+    unit?: string
+    measured_at?: string
+  }[]
+}
+
+// 导入校验结果
+export interface InstrumentImportValidation {
+  total_rows: number
+  skipped_count: number
+  result_count: number
+  error_count: number
+  errors: InstrumentRowError[]
+  experiments: ImportExperimentPreview[]
+}
+
+// 导入记录接口定义
+export interface InstrumentImportRecord {
+  id: string
+  profile_id: string
+  file_name: string
+  row_count: number
+  experiment_count: number
+  result_count: number
+  imported_by?: string
+  imported_at: string
+  instrument_import_profiles?: { id: string; name: string; method: ExperimentMethod }
+  importer?: { id: string; real_name: string }
+}
+
+// 导入记录查询参数
+export interface InstrumentImportQueryParams extends PaginationParams {
+  profile_id?: string
+}
+
+/**
+ * 组装结果文件上传表单
+ * @param profileId 映射方案ID
+ * @param file 结果文件
+ * @returns 表单数据
+ */
+const toUploadForm = (profileId: string, file: File): FormData => {
+  const form = new FormData()
+  form.append('profile_id', profileId)
+  form.append('file', file)
+  return form
+}
+
+/**
+ * 仪器结果导入API服务类
+ */
+export class InstrumentImportService {
+  /**
+   * 获取导入映射方案
+   * @param method 实验方法
+   * @param activeOnly 是否只返回启用的方案
+   * @returns 映射方案列表
+   */
+  static async getProfiles(method?: ExperimentMethod, activeOnly = false): Promise<InstrumentImportProfile[]> {
+    const response = await http.get<ApiResponse<InstrumentImportProfile[]>>('/instrument-imports/profiles', {
+      params: { method, active_only: activeOnly || undefined },
+    })
+    return response.data.data
+  }
+
+  /**
+   * 创建导入映射方案
+   * @param profile 方案配置
+   * @returns 创建的方案
+   */
+  static async createProfile(profile: InstrumentImportProfileInput): Promise<InstrumentImportProfile> {
+    const response = await http.post<ApiResponse<InstrumentImportProfile>>('/instrument-imports/profiles', profile)
+    return response.data.data
+  }
+
+  /**
+   * 更新导入映射方案
+   * @param id 方案ID
+   * @param profile 方案配置
+   * @returns 更新后的方案
+   */
+  static async updateProfile(id: string, profile: InstrumentImportProfileInput): Promise<InstrumentImportProfile> {
+    const response = await http.put<ApiResponse<InstrumentImportProfile>>(`/instrument-imports/profiles/${id}`, profile)
+    return response.data.data
+  }
+
+  /**
+   * 校验仪器结果文件（试运行，不写入数据）
+   * @param profileId 映射方案ID
+   * @param file 结果文件，由服务端按方案解析
+   * @returns 校验结果
+   */
+  static async validateFile(profileId: string, file: File): Promise<InstrumentImportValidation> {
+    const response = await http.post<ApiResponse<InstrumentImportValidation>>(
+      '/instrument-imports/validate',
+      toUploadForm(profileId, file),
+      { headers: { 'Content-Type': 'multipart/form-data' }, timeout: 60000 }
+    )
+    return response.data.data
+  }
+
+  /**
+   * 导入仪器结果
+   * @param profileId 映射方案ID
+   * @param file 结果文件，由服务端按方案解析
+   * @returns 导入记录
+   */
+  static async importFile(profileId: string, file: File): Promise<InstrumentImportRecord> {
+    const response = await http.post<ApiResponse<InstrumentImportRecord>>(
+      '/instrument-imports',
+      toUploadForm(profileId, file),
+      { headers: { 'Content-Type': 'multipart/form-data' }, timeout: 120000 }
+    )
+    return response.data.data
+  }
+
+  /**
+   * 获取导入记录
+   * @param params 查询参数
+   * @returns 分页的导入记录
+   */
+  static async getImports(params: InstrumentImportQueryParams = {}): Promise<PaginatedResponse<InstrumentImportRecord>> {
+    const response = await http.get('/instrument-imports', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+}
+
+// 导出默认服务
+export default {
+  InstrumentImportService,
+}
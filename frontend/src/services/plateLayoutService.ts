@@ -0,0 +1,215 @@
+/**
+ * 孔板布局API服务
+ * 封装批次孔板自动填充、孔位调整、确认及工作列表和布局图导出相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { ExperimentMethod } from './experimentService'
+
+// 孔板规格
+export type PlateFormat = 96 | 384
+
+// 孔位类型
+export type WellType = 'sample' | 'calibrator' | 'control' | 'blank'
+
+// 工作列表格式
+export type WorklistFormat = 'generic' | 'tecan' | 'hamilton' | 'masshunter'
+
+// 校准品或质控品定义
+export interface PlateStandard {
+  label: string
+  level?: string
+  concentration?: number
+}
+
+// 孔板排布方案
+export interface PlateFillPattern {
+  key?: string
+  name?: string
+  direction: 'row' | 'column'
+  blanks: number
+  calibrators: PlateStandard[]
+  controls: PlateStandard[]
+  control_interval: number
+  trailing_controls: boolean
+  sample_replicates: number
+  skip_edge_wells: boolean
+}
+
+// 孔位接口定义
+export interface PlateWell {
+  id?: string
+  row_no: number
+  col_no: number
+  well_type: WellType
+  experiment_id?: string | null
+  sample_id?: string | null
+  label?: string | null
+  level?: string | null
+  concentration?: number | null
+  replicate: number
+  experiments?: {
+    id: string
+    experiment_no: string
+    test_products?: { id: string; code: string; name: string }
+  } | null
+  samples?: { id: string; sample_no: string; barcode: string } | null
+}
+
+// 孔板布局接口定义
+export interface PlateLayout {
+  id: string
+  batch_no: string
+  plate_no: number
+  plate_format: PlateFormat
+  method: ExperimentMethod
+  pattern?: PlateFillPattern
+  status: 'draft' | 'confirmed'
+  confirmed_by?: string
+  confirmed_at?: string
+  remarks?: string
+  updated_at: string
+  plate_wells: PlateWell[]
+}
+
+// 批次实验接口定义
+export interface BatchExperiment {
+  id: string
+  experiment_no: string
+  sample_id: string
+  method: ExperimentMethod
+  status: string
+  samples?: { id: string; sample_no: string; barcode: string }
+  test_products?: { id: string; code: string; name: string }
+}
+
+// 批次孔板布局
+export interface BatchPlateLayouts {
+  batch_no: string
+  method: ExperimentMethod
+  experiments: BatchExperiment[]
+  layouts: PlateLayout[]
+}
+
+// 孔位分配参数
+export interface PlateWellInput {
+  row_no: number
+  col_no: number
+  well_type: WellType
+  experiment_id?: string | null
+  label?: string | null
+  level?: string | null
+  concentration?: number | null
+  replicate?: number
+}
+
+/**
+ * 孔板布局API服务类
+ */
+export class PlateLayoutService {
+  /**
+   * 获取孔板排布方案
+   * @returns 系统配置的排布方案
+   */
+  static async getPatterns(): Promise<PlateFillPattern[]> {
+    const response = await http.get<ApiResponse<PlateFillPattern[]>>('/plate-layouts/patterns')
+    return response.data.data
+  }
+
+  /**
+   * 获取批次孔板布局
+   * @param batchNo 批次号
+   * @returns 批次实验及各孔板布局
+   */
+  static async getBatchLayouts(batchNo: string): Promise<BatchPlateLayouts> {
+    const response = await http.get<ApiResponse<BatchPlateLayouts>>('/plate-layouts', {
+      params: { batch_no: batchNo },
+    })
+    return response.data.data
+  }
+
+  /**
+   * 自动填充批次孔板布局
+   * @param batchNo 批次号
+   * @param plateFormat 孔板规格
+   * @param pattern 排布方案
+   * @returns 生成的孔板布局
+   */
+  static async autoFill(
+    batchNo: string,
+    plateFormat: PlateFormat,
+    pattern: PlateFillPattern
+  ): Promise<PlateLayout[]> {
+    const response = await http.post<ApiResponse<PlateLayout[]>>('/plate-layouts/auto-fill', {
+      batch_no: batchNo,
+      plate_format: plateFormat,
+      pattern,
+    })
+    return response.data.data
+  }
+
+  /**
+   * 保存孔位分配
+   * @param id 孔板布局ID
+   * @param wells 整板孔位分配
+   * @returns 更新后的孔板布局
+   */
+  static async saveWells(id: string, wells: PlateWellInput[]): Promise<PlateLayout> {
+    const response = await http.put<ApiResponse<PlateLayout>>(`/plate-layouts/${id}/wells`, { wells })
+    return response.data.data
+  }
+
+  /**
+   * 确认孔板布局
+   * @param id 孔板布局ID
+   * @returns 更新后的孔板布局
+   */
+  static async confirm(id: string): Promise<PlateLayout> {
+    const response = await http.post<ApiResponse<PlateLayout>>(`/plate-layouts/${id}/confirm`)
+    return response.data.data
+  }
+
+  /**
+   * 撤销孔板布局确认
+   * @param id 孔板布局ID
+   * @returns 更新后的孔板布局
+   */
+  static async reopen(id: string): Promise<PlateLayout> {
+    const response = await http.post<ApiResponse<PlateLayout>>(`/plate-layouts/${id}/reopen`)
+    return response.data.data
+  }
+
+  /**
+   * 导出工作列表
+   * @param id 孔板布局ID
+   * @param format 工作列表格式
+   * @returns CSV文件
+   */
+  static async exportWorklist(id: string, format: WorklistFormat): Promise<Blob> {
+    const response = await http.get(`/plate-layouts/${id}/worklist`, {
+      params: { format },
+      responseType: 'blob',
+    })
+    return response.data
+  }
+
+  /**
+   * 获取孔板布局图
+   * @param id 孔板布局ID
+   * @returns PDF文件
+   */
+  static async printMap(id: string): Promise<Blob> {
+    const response = await http.get(`/plate-layouts/${id}/map`, {
+      responseType: 'blob',
+      timeout: 60000,
+    })
+    return response.data
+  }
+}
+
+// 导出默认服务
+export default {
+  PlateLayoutService,
+}
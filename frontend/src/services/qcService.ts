@@ -0,0 +1,250 @@
+/**
+ * 质控管理API服务
+ * 封装质控品批号与靶值维护、质控结果录入与Westgard判定、失控纠正和Levey-Jennings质控图相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+import type { ExperimentMethod } from './experimentService'
+
+// Westgard规则
+export type WestgardRule = '1-2s' | '1-3s' | '2-2s' | 'R-4s' | '4-1s' | '10x'
+
+// 规则判定：warning-警告，reject-失控，off-不启用
+export type WestgardAction = 'warning' | 'reject' | 'off'
+
+// 质控结果判定：accepted-在控，warning-警告，rejected-失控
+export type QcStatus = 'accepted' | 'warning' | 'rejected'
+
+// 检测项目
+export interface QcItem {
+  id: string
+  code: string
+  name: string
+  unit?: string | null
+  method?: ExperimentMethod
+}
+
+// 质控品靶值
+export interface QcLotTarget {
+  id?: string
+  item_id: string
+  target_mean: number
+  target_sd: number
+  unit?: string | null
+  test_items?: QcItem
+}
+
+// 质控品批号接口定义
+export interface QcLot {
+  id: string
+  lot_no: string
+  material_name: string
+  level: string
+  manufacturer?: string | null
+  method: ExperimentMethod
+  expiry_date?: string | null
+  is_active: boolean
+  remarks?: string | null
+  qc_lot_targets: QcLotTarget[]
+}
+
+// 质控品批号保存参数
+export interface QcLotInput {
+  lot_no: string
+  material_name: string
+  level: string
+  manufacturer?: string | null
+  method: ExperimentMethod
+  expiry_date?: string | null
+  is_active: boolean
+  remarks?: string | null
+  targets: { item_id: string; target_mean: number; target_sd: number; unit?: string | null }[]
+}
+
+// 规则配置
+export interface WestgardRuleConfig {
+  rule: WestgardRule
+  action: WestgardAction
+  description: string
+}
+
+// 违反的规则
+export interface WestgardViolation {
+  rule: WestgardRule
+  action: 'warning' | 'reject'
+}
+
+// 质控结果接口定义
+export interface QcResult {
+  id: string
+  lot_id: string
+  item_id: string
+  batch_no: string
+  equipment_id?: string | null
+  measured_value: number
+  target_mean: number
+  target_sd: number
+  z_score: number
+  status: QcStatus
+  violations: WestgardViolation[]
+  measured_at: string
+  corrective_action?: string | null
+  resolved_by?: string | null
+  resolved_at?: string | null
+  remarks?: string | null
+  qc_lots?: { id: string; lot_no: string; material_name: string; level: string }
+  test_items?: QcItem
+  resolver?: { id: string; real_name: string } | null
+}
+
+// 质控结果录入参数
+export interface QcResultInput {
+  lot_id: string
+  item_id: string
+  batch_no: string
+  measured_value: number
+  measured_at?: string
+  remarks?: string
+}
+
+// 质控结果查询参数
+export interface QcResultQueryParams extends PaginationParams {
+  lot_id?: string
+  item_id?: string
+  batch_no?: string
+  status?: QcStatus | ''
+  unresolved_only?: boolean
+}
+
+// Levey-Jennings质控图数据
+export interface LeveyJenningsData {
+  lot: { id: string; lot_no: string; material_name: string; level: string }
+  item: QcItem
+  target_mean: number
+  target_sd: number
+  unit?: string | null
+  points: Pick<QcResult, 'id' | 'batch_no' | 'measured_value' | 'target_mean' | 'target_sd' | 'z_score' | 'status' | 'violations' | 'measured_at' | 'resolved_at'>[]
+}
+
+/**
+ * 质控管理API服务类
+ */
+export class QcService {
+  /**
+   * 获取可设定靶值的检测项目
+   * @param method 实验方法
+   * @returns 检测项目列表
+   */
+  static async getItems(method?: ExperimentMethod): Promise<QcItem[]> {
+    const response = await http.get<ApiResponse<QcItem[]>>('/qc/items', { params: { method } })
+    return response.data.data
+  }
+
+  /**
+   * 获取质控品批号
+   * @param method 实验方法
+   * @param activeOnly 是否只返回启用的批号
+   * @returns 批号列表
+   */
+  static async getLots(method?: ExperimentMethod, activeOnly = false): Promise<QcLot[]> {
+    const response = await http.get<ApiResponse<QcLot[]>>('/qc/lots', {
+      params: { method, active_only: activeOnly || undefined },
+    })
+    return response.data.data
+  }
+
+  /**
+   * 创建质控品批号
+   * @param lot 批号及靶值
+   * @returns 创建的批号
+   */
+  static async createLot(lot: QcLotInput): Promise<QcLot> {
+    const response = await http.post<ApiResponse<QcLot>>('/qc/lots', lot)
+    return response.data.data
+  }
+
+  /**
+   * 更新质控品批号及靶值
+   * @param id 批号ID
+   * @param lot 批号及靶值
+   * @returns 更新后的批号
+   */
+  static async updateLot(id: string, lot: QcLotInput): Promise<QcLot> {
+    const response = await http.put<ApiResponse<QcLot>>(`/qc/lots/${id}`, lot)
+    return response.data.data
+  }
+
+  /**
+   * 获取Westgard规则配置
+   * @returns 规则列表
+   */
+  static async getRules(): Promise<WestgardRuleConfig[]> {
+    const response = await http.get<ApiResponse<WestgardRuleConfig[]>>('/qc/rules')
+    return response.data.data
+  }
+
+  /**
+   * 获取质控结果
+   * @param params 查询参数
+   * @returns 分页的质控结果
+   */
+  static async getResults(params: QcResultQueryParams = {}): Promise<PaginatedResponse<QcResult>> {
+    const response = await http.get('/qc/results', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 录入质控结果
+   * @param result 质控结果
+   * @returns 判定后的质控结果
+   */
+  static async recordResult(result: QcResultInput): Promise<QcResult> {
+    const response = await http.post<ApiResponse<QcResult>>('/qc/results', result)
+    return response.data.data
+  }
+
+  /**
+   * 记录失控纠正措施
+   * @param id 质控结果ID
+   * @param correctiveAction 纠正措施
+   * @returns 更新后的质控结果
+   */
+  static async resolveResult(id: string, correctiveAction: string): Promise<QcResult> {
+    const response = await http.post<ApiResponse<QcResult>>(`/qc/results/${id}/resolve`, {
+      corrective_action: correctiveAction,
+    })
+    return response.data.data
+  }
+
+  /**
+   * 获取Levey-Jennings质控图数据
+   * @param lotId 质控品批号ID
+   * @param itemId 检测项目ID
+   * @param dateFrom 开始日期
+   * @param dateTo 结束日期
+   * @returns 质控图数据
+   */
+  static async getLeveyJennings(
+    lotId: string,
+    itemId: string,
+    dateFrom?: string,
+    dateTo?: string
+  ): Promise<LeveyJenningsData> {
+    const response = await http.get<ApiResponse<LeveyJenningsData>>('/qc/levey-jennings', {
+      params: { lot_id: lotId, item_id: itemId, date_from: dateFrom || undefined, date_to: dateTo || undefined },
+    })
+    return response.data.data
+  }
+}
+
+export default {
+  QcService,
+}
@@ -0,0 +1,365 @@
+/**
+ * 报告管理API服务
+ * 封装报告编辑、审核、发布及交付相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 报告状态
+export type ReportStatus =
+  | 'draft'
+  | 'pending_review'
+  | 'approved'
+  | 'delivered'
+  | 'cancelled'
+
+// 交付方式
+export type DeliveryMethod = 'email' | 'download' | 'print' | 'courier'
+
+// 交付状态
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed' | 'cancelled'
+
+// 报告文件接口定义
+export interface ReportFile {
+  file_name: string
+  storage_path: string
+  size: number
+  generated_at: string
+  generated_by?: string
+  version_no?: number
+  download_url?: string
+}
+
+// 报告接口定义
+export interface Report {
+  id: string
+  report_no: string
+  title: string
+  status: ReportStatus
+  current_review_level: number
+  required_review_levels: number
+  submitted_at?: string
+  approved_at?: string
+  released_at?: string
+  generated_at?: string
+  delivered_at?: string
+  created_at: string
+  updated_at?: string
+  submissions?: {
+    id: string
+    submission_no: string
+    patient_name: string
+    is_urgent: boolean
+    client_units?: { id: string; name: string }
+    samples?: { id: string; sample_no: string; barcode: string; status: string }[]
+  }
+  report_templates?: { id: string; name: string }
+  submitter?: { id: string; real_name: string }
+  version_no?: number
+  is_amended?: boolean
+  amendment_reason?: string
+}
+
+// 报告审核记录接口定义
+export interface ReportAudit {
+  id: string
+  audit_level: number
+  audit_result: 'approved' | 'rejected' | 'pending'
+  audit_comments?: string
+  audit_time: string
+  users?: { id: string; real_name: string }
+}
+
+// 交付追踪信息：快递公司及单号、邮件ID
+export interface TrackingInfo {
+  carrier?: string
+  tracking_no?: string
+  message_id?: string
+}
+
+// 报告交付记录接口定义
+export interface ReportDelivery {
+  id: string
+  delivery_method: DeliveryMethod
+  recipient_name?: string
+  recipient_contact?: string
+  delivery_status: DeliveryStatus
+  delivery_time?: string
+  tracking_info?: TrackingInfo | null
+  remarks?: string
+  created_at: string
+}
+
+// 报告字段差异接口定义
+export interface ReportFieldChange {
+  field: string
+  before: string | null
+  after: string | null
+}
+
+// 报告版本接口定义
+export interface ReportVersion {
+  id: string
+  version_no: number
+  title: string
+  amendment_reason?: string
+  diff: ReportFieldChange[]
+  approved_at?: string
+  released_at?: string
+  created_at: string
+  users?: { id: string; real_name: string }
+}
+
+// 报告版本详情接口定义
+export interface ReportVersionDetail extends ReportVersion {
+  template_id?: string
+  content?: string
+  summary?: string
+  conclusion?: string
+  recommendations?: string
+  file_urls: ReportFile[]
+}
+
+// 报告详情接口定义
+export interface ReportDetail extends Report {
+  content?: string
+  summary?: string
+  conclusion?: string
+  recommendations?: string
+  file_urls: ReportFile[]
+  report_audits: ReportAudit[]
+  report_deliveries: ReportDelivery[]
+}
+
+// 报告列表查询参数
+export interface ReportQueryParams extends PaginationParams {
+  status?: ReportStatus
+  submission_id?: string
+  date_from?: string
+  date_to?: string
+}
+
+// 报告内容参数
+export interface ReportContentParams {
+  template_id?: string
+  title?: string
+  content?: string
+  summary?: string
+  conclusion?: string
+  recommendations?: string
+}
+
+// 交付记录参数
+export interface ReportDeliveryParams {
+  delivery_method: DeliveryMethod
+  recipient_name?: string
+  recipient_contact?: string
+  delivery_status?: Exclude<DeliveryStatus, 'cancelled'>
+  delivery_time?: string
+  tracking_info?: TrackingInfo
+  remarks?: string
+}
+
+/**
+ * 报告管理API服务类
+ */
+export class ReportService {
+  /**
+   * 获取报告列表
+   * @param params 分页和筛选参数
+   * @returns 报告列表
+   */
+  static async getReports(params: ReportQueryParams = {}): Promise<PaginatedResponse<Report>> {
+    const response = await http.get('/reports', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取报告详情
+   * @param id 报告ID
+   * @returns 报告详情（含审核及交付记录）
+   */
+  static async getReportById(id: string): Promise<ReportDetail> {
+    const response = await http.get<ApiResponse<ReportDetail>>(`/reports/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 创建报告
+   * @param params 报告内容，须指定送检单和标题
+   * @returns 创建的报告
+   */
+  static async createReport(
+    params: ReportContentParams & { submission_id: string; title: string }
+  ): Promise<Report> {
+    const response = await http.post<ApiResponse<Report>>('/reports', params)
+    return response.data.data
+  }
+
+  /**
+   * 更新报告内容（仅草稿）
+   * @param id 报告ID
+   * @param params 报告内容
+   * @returns 更新后的报告
+   */
+  static async updateReport(id: string, params: ReportContentParams): Promise<Report> {
+    const response = await http.put<ApiResponse<Report>>(`/reports/${id}`, params)
+    return response.data.data
+  }
+
+  /**
+   * 修订已审核或已交付的报告
+   * @param id 报告ID
+   * @param params 修改内容
+   * @param amendmentReason 修订原因
+   * @returns 修订后的报告（退回草稿，需重新审核）及修改差异
+   */
+  static async amendReport(
+    id: string,
+    params: ReportContentParams,
+    amendmentReason: string
+  ): Promise<{ report: Report; diff: ReportFieldChange[] }> {
+    const response = await http.put(`/reports/${id}`, { ...params, amendment_reason: amendmentReason })
+    return response.data.data
+  }
+
+  /**
+   * 获取报告版本列表
+   * @param id 报告ID
+   * @returns 版本列表，按版本号倒序
+   */
+  static async getVersions(id: string): Promise<ReportVersion[]> {
+    const response = await http.get<ApiResponse<ReportVersion[]>>(`/reports/${id}/versions`)
+    return response.data.data
+  }
+
+  /**
+   * 获取报告版本详情
+   * @param id 报告ID
+   * @param versionNo 版本号
+   * @returns 版本内容及发布文件下载链接
+   */
+  static async getVersion(id: string, versionNo: number): Promise<ReportVersionDetail> {
+    const response = await http.get<ApiResponse<ReportVersionDetail>>(`/reports/${id}/versions/${versionNo}`)
+    return response.data.data
+  }
+
+  /**
+   * 提交报告审核
+   * @param id 报告ID
+   * @returns 更新后的报告
+   */
+  static async submitForReview(id: string): Promise<Report> {
+    const response = await http.post<ApiResponse<Report>>(`/reports/${id}/submit`)
+    return response.data.data
+  }
+
+  /**
+   * 审核报告
+   * @param id 报告ID
+   * @param result 审核结果
+   * @param comments 审核意见（驳回时必填）
+   * @returns 更新后的报告
+   */
+  static async reviewReport(
+    id: string,
+    result: 'approved' | 'rejected',
+    comments?: string
+  ): Promise<Report> {
+    const response = await http.post<ApiResponse<Report>>(`/reports/${id}/review`, { result, comments })
+    return response.data.data
+  }
+
+  /**
+   * 获取报告审核记录
+   * @param id 报告ID
+   * @returns 审核记录
+   */
+  static async getAudits(id: string): Promise<ReportAudit[]> {
+    const response = await http.get<ApiResponse<ReportAudit[]>>(`/reports/${id}/audits`)
+    return response.data.data
+  }
+
+  /**
+   * 发布报告
+   * @param id 报告ID
+   * @returns 更新后的报告
+   */
+  static async releaseReport(id: string): Promise<Report> {
+    const response = await http.post<ApiResponse<Report>>(`/reports/${id}/release`)
+    return response.data.data
+  }
+
+  /**
+   * 获取报告交付记录
+   * @param id 报告ID
+   * @returns 交付记录
+   */
+  static async getDeliveries(id: string): Promise<ReportDelivery[]> {
+    const response = await http.get<ApiResponse<ReportDelivery[]>>(`/reports/${id}/deliveries`)
+    return response.data.data
+  }
+
+  /**
+   * 记录报告交付
+   * @param id 报告ID
+   * @param params 交付信息
+   * @returns 交付记录
+   */
+  static async recordDelivery(id: string, params: ReportDeliveryParams): Promise<ReportDelivery> {
+    const response = await http.post<ApiResponse<ReportDelivery>>(`/reports/${id}/deliveries`, params)
+    return response.data.data
+  }
+
+  /**
+   * 更新报告交付状态
+   * @param id 报告ID
+   * @param deliveryId 交付记录ID
+   * @param params 交付状态及补充信息
+   * @returns 更新后的交付记录
+   */
+  static async updateDelivery(
+    id: string,
+    deliveryId: string,
+    params: Pick<ReportDeliveryParams, 'delivery_time' | 'tracking_info' | 'remarks'> & {
+      delivery_status: Exclude<DeliveryStatus, 'pending'>
+    }
+  ): Promise<ReportDelivery> {
+    const response = await http.put<ApiResponse<ReportDelivery>>(`/reports/${id}/deliveries/${deliveryId}`, params)
+    return response.data.data
+  }
+
+  /**
+   * 生成报告PDF
+   * @param id 报告ID
+   * @returns 生成的文件及下载链接
+   */
+  static async generatePdf(id: string): Promise<{ file: ReportFile; download_url: string }> {
+    const response = await http.post(`/reports/${id}/generate-pdf`)
+    return response.data.data
+  }
+
+  /**
+   * 获取报告PDF下载链接
+   * @param id 报告ID
+   * @param file 文件名，默认最新文件
+   * @returns 文件及下载链接
+   */
+  static async getDownloadUrl(id: string, file?: string): Promise<{ file: ReportFile; download_url: string }> {
+    const response = await http.get(`/reports/${id}/download`, { params: { file } })
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  ReportService,
+}
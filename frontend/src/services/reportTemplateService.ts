@@ -0,0 +1,227 @@
+/**
+ * 报告模板API服务
+ * 封装报告模板维护、版本查询及预览相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 模板格式
+export type TemplateFormat = 'html' | 'sections'
+
+// 模板章节类型
+export type TemplateSectionType = 'text' | 'table' | 'image' | 'chart'
+
+// 模板章节接口定义
+export interface TemplateSection {
+  id: string
+  title: string
+  content: string
+  order: number
+  required: boolean
+  type: TemplateSectionType
+  columns?: string[]
+}
+
+// 模板样式接口定义
+export interface TemplateStyles {
+  fontSize: number
+  fontFamily: string
+  lineHeight: number
+  margins: { top: number; right: number; bottom: number; left: number }
+  colors: { primary: string; secondary: string; text: string }
+}
+
+// 结构化模板接口定义
+export interface StructuredTemplate {
+  header: string
+  sections: TemplateSection[]
+  footer: string
+  styles: TemplateStyles
+}
+
+// 报告模板接口定义
+export interface ReportTemplateRecord {
+  id: string
+  name: string
+  description?: string
+  category: string
+  template_format: TemplateFormat
+  template_content: StructuredTemplate | string
+  is_default: boolean
+  is_active: boolean
+  version: string
+  usage_count?: number
+  created_at: string
+  updated_at: string
+  created_by?: string
+}
+
+// 模板历史版本接口定义
+export interface ReportTemplateVersion {
+  id: string
+  version: string
+  template_format: TemplateFormat
+  template_content: StructuredTemplate | string
+  created_at: string
+  created_by?: string
+}
+
+// 模板占位符接口定义
+export interface TemplatePlaceholder {
+  key: string
+  label: string
+  group: string
+}
+
+// 模板列表查询参数
+export interface ReportTemplateQueryParams extends PaginationParams {
+  status?: 'active' | 'inactive'
+  category?: string
+  template_format?: TemplateFormat
+}
+
+// 模板内容参数
+export type TemplateContentParams =
+  | { template_format: 'sections'; template_content: StructuredTemplate }
+  | { template_format: 'html'; template_content: string }
+
+// 模板基本信息参数
+export interface ReportTemplateInfoParams {
+  name: string
+  description?: string
+  category: string
+}
+
+/**
+ * 报告模板API服务类
+ */
+export class ReportTemplateService {
+  /**
+   * 获取报告模板列表
+   * @param params 分页和筛选参数
+   * @returns 模板列表（含使用次数）
+   */
+  static async getTemplates(params: ReportTemplateQueryParams = {}): Promise<PaginatedResponse<ReportTemplateRecord>> {
+    const response = await http.get('/report-templates', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取报告模板详情
+   * @param id 模板ID
+   * @returns 模板详情
+   */
+  static async getTemplateById(id: string): Promise<ReportTemplateRecord> {
+    const response = await http.get<ApiResponse<ReportTemplateRecord>>(`/report-templates/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 创建报告模板
+   * @param params 模板基本信息及内容
+   * @returns 创建的模板
+   */
+  static async createTemplate(
+    params: ReportTemplateInfoParams & TemplateContentParams & { is_active?: boolean }
+  ): Promise<ReportTemplateRecord> {
+    const response = await http.post<ApiResponse<ReportTemplateRecord>>('/report-templates', params)
+    return response.data.data
+  }
+
+  /**
+   * 更新报告模板
+   * @param id 模板ID
+   * @param params 模板基本信息及内容，内容变更时版本号自动递增
+   * @returns 更新后的模板
+   */
+  static async updateTemplate(
+    id: string,
+    params: Partial<ReportTemplateInfoParams> & Partial<TemplateContentParams>
+  ): Promise<ReportTemplateRecord> {
+    const response = await http.put<ApiResponse<ReportTemplateRecord>>(`/report-templates/${id}`, params)
+    return response.data.data
+  }
+
+  /**
+   * 删除报告模板
+   * @param id 模板ID
+   */
+  static async deleteTemplate(id: string): Promise<void> {
+    await http.delete(`/report-templates/${id}`)
+  }
+
+  /**
+   * 设为默认模板
+   * @param id 模板ID
+   * @returns 更新后的模板
+   */
+  static async setDefault(id: string): Promise<ReportTemplateRecord> {
+    const response = await http.post<ApiResponse<ReportTemplateRecord>>(`/report-templates/${id}/default`)
+    return response.data.data
+  }
+
+  /**
+   * 切换模板启用状态
+   * @param id 模板ID
+   * @returns 更新后的模板
+   */
+  static async toggleStatus(id: string): Promise<ReportTemplateRecord> {
+    const response = await http.post<ApiResponse<ReportTemplateRecord>>(`/report-templates/${id}/toggle-status`)
+    return response.data.data
+  }
+
+  /**
+   * 获取模板历史版本
+   * @param id 模板ID
+   * @returns 历史版本列表
+   */
+  static async getVersions(id: string): Promise<ReportTemplateVersion[]> {
+    const response = await http.get<ApiResponse<ReportTemplateVersion[]>>(`/report-templates/${id}/versions`)
+    return response.data.data
+  }
+
+  /**
+   * 获取模板可用占位符
+   * @returns 占位符及结果表格可选列
+   */
+  static async getPlaceholders(): Promise<{
+    placeholders: TemplatePlaceholder[]
+    result_columns: { key: string; label: string }[]
+  }> {
+    const response = await http.get('/report-templates/placeholders')
+    return response.data.data
+  }
+
+  /**
+   * 预览报告模板
+   * @param reportId 用于填充数据的报告ID
+   * @param templateId 模板ID
+   * @param content 未保存的模板内容，不传时使用已保存内容
+   * @returns 渲染后的HTML
+   */
+  static async preview(
+    reportId: string,
+    templateId?: string,
+    content?: TemplateContentParams
+  ): Promise<string> {
+    const response = await http.post('/report-templates/preview', {
+      report_id: reportId,
+      template_id: templateId,
+      ...content
+    })
+    return response.data.data.html
+  }
+}
+
+// 导出默认服务
+export default {
+  ReportTemplateService,
+}
@@ -0,0 +1,267 @@
+/**
+ * 样本借出管理API服务
+ * 封装借出单申请、审批、扫码出库、归还入库及借出中样本查询相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 借出单状态
+export type CheckoutOrderStatus =
+  | 'pending_approval'
+  | 'approved'
+  | 'rejected'
+  | 'checked_out'
+  | 'returned'
+  | 'cancelled'
+
+// 借出原因
+export type CheckoutReason = 'testing' | 'transfer' | 'qc' | 'other'
+
+// 借出单样本状态
+export type CheckoutItemStatus = 'pending' | 'picked' | 'returned' | 'cancelled'
+
+// 借出单样本接口定义
+export interface CheckoutItem {
+  id: string
+  sample_id: string
+  status: CheckoutItemStatus
+  from_location?: string
+  picked_by?: string
+  picked_at?: string
+  volume_before?: number
+  volume_used?: number
+  return_location?: string
+  returned_by?: string
+  returned_at?: string
+  remarks?: string
+  samples?: {
+    id: string
+    sample_no: string
+    barcode: string
+    status: string
+    volume?: number
+    unit?: string
+    storage_location?: string
+    sample_types?: { id: string; code: string; name: string }
+  }
+}
+
+// 借出单接口定义
+export interface CheckoutOrder {
+  id: string
+  order_no: string
+  status: CheckoutOrderStatus
+  reason: CheckoutReason
+  purpose?: string
+  destination?: string
+  holder_id: string
+  due_back_at: string
+  sample_count: number
+  requested_by?: string
+  requested_at: string
+  approved_by?: string
+  approved_at?: string
+  approval_comments?: string
+  returned_at?: string
+  remarks?: string
+  is_overdue: boolean
+  picked_count?: number
+  returned_count?: number
+  holder?: { id: string; real_name: string }
+  requester?: { id: string; real_name: string }
+  approver?: { id: string; real_name: string } | null
+  sample_checkout_items?: CheckoutItem[]
+}
+
+// 借出中样本接口定义
+export interface CheckedOutSample {
+  id: string
+  order_id: string
+  sample_id: string
+  from_location?: string
+  picked_at: string
+  volume_before?: number
+  is_overdue: boolean
+  overdue_hours: number
+  samples: {
+    id: string
+    sample_no: string
+    barcode: string
+    status: string
+    volume?: number
+    unit?: string
+    storage_location?: string
+  }
+  sample_checkout_orders: {
+    id: string
+    order_no: string
+    reason: CheckoutReason
+    destination?: string
+    holder_id: string
+    due_back_at: string
+    holder?: { id: string; real_name: string }
+  }
+}
+
+// 逾期检查结果
+export interface CheckoutOverdueJobSummary {
+  overdue: number
+  notified: number
+  run_at: string
+}
+
+// 借出单查询参数
+export interface CheckoutOrderQueryParams extends PaginationParams {
+  status?: CheckoutOrderStatus | ''
+  holder_id?: string
+}
+
+// 借出中样本查询参数
+export interface CheckedOutSampleQueryParams {
+  holder_id?: string
+  overdue_only?: boolean
+  search?: string
+}
+
+// 创建借出单参数
+export interface CreateCheckoutOrderParams {
+  sample_ids: string[]
+  reason: CheckoutReason
+  purpose?: string
+  destination?: string
+  holder_id?: string
+  due_back_at?: string
+  remarks?: string
+}
+
+// 归还样本参数
+export interface ReturnCheckoutItemParams {
+  barcode: string
+  volume_used?: number
+  box_id?: string
+  position?: string
+  remarks?: string
+}
+
+/**
+ * 样本借出管理API服务类
+ */
+export class SampleCheckoutService {
+  /**
+   * 获取借出单列表
+   * @param params 分页和筛选参数
+   * @returns 借出单列表
+   */
+  static async getOrders(params: CheckoutOrderQueryParams = {}): Promise<PaginatedResponse<CheckoutOrder>> {
+    const response = await http.get('/sample-checkouts', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取借出单详情
+   * @param id 借出单ID
+   * @returns 借出单及样本
+   */
+  static async getOrder(id: string): Promise<CheckoutOrder> {
+    const response = await http.get<ApiResponse<CheckoutOrder>>(`/sample-checkouts/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 创建借出单
+   * @param params 借出单信息
+   * @returns 创建的借出单
+   */
+  static async createOrder(params: CreateCheckoutOrderParams): Promise<CheckoutOrder> {
+    const response = await http.post<ApiResponse<CheckoutOrder>>('/sample-checkouts', params)
+    return response.data.data
+  }
+
+  /**
+   * 审批借出单
+   * @param id 借出单ID
+   * @param result 审批结果
+   * @param comments 审批意见，驳回时必填
+   * @returns 更新后的借出单
+   */
+  static async reviewOrder(
+    id: string,
+    result: 'approved' | 'rejected',
+    comments?: string
+  ): Promise<CheckoutOrder> {
+    const response = await http.post<ApiResponse<CheckoutOrder>>(`/sample-checkouts/${id}/review`, {
+      result,
+      comments
+    })
+    return response.data.data
+  }
+
+  /**
+   * 取消借出单
+   * @param id 借出单ID
+   * @param reason 取消原因
+   * @returns 更新后的借出单
+   */
+  static async cancelOrder(id: string, reason?: string): Promise<CheckoutOrder> {
+    const response = await http.post<ApiResponse<CheckoutOrder>>(`/sample-checkouts/${id}/cancel`, { reason })
+    return response.data.data
+  }
+
+  /**
+   * 扫码取样出库
+   * @param id 借出单ID
+   * @param barcode 扫描的样本条码
+   * @param remarks 备注
+   * @returns 更新后的借出单详情
+   */
+  static async pickSample(id: string, barcode: string, remarks?: string): Promise<CheckoutOrder> {
+    const response = await http.post<ApiResponse<CheckoutOrder>>(`/sample-checkouts/${id}/pick`, {
+      barcode,
+      remarks
+    })
+    return response.data.data
+  }
+
+  /**
+   * 归还样本入库
+   * @param id 借出单ID
+   * @param params 条码、用量及归还孔位
+   * @returns 更新后的借出单详情
+   */
+  static async returnSample(id: string, params: ReturnCheckoutItemParams): Promise<CheckoutOrder> {
+    const response = await http.post<ApiResponse<CheckoutOrder>>(`/sample-checkouts/${id}/return`, params)
+    return response.data.data
+  }
+
+  /**
+   * 获取借出中的样本
+   * @param params 借出人及逾期筛选
+   * @returns 借出中样本列表
+   */
+  static async getCheckedOutSamples(params: CheckedOutSampleQueryParams = {}): Promise<CheckedOutSample[]> {
+    const response = await http.get<ApiResponse<CheckedOutSample[]>>('/sample-checkouts/outstanding', { params })
+    return response.data.data
+  }
+
+  /**
+   * 执行借出逾期检查
+   * @returns 检查结果
+   */
+  static async runOverdueCheck(): Promise<CheckoutOverdueJobSummary> {
+    const response = await http.post<ApiResponse<CheckoutOverdueJobSummary>>('/sample-checkouts/overdue/run')
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  SampleCheckoutService,
+}
@@ -0,0 +1,266 @@
+/**
+ * 样本销毁管理API服务
+ * 封装到期样本查询、销毁批次审批执行、销毁证明下载及样本保留相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+import type { Sample } from './sampleService'
+
+// 销毁批次状态
+export type DestructionBatchStatus =
+  | 'pending_approval'
+  | 'approved'
+  | 'rejected'
+  | 'completed'
+  | 'cancelled'
+
+// 保留类型
+export type SampleHoldType = 'legal' | 'research'
+
+// 到期样本接口定义
+export interface DueSample {
+  id: string
+  sample_no: string
+  barcode: string
+  volume?: number
+  unit?: string
+  status: string
+  storage_location?: string
+  storage_temperature?: string
+  received_time?: string
+  expected_destroy_date: string
+  overdue_days: number
+  sample_types?: { id: string; code: string; name: string }
+  submissions?: { id: string; submission_no: string; patient_name: string }
+}
+
+// 销毁批次样本接口定义
+export interface DestructionItem {
+  id: string
+  sample_id: string
+  storage_location?: string
+  result: 'pending' | 'destroyed' | 'skipped'
+  skip_reason?: string
+  samples?: {
+    id: string
+    sample_no: string
+    barcode: string
+    status: string
+    volume?: number
+    unit?: string
+    expected_destroy_date?: string
+    sample_types?: { id: string; code: string; name: string }
+  }
+}
+
+// 销毁批次接口定义
+export interface DestructionBatch {
+  id: string
+  batch_no: string
+  status: DestructionBatchStatus
+  reason: string
+  destroy_method: string
+  witness_name?: string
+  planned_date?: string
+  sample_count: number
+  destroyed_count: number
+  requested_by?: string
+  requested_at?: string
+  approved_by?: string
+  approved_at?: string
+  approval_comments?: string
+  executed_by?: string
+  executed_at?: string
+  certificate_path?: string
+  remarks?: string
+  created_at: string
+  sample_destruction_items?: DestructionItem[]
+}
+
+// 到期检查结果
+export interface RetentionJobSummary {
+  updated: number
+  due: number
+  upcoming: number
+  run_at: string
+}
+
+// 到期样本查询参数
+export interface DueSampleQueryParams {
+  within_days?: number
+  search?: string
+  sample_type_id?: string
+}
+
+// 销毁批次查询参数
+export interface DestructionBatchQueryParams extends PaginationParams {
+  status?: DestructionBatchStatus | ''
+}
+
+// 创建销毁批次参数
+export interface CreateDestructionBatchParams {
+  sample_ids: string[]
+  reason: string
+  destroy_method: string
+  witness_name?: string
+  planned_date?: string
+  remarks?: string
+}
+
+// 执行销毁参数
+export interface ExecuteDestructionParams {
+  witness_name: string
+  destroy_method?: string
+  remarks?: string
+}
+
+// 样本保留参数
+export interface SampleHoldParams {
+  hold_type: SampleHoldType
+  reason: string
+  hold_until?: string
+}
+
+/**
+ * 样本销毁管理API服务类
+ */
+export class SampleDestructionService {
+  /**
+   * 获取到期待销毁样本
+   * @param params 提前天数及筛选参数
+   * @returns 到期样本列表
+   */
+  static async getDueSamples(params: DueSampleQueryParams = {}): Promise<DueSample[]> {
+    const response = await http.get<ApiResponse<DueSample[]>>('/sample-destruction/due', { params })
+    return response.data.data
+  }
+
+  /**
+   * 执行样本到期检查
+   * @returns 检查结果
+   */
+  static async runRetentionCheck(): Promise<RetentionJobSummary> {
+    const response = await http.post<ApiResponse<RetentionJobSummary>>('/sample-destruction/retention/run')
+    return response.data.data
+  }
+
+  /**
+   * 获取销毁批次列表
+   * @param params 分页和筛选参数
+   * @returns 销毁批次列表
+   */
+  static async getBatches(params: DestructionBatchQueryParams = {}): Promise<PaginatedResponse<DestructionBatch>> {
+    const response = await http.get('/sample-destruction/batches', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取销毁批次详情
+   * @param id 批次ID
+   * @returns 批次及批次内样本
+   */
+  static async getBatch(id: string): Promise<DestructionBatch> {
+    const response = await http.get<ApiResponse<DestructionBatch>>(`/sample-destruction/batches/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 创建销毁批次
+   * @param params 批次信息
+   * @returns 创建的批次
+   */
+  static async createBatch(params: CreateDestructionBatchParams): Promise<DestructionBatch> {
+    const response = await http.post<ApiResponse<DestructionBatch>>('/sample-destruction/batches', params)
+    return response.data.data
+  }
+
+  /**
+   * 审批销毁批次
+   * @param id 批次ID
+   * @param result 审批结果
+   * @param comments 审批意见，驳回时必填
+   * @returns 更新后的批次
+   */
+  static async reviewBatch(
+    id: string,
+    result: 'approved' | 'rejected',
+    comments?: string
+  ): Promise<DestructionBatch> {
+    const response = await http.post<ApiResponse<DestructionBatch>>(`/sample-destruction/batches/${id}/review`, {
+      result,
+      comments
+    })
+    return response.data.data
+  }
+
+  /**
+   * 取消销毁批次
+   * @param id 批次ID
+   * @param reason 取消原因
+   * @returns 更新后的批次
+   */
+  static async cancelBatch(id: string, reason?: string): Promise<DestructionBatch> {
+    const response = await http.post<ApiResponse<DestructionBatch>>(`/sample-destruction/batches/${id}/cancel`, {
+      reason
+    })
+    return response.data.data
+  }
+
+  /**
+   * 执行销毁
+   * @param id 批次ID
+   * @param params 见证人及销毁方式
+   * @returns 执行后的批次详情
+   */
+  static async executeBatch(id: string, params: ExecuteDestructionParams): Promise<DestructionBatch> {
+    const response = await http.post<ApiResponse<DestructionBatch>>(`/sample-destruction/batches/${id}/execute`, params)
+    return response.data.data
+  }
+
+  /**
+   * 获取销毁证明下载链接
+   * @param id 批次ID
+   * @returns 临时下载链接
+   */
+  static async getCertificateUrl(id: string): Promise<string> {
+    const response = await http.get<ApiResponse<{ download_url: string }>>(`/sample-destruction/batches/${id}/certificate`)
+    return response.data.data.download_url
+  }
+
+  /**
+   * 设置样本保留
+   * @param sampleId 样本ID
+   * @param params 保留类型、原因及截止日期
+   * @returns 更新后的样本
+   */
+  static async setHold(sampleId: string, params: SampleHoldParams): Promise<Sample> {
+    const response = await http.post<ApiResponse<Sample>>(`/samples/${sampleId}/hold`, params)
+    return response.data.data
+  }
+
+  /**
+   * 解除样本保留
+   * @param sampleId 样本ID
+   * @param reason 解除原因
+   * @returns 更新后的样本
+   */
+  static async releaseHold(sampleId: string, reason?: string): Promise<Sample> {
+    const response = await http.delete<ApiResponse<Sample>>(`/samples/${sampleId}/hold`, {
+      data: { reason }
+    })
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  SampleDestructionService,
+}
@@ -0,0 +1,135 @@
+/**
+ * 样本拒收与重采API服务
+ * 封装样本拒收、重采申请查询、重采到样登记及取消相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 拒收原因编码
+export type SampleRejectionReason =
+  | 'hemolysis'
+  | 'insufficient_volume'
+  | 'wrong_container'
+  | 'expired_stability'
+  | 'other'
+
+// 重采状态
+export type RecollectionStatus = 'awaiting_recollection' | 'recollected' | 'cancelled'
+
+// 重采申请接口定义
+export interface SampleRejection {
+  id: string
+  recollection_no: string
+  sample_id: string
+  submission_id: string
+  reason_code: SampleRejectionReason
+  reason_detail?: string
+  submission_status_before?: string
+  status: RecollectionStatus
+  rejected_by?: string
+  rejected_at: string
+  notification_id?: string
+  notified_contact?: string
+  replacement_sample_id?: string
+  closed_at?: string
+  close_reason?: string
+  sample?: {
+    id: string
+    sample_no: string
+    barcode: string
+    sample_types?: { id: string; name: string }
+  }
+  replacement?: { id: string; sample_no: string; barcode: string } | null
+  submissions?: {
+    id: string
+    submission_no: string
+    patient_name: string
+    client_units?: { id: string; name: string; contact_person?: string; contact_phone?: string }
+  }
+}
+
+// 重采申请查询参数
+export interface SampleRejectionQueryParams extends PaginationParams {
+  status?: RecollectionStatus | ''
+  reason_code?: SampleRejectionReason | ''
+  submission_id?: string
+}
+
+// 拒收参数
+export interface RejectSampleParams {
+  reason_code: SampleRejectionReason
+  reason_detail?: string
+}
+
+/**
+ * 样本拒收与重采API服务类
+ */
+export class SampleRejectionService {
+  /**
+   * 拒收样本
+   * @param sampleId 样本ID
+   * @param params 拒收原因及说明
+   * @returns 生成的重采申请
+   */
+  static async rejectSample(sampleId: string, params: RejectSampleParams): Promise<SampleRejection> {
+    const response = await http.post<ApiResponse<SampleRejection>>(`/samples/${sampleId}/reject`, params)
+    return response.data.data
+  }
+
+  /**
+   * 获取重采申请列表
+   * @param params 分页和筛选参数
+   * @returns 重采申请列表
+   */
+  static async getRejections(params: SampleRejectionQueryParams = {}): Promise<PaginatedResponse<SampleRejection>> {
+    const response = await http.get('/sample-rejections', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取重采申请详情
+   * @param id 重采申请ID
+   * @returns 重采申请
+   */
+  static async getRejection(id: string): Promise<SampleRejection> {
+    const response = await http.get<ApiResponse<SampleRejection>>(`/sample-rejections/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 登记重采到样
+   * @param id 重采申请ID
+   * @param replacementSampleId 替代样本ID
+   * @returns 更新后的重采申请
+   */
+  static async fulfil(id: string, replacementSampleId: string): Promise<SampleRejection> {
+    const response = await http.post<ApiResponse<SampleRejection>>(`/sample-rejections/${id}/fulfil`, {
+      replacement_sample_id: replacementSampleId
+    })
+    return response.data.data
+  }
+
+  /**
+   * 取消重采申请
+   * @param id 重采申请ID
+   * @param reason 取消原因
+   * @returns 更新后的重采申请
+   */
+  static async cancel(id: string, reason: string): Promise<SampleRejection> {
+    const response = await http.post<ApiResponse<SampleRejection>>(`/sample-rejections/${id}/cancel`, { reason })
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  SampleRejectionService,
+}
@@ -0,0 +1,324 @@
+/**
+ * 样本管理API服务
+ * 封装样本接收登记、清单导入、标签打印、状态流转及分装谱系相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 样本类型接口定义
+export interface SampleType {
+  id: string
+  code: string
+  name: string
+  storage_requirements?: string
+}
+
+// 可接收样本的送检单
+export interface ReceivableSubmission {
+  id: string
+  submission_no: string
+  patient_name: string
+  is_urgent: boolean
+  status: string
+  client_units?: { id: string; name: string }
+}
+
+// 样本接收表单选项
+export interface SampleReceiveOptions {
+  sample_types: SampleType[]
+  submissions: ReceivableSubmission[]
+}
+
+// 样本接口定义
+export interface Sample {
+  id: string
+  sample_no: string
+  barcode: string
+  submission_id: string
+  sample_type_id: string
+  volume?: number
+  unit?: string
+  collection_time?: string
+  received_time?: string
+  storage_temperature?: string
+  status: string
+  storage_location?: string
+  parent_sample_id?: string | null
+  derivation_type?: DerivationType | null
+  derivation_method?: string | null
+  label_print_count?: number
+  created_at?: string
+  sample_types?: { id: string; code: string; name: string }
+  submissions?: { id: string; submission_no: string; patient_name: string; is_urgent: boolean }
+}
+
+// 样本状态
+export type SampleStatus =
+  | 'received'
+  | 'in_storage'
+  | 'out_for_test'
+  | 'testing'
+  | 'completed'
+  | 'destroyed'
+  | 'abnormal'
+
+// 样本生成方式：分装或衍生
+export type DerivationType = 'aliquot' | 'derivative'
+
+// 子样本参数
+export interface DerivedSampleParams {
+  sample_type_id?: string
+  volume: number
+  unit?: string
+  storage_temperature?: string
+}
+
+// 分装/衍生参数
+export interface DeriveSampleParams {
+  derivation_type: DerivationType
+  children: DerivedSampleParams[]
+  consumed_volume?: number
+  method?: string
+  remarks?: string
+}
+
+// 谱系节点
+export interface LineageNode {
+  id: string
+  sample_no: string
+  barcode: string
+  parent_sample_id: string | null
+  root_sample_id: string | null
+  derivation_type: DerivationType | null
+  derivation_method: string | null
+  volume: number | null
+  unit: string | null
+  status: SampleStatus
+  storage_location: string | null
+  created_at: string
+  sample_types: { id: string; code: string; name: string } | null
+  children: LineageNode[]
+}
+
+// 样本谱系
+export interface SampleLineage {
+  sample_id: string
+  root: LineageNode | null
+  path: { id: string; sample_no: string }[]
+  total: number
+}
+
+// 样本列表查询参数
+export interface SampleQueryParams extends PaginationParams {
+  status?: SampleStatus
+  submission_id?: string
+  sample_type_id?: string
+}
+
+// 样本状态流转参数
+export interface SampleTransitionParams {
+  status: SampleStatus
+  to_location?: string
+  box_id?: string
+  position?: string
+  volume_after?: number
+  reason?: string
+  remarks?: string
+}
+
+// 样本登记参数
+export interface CreateSampleParams {
+  submission_id: string
+  sample_type_id: string
+  barcode?: string
+  volume?: number
+  unit?: string
+  collection_time?: string
+  storage_temperature?: string
+  rejection_id?: string
+  remarks?: string
+}
+
+// 样本清单行（列映射后），row_no 为源文件行号
+export interface ManifestRow {
+  row_no: number
+  submission_no?: string
+  sample_type?: string
+  barcode?: string
+  volume?: number | string
+  unit?: string
+  collection_time?: string
+  storage_temperature?: string
+  remarks?: string
+}
+
+// 清单字段
+export type ManifestField = Exclude<keyof ManifestRow, 'row_no'>
+
+// 清单行级错误
+export interface ManifestRowError {
+  row_no: number
+  field: ManifestField
+  message: string
+}
+
+// 清单校验结果
+export interface ManifestValidationResult {
+  total: number
+  valid_count: number
+  error_count: number
+  errors: ManifestRowError[]
+}
+
+// 清单导入结果
+export interface ManifestImportResult {
+  import_id: string
+  file_name: string
+  row_count: number
+  samples: Sample[]
+}
+
+// 标签格式
+export type LabelFormat = 'pdf' | 'zpl'
+
+// 标签码制
+export type LabelSymbology = 'code128' | 'qrcode'
+
+// 标签打印参数
+export interface PrintLabelsParams {
+  sample_ids: string[]
+  format: LabelFormat
+  symbology?: LabelSymbology
+  copies?: number
+}
+
+/**
+ * 样本管理API服务类
+ */
+export class SampleService {
+  /**
+   * 获取样本列表
+   * @param params 分页和筛选参数
+   * @returns 样本列表
+   */
+  static async getSamples(params: SampleQueryParams = {}): Promise<PaginatedResponse<Sample>> {
+    const response = await http.get('/samples', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取样本接收表单选项
+   * @returns 样本类型及可接收样本的送检单
+   */
+  static async getReceiveOptions(): Promise<SampleReceiveOptions> {
+    const response = await http.get<ApiResponse<SampleReceiveOptions>>('/samples/options')
+    return response.data.data
+  }
+
+  /**
+   * 登记样本
+   * @param params 样本信息，未提供条码时由系统分配
+   * @returns 登记的样本
+   */
+  static async createSample(params: CreateSampleParams): Promise<Sample> {
+    const response = await http.post<ApiResponse<Sample>>('/samples', params)
+    return response.data.data
+  }
+
+  /**
+   * 校验样本清单
+   * @param fileName 清单文件名
+   * @param rows 列映射后的清单行
+   * @returns 校验结果，不写入数据
+   */
+  static async validateManifest(fileName: string, rows: ManifestRow[]): Promise<ManifestValidationResult> {
+    const response = await http.post<ApiResponse<ManifestValidationResult>>('/samples/manifest/validate', {
+      file_name: fileName,
+      rows
+    }, { timeout: 60000 })
+    return response.data.data
+  }
+
+  /**
+   * 导入样本清单
+   * @param fileName 清单文件名
+   * @param rows 列映射后的清单行
+   * @returns 导入记录及登记的样本
+   */
+  static async importManifest(fileName: string, rows: ManifestRow[]): Promise<ManifestImportResult> {
+    const response = await http.post<ApiResponse<ManifestImportResult>>('/samples/manifest/import', {
+      file_name: fileName,
+      rows
+    }, { timeout: 120000 })
+    return response.data.data
+  }
+
+  /**
+   * 生成样本标签
+   * @param params 样本、格式、码制及份数
+   * @returns 标签文件（PDF或ZPL）
+   */
+  static async printLabels(params: PrintLabelsParams): Promise<Blob> {
+    const response = await http.post('/samples/labels', params, {
+      responseType: 'blob',
+      timeout: 60000,
+    })
+    return response.data
+  }
+
+  /**
+   * 样本状态流转
+   * @param id 样本ID
+   * @param params 目标状态，入库时可指定冻存盒孔位
+   * @returns 更新后的样本
+   */
+  static async transition(id: string, params: SampleTransitionParams): Promise<Sample> {
+    const response = await http.post<ApiResponse<Sample>>(`/samples/${id}/transition`, params)
+    return response.data.data
+  }
+
+  /**
+   * 删除样本（撤销误登记）
+   * @param id 样本ID
+   */
+  static async deleteSample(id: string): Promise<void> {
+    await http.delete(`/samples/${id}`)
+  }
+
+  /**
+   * 分装或衍生样本
+   * @param id 来源样本ID
+   * @param params 生成方式、子样本及消耗量
+   * @returns 扣减余量后的来源样本及创建的子样本
+   */
+  static async deriveSamples(
+    id: string,
+    params: DeriveSampleParams
+  ): Promise<{ parent: Sample; children: LineageNode[] }> {
+    const response = await http.post(`/samples/${id}/derive`, params)
+    return response.data.data
+  }
+
+  /**
+   * 获取样本谱系
+   * @param id 样本ID
+   * @returns 原始样本起的谱系树及来源路径
+   */
+  static async getLineage(id: string): Promise<SampleLineage> {
+    const response = await http.get<ApiResponse<SampleLineage>>(`/samples/${id}/lineage`)
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  SampleService,
+}
@@ -0,0 +1,207 @@
+/**
+ * 样本存储位置API服务
+ * 封装存储单元维护、冻存盒孔位图、空闲孔位查找及样本移位相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { Sample } from './sampleService'
+
+// 存储单元类型
+export type StorageUnitType = 'freezer' | 'shelf' | 'rack' | 'box'
+
+// 温度等级
+export type TemperatureClass = 'room' | '2-8' | '-20' | '-80' | 'ln2'
+
+// 存储单元接口定义
+export interface StorageUnit {
+  id: string
+  parent_id: string | null
+  unit_type: StorageUnitType
+  code: string
+  name: string
+  path: string
+  temperature_class: TemperatureClass
+  rows: number | null
+  cols: number | null
+  sort_order: number
+  is_active: boolean
+  remarks?: string
+  capacity?: number
+  occupied_count?: number
+  free_count?: number
+  created_at: string
+  updated_at: string
+}
+
+// 冻存盒孔位接口定义
+export interface BoxWell {
+  row_no: number
+  col_no: number
+  position: string
+  sample: {
+    id: string
+    sample_no: string
+    barcode: string
+    status: string
+    sample_type: string | null
+    stored_at: string
+  } | null
+}
+
+// 冻存盒孔位图接口定义
+export interface BoxMap {
+  box: StorageUnit
+  wells: BoxWell[][]
+  capacity: number
+  occupied_count: number
+  free_count: number
+}
+
+// 空闲孔位接口定义
+export interface FreeSlot {
+  box_id: string
+  box_path: string
+  box_name: string
+  row_no: number
+  col_no: number
+  position: string
+  location: string
+}
+
+// 存储单元查询参数
+export interface StorageUnitQueryParams {
+  unit_type?: StorageUnitType
+  parent_id?: string
+  temperature_class?: TemperatureClass
+  status?: 'active' | 'inactive'
+  search?: string
+}
+
+// 创建存储单元参数
+export interface CreateStorageUnitParams {
+  unit_type: StorageUnitType
+  parent_id?: string | null
+  code: string
+  name: string
+  temperature_class?: TemperatureClass
+  rows?: number
+  cols?: number
+  sort_order?: number
+  remarks?: string
+}
+
+// 更新存储单元参数
+export interface UpdateStorageUnitParams {
+  name?: string
+  rows?: number
+  cols?: number
+  sort_order?: number
+  is_active?: boolean
+  remarks?: string
+}
+
+// 空闲孔位查询参数
+export interface FreeSlotQueryParams {
+  temperature_class?: TemperatureClass
+  sample_id?: string
+  unit_id?: string
+  count?: number
+}
+
+/**
+ * 样本存储位置API服务类
+ */
+export class StorageService {
+  /**
+   * 获取存储单元列表
+   * @param params 筛选参数
+   * @returns 按位置编码排序的存储单元
+   */
+  static async getUnits(params: StorageUnitQueryParams = {}): Promise<StorageUnit[]> {
+    const response = await http.get<ApiResponse<StorageUnit[]>>('/storage/units', { params })
+    return response.data.data
+  }
+
+  /**
+   * 获取存储单元详情
+   * @param id 存储单元ID
+   * @returns 存储单元
+   */
+  static async getUnitById(id: string): Promise<StorageUnit> {
+    const response = await http.get<ApiResponse<StorageUnit>>(`/storage/units/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 创建存储单元
+   * @param params 存储单元信息
+   * @returns 创建的存储单元
+   */
+  static async createUnit(params: CreateStorageUnitParams): Promise<StorageUnit> {
+    const response = await http.post<ApiResponse<StorageUnit>>('/storage/units', params)
+    return response.data.data
+  }
+
+  /**
+   * 更新存储单元
+   * @param id 存储单元ID
+   * @param params 更新内容
+   * @returns 更新后的存储单元
+   */
+  static async updateUnit(id: string, params: UpdateStorageUnitParams): Promise<StorageUnit> {
+    const response = await http.put<ApiResponse<StorageUnit>>(`/storage/units/${id}`, params)
+    return response.data.data
+  }
+
+  /**
+   * 删除存储单元
+   * @param id 存储单元ID
+   */
+  static async deleteUnit(id: string): Promise<void> {
+    await http.delete(`/storage/units/${id}`)
+  }
+
+  /**
+   * 获取冻存盒孔位图
+   * @param boxId 冻存盒ID
+   * @returns 孔位图及占用统计
+   */
+  static async getBoxMap(boxId: string): Promise<BoxMap> {
+    const response = await http.get<ApiResponse<BoxMap>>(`/storage/boxes/${boxId}/map`)
+    return response.data.data
+  }
+
+  /**
+   * 查找空闲孔位
+   * @param params 温度等级、样本、查找范围及数量
+   * @returns 空闲孔位列表
+   */
+  static async getFreeSlots(params: FreeSlotQueryParams): Promise<FreeSlot[]> {
+    const response = await http.get<ApiResponse<FreeSlot[]>>('/storage/free-slots', { params })
+    return response.data.data
+  }
+
+  /**
+   * 样本移位
+   * @param sampleId 样本ID
+   * @param boxId 目标冻存盒ID
+   * @param position 目标孔位编号
+   * @param remarks 备注
+   * @returns 更新后的样本
+   */
+  static async moveSample(sampleId: string, boxId: string, position: string, remarks?: string): Promise<Sample> {
+    const response = await http.post<ApiResponse<Sample>>(`/storage/samples/${sampleId}/move`, {
+      box_id: boxId,
+      position,
+      remarks
+    })
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  StorageService,
+}
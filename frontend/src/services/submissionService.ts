@@ -0,0 +1,210 @@
+/**
+ * 送检管理API服务
+ * 封装送检申请、送检进度相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 送检状态
+export type SubmissionStatus =
+  | 'submitted'
+  | 'received'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'abnormal'
+
+// 送检单位接口定义
+export interface ClientUnit {
+  id: string
+  code?: string
+  name: string
+  type?: string
+  contact_person?: string
+  contact_phone?: string
+  contact_email?: string
+  address?: string
+}
+
+// 检测产品接口定义
+export interface TestProduct {
+  id: string
+  code: string
+  name: string
+  category?: string
+  price?: number
+  turnaround_time?: number
+}
+
+// 送检产品接口定义
+export interface SubmissionProduct {
+  id: string
+  quantity: number
+  unit_price?: number
+  total_price?: number
+  test_products?: TestProduct
+}
+
+// 送检样本接口定义
+export interface SubmissionSample {
+  id: string
+  sample_no: string
+  barcode: string
+  volume?: number
+  unit?: string
+  status: string
+  quality_status?: string
+  collection_time?: string
+  received_time?: string
+  sample_types?: { id: string; code: string; name: string }
+}
+
+// 送检进度接口定义
+export interface SubmissionProgress {
+  id: string
+  stage: string
+  status: string
+  description?: string
+  started_at?: string
+  completed_at?: string
+  created_at: string
+  users?: { id: string; username: string; real_name: string }
+}
+
+// 送检单接口定义
+export interface Submission {
+  id: string
+  submission_no: string
+  patient_name: string
+  patient_gender?: 'male' | 'female' | 'unknown'
+  patient_age?: number
+  patient_id_card?: string
+  contact_phone?: string
+  is_urgent: boolean
+  clinical_info?: string
+  sample_info?: string
+  total_amount?: number
+  status: SubmissionStatus
+  submitted_at: string
+  received_at?: string
+  completed_at?: string
+  created_at: string
+  client_units?: ClientUnit
+  submission_products?: SubmissionProduct[]
+  samples?: SubmissionSample[] | { count: number }[]
+}
+
+// 送检详情接口定义
+export interface SubmissionDetail extends Submission {
+  samples?: SubmissionSample[]
+  timeline: SubmissionProgress[]
+}
+
+// 送检列表查询参数
+export interface SubmissionQueryParams extends PaginationParams {
+  status?: string
+  client_unit_id?: string
+  is_urgent?: boolean
+  date_from?: string
+  date_to?: string
+}
+
+// 创建送检参数
+export interface CreateSubmissionParams {
+  client_unit_id: string
+  patient_name: string
+  patient_gender?: 'male' | 'female' | 'unknown'
+  patient_age?: number
+  patient_id_card?: string
+  contact_phone?: string
+  is_urgent?: boolean
+  clinical_info?: string
+  sample_info?: string
+  products: { product_id: string; quantity?: number }[]
+}
+
+// 送检表单选项
+export interface SubmissionOptions {
+  client_units: ClientUnit[]
+  test_products: TestProduct[]
+}
+
+/**
+ * 送检管理API服务类
+ */
+export class SubmissionService {
+  /**
+   * 获取送检列表
+   * @param params 分页和筛选参数
+   * @returns 送检列表
+   */
+  static async getSubmissions(params: SubmissionQueryParams = {}): Promise<PaginatedResponse<Submission>> {
+    const response = await http.get('/submissions', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取送检详情（含进度时间线）
+   * @param id 送检单ID
+   * @returns 送检详情
+   */
+  static async getSubmissionById(id: string): Promise<SubmissionDetail> {
+    const response = await http.get<ApiResponse<SubmissionDetail>>(`/submissions/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 获取新建送检表单选项
+   * @returns 送检单位和检测产品
+   */
+  static async getOptions(): Promise<SubmissionOptions> {
+    const response = await http.get<ApiResponse<SubmissionOptions>>('/submissions/options')
+    return response.data.data
+  }
+
+  /**
+   * 创建送检申请
+   * @param params 创建参数
+   * @returns 创建的送检单
+   */
+  static async createSubmission(params: CreateSubmissionParams): Promise<Submission> {
+    const response = await http.post<ApiResponse<Submission>>('/submissions', params)
+    return response.data.data
+  }
+
+  /**
+   * 变更送检状态
+   * @param id 送检单ID
+   * @param status 目标状态
+   * @param description 变更说明
+   * @returns 更新后的送检单
+   */
+  static async updateStatus(id: string, status: SubmissionStatus, description?: string): Promise<Submission> {
+    const response = await http.put<ApiResponse<Submission>>(`/submissions/${id}/status`, { status, description })
+    return response.data.data
+  }
+
+  /**
+   * 取消送检
+   * @param id 送检单ID
+   * @param reason 取消原因
+   * @returns 更新后的送检单
+   */
+  static async cancelSubmission(id: string, reason: string): Promise<Submission> {
+    const response = await http.post<ApiResponse<Submission>>(`/submissions/${id}/cancel`, { reason })
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  SubmissionService,
+}
@@ -0,0 +1,161 @@
+/**
+ * 实验员分配API服务
+ * 封装实验员资质与工作量查询、分配建议、自动分配和指定分配相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { ExperimentMethod } from './experimentService'
+
+// 实验员资质认证
+export interface TechnicianCertification {
+  method?: string
+  name?: string
+  cert_no?: string
+  expires_at?: string | null
+}
+
+// 资质判定结果
+export interface TechnicianQualification {
+  qualified: boolean
+  reason?: string
+  expires_at?: string | null
+}
+
+// 实验员工作量接口定义
+export interface TechnicianWorkload {
+  id: string
+  employee_no: string
+  real_name: string
+  methods: ExperimentMethod[]
+  skills: string[]
+  certifications: TechnicianCertification[]
+  qualifications: Record<ExperimentMethod, TechnicianQualification>
+  expiring_certifications: TechnicianCertification[]
+  open_count: number
+  urgent_count: number
+  workload: number
+  max_open_workload: number
+}
+
+// 实验员简要信息
+export interface TechnicianBrief {
+  id: string
+  employee_no: string
+  real_name: string
+}
+
+// 待分配实验接口定义
+export interface AssignableExperiment {
+  id: string
+  experiment_no: string
+  method: ExperimentMethod
+  status: string
+  batch_no?: string
+  technician_id?: string | null
+  created_at: string
+  is_urgent: boolean
+  samples?: {
+    id: string
+    sample_no: string
+    barcode: string
+    submissions?: { id: string; submission_no: string; is_urgent: boolean }
+  }
+  test_products?: { id: string; code: string; name: string }
+}
+
+// 分配建议
+export interface AssignmentProposals {
+  proposals: {
+    experiment: AssignableExperiment
+    technician: TechnicianBrief
+    open_workload: number
+  }[]
+  unassigned: {
+    experiment: AssignableExperiment
+    reason: string
+  }[]
+}
+
+// 分配结果
+export interface AssignmentResult {
+  assigned: {
+    experiment_id: string
+    experiment_no: string
+    technician: TechnicianBrief
+    is_urgent: boolean
+  }[]
+  skipped: { experiment_no: string; reason: string }[]
+  unassigned?: AssignmentProposals['unassigned']
+}
+
+// 待分配实验筛选条件
+export interface AssignmentFilter {
+  method: ExperimentMethod
+  batch_no?: string
+  experiment_ids?: string[]
+}
+
+/**
+ * 实验员分配API服务类
+ */
+export class TechnicianAssignmentService {
+  /**
+   * 获取实验员资质和工作量
+   * @param method 实验方法
+   * @returns 绑定该方法学的在岗实验员
+   */
+  static async getWorkloads(method?: ExperimentMethod): Promise<TechnicianWorkload[]> {
+    const response = await http.get<ApiResponse<TechnicianWorkload[]>>(
+      '/technician-assignments/workloads',
+      { params: { method } }
+    )
+    return response.data.data
+  }
+
+  /**
+   * 生成分配建议
+   * @param filter 筛选条件
+   * @returns 分配建议和无法分配的实验
+   */
+  static async propose(filter: AssignmentFilter): Promise<AssignmentProposals> {
+    const response = await http.post<ApiResponse<AssignmentProposals>>(
+      '/technician-assignments/proposals',
+      filter
+    )
+    return response.data.data
+  }
+
+  /**
+   * 自动分配实验
+   * @param filter 筛选条件
+   * @returns 分配结果
+   */
+  static async autoAssign(filter: AssignmentFilter): Promise<AssignmentResult> {
+    const response = await http.post<ApiResponse<AssignmentResult>>('/technician-assignments/auto', filter)
+    return response.data.data
+  }
+
+  /**
+   * 分配实验
+   * @param method 实验方法
+   * @param assignments 实验与实验员
+   * @returns 分配结果
+   */
+  static async assign(
+    method: ExperimentMethod,
+    assignments: { experiment_id: string; technician_id: string }[]
+  ): Promise<AssignmentResult> {
+    const response = await http.post<ApiResponse<AssignmentResult>>('/technician-assignments', {
+      method,
+      assignments,
+    })
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  TechnicianAssignmentService,
+}
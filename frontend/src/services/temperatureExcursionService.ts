@@ -0,0 +1,184 @@
+/**
+ * 存储温度偏离API服务
+ * 封装温度偏离查询、受影响样本评估、偏离检查及监控点关联存储单元相关的API调用
+ * @author Erikwang
+ * @date 2025-08-20
+ */
+
+import http, { ApiResponse } from '../lib/http'
+import type { PaginationParams, PaginatedResponse } from './userService'
+
+// 温度偏离状态
+export type ExcursionStatus = 'ongoing' | 'pending_assessment' | 'assessed'
+
+// 受影响样本评估结果
+export type ExcursionAssessment = 'pending' | 'assessed' | 'unqualified'
+
+// 温度阈值
+export interface TemperatureThreshold {
+  min: number | null
+  max: number | null
+}
+
+// 受影响样本接口定义
+export interface ExcursionSample {
+  id: string
+  sample_id: string
+  storage_location?: string
+  exposure_start: string
+  exposure_end?: string | null
+  exposure_minutes: number
+  assessment: ExcursionAssessment
+  assessment_comments?: string
+  assessed_by?: string
+  assessed_at?: string
+  samples?: {
+    id: string
+    sample_no: string
+    barcode: string
+    status: string
+    quality_status?: string
+    storage_location?: string
+    storage_temperature?: string
+    sample_types?: { id: string; name: string }
+  }
+}
+
+// 温度偏离接口定义
+export interface TemperatureExcursion {
+  id: string
+  excursion_no: string
+  point_id: string
+  storage_unit_id: string
+  status: ExcursionStatus
+  started_at: string
+  ended_at?: string | null
+  reading_count: number
+  threshold_min?: number | null
+  threshold_max?: number | null
+  peak_temperature?: number | null
+  peak_deviation?: number | null
+  affected_count: number
+  assessed_count: number
+  unqualified_count: number
+  remarks?: string
+  monitoring_points?: { id: string; point_no: string; name: string; location: string }
+  storage_units?: { id: string; path: string; name: string; unit_type?: string; temperature_class?: string }
+  temperature_excursion_samples?: ExcursionSample[]
+}
+
+// 监控点接口定义
+export interface MonitoringPoint {
+  id: string
+  point_no: string
+  name: string
+  location: string
+  room?: string
+  sensor_type: string
+  is_active: boolean
+  storage_unit_id?: string | null
+  storage_units?: { id: string; path: string; name: string; unit_type: string } | null
+  temperature_threshold: TemperatureThreshold | null
+}
+
+// 偏离检查结果
+export interface ExcursionScanSummary {
+  points: number
+  detected: number
+  updated: number
+  run_at: string
+}
+
+// 温度偏离查询参数
+export interface ExcursionQueryParams extends PaginationParams {
+  status?: ExcursionStatus | ''
+  point_id?: string
+}
+
+/**
+ * 存储温度偏离API服务类
+ */
+export class TemperatureExcursionService {
+  /**
+   * 获取温度偏离列表
+   * @param params 分页和筛选参数
+   * @returns 温度偏离列表
+   */
+  static async getExcursions(params: ExcursionQueryParams = {}): Promise<PaginatedResponse<TemperatureExcursion>> {
+    const response = await http.get('/temperature-excursions', { params })
+    const apiData = response.data
+
+    return {
+      data: apiData.data || [],
+      pagination: apiData.pagination || { page: 1, limit: 10, total: 0, totalPages: 0 }
+    }
+  }
+
+  /**
+   * 获取温度偏离详情
+   * @param id 温度偏离ID
+   * @returns 温度偏离及受影响样本
+   */
+  static async getExcursion(id: string): Promise<TemperatureExcursion> {
+    const response = await http.get<ApiResponse<TemperatureExcursion>>(`/temperature-excursions/${id}`)
+    return response.data.data
+  }
+
+  /**
+   * 评估受影响样本
+   * @param id 温度偏离ID
+   * @param sampleIds 样本ID列表
+   * @param result 评估结果
+   * @param comments 评估意见，评为不合格时必填
+   * @returns 更新后的温度偏离详情
+   */
+  static async assessSamples(
+    id: string,
+    sampleIds: string[],
+    result: 'assessed' | 'unqualified',
+    comments?: string
+  ): Promise<TemperatureExcursion> {
+    const response = await http.post<ApiResponse<TemperatureExcursion>>(`/temperature-excursions/${id}/assess`, {
+      sample_ids: sampleIds,
+      result,
+      comments
+    })
+    return response.data.data
+  }
+
+  /**
+   * 执行温度偏离检查
+   * @returns 检查结果
+   */
+  static async runScan(): Promise<ExcursionScanSummary> {
+    const response = await http.post<ApiResponse<ExcursionScanSummary>>('/temperature-excursions/scan')
+    return response.data.data
+  }
+
+  /**
+   * 获取监控点列表
+   * @returns 监控点及关联的存储单元
+   */
+  static async getPoints(): Promise<MonitoringPoint[]> {
+    const response = await http.get<ApiResponse<MonitoringPoint[]>>('/temperature-excursions/points')
+    return response.data.data
+  }
+
+  /**
+   * 关联监控点与存储单元
+   * @param id 监控点ID
+   * @param storageUnitId 存储单元ID，为 null 时取消关联
+   * @returns 更新后的监控点
+   */
+  static async linkPoint(id: string, storageUnitId: string | null): Promise<MonitoringPoint> {
+    const response = await http.put<ApiResponse<MonitoringPoint>>(`/temperature-excursions/points/${id}`, {
+      storage_unit_id: storageUnitId
+    })
+    return response.data.data
+  }
+}
+
+// 导出默认服务
+export default {
+  TemperatureExcursionService,
+}
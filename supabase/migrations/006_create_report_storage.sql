@@ -0,0 +1,10 @@
+-- 创建报告文件存储桶
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 报告PDF存放于私有存储桶，通过签名链接下载
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reports', 'reports', FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON COLUMN reports.file_urls IS '报告文件列表（JSON数组），元素包含file_name、storage_path、size、generated_at、generated_by';
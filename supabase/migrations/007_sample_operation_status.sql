@@ -0,0 +1,14 @@
+-- 样本操作记录增加状态字段
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 样本每次状态变更都写入操作记录，记录变更前后状态以形成完整监管链
+
+ALTER TABLE sample_operations
+    ADD COLUMN IF NOT EXISTS from_status VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS to_status VARCHAR(20);
+
+COMMENT ON COLUMN sample_operations.operation_type IS '操作类型：receive-接收，inbound-入库，outbound-出库，start_test-开始检测，complete_test-完成检测，abnormal-标记异常，destroy-销毁';
+COMMENT ON COLUMN sample_operations.from_status IS '变更前样本状态';
+COMMENT ON COLUMN sample_operations.to_status IS '变更后样本状态';
+
+CREATE INDEX IF NOT EXISTS idx_sample_operations_sample_time ON sample_operations(sample_id, operation_time);
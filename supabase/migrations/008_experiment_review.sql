@@ -0,0 +1,24 @@
+-- 实验结果多级审核
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 实验完成后按方法配置的审核级数逐级审核，驳回后退回数据录入
+
+ALTER TABLE experiments
+    ADD COLUMN IF NOT EXISTS review_status VARCHAR(20) DEFAULT 'not_submitted'
+        CHECK (review_status IN ('not_submitted', 'pending', 'approved', 'rejected')),
+    ADD COLUMN IF NOT EXISTS current_review_level INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS required_review_levels INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN experiments.review_status IS '审核状态：not_submitted-未提交，pending-审核中，approved-审核通过，rejected-已驳回';
+COMMENT ON COLUMN experiments.current_review_level IS '当前待审核级别，从1开始';
+COMMENT ON COLUMN experiments.required_review_levels IS '提交审核时确定的审核总级数';
+COMMENT ON COLUMN experiments.submitted_by IS '提交审核的用户';
+
+CREATE INDEX IF NOT EXISTS idx_experiments_review ON experiments(review_status, method, current_review_level);
+CREATE INDEX IF NOT EXISTS idx_experiment_audits_experiment ON experiment_audits(experiment_id, audit_level);
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('review.experiment_levels', '{"routine":2,"mass_spec":2,"special":2}', 'json', 'review', '各实验方法的结果审核级数', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,28 @@
+-- 报告审核与发布流程
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 报告提交审核后按配置级数逐级审核，审核通过后锁定内容，发布后记录交付
+
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS current_review_level INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS required_review_levels INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS released_by UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS released_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN reports.current_review_level IS '当前待审核级别，从1开始，未提交或驳回时为0';
+COMMENT ON COLUMN reports.required_review_levels IS '提交审核时确定的审核总级数';
+COMMENT ON COLUMN reports.submitted_by IS '提交审核的用户';
+COMMENT ON COLUMN reports.approved_by IS '最终审核通过的用户';
+COMMENT ON COLUMN reports.released_by IS '发布报告的用户';
+COMMENT ON COLUMN reports.released_at IS '发布时间，发布后方可交付';
+
+CREATE INDEX IF NOT EXISTS idx_reports_review ON reports(status, current_review_level);
+CREATE INDEX IF NOT EXISTS idx_report_audits_report_level ON report_audits(report_id, audit_level);
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('review.report_levels', '1', 'number', 'review', '报告审核级数', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,46 @@
+-- 报告版本与修订报告
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 报告每次审核通过时保存不可修改的版本快照；已审核报告的修改生成修订版本并重新审核
+
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS version_no INTEGER DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS is_amended BOOLEAN DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS amendment_reason TEXT;
+
+COMMENT ON COLUMN reports.version_no IS '当前版本号，从1开始，每次修订加1';
+COMMENT ON COLUMN reports.is_amended IS '是否为修订报告';
+COMMENT ON COLUMN reports.amendment_reason IS '当前版本的修订原因';
+
+-- 报告版本表（只增不改）
+CREATE TABLE IF NOT EXISTS report_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+    version_no INTEGER NOT NULL,
+    template_id UUID REFERENCES report_templates(id),
+    title VARCHAR(200) NOT NULL,
+    content TEXT,
+    summary TEXT,
+    conclusion TEXT,
+    recommendations TEXT,
+    amendment_reason TEXT,
+    diff JSONB DEFAULT '[]',
+    file_urls JSONB DEFAULT '[]',
+    approved_by UUID REFERENCES users(id),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    released_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    UNIQUE (report_id, version_no)
+);
+
+COMMENT ON TABLE report_versions IS '报告版本表';
+COMMENT ON COLUMN report_versions.diff IS '与上一版本的差异（JSON数组），元素包含field、before、after';
+COMMENT ON COLUMN report_versions.file_urls IS '该版本发布时的报告文件列表';
+
+CREATE INDEX IF NOT EXISTS idx_report_versions_report ON report_versions(report_id, version_no);
+
+ALTER TABLE report_deliveries
+    ADD COLUMN IF NOT EXISTS version_no INTEGER;
+
+COMMENT ON COLUMN report_deliveries.version_no IS '交付的报告版本号';
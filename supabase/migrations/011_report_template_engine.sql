@@ -0,0 +1,31 @@
+-- 报告模板引擎
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 报告模板支持结构化章节格式；模板内容变更时保存历史版本，报告记录生成时使用的模板版本
+
+ALTER TABLE report_templates
+    ADD COLUMN IF NOT EXISTS description TEXT;
+
+COMMENT ON COLUMN report_templates.template_format IS '模板格式：html, sections（结构化章节模板，JSON存储）, docx, pdf';
+COMMENT ON COLUMN report_templates.version IS '模板版本号，内容变更时次版本加1';
+
+-- 报告模板版本表（只增不改）
+CREATE TABLE IF NOT EXISTS report_template_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES report_templates(id) ON DELETE CASCADE,
+    version VARCHAR(20) NOT NULL,
+    template_content TEXT NOT NULL,
+    template_format VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    UNIQUE (template_id, version)
+);
+
+COMMENT ON TABLE report_template_versions IS '报告模板历史版本表';
+
+CREATE INDEX IF NOT EXISTS idx_report_template_versions_template ON report_template_versions(template_id, version);
+
+ALTER TABLE reports
+    ADD COLUMN IF NOT EXISTS template_version VARCHAR(20);
+
+COMMENT ON COLUMN reports.template_version IS '最近一次生成报告文件时使用的模板版本';
@@ -0,0 +1,46 @@
+-- 样本条码分配与标签打印
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 样本接收时按配置的编码规则分配条码；记录标签打印次数，打印操作写入样本操作记录
+
+-- 条码流水号表（按编码规则展开后的前缀分别计数）
+CREATE TABLE IF NOT EXISTS barcode_sequences (
+    scope_key VARCHAR(100) PRIMARY KEY,
+    last_value INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE barcode_sequences IS '条码流水号表';
+COMMENT ON COLUMN barcode_sequences.scope_key IS '流水号范围（编码规则中流水号之前的部分），范围变化时流水号重新计数';
+
+-- 原子地获取下一个流水号
+CREATE OR REPLACE FUNCTION next_barcode_sequence(p_scope_key VARCHAR)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_value INTEGER;
+BEGIN
+    INSERT INTO barcode_sequences (scope_key, last_value, updated_at)
+    VALUES (p_scope_key, 1, NOW())
+    ON CONFLICT (scope_key)
+    DO UPDATE SET last_value = barcode_sequences.last_value + 1, updated_at = NOW()
+    RETURNING last_value INTO v_value;
+
+    RETURN v_value;
+END;
+$$;
+
+ALTER TABLE samples
+    ADD COLUMN IF NOT EXISTS label_print_count INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS label_printed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN samples.label_print_count IS '标签打印次数';
+COMMENT ON COLUMN samples.label_printed_at IS '最近一次打印标签时间';
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('label.barcode_pattern', '{YY}{MM}{DD}{SEQ:5}', 'string', 'label', '样本条码编码规则，可用 {YYYY}{YY}{MM}{DD}{TYPE}{SEQ:位数}{CHECK}', FALSE),
+('label.symbology', 'code128', 'string', 'label', '标签码制：code128（一维码）或 qrcode（二维码）', FALSE),
+('label.sheet_layout', '{"columns":3,"rows":8,"width_mm":63,"height_mm":33}', 'json', 'label', 'A4标签纸排版（列数、行数、标签宽高）', FALSE),
+('label.zpl_size', '{"width_dots":400,"height_dots":240}', 'json', 'label', '热敏标签尺寸（点，203dpi）', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,61 @@
+-- 样本分级存储位置
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 建立冰箱 → 层架 → 冻存架 → 冻存盒 → 孔位的存储位置模型；每个单元有温度等级，每个孔位只能存放一个样本
+
+-- 存储单元表（冰箱、层架、冻存架、冻存盒）
+CREATE TABLE IF NOT EXISTS storage_units (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    parent_id UUID REFERENCES storage_units(id) ON DELETE RESTRICT,
+    unit_type VARCHAR(20) NOT NULL CHECK (unit_type IN ('freezer', 'shelf', 'rack', 'box')),
+    code VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    path VARCHAR(255) NOT NULL,
+    temperature_class VARCHAR(20) NOT NULL CHECK (temperature_class IN ('room', '2-8', '-20', '-80', 'ln2')),
+    rows INTEGER CHECK (rows BETWEEN 1 AND 26),
+    cols INTEGER CHECK (cols BETWEEN 1 AND 99),
+    sort_order INTEGER DEFAULT 0,
+    is_active BOOLEAN DEFAULT TRUE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID REFERENCES users(id),
+    updated_by UUID REFERENCES users(id),
+    CONSTRAINT storage_units_box_grid CHECK (
+        (unit_type = 'box' AND rows IS NOT NULL AND cols IS NOT NULL)
+        OR (unit_type <> 'box' AND rows IS NULL AND cols IS NULL)
+    ),
+    CONSTRAINT storage_units_parent_code UNIQUE (parent_id, code)
+);
+
+-- 顶层冰箱的编码全局唯一
+CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_units_root_code ON storage_units(code) WHERE parent_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_storage_units_parent_id ON storage_units(parent_id);
+CREATE INDEX IF NOT EXISTS idx_storage_units_type_temperature ON storage_units(unit_type, temperature_class);
+
+COMMENT ON TABLE storage_units IS '存储单元表';
+COMMENT ON COLUMN storage_units.unit_type IS '单元类型：freezer-冰箱，shelf-层架，rack-冻存架，box-冻存盒';
+COMMENT ON COLUMN storage_units.path IS '完整位置编码，如 F01/S2/R3/B04';
+COMMENT ON COLUMN storage_units.temperature_class IS '温度等级：room-室温，2-8-冷藏，-20-冷冻，-80-超低温，ln2-液氮；下级单元继承上级的温度等级';
+COMMENT ON COLUMN storage_units.rows IS '冻存盒行数（行号以字母A起）';
+COMMENT ON COLUMN storage_units.cols IS '冻存盒列数';
+
+-- 样本孔位占用表
+CREATE TABLE IF NOT EXISTS sample_storage_positions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sample_id UUID NOT NULL UNIQUE REFERENCES samples(id) ON DELETE CASCADE,
+    box_id UUID NOT NULL REFERENCES storage_units(id) ON DELETE RESTRICT,
+    row_no INTEGER NOT NULL CHECK (row_no >= 1),
+    col_no INTEGER NOT NULL CHECK (col_no >= 1),
+    stored_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    stored_by UUID REFERENCES users(id),
+    CONSTRAINT sample_storage_positions_well UNIQUE (box_id, row_no, col_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sample_storage_positions_box_id ON sample_storage_positions(box_id);
+
+COMMENT ON TABLE sample_storage_positions IS '样本孔位占用表（每个孔位只能存放一个样本，每个样本只能占用一个孔位）';
+COMMENT ON COLUMN sample_storage_positions.row_no IS '行号（1对应A行）';
+COMMENT ON COLUMN sample_storage_positions.col_no IS '列号';
+
+COMMENT ON COLUMN sample_operations.operation_type IS '操作类型：receive-接收，inbound-入库，outbound-出库，start_test-开始检测，complete_test-完成检测，abnormal-标记异常，destroy-销毁，print_label-打印标签，move-移位';
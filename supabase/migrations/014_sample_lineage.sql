@@ -0,0 +1,20 @@
+-- 样本分装与衍生谱系
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 样本分装为子样本或处理为衍生样本（如血液提取DNA）时记录来源关系，父样本扣减余量，支持追溯完整谱系
+
+ALTER TABLE samples
+    ADD COLUMN IF NOT EXISTS parent_sample_id UUID REFERENCES samples(id) ON DELETE RESTRICT,
+    ADD COLUMN IF NOT EXISTS root_sample_id UUID REFERENCES samples(id) ON DELETE RESTRICT,
+    ADD COLUMN IF NOT EXISTS derivation_type VARCHAR(20) CHECK (derivation_type IN ('aliquot', 'derivative')),
+    ADD COLUMN IF NOT EXISTS derivation_method VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_samples_parent_sample_id ON samples(parent_sample_id);
+CREATE INDEX IF NOT EXISTS idx_samples_root_sample_id ON samples(root_sample_id);
+
+COMMENT ON COLUMN samples.parent_sample_id IS '来源样本ID（分装或衍生自该样本）';
+COMMENT ON COLUMN samples.root_sample_id IS '原始样本ID（谱系根节点），原始样本本身为空';
+COMMENT ON COLUMN samples.derivation_type IS '生成方式：aliquot-分装，derivative-衍生（如提取物）；原始样本为空';
+COMMENT ON COLUMN samples.derivation_method IS '衍生处理方法，如 DNA提取';
+
+COMMENT ON COLUMN sample_operations.operation_type IS '操作类型：receive-接收，inbound-入库，outbound-出库，start_test-开始检测，complete_test-完成检测，abnormal-标记异常，destroy-销毁，print_label-打印标签，move-移位，aliquot-分装，derive-衍生';
@@ -0,0 +1,77 @@
+-- 样本保存期限到期与销毁批次
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 定时任务按样本类型保存天数补齐预计销毁日期并列出到期样本；销毁按批次提交，经主管审批后执行，记录销毁方式、见证人及销毁证明；法律或科研保留的样本不参与销毁
+
+ALTER TABLE samples
+    ADD COLUMN IF NOT EXISTS hold_type VARCHAR(20) CHECK (hold_type IN ('legal', 'research')),
+    ADD COLUMN IF NOT EXISTS hold_reason TEXT,
+    ADD COLUMN IF NOT EXISTS hold_until DATE,
+    ADD COLUMN IF NOT EXISTS hold_by UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS hold_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_samples_expected_destroy_date ON samples(expected_destroy_date) WHERE status <> 'destroyed';
+
+COMMENT ON COLUMN samples.hold_type IS '保留类型：legal-法律保留，research-科研保留；保留期间不能销毁';
+COMMENT ON COLUMN samples.hold_reason IS '保留原因';
+COMMENT ON COLUMN samples.hold_until IS '保留截止日期，为空表示无限期保留直至解除';
+
+-- 销毁批次表
+CREATE TABLE IF NOT EXISTS sample_destruction_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_no VARCHAR(50) NOT NULL UNIQUE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending_approval' CHECK (status IN ('pending_approval', 'approved', 'rejected', 'completed', 'cancelled')),
+    reason TEXT NOT NULL,
+    destroy_method VARCHAR(50) NOT NULL,
+    witness_name VARCHAR(100),
+    planned_date DATE,
+    sample_count INTEGER NOT NULL DEFAULT 0,
+    destroyed_count INTEGER NOT NULL DEFAULT 0,
+    requested_by UUID REFERENCES users(id),
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    approved_by UUID REFERENCES users(id),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    approval_comments TEXT,
+    executed_by UUID REFERENCES users(id),
+    executed_at TIMESTAMP WITH TIME ZONE,
+    certificate_path TEXT,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE sample_destruction_batches IS '样本销毁批次';
+COMMENT ON COLUMN sample_destruction_batches.status IS '状态：pending_approval-待审批，approved-已批准，rejected-已驳回，completed-已销毁，cancelled-已取消';
+COMMENT ON COLUMN sample_destruction_batches.destroy_method IS '销毁方式，如 高压灭菌、焚烧、化学消毒';
+COMMENT ON COLUMN sample_destruction_batches.witness_name IS '销毁见证人，执行销毁时必填';
+COMMENT ON COLUMN sample_destruction_batches.certificate_path IS '销毁证明PDF存储路径';
+
+-- 销毁批次样本表
+CREATE TABLE IF NOT EXISTS sample_destruction_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID NOT NULL REFERENCES sample_destruction_batches(id) ON DELETE CASCADE,
+    sample_id UUID NOT NULL REFERENCES samples(id),
+    storage_location VARCHAR(100),
+    result VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (result IN ('pending', 'destroyed', 'skipped')),
+    skip_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (batch_id, sample_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sample_destruction_batches_status ON sample_destruction_batches(status);
+CREATE INDEX IF NOT EXISTS idx_sample_destruction_items_sample_id ON sample_destruction_items(sample_id);
+
+COMMENT ON TABLE sample_destruction_items IS '销毁批次样本';
+COMMENT ON COLUMN sample_destruction_items.storage_location IS '销毁前存储位置，用于销毁证明';
+COMMENT ON COLUMN sample_destruction_items.result IS '执行结果：pending-待销毁，destroyed-已销毁，skipped-未销毁（如执行时已被保留）';
+
+-- 销毁证明存储桶
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('sample-destruction', 'sample-destruction', FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('business.sample_destroy_notice_days', '7', 'number', 'business', '样本到期销毁提前提醒天数', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
+
+COMMENT ON COLUMN sample_operations.operation_type IS '操作类型：receive-接收，inbound-入库，outbound-出库，start_test-开始检测，complete_test-完成检测，abnormal-标记异常，destroy-销毁，print_label-打印标签，move-移位，aliquot-分装，derive-衍生，hold-保留，release_hold-解除保留';
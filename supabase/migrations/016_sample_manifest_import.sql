@@ -0,0 +1,75 @@
+-- 样本清单批量接收
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 客户以Excel/CSV清单送样时按清单批量登记接收；导入记录留存文件名与行数，样本及接收操作记录在同一事务内写入，任一行失败整单回滚
+
+CREATE TABLE IF NOT EXISTS sample_manifest_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_name VARCHAR(255) NOT NULL,
+    row_count INTEGER NOT NULL DEFAULT 0,
+    imported_by UUID REFERENCES users(id),
+    imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE sample_manifest_imports IS '样本清单导入记录';
+COMMENT ON COLUMN sample_manifest_imports.row_count IS '导入样本数';
+
+ALTER TABLE samples
+    ADD COLUMN IF NOT EXISTS manifest_import_id UUID REFERENCES sample_manifest_imports(id);
+
+CREATE INDEX IF NOT EXISTS idx_samples_manifest_import_id ON samples(manifest_import_id);
+
+COMMENT ON COLUMN samples.manifest_import_id IS '来源清单导入记录，逐个登记的样本为空';
+
+-- 清单样本入库：样本编号、条码及过期日期由应用层预先分配，接收时间统一取事务时间
+CREATE OR REPLACE FUNCTION receive_sample_manifest(p_file_name VARCHAR, p_samples JSONB, p_operator_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_import_id UUID;
+    v_now TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+    INSERT INTO sample_manifest_imports (file_name, row_count, imported_by, imported_at)
+    VALUES (p_file_name, jsonb_array_length(p_samples), p_operator_id, v_now)
+    RETURNING id INTO v_import_id;
+
+    WITH manifest AS (
+        SELECT *
+        FROM jsonb_to_recordset(p_samples) AS r(
+            sample_no VARCHAR,
+            barcode VARCHAR,
+            submission_id UUID,
+            submission_no VARCHAR,
+            sample_type_id UUID,
+            volume DECIMAL,
+            unit VARCHAR,
+            collection_time TIMESTAMP WITH TIME ZONE,
+            storage_temperature VARCHAR,
+            expected_destroy_date DATE,
+            remarks TEXT
+        )
+    ),
+    inserted AS (
+        INSERT INTO samples (
+            sample_no, barcode, submission_id, sample_type_id, volume, unit, collection_time,
+            received_time, storage_temperature, status, quality_status, expected_destroy_date,
+            manifest_import_id, created_by, updated_by
+        )
+        SELECT
+            m.sample_no, m.barcode, m.submission_id, m.sample_type_id, m.volume, COALESCE(m.unit, 'ml'), m.collection_time,
+            v_now, m.storage_temperature, 'received', 'qualified', m.expected_destroy_date,
+            v_import_id, p_operator_id, p_operator_id
+        FROM manifest m
+        RETURNING id, sample_no, volume
+    )
+    INSERT INTO sample_operations (sample_id, operation_type, operation_desc, to_status, volume_after, operator_id, operation_time, remarks)
+    SELECT
+        i.id, 'receive', '样本清单接收，送检单' || m.submission_no || '，清单' || p_file_name, 'received',
+        i.volume, p_operator_id, v_now, NULLIF(m.remarks, '')
+    FROM inserted i
+    JOIN manifest m ON m.sample_no = i.sample_no;
+
+    RETURN v_import_id;
+END;
+$$;
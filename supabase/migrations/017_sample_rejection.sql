@@ -0,0 +1,46 @@
+-- 样本拒收与重新采样
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 不合格样本按编码原因拒收，送检单转为异常并通知送检单位联系人；每次拒收生成一条重采申请，跟踪至替代样本到达
+
+CREATE TABLE IF NOT EXISTS sample_rejections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recollection_no VARCHAR(50) NOT NULL UNIQUE,
+    sample_id UUID NOT NULL REFERENCES samples(id),
+    submission_id UUID NOT NULL REFERENCES submissions(id),
+    reason_code VARCHAR(30) NOT NULL CHECK (reason_code IN ('hemolysis', 'insufficient_volume', 'wrong_container', 'expired_stability', 'other')),
+    reason_detail TEXT,
+    submission_status_before VARCHAR(20),
+    status VARCHAR(30) NOT NULL DEFAULT 'awaiting_recollection' CHECK (status IN ('awaiting_recollection', 'recollected', 'cancelled')),
+    rejected_by UUID REFERENCES users(id),
+    rejected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    notification_id UUID REFERENCES notifications(id),
+    notified_contact VARCHAR(200),
+    replacement_sample_id UUID REFERENCES samples(id),
+    closed_by UUID REFERENCES users(id),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    close_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 同一样本同时只能有一条待重采记录
+CREATE UNIQUE INDEX IF NOT EXISTS uk_sample_rejections_open_sample ON sample_rejections(sample_id) WHERE status = 'awaiting_recollection';
+CREATE INDEX IF NOT EXISTS idx_sample_rejections_submission_id ON sample_rejections(submission_id);
+CREATE INDEX IF NOT EXISTS idx_sample_rejections_status ON sample_rejections(status);
+
+COMMENT ON TABLE sample_rejections IS '样本拒收及重采申请';
+COMMENT ON COLUMN sample_rejections.recollection_no IS '重采申请编号';
+COMMENT ON COLUMN sample_rejections.reason_code IS '拒收原因：hemolysis-溶血，insufficient_volume-样本量不足，wrong_container-容器错误，expired_stability-超出稳定期，other-其他';
+COMMENT ON COLUMN sample_rejections.submission_status_before IS '拒收前送检单状态，全部重采完成后恢复';
+COMMENT ON COLUMN sample_rejections.status IS '重采状态：awaiting_recollection-待重采，recollected-已重采，cancelled-已取消';
+COMMENT ON COLUMN sample_rejections.notified_contact IS '已通知的送检单位联系人及联系方式';
+COMMENT ON COLUMN sample_rejections.replacement_sample_id IS '替代样本';
+
+-- 通知外部收件人（如送检单位联系人），由通知发送任务按渠道投递
+ALTER TABLE notifications
+    ADD COLUMN IF NOT EXISTS recipients JSONB;
+
+COMMENT ON COLUMN notifications.recipients IS '外部收件人（JSON数组），元素含 name、email、phone';
+
+COMMENT ON COLUMN sample_operations.operation_type IS '操作类型：receive-接收，inbound-入库，outbound-出库，start_test-开始检测，complete_test-完成检测，abnormal-标记异常，destroy-销毁，print_label-打印标签，move-移位，aliquot-分装，derive-衍生，hold-保留，release_hold-解除保留，reject-拒收，recollect-重采到样';
@@ -0,0 +1,72 @@
+-- 样本借出单
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 样本出库改为借出单流程：申请（填写原因和预计归还时间）、主管审批、扫码取样出库、归还入库并登记用量；
+-- 超过预计归还时间未归还的样本标记为逾期并通知借出人，各环节均写入样本操作记录
+
+CREATE TABLE IF NOT EXISTS sample_checkout_orders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_no VARCHAR(50) NOT NULL UNIQUE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending_approval' CHECK (status IN ('pending_approval', 'approved', 'rejected', 'checked_out', 'returned', 'cancelled')),
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('testing', 'transfer', 'qc', 'other')),
+    purpose TEXT,
+    destination VARCHAR(100),
+    holder_id UUID NOT NULL REFERENCES users(id),
+    due_back_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    sample_count INTEGER NOT NULL DEFAULT 0,
+    requested_by UUID REFERENCES users(id),
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    approved_by UUID REFERENCES users(id),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    approval_comments TEXT,
+    returned_at TIMESTAMP WITH TIME ZONE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sample_checkout_orders_status ON sample_checkout_orders(status);
+CREATE INDEX IF NOT EXISTS idx_sample_checkout_orders_holder_id ON sample_checkout_orders(holder_id);
+
+COMMENT ON TABLE sample_checkout_orders IS '样本借出单';
+COMMENT ON COLUMN sample_checkout_orders.status IS '状态：pending_approval-待审批，approved-已批准，rejected-已驳回，checked_out-已出库，returned-已归还，cancelled-已取消';
+COMMENT ON COLUMN sample_checkout_orders.reason IS '出库原因：testing-检测使用，transfer-样本转移，qc-质量控制，other-其他';
+COMMENT ON COLUMN sample_checkout_orders.destination IS '样本去向，如实验室、仪器或外送机构';
+COMMENT ON COLUMN sample_checkout_orders.holder_id IS '借出人，样本出库期间由其保管';
+COMMENT ON COLUMN sample_checkout_orders.due_back_at IS '预计归还时间，超过后未归还的样本为逾期';
+
+CREATE TABLE IF NOT EXISTS sample_checkout_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES sample_checkout_orders(id) ON DELETE CASCADE,
+    sample_id UUID NOT NULL REFERENCES samples(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'picked', 'returned', 'cancelled')),
+    from_location VARCHAR(100),
+    picked_by UUID REFERENCES users(id),
+    picked_at TIMESTAMP WITH TIME ZONE,
+    volume_before DECIMAL(10,2),
+    volume_used DECIMAL(10,2),
+    return_location VARCHAR(100),
+    returned_by UUID REFERENCES users(id),
+    returned_at TIMESTAMP WITH TIME ZONE,
+    overdue_notified_at TIMESTAMP WITH TIME ZONE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (order_id, sample_id)
+);
+
+-- 同一样本同时只能在一张未完成的借出单中
+CREATE UNIQUE INDEX IF NOT EXISTS uk_sample_checkout_items_open_sample ON sample_checkout_items(sample_id) WHERE status IN ('pending', 'picked');
+CREATE INDEX IF NOT EXISTS idx_sample_checkout_items_status ON sample_checkout_items(status);
+
+COMMENT ON TABLE sample_checkout_items IS '借出单样本';
+COMMENT ON COLUMN sample_checkout_items.status IS '状态：pending-待取样，picked-已出库，returned-已归还，cancelled-未出库';
+COMMENT ON COLUMN sample_checkout_items.from_location IS '出库前存储位置，归还时无保留孔位则放回该位置';
+COMMENT ON COLUMN sample_checkout_items.volume_before IS '出库时样本余量';
+COMMENT ON COLUMN sample_checkout_items.volume_used IS '借出期间用量';
+COMMENT ON COLUMN sample_checkout_items.overdue_notified_at IS '逾期提醒发送时间，每个样本只提醒一次';
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('business.sample_checkout_default_hours', '24', 'number', 'business', '样本借出默认归还时限（小时）', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
+
+COMMENT ON COLUMN sample_operations.operation_type IS '操作类型：receive-接收，inbound-入库，outbound-出库，start_test-开始检测，complete_test-完成检测，abnormal-标记异常，destroy-销毁，print_label-打印标签，move-移位，aliquot-分装，derive-衍生，hold-保留，release_hold-解除保留，reject-拒收，recollect-重采到样，checkout_request-借出申请，checkout_approve-借出批准，checkout_reject-借出驳回，checkout_cancel-借出取消，checkout-借出出库，checkin-借出归还';
@@ -0,0 +1,74 @@
+-- 存储温度偏离影响评估
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 监控点关联存储单元（冰箱等），连续异常的温度读数合并为一次温度偏离；按样本操作记录还原偏离期间存放在该单元内的样本，
+-- 记录每个样本的暴露时长，由质控人员逐个评估为不受影响或不合格
+
+ALTER TABLE monitoring_points
+    ADD COLUMN IF NOT EXISTS storage_unit_id UUID REFERENCES storage_units(id);
+
+CREATE INDEX IF NOT EXISTS idx_monitoring_points_storage_unit_id ON monitoring_points(storage_unit_id);
+
+COMMENT ON COLUMN monitoring_points.storage_unit_id IS '监控的存储单元（如冰箱），温度偏离时评估该单元及下级单元内的样本';
+COMMENT ON COLUMN monitoring_points.thresholds IS '阈值配置（JSON），温度上下限为 {"temperature": {"min": -90, "max": -70}}';
+
+-- 温度偏离表
+CREATE TABLE IF NOT EXISTS temperature_excursions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    excursion_no VARCHAR(50) NOT NULL UNIQUE,
+    point_id UUID NOT NULL REFERENCES monitoring_points(id),
+    storage_unit_id UUID NOT NULL REFERENCES storage_units(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'ongoing' CHECK (status IN ('ongoing', 'pending_assessment', 'assessed')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    reading_count INTEGER NOT NULL DEFAULT 0,
+    threshold_min DECIMAL(5,2),
+    threshold_max DECIMAL(5,2),
+    peak_temperature DECIMAL(5,2),
+    peak_deviation DECIMAL(5,2),
+    affected_count INTEGER NOT NULL DEFAULT 0,
+    assessed_count INTEGER NOT NULL DEFAULT 0,
+    unqualified_count INTEGER NOT NULL DEFAULT 0,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 同一监控点同时只有一次进行中的偏离
+CREATE UNIQUE INDEX IF NOT EXISTS uk_temperature_excursions_ongoing_point ON temperature_excursions(point_id) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_temperature_excursions_point_started ON temperature_excursions(point_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_temperature_excursions_status ON temperature_excursions(status);
+
+COMMENT ON TABLE temperature_excursions IS '存储温度偏离';
+COMMENT ON COLUMN temperature_excursions.status IS '状态：ongoing-偏离中，pending_assessment-待评估，assessed-已评估';
+COMMENT ON COLUMN temperature_excursions.started_at IS '首个异常读数时间';
+COMMENT ON COLUMN temperature_excursions.ended_at IS '恢复正常后首个正常读数时间，为空表示仍在偏离';
+COMMENT ON COLUMN temperature_excursions.peak_temperature IS '偏离期间离阈值最远的温度';
+COMMENT ON COLUMN temperature_excursions.peak_deviation IS '峰值偏离（℃），高于上限为正，低于下限为负';
+
+-- 温度偏离受影响样本表
+CREATE TABLE IF NOT EXISTS temperature_excursion_samples (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    excursion_id UUID NOT NULL REFERENCES temperature_excursions(id) ON DELETE CASCADE,
+    sample_id UUID NOT NULL REFERENCES samples(id),
+    storage_location VARCHAR(100),
+    exposure_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    exposure_end TIMESTAMP WITH TIME ZONE,
+    exposure_minutes INTEGER NOT NULL DEFAULT 0,
+    assessment VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (assessment IN ('pending', 'assessed', 'unqualified')),
+    assessment_comments TEXT,
+    assessed_by UUID REFERENCES users(id),
+    assessed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (excursion_id, sample_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_temperature_excursion_samples_sample_id ON temperature_excursion_samples(sample_id);
+
+COMMENT ON TABLE temperature_excursion_samples IS '温度偏离受影响样本';
+COMMENT ON COLUMN temperature_excursion_samples.storage_location IS '偏离期间的存储位置';
+COMMENT ON COLUMN temperature_excursion_samples.exposure_end IS '暴露结束时间，偏离进行中且样本仍在单元内时为空';
+COMMENT ON COLUMN temperature_excursion_samples.exposure_minutes IS '暴露时长（分钟），偏离进行中时计算到最近一次检测';
+COMMENT ON COLUMN temperature_excursion_samples.assessment IS '评估结果：pending-待评估，assessed-已评估不受影响，unqualified-不合格';
+
+COMMENT ON COLUMN sample_operations.operation_type IS '操作类型：receive-接收，inbound-入库，outbound-出库，start_test-开始检测，complete_test-完成检测，abnormal-标记异常，destroy-销毁，print_label-打印标签，move-移位，aliquot-分装，derive-衍生，hold-保留，release_hold-解除保留，reject-拒收，recollect-重采到样，checkout_request-借出申请，checkout_approve-借出批准，checkout_reject-借出驳回，checkout_cancel-借出取消，checkout-借出出库，checkin-借出归还，excursion_assess-温度偏离评估';
@@ -0,0 +1,63 @@
+-- 实验批次孔板布局
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 按批次设计96/384孔板布局，将批次实验的样本、校准品、质控品和空白分配到孔位；
+-- 支持按配置的排布方案自动填充、手动调整、确认锁定，并导出移液工作站和仪器的工作列表
+
+-- 孔板布局表
+CREATE TABLE IF NOT EXISTS plate_layouts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_no VARCHAR(50) NOT NULL,
+    plate_no INTEGER NOT NULL DEFAULT 1,
+    plate_format INTEGER NOT NULL DEFAULT 96 CHECK (plate_format IN (96, 384)),
+    method VARCHAR(50) NOT NULL CHECK (method IN ('routine', 'mass_spec', 'special')),
+    pattern JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'confirmed')),
+    confirmed_by UUID REFERENCES users(id),
+    confirmed_at TIMESTAMP WITH TIME ZONE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID,
+    UNIQUE (batch_no, plate_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plate_layouts_batch_no ON plate_layouts(batch_no);
+CREATE INDEX IF NOT EXISTS idx_experiments_batch_no ON experiments(batch_no);
+
+COMMENT ON TABLE plate_layouts IS '实验批次孔板布局';
+COMMENT ON COLUMN plate_layouts.plate_no IS '批次内孔板序号，样本超过一块板容量时顺延到下一块板';
+COMMENT ON COLUMN plate_layouts.plate_format IS '孔板规格：96-8行12列，384-16行24列';
+COMMENT ON COLUMN plate_layouts.pattern IS '生成布局时使用的排布方案（JSON）';
+COMMENT ON COLUMN plate_layouts.status IS '状态：draft-草稿，confirmed-已确认（锁定，不能再修改）';
+
+-- 孔位分配表
+CREATE TABLE IF NOT EXISTS plate_wells (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    layout_id UUID NOT NULL REFERENCES plate_layouts(id) ON DELETE CASCADE,
+    row_no INTEGER NOT NULL CHECK (row_no >= 1),
+    col_no INTEGER NOT NULL CHECK (col_no >= 1),
+    well_type VARCHAR(20) NOT NULL CHECK (well_type IN ('sample', 'calibrator', 'control', 'blank')),
+    experiment_id UUID REFERENCES experiments(id),
+    sample_id UUID REFERENCES samples(id),
+    label VARCHAR(50),
+    level VARCHAR(20),
+    concentration DECIMAL(15,6),
+    replicate INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (layout_id, row_no, col_no),
+    CHECK (well_type <> 'sample' OR experiment_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plate_wells_experiment_id ON plate_wells(experiment_id);
+
+COMMENT ON TABLE plate_wells IS '孔板孔位分配';
+COMMENT ON COLUMN plate_wells.well_type IS '孔位类型：sample-样本，calibrator-校准品，control-质控品，blank-空白';
+COMMENT ON COLUMN plate_wells.label IS '校准品、质控品或空白的名称，如 CAL1、QC-L';
+COMMENT ON COLUMN plate_wells.level IS '校准品或质控品水平';
+COMMENT ON COLUMN plate_wells.replicate IS '复孔序号';
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('plate.fill_patterns', '[{"key":"standard","name":"标准曲线+质控","direction":"column","blanks":1,"calibrators":[{"label":"CAL1","level":"1"},{"label":"CAL2","level":"2"},{"label":"CAL3","level":"3"},{"label":"CAL4","level":"4"},{"label":"CAL5","level":"5"},{"label":"CAL6","level":"6"}],"controls":[{"label":"QC-L","level":"L"},{"label":"QC-H","level":"H"}],"control_interval":20,"trailing_controls":true,"sample_replicates":1,"skip_edge_wells":false},{"key":"duplicate","name":"样本复孔","direction":"row","blanks":2,"calibrators":[],"controls":[{"label":"QC-L","level":"L"},{"label":"QC-H","level":"H"}],"control_interval":0,"trailing_controls":true,"sample_replicates":2,"skip_edge_wells":true}]', 'json', 'plate', '孔板自动填充排布方案', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
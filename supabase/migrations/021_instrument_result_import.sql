@@ -0,0 +1,63 @@
+-- 仪器结果文件导入
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 各仪器厂商导出的结果文件版式不同，按仪器保存列映射方案；导入时按方案读取CSV/TSV/XLSX，
+-- 以样本条码或样本编号匹配实验，预览校验错误后写入实验数据，原始行保留在 experiment_data.instrument_data
+
+-- 仪器导入映射方案表
+CREATE TABLE IF NOT EXISTS instrument_import_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    equipment_id UUID REFERENCES equipment(id),
+    method VARCHAR(50) NOT NULL CHECK (method IN ('routine', 'mass_spec', 'special')),
+    delimiter VARCHAR(5),
+    header_row INTEGER NOT NULL DEFAULT 1 CHECK (header_row >= 1),
+    layout VARCHAR(10) NOT NULL DEFAULT 'wide' CHECK (layout IN ('wide', 'long')),
+    sample_column VARCHAR(100) NOT NULL,
+    sample_key VARCHAR(20) NOT NULL DEFAULT 'barcode' CHECK (sample_key IN ('barcode', 'sample_no')),
+    item_columns JSONB NOT NULL DEFAULT '[]',
+    item_column VARCHAR(100),
+    value_column VARCHAR(100),
+    unit_column VARCHAR(100),
+    measured_at_column VARCHAR(100),
+    skip_sample_pattern VARCHAR(200),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID,
+    CHECK (layout = 'wide' OR (item_column IS NOT NULL AND value_column IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_instrument_import_profiles_method ON instrument_import_profiles(method);
+
+COMMENT ON TABLE instrument_import_profiles IS '仪器结果导入映射方案';
+COMMENT ON COLUMN instrument_import_profiles.delimiter IS 'CSV/TSV分隔符，为空时按表头行自动识别';
+COMMENT ON COLUMN instrument_import_profiles.header_row IS '表头所在行号，之前的行（仪器信息等）忽略';
+COMMENT ON COLUMN instrument_import_profiles.layout IS '版式：wide-每行一个样本、每个检测项目一列，long-每行一个样本的一个检测项目';
+COMMENT ON COLUMN instrument_import_profiles.sample_key IS '样本列内容：barcode-样本条码，sample_no-样本编号';
+COMMENT ON COLUMN instrument_import_profiles.item_columns IS 'wide版式的项目列映射（JSON），如 [{"column": "Glu", "item_code": "GLU", "unit_column": "Glu Unit"}]';
+COMMENT ON COLUMN instrument_import_profiles.item_column IS 'long版式的检测项目列，按项目编码或名称匹配';
+COMMENT ON COLUMN instrument_import_profiles.skip_sample_pattern IS '样本列匹配该通配符规则的行（校准品、质控品、空白等）不导入，* 匹配任意字符，? 匹配单个字符，多条以逗号分隔';
+
+-- 仪器结果导入记录表
+CREATE TABLE IF NOT EXISTS instrument_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id UUID NOT NULL REFERENCES instrument_import_profiles(id),
+    file_name VARCHAR(255) NOT NULL,
+    row_count INTEGER NOT NULL DEFAULT 0,
+    experiment_count INTEGER NOT NULL DEFAULT 0,
+    result_count INTEGER NOT NULL DEFAULT 0,
+    imported_by UUID REFERENCES users(id),
+    imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_instrument_imports_profile_id ON instrument_imports(profile_id);
+CREATE INDEX IF NOT EXISTS idx_instrument_imports_imported_at ON instrument_imports(imported_at);
+
+COMMENT ON TABLE instrument_imports IS '仪器结果导入记录';
+COMMENT ON COLUMN instrument_imports.row_count IS '导入的数据行数（不含跳过的行）';
+COMMENT ON COLUMN instrument_imports.result_count IS '写入的实验数据条数';
+
+COMMENT ON COLUMN experiment_data.instrument_data IS '仪器数据（JSON），文件导入时含导入记录ID、源文件行号及原始行';
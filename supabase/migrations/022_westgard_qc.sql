@@ -0,0 +1,89 @@
+-- 质控品批号与Westgard多规则质控
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 质控品按批号和水平登记，各检测项目设定靶值和标准差；每次质控结果计算Z值并按配置的Westgard多规则判定，
+-- 失控的质控结果在采取纠正措施前阻止同一批次该检测项目的患者结果审核发布；终审通过后批次质控才失控的，
+-- 已录入该项目结果的实验改为 on_hold（暂停发布），记录纠正措施后恢复为审核通过
+
+-- 质控品批号表
+CREATE TABLE IF NOT EXISTS qc_lots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lot_no VARCHAR(50) NOT NULL,
+    material_name VARCHAR(100) NOT NULL,
+    level VARCHAR(20) NOT NULL,
+    manufacturer VARCHAR(100),
+    method VARCHAR(50) NOT NULL CHECK (method IN ('routine', 'mass_spec', 'special')),
+    expiry_date DATE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID,
+    UNIQUE (lot_no, level)
+);
+
+COMMENT ON TABLE qc_lots IS '质控品批号';
+COMMENT ON COLUMN qc_lots.level IS '质控水平，如 L、N、H 或 1、2、3';
+
+-- 质控品靶值表
+CREATE TABLE IF NOT EXISTS qc_lot_targets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lot_id UUID NOT NULL REFERENCES qc_lots(id) ON DELETE CASCADE,
+    item_id UUID NOT NULL REFERENCES test_items(id),
+    target_mean DECIMAL(15,6) NOT NULL,
+    target_sd DECIMAL(15,6) NOT NULL CHECK (target_sd > 0),
+    unit VARCHAR(20),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (lot_id, item_id)
+);
+
+COMMENT ON TABLE qc_lot_targets IS '质控品各检测项目的靶值和标准差';
+
+-- 质控结果表
+CREATE TABLE IF NOT EXISTS qc_results (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lot_id UUID NOT NULL REFERENCES qc_lots(id),
+    item_id UUID NOT NULL REFERENCES test_items(id),
+    batch_no VARCHAR(50) NOT NULL,
+    equipment_id UUID REFERENCES equipment(id),
+    measured_value DECIMAL(15,6) NOT NULL,
+    target_mean DECIMAL(15,6) NOT NULL,
+    target_sd DECIMAL(15,6) NOT NULL,
+    z_score DECIMAL(8,3) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('accepted', 'warning', 'rejected')),
+    violations JSONB NOT NULL DEFAULT '[]',
+    measured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    corrective_action TEXT,
+    resolved_by UUID REFERENCES users(id),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_results_lot_item_measured ON qc_results(lot_id, item_id, measured_at);
+CREATE INDEX IF NOT EXISTS idx_qc_results_batch_item ON qc_results(batch_no, item_id);
+CREATE INDEX IF NOT EXISTS idx_qc_results_unresolved ON qc_results(batch_no) WHERE status = 'rejected' AND resolved_at IS NULL;
+
+COMMENT ON TABLE qc_results IS '质控结果';
+COMMENT ON COLUMN qc_results.batch_no IS '质控所属的实验批次（分析批）';
+COMMENT ON COLUMN qc_results.target_mean IS '判定时的靶值，靶值调整后历史结果仍按原靶值显示';
+COMMENT ON COLUMN qc_results.z_score IS '(测定值 - 靶值) / 标准差';
+COMMENT ON COLUMN qc_results.status IS '判定结果：accepted-在控，warning-警告，rejected-失控';
+COMMENT ON COLUMN qc_results.violations IS '违反的Westgard规则（JSON），如 [{"rule": "2-2s", "action": "reject"}]';
+COMMENT ON COLUMN qc_results.corrective_action IS '失控后采取的纠正措施，填写后解除对本批次患者结果的阻止';
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('qc.westgard_rules', '{"1-2s": "warning", "1-3s": "reject", "2-2s": "reject", "R-4s": "reject", "4-1s": "reject", "10x": "reject"}', 'json', 'qc', 'Westgard规则判定：warning-警告，reject-失控，off-不启用', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
+
+-- 实验审核状态增加质控失控暂停发布
+ALTER TABLE experiments DROP CONSTRAINT IF EXISTS experiments_review_status_check;
+
+ALTER TABLE experiments
+    ADD CONSTRAINT experiments_review_status_check
+    CHECK (review_status IN ('not_submitted', 'pending', 'approved', 'on_hold', 'rejected'));
+
+COMMENT ON COLUMN experiments.review_status IS '审核状态：not_submitted-未提交，pending-审核中，approved-审核通过，on_hold-质控失控暂停发布，rejected-已驳回';
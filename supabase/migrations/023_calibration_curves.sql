@@ -0,0 +1,69 @@
+-- 质谱校准曲线与定量
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 按实验批次和检测项目建立校准曲线，校准品响应（可用内标峰面积比）按线性或二次加权拟合，
+-- 按r²和校准品回算准确度判定曲线是否合格；合格曲线将同批次未知样本的峰面积定量为浓度写入实验数据
+
+-- 校准曲线表
+CREATE TABLE IF NOT EXISTS calibration_curves (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_no VARCHAR(50) NOT NULL,
+    item_id UUID NOT NULL REFERENCES test_items(id),
+    fit_type VARCHAR(20) NOT NULL DEFAULT 'linear' CHECK (fit_type IN ('linear', 'quadratic')),
+    weighting VARCHAR(10) NOT NULL DEFAULT 'none' CHECK (weighting IN ('none', '1/x', '1/x2')),
+    use_internal_standard BOOLEAN NOT NULL DEFAULT TRUE,
+    intercept DECIMAL(20,10),
+    slope DECIMAL(20,10),
+    quadratic DECIMAL(20,10),
+    r_squared DECIMAL(8,6),
+    lloq DECIMAL(15,6),
+    uloq DECIMAL(15,6),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('passed', 'failed')),
+    failure_reasons JSONB NOT NULL DEFAULT '[]',
+    acceptance JSONB NOT NULL DEFAULT '{}',
+    quantified_at TIMESTAMP WITH TIME ZONE,
+    quantified_by UUID REFERENCES users(id),
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID,
+    UNIQUE (batch_no, item_id)
+);
+
+COMMENT ON TABLE calibration_curves IS '校准曲线';
+COMMENT ON COLUMN calibration_curves.weighting IS '拟合权重：none-不加权，1/x，1/x2-1/x²';
+COMMENT ON COLUMN calibration_curves.use_internal_standard IS '响应是否取待测物与内标峰面积之比';
+COMMENT ON COLUMN calibration_curves.intercept IS '响应 = quadratic·x² + slope·x + intercept';
+COMMENT ON COLUMN calibration_curves.lloq IS '定量下限：通过的最低浓度校准品';
+COMMENT ON COLUMN calibration_curves.uloq IS '定量上限：通过的最高浓度校准品';
+COMMENT ON COLUMN calibration_curves.failure_reasons IS '曲线不合格原因（JSON字符串数组）';
+COMMENT ON COLUMN calibration_curves.acceptance IS '判定时使用的验收标准（JSON）';
+
+-- 校准品表
+CREATE TABLE IF NOT EXISTS calibration_points (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    curve_id UUID NOT NULL REFERENCES calibration_curves(id) ON DELETE CASCADE,
+    level VARCHAR(20) NOT NULL,
+    nominal_concentration DECIMAL(15,6) NOT NULL CHECK (nominal_concentration > 0),
+    analyte_area DECIMAL(20,4) NOT NULL CHECK (analyte_area >= 0),
+    is_area DECIMAL(20,4) CHECK (is_area > 0),
+    response DECIMAL(20,10) NOT NULL,
+    back_calculated DECIMAL(15,6),
+    accuracy DECIMAL(8,2),
+    is_excluded BOOLEAN NOT NULL DEFAULT FALSE,
+    passed BOOLEAN NOT NULL DEFAULT FALSE,
+    sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_calibration_points_curve ON calibration_points(curve_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_calibration_curves_batch ON calibration_curves(batch_no);
+
+COMMENT ON TABLE calibration_points IS '校准品测定结果';
+COMMENT ON COLUMN calibration_points.is_area IS '内标峰面积';
+COMMENT ON COLUMN calibration_points.accuracy IS '回算准确度：回算浓度 / 标示浓度 × 100';
+COMMENT ON COLUMN calibration_points.is_excluded IS '人工剔除，不参与拟合和判定';
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('quant.calibration_acceptance', '{"min_r_squared": 0.99, "accuracy_tolerance": 15, "lloq_tolerance": 20, "min_pass_ratio": 0.75, "min_levels": 5}', 'json', 'quant', '校准曲线验收标准：r²下限、校准品回算偏差（%）、最低浓度点偏差（%）、通过比例及最少校准品数', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
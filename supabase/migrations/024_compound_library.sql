@@ -0,0 +1,67 @@
+-- 化合物库与质谱峰鉴定
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 维护化合物库（分子式、单同位素质量、预期保留时间、可能的加合离子），上传的质谱峰按ppm质量偏差和
+-- 保留时间容差与化合物库比对打分，给出候选化合物；审核人员确认候选或人工改判
+
+-- 化合物库表
+CREATE TABLE IF NOT EXISTS compounds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(200) NOT NULL UNIQUE,
+    formula VARCHAR(100) NOT NULL,
+    monoisotopic_mass DECIMAL(14,6) NOT NULL CHECK (monoisotopic_mass > 0),
+    expected_rt DECIMAL(8,3) CHECK (expected_rt >= 0),
+    adducts JSONB NOT NULL DEFAULT '[]',
+    cas_no VARCHAR(30),
+    category VARCHAR(100),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID
+);
+
+CREATE INDEX IF NOT EXISTS idx_compounds_mass ON compounds(monoisotopic_mass) WHERE is_active;
+
+COMMENT ON TABLE compounds IS '化合物库';
+COMMENT ON COLUMN compounds.monoisotopic_mass IS '中性分子单同位素质量（Da）';
+COMMENT ON COLUMN compounds.expected_rt IS '预期保留时间（分钟），为空时不参与保留时间比对';
+COMMENT ON COLUMN compounds.adducts IS '可能的加合离子（JSON字符串数组），如["[M+H]+","[M+Na]+"]';
+
+-- 质谱峰表
+CREATE TABLE IF NOT EXISTS mass_spec_peaks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    experiment_id UUID NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+    peak_no VARCHAR(50) NOT NULL,
+    mz DECIMAL(14,6) NOT NULL CHECK (mz > 0),
+    intensity DECIMAL(20,4) NOT NULL CHECK (intensity >= 0),
+    retention_time DECIMAL(8,3) NOT NULL CHECK (retention_time >= 0),
+    compound_id UUID REFERENCES compounds(id) ON DELETE SET NULL,
+    compound VARCHAR(200),
+    formula VARCHAR(100),
+    adduct VARCHAR(30),
+    confidence DECIMAL(5,2),
+    candidates JSONB NOT NULL DEFAULT '[]',
+    annotation_status VARCHAR(20) NOT NULL DEFAULT 'unmatched' CHECK (annotation_status IN ('unmatched', 'suggested', 'accepted', 'overridden')),
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID,
+    UNIQUE (experiment_id, peak_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mass_spec_peaks_experiment ON mass_spec_peaks(experiment_id, retention_time);
+CREATE INDEX IF NOT EXISTS idx_mass_spec_peaks_status ON mass_spec_peaks(annotation_status);
+
+COMMENT ON TABLE mass_spec_peaks IS '质谱峰及化合物鉴定';
+COMMENT ON COLUMN mass_spec_peaks.confidence IS '鉴定置信度（0-100）：匹配得分或人工改判时填写';
+COMMENT ON COLUMN mass_spec_peaks.candidates IS '化合物库比对候选（JSON数组），按得分降序';
+COMMENT ON COLUMN mass_spec_peaks.annotation_status IS '鉴定状态：unmatched-无匹配，suggested-待确认，accepted-已确认，overridden-人工改判';
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('ms.compound_matching', '{"ppm_tolerance": 10, "rt_tolerance": 0.5, "mass_weight": 0.7, "min_score": 60, "max_candidates": 5}', 'json', 'ms', '化合物比对参数：质量偏差容差（ppm）、保留时间容差（分钟）、质量得分权重、建议鉴定的最低得分及保留的候选数', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
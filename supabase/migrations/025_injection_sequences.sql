@@ -0,0 +1,54 @@
+-- 质谱进样序列
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 按配置的序列规则由实验批次生成LC-MS进样顺序（空白、系统适用性、校准品、质控和未知样本穿插，
+-- 按间隔插入质控包夹未知样本），检查质控包夹是否违规，确认后导出采集软件的序列文件
+
+-- 进样序列表
+CREATE TABLE IF NOT EXISTS injection_sequences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_no VARCHAR(50) NOT NULL UNIQUE,
+    rules JSONB NOT NULL,
+    violations JSONB NOT NULL DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'confirmed')),
+    confirmed_by UUID REFERENCES users(id),
+    confirmed_at TIMESTAMP WITH TIME ZONE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID,
+    updated_by UUID
+);
+
+COMMENT ON TABLE injection_sequences IS '质谱进样序列';
+COMMENT ON COLUMN injection_sequences.rules IS '生成和检查序列使用的序列规则（JSON）';
+COMMENT ON COLUMN injection_sequences.violations IS '最近一次保存时检查出的违规（JSON数组）';
+COMMENT ON COLUMN injection_sequences.status IS '状态：draft-草稿，confirmed-已确认（锁定，不能再修改）';
+
+-- 进样表
+CREATE TABLE IF NOT EXISTS injection_sequence_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sequence_id UUID NOT NULL REFERENCES injection_sequences(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL CHECK (position >= 1),
+    injection_type VARCHAR(20) NOT NULL CHECK (injection_type IN ('blank', 'sst', 'calibrator', 'qc', 'unknown')),
+    experiment_id UUID REFERENCES experiments(id),
+    sample_id UUID REFERENCES samples(id),
+    label VARCHAR(50),
+    level VARCHAR(20),
+    replicate INTEGER NOT NULL DEFAULT 1,
+    vial_position VARCHAR(20),
+    injection_volume DECIMAL(8,2),
+    UNIQUE (sequence_id, position),
+    CHECK (injection_type <> 'unknown' OR experiment_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_injection_sequence_items_experiment ON injection_sequence_items(experiment_id);
+
+COMMENT ON TABLE injection_sequence_items IS '进样序列中的进样';
+COMMENT ON COLUMN injection_sequence_items.injection_type IS '进样类型：blank-空白，sst-系统适用性，calibrator-校准品，qc-质控，unknown-未知样本';
+COMMENT ON COLUMN injection_sequence_items.vial_position IS '进样盘位置，批次有孔板布局时取孔位，如 P1-A01';
+COMMENT ON COLUMN injection_sequence_items.injection_volume IS '进样体积（μL）';
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('ms.sequence_rules', '[{"key":"standard","name":"标准序列","leading_blanks":2,"sst_injections":1,"calibrators":[{"label":"CAL1","level":"1"},{"label":"CAL2","level":"2"},{"label":"CAL3","level":"3"},{"label":"CAL4","level":"4"},{"label":"CAL5","level":"5"},{"label":"CAL6","level":"6"}],"blanks_after_calibrators":1,"qcs":[{"label":"QC-L","level":"L"},{"label":"QC-M","level":"M"},{"label":"QC-H","level":"H"}],"qc_interval":10,"trailing_qc":true,"trailing_blanks":1,"unknown_replicates":1,"injection_volume":5}]', 'json', 'ms', '质谱进样序列规则', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
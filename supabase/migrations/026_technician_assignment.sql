@@ -0,0 +1,33 @@
+-- 实验员自动分配
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 待开始的实验按方法学资质和当前工作量分配给在岗实验员，加急送检优先分配；实验员须绑定该方法学
+-- 且持有该方法学未过期的资质认证，分配记录留存备查
+
+-- 约定实验员资质字段格式
+COMMENT ON COLUMN technicians.methods IS '绑定的方法学（JSON数组），如 ["routine", "mass_spec"]';
+COMMENT ON COLUMN technicians.certifications IS '资质认证（JSON数组），每项含 method-方法学、name-证书名称、cert_no-证书编号、expires_at-有效期至（为空表示长期有效）';
+
+-- 实验分配记录表
+CREATE TABLE IF NOT EXISTS experiment_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    experiment_id UUID NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+    technician_id UUID NOT NULL REFERENCES technicians(id),
+    previous_technician_id UUID REFERENCES technicians(id),
+    assign_mode VARCHAR(20) NOT NULL CHECK (assign_mode IN ('auto', 'manual')),
+    open_workload DECIMAL(8,2),
+    is_urgent BOOLEAN NOT NULL DEFAULT FALSE,
+    assigned_by UUID REFERENCES users(id),
+    assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiment_assignments_experiment ON experiment_assignments(experiment_id, assigned_at);
+CREATE INDEX IF NOT EXISTS idx_experiments_technician_status ON experiments(technician_id, status);
+
+COMMENT ON TABLE experiment_assignments IS '实验分配记录表';
+COMMENT ON COLUMN experiment_assignments.assign_mode IS '分配方式：auto-自动分配，manual-人工指定';
+COMMENT ON COLUMN experiment_assignments.open_workload IS '分配前实验员的未完成工作量（加急实验按权重计）';
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('experiment.assignment', '{"max_open_workload": 20, "urgent_weight": 2, "cert_expiry_warning_days": 30}', 'json', 'experiment', '实验员自动分配参数：每人未完成工作量上限、加急实验工作量权重、资质到期提醒天数', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
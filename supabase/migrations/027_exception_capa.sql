@@ -0,0 +1,192 @@
+-- 异常与CAPA统一管理
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 实验、样本、设备、环境异常统一登记在 experiment_exceptions；按 登记→调查→整改→验证→关闭 流转，
+-- 调查记录根本原因，纠正/预防措施（CAPA）各自有负责人和完成期限，完成后做有效性验证，全部有效后由主管签字关闭；
+-- 每次流转写入异常处理记录，作为CAPA台账
+
+-- =============================================================================
+-- 1. 异常表扩展为统一异常
+-- =============================================================================
+
+ALTER TABLE experiment_exceptions
+    ALTER COLUMN experiment_id DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS exception_no VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS source_type VARCHAR(20) NOT NULL DEFAULT 'experiment',
+    ADD COLUMN IF NOT EXISTS method VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS sample_id UUID REFERENCES samples(id),
+    ADD COLUMN IF NOT EXISTS equipment_id UUID REFERENCES equipment(id),
+    ADD COLUMN IF NOT EXISTS monitoring_point_id UUID REFERENCES monitoring_points(id),
+    ADD COLUMN IF NOT EXISTS temperature_excursion_id UUID REFERENCES temperature_excursions(id),
+    ADD COLUMN IF NOT EXISTS title VARCHAR(200),
+    ADD COLUMN IF NOT EXISTS occurred_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS due_date DATE,
+    ADD COLUMN IF NOT EXISTS investigation TEXT,
+    ADD COLUMN IF NOT EXISTS root_cause TEXT,
+    ADD COLUMN IF NOT EXISTS impact TEXT,
+    ADD COLUMN IF NOT EXISTS estimated_loss DECIMAL(12,2),
+    ADD COLUMN IF NOT EXISTS actual_loss DECIMAL(12,2);
+
+-- 历史异常均为实验异常，补齐方法学和编号
+UPDATE experiment_exceptions ee
+SET method = e.method
+FROM experiments e
+WHERE ee.experiment_id = e.id AND ee.method IS NULL;
+
+UPDATE experiment_exceptions ee
+SET exception_no = numbered.exception_no
+FROM (
+    SELECT
+        id,
+        'EX' || TO_CHAR(COALESCE(created_at, NOW()), 'YYYYMMDD')
+            || LPAD(ROW_NUMBER() OVER (
+                PARTITION BY TO_CHAR(COALESCE(created_at, NOW()), 'YYYYMMDD')
+                ORDER BY created_at, id
+            )::TEXT, 3, '0') AS exception_no
+    FROM experiment_exceptions
+    WHERE exception_no IS NULL
+) numbered
+WHERE ee.id = numbered.id;
+
+ALTER TABLE experiment_exceptions
+    ALTER COLUMN exception_no SET NOT NULL,
+    ADD CONSTRAINT uk_experiment_exceptions_exception_no UNIQUE (exception_no),
+    ADD CONSTRAINT chk_experiment_exceptions_source_type CHECK (source_type IN ('experiment', 'sample', 'equipment', 'environment'));
+
+-- 状态改为CAPA流程，原处理中视为调查中，原已解决视为待验证
+ALTER TABLE experiment_exceptions DROP CONSTRAINT IF EXISTS experiment_exceptions_status_check;
+
+UPDATE experiment_exceptions SET status = 'investigating' WHERE status = 'in_progress';
+UPDATE experiment_exceptions SET status = 'verification' WHERE status = 'resolved';
+
+ALTER TABLE experiment_exceptions
+    ADD CONSTRAINT experiment_exceptions_status_check
+    CHECK (status IN ('open', 'investigating', 'action', 'verification', 'closed', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_experiment_exceptions_source ON experiment_exceptions(source_type, method);
+CREATE INDEX IF NOT EXISTS idx_experiment_exceptions_sample_id ON experiment_exceptions(sample_id);
+CREATE INDEX IF NOT EXISTS idx_experiment_exceptions_equipment_id ON experiment_exceptions(equipment_id);
+CREATE INDEX IF NOT EXISTS idx_experiment_exceptions_assignee ON experiment_exceptions(assignee_id, status);
+CREATE INDEX IF NOT EXISTS idx_experiment_exceptions_created_at ON experiment_exceptions(created_at);
+
+COMMENT ON TABLE experiment_exceptions IS '异常表（实验、样本、设备、环境异常统一登记）';
+COMMENT ON COLUMN experiment_exceptions.exception_no IS '异常编号';
+COMMENT ON COLUMN experiment_exceptions.source_type IS '异常来源：experiment-实验，sample-样本，equipment-设备，environment-环境';
+COMMENT ON COLUMN experiment_exceptions.method IS '实验方法，实验异常按方法学控制权限';
+COMMENT ON COLUMN experiment_exceptions.temperature_excursion_id IS '环境异常关联的温度偏离';
+COMMENT ON COLUMN experiment_exceptions.status IS '状态：open-待处理，investigating-调查中，action-整改中，verification-待验证，closed-已关闭，cancelled-已取消';
+COMMENT ON COLUMN experiment_exceptions.due_date IS '调查完成期限';
+COMMENT ON COLUMN experiment_exceptions.root_cause IS '根本原因，确认后才能制定纠正/预防措施';
+COMMENT ON COLUMN experiment_exceptions.estimated_loss IS '预估损失（元）';
+COMMENT ON COLUMN experiment_exceptions.actual_loss IS '实际损失（元）';
+COMMENT ON COLUMN experiment_exceptions.resolution IS '关闭结论';
+COMMENT ON COLUMN experiment_exceptions.resolver_id IS '关闭签字人';
+COMMENT ON COLUMN experiment_exceptions.resolved_at IS '关闭时间';
+
+-- =============================================================================
+-- 2. 纠正/预防措施表
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS exception_actions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    exception_id UUID NOT NULL REFERENCES experiment_exceptions(id) ON DELETE CASCADE,
+    action_type VARCHAR(20) NOT NULL CHECK (action_type IN ('corrective', 'preventive')),
+    description TEXT NOT NULL,
+    owner_id UUID NOT NULL REFERENCES users(id),
+    due_date DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'cancelled')),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    completion_notes TEXT,
+    effectiveness VARCHAR(20) CHECK (effectiveness IN ('effective', 'ineffective')),
+    effectiveness_checked_by UUID REFERENCES users(id),
+    effectiveness_checked_at TIMESTAMP WITH TIME ZONE,
+    effectiveness_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exception_actions_exception ON exception_actions(exception_id);
+CREATE INDEX IF NOT EXISTS idx_exception_actions_owner_status ON exception_actions(owner_id, status);
+CREATE INDEX IF NOT EXISTS idx_exception_actions_due_date ON exception_actions(due_date) WHERE status = 'open';
+
+COMMENT ON TABLE exception_actions IS '异常纠正/预防措施表';
+COMMENT ON COLUMN exception_actions.action_type IS '措施类型：corrective-纠正措施，preventive-预防措施';
+COMMENT ON COLUMN exception_actions.due_date IS '完成期限';
+COMMENT ON COLUMN exception_actions.status IS '状态：open-执行中，completed-已完成，cancelled-已取消';
+COMMENT ON COLUMN exception_actions.effectiveness IS '有效性验证结果：effective-有效，ineffective-无效（措施退回执行中）';
+
+-- =============================================================================
+-- 3. 异常处理记录表（CAPA台账）
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS exception_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    exception_id UUID NOT NULL REFERENCES experiment_exceptions(id) ON DELETE CASCADE,
+    action_id UUID REFERENCES exception_actions(id) ON DELETE SET NULL,
+    event_type VARCHAR(30) NOT NULL,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20),
+    comments TEXT,
+    operator_id UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exception_events_exception ON exception_events(exception_id, created_at);
+
+COMMENT ON TABLE exception_events IS '异常处理记录表';
+COMMENT ON COLUMN exception_events.event_type IS '事件类型：created-登记，assigned-指派，investigated-调查，action_added-制定措施，action_updated-调整措施，action_completed-完成措施，action_cancelled-取消措施，effectiveness_checked-有效性验证，closed-关闭，cancelled-取消';
+
+-- =============================================================================
+-- 4. 补齐异常处理权限
+-- =============================================================================
+
+-- 质谱异常处理页面已使用该权限但未初始化
+INSERT INTO permissions (id, code, name, module, page_name, route_path, description, sort_order, is_active)
+SELECT
+    gen_random_uuid(),
+    'mass_spec.exception',
+    '质谱异常处理',
+    '质谱实验管理',
+    '质谱异常处理',
+    '/mass-spec/exception-handle',
+    '处理质谱异常',
+    44,
+    TRUE
+WHERE NOT EXISTS (
+    SELECT 1 FROM permissions WHERE code = 'mass_spec.exception'
+);
+
+INSERT INTO permissions (id, code, name, module, page_name, route_path, description, sort_order, is_active)
+SELECT
+    gen_random_uuid(),
+    'special.exception',
+    '特检异常中心',
+    '特检实验管理',
+    '特检异常中心',
+    '/special-experiment/exception-center',
+    '处理特检异常',
+    54,
+    TRUE
+WHERE NOT EXISTS (
+    SELECT 1 FROM permissions WHERE code = 'special.exception'
+);
+
+-- 系统管理员和实验室主管拥有全部异常处理权限
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+CROSS JOIN permissions p
+WHERE r.name IN ('admin', 'lab_manager')
+  AND p.code IN ('routine.exception', 'mass_spec.exception', 'special.exception')
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+-- =============================================================================
+-- 5. 调查期限配置
+-- =============================================================================
+
+INSERT INTO system_configs (config_key, config_value, config_type, category, description, is_system) VALUES
+('exception.capa', '{"investigation_days": {"low": 10, "medium": 7, "high": 3, "critical": 1}}', 'json', 'quality', '异常CAPA参数：指派时未指定期限的，按严重程度确定调查完成天数', FALSE)
+ON CONFLICT (config_key) DO NOTHING;
@@ -0,0 +1,52 @@
+-- 送检状态变更与取消权限
+-- 创建时间: 2025-08-20
+-- 创建人: Erikwang
+-- 描述: 送检状态变更、取消送检原先只校验送检列表查看权限，拆分为 submission.edit、submission.cancel 两个写权限；
+-- 已有创建送检权限的角色及系统管理员默认授予
+
+INSERT INTO permissions (id, code, name, module, page_name, route_path, description, sort_order, is_active)
+SELECT
+    gen_random_uuid(),
+    'submission.edit',
+    '送检状态变更',
+    '送检管理',
+    '送检列表',
+    '/submission/list',
+    '变更送检申请状态',
+    14,
+    TRUE
+WHERE NOT EXISTS (
+    SELECT 1 FROM permissions WHERE code = 'submission.edit'
+);
+
+INSERT INTO permissions (id, code, name, module, page_name, route_path, description, sort_order, is_active)
+SELECT
+    gen_random_uuid(),
+    'submission.cancel',
+    '取消送检',
+    '送检管理',
+    '送检列表',
+    '/submission/list',
+    '取消送检申请',
+    15,
+    TRUE
+WHERE NOT EXISTS (
+    SELECT 1 FROM permissions WHERE code = 'submission.cancel'
+);
+
+-- 系统管理员及可创建送检的角色
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT DISTINCT r.id, p.id
+FROM roles r
+CROSS JOIN permissions p
+WHERE p.code IN ('submission.edit', 'submission.cancel')
+  AND (
+    r.name = 'admin'
+    OR EXISTS (
+        SELECT 1
+        FROM role_permissions rp
+        JOIN permissions cp ON cp.id = rp.permission_id
+        WHERE rp.role_id = r.id AND cp.code = 'submission.create'
+    )
+  )
+ON CONFLICT (role_id, permission_id) DO NOTHING;